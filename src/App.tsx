@@ -25,6 +25,7 @@ import { Calendar } from './pages/Calendar';
 import { EventsDiagnostic } from './pages/EventsDiagnostic';
 import { MediaStacks } from './pages/MediaStacks';
 import { SharedStackView } from './pages/SharedStackView';
+import { ContributeView } from './pages/ContributeView';
 
 function App() {
   return (
@@ -77,6 +78,10 @@ function App() {
                 <Route path="/stack/share/:token" element={<SharedStackView />} />
                 <Route path="/stack/share/:title/:token" element={<SharedStackView />} />
 
+                {/* Guest uploads to an event - Public */}
+                <Route path="/contribute/:token" element={<ContributeView />} />
+                <Route path="/contribute/:title/:token" element={<ContributeView />} />
+
                 {/* Dedicated Event Reading View - No Layout, open in new tab */}
                 <Route
                   path="/event/:id/view"
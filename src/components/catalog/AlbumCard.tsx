@@ -17,6 +17,7 @@ interface AlbumCardProps {
     onDuplicate?: () => void;
     onShare?: () => void;
     onPrint?: () => void;
+    onBackup?: () => void;
 }
 
 import { AlbumPage } from '../viewer/AlbumPage';
@@ -28,7 +29,7 @@ import { AlbumPage } from '../viewer/AlbumPage';
  * Rendering: Cover image as the background of the album box.
  */
 export function AlbumCard(props: AlbumCardProps) {
-    const { id, title, cover_url, category, created_at, pages, location, config, onEdit, onDelete, onDuplicate, onShare, onPrint } = props;
+    const { id, title, cover_url, category, created_at, pages, location, config, onEdit, onDelete, onDuplicate, onShare, onPrint, onBackup } = props;
 
 
     const pageCount = pages?.length || 0;
@@ -215,6 +216,7 @@ export function AlbumCard(props: AlbumCardProps) {
                     onDuplicate={onDuplicate}
                     onShare={onShare}
                     onPrint={onPrint}
+                    onBackup={onBackup}
                     variant="dark"
                     className="flex flex-col gap-2 glass-dark p-2 rounded-2xl border border-white/10 shadow-2xl backdrop-blur-4xl"
                 />
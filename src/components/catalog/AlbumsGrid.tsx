@@ -9,6 +9,7 @@ interface AlbumsGridProps {
     onDuplicate: (id: string) => void;
     onShare: (id: string) => void;
     onPrint: (id: string) => void;
+    onBackup: (id: string) => void;
 }
 
 /**
@@ -17,7 +18,7 @@ interface AlbumsGridProps {
  * Logic: Thumbnails are programmatically linked to cover_image_url 
  * which is synced to page_number: 1.
  */
-export function AlbumsGrid({ albums, viewMode, onEdit, onDelete, onDuplicate, onShare, onPrint }: AlbumsGridProps) {
+export function AlbumsGrid({ albums, viewMode, onEdit, onDelete, onDuplicate, onShare, onPrint, onBackup }: AlbumsGridProps) {
     if (albums.length === 0) {
         return (
             <div className="text-center py-20 bg-catalog-stone/10 rounded-xl border-2 border-dashed border-catalog-accent/10">
@@ -41,6 +42,7 @@ export function AlbumsGrid({ albums, viewMode, onEdit, onDelete, onDuplicate, on
                     onDuplicate={() => onDuplicate(album.id)}
                     onShare={() => onShare(album.id)}
                     onPrint={() => onPrint(album.id)}
+                    onBackup={() => onBackup(album.id)}
                 />
             ))}
         </div>
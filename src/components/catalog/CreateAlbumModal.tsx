@@ -1,12 +1,24 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { X, BookOpen, Calendar, Tag, Layout, MapPin } from 'lucide-react';
+import { X, BookOpen, Calendar, Tag, Layout, MapPin, Wand2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { Button } from '../ui/Button';
 import { LocationPicker } from '../ui/LocationPicker';
+import { AlbumDraftService } from '../../services/albumDraft';
 import type { Event } from '../../types/supabase';
 
+function dimensionsForSize(size: string) {
+    switch (size) {
+        case 'A4-landscape': return { width: 1000, height: 707 };
+        case 'A4-portrait': return { width: 707, height: 1000 };
+        case 'Square': return { width: 1000, height: 1000 };
+        case 'A5-landscape': return { width: 800, height: 566 };
+        case 'A3-landscape': return { width: 1414, height: 1000 };
+        default: return { width: 1000, height: 700 };
+    }
+}
+
 interface CreateAlbumModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -25,6 +37,7 @@ export function CreateAlbumModal({ isOpen, onClose }: CreateAlbumModalProps) {
     const [events, setEvents] = useState<Event[]>([]);
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
+    const [generateDraft, setGenerateDraft] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
 
     useEffect(() => {
@@ -54,6 +67,30 @@ export function CreateAlbumModal({ isOpen, onClose }: CreateAlbumModalProps) {
         }
 
         setIsLoading(true);
+        if (generateDraft && (eventId || startDate)) {
+            const result = await AlbumDraftService.createDraftAlbum({
+                familyId,
+                creatorId: user.id,
+                eventId: eventId || undefined,
+                startDate: startDate || undefined,
+                endDate: endDate || undefined,
+                title,
+                category: category || undefined,
+                location: locationAddress || undefined,
+                country: locationAddress ? locationAddress.split(',').pop()?.trim() : undefined,
+                geotag: (locationLat && locationLng) ? { lat: locationLat, lng: locationLng } : null,
+                dimensions: { ...dimensionsForSize(size), unit: 'px', bleed: 25, gutter: 40 },
+            });
+            if (!result) {
+                alert('Could not generate a draft: no photos were found for this event or date range.');
+                setIsLoading(false);
+                return;
+            }
+            onClose();
+            navigate(`/album/${result.albumId}/edit`);
+            return;
+        }
+
         try {
             const { data, error } = await supabase
                 .from('albums')
@@ -72,16 +109,7 @@ export function CreateAlbumModal({ isOpen, onClose }: CreateAlbumModalProps) {
                         startDate,
                         endDate,
                         size,
-                        dimensions: (() => {
-                            switch (size) {
-                                case 'A4-landscape': return { width: 1000, height: 707 };
-                                case 'A4-portrait': return { width: 707, height: 1000 };
-                                case 'Square': return { width: 1000, height: 1000 };
-                                case 'A5-landscape': return { width: 800, height: 566 };
-                                case 'A3-landscape': return { width: 1414, height: 1000 };
-                                default: return { width: 1000, height: 700 };
-                            }
-                        })()
+                        dimensions: dimensionsForSize(size)
                     }
                 }] as any)
                 .select()
@@ -203,6 +231,25 @@ export function CreateAlbumModal({ isOpen, onClose }: CreateAlbumModalProps) {
                             <p className="text-[10px] text-catalog-text/40 italic">Linking an event helps organize your family's timeline.</p>
                         </div>
 
+                        {/* Draft Generation */}
+                        <label className="flex items-start gap-3 p-3 rounded-sm border border-catalog-accent/20 bg-catalog-bg/30 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={generateDraft}
+                                onChange={(e) => setGenerateDraft(e.target.checked)}
+                                disabled={!eventId && !startDate}
+                                className="mt-0.5 accent-catalog-accent"
+                            />
+                            <span className="space-y-1">
+                                <span className="text-xs font-bold text-catalog-accent uppercase tracking-widest flex items-center gap-2">
+                                    <Wand2 className="w-3 h-3" /> Generate Draft Pages
+                                </span>
+                                <span className="block text-[10px] text-catalog-text/40 italic">
+                                    Lay out the event's photos, linked stacks and library uploads from these dates, with a title page and captions.
+                                </span>
+                            </span>
+                        </label>
+
                         {/* Location */}
                         <div className="space-y-2">
                             <label className="text-xs font-bold text-catalog-accent uppercase tracking-widest flex items-center gap-2">
@@ -246,7 +293,7 @@ export function CreateAlbumModal({ isOpen, onClose }: CreateAlbumModalProps) {
                             Cancel
                         </Button>
                         <Button type="submit" variant="primary" className="flex-1" isLoading={isLoading} disabled={!title.trim()}>
-                            Begin Recording
+                            {generateDraft && (eventId || startDate) ? 'Generate Draft' : 'Begin Recording'}
                         </Button>
                     </div>
                 </form>
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X, CalendarDays, BookOpen, Layout } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../ui/Button';
+import { CALENDAR_MONTH_NAMES } from '../../lib/albumCalendar';
+import { AlbumCalendarService } from '../../services/albumCalendar';
+
+// Paper sizes a wall calendar is printed on, with the album pixel size CreateAlbumModal uses for each
+const CALENDAR_SIZES: { value: string; label: string; width: number; height: number }[] = [
+    { value: 'A4-portrait', label: 'A4 Portrait (210 x 297 mm)', width: 707, height: 1000 },
+    { value: 'A4-landscape', label: 'A4 Landscape (297 x 210 mm)', width: 1000, height: 707 },
+    { value: 'A3-landscape', label: 'A3 Landscape (420 x 297 mm)', width: 1414, height: 1000 },
+    { value: 'Square', label: 'Square (210 x 210 mm)', width: 1000, height: 1000 },
+];
+
+interface CreateCalendarModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Options for a printable wall calendar. The calendar is created as an
+ * album and opened in the editor, where it is tweaked and printed.
+ */
+export function CreateCalendarModal({ isOpen, onClose }: CreateCalendarModalProps) {
+    const { user, familyId } = useAuth();
+    const navigate = useNavigate();
+    const thisYear = new Date().getFullYear();
+    // Late in the year, the calendar being made is usually next year's
+    const [year, setYear] = useState(new Date().getMonth() >= 8 ? thisYear + 1 : thisYear);
+    const [title, setTitle] = useState('');
+    const [startMonth, setStartMonth] = useState(0);
+    const [size, setSize] = useState('A4-portrait');
+    const [weekStartsOn, setWeekStartsOn] = useState<0 | 1>(0);
+    const [includeCover, setIncludeCover] = useState(true);
+    const [isLoading, setIsLoading] = useState(false);
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        if (!user || !familyId) {
+            alert('You must be part of a family group to create a calendar.');
+            return;
+        }
+
+        setIsLoading(true);
+        const paper = CALENDAR_SIZES.find(option => option.value === size)!;
+        const result = await AlbumCalendarService.createCalendarAlbum({
+            familyId,
+            creatorId: user.id,
+            title: title || undefined,
+            year,
+            startMonth,
+            includeCover,
+            weekStartsOn,
+            size,
+            dimensions: { width: paper.width, height: paper.height, unit: 'px', bleed: 25, gutter: 40 },
+        });
+        if (!result) {
+            alert('Could not create the calendar. Please try again.');
+            setIsLoading(false);
+            return;
+        }
+        onClose();
+        navigate(`/album/${result.albumId}/edit`);
+    }
+
+    if (!isOpen) return null;
+
+    const fieldClass = "w-full px-4 py-3 border border-catalog-accent/20 rounded-sm focus:outline-none focus:ring-2 focus:ring-catalog-accent/50 bg-white appearance-none";
+    const labelClass = "text-xs font-bold text-catalog-accent uppercase tracking-widest flex items-center gap-2";
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-lg shadow-2xl max-w-lg w-full overflow-hidden animate-slide-up">
+                <div className="p-6 border-b border-catalog-accent/20 flex items-center justify-between bg-catalog-bg/50">
+                    <h2 className="text-2xl font-serif text-catalog-text flex items-center gap-2">
+                        <CalendarDays className="w-6 h-6 text-catalog-accent" />
+                        Create Printable Calendar
+                    </h2>
+                    <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-catalog-text/40" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <label className={labelClass}>
+                                <BookOpen className="w-3 h-3" /> Title
+                            </label>
+                            <input
+                                type="text"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                placeholder={`Family Calendar ${year}`}
+                                className={fieldClass}
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <label className={labelClass}>
+                                    <CalendarDays className="w-3 h-3" /> Year
+                                </label>
+                                <select value={year} onChange={(e) => setYear(Number(e.target.value))} className={fieldClass}>
+                                    {[thisYear - 1, thisYear, thisYear + 1, thisYear + 2].map(y => (
+                                        <option key={y} value={y}>{y}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <label className={labelClass}>
+                                    <CalendarDays className="w-3 h-3" /> First Month
+                                </label>
+                                <select value={startMonth} onChange={(e) => setStartMonth(Number(e.target.value))} className={fieldClass}>
+                                    {CALENDAR_MONTH_NAMES.map((name, index) => (
+                                        <option key={name} value={index}>{name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <label className={labelClass}>
+                                    <Layout className="w-3 h-3" /> Paper
+                                </label>
+                                <select value={size} onChange={(e) => setSize(e.target.value)} className={fieldClass}>
+                                    {CALENDAR_SIZES.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <label className={labelClass}>
+                                    <Layout className="w-3 h-3" /> Weeks Start On
+                                </label>
+                                <select value={weekStartsOn} onChange={(e) => setWeekStartsOn(Number(e.target.value) as 0 | 1)} className={fieldClass}>
+                                    <option value={0}>Sunday</option>
+                                    <option value={1}>Monday</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        <label className="flex items-start gap-3 p-3 rounded-sm border border-catalog-accent/20 bg-catalog-bg/30 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={includeCover}
+                                onChange={(e) => setIncludeCover(e.target.checked)}
+                                className="mt-0.5 accent-catalog-accent"
+                            />
+                            <span className="space-y-1">
+                                <span className="text-xs font-bold text-catalog-accent uppercase tracking-widest">Cover Page</span>
+                                <span className="block text-[10px] text-catalog-text/40 italic">
+                                    A title page with a photo before the first month.
+                                </span>
+                            </span>
+                        </label>
+
+                        <p className="text-[10px] text-catalog-text/40 italic">
+                            Each month gets a photo taken in that month and a grid page marking birthdays, anniversaries and past family events.
+                            The calendar opens in the album editor, where you can swap photos and retouch pages before printing.
+                        </p>
+                    </div>
+
+                    <div className="flex gap-4 pt-4 border-t border-catalog-accent/10">
+                        <Button type="button" variant="ghost" className="flex-1" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" variant="primary" className="flex-1" isLoading={isLoading}>
+                            Create Calendar
+                        </Button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,234 @@
+import { useState, useMemo } from 'react';
+import { X, MessageCircle, Reply, Trash2, Send, User } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { REACTION_EMOJIS, buildCommentThreads, type CommentThread } from '../../services/mediaComments';
+import type { MediaFeedbackState } from '../../hooks/useMediaFeedback';
+
+export interface CommentItemTarget {
+    key: string;
+    label: string;
+}
+
+interface CommentsPanelProps {
+    feedback: MediaFeedbackState;
+    items: CommentItemTarget[];     // What is on screen; tabs when more than one
+    onClose: () => void;
+}
+
+const MAX_INDENT = 3;
+
+/**
+ * Slide-in panel with the reactions and comment threads of the page or
+ * media item on screen, for the album, stack and lightbox viewers.
+ */
+export function CommentsPanel({ feedback, items, onClose }: CommentsPanelProps) {
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const [replyTo, setReplyTo] = useState<CommentThread | null>(null);
+    const [posting, setPosting] = useState(false);
+
+    const item = items.find(i => i.key === selectedKey) || items[0];
+    const itemKey = item?.key;
+
+    const threads = useMemo(
+        () => buildCommentThreads(feedback.comments.filter(comment => comment.itemKey === itemKey)),
+        [feedback.comments, itemKey]
+    );
+
+    const mentionQuery = feedback.isGuest ? null : draft.match(/@([^@\n]*)$/)?.[1] ?? null;
+    const suggestions = mentionQuery === null ? [] : feedback.members
+        .filter(member => member.name.toLowerCase().startsWith(mentionQuery.toLowerCase()))
+        .slice(0, 5);
+
+    const needsName = feedback.isGuest && !feedback.guestName.trim();
+
+    if (!item) return null;
+
+    const handlePost = async () => {
+        if (!draft.trim() || needsName) return;
+        setPosting(true);
+        const { error } = await feedback.post(item.key, replyTo?.id ?? null, draft);
+        setPosting(false);
+        if (error) {
+            alert(error);
+            return;
+        }
+        setDraft('');
+        setReplyTo(null);
+    };
+
+    const handleReact = async (emoji: string) => {
+        if (needsName) {
+            alert('Please enter your name first.');
+            return;
+        }
+        const { error } = await feedback.react(item.key, emoji);
+        if (error) alert(error);
+    };
+
+    const handleDelete = async (comment: CommentThread) => {
+        if (!confirm(comment.replies.length > 0 ? 'Delete this comment and its replies?' : 'Delete this comment?')) return;
+        const { error } = await feedback.remove(comment.id);
+        if (error) alert(error);
+    };
+
+    const renderThread = (comment: CommentThread, depth: number) => (
+        <li key={comment.id} className="space-y-3">
+            <div className="flex gap-3">
+                <div className="w-8 h-8 rounded-full overflow-hidden bg-white/10 flex items-center justify-center shrink-0">
+                    {comment.avatarUrl
+                        ? <img src={comment.avatarUrl} alt="" className="w-full h-full object-cover" />
+                        : <User className="w-4 h-4 text-white/40" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                    <p className="text-xs">
+                        <span className="font-bold text-white">{comment.authorName}</span>
+                        {comment.isGuest && <span className="ml-2 text-[9px] font-bold uppercase tracking-widest text-white/30">Guest</span>}
+                        <span className="ml-2 text-[10px] text-white/30">
+                            {new Date(comment.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                        </span>
+                    </p>
+                    <p className="text-sm text-white/80 whitespace-pre-wrap break-words mt-0.5">{comment.body}</p>
+                    <div className="flex items-center gap-3 mt-1">
+                        <button
+                            onClick={() => setReplyTo(comment)}
+                            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-white/40 hover:text-white transition-colors"
+                        >
+                            <Reply className="w-3 h-3" /> Reply
+                        </button>
+                        {feedback.canDelete(comment) && (
+                            <button
+                                onClick={() => handleDelete(comment)}
+                                className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-white/40 hover:text-red-400 transition-colors"
+                            >
+                                <Trash2 className="w-3 h-3" /> Delete
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+            {comment.replies.length > 0 && (
+                <ul className={cn('space-y-3', depth < MAX_INDENT && 'pl-5 border-l border-white/10 ml-4')}>
+                    {comment.replies.map(reply => renderThread(reply, depth + 1))}
+                </ul>
+            )}
+        </li>
+    );
+
+    return (
+        <div
+            className="absolute top-0 right-0 bottom-0 w-full sm:w-96 z-[300] bg-zinc-900/95 backdrop-blur-xl border-l border-white/10 text-white flex flex-col shadow-2xl"
+            onClick={e => e.stopPropagation()}
+            onPointerDown={e => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+                <h3 className="flex items-center gap-2 text-xs font-black uppercase tracking-widest">
+                    <MessageCircle className="w-4 h-4 text-catalog-accent" /> Comments
+                </h3>
+                <button onClick={onClose} className="p-1.5 hover:bg-white/10 rounded-full transition-colors" title="Close comments">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            {items.length > 1 && (
+                <div className="flex gap-1 px-5 pt-3">
+                    {items.map(i => (
+                        <button
+                            key={i.key}
+                            onClick={() => { setSelectedKey(i.key); setReplyTo(null); }}
+                            className={cn(
+                                'flex-1 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-colors',
+                                i.key === item.key ? 'bg-catalog-accent text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'
+                            )}
+                        >
+                            {i.label} ({feedback.commentCount(i.key)})
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-2 px-5 py-3 border-b border-white/10">
+                {REACTION_EMOJIS.map(emoji => {
+                    const reactions = feedback.reactions.filter(r => r.itemKey === item.key && r.emoji === emoji);
+                    const mine = reactions.some(feedback.isOwn);
+                    return (
+                        <button
+                            key={emoji}
+                            onClick={() => handleReact(emoji)}
+                            title={reactions.map(r => r.guestName || 'Family member').join(', ') || undefined}
+                            className={cn(
+                                'flex items-center gap-1 px-2.5 py-1 rounded-full border text-sm transition-colors',
+                                mine ? 'bg-catalog-accent/30 border-catalog-accent' : 'bg-white/5 border-white/10 hover:bg-white/10'
+                            )}
+                        >
+                            <span>{emoji}</span>
+                            {reactions.length > 0 && <span className="text-[10px] font-bold text-white/70">{reactions.length}</span>}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-5 py-4">
+                {threads.length === 0 ? (
+                    <p className="text-center text-xs text-white/30 italic py-8">No comments on {item.label.toLowerCase()} yet.</p>
+                ) : (
+                    <ul className="space-y-5">{threads.map(thread => renderThread(thread, 0))}</ul>
+                )}
+            </div>
+
+            <div className="border-t border-white/10 p-4 space-y-2">
+                {feedback.isGuest && (
+                    <input
+                        value={feedback.guestName}
+                        onChange={e => feedback.setGuestName(e.target.value)}
+                        maxLength={100}
+                        placeholder="Your name"
+                        className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm focus:outline-none focus:border-catalog-accent"
+                    />
+                )}
+                {replyTo && (
+                    <div className="flex items-center justify-between text-[10px] text-white/50">
+                        <span>Replying to <span className="font-bold text-white/80">{replyTo.authorName}</span></span>
+                        <button onClick={() => setReplyTo(null)} className="p-0.5 hover:text-white" title="Cancel reply">
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                )}
+                <div className="relative">
+                    {suggestions.length > 0 && (
+                        <ul className="absolute bottom-full left-0 right-0 mb-1 bg-zinc-800 border border-white/10 rounded-lg overflow-hidden shadow-xl">
+                            {suggestions.map(member => (
+                                <li key={member.id}>
+                                    <button
+                                        onClick={() => setDraft(draft.replace(/@([^@\n]*)$/, `@${member.name} `))}
+                                        className="w-full px-3 py-2 text-left text-sm hover:bg-white/10 transition-colors"
+                                    >
+                                        @{member.name}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <textarea
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handlePost();
+                        }}
+                        maxLength={2000}
+                        rows={3}
+                        placeholder={feedback.isGuest ? 'Write a comment…' : 'Write a comment… Type @ to mention someone'}
+                        className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm resize-none focus:outline-none focus:border-catalog-accent"
+                    />
+                </div>
+                <button
+                    onClick={handlePost}
+                    disabled={posting || !draft.trim() || needsName}
+                    className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-catalog-accent text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40 transition-opacity"
+                >
+                    <Send className="w-3.5 h-3.5" /> {posting ? 'Posting…' : replyTo ? 'Reply' : 'Comment'}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -24,6 +24,8 @@ import {
     ChevronDown
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import { PAGE_TOKENS } from '../../lib/pageTokens';
+import { getSectionName, isTocPage, listSections } from '../../lib/albumSections';
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -69,7 +71,7 @@ function CollapsibleSection({ title, children, icon: Icon, defaultOpen = false }
 }
 
 export function AssetControlPanel({ editorMode, setEditorMode }: AssetControlPanelProps) {
-    const { album, selectedAssetId, currentPageIndex, updateAsset, removeAsset, updatePage, syncStyles, updateAssetZIndex, duplicateAsset } = useAlbum();
+    const { album, selectedAssetId, currentPageIndex, updateAsset, removeAsset, updatePage, syncStyles, updateAssetZIndex, duplicateAsset, setPageSection, addTableOfContents } = useAlbum();
 
     // Improved asset selection logic to ensure consistency across the app
     const asset = album?.pages.flatMap(p => [
@@ -87,6 +89,7 @@ export function AssetControlPanel({ editorMode, setEditorMode }: AssetControlPan
     if (!album || !selectedAssetId || !asset) {
         // Page settings for the current page
         const currentPage = album?.pages[currentPageIndex];
+        const tocPage = album?.pages.find(isTocPage);
         return (
             <div className="w-full h-full overflow-y-auto content-scrollbar font-outfit bg-white/40 backdrop-blur-xl">
                 <div className="p-8 border-b border-black/5 glass sticky top-0 z-10">
@@ -248,6 +251,34 @@ export function AssetControlPanel({ editorMode, setEditorMode }: AssetControlPan
                                 </div>
                             )}
 
+                            <div className="space-y-4 pt-10 border-t border-black/5">
+                                <label className="text-[10px] font-black text-catalog-accent uppercase tracking-[0.4em]">Section & Contents</label>
+                                <input
+                                    key={`${currentPage.id}:${currentPage.section || ''}`}
+                                    defaultValue={currentPage.section || ''}
+                                    disabled={album.config.isLocked}
+                                    placeholder={getSectionName(album.pages, currentPageIndex) ? `In "${getSectionName(album.pages, currentPageIndex)}"` : 'Name a section starting here'}
+                                    onBlur={(e) => setPageSection(currentPage.id, e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') e.currentTarget.blur();
+                                    }}
+                                    className="w-full h-10 px-4 bg-white border border-black/5 rounded-xl text-xs outline-none focus:ring-4 focus:ring-catalog-accent/5"
+                                />
+                                {tocPage ? (
+                                    <p className="text-[9px] text-catalog-text/40 font-black uppercase tracking-widest">
+                                        Contents on page {tocPage.pageNumber} · {listSections(album.pages).length} sections
+                                    </p>
+                                ) : (
+                                    <button
+                                        disabled={album.config.isLocked}
+                                        onClick={addTableOfContents}
+                                        className="w-full py-3 bg-white border border-black/5 rounded-xl text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:text-catalog-accent transition-all disabled:opacity-50"
+                                    >
+                                        Insert Table of Contents
+                                    </button>
+                                )}
+                            </div>
+
                             <div className="space-y-6 pt-10 border-t border-black/5">
                                 <button
                                     disabled={album.config.isLocked}
@@ -495,6 +526,24 @@ export function AssetControlPanel({ editorMode, setEditorMode }: AssetControlPan
                     <>
                         <CollapsibleSection title="Typography Essence" icon={TypeIcon}>
                             <div className="space-y-4">
+                                {/* Page tokens, filled in per page wherever the text is shown */}
+                                <div className="space-y-2">
+                                    <label className="text-[9px] font-black text-catalog-text/20 uppercase tracking-widest">Dynamic Fields</label>
+                                    <div className="flex flex-wrap gap-1">
+                                        {PAGE_TOKENS.map(({ token, label }) => (
+                                            <button
+                                                key={token}
+                                                disabled={isLockedForEditing}
+                                                onClick={() => updateAsset(parentPage!.id, asset!.id, { content: `${asset.content || ''}${token}` })}
+                                                className="px-2 py-1 bg-white border border-black/5 rounded-lg text-[9px] font-mono text-catalog-text/60 hover:text-catalog-accent transition-all disabled:opacity-50"
+                                                title={`Insert ${label.toLowerCase()}`}
+                                            >
+                                                {token}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
                                 {/* Font Family */}
                                 <div className="space-y-2">
                                     <label className="text-[9px] font-black text-catalog-text/20 uppercase tracking-widest">Typeface</label>
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { Wand2, ChevronLeft, ChevronRight, Image as ImageIcon } from 'lucide-react';
+import { useAlbum, type Asset } from '../../contexts/AlbumContext';
+import {
+    generateAutoLayouts,
+    getPhotoAspectRatio,
+    MAX_AUTO_ARRANGE_PHOTOS,
+    type AutoLayout,
+} from '../../lib/autoArrange';
+import { cn } from '../../lib/utils';
+
+interface AutoArrangePanelProps {
+    activePageId: string;
+}
+
+type PhotoSource = 'page' | 'unplaced';
+
+/**
+ * Auto arrange: builds justified layouts for the selected photos on the page
+ * (or all of them) or for unplaced uploads, applies the best one and lets
+ * the user cycle through the alternatives. Each arrangement is its own undo step.
+ * Keyed by page in LayoutSidebar, so a new page starts a new set of alternatives.
+ */
+export function AutoArrangePanel({ activePageId }: AutoArrangePanelProps) {
+    const { album, selectedAssetIds, autoArrangePage } = useAlbum();
+    const [source, setSource] = useState<PhotoSource>('page');
+    const [excludedUploads, setExcludedUploads] = useState<string[]>([]);
+    const [session, setSession] = useState<{ pageId: string; layouts: AutoLayout[]; index: number } | null>(null);
+
+    const page = album?.pages.find(p => p.id === activePageId);
+
+    const photos = useMemo(() => {
+        if (!album || !page) return [] as Asset[];
+        if (source === 'unplaced') {
+            return album.unplacedMedia.filter(a => a.type === 'image' && !excludedUploads.includes(a.id));
+        }
+        const pagePhotos = page.assets.filter(a => a.type === 'image');
+        const selected = pagePhotos.filter(a => selectedAssetIds.includes(a.id));
+        return selected.length > 0 ? selected : pagePhotos;
+    }, [album, page, source, excludedUploads, selectedAssetIds]);
+
+    const hasSelection = source === 'page' && page?.assets.some(a => a.type === 'image' && selectedAssetIds.includes(a.id));
+    const uploads = album?.unplacedMedia.filter(a => a.type === 'image') || [];
+
+    if (!album || !page) return null;
+
+    const isLocked = !!album.config.isLocked;
+    const side: 'left' | 'right' | 'single' = page.layoutTemplate === 'cover-front' || page.layoutTemplate === 'cover-back'
+        ? 'single'
+        : (page.pageNumber % 2 === 0 ? 'left' : 'right');
+
+    const handleArrange = () => {
+        const layouts = generateAutoLayouts(
+            photos.map(photo => ({ id: photo.id, aspectRatio: getPhotoAspectRatio(photo, album.config.dimensions) })),
+            { dimensions: album.config.dimensions, side }
+        );
+        if (layouts.length === 0) return;
+        setSession({ pageId: page.id, layouts, index: 0 });
+        autoArrangePage(page.id, layouts[0]);
+        // Uploads are on the page now; further runs work from there
+        if (source === 'unplaced') setSource('page');
+    };
+
+    const handleCycle = (step: number) => {
+        if (!session) return;
+        const index = (session.index + step + session.layouts.length) % session.layouts.length;
+        setSession({ ...session, index });
+        autoArrangePage(session.pageId, session.layouts[index]);
+    };
+
+    const current = session ? session.layouts[session.index] : null;
+    const pageRatio = album.config.dimensions.width / album.config.dimensions.height;
+
+    return (
+        <div className="glass-card border border-black/5 rounded-2xl p-3 space-y-3">
+            <div className="flex items-center justify-between">
+                <span className="text-[9px] font-black uppercase tracking-widest text-catalog-text flex items-center gap-1.5">
+                    <Wand2 className="w-3.5 h-3.5 text-catalog-accent" />
+                    Auto Arrange
+                </span>
+                <span className="text-[8px] font-black uppercase tracking-widest text-catalog-text/30">
+                    {photos.length} photo{photos.length === 1 ? '' : 's'}
+                </span>
+            </div>
+
+            <div className="flex p-1 glass rounded-xl shadow-inner border border-black/5">
+                {(['page', 'unplaced'] as const).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setSource(option)}
+                        className={cn(
+                            "flex-1 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all",
+                            source === option ? "bg-white shadow-sm text-catalog-text" : "text-catalog-text/30 hover:text-catalog-text/60"
+                        )}
+                    >
+                        {option === 'page' ? (hasSelection ? 'Selection' : 'This Page') : `Uploads (${uploads.length})`}
+                    </button>
+                ))}
+            </div>
+
+            {source === 'unplaced' && uploads.length > 0 && (
+                <div className="grid grid-cols-6 gap-1">
+                    {uploads.map(asset => {
+                        const isExcluded = excludedUploads.includes(asset.id);
+                        return (
+                            <button
+                                key={asset.id}
+                                onClick={() => setExcludedUploads(prev => isExcluded ? prev.filter(id => id !== asset.id) : [...prev, asset.id])}
+                                className={cn(
+                                    "aspect-square rounded-md overflow-hidden border-2 transition-all",
+                                    isExcluded ? "border-transparent opacity-30" : "border-catalog-accent"
+                                )}
+                                title={isExcluded ? 'Include' : 'Leave out'}
+                            >
+                                <img src={asset.url} alt="" className="w-full h-full object-cover" />
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {photos.length > MAX_AUTO_ARRANGE_PHOTOS && (
+                <p className="text-[9px] text-amber-600">
+                    Only the first {MAX_AUTO_ARRANGE_PHOTOS} photos are arranged.
+                </p>
+            )}
+
+            {current && (
+                <div className="space-y-2">
+                    <div
+                        className="relative w-full bg-catalog-stone/5 rounded-xl overflow-hidden border border-black/5"
+                        style={{ aspectRatio: pageRatio }}
+                    >
+                        {current.frames.map(frame => (
+                            <div
+                                key={frame.photoId}
+                                className="absolute bg-white/80 border-[1.5px] border-catalog-accent/40 rounded-[3px] flex items-center justify-center"
+                                style={{ left: `${frame.x}%`, top: `${frame.y}%`, width: `${frame.width}%`, height: `${frame.height}%` }}
+                            >
+                                <ImageIcon className="w-2.5 h-2.5 text-catalog-accent/30" />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <button
+                            onClick={() => handleCycle(-1)}
+                            disabled={isLocked || session!.layouts.length < 2}
+                            className="p-1.5 rounded-lg text-catalog-text/50 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                            title="Previous arrangement"
+                        >
+                            <ChevronLeft className="w-3.5 h-3.5" />
+                        </button>
+                        <div className="text-center">
+                            <div className="text-[9px] font-black uppercase tracking-widest text-catalog-text">
+                                {session!.index + 1} of {session!.layouts.length}
+                            </div>
+                            <div className="text-[8px] text-catalog-text/40">
+                                {Math.round(current.averageCrop * 100)}% average crop
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => handleCycle(1)}
+                            disabled={isLocked || session!.layouts.length < 2}
+                            className="p-1.5 rounded-lg text-catalog-text/50 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                            title="Next arrangement"
+                        >
+                            <ChevronRight className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <button
+                onClick={handleArrange}
+                disabled={isLocked || photos.length === 0}
+                className="w-full py-2 rounded-xl bg-catalog-accent text-white text-[9px] font-black uppercase tracking-widest shadow-lg shadow-catalog-accent/20 hover:brightness-110 transition-all disabled:opacity-30 disabled:shadow-none"
+            >
+                {session ? 'Re-arrange' : 'Auto Arrange'}
+            </button>
+        </div>
+    );
+}
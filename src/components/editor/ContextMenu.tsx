@@ -1,49 +1,127 @@
-import { Copy, Trash2, Maximize2, Minimize2 } from 'lucide-react';
+import {
+    Copy, Trash2, Maximize2, Minimize2,
+    AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+    AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+    AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter,
+    StretchHorizontal, StretchVertical, Group, Ungroup
+} from 'lucide-react';
 
 interface ContextMenuProps {
     x: number;
     y: number;
     onAction: (action: string) => void;
     onClose: () => void;
+    selectionCount?: number;
+    isGrouped?: boolean;
 }
 
-export function ContextMenu({ x, y, onAction, onClose }: ContextMenuProps) {
+const ALIGN_ITEMS = [
+    { action: 'align-left', label: 'Left', icon: AlignStartVertical },
+    { action: 'align-center', label: 'Center', icon: AlignCenterVertical },
+    { action: 'align-right', label: 'Right', icon: AlignEndVertical },
+    { action: 'align-top', label: 'Top', icon: AlignStartHorizontal },
+    { action: 'align-middle', label: 'Middle', icon: AlignCenterHorizontal },
+    { action: 'align-bottom', label: 'Bottom', icon: AlignEndHorizontal },
+];
+
+export function ContextMenu({ x, y, onAction, onClose, selectionCount = 1, isGrouped }: ContextMenuProps) {
+    const isMulti = selectionCount > 1;
+
     return (
         <div
             className="fixed z-[9999] bg-white border border-catalog-accent/20 rounded-lg shadow-xl py-1 min-w-[160px] animate-in fade-in zoom-in duration-100"
             style={{ left: x, top: y }}
             onMouseLeave={onClose}
         >
-            <button
-                onClick={() => { onAction('duplicate'); onClose(); }}
-                className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
-            >
-                <Copy className="w-3.5 h-3.5" /> Duplicate
-            </button>
-
-            <div className="h-px bg-catalog-accent/10 my-1" />
-
-            <button
-                onClick={() => { onAction('front'); onClose(); }}
-                className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
-            >
-                <Maximize2 className="w-3.5 h-3.5" /> Bring to Front
-            </button>
-            <button
-                onClick={() => { onAction('back'); onClose(); }}
-                className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
-            >
-                <Minimize2 className="w-3.5 h-3.5" /> Send to Back
-            </button>
-
-            <div className="h-px bg-catalog-accent/10 my-1" />
-
-            <button
-                onClick={() => { onAction('delete'); onClose(); }}
-                className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-red-50 text-red-600"
-            >
-                <Trash2 className="w-3.5 h-3.5" /> Delete
-            </button>
+            {isMulti ? (
+                <>
+                    <div className="px-3 pt-1 pb-1.5 text-[9px] font-black uppercase tracking-widest text-catalog-text/40">
+                        Align {selectionCount} items
+                    </div>
+                    <div className="grid grid-cols-3 gap-0.5 px-1">
+                        {ALIGN_ITEMS.map(({ action, label, icon: Icon }) => (
+                            <button
+                                key={action}
+                                onClick={() => { onAction(action); onClose(); }}
+                                className="px-2 py-1.5 text-[10px] flex flex-col items-center gap-1 rounded hover:bg-catalog-accent/5 text-catalog-text"
+                            >
+                                <Icon className="w-3.5 h-3.5" /> {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="h-px bg-catalog-accent/10 my-1" />
+
+                    <button
+                        onClick={() => { onAction('distribute-horizontal'); onClose(); }}
+                        disabled={selectionCount < 3}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text disabled:opacity-30"
+                    >
+                        <AlignHorizontalDistributeCenter className="w-3.5 h-3.5" /> Distribute Horizontally
+                    </button>
+                    <button
+                        onClick={() => { onAction('distribute-vertical'); onClose(); }}
+                        disabled={selectionCount < 3}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text disabled:opacity-30"
+                    >
+                        <AlignVerticalDistributeCenter className="w-3.5 h-3.5" /> Distribute Vertically
+                    </button>
+                    <button
+                        onClick={() => { onAction('match-width'); onClose(); }}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
+                    >
+                        <StretchHorizontal className="w-3.5 h-3.5" /> Match Width
+                    </button>
+                    <button
+                        onClick={() => { onAction('match-height'); onClose(); }}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
+                    >
+                        <StretchVertical className="w-3.5 h-3.5" /> Match Height
+                    </button>
+
+                    <div className="h-px bg-catalog-accent/10 my-1" />
+
+                    <button
+                        onClick={() => { onAction(isGrouped ? 'ungroup' : 'group'); onClose(); }}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
+                    >
+                        {isGrouped ? <><Ungroup className="w-3.5 h-3.5" /> Ungroup</> : <><Group className="w-3.5 h-3.5" /> Group</>}
+                    </button>
+                </>
+            ) : (
+                <>
+                    <button
+                        onClick={() => { onAction('duplicate'); onClose(); }}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
+                    >
+                        <Copy className="w-3.5 h-3.5" /> Duplicate
+                    </button>
+
+                    <div className="h-px bg-catalog-accent/10 my-1" />
+
+                    <button
+                        onClick={() => { onAction('front'); onClose(); }}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
+                    >
+                        <Maximize2 className="w-3.5 h-3.5" /> Bring to Front
+                    </button>
+                    <button
+                        onClick={() => { onAction('back'); onClose(); }}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-catalog-accent/5 text-catalog-text"
+                    >
+                        <Minimize2 className="w-3.5 h-3.5" /> Send to Back
+                    </button>
+
+                    <div className="h-px bg-catalog-accent/10 my-1" />
+
+                    <button
+                        onClick={() => { onAction('delete'); onClose(); }}
+                        className="w-full px-3 py-2 text-xs flex items-center gap-2 hover:bg-red-50 text-red-600"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" /> Delete
+                    </button>
+                </>
+            )}
         </div>
     );
 }
@@ -0,0 +1,79 @@
+import { Undo2, Redo2, CircleDot } from 'lucide-react';
+import { useAlbum } from '../../contexts/AlbumContext';
+import { cn } from '../../lib/utils';
+
+function formatTime(timestamp: number) {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/**
+ * Undo steps for this editing session, oldest first. Clicking a step jumps
+ * to the state right after it; undone steps stay listed (dimmed) until a new
+ * edit replaces them.
+ */
+export function EditHistoryList() {
+    const { historyEntries, jumpToHistory, undo, redo, canUndo, canRedo } = useAlbum();
+    const { past, future } = historyEntries;
+    // Future is stored in redo order (next redo last); show it chronologically
+    const upcoming = [...future].reverse();
+    const currentId = past.length > 0 ? past[past.length - 1].id : null;
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center gap-1 px-4 pt-4">
+                <button
+                    onClick={undo}
+                    disabled={!canUndo}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white transition-all disabled:opacity-30"
+                >
+                    <Undo2 className="w-3 h-3" /> Undo
+                </button>
+                <button
+                    onClick={redo}
+                    disabled={!canRedo}
+                    className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white transition-all disabled:opacity-30"
+                >
+                    <Redo2 className="w-3 h-3" /> Redo
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-1 content-scrollbar">
+                <button
+                    onClick={() => jumpToHistory(null)}
+                    className={cn(
+                        "w-full flex items-center gap-2 px-3 py-2 rounded-xl text-left text-xs transition-all",
+                        currentId === null ? "bg-white shadow-sm border border-black/5 text-catalog-accent font-bold" : "text-catalog-text/50 hover:bg-white/60"
+                    )}
+                >
+                    <CircleDot className="w-3 h-3 shrink-0" />
+                    Opened album
+                </button>
+
+                {past.map(entry => (
+                    <button
+                        key={entry.id}
+                        onClick={() => jumpToHistory(entry.id)}
+                        className={cn(
+                            "w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-left text-xs transition-all",
+                            entry.id === currentId ? "bg-white shadow-sm border border-black/5 text-catalog-accent font-bold" : "text-catalog-text hover:bg-white/60"
+                        )}
+                    >
+                        <span className="truncate">{entry.label}</span>
+                        <span className="text-[9px] text-catalog-text/30 shrink-0">{formatTime(entry.timestamp)}</span>
+                    </button>
+                ))}
+
+                {upcoming.map(entry => (
+                    <button
+                        key={entry.id}
+                        onClick={() => jumpToHistory(entry.id)}
+                        className="w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-left text-xs text-catalog-text/30 italic hover:bg-white/60 transition-all"
+                    >
+                        <span className="truncate">{entry.label}</span>
+                        <span className="text-[9px] shrink-0">{formatTime(entry.timestamp)}</span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
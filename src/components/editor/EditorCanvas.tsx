@@ -1,12 +1,29 @@
-import React, { useState, memo, useRef, useCallback } from 'react';
+import React, { useState, memo, useRef, useCallback, useMemo } from 'react';
 import { useAlbum, type Page, type Asset } from '../../contexts/AlbumContext';
 import { cn } from '../../lib/utils';
 import { motion } from 'framer-motion';
 import { Plus, Grid, AlignLeft, AlignCenter, AlignRight, Bold, Italic } from 'lucide-react';
 import { ContextMenu } from './ContextMenu';
+import { FloatingToolbar } from './FloatingToolbar';
 import { FocalPointEditorModal } from './FocalPointEditorModal';
 import { LayoutFrame } from '../shared/LayoutFrame';
 import { SecureMedia } from '../common/SecureMedia';
+import type { CollaboratorPresence } from '../../services/albumCollaboration';
+import {
+    arrangeCommandFromAction,
+    expandToGroups,
+    getArrangeItems,
+    getBounds,
+    itemsInRect,
+    type Bounds,
+} from '../../lib/albumArrange';
+import { formatSnapDistance, getPageGuideLines, snapBounds, type SnapResult } from '../../lib/albumSnapping';
+import { getMasterItems } from '../../lib/masterPages';
+import { applyPageTokens, fillPageTokens, getPageTokenContext, hasPageTokens } from '../../lib/pageTokens';
+import { freeformAssetToLayoutBox } from '../../lib/layoutUtils';
+
+// Screen distance within which a dragged item snaps to a guide
+const SNAP_THRESHOLD_PX = 6;
 
 interface EditorCanvasProps {
     page: Page;
@@ -37,6 +54,7 @@ interface AssetRendererProps {
     onDrop?: (e: React.DragEvent) => void;
     isInSlot?: boolean;
     isRearrangeFirst?: boolean;
+    heldBy?: CollaboratorPresence;
     isEditing?: boolean;
     editingValue?: string;
     onEditingValueChange?: (val: string) => void;
@@ -110,20 +128,31 @@ const SlotRenderer = memo(function SlotRenderer({
 const AssetRenderer = memo(function AssetRenderer({
     asset, isSelected, onClick, onDoubleClick,
     onContextMenu, pageId, side = 'single',
-    zoom, canvasRef, onDrop, isInSlot, isRearrangeFirst,
+    zoom, canvasRef, onDrop, isInSlot, isRearrangeFirst, heldBy,
     isEditing, editingValue, onEditingValueChange, onEditingComplete
 }: AssetRendererProps) {
-    const { updateAsset, album, commitHistory } = useAlbum();
+    const { updateAsset, album, commitHistory, selectedAssetIds, getAssetHolder } = useAlbum();
     const [dragPos, setDragPos] = useState<{ x: number, y: number } | null>(null);
+    const [snapOverlay, setSnapOverlay] = useState<SnapResult | null>(null);
     const [isDragOver, setIsDragOver] = useState(false);
 
     const canvasRefWidth = side === 'single' ? 100 : 200;
+    // Page percentages to canvas percentages, matching how the asset itself is placed
+    const toCanvasX = (x: number) => isInSlot ? x : ((side === 'right' ? x + 100 : x) / canvasRefWidth) * 100;
+    const toCanvasWidth = (width: number) => isInSlot ? width : (width / canvasRefWidth) * 100;
     const renderX = (side === 'right' ? asset.x + 100 : asset.x);
     const leftPercent = isInSlot ? asset.x : (renderX / canvasRefWidth) * 100;
     const topPercent = isInSlot ? asset.y : asset.y;
     const widthPercent = isInSlot ? asset.width : (asset.width / (side === 'single' ? 100 : 200)) * 100;
     const heightPercent = isInSlot ? asset.height : asset.height;
 
+    // Page tokens show their value on the canvas; focusing the text edits the tokens themselves
+    const tokenContext = useMemo(() => {
+        if (!album || asset.type !== 'text' || !hasPageTokens(asset.content)) return null;
+        const pageIndex = album.pages.findIndex(p => p.id === pageId);
+        return pageIndex === -1 ? null : getPageTokenContext(album, pageIndex);
+    }, [album, pageId, asset.type, asset.content]);
+
     const box = {
         id: asset.id,
         role: asset.type === 'text' ? 'text' : 'slot',
@@ -135,17 +164,19 @@ const AssetRenderer = memo(function AssetRenderer({
         content: {
             type: asset.type,
             url: asset.url,
-            text: asset.content,
+            text: tokenContext ? fillPageTokens(asset.content, tokenContext) : asset.content,
             zoom: asset.crop?.zoom,
             x: asset.crop?.x,
             y: asset.crop?.y,
             rotation: asset.rotation,
-            config: asset
+            config: tokenContext ? { ...asset, rawText: asset.content } : asset
         }
     };
 
     const handlePointerDown = (e: React.PointerEvent, forcedHandleType?: string) => {
         if (asset.isLocked || album?.config?.isLocked) return;
+        // Soft lock: another collaborator has this asset selected
+        if (heldBy) return;
         if (e.button !== 0) return;
         if ((window as any).__isMultiTouchActive) return;
 
@@ -159,6 +190,15 @@ const AssetRenderer = memo(function AssetRenderer({
         const startAsset = { x: asset.x, y: asset.y, w: asset.width, h: asset.height, r: asset.rotation || 0, fontSize: asset.fontSize || 32 };
         const initialAlbumState = album;
 
+        // Other items on this page that move with this one: the rest of the
+        // selection when dragging a selected item, otherwise its group
+        const assetPage = album?.pages.find(p => p.id === pageId);
+        const pageItems = assetPage ? getArrangeItems(assetPage) : [];
+        const movingIds = selectedAssetIds.includes(asset.id) ? selectedAssetIds : expandToGroups(pageItems, [asset.id]);
+        const companions = isResizing ? [] : pageItems.filter(item =>
+            item.id !== asset.id && movingIds.includes(item.id) && !item.isLocked && !getAssetHolder(item.id)
+        );
+
         const canvasRect = canvasRef.current?.getBoundingClientRect();
         if (!canvasRect) return;
 
@@ -166,6 +206,21 @@ const AssetRenderer = memo(function AssetRenderer({
         const totalWidth_px = (side === 'single' ? canvasRect.width : canvasRect.width / 2) / zoomFactor;
         const totalHeight_px = canvasRect.height / zoomFactor;
 
+        // Smart guides: other items, page center, bleed and gutter. Alt disables snapping.
+        const snapEnabled = !isResizing && album?.config.gridSettings?.snap !== false;
+        const movingSet = new Set([asset.id, ...companions.map(item => item.id)]);
+        const snapTargets = pageItems.filter(item => !movingSet.has(item.id) && !item.isHidden);
+        const pageSide = side !== 'single' ? side : ((assetPage?.pageNumber ?? 1) % 2 === 0 ? 'left' : 'right');
+        const guideLines = getPageGuideLines(album?.config.dimensions, pageSide);
+        const startBounds = getBounds([
+            { id: asset.id, x: startAsset.x, y: startAsset.y, width: startAsset.w, height: startAsset.h },
+            ...companions
+        ])!;
+        const snapThreshold = {
+            x: (SNAP_THRESHOLD_PX / zoomFactor / totalWidth_px) * 100,
+            y: (SNAP_THRESHOLD_PX / zoomFactor / totalHeight_px) * 100,
+        };
+
         const handlePointerMove = (mv: PointerEvent) => {
             if ((window as any).__isMultiTouchActive) {
                 handlePointerUp();
@@ -257,9 +312,27 @@ const AssetRenderer = memo(function AssetRenderer({
                         updateAsset(pageId, asset.id, { x, y, width: w, height: h, fitMode: nextFitMode, ...additionalProps }, { skipHistory: true });
                     }
                 } else {
-                    let nx = startAsset.x + dx_pct;
-                    let ny = startAsset.y + dy_pct;
+                    let moveX = dx_pct;
+                    let moveY = dy_pct;
+                    if (snapEnabled && !mv.altKey) {
+                        const snap = snapBounds(
+                            { ...startBounds, x: startBounds.x + dx_pct, y: startBounds.y + dy_pct },
+                            snapTargets,
+                            guideLines,
+                            snapThreshold
+                        );
+                        moveX += snap.dx;
+                        moveY += snap.dy;
+                        setSnapOverlay(snap);
+                    } else {
+                        setSnapOverlay(null);
+                    }
+                    const nx = startAsset.x + moveX;
+                    const ny = startAsset.y + moveY;
                     updateAsset(pageId, asset.id, { x: nx, y: ny }, { skipHistory: true });
+                    companions.forEach(item => {
+                        updateAsset(pageId, item.id, { x: item.x + moveX, y: item.y + moveY }, { skipHistory: true });
+                    });
                 }
                 setDragPos({ x: mv.clientX, y: mv.clientY });
             });
@@ -268,6 +341,7 @@ const AssetRenderer = memo(function AssetRenderer({
         const handlePointerUp = () => {
             if (initialAlbumState) commitHistory(initialAlbumState);
             setDragPos(null);
+            setSnapOverlay(null);
             window.removeEventListener('pointermove', handlePointerMove);
             window.removeEventListener('pointerup', handlePointerUp);
         };
@@ -287,6 +361,44 @@ const AssetRenderer = memo(function AssetRenderer({
                         <span>X: {Math.round(asset.x)}%</span>
                         <span>Y: {Math.round(asset.y)}%</span>
                     </div>
+                    {snapOverlay && <span className="text-[8px] font-medium opacity-70">Hold Alt to move freely</span>}
+                </div>
+            )}
+            {snapOverlay && (
+                <div className="absolute inset-0 pointer-events-none z-[200]">
+                    {snapOverlay.guides.map((guide, i) => guide.orientation === 'vertical' ? (
+                        <div
+                            key={`guide-${i}`}
+                            className="absolute w-px bg-pink-500"
+                            style={{ left: `${toCanvasX(guide.position)}%`, top: `${guide.start}%`, height: `${guide.end - guide.start}%` }}
+                        />
+                    ) : (
+                        <div
+                            key={`guide-${i}`}
+                            className="absolute h-px bg-pink-500"
+                            style={{ top: `${guide.position}%`, left: `${toCanvasX(guide.start)}%`, width: `${toCanvasWidth(guide.end - guide.start)}%` }}
+                        />
+                    ))}
+                    {snapOverlay.measurements.map((measurement, i) => {
+                        const label = formatSnapDistance(measurement.end - measurement.start, measurement.orientation, album?.config.dimensions);
+                        return measurement.orientation === 'horizontal' ? (
+                            <div
+                                key={`gap-${i}`}
+                                className="absolute h-px bg-pink-500"
+                                style={{ top: `${measurement.position}%`, left: `${toCanvasX(measurement.start)}%`, width: `${toCanvasWidth(measurement.end - measurement.start)}%` }}
+                            >
+                                <span className="absolute left-1/2 -translate-x-1/2 -top-4 bg-pink-500 text-white text-[9px] font-bold px-1 rounded whitespace-nowrap">{label}</span>
+                            </div>
+                        ) : (
+                            <div
+                                key={`gap-${i}`}
+                                className="absolute w-px bg-pink-500"
+                                style={{ left: `${toCanvasX(measurement.position)}%`, top: `${measurement.start}%`, height: `${measurement.end - measurement.start}%` }}
+                            >
+                                <span className="absolute top-1/2 -translate-y-1/2 left-1 bg-pink-500 text-white text-[9px] font-bold px-1 rounded whitespace-nowrap">{label}</span>
+                            </div>
+                        );
+                    })}
                 </div>
             )}
             <motion.div
@@ -313,10 +425,21 @@ const AssetRenderer = memo(function AssetRenderer({
                     asset.isHidden && "opacity-0 pointer-events-none",
                     isSelected && "z-50",
                     isRearrangeFirst && "ring-4 ring-purple-500 ring-offset-4 ring-offset-purple-50 z-[60] scale-[1.02]",
-                    asset.isLocked && "cursor-default"
+                    (asset.isLocked || heldBy) && "cursor-default"
                 )}
-                style={{ transformOrigin: '50% 50%' }}
+                style={{
+                    transformOrigin: '50% 50%',
+                    ...(heldBy && { outline: `2px solid ${heldBy.color}`, outlineOffset: 2 })
+                }}
             >
+                {heldBy && (
+                    <div
+                        className="absolute -top-6 left-0 z-[60] px-2 py-0.5 rounded-t-md text-[9px] font-black uppercase tracking-widest text-white whitespace-nowrap pointer-events-none"
+                        style={{ backgroundColor: heldBy.color }}
+                    >
+                        {heldBy.name} is editing
+                    </div>
+                )}
                 <LayoutFrame
                     box={box as any}
                     isEditable={!isEditing} 
@@ -443,6 +566,7 @@ const AssetRenderer = memo(function AssetRenderer({
         prev.asset === next.asset &&
         prev.isSelected === next.isSelected &&
         prev.isRearrangeFirst === next.isRearrangeFirst &&
+        prev.heldBy === next.heldBy &&
         prev.zoom === next.zoom &&
         prev.side === next.side &&
         prev.pageId === next.pageId &&
@@ -457,9 +581,10 @@ export const EditorCanvas = memo(function EditorCanvas({
     onAssetClick, rearrangeFirstId, isRearrangeMode, onLocalFileDrop
 }: EditorCanvasProps) {
     const {
-        album, selectedAssetId, setSelectedAssetId, updateAsset,
+        album, setSelectedAssetId, updateAsset,
         removeAsset, duplicateAsset, updateAssetZIndex, addAsset,
-        setActiveSlot
+        setActiveSlot, getAssetHolder, selectedAssetIds, setSelectedAssetIds,
+        selectAsset, arrangeSelection
     } = useAlbum();
 
     const [editingTextId, setEditingTextId] = useState<string | null>(null);
@@ -471,22 +596,72 @@ export const EditorCanvas = memo(function EditorCanvas({
     const canvasRef = useRef<HTMLDivElement>(null);
     const [contextMenu, setContextMenu] = useState<{ x: number, y: number, assetId?: string, pageId?: string } | null>(null);
     const [focalEditorAsset, setFocalEditorAsset] = useState<{ asset: Asset; pageId: string } | null>(null);
+    // Marquee rectangle in canvas percentages while dragging on empty canvas
+    const [marquee, setMarquee] = useState<Bounds | null>(null);
+
+    // Pages drawn on this canvas and where each starts, in page percentages
+    const canvasPages = useMemo(() => nextPage && !page.isSpreadLayout
+        ? [{ page, offset: 0 }, { page: nextPage, offset: 100 }]
+        : [{ page, offset: 0 }], [page, nextPage]);
+    const xScale = nextPage ? 2 : 1;
+
+    // Inherited master content, with page tokens filled in for the page it sits on;
+    // the page's own background wins when it overrides the master's
+    const getTokenizedMasterItems = useCallback((target: Page) => {
+        const items = getMasterItems(target, album?.masterPages);
+        if (!items || !album) return items;
+        const context = getPageTokenContext(album, album.pages.findIndex(p => p.id === target.id));
+        const filled = applyPageTokens({ ...target, assets: items.assets, textLayers: items.textLayers }, context);
+        return { ...items, assets: filled.assets, textLayers: filled.textLayers || [] };
+    }, [album]);
+    const masterItems = useMemo(() => getTokenizedMasterItems(page), [getTokenizedMasterItems, page]);
+    const nextMasterItems = useMemo(() => nextPage ? getTokenizedMasterItems(nextPage) : null, [getTokenizedMasterItems, nextPage]);
+    const pageBackground = masterItems?.background ? { ...page, ...masterItems.background } : page;
+    const nextPageBackground = nextPage && nextMasterItems?.background ? { ...nextPage, ...nextMasterItems.background } : nextPage;
 
     const getSizeStyles = () => {
         const { width, height } = album?.config?.dimensions || { width: 1000, height: 700 };
         const totalWidth = nextPage ? width * 2 : width;
         const aspectRatio = totalWidth / height;
-        return { width: `${totalWidth}px`, aspectRatio: `${aspectRatio}`, backgroundColor: page.backgroundColor };
+        return { width: `${totalWidth}px`, aspectRatio: `${aspectRatio}`, backgroundColor: pageBackground.backgroundColor };
+    };
+
+    /**
+     * Master items under the page's own content. Read-only here: they are
+     * edited on the master, or hidden per page from the Masters panel.
+     */
+    const renderMasterLayer = (items: ReturnType<typeof getMasterItems>, offset: number) => {
+        if (!items || (items.assets.length === 0 && items.textLayers.length === 0)) return null;
+        return (
+            <div
+                className="absolute top-0 bottom-0 pointer-events-none z-[1]"
+                style={{ left: `${offset / xScale}%`, width: `${100 / xScale}%` }}
+                title={`From master ${items.master.name}`}
+            >
+                {items.assets.map(asset => (
+                    <LayoutFrame key={asset.id} box={freeformAssetToLayoutBox(asset)} isEditable={false} applyRotation={true} />
+                ))}
+                {items.textLayers.map(layer => (
+                    <LayoutFrame key={layer.id} box={layer} isEditable={false} applyRotation={true} />
+                ))}
+            </div>
+        );
     };
 
     const handleContextMenu = (e: React.MouseEvent, assetId?: string, assetPageId?: string) => {
         if (album?.config.isLocked) return;
         e.preventDefault();
         setContextMenu({ x: e.clientX, y: e.clientY, assetId, pageId: assetPageId });
-        if (assetId) setSelectedAssetId(assetId);
+        // Keep a multi-selection when right-clicking one of its items
+        if (assetId && !selectedAssetIds.includes(assetId)) selectAsset(assetId);
     };
 
     const handleContextAction = (action: string) => {
+        const command = arrangeCommandFromAction(action);
+        if (command) {
+            arrangeSelection(command);
+            return;
+        }
         if (!contextMenu?.assetId) return;
         const assetId = contextMenu.assetId;
         const targetPageId = contextMenu.pageId || page.id;
@@ -506,19 +681,69 @@ export const EditorCanvas = memo(function EditorCanvas({
             return;
         }
 
-        setSelectedAssetId(assetId);
+        // Clicking (or finishing a drag on) an item of the selection keeps it
+        if (e.shiftKey || !selectedAssetIds.includes(assetId)) selectAsset(assetId, { additive: e.shiftKey });
         if (onPageSelect) onPageSelect(pageId);
-    }, [onPageSelect, setSelectedAssetId, onAssetClick]);
+    }, [onPageSelect, selectAsset, onAssetClick, selectedAssetIds]);
 
     const handleCanvasClick = useCallback((e: React.MouseEvent) => {
-        setSelectedAssetId(null);
+        const rect = e.currentTarget.getBoundingClientRect();
+        const onAsset = !!(e.target as HTMLElement).closest('.group\\/asset');
+        if (!onAsset && !e.shiftKey) setSelectedAssetId(null);
         if (nextPage && onPageSelect) {
-            const rect = e.currentTarget.getBoundingClientRect();
             const x = e.clientX - rect.left;
             if (x > rect.width / 2) onPageSelect(nextPage.id);
             else onPageSelect(page.id);
         } else if (onPageSelect) onPageSelect(page.id);
-    }, [nextPage, onPageSelect, page.id, setSelectedAssetId]);
+
+        // Marquee selection from empty canvas; shift adds to the selection
+        if (onAsset || e.button !== 0 || isRearrangeMode || album?.config.isLocked) return;
+        const toPct = (clientX: number, clientY: number) => ({
+            x: ((clientX - rect.left) / rect.width) * 100,
+            y: ((clientY - rect.top) / rect.height) * 100,
+        });
+        const start = toPct(e.clientX, e.clientY);
+        const baseSelection = e.shiftKey ? selectedAssetIds : [];
+
+        const handleMouseMove = (mv: MouseEvent) => {
+            const point = toPct(mv.clientX, mv.clientY);
+            const box = {
+                x: Math.min(start.x, point.x),
+                y: Math.min(start.y, point.y),
+                width: Math.abs(point.x - start.x),
+                height: Math.abs(point.y - start.y),
+            };
+            setMarquee(box);
+
+            const hits = canvasPages.flatMap(({ page: target, offset }) => {
+                const items = getArrangeItems(target);
+                const pageBox = { ...box, x: box.x * xScale - offset, width: box.width * xScale };
+                return expandToGroups(items, itemsInRect(items, pageBox));
+            });
+            setSelectedAssetIds([...baseSelection.filter(id => !hits.includes(id)), ...hits]);
+        };
+
+        const handleMouseUp = () => {
+            setMarquee(null);
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+    }, [nextPage, onPageSelect, page.id, setSelectedAssetId, isRearrangeMode, album?.config.isLocked, selectedAssetIds, setSelectedAssetIds, canvasPages, xScale]);
+
+    // Bounds of a multi-selection on this canvas, in canvas percentages
+    const selectionBounds = (() => {
+        if (selectedAssetIds.length < 2) return null;
+        const selected = canvasPages.flatMap(({ page: target, offset }) =>
+            getArrangeItems(target)
+                .filter(item => selectedAssetIds.includes(item.id))
+                .map(item => ({ ...item, x: (item.x + offset) / xScale, width: item.width / xScale }))
+        );
+        const bounds = getBounds(selected);
+        return bounds && selected.length > 1 ? { ...bounds, count: selected.length, isGrouped: selected.some(item => item.groupId) } : null;
+    })();
 
     const handleDrop = (e: React.DragEvent) => {
         e.preventDefault();
@@ -680,8 +905,9 @@ export const EditorCanvas = memo(function EditorCanvas({
                                     }}
                                     pageId={targetPage.id}
                                     side={targetSide}
-                                    isSelected={selectedAssetId === asset.id}
+                                    isSelected={selectedAssetIds.includes(asset.id)}
                                     isRearrangeFirst={rearrangeFirstId === asset.id}
+                                    heldBy={getAssetHolder(asset.id)}
                                     onClick={(e) => handleAssetClick(asset.id, targetPage.id, e)}
                                     onDoubleClick={() => setFocalEditorAsset({ asset, pageId: targetPage.id })}
                                     onContextMenu={(e) => handleContextMenu(e, asset.id, targetPage.id)}
@@ -728,8 +954,9 @@ export const EditorCanvas = memo(function EditorCanvas({
                                 asset={unifiedAsset}
                                 pageId={targetPage.id}
                                 side={targetSide}
-                                isSelected={selectedAssetId === box.id}
+                                isSelected={selectedAssetIds.includes(box.id)}
                                 isRearrangeFirst={rearrangeFirstId === box.id}
+                                heldBy={getAssetHolder(box.id)}
                                 zoom={zoom}
                                 canvasRef={canvasRef}
                                 onClick={(e) => handleAssetClick(box.id, targetPage.id, e)}
@@ -778,8 +1005,9 @@ export const EditorCanvas = memo(function EditorCanvas({
                                 asset={textAsset}
                                 pageId={targetPage.id}
                                 side={targetSide}
-                                isSelected={selectedAssetId === layer.id}
+                                isSelected={selectedAssetIds.includes(layer.id)}
                                 isRearrangeFirst={rearrangeFirstId === layer.id}
+                                heldBy={getAssetHolder(layer.id)}
                                 zoom={zoom}
                                 canvasRef={canvasRef}
                                 onClick={(e) => handleAssetClick(layer.id, targetPage.id, e)}
@@ -800,8 +1028,9 @@ export const EditorCanvas = memo(function EditorCanvas({
                             asset={asset}
                             pageId={targetPage.id}
                             side={targetSide}
-                            isSelected={selectedAssetId === asset.id}
+                            isSelected={selectedAssetIds.includes(asset.id)}
                             isRearrangeFirst={rearrangeFirstId === asset.id}
+                            heldBy={getAssetHolder(asset.id)}
                             onClick={(e) => handleAssetClick(asset.id, targetPage.id, e)}
                             onDoubleClick={() => {
                                 if (asset.type === 'text') {
@@ -830,8 +1059,9 @@ export const EditorCanvas = memo(function EditorCanvas({
                         asset={asset}
                         pageId={targetPage.id}
                         side={targetSide}
-                        isSelected={selectedAssetId === asset.id}
+                        isSelected={selectedAssetIds.includes(asset.id)}
                         isRearrangeFirst={rearrangeFirstId === asset.id}
+                        heldBy={getAssetHolder(asset.id)}
                         onClick={(e) => handleAssetClick(asset.id, targetPage.id, e)}
                         onDoubleClick={() => {
                             if (asset.type === 'text') {
@@ -874,30 +1104,32 @@ export const EditorCanvas = memo(function EditorCanvas({
             style={getSizeStyles()}
             ref={canvasRef}
         >
-            {page.backgroundImage && (
+            {pageBackground.backgroundImage && (
                 <SecureMedia
-                    url={page.backgroundImage || undefined}
+                    url={pageBackground.backgroundImage || undefined}
                     alt=""
                     className={cn("absolute top-0 bottom-0 pointer-events-none z-0", nextPage ? "left-0 w-1/2" : "inset-0 w-full h-full")}
                     style={{
-                        opacity: page.backgroundOpacity ?? 1,
-                        objectFit: page.backgroundScale === 'contain' ? 'contain' : (page.backgroundScale === 'stretch' ? 'fill' : 'cover'),
-                        objectPosition: page.backgroundPosition || 'center'
+                        opacity: pageBackground.backgroundOpacity ?? 1,
+                        objectFit: pageBackground.backgroundScale === 'contain' ? 'contain' : (pageBackground.backgroundScale === 'stretch' ? 'fill' : 'cover'),
+                        objectPosition: pageBackground.backgroundPosition || 'center'
                     }}
                 />
             )}
-            {nextPage && nextPage.backgroundImage && (
+            {nextPageBackground && nextPageBackground.backgroundImage && (
                 <SecureMedia
-                    url={nextPage.backgroundImage || undefined}
+                    url={nextPageBackground.backgroundImage || undefined}
                     alt=""
                     className="absolute top-0 bottom-0 left-1/2 w-1/2 pointer-events-none z-0"
                     style={{
-                        opacity: nextPage.backgroundOpacity ?? 1,
-                        objectFit: nextPage.backgroundScale === 'contain' ? 'contain' : (nextPage.backgroundScale === 'stretch' ? 'fill' : 'cover'),
-                        objectPosition: nextPage.backgroundPosition || 'center'
+                        opacity: nextPageBackground.backgroundOpacity ?? 1,
+                        objectFit: nextPageBackground.backgroundScale === 'contain' ? 'contain' : (nextPageBackground.backgroundScale === 'stretch' ? 'fill' : 'cover'),
+                        objectPosition: nextPageBackground.backgroundPosition || 'center'
                     }}
                 />
             )}
+            {renderMasterLayer(masterItems, 0)}
+            {nextPage && renderMasterLayer(nextMasterItems, 100)}
             {album?.config?.gridSettings?.visible && (
                 <div className="absolute inset-0 pointer-events-none z-0 flex px-0">
                     {Array.from({ length: 12 }).map((_, i) => (
@@ -911,10 +1143,49 @@ export const EditorCanvas = memo(function EditorCanvas({
                     <div className="absolute inset-0 border-[1px] border-dashed border-red-500/20" style={{ margin: '3%' }} />
                 </div>
             )}
-            {contextMenu && <ContextMenu x={contextMenu.x} y={contextMenu.y} onAction={handleContextAction} onClose={() => setContextMenu(null)} />}
+            {contextMenu && (
+                <ContextMenu
+                    x={contextMenu.x}
+                    y={contextMenu.y}
+                    onAction={handleContextAction}
+                    onClose={() => setContextMenu(null)}
+                    selectionCount={selectionBounds?.count}
+                    isGrouped={selectionBounds?.isGrouped}
+                />
+            )}
             {renderPageAssets(page, nextPage ? 'left' : side)}
             {nextPage && !page.isSpreadLayout && renderPageAssets(nextPage, 'right')}
 
+            {selectionBounds && (
+                <div
+                    className="absolute pointer-events-none z-[90] border border-dashed border-catalog-accent/60"
+                    style={{
+                        left: `${selectionBounds.x}%`,
+                        top: `${selectionBounds.y}%`,
+                        width: `${selectionBounds.width}%`,
+                        height: `${selectionBounds.height}%`
+                    }}
+                >
+                    <FloatingToolbar
+                        isVisible={!album?.config.isLocked}
+                        type="image"
+                        className="pointer-events-auto"
+                        selectionCount={selectionBounds.count}
+                        isGrouped={selectionBounds.isGrouped}
+                        onAction={(action) => {
+                            const command = arrangeCommandFromAction(action);
+                            if (command) arrangeSelection(command);
+                        }}
+                    />
+                </div>
+            )}
+            {marquee && (
+                <div
+                    className="absolute pointer-events-none z-[95] border border-catalog-accent bg-catalog-accent/10"
+                    style={{ left: `${marquee.x}%`, top: `${marquee.y}%`, width: `${marquee.width}%`, height: `${marquee.height}%` }}
+                />
+            )}
+
             {page.assets.length === 0 && page.layoutConfig?.length === 0 && page.textLayers?.length === 0 &&
                 (!nextPage || (nextPage.assets.length === 0 && nextPage.layoutConfig?.length === 0 && nextPage.textLayers?.length === 0)) && (
                     <div className="absolute inset-0 flex items-center justify-center">
@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import { Plus, GripVertical, Copy, Trash2, PlusCircle } from 'lucide-react';
 import { useAlbum, type Page } from '../../contexts/AlbumContext';
+import { resolvePageWithMaster } from '../../lib/masterPages';
 import { cn } from '../../lib/utils';
 import { SecureMedia } from '../common/SecureMedia';
+import { PresenceAvatars } from './PresenceAvatars';
 import {
     DndContext,
     closestCenter,
@@ -46,7 +48,7 @@ const dropAnimationConfig = {
 
 function SortablePageThumbnail({ page, index, isSelected, isSpreadView, spread, onPageSelect, onDuplicate, onDelete, onInsert }: SortablePageProps) {
     const isCover = page.layoutTemplate === 'cover-front' || page.layoutTemplate === 'cover-back';
-    const { album } = useAlbum();
+    const { album, collaborators } = useAlbum();
 
     const {
         attributes,
@@ -79,7 +81,7 @@ function SortablePageThumbnail({ page, index, isSelected, isSpreadView, spread,
                     isSpreadView && spread.length > 1 ? "gap-0.5" : ""
                 )}
             >
-                {spread.map((spreadPage, idx) => (
+                {spread.map(p => resolvePageWithMaster(p, album?.masterPages)).map((spreadPage, idx) => (
                     <div key={spreadPage.id} className="group/thumb relative flex flex-col items-center">
                         <div
                             onClick={(e) => {
@@ -102,6 +104,15 @@ function SortablePageThumbnail({ page, index, isSelected, isSpreadView, spread,
                                 <SecureMedia url={spreadPage.backgroundImage} className="absolute inset-0 w-full h-full object-cover opacity-50" alt="" />
                             )}
 
+                            {/* Collaborators on this page */}
+                            <div className="absolute top-1 left-1 z-20">
+                                <PresenceAvatars
+                                    collaborators={collaborators.filter(c => c.pageId === spreadPage.id)}
+                                    pages={album?.pages || []}
+                                    size="sm"
+                                />
+                            </div>
+
                             {/* Page Number */}
                             <div className="absolute bottom-2 left-3 text-[12px] font-black text-catalog-text/40 font-outfit uppercase tracking-tighter z-10">
                                 {spreadPage.pageNumber}
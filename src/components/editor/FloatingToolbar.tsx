@@ -1,5 +1,11 @@
 import { Button } from '../ui/Button';
-import { Copy, Trash2, Layers, Pencil } from 'lucide-react';
+import {
+    Copy, Trash2, Layers, Pencil,
+    AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+    AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+    AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter,
+    StretchHorizontal, StretchVertical, Maximize, Group, Ungroup
+} from 'lucide-react';
 import { cn } from '../../lib/utils';
 
 interface FloatingToolbarProps {
@@ -10,11 +16,76 @@ interface FloatingToolbarProps {
     width?: number;
     pageWidth?: number;
     onResize?: (delta: number) => void;
+    selectionCount?: number;
+    isGrouped?: boolean;
 }
 
-export function FloatingToolbar({ onAction, isVisible, type, className, width, pageWidth, onResize }: FloatingToolbarProps) {
+const ARRANGE_ACTIONS = [
+    [
+        { action: 'align-left', label: 'Align left', icon: AlignStartVertical },
+        { action: 'align-center', label: 'Align centers', icon: AlignCenterVertical },
+        { action: 'align-right', label: 'Align right', icon: AlignEndVertical },
+        { action: 'align-top', label: 'Align top', icon: AlignStartHorizontal },
+        { action: 'align-middle', label: 'Align middles', icon: AlignCenterHorizontal },
+        { action: 'align-bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+    ],
+    [
+        { action: 'distribute-horizontal', label: 'Distribute horizontally', icon: AlignHorizontalDistributeCenter, minCount: 3 },
+        { action: 'distribute-vertical', label: 'Distribute vertically', icon: AlignVerticalDistributeCenter, minCount: 3 },
+    ],
+    [
+        { action: 'match-width', label: 'Match width', icon: StretchHorizontal },
+        { action: 'match-height', label: 'Match height', icon: StretchVertical },
+        { action: 'match-both', label: 'Match size', icon: Maximize },
+    ],
+];
+
+export function FloatingToolbar({ onAction, isVisible, type, className, width, pageWidth, onResize, selectionCount = 1, isGrouped }: FloatingToolbarProps) {
     if (!isVisible) return null;
 
+    if (selectionCount > 1) {
+        return (
+            <div
+                className={cn(
+                    "absolute -top-12 left-1/2 -translate-x-1/2 flex items-center gap-0.5 bg-white rounded-lg shadow-2xl border border-catalog-accent/20 p-1 z-[100] animate-in fade-in slide-in-from-bottom-2 duration-200 whitespace-nowrap",
+                    className
+                )}
+                onClick={(e) => e.stopPropagation()}
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <span className="text-[9px] font-bold text-catalog-accent px-2">{selectionCount}</span>
+                {ARRANGE_ACTIONS.map((group, index) => (
+                    <div key={index} className="flex items-center gap-0.5">
+                        <div className="w-px h-4 bg-catalog-accent/10 mx-0.5" />
+                        {group.map(({ action, label, icon: Icon, ...rest }) => (
+                            <Button
+                                key={action}
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => onAction(action)}
+                                disabled={'minCount' in rest && selectionCount < rest.minCount}
+                                className="h-8 w-8 p-0 hover:bg-catalog-accent/5 text-catalog-text disabled:opacity-30"
+                                title={label}
+                            >
+                                <Icon className="w-4 h-4" />
+                            </Button>
+                        ))}
+                    </div>
+                ))}
+                <div className="w-px h-4 bg-catalog-accent/10 mx-0.5" />
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onAction(isGrouped ? 'ungroup' : 'group')}
+                    className="h-8 px-2 hover:bg-catalog-accent/5 text-catalog-text text-[10px] font-bold uppercase tracking-wider gap-2"
+                >
+                    {isGrouped ? <Ungroup className="w-4 h-4" /> : <Group className="w-4 h-4" />}
+                    {isGrouped ? 'Ungroup' : 'Group'}
+                </Button>
+            </div>
+        );
+    }
+
     const percentage = width && pageWidth ? Math.round((width / pageWidth) * 100) : 0;
 
     return (
@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { History, Eye, RotateCcw, FileClock, Pencil, Loader2, Check } from 'lucide-react';
+import { useAlbum, type Album } from '../../contexts/AlbumContext';
+import { AlbumRevisionService, type AlbumRevision } from '../../services/albumRevisions';
+import { unifiedAlbumToContextAlbum, unifiedPageToContextPage } from '../../lib/albumAdapters';
+import { FlipbookViewer } from '../viewer/FlipbookViewer';
+import { EditHistoryList } from './EditHistoryList';
+import { cn } from '../../lib/utils';
+import type { UnifiedAlbum } from '../../types/album';
+
+/**
+ * Album history: this session's undo steps, and saved revisions that can be
+ * previewed in the flipbook, restored as a whole, or used to restore just
+ * the current page.
+ */
+export function HistoryPanel() {
+    const { album, setAlbum, saveAlbum, saveStatus, currentPageIndex } = useAlbum();
+    const [revisions, setRevisions] = useState<AlbumRevision[]>([]);
+    const [hasLoaded, setHasLoaded] = useState(false);
+    const [busyRevision, setBusyRevision] = useState<string | null>(null);
+    const [preview, setPreview] = useState<{ revision: AlbumRevision; album: Album } | null>(null);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [view, setView] = useState<'edits' | 'saved'>('edits');
+    const contentCache = useRef(new Map<string, UnifiedAlbum>());
+
+    const albumId = album?.id;
+    const currentPage = album?.pages[currentPageIndex];
+
+    // Reload after every successful save so the new revision shows up
+    useEffect(() => {
+        if (!albumId || (saveStatus !== 'saved' && saveStatus !== 'idle')) return;
+        let cancelled = false;
+        AlbumRevisionService.listRevisions(albumId).then(list => {
+            if (cancelled) return;
+            setRevisions(list);
+            setHasLoaded(true);
+        });
+        return () => { cancelled = true; };
+    }, [albumId, saveStatus]);
+
+    const loadContent = async (revision: AlbumRevision) => {
+        const cached = contentCache.current.get(revision.id);
+        if (cached) return cached;
+
+        setBusyRevision(revision.id);
+        const content = await AlbumRevisionService.loadRevision(revision.albumId, revision.sequence);
+        setBusyRevision(null);
+
+        if (!content) {
+            alert('Could not load this revision.');
+            return null;
+        }
+        contentCache.current.set(revision.id, content);
+        return content;
+    };
+
+    const handlePreview = async (revision: AlbumRevision) => {
+        const content = await loadContent(revision);
+        if (content) setPreview({ revision, album: unifiedAlbumToContextAlbum(content) });
+    };
+
+    const handleRestore = async (revision: AlbumRevision) => {
+        if (!album || album.config.isLocked) return;
+        if (!confirm(`Restore the whole album to "${revision.name}"? Your current version stays in history.`)) return;
+
+        const content = await loadContent(revision);
+        if (!content) return;
+
+        setAlbum({ ...unifiedAlbumToContextAlbum(content), updatedAt: new Date() });
+        setTimeout(() => saveAlbum({ revisionName: `Restored "${revision.name}"` }), 100);
+    };
+
+    const handleRestorePage = async (revision: AlbumRevision) => {
+        if (!album || !currentPage || album.config.isLocked) return;
+
+        const content = await loadContent(revision);
+        const sourcePage = content?.pages.find(p => p.pageNumber === currentPage.pageNumber);
+        if (!sourcePage) {
+            alert(`Page ${currentPage.pageNumber} does not exist in this revision.`);
+            return;
+        }
+
+        const restoredPage = unifiedPageToContextPage(sourcePage, currentPage.id);
+        setAlbum({
+            ...album,
+            pages: album.pages.map(p => p.id === currentPage.id ? restoredPage : p),
+            updatedAt: new Date()
+        });
+        setTimeout(() => saveAlbum({ revisionName: `Restored page ${currentPage.pageNumber} from "${revision.name}"` }), 100);
+    };
+
+    const commitRename = async (revision: AlbumRevision) => {
+        const name = renameValue.trim();
+        setRenamingId(null);
+        if (!name || name === revision.name) return;
+        if (await AlbumRevisionService.renameRevision(revision.id, name)) {
+            setRevisions(prev => prev.map(r => r.id === revision.id ? { ...r, name } : r));
+        }
+    };
+
+    if (!album) return null;
+
+    return (
+        <div className="flex flex-col h-full w-full overflow-hidden font-outfit">
+            <div className="flex flex-col gap-2 p-6 border-b border-black/5 bg-black/5 backdrop-blur-md shrink-0">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-outfit font-black text-xs uppercase tracking-widest text-catalog-text flex items-center gap-3">
+                        <div className="p-2 bg-white rounded-lg shadow-sm border border-black/5">
+                            <History className="w-4 h-4 text-catalog-accent" />
+                        </div>
+                        History
+                    </h3>
+                    {view === 'saved' && !hasLoaded && <Loader2 className="w-3.5 h-3.5 animate-spin text-catalog-text/30" />}
+                </div>
+
+                <div className="flex p-1 glass rounded-xl shadow-inner border border-black/5">
+                    {(['edits', 'saved'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setView(option)}
+                            className={cn(
+                                "flex-1 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg transition-all",
+                                view === option ? "bg-white shadow-sm text-catalog-text" : "text-catalog-text/30 hover:text-catalog-text/60"
+                            )}
+                        >
+                            {option === 'edits' ? 'Edits' : 'Saved'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {view === 'edits' ? (
+                <div className="flex-1 overflow-hidden">
+                    <EditHistoryList />
+                </div>
+            ) : (
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 content-scrollbar">
+                {revisions.length === 0 && hasLoaded && (
+                    <div className="py-12 glass-card rounded-2xl border border-dashed border-black/10 flex flex-col items-center justify-center text-catalog-text/20 italic text-[10px]">
+                        <FileClock className="w-8 h-8 mb-2 opacity-10" />
+                        No saved revisions yet
+                    </div>
+                )}
+
+                {revisions.map((revision, index) => (
+                    <div
+                        key={revision.id}
+                        className={cn(
+                            "p-3 rounded-xl border border-black/5 bg-white/60 space-y-2 transition-all",
+                            busyRevision === revision.id && "opacity-60"
+                        )}
+                    >
+                        <div className="flex items-start justify-between gap-2">
+                            {renamingId === revision.id ? (
+                                <div className="flex items-center gap-1 flex-1">
+                                    <input
+                                        autoFocus
+                                        value={renameValue}
+                                        onChange={(e) => setRenameValue(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename(revision);
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                        className="flex-1 min-w-0 bg-white border border-black/10 rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-catalog-accent"
+                                    />
+                                    <button onClick={() => commitRename(revision)} className="p-1 text-catalog-accent">
+                                        <Check className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            ) : (
+                                <div className="min-w-0">
+                                    <div className="text-xs font-bold text-catalog-text truncate">{revision.name}</div>
+                                    <div className="text-[10px] text-catalog-text/40">
+                                        {revision.authorName} · {new Date(revision.createdAt).toLocaleString()}
+                                    </div>
+                                </div>
+                            )}
+                            {index === 0 && renamingId !== revision.id && (
+                                <span className="text-[8px] font-black uppercase tracking-widest text-green-600 bg-green-50 px-1.5 py-0.5 rounded">Latest</span>
+                            )}
+                        </div>
+
+                        {revision.changedPages.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                                {revision.changedPages.slice(0, 8).map(pageNumber => (
+                                    <span key={pageNumber} className="text-[9px] font-bold text-catalog-text/50 bg-black/5 rounded px-1.5 py-0.5">
+                                        p{pageNumber}
+                                    </span>
+                                ))}
+                                {revision.changedPages.length > 8 && (
+                                    <span className="text-[9px] text-catalog-text/40">+{revision.changedPages.length - 8}</span>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="flex items-center gap-1 pt-1">
+                            <button
+                                onClick={() => handlePreview(revision)}
+                                className="flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all"
+                                title="Preview in flipbook"
+                            >
+                                <Eye className="w-3 h-3" /> View
+                            </button>
+                            <button
+                                onClick={() => handleRestore(revision)}
+                                disabled={album.config.isLocked}
+                                className="flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                                title="Restore the whole album"
+                            >
+                                <RotateCcw className="w-3 h-3" /> Restore
+                            </button>
+                            <button
+                                onClick={() => handleRestorePage(revision)}
+                                disabled={album.config.isLocked || !currentPage}
+                                className="flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                                title={currentPage ? `Restore only page ${currentPage.pageNumber}` : undefined}
+                            >
+                                Page {currentPage?.pageNumber}
+                            </button>
+                            <button
+                                onClick={() => { setRenamingId(revision.id); setRenameValue(revision.name); }}
+                                className="ml-auto p-1 rounded-lg text-catalog-text/30 hover:text-catalog-accent transition-all"
+                                title="Rename revision"
+                            >
+                                <Pencil className="w-3 h-3" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            )}
+
+            {/* Rendered at the body so the sidebar's transform doesn't clip the fixed viewer */}
+            {preview && createPortal(
+                <FlipbookViewer
+                    pages={preview.album.pages}
+                    album={preview.album}
+                    onClose={() => setPreview(null)}
+                />,
+                document.body
+            )}
+        </div>
+    );
+}
@@ -3,6 +3,7 @@ import { supabase } from '../../lib/supabase';
 import { useAlbum } from '../../contexts/AlbumContext';
 import { Grid, Search, Plus, Layout as LayoutIcon, Eye, EyeOff } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import { AutoArrangePanel } from './AutoArrangePanel';
 
 interface LayoutSelection {
     id: string;
@@ -226,6 +227,11 @@ export function LayoutSidebar({ activePageId }: LayoutSidebarProps) {
 
             {/* Layout Grid */}
             <div className="flex-1 overflow-y-auto content-scrollbar p-4">
+                {activePageId && (
+                    <div className="mb-4">
+                        <AutoArrangePanel key={activePageId} activePageId={activePageId} />
+                    </div>
+                )}
                 <div className={cn(
                     "grid gap-4 pb-12",
                     viewMode === 'spread' ? "grid-cols-1" : "grid-cols-2"
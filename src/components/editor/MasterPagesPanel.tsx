@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import { LayoutTemplate, Eye, EyeOff, Unlink, Plus, Trash2, Pencil, Check, RotateCcw, ArrowUpToLine, Hash } from 'lucide-react';
+import { useAlbum, type LayoutBox, type MasterPage } from '../../contexts/AlbumContext';
+import { cn } from '../../lib/utils';
+
+interface MasterPagesPanelProps {
+    activePageId?: string | null;
+}
+
+// Footer text added by "Page Number"; filled in per page when drawn
+const PAGE_NUMBER_TEXT = '{page}';
+
+function pageNumberLayer(id: string): LayoutBox {
+    return {
+        id,
+        role: 'text',
+        left: 40,
+        top: 92,
+        width: 20,
+        height: 5,
+        zIndex: 50,
+        content: {
+            type: 'text',
+            text: PAGE_NUMBER_TEXT,
+            zoom: 1,
+            x: 50,
+            y: 50,
+            rotation: 0,
+            config: { fontFamily: 'Outfit', fontSize: 12, color: '#2d2a26', textColor: '#2d2a26', textAlign: 'center' },
+        },
+    };
+}
+
+function itemLabel(master: MasterPage, id: string) {
+    const asset = master.assets.find(a => a.id === id);
+    if (asset) return asset.id_name || asset.type;
+    const layer = master.textLayers.find(l => l.id === id);
+    return layer?.content?.text?.trim() || 'Text';
+}
+
+/**
+ * Master pages: shared backgrounds, decorations and header / page-number
+ * text that linked pages inherit. The current page can switch masters,
+ * hide individual master items, take the master background back after
+ * overriding it, or detach and keep a copy of everything.
+ */
+export function MasterPagesPanel({ activePageId }: MasterPagesPanelProps) {
+    const {
+        album, createMasterPage, updateMasterPage, removeMasterPage, assignMasterPage,
+        setMasterOverrides, detachFromMaster, moveDesignToMaster
+    } = useAlbum();
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    if (!album) return null;
+
+    const masters = album.masterPages || [];
+    const page = album.pages.find(p => p.id === activePageId);
+    const pageMaster = page?.masterPageId ? masters.find(m => m.id === page.masterPageId) : undefined;
+    const hidden = page?.masterOverrides?.hiddenItemIds || [];
+    const masterItemIds = pageMaster ? [...pageMaster.assets.map(a => a.id), ...pageMaster.textLayers.map(l => l.id)] : [];
+    const isLocked = !!album.config.isLocked;
+    const contentPageIds = album.pages
+        .filter(p => p.layoutTemplate !== 'cover-front' && p.layoutTemplate !== 'cover-back')
+        .map(p => p.id);
+
+    const handleCreate = () => {
+        if (!page) return;
+        const name = prompt('Name for the new master page:', `Master ${masters.length + 1}`)?.trim();
+        if (name) createMasterPage(page.id, name);
+    };
+
+    const toggleItem = (id: string) => {
+        if (!page) return;
+        const hiddenItemIds = hidden.includes(id) ? hidden.filter(h => h !== id) : [...hidden, id];
+        setMasterOverrides(page.id, { ...page.masterOverrides, hiddenItemIds });
+    };
+
+    const commitRename = (master: MasterPage) => {
+        const name = renameValue.trim();
+        setRenamingId(null);
+        if (name && name !== master.name) updateMasterPage(master.id, { name });
+    };
+
+    const updateText = (master: MasterPage, layerId: string, text: string) => {
+        updateMasterPage(master.id, {
+            textLayers: master.textLayers.map(l => l.id === layerId && l.content ? { ...l, content: { ...l.content, text } } : l),
+        });
+    };
+
+    const handleDelete = (master: MasterPage) => {
+        const linked = album.pages.filter(p => p.masterPageId === master.id).length;
+        const message = linked > 0
+            ? `Delete "${master.name}"? The ${linked} page${linked === 1 ? '' : 's'} using it keep a copy of its design.`
+            : `Delete "${master.name}"?`;
+        if (confirm(message)) removeMasterPage(master.id);
+    };
+
+    return (
+        <div className="flex flex-col h-full w-full overflow-hidden font-outfit">
+            <div className="flex flex-col gap-2 p-6 border-b border-black/5 bg-black/5 backdrop-blur-md shrink-0">
+                <h3 className="font-outfit font-black text-xs uppercase tracking-widest text-catalog-text flex items-center gap-3">
+                    <div className="p-2 bg-white rounded-lg shadow-sm border border-black/5">
+                        <LayoutTemplate className="w-4 h-4 text-catalog-accent" />
+                    </div>
+                    Master Pages
+                </h3>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4 content-scrollbar">
+                {page && (
+                    <div className="glass-card border border-black/5 rounded-2xl p-3 space-y-3">
+                        <span className="text-[9px] font-black uppercase tracking-widest text-catalog-text">
+                            Page {page.pageNumber}
+                        </span>
+                        <select
+                            value={page.masterPageId || ''}
+                            onChange={(e) => assignMasterPage([page.id], e.target.value || null)}
+                            disabled={isLocked}
+                            className="w-full bg-white border border-black/10 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:border-catalog-accent disabled:opacity-50"
+                        >
+                            <option value="">No master</option>
+                            {masters.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        </select>
+
+                        {pageMaster && (
+                            <>
+                                {masterItemIds.length > 0 && (
+                                    <div className="space-y-1">
+                                        {masterItemIds.map(id => (
+                                            <button
+                                                key={id}
+                                                onClick={() => toggleItem(id)}
+                                                disabled={isLocked}
+                                                className={cn(
+                                                    "w-full flex items-center justify-between gap-2 px-2 py-1 rounded-lg text-[10px] text-left hover:bg-white transition-all disabled:opacity-50",
+                                                    hidden.includes(id) ? "text-catalog-text/30 line-through" : "text-catalog-text/70"
+                                                )}
+                                                title={hidden.includes(id) ? 'Show on this page' : 'Hide on this page'}
+                                            >
+                                                <span className="truncate capitalize">{itemLabel(pageMaster, id)}</span>
+                                                {hidden.includes(id) ? <EyeOff className="w-3 h-3 shrink-0" /> : <Eye className="w-3 h-3 shrink-0" />}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <div className="flex flex-wrap gap-1">
+                                    {page.masterOverrides?.background && (
+                                        <button
+                                            onClick={() => setMasterOverrides(page.id, { ...page.masterOverrides, background: false })}
+                                            disabled={isLocked}
+                                            className="flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                                            title="Use the master's background again"
+                                        >
+                                            <RotateCcw className="w-3 h-3" /> Background
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => moveDesignToMaster(page.id)}
+                                        disabled={isLocked}
+                                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                                        title={`Move this page's decorations and text into ${pageMaster.name}`}
+                                    >
+                                        <ArrowUpToLine className="w-3 h-3" /> To Master
+                                    </button>
+                                    <button
+                                        onClick={() => detachFromMaster(page.id)}
+                                        disabled={isLocked}
+                                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                                        title="Copy the master's design into this page and unlink it"
+                                    >
+                                        <Unlink className="w-3 h-3" /> Detach
+                                    </button>
+                                </div>
+                            </>
+                        )}
+
+                        <button
+                            onClick={handleCreate}
+                            disabled={isLocked}
+                            className="w-full py-2 rounded-xl bg-catalog-accent text-white text-[9px] font-black uppercase tracking-widest shadow-lg shadow-catalog-accent/20 hover:brightness-110 transition-all disabled:opacity-30 disabled:shadow-none flex items-center justify-center gap-1.5"
+                        >
+                            <Plus className="w-3 h-3" /> New Master From Page
+                        </button>
+                    </div>
+                )}
+
+                {masters.length === 0 && (
+                    <div className="py-12 glass-card rounded-2xl border border-dashed border-black/10 flex flex-col items-center justify-center text-catalog-text/20 italic text-[10px] text-center px-4">
+                        <LayoutTemplate className="w-8 h-8 mb-2 opacity-10" />
+                        No master pages yet. Style a page, then make it a master.
+                    </div>
+                )}
+
+                {masters.map(master => {
+                    const usedBy = album.pages.filter(p => p.masterPageId === master.id).length;
+                    return (
+                        <div key={master.id} className="p-3 rounded-xl border border-black/5 bg-white/60 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    value={master.backgroundColor || '#ffffff'}
+                                    onChange={(e) => updateMasterPage(master.id, { backgroundColor: e.target.value })}
+                                    disabled={isLocked}
+                                    className="w-6 h-6 rounded border border-black/10 cursor-pointer shrink-0"
+                                    title="Background color"
+                                />
+                                {renamingId === master.id ? (
+                                    <div className="flex items-center gap-1 flex-1 min-w-0">
+                                        <input
+                                            autoFocus
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename(master);
+                                                if (e.key === 'Escape') setRenamingId(null);
+                                            }}
+                                            className="flex-1 min-w-0 bg-white border border-black/10 rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-catalog-accent"
+                                        />
+                                        <button onClick={() => commitRename(master)} className="p-1 text-catalog-accent">
+                                            <Check className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="min-w-0 flex-1">
+                                        <div className="text-xs font-bold text-catalog-text truncate">{master.name}</div>
+                                        <div className="text-[10px] text-catalog-text/40">
+                                            {usedBy} page{usedBy === 1 ? '' : 's'} · {master.assets.length + master.textLayers.length} item{master.assets.length + master.textLayers.length === 1 ? '' : 's'}
+                                        </div>
+                                    </div>
+                                )}
+                                {renamingId !== master.id && (
+                                    <button
+                                        onClick={() => { setRenamingId(master.id); setRenameValue(master.name); }}
+                                        disabled={isLocked}
+                                        className="p-1 rounded-lg text-catalog-text/30 hover:text-catalog-accent transition-all disabled:opacity-30"
+                                        title="Rename master"
+                                    >
+                                        <Pencil className="w-3 h-3" />
+                                    </button>
+                                )}
+                            </div>
+
+                            {master.textLayers.map(layer => (
+                                <input
+                                    key={`${layer.id}:${layer.content?.text || ''}`}
+                                    defaultValue={layer.content?.text || ''}
+                                    onBlur={(e) => {
+                                        if (e.target.value !== (layer.content?.text || '')) updateText(master, layer.id, e.target.value);
+                                    }}
+                                    disabled={isLocked}
+                                    className="w-full bg-white border border-black/10 rounded-lg px-2 py-1 text-[10px] focus:outline-none focus:border-catalog-accent"
+                                    placeholder="Header text, {page} of {pages}"
+                                />
+                            ))}
+
+                            <div className="flex items-center gap-1">
+                                <button
+                                    onClick={() => assignMasterPage(contentPageIds, master.id)}
+                                    disabled={isLocked}
+                                    className="px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                                    title="Use this master on every page except the covers"
+                                >
+                                    All Pages
+                                </button>
+                                <button
+                                    onClick={() => updateMasterPage(master.id, { textLayers: [...master.textLayers, pageNumberLayer(`${master.id}-page-number-${master.textLayers.length}`)] })}
+                                    disabled={isLocked}
+                                    className="flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                                    title="Add a page number at the foot of the page"
+                                >
+                                    <Hash className="w-3 h-3" /> Number
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(master)}
+                                    disabled={isLocked}
+                                    className="ml-auto p-1 rounded-lg text-catalog-text/30 hover:text-red-500 transition-all disabled:opacity-30"
+                                    title="Delete master"
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { ClipboardCheck, AlertTriangle, AlertCircle, CheckCircle2, Loader2, RefreshCw } from 'lucide-react';
+import { useAlbum } from '../../contexts/AlbumContext';
+import { PreflightService } from '../../services/preflight';
+import { contextAlbumToUnifiedAlbum } from '../../lib/albumAdapters';
+import type { PreflightIssue, PreflightReport } from '../../lib/preflight';
+import { cn } from '../../lib/utils';
+
+/**
+ * Print preflight: runs the checks on demand and lists what will go wrong
+ * page by page. Clicking an issue jumps to its page and selects the item.
+ */
+export function PreflightPanel() {
+    const { album, currentPageIndex, setCurrentPageIndex, setSelectedAssetId } = useAlbum();
+    const [report, setReport] = useState<PreflightReport | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [checkedAt, setCheckedAt] = useState<Date | null>(null);
+
+    const runPreflight = async () => {
+        if (!album) return;
+        setIsRunning(true);
+        const result = await PreflightService.run(contextAlbumToUnifiedAlbum(album));
+        setIsRunning(false);
+
+        if (!result) {
+            alert('Could not run the preflight check.');
+            return;
+        }
+        setReport(result);
+        setCheckedAt(new Date());
+    };
+
+    const jumpTo = (issue: PreflightIssue) => {
+        if (!album || !album.pages[issue.pageIndex]) return;
+        const page = album.pages[issue.pageIndex];
+        setCurrentPageIndex(issue.pageIndex);
+
+        const onPage = issue.itemId && (
+            page.assets.some(a => a.id === issue.itemId) ||
+            (page.textLayers || []).some(l => l.id === issue.itemId)
+        );
+        setSelectedAssetId(onPage ? issue.itemId! : null);
+    };
+
+    if (!album) return null;
+
+    return (
+        <div className="flex flex-col h-full w-full overflow-hidden font-outfit">
+            <div className="flex flex-col gap-3 p-6 border-b border-black/5 bg-black/5 backdrop-blur-md shrink-0">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-outfit font-black text-xs uppercase tracking-widest text-catalog-text flex items-center gap-3">
+                        <div className="p-2 bg-white rounded-lg shadow-sm border border-black/5">
+                            <ClipboardCheck className="w-4 h-4 text-catalog-accent" />
+                        </div>
+                        Preflight
+                    </h3>
+                    <button
+                        onClick={runPreflight}
+                        disabled={isRunning}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-catalog-text/60 hover:bg-white hover:text-catalog-accent transition-all disabled:opacity-30"
+                        title="Check the album for print problems"
+                    >
+                        {isRunning ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                        {report ? 'Re-check' : 'Check'}
+                    </button>
+                </div>
+
+                {report && (
+                    <div className="flex items-center gap-2 text-[10px] font-bold">
+                        <span className="text-red-600 bg-red-50 px-1.5 py-0.5 rounded">{report.errorCount} errors</span>
+                        <span className="text-orange-600 bg-orange-50 px-1.5 py-0.5 rounded">{report.warningCount} warnings</span>
+                        {checkedAt && <span className="ml-auto text-catalog-text/40 font-normal">{checkedAt.toLocaleTimeString()}</span>}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-3 content-scrollbar">
+                {!report && !isRunning && (
+                    <div className="py-12 glass-card rounded-2xl border border-dashed border-black/10 flex flex-col items-center justify-center text-center px-4 text-catalog-text/40 text-[10px]">
+                        <ClipboardCheck className="w-8 h-8 mb-2 opacity-20" />
+                        Check photo resolution, text near the trim and gutter, empty placeholders, hidden layers, videos and missing media before printing.
+                    </div>
+                )}
+
+                {report && report.pages.length === 0 && (
+                    <div className="py-12 glass-card rounded-2xl border border-dashed border-green-500/20 flex flex-col items-center justify-center text-green-600 text-[10px] font-bold">
+                        <CheckCircle2 className="w-8 h-8 mb-2 opacity-60" />
+                        No print problems found
+                    </div>
+                )}
+
+                {report?.pages.map(page => (
+                    <div key={page.pageIndex} className="space-y-1">
+                        <button
+                            onClick={() => { setCurrentPageIndex(page.pageIndex); setSelectedAssetId(null); }}
+                            className={cn(
+                                "text-[9px] font-black uppercase tracking-widest transition-colors",
+                                page.pageIndex === currentPageIndex ? "text-catalog-accent" : "text-catalog-text/40 hover:text-catalog-accent"
+                            )}
+                        >
+                            Page {page.pageNumber}
+                        </button>
+                        {page.issues.map((issue, index) => (
+                            <button
+                                key={`${issue.kind}-${issue.itemId ?? index}`}
+                                onClick={() => jumpTo(issue)}
+                                className="w-full flex items-start gap-2 p-2 rounded-xl border border-black/5 bg-white/60 hover:bg-white text-left transition-all"
+                            >
+                                {issue.severity === 'error'
+                                    ? <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-red-500" />
+                                    : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-orange-500" />}
+                                <span className="text-[10px] leading-snug text-catalog-text/80 break-words min-w-0">{issue.message}</span>
+                            </button>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
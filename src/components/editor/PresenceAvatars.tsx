@@ -0,0 +1,55 @@
+import type { Page } from '../../contexts/AlbumContext';
+import type { CollaboratorPresence } from '../../services/albumCollaboration';
+import { cn } from '../../lib/utils';
+
+interface PresenceAvatarsProps {
+    collaborators: CollaboratorPresence[];
+    pages: Page[];
+    onJumpToPage?: (pageIndex: number) => void;
+    size?: 'sm' | 'md';
+}
+
+function initials(name: string) {
+    return name
+        .split(/\s+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map(part => part[0]?.toUpperCase())
+        .join('') || '?';
+}
+
+/**
+ * Stacked avatars for everyone else editing the album. Clicking an avatar
+ * jumps to the page that collaborator is currently on.
+ */
+export function PresenceAvatars({ collaborators, pages, onJumpToPage, size = 'md' }: PresenceAvatarsProps) {
+    if (collaborators.length === 0) return null;
+
+    return (
+        <div className="flex items-center -space-x-2">
+            {collaborators.map(peer => {
+                const pageIndex = pages.findIndex(p => p.id === peer.pageId);
+                const pageLabel = pageIndex === -1 ? 'No page' : `Page ${pages[pageIndex].pageNumber}`;
+                return (
+                    <button
+                        key={peer.clientId}
+                        type="button"
+                        onClick={() => pageIndex !== -1 && onJumpToPage?.(pageIndex)}
+                        title={`${peer.name} — ${pageLabel}`}
+                        className={cn(
+                            "relative rounded-full border-2 border-white shadow-sm overflow-hidden flex items-center justify-center font-black text-white transition-transform hover:scale-110 hover:z-10",
+                            size === 'sm' ? "w-5 h-5 text-[7px]" : "w-8 h-8 text-[10px]"
+                        )}
+                        style={{ backgroundColor: peer.color, boxShadow: `0 0 0 2px ${peer.color}` }}
+                    >
+                        {peer.avatarUrl ? (
+                            <img src={peer.avatarUrl} alt={peer.name} className="w-full h-full object-cover" />
+                        ) : (
+                            initials(peer.name)
+                        )}
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, GitMerge, User, Users } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { cn } from '../../lib/utils';
+import {
+    canMergePage,
+    defaultResolutions,
+    summarizePageChanges,
+    type PageChangeSummary,
+    type PageResolution,
+    type SaveConflictReview,
+} from '../../lib/albumMerge';
+import type { DivergedPage, UnifiedPage } from '../../types/album';
+
+interface SaveConflictDialogProps {
+    review: SaveConflictReview;
+    onResolve: (resolutions: Record<string, PageResolution>) => void;
+    isResolving?: boolean;
+}
+
+const CHANGE_LABELS: Record<DivergedPage['change'], string> = {
+    modified: 'Edited by someone else',
+    added: 'Added by someone else',
+    removed: 'Deleted by someone else',
+};
+
+function describe(summary: PageChangeSummary, page: UnifiedPage | undefined) {
+    if (!page) return 'Page removed';
+    const parts = [
+        summary.added && `${summary.added} added`,
+        summary.changed && `${summary.changed} changed`,
+        summary.removed && `${summary.removed} removed`,
+        summary.backgroundChanged && 'background',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+/**
+ * Three-way resolution for a rejected save: for every page another session
+ * changed since we loaded the album, keep our version, take theirs, or merge
+ * both asset by asset.
+ */
+export function SaveConflictDialog({ review, onResolve, isResolving }: SaveConflictDialogProps) {
+    const { conflict, base, mine } = review;
+    const [resolutions, setResolutions] = useState<Record<string, PageResolution>>(() => defaultResolutions(conflict));
+
+    const rows = useMemo(() => conflict.pages.map(page => {
+        const find = (pages: UnifiedPage[] | undefined) => pages?.find(p => p.id === page.pageId);
+        const basePage = find(base?.pages);
+        const minePage = find(mine.pages);
+        const theirPage = find(conflict.theirs.pages);
+        return {
+            page,
+            mine: describe(summarizePageChanges(basePage, minePage), minePage),
+            theirs: describe(summarizePageChanges(basePage, theirPage), theirPage),
+        };
+    }), [conflict, base, mine]);
+
+    const setAll = (resolution: PageResolution) => {
+        const next: Record<string, PageResolution> = {};
+        conflict.pages.forEach(page => { next[page.pageId] = resolution; });
+        setResolutions(next);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-[110] flex items-center justify-center p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full p-6 space-y-5 animate-slide-up">
+                <div className="flex items-start gap-3">
+                    <div className="w-10 h-10 rounded-full bg-orange-50 text-orange-500 flex items-center justify-center shrink-0">
+                        <AlertTriangle className="w-5 h-5" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-serif text-catalog-text">This album changed while you were editing</h3>
+                        <p className="text-sm text-gray-500">
+                            Someone saved version {conflict.remoteVersion} after you opened version {conflict.baseVersion}.
+                            Choose what to keep for each page they touched. Other pages keep your edits.
+                        </p>
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                    <Button variant="secondary" size="sm" onClick={() => setAll('mine')}>
+                        <User className="w-4 h-4" /> Keep all mine
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => setAll('theirs')}>
+                        <Users className="w-4 h-4" /> Take all theirs
+                    </Button>
+                </div>
+
+                <div className="border border-gray-100 rounded-lg divide-y divide-gray-100 max-h-[50vh] overflow-y-auto">
+                    {rows.map(({ page, mine: mineSummary, theirs: theirSummary }) => {
+                        const options: { value: PageResolution; label: string; disabled?: boolean }[] = [
+                            { value: 'mine', label: 'Mine' },
+                            { value: 'theirs', label: 'Theirs' },
+                            { value: 'merge', label: 'Merge', disabled: !canMergePage(page) },
+                        ];
+                        return (
+                            <div key={page.pageId} className="p-4 flex items-center gap-4">
+                                <div className="w-20 shrink-0">
+                                    <div className="text-sm font-bold text-catalog-text">Page {page.pageNumber}</div>
+                                    <div className="text-[10px] uppercase tracking-wider text-orange-500">{CHANGE_LABELS[page.change]}</div>
+                                </div>
+                                <div className="flex-1 grid grid-cols-2 gap-3 text-xs text-gray-500">
+                                    <div>
+                                        <div className="font-semibold text-catalog-text">Your version</div>
+                                        {mineSummary}
+                                    </div>
+                                    <div>
+                                        <div className="font-semibold text-catalog-text">Their version</div>
+                                        {theirSummary}
+                                    </div>
+                                </div>
+                                <div className="flex rounded-lg border border-gray-200 overflow-hidden shrink-0">
+                                    {options.map(option => (
+                                        <button
+                                            key={option.value}
+                                            type="button"
+                                            disabled={option.disabled}
+                                            onClick={() => setResolutions(prev => ({ ...prev, [page.pageId]: option.value }))}
+                                            className={cn(
+                                                "px-3 py-1.5 text-xs font-medium transition-colors disabled:opacity-30 disabled:cursor-not-allowed",
+                                                resolutions[page.pageId] === option.value
+                                                    ? "bg-catalog-accent text-white"
+                                                    : "bg-white text-gray-600 hover:bg-gray-50"
+                                            )}
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <p className="text-xs text-gray-400">
+                    Merge keeps every photo and text block either of you added, and takes the other session's edits where you did not change the same item.
+                </p>
+
+                <div className="pt-2 flex justify-end">
+                    <Button variant="primary" onClick={() => onResolve(resolutions)} isLoading={isResolving}>
+                        <GitMerge className="w-4 h-4" /> Apply and save
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
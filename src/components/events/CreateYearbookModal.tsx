@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X, BookOpen, BookMarked, Layout, FileText, Edit } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../ui/Button';
+import type { FilterState } from '../ui/FilterBar';
+import { describeFilters } from '../../lib/yearbook';
+import { YearbookService } from '../../services/yearbook';
+
+// Page sizes for the album version, with the album pixel size CreateAlbumModal uses for each
+const YEARBOOK_SIZES: { value: string; label: string; width: number; height: number }[] = [
+    { value: 'A4-portrait', label: 'A4 Portrait (210 x 297 mm)', width: 707, height: 1000 },
+    { value: 'A4-landscape', label: 'A4 Landscape (297 x 210 mm)', width: 1000, height: 707 },
+    { value: 'Square', label: 'Square (210 x 210 mm)', width: 1000, height: 1000 },
+];
+
+interface CreateYearbookModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    filters: FilterState;
+    eventCount: number;         // Events that pass the filters
+}
+
+/**
+ * Compile the events picked with the Events page filters into a yearbook,
+ * either as an album opened in the editor or as a PDF download.
+ */
+export function CreateYearbookModal({ isOpen, onClose, filters, eventCount }: CreateYearbookModalProps) {
+    const { user, familyId } = useAuth();
+    const navigate = useNavigate();
+    const [title, setTitle] = useState('');
+    const [output, setOutput] = useState<'album' | 'pdf'>('album');
+    const [size, setSize] = useState('A4-portrait');
+    const [isLoading, setIsLoading] = useState(false);
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        if (!user || !familyId) {
+            alert('You must be part of a family group to create a yearbook.');
+            return;
+        }
+
+        setIsLoading(true);
+        const paper = YEARBOOK_SIZES.find(option => option.value === size)!;
+        const request = {
+            familyId,
+            creatorId: user.id,
+            filters,
+            title: title || undefined,
+            size,
+            dimensions: { width: paper.width, height: paper.height, unit: 'px' as const, bleed: 25, gutter: 40 },
+        };
+
+        if (output === 'pdf') {
+            const result = await YearbookService.exportPdf(request);
+            setIsLoading(false);
+            if (!result) {
+                alert('Could not create the yearbook: no events match the current filters.');
+                return;
+            }
+            if (result.missing.length > 0) {
+                alert(`${result.missing.length} photo(s) could not be included in the PDF.`);
+            }
+            onClose();
+            return;
+        }
+
+        const result = await YearbookService.createYearbookAlbum(request);
+        if (!result) {
+            alert('Could not create the yearbook. Please try again.');
+            setIsLoading(false);
+            return;
+        }
+        onClose();
+        navigate(`/album/${result.albumId}/edit`);
+    }
+
+    if (!isOpen) return null;
+
+    const summary = describeFilters(filters);
+    const fieldClass = "w-full px-4 py-3 border border-catalog-accent/20 rounded-sm focus:outline-none focus:ring-2 focus:ring-catalog-accent/50 bg-white appearance-none";
+    const labelClass = "text-xs font-bold text-catalog-accent uppercase tracking-widest flex items-center gap-2";
+    const optionClass = (active: boolean) => `flex items-start gap-3 p-3 rounded-sm border cursor-pointer transition-colors ${active ? 'border-catalog-accent bg-catalog-accent/5' : 'border-catalog-accent/20 bg-catalog-bg/30'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-lg shadow-2xl max-w-lg w-full overflow-hidden animate-slide-up">
+                <div className="p-6 border-b border-catalog-accent/20 flex items-center justify-between bg-catalog-bg/50">
+                    <h2 className="text-2xl font-serif text-catalog-text flex items-center gap-2">
+                        <BookMarked className="w-6 h-6 text-catalog-accent" />
+                        Create Yearbook
+                    </h2>
+                    <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-catalog-text/40" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                    <div className="space-y-4">
+                        <p className="text-sm text-catalog-text/70">
+                            {eventCount} {eventCount === 1 ? 'event' : 'events'}
+                            {summary ? <> matching <span className="font-bold">{summary}</span></> : ' from the whole archive'}
+                            , one chapter each, oldest first.
+                        </p>
+
+                        <div className="space-y-2">
+                            <label className={labelClass}>
+                                <BookOpen className="w-3 h-3" /> Title
+                            </label>
+                            <input
+                                type="text"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                placeholder="Family Yearbook"
+                                className={fieldClass}
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <label className={optionClass(output === 'album')}>
+                                <input type="radio" checked={output === 'album'} onChange={() => setOutput('album')} className="mt-0.5 accent-catalog-accent" />
+                                <span className="space-y-1">
+                                    <span className="text-xs font-bold text-catalog-accent uppercase tracking-widest flex items-center gap-1"><Edit className="w-3 h-3" /> Album</span>
+                                    <span className="block text-[10px] text-catalog-text/40 italic">Opens in the editor to refine and print.</span>
+                                </span>
+                            </label>
+                            <label className={optionClass(output === 'pdf')}>
+                                <input type="radio" checked={output === 'pdf'} onChange={() => setOutput('pdf')} className="mt-0.5 accent-catalog-accent" />
+                                <span className="space-y-1">
+                                    <span className="text-xs font-bold text-catalog-accent uppercase tracking-widest flex items-center gap-1"><FileText className="w-3 h-3" /> PDF</span>
+                                    <span className="block text-[10px] text-catalog-text/40 italic">Full stories, galleries and reviews on A4.</span>
+                                </span>
+                            </label>
+                        </div>
+
+                        {output === 'album' && (
+                            <div className="space-y-2">
+                                <label className={labelClass}>
+                                    <Layout className="w-3 h-3" /> Page Size
+                                </label>
+                                <select value={size} onChange={(e) => setSize(e.target.value)} className={fieldClass}>
+                                    {YEARBOOK_SIZES.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        <p className="text-[10px] text-catalog-text/40 italic">
+                            The yearbook has a cover, a table of contents, a chapter per event with its photos, and an index of the people and places in it.
+                        </p>
+                    </div>
+
+                    <div className="flex gap-4 pt-4 border-t border-catalog-accent/10">
+                        <Button type="button" variant="ghost" className="flex-1" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" variant="primary" className="flex-1" isLoading={isLoading} disabled={eventCount === 0}>
+                            {output === 'pdf' ? 'Download PDF' : 'Create Yearbook'}
+                        </Button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { Inbox, Link2, Copy, Check, Trash2, X, Clock, MessageCircle, Loader2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Card } from '../ui/Card';
+import { SecureMedia } from '../common/SecureMedia';
+import { useAuth } from '../../contexts/AuthContext';
+import { SHARE_EXPIRY_PRESETS, type ShareExpiry } from '../../services/sharing';
+import {
+    EventContributionService, contributionLinkUrl,
+    type ContributionLink, type ContributedAsset, type EventContribution,
+} from '../../services/eventContributions';
+
+interface GuestContributionsPanelProps {
+    eventId: string;
+    eventTitle?: string;
+    onApproved: (asset: ContributedAsset) => void;
+}
+
+/**
+ * "Invite contributions" links for an event and the queue of guest uploads
+ * waiting for an admin to approve or reject them.
+ */
+export function GuestContributionsPanel({ eventId, eventTitle, onApproved }: GuestContributionsPanelProps) {
+    const { userRole } = useAuth();
+    const isAdmin = userRole === 'admin' || userRole === 'super_admin';
+
+    const [links, setLinks] = useState<ContributionLink[]>([]);
+    const [pending, setPending] = useState<EventContribution[]>([]);
+    const [expiry, setExpiry] = useState<ShareExpiry>('7d');
+    const [creating, setCreating] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([
+            EventContributionService.listLinks(eventId),
+            EventContributionService.listPending(eventId),
+        ]).then(([activeLinks, queue]) => {
+            if (cancelled) return;
+            setLinks(activeLinks);
+            setPending(queue);
+        });
+        return () => { cancelled = true; };
+    }, [eventId]);
+
+    const handleInvite = async () => {
+        setCreating(true);
+        const { link, error } = await EventContributionService.createLink(eventId, expiry);
+        setCreating(false);
+        if (!link) {
+            alert(error || 'Failed to create the upload link.');
+            return;
+        }
+        setLinks(current => [link, ...current]);
+        copyLink(link);
+    };
+
+    const copyLink = (link: ContributionLink) => {
+        navigator.clipboard.writeText(contributionLinkUrl(eventTitle, link.token));
+        setCopiedId(link.id);
+        setTimeout(() => setCopiedId(null), 2000);
+    };
+
+    const handleRevoke = async (link: ContributionLink) => {
+        if (!confirm('Revoke this upload link? Guests will no longer be able to send photos with it.')) return;
+        const { success, error } = await EventContributionService.revokeLink(link.id);
+        if (!success) {
+            alert(error || 'Failed to revoke link.');
+            return;
+        }
+        setLinks(current => current.filter(l => l.id !== link.id));
+    };
+
+    const handleApprove = async (contribution: EventContribution) => {
+        setReviewingId(contribution.id);
+        const { asset, error } = await EventContributionService.approve(contribution);
+        setReviewingId(null);
+        if (!asset) {
+            alert(error || 'Failed to approve contribution.');
+            return;
+        }
+        setPending(current => current.filter(c => c.id !== contribution.id));
+        onApproved(asset);
+    };
+
+    const handleReject = async (contribution: EventContribution) => {
+        if (!confirm(`Reject this upload from ${contribution.uploaderName}? It will be deleted.`)) return;
+        setReviewingId(contribution.id);
+        const { success, error } = await EventContributionService.reject(contribution);
+        setReviewingId(null);
+        if (!success) {
+            alert(error || 'Failed to reject contribution.');
+            return;
+        }
+        setPending(current => current.filter(c => c.id !== contribution.id));
+    };
+
+    return (
+        <Card className="p-10 glass-card rounded-[3rem] border border-black/5 space-y-8">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                <h3 className="flex items-center gap-4 text-[11px] font-black text-catalog-text/30 uppercase tracking-[0.4em] font-outfit">
+                    <div className="p-2 bg-white rounded-lg shadow-sm border border-black/5">
+                        <Inbox className="w-4 h-4 text-catalog-accent" />
+                    </div>
+                    Guest Contributions
+                    {pending.length > 0 && (
+                        <span className="px-2 py-0.5 rounded-full bg-catalog-accent text-white tracking-widest">{pending.length}</span>
+                    )}
+                </h3>
+
+                <div className="flex items-center gap-2">
+                    <select
+                        value={expiry}
+                        onChange={e => setExpiry(e.target.value as ShareExpiry)}
+                        className="h-10 px-3 rounded-xl bg-black/5 text-[10px] font-black uppercase tracking-widest text-catalog-text/60"
+                        title="Link expires after"
+                    >
+                        {SHARE_EXPIRY_PRESETS.map(preset => (
+                            <option key={preset.value} value={preset.value}>{preset.label}</option>
+                        ))}
+                    </select>
+                    <Button
+                        variant="primary"
+                        onClick={handleInvite}
+                        isLoading={creating}
+                        className="rounded-xl h-10 px-5 font-black uppercase tracking-widest text-[10px] gap-2"
+                    >
+                        <Link2 className="w-4 h-4" /> Invite Contributions
+                    </Button>
+                </div>
+            </div>
+
+            {links.length > 0 && (
+                <ul className="space-y-2">
+                    {links.map(link => (
+                        <li key={link.id} className="flex items-center gap-3 p-3 rounded-2xl bg-white/60 border border-black/5 text-xs">
+                            <Link2 className="w-4 h-4 text-catalog-accent shrink-0" />
+                            <span className="flex-1 min-w-0 truncate font-mono text-catalog-text/60">{contributionLinkUrl(eventTitle, link.token)}</span>
+                            <span className="flex items-center gap-1 text-[10px] text-catalog-text/40 shrink-0">
+                                <Clock className="w-3 h-3" /> {link.expiresAt ? `Until ${new Date(link.expiresAt).toLocaleDateString()}` : 'No expiry'}
+                            </span>
+                            <button onClick={() => copyLink(link)} className="p-2 text-catalog-text/40 hover:text-catalog-accent transition-colors" title="Copy link">
+                                {copiedId === link.id ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                            </button>
+                            <button onClick={() => handleRevoke(link)} className="p-2 text-catalog-text/40 hover:text-red-500 transition-colors" title="Revoke link">
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {pending.length === 0 ? (
+                <p className="text-[11px] font-black text-catalog-text/20 uppercase tracking-[0.3em] text-center py-6">
+                    No uploads waiting for review
+                </p>
+            ) : (
+                <>
+                    {!isAdmin && (
+                        <p className="text-xs text-catalog-text/50 italic">Only family admins can approve or reject guest uploads.</p>
+                    )}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                        {pending.map(contribution => (
+                            <div key={contribution.id} className="rounded-[2rem] overflow-hidden bg-white border border-black/5 shadow-sm flex flex-col">
+                                <div className="aspect-square bg-black/5">
+                                    <SecureMedia
+                                        url={contribution.url}
+                                        isVideo={contribution.type === 'video'}
+                                        controls={contribution.type === 'video'}
+                                        className="w-full h-full object-cover"
+                                    />
+                                </div>
+                                <div className="p-4 space-y-2 flex-1">
+                                    <p className="text-sm font-bold text-catalog-text">{contribution.uploaderName}</p>
+                                    {contribution.message && (
+                                        <p className="text-xs text-catalog-text/60 flex gap-1.5">
+                                            <MessageCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {contribution.message}
+                                        </p>
+                                    )}
+                                    <p className="text-[10px] text-catalog-text/40">
+                                        {new Date(contribution.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                                    </p>
+                                </div>
+                                {isAdmin && (
+                                    <div className="flex border-t border-black/5">
+                                        {reviewingId === contribution.id ? (
+                                            <div className="flex-1 flex justify-center py-3">
+                                                <Loader2 className="w-4 h-4 animate-spin text-catalog-accent" />
+                                            </div>
+                                        ) : (
+                                            <>
+                                                <button
+                                                    onClick={() => handleReject(contribution)}
+                                                    className="flex-1 flex items-center justify-center gap-2 py-3 text-[10px] font-black uppercase tracking-widest text-red-500 hover:bg-red-50 transition-colors"
+                                                >
+                                                    <X className="w-4 h-4" /> Reject
+                                                </button>
+                                                <button
+                                                    onClick={() => handleApprove(contribution)}
+                                                    className="flex-1 flex items-center justify-center gap-2 py-3 text-[10px] font-black uppercase tracking-widest text-green-600 hover:bg-green-50 transition-colors border-l border-black/5"
+                                                >
+                                                    <Check className="w-4 h-4" /> Approve
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </Card>
+    );
+}
@@ -2,12 +2,15 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
     X, Star, MoreVertical, Play, Pause, Share, Edit2, Trash,
     MapPin, Volume2, VolumeX, Maximize, Minimize, Download,
-    MonitorPlay, Check, Settings2, Loader2
+    MonitorPlay, Check, Settings2, Loader2, MessageCircle
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
 import Hls from 'hls.js';
 import { useAuthorizedUrl } from '../../hooks/useAuthorizedUrl';
 import { CloudflareR2Service } from '../../services/cloudflareR2';
+import { CommentsPanel } from '../comments/CommentsPanel';
+import { useMediaFeedback } from '../../hooks/useMediaFeedback';
+import type { FeedbackScope } from '../../services/mediaComments';
 
 export interface MediaItem {
     id: string;
@@ -42,6 +45,9 @@ interface MediaStackViewerProps {
     backgroundMusicName?: string;
     readOnly?: boolean;
     shareToken?: string | null;
+    allowDownload?: boolean;    // Off for share links that do not allow downloads
+    onItemView?: (item: MediaItem) => void;     // Each item that comes into view
+    commentScope?: FeedbackScope | null;        // Comments and reactions on items, when set
     onShare?: () => void;
     onEdit?: () => void;
     onDelete?: () => void;
@@ -53,6 +59,9 @@ export function MediaStackViewer({
     initialIndex = 0,
     backgroundMusicUrl,
     readOnly,
+    allowDownload = true,
+    onItemView,
+    commentScope,
     onShare,
     onEdit,
     onDelete,
@@ -71,6 +80,8 @@ export function MediaStackViewer({
     const [showInfoDrawer, setShowInfoDrawer] = useState(false);
     const [captionText, setCaptionText] = useState('');
     const [isFavorite, setIsFavorite] = useState(false);
+    const [showComments, setShowComments] = useState(false);
+    const feedback = useMediaFeedback(commentScope);
     
     // Video-specific controls
     const [isVideoMuted, setIsVideoMuted] = useState(false);
@@ -88,6 +99,10 @@ export function MediaStackViewer({
     const preloadedVideos = useRef<Map<string, { video: HTMLVideoElement, hls?: Hls }>>(new Map());
 
     const activeItem = items[activeIndex];
+
+    useEffect(() => {
+        if (activeItem) onItemView?.(activeItem);
+    }, [activeItem, onItemView]);
     
     // Get authorized URL for the active item
     const { authorizedUrl: activeAuthorizedUrl, loading: authLoading } = useAuthorizedUrl(activeItem?.url);
@@ -554,6 +569,21 @@ export function MediaStackViewer({
                     <button onClick={() => setIsFavorite(!isFavorite)} className="p-2 bg-black/20 hover:bg-black/40 rounded-full backdrop-blur-md transition-colors border border-white/10">
                         <Star className={`w-5 h-5 ${isFavorite ? 'fill-yellow-400 text-yellow-400' : 'text-white'}`} />
                     </button>
+                    {feedback.enabled && (
+                        <button
+                            onClick={() => { setShowComments(!showComments); setIsPaused(!showComments); }}
+                            className={cn(
+                                "flex items-center gap-1.5 p-2 rounded-full backdrop-blur-md transition-colors border border-white/10",
+                                showComments ? "bg-catalog-accent" : "bg-black/20 hover:bg-black/40"
+                            )}
+                            title="Comments & Reactions"
+                        >
+                            <MessageCircle className="w-5 h-5 text-white" />
+                            {feedback.commentCount(activeItem.id) > 0 && (
+                                <span className="text-xs font-bold pr-1">{feedback.commentCount(activeItem.id)}</span>
+                            )}
+                        </button>
+                    )}
                     <button onClick={() => setShowInfoDrawer(true)} className="p-2 bg-black/20 hover:bg-black/40 rounded-full backdrop-blur-md transition-colors border border-white/10">
                         <MoreVertical className="w-5 h-5 text-white" />
                     </button>
@@ -677,9 +707,11 @@ export function MediaStackViewer({
                                             ))}
                                         </div>
                                         <div className="p-1.5">
-                                            <button onClick={() => { handleDownload(); setShowVideoMenu(false); }} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-bold text-white hover:bg-white/10 rounded-xl transition-colors">
-                                                <Download className="w-4 h-4" /> <span>Download</span>
-                                            </button>
+                                            {allowDownload && (
+                                                <button onClick={() => { handleDownload(); setShowVideoMenu(false); }} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-bold text-white hover:bg-white/10 rounded-xl transition-colors">
+                                                    <Download className="w-4 h-4" /> <span>Download</span>
+                                                </button>
+                                            )}
                                             <button onClick={() => { togglePiP(); setShowVideoMenu(false); }} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-bold text-white hover:bg-white/10 rounded-xl transition-colors">
                                                 <MonitorPlay className="w-4 h-4" /> <span>Picture-in-Picture</span>
                                             </button>
@@ -713,6 +745,14 @@ export function MediaStackViewer({
                 )}
             </div>
 
+            {feedback.enabled && showComments && (
+                <CommentsPanel
+                    feedback={feedback}
+                    items={[{ key: activeItem.id, label: activeItem.type === 'video' ? 'This video' : 'This photo' }]}
+                    onClose={() => { setShowComments(false); setIsPaused(false); }}
+                />
+            )}
+
             {/* Info Drawer */}
             {showInfoDrawer && (
                 <div className="absolute inset-0 z-30 flex flex-col justify-end bg-black/40 backdrop-blur-sm"
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Film, X, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { cn } from '../../lib/utils';
+import {
+    SLIDESHOW_RESOLUTIONS,
+    SLIDE_DURATIONS,
+    DEFAULT_SLIDE_SECONDS,
+    type SlideshowOptions,
+    type SlideshowResolution,
+} from '../../lib/slideshow';
+import type { SlideshowExportResult, SlideshowProgress } from '../../services/slideshowExport';
+
+interface SlideshowExportDialogProps {
+    title: string;
+    kind: 'album' | 'stack';
+    onClose: () => void;
+    onExport: (options: SlideshowOptions, onProgress: (progress: SlideshowProgress) => void) => Promise<SlideshowExportResult>;
+}
+
+/**
+ * Resolution and slide length for an MP4 slideshow, with progress while it
+ * is encoded in the browser.
+ */
+export function SlideshowExportDialog({ title, kind, onClose, onExport }: SlideshowExportDialogProps) {
+    const [resolution, setResolution] = useState<SlideshowResolution>('1080p');
+    // Stacks keep each photo's own duration unless one is picked
+    const [itemDuration, setItemDuration] = useState<number | undefined>(kind === 'album' ? DEFAULT_SLIDE_SECONDS : undefined);
+    const [progress, setProgress] = useState<SlideshowProgress | null>(null);
+    const [result, setResult] = useState<SlideshowExportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const busy = progress !== null;
+
+    const handleExport = async () => {
+        setError(null);
+        setResult(null);
+        setProgress({ message: 'Starting', ratio: 0 });
+        try {
+            setResult(await onExport({ resolution, itemDuration }, setProgress));
+        } catch (err) {
+            console.error('Slideshow export failed:', err);
+            setError(err instanceof Error ? err.message : 'The video could not be created.');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const durations: (number | undefined)[] = kind === 'stack' ? [undefined, ...SLIDE_DURATIONS] : SLIDE_DURATIONS;
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={busy ? undefined : onClose} />
+            <div className="relative w-full max-w-md bg-white rounded-3xl shadow-2xl p-6 space-y-5" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-3 text-catalog-accent">
+                        <Film className="w-5 h-5" />
+                        <div>
+                            <h3 className="font-bold uppercase tracking-wider text-sm">Export Video</h3>
+                            <p className="text-xs text-catalog-text/50 font-medium truncate max-w-[260px]">{title}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} disabled={busy} className="p-1 hover:bg-black/5 rounded-full disabled:opacity-30" title="Close">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <p className="text-xs text-catalog-text/60 font-medium">
+                    {kind === 'album'
+                        ? 'Every spread of the album with a page turn between them, as an MP4 you can play on a TV.'
+                        : 'Every photo and video of the stack with its captions, layers and music, as an MP4 you can play on a TV.'}
+                    {' '}The video is made on this device; keep this window open until it downloads.
+                </p>
+
+                <div className="space-y-2">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-catalog-text/40">Resolution</p>
+                    <div className="flex gap-2">
+                        {(Object.keys(SLIDESHOW_RESOLUTIONS) as SlideshowResolution[]).map(key => (
+                            <button
+                                key={key}
+                                disabled={busy}
+                                onClick={() => setResolution(key)}
+                                className={cn(
+                                    "flex-1 py-2 text-xs font-bold rounded-xl border transition-all",
+                                    resolution === key ? "bg-catalog-accent text-white border-catalog-accent" : "border-black/10 text-catalog-text/70 hover:bg-black/5"
+                                )}
+                            >
+                                {SLIDESHOW_RESOLUTIONS[key].label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-catalog-text/40">
+                        {kind === 'album' ? 'Seconds per spread' : 'Seconds per photo'}
+                    </p>
+                    <div className="flex gap-2">
+                        {durations.map(seconds => (
+                            <button
+                                key={seconds ?? 'own'}
+                                disabled={busy}
+                                onClick={() => setItemDuration(seconds)}
+                                className={cn(
+                                    "flex-1 py-2 text-xs font-bold rounded-xl border transition-all",
+                                    itemDuration === seconds ? "bg-catalog-accent text-white border-catalog-accent" : "border-black/10 text-catalog-text/70 hover:bg-black/5"
+                                )}
+                            >
+                                {seconds === undefined ? 'As set' : `${seconds}s`}
+                            </button>
+                        ))}
+                    </div>
+                    {kind === 'stack' && (
+                        <p className="text-[10px] text-catalog-text/40 font-medium">Videos always play from their trim start to end.</p>
+                    )}
+                </div>
+
+                {progress && (
+                    <div className="space-y-1.5">
+                        <div className="h-1.5 bg-black/5 rounded-full overflow-hidden">
+                            <div className="h-full bg-catalog-accent transition-all duration-300" style={{ width: `${Math.round(progress.ratio * 100)}%` }} />
+                        </div>
+                        <p className="text-xs text-catalog-text/50 font-medium">{progress.message}…</p>
+                    </div>
+                )}
+
+                {error && (
+                    <div className="p-3 bg-red-50 text-red-600 rounded-2xl border border-red-100 text-xs font-medium">{error}</div>
+                )}
+
+                {result && (
+                    <div className="space-y-2">
+                        <div className="p-3 bg-green-50 text-green-700 rounded-2xl border border-green-100 text-xs font-medium flex gap-2">
+                            <CheckCircle2 className="w-4 h-4 shrink-0" />
+                            <span>{result.fileName} downloaded ({Math.round(result.duration)} seconds).</span>
+                        </div>
+                        {result.skipped.length > 0 && (
+                            <details className="p-3 bg-orange-50 rounded-2xl border border-orange-100 text-xs text-orange-700">
+                                <summary className="font-bold cursor-pointer flex items-center gap-2">
+                                    <AlertTriangle className="w-4 h-4" />
+                                    {result.skipped.length} item(s) were left out
+                                </summary>
+                                <ul className="mt-2 space-y-1 list-disc pl-5 max-h-40 overflow-y-auto">
+                                    {result.skipped.map((line, index) => <li key={index} className="break-all">{line}</li>)}
+                                </ul>
+                            </details>
+                        )}
+                    </div>
+                )}
+
+                <Button variant="primary" onClick={handleExport} isLoading={busy} disabled={busy} className="w-full gap-2">
+                    {!busy && <Film className="w-4 h-4" />}
+                    {busy ? 'Creating Video' : 'Create MP4'}
+                </Button>
+            </div>
+        </div>
+    );
+}
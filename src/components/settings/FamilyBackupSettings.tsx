@@ -0,0 +1,158 @@
+import { useRef, useState } from 'react';
+import { Button } from '../ui/Button';
+import { Archive, Download, Upload, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { FamilyArchiveService, type FamilyImportResult } from '../../services/familyArchive';
+import type { FamilyArchiveSection } from '../../lib/familyArchive';
+
+interface FamilyBackupSettingsProps {
+    familyId: string;
+    userId: string;
+}
+
+const SECTION_LABELS: Record<FamilyArchiveSection, string> = {
+    events: 'Events',
+    albums: 'Albums',
+    stacks: 'Stacks',
+    media: 'Library files',
+    reviews: 'Reviews',
+    members: 'Members matched',
+};
+
+/**
+ * One-click backup of everything the family has stored, and restoring such
+ * a backup into an empty family.
+ */
+export function FamilyBackupSettings({ familyId, userId }: FamilyBackupSettingsProps) {
+    const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+    const [progress, setProgress] = useState('');
+    const [exportSummary, setExportSummary] = useState<string | null>(null);
+    const [report, setReport] = useState<Extract<FamilyImportResult, { status: 'imported' }> | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleExport = async () => {
+        setBusy('export');
+        setError(null);
+        setExportSummary(null);
+        const result = await FamilyArchiveService.exportFamily(familyId, setProgress);
+        setBusy(null);
+        setProgress('');
+
+        if (!result) {
+            setError('The backup could not be created. Check your connection and try again.');
+            return;
+        }
+        const { counts } = result;
+        setExportSummary(
+            `${counts.events} events, ${counts.albums} albums, ${counts.stacks} stacks, ${counts.media} library files and ${counts.reviews} reviews with ${result.mediaCount} media files.` +
+            (result.missing.length > 0 ? ` ${result.missing.length} media file(s) could not be downloaded and are listed in manifest.json.` : '')
+        );
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (!confirm(`Restore "${file.name}" into this family? This only works while the family has no events, albums, stacks or library media.`)) return;
+
+        setBusy('import');
+        setError(null);
+        setReport(null);
+        const result = await FamilyArchiveService.importFamily(file, familyId, userId, setProgress);
+        setBusy(null);
+        setProgress('');
+
+        if (result.status === 'error') {
+            setError(result.error);
+            return;
+        }
+        setReport(result);
+    };
+
+    const skipped = report
+        ? [...Object.values(report.sections).flatMap(section => section.skipped), ...report.media.skipped]
+        : [];
+
+    return (
+        <div className="p-6 bg-catalog-accent/5 border border-catalog-accent/10 rounded-3xl space-y-4">
+            <div className="flex items-center gap-3 text-catalog-accent">
+                <Archive className="w-5 h-5" />
+                <h3 className="font-bold uppercase tracking-wider text-sm">Family Backup</h3>
+            </div>
+            <p className="text-xs text-catalog-text/60 font-medium">
+                Download every event, album, stack, library file, review and member name of this family, with all photos and videos, as one zip.
+                Open its index.html to browse it without the app, or restore it into an empty family if the database is ever lost.
+            </p>
+
+            <div className="flex flex-wrap gap-3">
+                <Button variant="primary" onClick={handleExport} isLoading={busy === 'export'} disabled={!!busy} className="gap-2">
+                    {busy !== 'export' && <Download className="w-4 h-4" />}
+                    Export Everything
+                </Button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".zip,application/zip"
+                    className="hidden"
+                    onChange={handleImport}
+                />
+                <Button variant="secondary" onClick={() => fileInputRef.current?.click()} isLoading={busy === 'import'} disabled={!!busy} className="gap-2">
+                    {busy !== 'import' && <Upload className="w-4 h-4" />}
+                    Restore Backup
+                </Button>
+            </div>
+
+            {busy && progress && <p className="text-xs text-catalog-text/50 font-medium">{progress}…</p>}
+
+            {error && (
+                <div className="p-4 bg-red-50 text-red-600 rounded-2xl border border-red-100 text-sm font-medium">{error}</div>
+            )}
+
+            {exportSummary && (
+                <div className="p-4 bg-green-50 text-green-700 rounded-2xl border border-green-100 text-sm font-medium flex gap-2">
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>Backup downloaded: {exportSummary}</span>
+                </div>
+            )}
+
+            {report && (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {(Object.keys(SECTION_LABELS) as FamilyArchiveSection[]).map(section => (
+                            <div key={section} className="p-3 bg-white rounded-2xl border border-black/5">
+                                <p className="text-[10px] font-black uppercase tracking-widest text-catalog-text/40">{SECTION_LABELS[section]}</p>
+                                <p className="text-lg font-black text-catalog-text">
+                                    {report.sections[section].restored}
+                                    {report.sections[section].skipped.length > 0 && (
+                                        <span className="text-xs text-orange-500 font-bold ml-2">{report.sections[section].skipped.length} skipped</span>
+                                    )}
+                                </p>
+                            </div>
+                        ))}
+                        <div className="p-3 bg-white rounded-2xl border border-black/5">
+                            <p className="text-[10px] font-black uppercase tracking-widest text-catalog-text/40">Media files</p>
+                            <p className="text-lg font-black text-catalog-text">
+                                {report.media.restored}
+                                {report.media.skipped.length > 0 && (
+                                    <span className="text-xs text-orange-500 font-bold ml-2">{report.media.skipped.length} skipped</span>
+                                )}
+                            </p>
+                        </div>
+                    </div>
+
+                    {skipped.length > 0 && (
+                        <details className="p-4 bg-orange-50 rounded-2xl border border-orange-100 text-xs text-orange-700">
+                            <summary className="font-bold cursor-pointer flex items-center gap-2">
+                                <AlertTriangle className="w-4 h-4" />
+                                {skipped.length} item(s) were skipped or changed
+                            </summary>
+                            <ul className="mt-2 space-y-1 list-disc pl-5 max-h-64 overflow-y-auto">
+                                {skipped.map((line, index) => <li key={index} className="break-all">{line}</li>)}
+                            </ul>
+                        </details>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import { Button } from '../ui/Button';
+import { Loader2, Activity, ShieldCheck, Trash2, BookOpen, Calendar, Layers, ChevronDown, ChevronRight } from 'lucide-react';
+import { ShareVisitList } from '../sharing/ShareVisitList';
+import { ShareAnalyticsService, formatShareDuration, type ShareLinkActivity } from '../../services/shareAnalytics';
+
+interface SharingActivitySettingsProps {
+    familyId: string;
+    isAdmin: boolean;
+}
+
+const KIND_ICONS = {
+    album: BookOpen,
+    event: Calendar,
+    stack: Layers,
+};
+
+/**
+ * Who opened the family's share links, and the family-wide switch for
+ * recording it.
+ */
+export function SharingActivitySettings({ familyId, isAdmin }: SharingActivitySettingsProps) {
+    const [loading, setLoading] = useState(true);
+    const [activity, setActivity] = useState<ShareLinkActivity[]>([]);
+    const [enabled, setEnabled] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [clearing, setClearing] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([ShareAnalyticsService.isEnabled(familyId), ShareAnalyticsService.loadFamilyActivity()]).then(([isEnabled, links]) => {
+            if (cancelled) return;
+            setEnabled(isEnabled);
+            setActivity(links);
+            setLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [familyId]);
+
+    const handleToggle = async () => {
+        setSaving(true);
+        const { success, error } = await ShareAnalyticsService.setEnabled(familyId, !enabled);
+        setSaving(false);
+        if (!success) {
+            alert(error || 'Failed to save the setting.');
+            return;
+        }
+        setEnabled(!enabled);
+    };
+
+    const handleClear = async () => {
+        if (!confirm('Delete the whole sharing activity log? This cannot be undone.')) return;
+        setClearing(true);
+        const { success, error } = await ShareAnalyticsService.clearLog();
+        setClearing(false);
+        if (!success) {
+            alert(error || 'Failed to clear the log.');
+            return;
+        }
+        setActivity([]);
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-catalog-accent" />
+            </div>
+        );
+    }
+
+    const visitCount = activity.reduce((total, link) => total + link.visits.length, 0);
+
+    return (
+        <div className="space-y-8 animate-fade-in">
+            <div>
+                <h2 className="text-2xl font-outfit font-black text-catalog-text">Sharing Activity</h2>
+                <p className="text-sm text-catalog-text/50 mt-1">See when relatives opened the albums, stories and stacks you shared with them.</p>
+            </div>
+
+            <div className="p-6 bg-catalog-accent/5 border border-catalog-accent/10 rounded-3xl flex items-start justify-between gap-6">
+                <div className="space-y-1">
+                    <div className="flex items-center gap-3 text-catalog-accent">
+                        <ShieldCheck className="w-5 h-5" />
+                        <h3 className="font-bold uppercase tracking-wider text-sm">Record Visits</h3>
+                    </div>
+                    <p className="text-xs text-catalog-text/60 font-medium">
+                        Logs the time, device type, pages or items seen and watch time of each visit to a share link.
+                        Nothing is recorded while this is off.
+                        {!isAdmin && ' Only family admins can change this.'}
+                    </p>
+                </div>
+                <button
+                    role="switch"
+                    aria-checked={enabled}
+                    onClick={handleToggle}
+                    disabled={!isAdmin || saving}
+                    className={`relative shrink-0 w-12 h-7 rounded-full transition-colors disabled:opacity-50 ${enabled ? 'bg-catalog-accent' : 'bg-gray-300'}`}
+                >
+                    <span className={`absolute top-1 left-1 w-5 h-5 bg-white rounded-full shadow transition-transform ${enabled ? 'translate-x-5' : ''}`} />
+                </button>
+            </div>
+
+            <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold uppercase tracking-widest text-catalog-text/50 flex items-center gap-2">
+                        <Activity className="w-4 h-4" />
+                        {visitCount} recent {visitCount === 1 ? 'visit' : 'visits'}
+                    </h3>
+                    {isAdmin && activity.length > 0 && (
+                        <Button variant="ghost" size="sm" onClick={handleClear} isLoading={clearing} className="text-red-500 gap-2">
+                            <Trash2 className="w-4 h-4" /> Clear log
+                        </Button>
+                    )}
+                </div>
+
+                {activity.length === 0 ? (
+                    <p className="text-sm text-catalog-text/40 italic">No share link has been opened yet.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {activity.map(link => {
+                            const Icon = KIND_ICONS[link.kind];
+                            const expanded = expandedId === link.linkId;
+                            const watched = link.visits.reduce((total, visit) => total + visit.watchSeconds, 0);
+                            return (
+                                <li key={link.linkId} className="p-4 rounded-2xl border border-catalog-accent/10 bg-white space-y-3">
+                                    <button
+                                        onClick={() => setExpandedId(expanded ? null : link.linkId)}
+                                        className="w-full flex items-center gap-3 text-left"
+                                    >
+                                        <Icon className="w-4 h-4 text-catalog-accent shrink-0" />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-semibold text-catalog-text truncate">
+                                                {link.title}
+                                                {!link.isActive && <span className="ml-2 text-[10px] font-bold uppercase tracking-widest text-red-500">Revoked</span>}
+                                            </p>
+                                            <p className="text-[10px] text-catalog-text/50">
+                                                Link of {new Date(link.createdAt).toLocaleDateString()} · {link.visits.length} {link.visits.length === 1 ? 'visit' : 'visits'}, last {new Date(link.visits[0].visitedAt).toLocaleDateString()} · {formatShareDuration(watched)} in total
+                                            </p>
+                                        </div>
+                                        {expanded ? <ChevronDown className="w-4 h-4 text-catalog-text/40" /> : <ChevronRight className="w-4 h-4 text-catalog-text/40" />}
+                                    </button>
+                                    {expanded && <ShareVisitList visits={link.visits} kind={link.kind} />}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 import { memo, useRef, useEffect, useState } from 'react';
 import { Maximize2, MapPin } from 'lucide-react';
-import { getTransformedUrl, getFilterStyle } from '../../lib/assetUtils';
+import { getTransformedUrl, getFilterStyle, TEXT_GRADIENTS } from '../../lib/assetUtils';
 import { MapAsset } from '../ui/MapAsset';
 import { cn } from '../../lib/utils';
 import { useAuthorizedUrl } from '../../hooks/useAuthorizedUrl';
@@ -253,38 +253,14 @@ export const MediaRenderer = memo(function MediaRenderer({
         }, [content, isFocused]);
 
         const getGradientStyle = (gradientName: string): React.CSSProperties => {
-            switch (gradientName) {
-                case 'sunset':
-                    return {
-                        background: 'linear-gradient(135deg, #f59e0b, #ec4899, #8b5cf6)',
-                        WebkitBackgroundClip: 'text',
-                        WebkitTextFillColor: 'transparent',
-                        backgroundClip: 'text',
-                    };
-                case 'ocean':
-                    return {
-                        background: 'linear-gradient(135deg, #06b6d4, #3b82f6, #6366f1)',
-                        WebkitBackgroundClip: 'text',
-                        WebkitTextFillColor: 'transparent',
-                        backgroundClip: 'text',
-                    };
-                case 'royal':
-                    return {
-                        background: 'linear-gradient(135deg, #d946ef, #8b5cf6, #ec4899)',
-                        WebkitBackgroundClip: 'text',
-                        WebkitTextFillColor: 'transparent',
-                        backgroundClip: 'text',
-                    };
-                case 'emerald':
-                    return {
-                        background: 'linear-gradient(135deg, #10b981, #059669, #047857)',
-                        WebkitBackgroundClip: 'text',
-                        WebkitTextFillColor: 'transparent',
-                        backgroundClip: 'text',
-                    };
-                default:
-                    return {};
-            }
+            const gradient = TEXT_GRADIENTS[gradientName];
+            if (!gradient) return {};
+            return {
+                background: gradient,
+                WebkitBackgroundClip: 'text',
+                WebkitTextFillColor: 'transparent',
+                backgroundClip: 'text',
+            };
         };
 
         const gradientStyle = style.textGradient && style.textGradient !== 'none' ? getGradientStyle(style.textGradient) : {};
@@ -297,7 +273,13 @@ export const MediaRenderer = memo(function MediaRenderer({
                 contentEditable={isEditable}
                 spellCheck={true}
                 suppressContentEditableWarning={true}
-                onFocus={() => setIsFocused(true)}
+                onFocus={(e) => {
+                    setIsFocused(true);
+                    // Text with page tokens shows their values until it is edited
+                    if (isEditable && config.rawText !== undefined && e.currentTarget.innerHTML !== config.rawText) {
+                        e.currentTarget.innerHTML = config.rawText;
+                    }
+                }}
                 onInput={(e) => {
                     if (isEditable && config.onTextChange) {
                         const newContent = e.currentTarget.innerHTML;
@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '../ui/Button';
+
+interface SharePasswordPromptProps {
+    error?: string | null;      // Shown after a wrong password
+    isChecking?: boolean;
+    onSubmit: (password: string) => void;
+}
+
+/**
+ * Asks a guest for the password of a protected share link.
+ */
+export function SharePasswordPrompt({ error, isChecking, onSubmit }: SharePasswordPromptProps) {
+    const [password, setPassword] = useState('');
+
+    return (
+        <div className="min-h-screen bg-black flex flex-col items-center justify-center p-4">
+            <form
+                onSubmit={e => { e.preventDefault(); if (password) onSubmit(password); }}
+                className="max-w-md w-full bg-white/10 backdrop-blur-md border border-white/20 p-8 rounded-3xl text-center space-y-6"
+            >
+                <Lock className="w-14 h-14 text-catalog-accent mx-auto" />
+                <div className="space-y-2">
+                    <h2 className="text-2xl font-black text-white">Password Required</h2>
+                    <p className="text-gray-300 font-medium">Enter the password you were given with this link.</p>
+                </div>
+                <input
+                    type="password"
+                    autoFocus
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    className="w-full px-4 py-3 rounded-xl bg-white/10 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-catalog-accent/50"
+                />
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <Button type="submit" variant="primary" isLoading={isChecking} disabled={!password} className="w-full">
+                    Open
+                </Button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,47 @@
+import { Smartphone, Tablet, Monitor, Eye, Clock } from 'lucide-react';
+import { formatShareDuration, type ShareDeviceType, type ShareVisit } from '../../services/shareAnalytics';
+import type { ShareTargetKind } from '../../services/sharing';
+
+interface ShareVisitListProps {
+    visits: ShareVisit[];
+    kind: ShareTargetKind;
+}
+
+const DEVICES: Record<ShareDeviceType, { label: string; icon: typeof Monitor }> = {
+    mobile: { label: 'Phone', icon: Smartphone },
+    tablet: { label: 'Tablet', icon: Tablet },
+    desktop: { label: 'Computer', icon: Monitor },
+};
+
+/**
+ * The recorded guest visits to one share link, newest first.
+ */
+export function ShareVisitList({ visits, kind }: ShareVisitListProps) {
+    if (visits.length === 0) {
+        return <p className="text-[10px] text-catalog-text/40 italic">Not opened yet.</p>;
+    }
+
+    return (
+        <ul className="divide-y divide-catalog-accent/5">
+            {visits.map(visit => {
+                const device = DEVICES[visit.deviceType] || DEVICES.desktop;
+                const count = visit.viewedItems.length;
+                const noun = kind === 'album' ? 'page' : 'item';
+                return (
+                    <li key={visit.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 py-1.5 text-[10px] text-catalog-text/60">
+                        <span className="font-semibold text-catalog-text/80">
+                            {new Date(visit.visitedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                        </span>
+                        <span className="flex items-center gap-1"><device.icon className="w-3 h-3" /> {device.label}</span>
+                        {kind !== 'event' && (
+                            <span className="flex items-center gap-1"><Eye className="w-3 h-3" /> {count} {noun}{count === 1 ? '' : 's'} viewed</span>
+                        )}
+                        <span className="flex items-center gap-1">
+                            <Clock className="w-3 h-3" /> {formatShareDuration(visit.watchSeconds)} {kind === 'stack' ? 'watched' : 'viewing'}
+                        </span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
@@ -1,63 +1,103 @@
-import { useState } from 'react';
-import { supabase } from '../../lib/supabase';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
-import { Copy, Check, Clock, FileText, Download, Share2, Globe, Lock } from 'lucide-react';
+import { Copy, Check, Clock, FileText, Download, Share2, Globe, Lock, Eye, MessageCircle, Send, Trash2, Link2, Activity, Pin, Radio } from 'lucide-react';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
+import type { SharedLink } from '../../types/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { ShareVisitList } from './ShareVisitList';
+import { ShareAnalyticsService, type ShareVisit } from '../../services/shareAnalytics';
+import { AlbumRevisionService, type AlbumRevision } from '../../services/albumRevisions';
+import {
+    createShareLink, listShareLinks, revokeShareLink, sendShareLink, shareLinkUrl, shareExpiryText, isShareLinkLive, cleanupShareSnapshots,
+    SHARE_EXPIRY_PRESETS, DEFAULT_SHARE_OPTIONS, type ShareLinkOptions, type ShareTarget,
+} from '../../services/sharing';
 
 interface SharingDialogProps {
     albumId?: string;
     eventId?: string;
+    stackId?: string;
     title: string;
     onClose: () => void;
 }
 
-export function SharingDialog({ albumId, eventId, title, onClose }: SharingDialogProps) {
-    const [link, setLink] = useState<string | null>(null);
+export function SharingDialog({ albumId, eventId, stackId, title, onClose }: SharingDialogProps) {
+    const [options, setOptions] = useState<ShareLinkOptions>(DEFAULT_SHARE_OPTIONS);
+    const [created, setCreated] = useState<{ link: SharedLink; url: string } | null>(null);
+    const [links, setLinks] = useState<SharedLink[]>([]);
     const [loading, setLoading] = useState(false);
-    const [copied, setCopied] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [revokingId, setRevokingId] = useState<string | null>(null);
     const [exporting, setExporting] = useState(false);
+    const [visits, setVisits] = useState<Map<string, ShareVisit[]>>(new Map());
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [trackingEnabled, setTrackingEnabled] = useState(true);
+    const [revisions, setRevisions] = useState<AlbumRevision[]>([]);
+    const { familyId } = useAuth();
+
+    const targetId = albumId || eventId || stackId || '';
+    const target: ShareTarget = {
+        kind: albumId ? 'album' : eventId ? 'event' : 'stack',
+        id: targetId,
+        title,
+    };
+    const targetKind = target.kind;
+
+    const refreshLinks = useCallback(async () => {
+        const { links: active, error } = await listShareLinks({ kind: targetKind, id: targetId });
+        if (error) console.error('Error loading share links:', error);
+        setLinks(active);
+        setVisits(await ShareAnalyticsService.loadVisits(active.map(link => link.id)));
+    }, [targetKind, targetId]);
+
+    useEffect(() => {
+        refreshLinks();
+    }, [refreshLinks]);
+
+    useEffect(() => {
+        if (familyId) ShareAnalyticsService.isEnabled(familyId).then(setTrackingEnabled);
+    }, [familyId]);
+
+    useEffect(() => {
+        if (!albumId) return;
+        AlbumRevisionService.listRevisions(albumId).then(setRevisions);
+        cleanupShareSnapshots(albumId);
+    }, [albumId]);
+
+    const revisionLabel = (revision: AlbumRevision) =>
+        `#${revision.sequence} ${revision.name} (${new Date(revision.createdAt).toLocaleDateString()})`;
 
     const generateSharedLink = async () => {
         setLoading(true);
-        try {
-            const token = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-            const expiresAt = new Date();
-            expiresAt.setHours(expiresAt.getHours() + 48);
-
-            const { error } = await supabase
-                .from('shared_links')
-                .insert({
-                    album_id: albumId || null,
-                    event_id: eventId || null,
-                    token: token,
-                    expires_at: expiresAt.toISOString(),
-                    is_active: true
-                } as any)
-                .select()
-                .single();
-
-            if (error) throw error;
-
-            const safeTitle = title ? title.replace(/\s+/g, '_') : 'Memory';
-            const url = albumId
-                ? `${window.location.origin}/shared/${safeTitle}/${token}`
-                : `${window.location.origin}/share/${safeTitle}/${token}`;
-            setLink(url);
-        } catch (error) {
-            console.error('Error generating link:', error);
-        } finally {
-            setLoading(false);
+        const { link, url, error } = await createShareLink(target, options);
+        setLoading(false);
+        if (!link || !url) {
+            alert(error || 'Failed to generate share link.');
+            return;
         }
+        setCreated({ link, url });
+        setOptions(DEFAULT_SHARE_OPTIONS);
+        refreshLinks();
     };
 
-    const copyToClipboard = () => {
-        if (link) {
-            navigator.clipboard.writeText(link);
-            setCopied(true);
-            setTimeout(() => setCopied(false), 2000);
+    const copyToClipboard = (link: SharedLink) => {
+        navigator.clipboard.writeText(shareLinkUrl(target, link.token));
+        setCopiedId(link.id);
+        setTimeout(() => setCopiedId(null), 2000);
+    };
+
+    const handleRevoke = async (link: SharedLink) => {
+        if (!confirm('Revoke this link? Anyone holding it will lose access.')) return;
+        setRevokingId(link.id);
+        const { success, error } = await revokeShareLink(link.id);
+        setRevokingId(null);
+        if (!success) {
+            alert(error || 'Failed to revoke link.');
+            return;
         }
+        if (created?.link.id === link.id) setCreated(null);
+        setLinks(current => current.filter(l => l.id !== link.id));
     };
 
     const exportToPDF = async () => {
@@ -78,9 +118,12 @@ export function SharingDialog({ albumId, eventId, title, onClose }: SharingDialo
         }
     };
 
+    const fieldClass = "w-full px-3 py-2 border border-catalog-accent/20 rounded-sm focus:outline-none focus:ring-2 focus:ring-catalog-accent/50 bg-white text-sm";
+    const labelClass = "text-[10px] font-bold text-catalog-text/50 uppercase tracking-widest flex items-center gap-1";
+
     return (
-        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
-            <Card className="w-full max-w-lg p-8 bg-white shadow-2xl animate-fade-in">
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+            <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto p-8 bg-white shadow-2xl animate-fade-in">
                 <div className="flex items-center justify-between mb-8">
                     <div className="flex items-center gap-3">
                         <div className="w-10 h-10 bg-catalog-accent/10 rounded-full flex items-center justify-center">
@@ -96,81 +139,236 @@ export function SharingDialog({ albumId, eventId, title, onClose }: SharingDialo
                 <div className="space-y-8">
                     {/* Share Link Section */}
                     <div className="space-y-4">
-                        <div className="flex items-center justify-between">
-                            <h3 className="text-sm font-semibold uppercase tracking-widest text-catalog-text/50 flex items-center gap-2">
-                                <Globe className="w-4 h-4" />
-                                Temporary Access Link
-                            </h3>
-                            <span className="text-[10px] text-red-500 font-mono flex items-center gap-1">
-                                <Clock className="w-3 h-3" />
-                                EXPIRES IN 48H
-                            </span>
+                        <h3 className="text-sm font-semibold uppercase tracking-widest text-catalog-text/50 flex items-center gap-2">
+                            <Globe className="w-4 h-4" />
+                            New Access Link
+                        </h3>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-1">
+                                <label className={labelClass}><Clock className="w-3 h-3" /> Expires after</label>
+                                <select
+                                    value={options.expiry}
+                                    onChange={e => setOptions({ ...options, expiry: e.target.value as ShareLinkOptions['expiry'] })}
+                                    className={fieldClass}
+                                >
+                                    {SHARE_EXPIRY_PRESETS.map(preset => (
+                                        <option key={preset.value} value={preset.value}>{preset.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-1">
+                                <label className={labelClass}><Eye className="w-3 h-3" /> View limit</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={options.maxViews ?? ''}
+                                    onChange={e => setOptions({ ...options, maxViews: e.target.value ? Number(e.target.value) : null })}
+                                    placeholder="Unlimited"
+                                    className={fieldClass}
+                                />
+                            </div>
+                        </div>
+
+                        {albumId && (
+                            <div className="space-y-1">
+                                <label className={labelClass}><Radio className="w-3 h-3" /> Guests see</label>
+                                <select
+                                    value={options.albumRevisionId || ''}
+                                    onChange={e => setOptions({ ...options, albumRevisionId: e.target.value || null })}
+                                    className={fieldClass}
+                                >
+                                    <option value="">The live album, including later edits</option>
+                                    {revisions.map(revision => (
+                                        <option key={revision.id} value={revision.id}>Saved version {revisionLabel(revision)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        <div className="space-y-1">
+                            <label className={labelClass}><Lock className="w-3 h-3" /> Password</label>
+                            <input
+                                type="password"
+                                autoComplete="new-password"
+                                value={options.password || ''}
+                                onChange={e => setOptions({ ...options, password: e.target.value })}
+                                placeholder="Optional"
+                                className={fieldClass}
+                            />
                         </div>
 
-                        {!link ? (
-                            <Button
-                                onClick={generateSharedLink}
-                                isLoading={loading}
-                                className="w-full py-6 text-lg border-2 border-dashed border-catalog-accent/30 bg-catalog-accent/5 hover:bg-catalog-accent/10"
+                        <div className="flex flex-wrap gap-6 text-sm text-catalog-text/70">
+                            <label
+                                className="flex items-center gap-2 cursor-pointer"
+                                title="Lets guests download originals. Without it, media is only streamed for viewing."
                             >
-                                <Lock className="w-4 h-4 mr-2" />
-                                Generate Secure Link
-                            </Button>
-                        ) : (
-                            <div className="flex gap-2">
-                                <div className="flex-1 bg-catalog-stone/10 p-4 rounded border border-catalog-accent/20 font-mono text-sm break-all">
-                                    {link}
+                                <input
+                                    type="checkbox"
+                                    checked={options.allowDownload}
+                                    onChange={e => setOptions({ ...options, allowDownload: e.target.checked })}
+                                    className="accent-catalog-accent"
+                                />
+                                <Download className="w-3.5 h-3.5" /> Allow downloads
+                            </label>
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={options.allowComments}
+                                    onChange={e => setOptions({ ...options, allowComments: e.target.checked })}
+                                    className="accent-catalog-accent"
+                                />
+                                <MessageCircle className="w-3.5 h-3.5" /> Allow comments
+                            </label>
+                        </div>
+
+                        <Button
+                            onClick={generateSharedLink}
+                            isLoading={loading}
+                            className="w-full py-6 text-lg border-2 border-dashed border-catalog-accent/30 bg-catalog-accent/5 hover:bg-catalog-accent/10"
+                        >
+                            <Lock className="w-4 h-4 mr-2" />
+                            Generate Secure Link
+                        </Button>
+
+                        {created && (
+                            <div className="space-y-2">
+                                <div className="flex gap-2">
+                                    <div className="flex-1 bg-catalog-stone/10 p-4 rounded border border-catalog-accent/20 font-mono text-sm break-all">
+                                        {created.url}
+                                    </div>
+                                    <Button onClick={() => copyToClipboard(created.link)} variant="outline" className="h-auto px-4" title="Copy link">
+                                        {copiedId === created.link.id ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                                    </Button>
+                                    <Button onClick={() => sendShareLink(target, created.url, created.link.expires_at)} variant="outline" className="h-auto px-4" title="Send link">
+                                        <Send className="w-4 h-4" />
+                                    </Button>
                                 </div>
-                                <Button onClick={copyToClipboard} variant="outline" className="h-auto px-6">
-                                    {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
-                                </Button>
+                                <p className="text-[10px] text-catalog-text/40">
+                                    Valid {shareExpiryText(created.link.expires_at)}.
+                                </p>
                             </div>
                         )}
                     </div>
 
-                    <div className="h-px bg-catalog-accent/10" />
+                    {/* Active Links */}
+                    {links.length > 0 && (
+                        <>
+                            <div className="h-px bg-catalog-accent/10" />
+                            <div className="space-y-3">
+                                <h3 className="text-sm font-semibold uppercase tracking-widest text-catalog-text/50 flex items-center gap-2">
+                                    <Link2 className="w-4 h-4" />
+                                    Active Links
+                                </h3>
+                                {!trackingEnabled && (
+                                    <p className="text-[10px] text-catalog-text/40 italic">
+                                        Visits are not being recorded: the family has switched off sharing activity in Settings.
+                                    </p>
+                                )}
+                                <ul className="space-y-2">
+                                    {links.map(link => {
+                                        const live = isShareLinkLive(link);
+                                        const linkVisits = visits.get(link.id) || [];
+                                        const pinned = link.album_revision_id ? revisions.find(r => r.id === link.album_revision_id) : undefined;
+                                        return (
+                                            <li key={link.id} className="p-3 rounded border border-catalog-accent/10 bg-catalog-bg/30 space-y-2">
+                                                <div className="flex items-center gap-3">
+                                                    <div className="flex-1 min-w-0 space-y-1">
+                                                        <p className="text-xs text-catalog-text">
+                                                            Created {new Date(link.created_at).toLocaleDateString()}
+                                                            {!live && <span className="ml-2 text-[10px] font-bold uppercase tracking-widest text-red-500">Ended</span>}
+                                                        </p>
+                                                        <p className="text-[10px] text-catalog-text/50 flex flex-wrap items-center gap-x-3 gap-y-1">
+                                                            {albumId && (link.album_revision_id
+                                                                ? <span className="flex items-center gap-1" title={pinned ? revisionLabel(pinned) : undefined}><Pin className="w-3 h-3" /> {pinned ? `Version #${pinned.sequence}` : 'Saved version'}</span>
+                                                                : <span className="flex items-center gap-1"><Radio className="w-3 h-3" /> Live</span>)}
+                                                            <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {link.expires_at ? `Until ${new Date(link.expires_at).toLocaleDateString()}` : 'No expiry'}</span>
+                                                            <span className="flex items-center gap-1"><Eye className="w-3 h-3" /> {link.view_count}{link.max_views !== null ? ` / ${link.max_views}` : ''} views</span>
+                                                            {link.password_hash && <span className="flex items-center gap-1"><Lock className="w-3 h-3" /> Password</span>}
+                                                            {link.allow_download && <span className="flex items-center gap-1"><Download className="w-3 h-3" /> Downloads</span>}
+                                                            {link.allow_comments && <span className="flex items-center gap-1"><MessageCircle className="w-3 h-3" /> Comments</span>}
+                                                        </p>
+                                                    </div>
+                                                    <button
+                                                        onClick={() => setExpandedId(expandedId === link.id ? null : link.id)}
+                                                        className={`flex items-center gap-1 p-2 text-[10px] font-bold transition-colors ${expandedId === link.id ? 'text-catalog-accent' : 'text-catalog-text/40 hover:text-catalog-accent'}`}
+                                                        title="Visits"
+                                                    >
+                                                        <Activity className="w-4 h-4" /> {linkVisits.length}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => copyToClipboard(link)}
+                                                        className="p-2 text-catalog-text/40 hover:text-catalog-accent transition-colors"
+                                                        title="Copy link"
+                                                    >
+                                                        {copiedId === link.id ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleRevoke(link)}
+                                                        disabled={revokingId === link.id}
+                                                        className="p-2 text-catalog-text/40 hover:text-red-500 transition-colors disabled:opacity-50"
+                                                        title="Revoke link"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                                {expandedId === link.id && (
+                                                    <ShareVisitList visits={linkVisits} kind={target.kind} />
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </div>
+                        </>
+                    )}
 
                     {/* Export Options */}
-                    <div className="space-y-4">
-                        <h3 className="text-sm font-semibold uppercase tracking-widest text-catalog-text/50 flex items-center gap-2">
-                            <Download className="w-4 h-4" />
-                            Preservation & Export
-                        </h3>
+                    {!stackId && (
+                        <>
+                            <div className="h-px bg-catalog-accent/10" />
+                            <div className="space-y-4">
+                                <h3 className="text-sm font-semibold uppercase tracking-widest text-catalog-text/50 flex items-center gap-2">
+                                    <Download className="w-4 h-4" />
+                                    Preservation & Export
+                                </h3>
 
-                        <div className="grid grid-cols-2 gap-4">
-                            <button
-                                onClick={exportToPDF}
-                                disabled={exporting}
-                                className="flex flex-col items-center gap-3 p-6 rounded-lg border border-catalog-accent/10 hover:border-catalog-accent/30 hover:bg-catalog-accent/5 transition-all text-center group"
-                            >
-                                <div className="p-3 bg-red-50 rounded-full group-hover:bg-red-100 transition-colors">
-                                    <FileText className="w-6 h-6 text-red-500" />
-                                </div>
-                                <div>
-                                    <p className="font-serif font-bold text-catalog-text">Interactive PDF</p>
-                                    <p className="text-[10px] text-catalog-text/40 uppercase tracking-tighter">Perfect for Printing</p>
-                                </div>
-                            </button>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <button
+                                        onClick={exportToPDF}
+                                        disabled={exporting}
+                                        className="flex flex-col items-center gap-3 p-6 rounded-lg border border-catalog-accent/10 hover:border-catalog-accent/30 hover:bg-catalog-accent/5 transition-all text-center group"
+                                    >
+                                        <div className="p-3 bg-red-50 rounded-full group-hover:bg-red-100 transition-colors">
+                                            <FileText className="w-6 h-6 text-red-500" />
+                                        </div>
+                                        <div>
+                                            <p className="font-serif font-bold text-catalog-text">Interactive PDF</p>
+                                            <p className="text-[10px] text-catalog-text/40 uppercase tracking-tighter">Perfect for Printing</p>
+                                        </div>
+                                    </button>
 
-                            <button
-                                onClick={() => alert('HTML5 Package preparation started... Check downloads shortly.')}
-                                className="flex flex-col items-center gap-3 p-6 rounded-lg border border-catalog-accent/10 hover:border-catalog-accent/30 hover:bg-catalog-accent/5 transition-all text-center group"
-                            >
-                                <div className="p-3 bg-blue-50 rounded-full group-hover:bg-blue-100 transition-colors">
-                                    <Download className="w-6 h-6 text-blue-500" />
-                                </div>
-                                <div>
-                                    <p className="font-serif font-bold text-catalog-text">HTML5 Package</p>
-                                    <p className="text-[10px] text-catalog-text/40 uppercase tracking-tighter">Offline Digital Book</p>
+                                    <button
+                                        onClick={() => alert('HTML5 Package preparation started... Check downloads shortly.')}
+                                        className="flex flex-col items-center gap-3 p-6 rounded-lg border border-catalog-accent/10 hover:border-catalog-accent/30 hover:bg-catalog-accent/5 transition-all text-center group"
+                                    >
+                                        <div className="p-3 bg-blue-50 rounded-full group-hover:bg-blue-100 transition-colors">
+                                            <Download className="w-6 h-6 text-blue-500" />
+                                        </div>
+                                        <div>
+                                            <p className="font-serif font-bold text-catalog-text">HTML5 Package</p>
+                                            <p className="text-[10px] text-catalog-text/40 uppercase tracking-tighter">Offline Digital Book</p>
+                                        </div>
+                                    </button>
                                 </div>
-                            </button>
-                        </div>
-                    </div>
+                            </div>
+                        </>
+                    )}
                 </div>
 
                 <div className="mt-8 pt-6 border-t border-catalog-accent/5 flex justify-center">
                     <p className="text-[10px] text-catalog-text/30 font-sans max-w-xs text-center">
-                        Shared links bypass family privacy for the duration of the link.
+                        Shared links bypass family privacy until they expire or are revoked.
                         Exports are intended for personal archival use.
                     </p>
                 </div>
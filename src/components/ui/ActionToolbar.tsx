@@ -1,4 +1,4 @@
-import { Edit3, Trash2, Share2, Printer, Copy } from 'lucide-react';
+import { Edit3, Trash2, Share2, Printer, Copy, Archive } from 'lucide-react';
 import { cn } from '../../lib/utils';
 
 interface ActionToolbarProps {
@@ -7,6 +7,7 @@ interface ActionToolbarProps {
     onDuplicate?: () => void;
     onShare?: () => void;
     onPrint?: () => void;
+    onBackup?: () => void;
     className?: string;
     variant?: 'dark' | 'light';
     showLabels?: boolean;
@@ -18,6 +19,7 @@ export function ActionToolbar({
     onDuplicate,
     onShare,
     onPrint,
+    onBackup,
     className,
     variant = 'light',
     showLabels = false
@@ -77,6 +79,16 @@ export function ActionToolbar({
                     {showLabels && <span className="text-xs font-medium">Print</span>}
                 </button>
             )}
+            {onBackup && (
+                <button
+                    onClick={(e) => handleAction(e, onBackup)}
+                    className={baseIconClass}
+                    title="Back up"
+                >
+                    <Archive className="w-4 h-4" />
+                    {showLabels && <span className="text-xs font-medium">Back up</span>}
+                </button>
+            )}
             <div className="w-px h-4 bg-catalog-accent/10 mx-1" />
             {onDelete && (
                 <button
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Search, Calendar, Tag, X, MapPin } from 'lucide-react';
+import { Search, Calendar, Tag, X, MapPin, Hash, Users } from 'lucide-react';
 import { cn } from '../../lib/utils';
 
 export interface FilterState {
@@ -7,6 +7,8 @@ export interface FilterState {
     category: string;
     year: string;
     location: string;
+    hashtag: string;
+    participant: string;
 }
 
 interface FilterBarProps {
@@ -15,16 +17,19 @@ interface FilterBarProps {
     categories: string[];
     years: string[];
     locations: string[];
+    hashtags?: string[];        // Hashtag and people filters are shown when given
+    participants?: string[];
     className?: string;
 }
 
-export function FilterBar({ filters, onFilterChange, categories, years, locations, className }: FilterBarProps) {
+export function FilterBar({ filters, onFilterChange, categories, years, locations, hashtags, participants, className }: FilterBarProps) {
     const [isExpanded, setIsExpanded] = useState(false);
 
-    const hasActiveFilters = filters.category !== 'all' || filters.year !== 'all' || filters.location !== 'all';
+    const hasActiveFilters = filters.category !== 'all' || filters.year !== 'all' || filters.location !== 'all' ||
+        filters.hashtag !== 'all' || filters.participant !== 'all';
 
     const handleClear = () => {
-        onFilterChange({ query: '', category: 'all', year: 'all', location: 'all' });
+        onFilterChange({ query: '', category: 'all', year: 'all', location: 'all', hashtag: 'all', participant: 'all' });
     };
 
     return (
@@ -108,6 +113,42 @@ export function FilterBar({ filters, onFilterChange, categories, years, location
                         </select>
                     </div>
 
+                    {hashtags && hashtags.length > 0 && (
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-bold text-catalog-text/40 uppercase tracking-widest flex items-center gap-1.5 px-1">
+                                <Hash className="w-3 h-3" /> Hashtag
+                            </label>
+                            <select
+                                value={filters.hashtag}
+                                onChange={(e) => onFilterChange({ ...filters, hashtag: e.target.value })}
+                                className="w-full bg-white border border-catalog-accent/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-catalog-accent/20"
+                            >
+                                <option value="all">All Hashtags</option>
+                                {hashtags.map(tag => (
+                                    <option key={tag} value={tag}>#{tag}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {participants && participants.length > 0 && (
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-bold text-catalog-text/40 uppercase tracking-widest flex items-center gap-1.5 px-1">
+                                <Users className="w-3 h-3" /> Person
+                            </label>
+                            <select
+                                value={filters.participant}
+                                onChange={(e) => onFilterChange({ ...filters, participant: e.target.value })}
+                                className="w-full bg-white border border-catalog-accent/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-catalog-accent/20"
+                            >
+                                <option value="all">Everyone</option>
+                                {participants.map(name => (
+                                    <option key={name} value={name}>{name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
                     {(hasActiveFilters || filters.query) && (
                         <div className="sm:col-span-3 flex justify-center pt-2">
                             <button
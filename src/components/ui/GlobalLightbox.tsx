@@ -1,8 +1,11 @@
 import { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, ZoomIn, ZoomOut, Download, Minimize2, Maximize2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { X, ZoomIn, ZoomOut, Download, Minimize2, Maximize2, ChevronLeft, ChevronRight, MessageCircle } from 'lucide-react';
 import { createPortal } from 'react-dom';
+import { CommentsPanel } from '../comments/CommentsPanel';
+import { useMediaFeedback } from '../../hooks/useMediaFeedback';
+import type { FeedbackScope } from '../../services/mediaComments';
 
 interface GlobalLightboxContextType {
     openLightbox: (index: number, images: Array<{ src: string; alt?: string }>) => void;
@@ -21,14 +24,18 @@ export function useGlobalLightbox() {
 
 interface GlobalLightboxProviderProps {
     children: ReactNode;
+    commentScope?: FeedbackScope | null;    // Comments and reactions on the images, when set
+    allowDownload?: boolean;                // Off for share links that do not allow downloads
 }
 
-export function GlobalLightboxProvider({ children }: GlobalLightboxProviderProps) {
+export function GlobalLightboxProvider({ children, commentScope, allowDownload = true }: GlobalLightboxProviderProps) {
     const [isOpen, setIsOpen] = useState(false);
     const [images, setImages] = useState<Array<{ src: string; alt?: string }>>([]);
     const [currentIndex, setCurrentIndex] = useState(0);
     const [scale, setScale] = useState(1);
     const [isFullscreen, setIsFullscreen] = useState(false);
+    const [showComments, setShowComments] = useState(false);
+    const feedback = useMediaFeedback(commentScope);
 
     const openLightbox = useCallback((index: number, allImages: Array<{ src: string; alt?: string }>) => {
         setImages(allImages);
@@ -94,6 +101,8 @@ export function GlobalLightboxProvider({ children }: GlobalLightboxProviderProps
     useEffect(() => {
         if (!isOpen) return;
         const handleKeyDown = (e: KeyboardEvent) => {
+            // Don't navigate while typing a comment
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
             if (e.key === 'Escape') closeLightbox();
             if (e.key === 'ArrowRight') nextImage();
             if (e.key === 'ArrowLeft') prevImage();
@@ -143,6 +152,18 @@ export function GlobalLightboxProvider({ children }: GlobalLightboxProviderProps
 
                                 {/* Right Controls */}
                                 <div className="flex gap-2 pointer-events-auto">
+                                    {feedback.enabled && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); setShowComments(!showComments); }}
+                                            className={`flex items-center gap-1.5 p-2.5 text-white rounded-full backdrop-blur-sm transition-all shadow-lg border border-white/10 ${showComments ? 'bg-catalog-accent' : 'bg-white/10 hover:bg-white/20'}`}
+                                            title="Comments & Reactions"
+                                        >
+                                            <MessageCircle className="w-5 h-5" />
+                                            {feedback.commentCount(images[currentIndex].src) > 0 && (
+                                                <span className="text-xs font-bold pr-1">{feedback.commentCount(images[currentIndex].src)}</span>
+                                            )}
+                                        </button>
+                                    )}
                                     <button
                                         onClick={(e) => { e.stopPropagation(); toggleFullscreen(); }}
                                         className="p-2.5 bg-white/10 hover:bg-white/20 text-white rounded-full backdrop-blur-sm transition-all shadow-lg border border-white/10"
@@ -150,13 +171,15 @@ export function GlobalLightboxProvider({ children }: GlobalLightboxProviderProps
                                     >
                                         {isFullscreen ? <Minimize2 className="w-5 h-5" /> : <Maximize2 className="w-5 h-5" />}
                                     </button>
-                                    <button
-                                        onClick={(e) => { e.stopPropagation(); handleDownload(); }}
-                                        className="p-2.5 bg-white/10 hover:bg-white/20 text-white rounded-full backdrop-blur-sm transition-all shadow-lg border border-white/10"
-                                        title="Download Original"
-                                    >
-                                        <Download className="w-5 h-5" />
-                                    </button>
+                                    {allowDownload && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleDownload(); }}
+                                            className="p-2.5 bg-white/10 hover:bg-white/20 text-white rounded-full backdrop-blur-sm transition-all shadow-lg border border-white/10"
+                                            title="Download Original"
+                                        >
+                                            <Download className="w-5 h-5" />
+                                        </button>
+                                    )}
                                     <button
                                         onClick={closeLightbox}
                                         className="p-2.5 bg-white/10 hover:bg-red-500/20 text-white hover:text-red-200 rounded-full backdrop-blur-sm transition-all shadow-lg border border-white/10"
@@ -210,6 +233,14 @@ export function GlobalLightboxProvider({ children }: GlobalLightboxProviderProps
                                 />
                             </motion.div>
 
+                            {feedback.enabled && showComments && (
+                                <CommentsPanel
+                                    feedback={feedback}
+                                    items={[{ key: images[currentIndex].src, label: 'This photo' }]}
+                                    onClose={() => setShowComments(false)}
+                                />
+                            )}
+
                             {/* Caption if available */}
                             {images[currentIndex].alt && (
                                 <motion.div
@@ -2,7 +2,7 @@ import React, { useMemo } from 'react';
 import { cn } from '../../lib/utils';
 import { type Page, type LayoutBox } from '../../contexts/AlbumContext';
 import { LayoutFrame } from '../shared/LayoutFrame';
-import { mapAssetsToLayoutSlots } from '../../lib/layoutUtils';
+import { freeformAssetToLayoutBox, mapAssetsToLayoutSlots } from '../../lib/layoutUtils';
 import { SecureMedia } from '../common/SecureMedia';
 
 interface AlbumPageProps {
@@ -53,28 +53,7 @@ export const AlbumPage: React.FC<AlbumPageProps> = ({
         }
 
         freeformAssets.forEach(asset => {
-            const role = asset.type === 'text' ? 'text' : 'decoration';
-            const zIndex = asset.zIndex ?? (role === 'text' ? 50 : 10);
-
-            combinedLayout.push({
-                id: asset.id,
-                role: role,
-                left: asset.x,
-                top: asset.y,
-                width: asset.width,
-                height: asset.height,
-                zIndex: zIndex,
-                content: {
-                    type: asset.type === 'video' ? 'video' : (asset.type === 'text' ? 'text' : 'image'),
-                    url: asset.url,
-                    zoom: asset.crop?.zoom || 1,
-                    x: asset.crop?.x || 50,
-                    y: asset.crop?.y || 50,
-                    rotation: asset.rotation || 0,
-                    text: asset.content,
-                    config: { ...asset }
-                }
-            });
+            combinedLayout.push(freeformAssetToLayoutBox(asset));
         });
 
         return { styles, layout: combinedLayout, text: textLayers };
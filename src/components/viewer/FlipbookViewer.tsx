@@ -1,23 +1,38 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import HTMLFlipBook from 'react-pageflip';
-import { ChevronLeft, ChevronRight, X, Maximize2, Minimize2, Download, FileText, Globe, Search } from 'lucide-react';
+import { ChevronLeft, ChevronRight, X, Maximize2, Minimize2, Download, FileText, Globe, Search, Printer, AlertTriangle, Film, Package, MessageCircle } from 'lucide-react';
 import { cn } from '../../lib/utils';
 import { type Album, type Page } from '../../contexts/AlbumContext';
 import { printService } from '../../services/printService';
 import { motion, AnimatePresence } from 'framer-motion';
 import { VideoPortal } from './VideoPortal';
 import { AlbumPage } from './AlbumPage';
+import { getDisplayPages } from '../../lib/displayPages';
+import type { PrintWarning } from '../../lib/printLayout';
+import { SlideshowExportDialog } from '../media/SlideshowExportDialog';
+import { SlideshowExportService } from '../../services/slideshowExport';
+import { PrintOrderDialog } from './PrintOrderDialog';
+import { CommentsPanel } from '../comments/CommentsPanel';
+import { useMediaFeedback } from '../../hooks/useMediaFeedback';
+import type { FeedbackScope } from '../../services/mediaComments';
 interface FlipbookViewerProps {
     pages: Page[];
     album?: Album;
     onClose: () => void;
+    allowDownload?: boolean;    // Hides the export menu, for share links without downloads
+    onPageView?: (pageIndex: number) => void;   // Each page that comes into view
+    commentScope?: FeedbackScope | null;        // Comments and reactions on pages, when set
 }
 
-export function FlipbookViewer({ pages, album, onClose }: FlipbookViewerProps) {
+export function FlipbookViewer({ pages, album, onClose, allowDownload = true, onPageView, commentScope }: FlipbookViewerProps) {
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [showExportMenu, setShowExportMenu] = useState(false);
     const [isExporting, setIsExporting] = useState(false);
     const [exportDpi, setExportDpi] = useState<300 | 450 | 600>(300);
+    const [printMarks, setPrintMarks] = useState(false);
+    const [printWarnings, setPrintWarnings] = useState<PrintWarning[] | null>(null);
+    const [showVideoExport, setShowVideoExport] = useState(false);
+    const [showPrintOrder, setShowPrintOrder] = useState(false);
     const [currentPageIndex, setCurrentPageIndex] = useState(0);
     const [zoom, setZoom] = useState(1);
     const [selectedVideo, setSelectedVideo] = useState<{ url: string, rotation?: number } | null>(null);
@@ -28,198 +43,13 @@ export function FlipbookViewer({ pages, album, onClose }: FlipbookViewerProps) {
     const [_layouts, _setLayouts] = useState<Record<string, any>>({});
     const [magnifierLevel, setMagnifierLevel] = useState(0);
     const [mousePos, setMousePos] = useState<{ x: number, y: number } | null>(null);
+    const [showComments, setShowComments] = useState(false);
+    const feedback = useMediaFeedback(commentScope);
 
     const processedPages = useMemo(() => {
         if (!pages) return [];
-        const newPages = pages.map(p => ({
-            ...p,
-            assets: p.assets ? [...p.assets] : [],
-            textLayers: p.textLayers ? [...p.textLayers] : [],
-            layoutConfig: p.layoutConfig ? [...p.layoutConfig] : [],
-        }));
-
-        for (let i = 1; i < newPages.length - 1; i += 2) {
-            const leftPage = newPages[i];
-            const rightPage = newPages[i + 1];
-            if (!rightPage) break;
-
-            const isSpread = leftPage.isSpreadLayout;
-
-            // ═══════════════════════════════════════════════════════════════════
-            // COORDINATE SYSTEMS:
-            //
-            // 1. layoutConfig boxes & textLayers (isInSlot=true in editor):
-            //    Stored in 0-50% "half-spread" coordinates.
-            //    Need *2 to convert to 0-100% single-page space.
-            //
-            // 2. Freeform assets (isInSlot=false in editor):
-            //    Stored in 0-100% single-page coordinates.
-            //    NO scaling needed. But cross-page spillover is needed
-            //    when an asset is dragged past the page boundary.
-            // ═══════════════════════════════════════════════════════════════════
-
-            // ── STEP 1: BACKGROUND BLEEDING ───────────────────────────────────
-            if (isSpread && leftPage.backgroundImage && !rightPage.backgroundImage) {
-                rightPage.backgroundImage = leftPage.backgroundImage;
-                rightPage.backgroundColor = leftPage.backgroundColor;
-                rightPage.backgroundOpacity = leftPage.backgroundOpacity;
-                rightPage.backgroundScale = leftPage.backgroundScale || 'cover';
-            }
-
-            // ── STEP 2: LAYOUT CONFIG — scale (*2) and split (spread only) ────
-            if (isSpread) {
-                const leftBoxes: any[] = [];
-                const rightBoxes: any[] = [];
-                const leftSlotMap = new Map<number, number>();
-                const rightSlotMap = new Map<number, number>();
-
-                (leftPage.layoutConfig || []).forEach((box: any, originalIdx: number) => {
-                    if (!box) return;
-                    const scaledLeft  = (box.left ?? box.x ?? 0) * 2;
-                    const scaledWidth = (box.width ?? 100) * 2;
-
-                    if (scaledLeft < 100) {
-                        leftBoxes.push({
-                            ...box,
-                            left: scaledLeft,
-                            top: box.top ?? box.y ?? 0,
-                            width: scaledWidth,
-                            _originalIdx: originalIdx,
-                            _scaledLeft: scaledLeft,
-                            _scaledWidth: scaledWidth,
-                        });
-                        leftSlotMap.set(originalIdx, leftBoxes.length - 1);
-                    }
-
-                    if (scaledLeft + scaledWidth > 100) {
-                        rightBoxes.push({
-                            ...box,
-                            id: `spill-${box.id || originalIdx}`,
-                            left: scaledLeft - 100,
-                            top: box.top ?? box.y ?? 0,
-                            width: scaledWidth,
-                            _originalIdx: originalIdx,
-                        });
-                        rightSlotMap.set(originalIdx, rightBoxes.length - 1);
-                    }
-                });
-
-                leftPage.layoutConfig = leftBoxes;
-                rightPage.layoutConfig = [...(rightPage.layoutConfig || []), ...rightBoxes];
-
-                // Route slotted assets to the correct page
-                const leftSlotAssets: any[] = [];
-                const rightSlotAssets: any[] = [];
-                (leftPage.assets || []).forEach((asset: any) => {
-                    if (asset.slotId !== undefined && asset.slotId !== null) {
-                        if (leftSlotMap.has(asset.slotId)) {
-                            leftSlotAssets.push({ ...asset, slotId: leftSlotMap.get(asset.slotId) });
-                        }
-                        if (rightSlotMap.has(asset.slotId)) {
-                            rightSlotAssets.push({ ...asset, id: `spill-${asset.id}`, slotId: rightSlotMap.get(asset.slotId) });
-                        }
-                    }
-                });
-                // Keep only freeform assets on each page, add routed slot assets
-                const leftFreeform = (leftPage.assets || []).filter((a: any) => a.slotId === undefined || a.slotId === null);
-                leftPage.assets = [...leftFreeform, ...leftSlotAssets];
-                rightPage.assets = [...(rightPage.assets || []), ...rightSlotAssets];
-            }
-
-            // ── STEP 3: FREEFORM ASSETS — cross-page spillover (both modes) ──
-            {
-                const leftSpill: any[] = [];
-                const rightSpill: any[] = [];
-
-                // Left-page freeform assets that overflow right
-                (leftPage.assets || []).forEach((asset: any) => {
-                    if (asset.slotId !== undefined && asset.slotId !== null) return;
-                    const ax = asset.x ?? 0;
-                    const aw = asset.width ?? 100;
-                    if (ax + aw > 100) {
-                        rightSpill.push({
-                            ...asset,
-                            id: `spill-${asset.id}`,
-                            x: ax - 100,
-                            width: aw
-                        });
-                    }
-                });
-
-                // Right-page freeform assets that overflow left
-                (rightPage.assets || []).forEach((asset: any) => {
-                    if (asset.slotId !== undefined && asset.slotId !== null) return;
-                    const ax = asset.x ?? 0;
-                    const aw = asset.width ?? 100;
-                    if (ax < 0) {
-                        leftSpill.push({
-                            ...asset,
-                            id: `spill-left-${asset.id}`,
-                            x: ax + 100,
-                            width: aw
-                        });
-                    }
-                });
-
-                if (leftSpill.length > 0) leftPage.assets = [...(leftPage.assets || []), ...leftSpill];
-                if (rightSpill.length > 0) rightPage.assets = [...(rightPage.assets || []), ...rightSpill];
-            }
-
-            // ── STEP 4: TEXT LAYERS — scale (*2) and split ─────────────────────
-            {
-                const leftText:  any[] = [];
-                const rightText: any[] = [];
-
-                // Left-page text layers: scale *2 (half-spread → page coords) and split
-                (leftPage.textLayers || []).forEach((layer: any) => {
-                    const scaledLeft  = (layer.left ?? layer.x ?? 0) * 2;
-                    const scaledWidth = (layer.width ?? 0) * 2;
-
-                    if (scaledLeft < 100) {
-                        leftText.push({
-                            ...layer,
-                            left: scaledLeft,
-                            width: scaledWidth
-                        });
-                    }
-                    if (scaledLeft + scaledWidth > 100) {
-                        rightText.push({
-                            ...layer,
-                            id: `spill-${layer.id}`,
-                            left: scaledLeft - 100,
-                            width: scaledWidth
-                        });
-                    }
-                });
-
-                // Right-page text layers: scale *2 and split
-                (rightPage.textLayers || []).forEach((layer: any) => {
-                    const scaledLeft  = (layer.left ?? layer.x ?? 0) * 2;
-                    const scaledWidth = (layer.width ?? 0) * 2;
-
-                    if (scaledLeft < 100) {
-                        rightText.push({
-                            ...layer,
-                            left: scaledLeft,
-                            width: scaledWidth
-                        });
-                    }
-                    if (scaledLeft + scaledWidth > 100) {
-                        // Spills further right — no more pages, just include on right
-                        rightText.push({
-                            ...layer,
-                            left: scaledLeft,
-                            width: scaledWidth
-                        });
-                    }
-                });
-
-                leftPage.textLayers = leftText;
-                rightPage.textLayers = rightText;
-            }
-        }
-        return newPages;
-    }, [pages]);
+        return getDisplayPages({ title: album?.title, config: album?.config, masterPages: album?.masterPages, pages });
+    }, [pages, album?.masterPages, album?.title, album?.config]);
 
     const bookRef = useRef<any>(null);
     const pageRefs = useRef<(HTMLElement | null)[]>([]);
@@ -312,11 +142,28 @@ export function FlipbookViewer({ pages, album, onClose }: FlipbookViewerProps) {
         }
     }, [playFlipSound, currentPageIndex, pages.length]);
 
+    // The cover and back cover show alone, other spreads show two pages
+    useEffect(() => {
+        if (!onPageView) return;
+        onPageView(currentPageIndex);
+        if (currentPageIndex > 0 && currentPageIndex + 1 < processedPages.length) onPageView(currentPageIndex + 1);
+    }, [currentPageIndex, processedPages.length, onPageView]);
+
+    // Comments go to the pages on screen
+    const commentItems = (currentPageIndex === 0 || currentPageIndex + 1 >= processedPages.length
+        ? [currentPageIndex]
+        : [currentPageIndex, currentPageIndex + 1])
+        .filter(index => processedPages[index])
+        .map(index => ({ key: processedPages[index].id, label: `Page ${index + 1}` }));
+    const visibleCommentCount = commentItems.reduce((total, item) => total + feedback.commentCount(item.key), 0);
+
     const goToNext = () => bookRef.current?.pageFlip()?.flipNext();
     const goToPrev = () => bookRef.current?.pageFlip()?.flipPrev();
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
+            // Don't turn pages while typing a comment
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
             if (e.key === 'ArrowRight') goToNext();
             if (e.key === 'ArrowLeft') goToPrev();
             if (e.key === 'Escape') {
@@ -410,75 +257,173 @@ export function FlipbookViewer({ pages, album, onClose }: FlipbookViewerProps) {
                 </div>
 
                 <div className="flex items-center gap-1">
-                    <div className="relative">
-                        <Button
-                            variant="primary"
-                            size="sm"
-                            onClick={() => setShowExportMenu(!showExportMenu)}
-                            className="bg-catalog-accent hover:bg-catalog-accent/90 gap-1 shadow-md h-6 px-2 text-[9px] rounded uppercase tracking-wider"
-                        >
-                            <Download className="w-3 h-3" />
-                            {isExporting ? '...' : 'Export'}
-                        </Button>
-
-                        <AnimatePresence>
-                            {showExportMenu && (
-                                <motion.div
-                                    initial={{ opacity: 0, y: 10, scale: 0.95 }}
-                                    animate={{ opacity: 1, y: 0, scale: 1 }}
-                                    exit={{ opacity: 0, y: 10, scale: 0.95 }}
-                                    className="absolute left-0 mt-2 w-48 bg-zinc-900 rounded-xl shadow-2xl border border-white/10 py-2 overflow-hidden z-[120]"
-                                >
-                                    <div className="px-3 py-1.5 border-b border-white/5 mb-1">
-                                        <p className="text-[9px] font-bold text-white/40 uppercase tracking-widest">Select Quality</p>
-                                    </div>
-                                    <div className="flex px-2 gap-1 mb-1">
-                                        {[300, 450, 600].map((dpi) => (
+                    {allowDownload && (
+                        <div className="relative">
+                            <Button
+                                variant="primary"
+                                size="sm"
+                                onClick={() => setShowExportMenu(!showExportMenu)}
+                                className="bg-catalog-accent hover:bg-catalog-accent/90 gap-1 shadow-md h-6 px-2 text-[9px] rounded uppercase tracking-wider"
+                            >
+                                <Download className="w-3 h-3" />
+                                {isExporting ? '...' : 'Export'}
+                            </Button>
+
+                            <AnimatePresence>
+                                {showExportMenu && (
+                                    <motion.div
+                                        initial={{ opacity: 0, y: 10, scale: 0.95 }}
+                                        animate={{ opacity: 1, y: 0, scale: 1 }}
+                                        exit={{ opacity: 0, y: 10, scale: 0.95 }}
+                                        className="absolute left-0 mt-2 w-48 bg-zinc-900 rounded-xl shadow-2xl border border-white/10 py-2 overflow-hidden z-[120]"
+                                    >
+                                        <div className="px-3 py-1.5 border-b border-white/5 mb-1">
+                                            <p className="text-[9px] font-bold text-white/40 uppercase tracking-widest">Select Quality</p>
+                                        </div>
+                                        <div className="flex px-2 gap-1 mb-1">
+                                            {[300, 450, 600].map((dpi) => (
+                                                <button
+                                                    key={dpi}
+                                                    onClick={() => setExportDpi(dpi as any)}
+                                                    className={cn(
+                                                        "flex-1 py-1 text-[9px] font-bold rounded transition-all",
+                                                        exportDpi === dpi ? "bg-catalog-accent text-white" : "hover:bg-white/10 text-white/60"
+                                                    )}
+                                                >
+                                                    {dpi}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <button
+                                            disabled={isExporting}
+                                            onClick={async () => {
+                                                setShowExportMenu(false);
+                                                setIsExporting(true);
+                                                const validRefs = pageRefs.current.filter(Boolean) as HTMLElement[];
+                                                const scaleFactor = exportDpi === 300 ? 4 : exportDpi === 450 ? 6 : 8;
+                                                await printService.exportToPDF(validRefs, title || 'Family_Album', scaleFactor);
+                                                setIsExporting(false);
+                                            }}
+                                            className="w-full px-3 py-1.5 hover:bg-white/5 flex items-center gap-2 text-white text-left transition-colors"
+                                        >
+                                            <FileText className="w-3 h-3 text-red-400" />
+                                            <div className="flex flex-col">
+                                                <span className="text-xs font-medium">Interactive PDF</span>
+                                            </div>
+                                        </button>
+                                        <button
+                                            disabled={isExporting}
+                                            onClick={async () => {
+                                                setShowExportMenu(false);
+                                                setIsExporting(true);
+                                                try {
+                                                    const warnings = await printService.exportToPrintPDF(
+                                                        { title, config: album?.config, masterPages: album?.masterPages, pages },
+                                                        { marks: printMarks }
+                                                    );
+                                                    setPrintWarnings(warnings.length > 0 ? warnings : null);
+                                                } catch (error) {
+                                                    console.error('Print export failed:', error);
+                                                    alert('Could not create the print PDF.');
+                                                } finally {
+                                                    setIsExporting(false);
+                                                }
+                                            }}
+                                            className="w-full px-3 py-1.5 hover:bg-white/5 flex items-center gap-2 text-white text-left transition-colors"
+                                        >
+                                            <Printer className="w-3 h-3 text-emerald-400" />
+                                            <div className="flex flex-col">
+                                                <span className="text-xs font-medium">Print-Ready PDF</span>
+                                                <span className="text-[9px] text-white/40">Vector, true size, with bleed</span>
+                                            </div>
+                                        </button>
+                                        <label className="flex items-center gap-2 px-3 py-1 text-[10px] text-white/60 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={printMarks}
+                                                onChange={(e) => setPrintMarks(e.target.checked)}
+                                                className="accent-catalog-accent"
+                                            />
+                                            Crop & registration marks
+                                        </label>
+                                        <button
+                                            disabled={isExporting}
+                                            onClick={() => {
+                                                setShowExportMenu(false);
+                                                setShowPrintOrder(true);
+                                            }}
+                                            className="w-full px-3 py-1.5 hover:bg-white/5 flex items-center gap-2 text-white text-left transition-colors disabled:opacity-40"
+                                        >
+                                            <Package className="w-3 h-3 text-amber-400" />
+                                            <div className="flex flex-col">
+                                                <span className="text-xs font-medium">Photo Book Order</span>
+                                                <span className="text-[9px] text-white/40">Files for a print-on-demand vendor</span>
+                                            </div>
+                                        </button>
+                                        {(['zip', 'single'] as const).map(packaging => (
                                             <button
-                                                key={dpi}
-                                                onClick={() => setExportDpi(dpi as any)}
-                                                className={cn(
-                                                    "flex-1 py-1 text-[9px] font-bold rounded transition-all",
-                                                    exportDpi === dpi ? "bg-catalog-accent text-white" : "hover:bg-white/10 text-white/60"
-                                                )}
+                                                key={packaging}
+                                                disabled={isExporting}
+                                                onClick={async () => {
+                                                    setShowExportMenu(false);
+                                                    setIsExporting(true);
+                                                    try {
+                                                        const result = await printService.exportToHTML5(
+                                                            { title, config: album?.config, masterPages: album?.masterPages, pages },
+                                                            { packaging }
+                                                        );
+                                                        if (result.missing.length > 0) {
+                                                            alert(`${result.missing.length} photo(s) or video(s) could not be downloaded and show as placeholders in the archive.`);
+                                                        }
+                                                    } catch (error) {
+                                                        console.error('Archive export failed:', error);
+                                                        alert('Could not create the offline archive.');
+                                                    } finally {
+                                                        setIsExporting(false);
+                                                    }
+                                                }}
+                                                className="w-full px-3 py-1.5 hover:bg-white/5 flex items-center gap-2 text-white text-left transition-colors disabled:opacity-40"
                                             >
-                                                {dpi}
+                                                <Globe className="w-3 h-3 text-blue-400" />
+                                                <div className="flex flex-col">
+                                                    <span className="text-xs font-medium">{packaging === 'zip' ? 'Offline Archive (.zip)' : 'Offline Archive (single file)'}</span>
+                                                    <span className="text-[9px] text-white/40">{packaging === 'zip' ? 'Viewer with media folder' : 'One HTML file, media inlined'}</span>
+                                                </div>
                                             </button>
                                         ))}
-                                    </div>
-                                    <button
-                                        disabled={isExporting}
-                                        onClick={async () => {
-                                            setShowExportMenu(false);
-                                            setIsExporting(true);
-                                            const validRefs = pageRefs.current.filter(Boolean) as HTMLElement[];
-                                            const scaleFactor = exportDpi === 300 ? 4 : exportDpi === 450 ? 6 : 8;
-                                            await printService.exportToPDF(validRefs, title || 'Family_Album', scaleFactor);
-                                            setIsExporting(false);
-                                        }}
-                                        className="w-full px-3 py-1.5 hover:bg-white/5 flex items-center gap-2 text-white text-left transition-colors"
-                                    >
-                                        <FileText className="w-3 h-3 text-red-400" />
-                                        <div className="flex flex-col">
-                                            <span className="text-xs font-medium">Interactive PDF</span>
-                                        </div>
-                                    </button>
-                                    <button
-                                        onClick={async () => {
-                                            setShowExportMenu(false);
-                                            await printService.exportToHTML5({ title, pages });
-                                        }}
-                                        className="w-full px-3 py-1.5 hover:bg-white/5 flex items-center gap-2 text-white text-left transition-colors"
-                                    >
-                                        <Globe className="w-3 h-3 text-blue-400" />
-                                        <div className="flex flex-col">
-                                            <span className="text-xs font-medium">HTML5 Bundle</span>
-                                        </div>
-                                    </button>
-                                </motion.div>
+                                        <button
+                                            disabled={isExporting}
+                                            onClick={() => {
+                                                setShowExportMenu(false);
+                                                setShowVideoExport(true);
+                                            }}
+                                            className="w-full px-3 py-1.5 hover:bg-white/5 flex items-center gap-2 text-white text-left transition-colors disabled:opacity-40"
+                                        >
+                                            <Film className="w-3 h-3 text-purple-400" />
+                                            <div className="flex flex-col">
+                                                <span className="text-xs font-medium">Video Slideshow (MP4)</span>
+                                                <span className="text-[9px] text-white/40">Page turns, plays on any TV</span>
+                                            </div>
+                                        </button>
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
+                        </div>
+                    )}
+
+                    {feedback.enabled && (
+                        <button
+                            onClick={() => setShowComments(!showComments)}
+                            className={cn(
+                                "flex items-center gap-1 p-1 rounded-full transition-colors text-white",
+                                showComments ? "bg-catalog-accent" : "hover:bg-white/10"
                             )}
-                        </AnimatePresence>
-                    </div>
+                            title="Comments & Reactions"
+                        >
+                            <MessageCircle className="w-3 h-3" />
+                            {visibleCommentCount > 0 && <span className="text-[9px] font-bold pr-0.5">{visibleCommentCount}</span>}
+                        </button>
+                    )}
 
                     <button
                         onClick={() => setIsFullscreen(!isFullscreen)}
@@ -490,6 +435,49 @@ export function FlipbookViewer({ pages, album, onClose }: FlipbookViewerProps) {
                 </div>
             </header>
 
+            {showVideoExport && (
+                <SlideshowExportDialog
+                    title={title}
+                    kind="album"
+                    onClose={() => setShowVideoExport(false)}
+                    onExport={(options, onProgress) => SlideshowExportService.exportAlbum(
+                        { title, config: album?.config, masterPages: album?.masterPages, pages },
+                        options,
+                        onProgress
+                    )}
+                />
+            )}
+
+            {showPrintOrder && (
+                <PrintOrderDialog
+                    source={{ title, config: album?.config, masterPages: album?.masterPages, pages }}
+                    albumId={album?.id}
+                    onClose={() => setShowPrintOrder(false)}
+                />
+            )}
+
+            {printWarnings && (
+                <div className="absolute top-16 left-4 w-80 max-h-[60vh] overflow-y-auto bg-zinc-900/95 backdrop-blur-md rounded-xl border border-white/10 shadow-2xl z-[110] text-white">
+                    <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+                        <div className="flex items-center gap-2">
+                            <AlertTriangle className="w-3.5 h-3.5 text-amber-400" />
+                            <span className="text-[10px] font-bold uppercase tracking-widest">Print Warnings</span>
+                        </div>
+                        <button onClick={() => setPrintWarnings(null)} className="p-1 hover:bg-white/10 rounded-full" title="Dismiss">
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                    <ul className="py-1">
+                        {printWarnings.map((warning, index) => (
+                            <li key={`${warning.pageNumber}-${warning.itemId || ''}-${index}`} className="px-3 py-1.5 text-[11px] leading-snug">
+                                <span className="text-white/40 mr-1">Page {warning.pageNumber}:</span>
+                                {warning.message}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             <div id="flipbook-container" className={cn(
                 "absolute inset-0 overflow-visible",
                 isTheaterMode && "album-canvas pointer-events-none opacity-50",
@@ -660,6 +648,14 @@ export function FlipbookViewer({ pages, album, onClose }: FlipbookViewerProps) {
                 </button>
             </div>
 
+            {feedback.enabled && showComments && (
+                <CommentsPanel
+                    feedback={feedback}
+                    items={commentItems}
+                    onClose={() => setShowComments(false)}
+                />
+            )}
+
             <VideoPortal
                 videoUrl={selectedVideo?.url || null}
                 rotation={selectedVideo?.rotation}
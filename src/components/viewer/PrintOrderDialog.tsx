@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import { Package, X, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { getDisplayPages, type DisplaySource } from '../../lib/displayPages';
+import { getPrintGeometry } from '../../lib/printLayout';
+import { getPrintVendors, matchVendorProduct, pointsToMm } from '../../lib/printVendors';
+import { previewVendorOrder } from '../../services/printOrder';
+import { printService } from '../../services/printService';
+
+interface PrintOrderDialogProps {
+    source: DisplaySource;
+    albumId?: string;
+    onClose: () => void;
+}
+
+/**
+ * Vendor and product for a print-on-demand photo book, with the order as it
+ * will be placed (pages, spine, cover size) before the files are made.
+ */
+export function PrintOrderDialog({ source, albumId, onClose }: PrintOrderDialogProps) {
+    const vendors = getPrintVendors();
+    const displayPageCount = useMemo(() => getDisplayPages(source).length, [source]);
+    const albumSize = useMemo(() => {
+        const geometry = getPrintGeometry(source.config);
+        return { width: pointsToMm(geometry.trimWidth), height: pointsToMm(geometry.trimHeight) };
+    }, [source.config]);
+
+    const [vendorId, setVendorId] = useState(vendors[0]?.id);
+    const profile = vendors.find(vendor => vendor.id === vendorId) || vendors[0];
+    const [productId, setProductId] = useState(() => matchVendorProduct(profile, albumSize.width, albumSize.height).id);
+    const product = profile.products.find(item => item.id === productId) || profile.products[0];
+    const preview = useMemo(
+        () => previewVendorOrder(source, displayPageCount, profile, product, albumId),
+        [source, displayPageCount, profile, product, albumId]
+    );
+
+    const [progress, setProgress] = useState<string | null>(null);
+    const [done, setDone] = useState<string[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const busy = progress !== null;
+    const warnings = done || preview.warnings;
+
+    const handleVendorChange = (id: string) => {
+        const next = vendors.find(vendor => vendor.id === id)!;
+        setVendorId(id);
+        setProductId(matchVendorProduct(next, albumSize.width, albumSize.height).id);
+        setDone(null);
+    };
+
+    const handleExport = async () => {
+        setError(null);
+        setDone(null);
+        setProgress('Starting');
+        try {
+            const order = await printService.exportToVendorOrder(source, profile, product, { albumId, onProgress: setProgress });
+            setDone(order.warnings);
+        } catch (err) {
+            console.error('Print order export failed:', err);
+            setError(err instanceof Error ? err.message : 'The order files could not be created.');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={busy ? undefined : onClose} />
+            <div className="relative w-full max-w-md bg-white rounded-3xl shadow-2xl p-6 space-y-5" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-3 text-catalog-accent">
+                        <Package className="w-5 h-5" />
+                        <div>
+                            <h3 className="font-bold uppercase tracking-wider text-sm">Photo Book Order</h3>
+                            <p className="text-xs text-catalog-text/50 font-medium truncate max-w-[260px]">{source.title}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} disabled={busy} className="p-1 hover:bg-black/5 rounded-full disabled:opacity-30" title="Close">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-catalog-text/40">Vendor</p>
+                    <select
+                        value={profile.id}
+                        disabled={busy}
+                        onChange={e => handleVendorChange(e.target.value)}
+                        className="w-full px-3 py-2 text-sm rounded-xl border border-black/10 bg-white"
+                    >
+                        {vendors.map(vendor => <option key={vendor.id} value={vendor.id}>{vendor.name}</option>)}
+                    </select>
+                    <p className="text-[10px] text-catalog-text/40 font-medium">{profile.description}</p>
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-catalog-text/40">Product</p>
+                    <select
+                        value={product.id}
+                        disabled={busy}
+                        onChange={e => { setProductId(e.target.value); setDone(null); }}
+                        className="w-full px-3 py-2 text-sm rounded-xl border border-black/10 bg-white"
+                    >
+                        {profile.products.map(item => (
+                            <option key={item.id} value={item.id}>
+                                {item.name} ({item.trimWidthMm} × {item.trimHeightMm} mm)
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                    <dt className="text-catalog-text/50">Interior pages</dt>
+                    <dd className="font-bold text-right">
+                        {preview.pageCount}
+                        {preview.blankPages > 0 && <span className="font-medium text-catalog-text/50"> ({preview.blankPages} blank)</span>}
+                    </dd>
+                    <dt className="text-catalog-text/50">Spine</dt>
+                    <dd className="font-bold text-right">{preview.spineWidthMm} mm</dd>
+                    <dt className="text-catalog-text/50">Cover spread</dt>
+                    <dd className="font-bold text-right">{preview.cover.widthMm} × {preview.cover.heightMm} mm</dd>
+                    <dt className="text-catalog-text/50">Files</dt>
+                    <dd className="font-bold text-right">{profile.pageFormat === 'jpeg' ? `JPEG pages, ${profile.dpi} dpi` : 'PDF'} + {profile.manifestFileName}</dd>
+                </dl>
+
+                {progress && <p className="text-xs text-catalog-text/50 font-medium">{progress}…</p>}
+
+                {error && (
+                    <div className="p-3 bg-red-50 text-red-600 rounded-2xl border border-red-100 text-xs font-medium">{error}</div>
+                )}
+
+                {done && (
+                    <div className="p-3 bg-green-50 text-green-700 rounded-2xl border border-green-100 text-xs font-medium flex gap-2">
+                        <CheckCircle2 className="w-4 h-4 shrink-0" />
+                        <span>The order files were downloaded; upload them to {profile.name}.</span>
+                    </div>
+                )}
+
+                {warnings.length > 0 && (
+                    <div className="p-3 bg-orange-50 rounded-2xl border border-orange-100 text-xs text-orange-700 space-y-1">
+                        <p className="font-bold flex items-center gap-2">
+                            <AlertTriangle className="w-4 h-4" />
+                            Check before ordering
+                        </p>
+                        <ul className="space-y-1 list-disc pl-5 max-h-40 overflow-y-auto">
+                            {warnings.map((line, index) => <li key={index}>{line}</li>)}
+                        </ul>
+                    </div>
+                )}
+
+                <Button variant="primary" onClick={handleExport} isLoading={busy} disabled={busy} className="w-full gap-2">
+                    {!busy && <Package className="w-4 h-4" />}
+                    {busy ? 'Creating Order Files' : 'Export Order Files'}
+                </Button>
+            </div>
+        </div>
+    );
+}
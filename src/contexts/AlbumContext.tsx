@@ -1,9 +1,60 @@
-import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
+import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
 import { AlbumDataService } from '../services/albumDataService';
+import { AlbumRevisionService } from '../services/albumRevisions';
 import {
     unifiedAlbumToContextAlbum,
     contextAlbumToUnifiedAlbum,
 } from '../lib/albumAdapters';
+import {
+    AlbumMergeState,
+    applyAlbumOperation,
+    pageHasAsset,
+    removeAssetFromPage,
+    updateAssetOnPage,
+    type AlbumOperation,
+    type AssetPatch,
+    type OperationStamp,
+} from '../lib/albumOperations';
+import {
+    presenceColor,
+    supabaseTransportFactory,
+    type CollaborationTransport,
+    type CollaborationTransportFactory,
+    type CollaboratorPresence,
+} from '../services/albumCollaboration';
+import {
+    applyPatchFields,
+    createPatch,
+    describePatch,
+    patchOperations,
+    type HistoryEntry,
+    type PatchDirection,
+} from '../lib/albumHistory';
+import {
+    applyItemPatches,
+    arrangeItems,
+    createGroupId,
+    describeArrangeCommand,
+    expandToGroups,
+    getArrangeItems,
+    type ArrangeCommand,
+} from '../lib/albumArrange';
+import { applyAutoLayoutToPage, type AutoLayout } from '../lib/autoArrange';
+import {
+    createMasterFromPage,
+    detachPageFromMaster,
+    getPageMaster,
+    movePageDesignToMaster,
+    touchesBackground,
+} from '../lib/masterPages';
+import { createTocPage, isTocPage, refreshTableOfContents } from '../lib/albumSections';
+import {
+    resolveSaveConflict as buildResolvedAlbum,
+    type PageResolution,
+    type SaveConflictReview,
+} from '../lib/albumMerge';
+import type { AlbumVersionStamp, MasterPageOverrides, SaveConflict, UnifiedAlbum } from '../types/album';
+import { useAuth } from './AuthContext';
 
 export interface Asset {
     id: string;
@@ -104,6 +155,7 @@ export interface Asset {
     isStamp?: boolean;
     category?: string;
     folder?: string;
+    groupId?: string | null; // Items sharing a groupId select and move together; null when ungrouped
 
     // Location Data
     lat?: number;
@@ -132,6 +184,10 @@ export interface AlbumConfig {
     };
     styleSync?: boolean;
     isLocked?: boolean;
+    isDraft?: boolean; // Generated by AlbumDraftService and not yet reviewed
+    startDate?: string; // YYYY-MM-DD, shown by the {dates} page token
+    endDate?: string;
+    size?: string; // Paper size picked at creation ('A4-landscape', 'Square', ...), used for print
 }
 
 // ============================================================================
@@ -213,11 +269,34 @@ export interface Page {
     name?: string;
     isSpreadLayout?: boolean;
 
+    // Named section starting at this page (running headers, table of contents)
+    section?: string;
+
+    // Master page this page inherits from, and what it changes about it
+    masterPageId?: string | null;
+    masterOverrides?: MasterPageOverrides;
+
     // New unified fields
     pageStyles?: PageStyles;
     textLayers?: LayoutBox[]; // Separate text elements for easier editing
 }
 
+/**
+ * MasterPage - Shared design inherited by every page that links to it.
+ * Text layers may use page tokens ("{page}", "{section}", ...), see lib/pageTokens.
+ */
+export interface MasterPage {
+    id: string;
+    name: string;
+    backgroundColor: string;
+    backgroundOpacity?: number;
+    backgroundImage?: string;
+    backgroundScale?: 'cover' | 'contain' | 'stretch';
+    backgroundPosition?: 'top' | 'center' | 'bottom';
+    assets: Asset[];          // Ribbons, frames, stickers and other decorations
+    textLayers: LayoutBox[];  // Header and page-number text
+}
+
 export interface AlbumPageData extends Page {
     // Ensuring unified fields are present
     layout_config: LayoutBox[];
@@ -234,6 +313,7 @@ export interface Album {
     category?: string;
     coverUrl?: string;
     pages: Page[];
+    masterPages?: MasterPage[];
     unplacedMedia: Asset[];
     hashtags: string[];
     config: AlbumConfig;
@@ -249,9 +329,13 @@ interface AlbumContextType {
     album: Album | null;
     currentPageIndex: number;
     selectedAssetId: string | null;
-    setAlbum: (newAlbum: Album | null | ((prev: Album | null) => Album | null), options?: { skipHistory?: boolean }) => void;
+    setAlbum: (newAlbum: Album | null | ((prev: Album | null) => Album | null), options?: { skipHistory?: boolean; label?: string }) => void;
     setCurrentPageIndex: (index: number) => void;
     setSelectedAssetId: (id: string | null) => void;
+    selectedAssetIds: string[];
+    setSelectedAssetIds: (ids: string[]) => void;
+    selectAsset: (assetId: string, options?: { additive?: boolean }) => void;
+    arrangeSelection: (command: ArrangeCommand) => void;
     addPage: (template?: Page['layoutTemplate'], atIndex?: number) => void;
     removePage: (pageId: string) => void;
     updatePage: (pageId: string, updates: Partial<Page>) => void;
@@ -263,12 +347,22 @@ interface AlbumContextType {
     uploadMedia: (files: File[], category?: string) => Promise<void>;
     addMediaByUrl: (url: string, type: 'image' | 'video', category?: string) => void;
     applyLayout: (pageId: string, layout: any) => void;
+    autoArrangePage: (pageId: string, layout: AutoLayout) => void;
+    setPageSection: (pageId: string, name: string | null) => void;
+    addTableOfContents: () => void;
+    createMasterPage: (pageId: string, name: string) => void;
+    updateMasterPage: (masterId: string, updates: Partial<Omit<MasterPage, 'id'>>) => void;
+    removeMasterPage: (masterId: string) => void;
+    assignMasterPage: (pageIds: string[], masterId: string | null) => void;
+    setMasterOverrides: (pageId: string, overrides: MasterPageOverrides) => void;
+    detachFromMaster: (pageId: string) => void;
+    moveDesignToMaster: (pageId: string) => void;
     moveFromLibrary: (assetId: string, pageId: string) => void;
     duplicatePage: (pageId: string) => void;
     movePage: (pageId: string, direction: 'left' | 'right') => void;
     reorderPages: (fromIndex: number, toIndex: number) => void;
-    saveAlbum: () => Promise<{ success: boolean; error?: string }>;
-    saveAlbumPage: (pageId: string) => Promise<{ success: boolean; error?: string }>;
+    saveAlbum: (options?: { revisionName?: string }) => Promise<{ success: boolean; error?: string; conflict?: SaveConflict }>;
+    saveAlbumPage: (pageId: string) => Promise<{ success: boolean; error?: string; conflict?: SaveConflict }>;
     toggleLock: () => Promise<void>;
     fetchAlbum: (albumId: string) => Promise<{ success: boolean; error?: string }>;
     updateConfig: (updates: Partial<AlbumConfig>) => void;
@@ -285,13 +379,19 @@ interface AlbumContextType {
     uploadProgress: Record<string, number>;
     updatePageAssets: (pageId: string, assets: Asset[], options?: { skipHistory?: boolean }) => void;
     moveAssetToPage: (assetId: string, fromPageId: string, toPageId: string, newX: number, newY: number) => void;
-    commitHistory: (previousState?: Album) => void;
+    commitHistory: (previousState?: Album, label?: string) => void;
+    historyEntries: { past: HistoryEntry[]; future: HistoryEntry[] };
+    jumpToHistory: (entryId: string | null) => void;
     showLayoutOutlines: boolean;
     toggleLayoutOutlines: () => void;
     activeSlot: { pageId: string; index: number } | null;
     setActiveSlot: (slot: { pageId: string; index: number } | null) => void;
     clearPageMedia: (pageId: string) => void;
     swapSlotAssets: (pageId: string, assetIdA: string, assetIdB: string) => void;
+    collaborators: CollaboratorPresence[];
+    getAssetHolder: (assetId: string) => CollaboratorPresence | undefined;
+    saveConflict: SaveConflictReview | null;
+    resolveSaveConflict: (resolutions: Record<string, PageResolution>) => Promise<{ success: boolean; error?: string; conflict?: SaveConflict }>;
 }
 
 export const AlbumContext = createContext<AlbumContextType | undefined>(undefined);
@@ -305,73 +405,263 @@ function generateId() {
 
 
 
-export function AlbumProvider({ children }: { children: React.ReactNode }) {
+/**
+ * Round-trip a fetched album through the context model so it compares
+ * field-for-field with albums built from editor state (merge base and theirs).
+ */
+function asEditedAlbum(unifiedAlbum: UnifiedAlbum): UnifiedAlbum {
+    return {
+        ...contextAlbumToUnifiedAlbum(unifiedAlbumToContextAlbum(unifiedAlbum)),
+        version: unifiedAlbum.version,
+    };
+}
+
+// Undo steps kept per session; each step only holds the pages it touched
+const MAX_HISTORY_STEPS = 100;
+
+// Delay used to coalesce rapid updateAsset calls (drags, resizes) into one broadcast
+const COLLAB_UPDATE_FLUSH_MS = 50;
+
+interface CollaborationSession {
+    albumId: string;
+    merge: AlbumMergeState;
+    transport: CollaborationTransport;
+}
+
+export function AlbumProvider({
+    children,
+    collaborationTransport = supabaseTransportFactory,
+}: {
+    children: React.ReactNode;
+    collaborationTransport?: CollaborationTransportFactory;
+}) {
     const [album, setAlbumInternal] = useState<Album | null>(null);
-    const [history, setHistory] = useState<Album[]>([]);
-    const [redoStack, setRedoStack] = useState<Album[]>([]);
+    const [historyEntries, setHistoryEntries] = useState<{ past: HistoryEntry[]; future: HistoryEntry[] }>({ past: [], future: [] });
+    const historyRef = useRef(historyEntries);
+    const lastCommitBaseRef = useRef<Album | null>(null);
     const [currentPageIndex, setCurrentPageIndex] = useState(0);
-    const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
+    // Multi-selection; the last id is the primary item shown in the properties panel
+    const [selectedAssetIds, setSelectedAssetIds] = useState<string[]>([]);
+    const selectedAssetId = selectedAssetIds.length > 0 ? selectedAssetIds[selectedAssetIds.length - 1] : null;
+    const setSelectedAssetId = useCallback((id: string | null) => setSelectedAssetIds(id ? [id] : []), []);
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
     const [isLoading, setIsLoading] = useState(false);
     const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
     const [showLayoutOutlines, setShowLayoutOutlines] = useState(true);
     const [activeSlot, setActiveSlot] = useState<{ pageId: string; index: number } | null>(null);
     const albumRef = useRef<Album | null>(null);
+    const { user, profile } = useAuth();
+    const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+    const clientIdRef = useRef(generateId());
+    const sessionRef = useRef<CollaborationSession | null>(null);
+    const pendingSyncRef = useRef<{ order: boolean; pages: Set<string> }>({ order: false, pages: new Set() });
+    const pendingUpdatesRef = useRef<Map<string, { pageId: string; assetId: string; updates: AssetPatch; stamps: Record<string, OperationStamp> }>>(new Map());
+    const updateFlushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const [saveConflict, setSaveConflict] = useState<SaveConflictReview | null>(null);
+    const saveConflictRef = useRef<SaveConflictReview | null>(null);
+    // Version stamp and snapshot of the album as last loaded or saved (the merge base)
+    const baseStampRef = useRef<AlbumVersionStamp | null>(null);
+    const baseAlbumRef = useRef<UnifiedAlbum | null>(null);
+
+    const updateHistory = useCallback((next: { past: HistoryEntry[]; future: HistoryEntry[] }) => {
+        historyRef.current = next;
+        setHistoryEntries(next);
+    }, []);
 
+    const pushHistory = useCallback((before: Album, after: Album, label?: string) => {
+        const patch = createPatch(before, after);
+        if (!patch) return;
+        const entry: HistoryEntry = {
+            id: generateId(),
+            label: label || describePatch(patch),
+            timestamp: Date.now(),
+            patch,
+            operations: { undo: patchOperations(patch, 'undo'), redo: patchOperations(patch, 'redo') },
+        };
+        updateHistory({ past: [...historyRef.current.past.slice(-(MAX_HISTORY_STEPS - 1)), entry], future: [] });
+    }, [updateHistory]);
+
+    // Resolved against albumRef (always in sync with state) rather than inside a
+    // state updater, so history is recorded exactly once even under StrictMode.
     const setAlbum = useCallback((
         newAlbum: Album | null | ((prev: Album | null) => Album | null),
-        options?: { skipHistory?: boolean }
+        options?: { skipHistory?: boolean; label?: string }
     ) => {
-        setAlbumInternal(prev => {
-            const resolved = typeof newAlbum === 'function' ? newAlbum(prev) : newAlbum;
-            if (prev && resolved && prev !== resolved && !options?.skipHistory) {
-                setHistory(h => [...h.slice(-49), prev]);
-                setRedoStack([]);
-            }
-            albumRef.current = resolved;
-            return resolved;
-        });
+        const prev = albumRef.current;
+        const resolved = typeof newAlbum === 'function' ? newAlbum(prev) : newAlbum;
+        albumRef.current = resolved;
+        setAlbumInternal(resolved);
+        if (prev && resolved && prev !== resolved && prev.id === resolved.id && !options?.skipHistory) {
+            pushHistory(prev, resolved, options?.label);
+        }
+    }, [pushHistory]);
+
+    const commitHistory = useCallback((previousState?: Album, label?: string) => {
+        const current = albumRef.current;
+        // Don't record the same gesture twice
+        if (!current || !previousState || current === previousState || lastCommitBaseRef.current === previousState) return;
+        lastCommitBaseRef.current = previousState;
+        pushHistory(previousState, current, label);
+    }, [pushHistory]);
+
+    const broadcast = useCallback((operation: AlbumOperation) => {
+        const session = sessionRef.current;
+        if (!session) return;
+        session.transport.send(session.merge.stampLocal(session.albumId, operation));
     }, []);
 
-    const commitHistory = useCallback((previousState?: Album) => {
-        setAlbumInternal(current => {
-            if (current && previousState && current !== previousState) {
-                setHistory(h => {
-                    // Don't push duplicate consecutive states
-                    if (h.length > 0 && h[h.length - 1] === previousState) return h;
-                    return [...h.slice(-49), previousState];
-                });
-                setRedoStack([]);
-            }
-            return current;
-        });
-    }, []);
+    /**
+     * Replay history steps in order. Each step is applied and broadcast as
+     * its own operations, so co-editors' later edits to other items survive.
+     */
+    const replayHistory = useCallback((entries: HistoryEntry[], direction: PatchDirection) => {
+        const current = albumRef.current;
+        if (!current || entries.length === 0) return;
+        const next = entries.reduce((album, entry) => {
+            return entry.operations[direction].reduce((result, operation) => {
+                broadcast(operation);
+                return applyAlbumOperation(result, operation);
+            }, applyPatchFields(album, entry.patch, direction));
+        }, current);
+        albumRef.current = next;
+        setAlbumInternal(next);
+    }, [broadcast]);
 
     const undo = useCallback(() => {
-        setHistory(h => {
-            if (h.length === 0) return h;
-            const previous = h[h.length - 1];
-            setAlbumInternal(current => {
-                if (current) setRedoStack(r => [...r, current]);
-                albumRef.current = previous;
-                return previous;
-            });
-            return h.slice(0, -1);
-        });
-    }, []);
+        const { past, future } = historyRef.current;
+        const entry = past[past.length - 1];
+        if (!entry) return;
+        replayHistory([entry], 'undo');
+        updateHistory({ past: past.slice(0, -1), future: [...future, entry] });
+    }, [replayHistory, updateHistory]);
 
     const redo = useCallback(() => {
-        setRedoStack(r => {
-            if (r.length === 0) return r;
-            const next = r[r.length - 1];
-            setAlbumInternal(current => {
-                if (current) setHistory(h => [...h, current]);
-                albumRef.current = next;
-                return next;
-            });
-            return r.slice(0, -1);
+        const { past, future } = historyRef.current;
+        const entry = future[future.length - 1];
+        if (!entry) return;
+        replayHistory([entry], 'redo');
+        updateHistory({ past: [...past, entry], future: future.slice(0, -1) });
+    }, [replayHistory, updateHistory]);
+
+    /**
+     * Move to the state right after `entryId`, or to the oldest recorded
+     * state when `entryId` is null. Future entries are listed newest-last
+     * in redo order (the next redo is the last element).
+     */
+    const jumpToHistory = useCallback((entryId: string | null) => {
+        const { past, future } = historyRef.current;
+        const pastIndex = entryId === null ? -1 : past.findIndex(e => e.id === entryId);
+
+        if (entryId === null || pastIndex !== -1) {
+            const undone = past.slice(pastIndex + 1);
+            replayHistory([...undone].reverse(), 'undo');
+            updateHistory({ past: past.slice(0, pastIndex + 1), future: [...future, ...undone.reverse()] });
+            return;
+        }
+
+        const futureIndex = future.findIndex(e => e.id === entryId);
+        if (futureIndex === -1) return;
+        const redone = future.slice(futureIndex).reverse();
+        replayHistory(redone, 'redo');
+        updateHistory({ past: [...past, ...redone], future: future.slice(0, futureIndex) });
+    }, [replayHistory, updateHistory]);
+
+    // --- REAL-TIME CO-EDITING ---
+
+    const flushPendingUpdates = useCallback(() => {
+        updateFlushTimerRef.current = null;
+        const pending = Array.from(pendingUpdatesRef.current.values());
+        pendingUpdatesRef.current.clear();
+        pending.forEach(({ pageId, assetId, updates, stamps }) => broadcast({ type: 'updateAsset', pageId, assetId, updates, stamps }));
+    }, [broadcast]);
+
+    // Fields are stamped when the edit is applied, not when the batch is sent,
+    // so a remote edit arriving in between is ordered the same on every session
+    const queueAssetUpdate = useCallback((pageId: string, assetId: string, updates: AssetPatch) => {
+        const session = sessionRef.current;
+        if (!session) return;
+        const stamps = session.merge.stampFields({ type: 'updateAsset', pageId, assetId, updates });
+        const key = `${pageId}:${assetId}`;
+        const existing = pendingUpdatesRef.current.get(key);
+        pendingUpdatesRef.current.set(key, {
+            pageId,
+            assetId,
+            updates: { ...(existing?.updates || {}), ...updates },
+            stamps: { ...(existing?.stamps || {}), ...stamps },
         });
-    }, []);
+        if (!updateFlushTimerRef.current) {
+            updateFlushTimerRef.current = setTimeout(flushPendingUpdates, COLLAB_UPDATE_FLUSH_MS);
+        }
+    }, [flushPendingUpdates]);
+
+    const albumId = album?.id;
+
+    // Join the album's edit channel while it is open
+    useEffect(() => {
+        if (!albumId) return;
+
+        const clientId = clientIdRef.current;
+        const transport = collaborationTransport(albumId, clientId);
+        const session: CollaborationSession = { albumId, merge: new AlbumMergeState(clientId), transport };
+        const pendingUpdates = pendingUpdatesRef.current;
+        sessionRef.current = session;
+
+        transport.connect({
+            onOperation: (envelope) => {
+                if (envelope.albumId !== albumId || envelope.stamp.clientId === clientId) return;
+                const admitted = session.merge.admitRemote(envelope);
+                if (!admitted) return;
+                setAlbum(prev => (prev && prev.id === albumId ? applyAlbumOperation(prev, admitted) : prev), { skipHistory: true });
+            },
+            onPresence: (peers) => setCollaborators(peers),
+        });
+
+        return () => {
+            if (updateFlushTimerRef.current) clearTimeout(updateFlushTimerRef.current);
+            updateFlushTimerRef.current = null;
+            pendingUpdates.clear();
+            transport.disconnect();
+            if (sessionRef.current === session) sessionRef.current = null;
+            setCollaborators([]);
+        };
+    }, [albumId, collaborationTransport, setAlbum]);
+
+    // Page order and layout changes are broadcast as resulting state once React has applied them
+    useEffect(() => {
+        const pending = pendingSyncRef.current;
+        if (!album || (!pending.order && pending.pages.size === 0)) return;
+        if (pending.order) {
+            broadcast({ type: 'reorderPages', order: album.pages.map(p => p.id) });
+        }
+        if (pending.pages.size > 0) {
+            const pages = album.pages.filter(p => pending.pages.has(p.id));
+            if (pages.length > 0) broadcast({ type: 'applyLayout', pages });
+        }
+        pendingSyncRef.current = { order: false, pages: new Set() };
+    }, [album, broadcast]);
+
+    const presencePageId = album?.pages[currentPageIndex]?.id ?? null;
+
+    useEffect(() => {
+        const session = sessionRef.current;
+        if (!session) return;
+        const clientId = clientIdRef.current;
+        session.transport.updatePresence({
+            clientId,
+            userId: user?.id ?? null,
+            name: profile?.full_name || user?.email || 'Guest',
+            avatarUrl: profile?.avatar_url,
+            color: presenceColor(clientId),
+            pageId: presencePageId,
+            selectedAssetId,
+            selectedAssetIds,
+            updatedAt: Date.now(),
+        });
+    }, [albumId, presencePageId, selectedAssetId, selectedAssetIds, user, profile]);
+
+    const getAssetHolder = useCallback((assetId: string) => {
+        return collaborators.find(c => c.selectedAssetId === assetId || c.selectedAssetIds?.includes(assetId));
+    }, [collaborators]);
 
     const addPage = useCallback((template: Page['layoutTemplate'] = 'freeform', atIndex?: number) => {
         if (!album || album.config.isLocked) return;
@@ -390,38 +680,30 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
             backgroundColor: '#ffffff',
         };
 
-        const newPages = [...album.pages];
+        const added = [newPage1];
         if (isSpread) {
-            const newPage2: Page = {
+            added.push({
                 id: generateId(),
                 pageNumber: insertIndex + 2,
                 layoutTemplate: template,
                 assets: [],
                 backgroundColor: '#ffffff',
-            };
-            newPages.splice(insertIndex, 0, newPage1, newPage2);
-        } else {
-            newPages.splice(insertIndex, 0, newPage1);
+            });
         }
+        const operation: AlbumOperation = { type: 'addPages', pages: added, afterId: album.pages[insertIndex - 1]?.id ?? null };
 
-        setAlbum({
-            ...album,
-            pages: newPages.map((p, i) => ({ ...p, pageNumber: i + 1 })),
-            updatedAt: new Date(),
-        });
+        setAlbum(applyAlbumOperation(album, operation));
+        broadcast(operation);
         setCurrentPageIndex(insertIndex);
-    }, [album, setAlbum]);
+    }, [album, setAlbum, broadcast]);
 
     const removePage = useCallback((pageId: string) => {
         if (!album || album.pages.length <= 1 || album.config.isLocked) return;
-        const newPages = album.pages.filter(p => p.id !== pageId);
-        setAlbum({
-            ...album,
-            pages: newPages.map((p, i) => ({ ...p, pageNumber: i + 1 })),
-            updatedAt: new Date(),
-        });
+        const operation: AlbumOperation = { type: 'removePages', pageIds: [pageId] };
+        setAlbum(applyAlbumOperation(album, operation));
+        broadcast(operation);
         setCurrentPageIndex(Math.max(0, currentPageIndex - 1));
-    }, [album, currentPageIndex]);
+    }, [album, currentPageIndex, broadcast]);
 
     const updatePage = useCallback((pageId: string, updates: Partial<Page>) => {
         if (!album || album.config.isLocked) return;
@@ -431,6 +713,11 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
                 if (p.id !== pageId) return p;
                 
                 const updatedPage = { ...p, ...updates };
+
+                // A background set on the page itself stops following the master
+                if (p.masterPageId && touchesBackground(updates)) {
+                    updatedPage.masterOverrides = { ...p.masterOverrides, background: true };
+                }
                 
                 // Sync top-level styles to nested pageStyles
                 if (updates.backgroundColor !== undefined || updates.backgroundOpacity !== undefined || updates.backgroundImage !== undefined || updates.backgroundScale !== undefined || updates.backgroundPosition !== undefined) {
@@ -449,16 +736,19 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
             }),
             updatedAt: new Date(),
         });
+        pendingSyncRef.current.pages.add(pageId);
     }, [album]);
 
     const clearPageMedia = useCallback((pageId: string) => {
         if (!album || album.config.isLocked) return;
+        const page = album.pages.find(p => p.id === pageId);
         setAlbum({
             ...album,
             pages: album.pages.map(p => p.id === pageId ? { ...p, assets: [] } : p),
             updatedAt: new Date(),
         });
-    }, [album]);
+        page?.assets.forEach(asset => broadcast({ type: 'removeAsset', pageId, assetId: asset.id }));
+    }, [album, broadcast]);
 
     /**
      * Swap two asset positions or slots within a page.
@@ -466,95 +756,71 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
      */
     const swapSlotAssets = useCallback((pageId: string, assetIdA: string, assetIdB: string) => {
         if (!album || album.config.isLocked) return;
+        const page = album.pages.find(p => p.id === pageId);
+        const a = page?.assets.find(x => x.id === assetIdA);
+        const b = page?.assets.find(x => x.id === assetIdB);
+        if (!a || !b) return;
+
+        // Swap slotIds if in layout mode, positions in freeform mode
+        const [updatesA, updatesB]: AssetPatch[] = a.slotId !== undefined && b.slotId !== undefined
+            ? [{ slotId: b.slotId }, { slotId: a.slotId }]
+            : [
+                { x: b.x, y: b.y, width: b.width, height: b.height },
+                { x: a.x, y: a.y, width: a.width, height: a.height },
+            ];
+
         setAlbum(prev => {
             if (!prev) return null;
             return {
                 ...prev,
-                pages: prev.pages.map(p => {
-                    if (p.id !== pageId) return p;
-                    const a = p.assets.find(x => x.id === assetIdA);
-                    const b = p.assets.find(x => x.id === assetIdB);
-                    if (!a || !b) return p;
-
-                    // Swap slotIds if in layout mode
-                    if (a.slotId !== undefined && b.slotId !== undefined) {
-                        return {
-                            ...p,
-                            assets: p.assets.map(asset => {
-                                if (asset.id === assetIdA) return { ...asset, slotId: b.slotId };
-                                if (asset.id === assetIdB) return { ...asset, slotId: a.slotId };
-                                return asset;
-                            })
-                        };
-                    }
-
-                    // Swap positions in freeform mode
-                    return {
-                        ...p,
-                        assets: p.assets.map(asset => {
-                            if (asset.id === assetIdA) return { ...asset, x: b.x, y: b.y, width: b.width, height: b.height };
-                            if (asset.id === assetIdB) return { ...asset, x: a.x, y: a.y, width: a.width, height: a.height };
-                            return asset;
-                        })
-                    };
-                }),
+                pages: prev.pages.map(p => p.id === pageId
+                    ? updateAssetOnPage(updateAssetOnPage(p, assetIdA, updatesA), assetIdB, updatesB)
+                    : p),
                 updatedAt: new Date()
             };
         });
-    }, [album]);
+        queueAssetUpdate(pageId, assetIdA, updatesA);
+        queueAssetUpdate(pageId, assetIdB, updatesB);
+    }, [album, queueAssetUpdate]);
 
     const addAsset = useCallback((pageId: string, asset: Omit<Asset, 'id'>) => {
         if (!album || album.config.isLocked) return;
         const newAssetId = generateId();
-        setAlbum(prev => {
-            if (!prev) return null;
-            return {
-                ...prev,
-                pages: prev.pages.map(p => {
-                    if (p.id !== pageId) return p;
-
-                    if (asset.type === 'text') {
-                        const newTextLayer: any = {
-                            id: newAssetId,
-                            role: 'text',
-                            left: asset.x,
-                            top: asset.y,
-                            width: asset.width,
-                            height: asset.height,
-                            zIndex: asset.zIndex || 50,
-                            content: {
-                                type: 'text',
-                                text: asset.content || 'Your story here...',
-                                rotation: asset.rotation || 0,
-                                config: {
-                                    fontSize: asset.fontSize || 32,
-                                    fontFamily: asset.fontFamily || 'Outfit',
-                                    color: asset.textColor || asset.color || '#000000',
-                                    textColor: asset.textColor || asset.color || '#000000',
-                                    textAlign: asset.textAlign || 'center',
-                                    fontWeight: asset.fontWeight || 'normal',
-                                    textDecoration: asset.textDecoration || 'none',
-                                    fontStyle: asset.fontStyle || 'normal',
-                                }
-                            }
-                        };
-                        return {
-                            ...p,
-                            textLayers: [...(p.textLayers || []), newTextLayer]
-                        };
-                    } else {
-                        const newAsset: Asset = { ...asset, id: newAssetId } as any;
-                        return {
-                            ...p,
-                            assets: [...p.assets, newAsset]
-                        };
+        const operation: AlbumOperation = asset.type === 'text'
+            ? {
+                type: 'addAsset',
+                pageId,
+                textLayer: {
+                    id: newAssetId,
+                    role: 'text',
+                    left: asset.x,
+                    top: asset.y,
+                    width: asset.width,
+                    height: asset.height,
+                    zIndex: asset.zIndex || 50,
+                    content: {
+                        type: 'text',
+                        text: asset.content || 'Your story here...',
+                        rotation: asset.rotation || 0,
+                        config: {
+                            fontSize: asset.fontSize || 32,
+                            fontFamily: asset.fontFamily || 'Outfit',
+                            color: asset.textColor || asset.color || '#000000',
+                            textColor: asset.textColor || asset.color || '#000000',
+                            textAlign: asset.textAlign || 'center',
+                            fontWeight: asset.fontWeight || 'normal',
+                            textDecoration: asset.textDecoration || 'none',
+                            fontStyle: asset.fontStyle || 'normal',
+                        }
                     }
-                }),
-                updatedAt: new Date(),
-            };
-        });
+                } as any
+            }
+            : { type: 'addAsset', pageId, asset: { ...asset, id: newAssetId } as any };
+
+        setAlbum(prev => prev ? applyAlbumOperation(prev, operation) : null);
+        broadcast(operation);
         setSelectedAssetId(newAssetId);
-    }, [album]);
+    }, [album, broadcast]);
 
     const updateAsset = useCallback((pageId: string, assetId: string, updates: any, options?: { skipHistory?: boolean }) => {
         if (!album || album.config.isLocked) return;
@@ -562,78 +828,23 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
             if (!prev) return null;
             return {
                 ...prev,
-                pages: prev.pages.map(p => {
-                    if (p.id !== pageId) return p;
-
-                    // 1. Update Legacy Assets
-                    let newAssets = p.assets.map(a => a.id === assetId ? { ...a, ...updates } : a);
-
-                    // 2. Update Unified Layout Config (slots/freeform)
-                    let newLayoutConfig = (p.layoutConfig || []).map(box => {
-                        if (box.id === assetId) {
-                            return {
-                                ...box,
-                                left: updates.x ?? box.left,
-                                top: updates.y ?? box.top,
-                                width: updates.width ?? box.width,
-                                height: updates.height ?? box.height,
-                                zIndex: updates.zIndex ?? box.zIndex,
-                                content: {
-                                    ...box.content,
-                                    rotation: updates.rotation ?? box.content?.rotation,
-                                    zoom: updates.zoom ?? box.content?.zoom,
-                                    x: updates.focalX ?? box.content?.x,
-                                    y: updates.focalY ?? box.content?.y,
-                                    text: updates.content ?? box.content?.text,
-                                    config: { ...(box.content?.config || {}), ...updates }
-                                }
-                            } as any;
-                        }
-                        return box;
-                    });
-
-                    // 3. Update Unified Text Layers
-                    let newTextLayers = (p.textLayers || []).map(layer => {
-                        if (layer.id === assetId) {
-                            return {
-                                ...layer,
-                                left: updates.x ?? layer.left,
-                                top: updates.y ?? layer.top,
-                                width: updates.width ?? layer.width,
-                                height: updates.height ?? layer.height,
-                                content: {
-                                    ...layer.content,
-                                    rotation: updates.rotation ?? layer.content?.rotation,
-                                    text: updates.content ?? layer.content?.text,
-                                    config: { ...(layer.content?.config || {}), ...updates }
-                                }
-                            } as any;
-                        }
-                        return layer;
-                    });
-
-                    return { ...p, assets: newAssets, layoutConfig: newLayoutConfig, textLayers: newTextLayers };
-                }),
+                pages: prev.pages.map(p => p.id === pageId ? updateAssetOnPage(p, assetId, updates) : p),
                 updatedAt: new Date(),
             };
         }, options);
-    }, [album, setAlbum]);
+        queueAssetUpdate(pageId, assetId, updates);
+    }, [album, setAlbum, queueAssetUpdate]);
 
     const removeAsset = useCallback((pageId: string, assetId: string) => {
         if (!album || album.config.isLocked) return;
         setAlbum({
             ...album,
-            pages: album.pages.map(p =>
-                p.id === pageId ? { 
-                    ...p, 
-                    assets: p.assets.filter(a => a.id !== assetId),
-                    textLayers: (p.textLayers || []).filter(l => l.id !== assetId)
-                } : p
-            ),
+            pages: album.pages.map(p => p.id === pageId ? removeAssetFromPage(p, assetId) : p),
             updatedAt: new Date(),
         });
-        if (selectedAssetId === assetId) setSelectedAssetId(null);
-    }, [album, selectedAssetId]);
+        broadcast({ type: 'removeAsset', pageId, assetId });
+        setSelectedAssetIds(prev => prev.includes(assetId) ? prev.filter(id => id !== assetId) : prev);
+    }, [album, broadcast]);
 
     const duplicateAsset = useCallback((pageId: string, assetId: string) => {
         if (!album || album.config.isLocked) return;
@@ -649,52 +860,48 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
             zIndex: (sourceAsset.zIndex || 0) + 1
         };
 
-        setAlbum({
-            ...album,
-            pages: album.pages.map(p =>
-                p.id === pageId ? { ...p, assets: [...p.assets, newAsset] } : p
-            ),
-            updatedAt: new Date(),
-        });
+        const operation: AlbumOperation = { type: 'addAsset', pageId, asset: newAsset };
+        setAlbum(prev => prev ? applyAlbumOperation(prev, operation) : null);
+        broadcast(operation);
         setSelectedAssetId(newAsset.id);
-    }, [album]);
+    }, [album, broadcast]);
 
     const updateAssetZIndex = useCallback((pageId: string, assetId: string, direction: 'front' | 'back' | 'forward' | 'backward') => {
         if (!album || album.config.isLocked) return;
 
-        setAlbum(prev => {
-            if (!prev) return prev;
-            const page = prev.pages.find(p => p.id === pageId);
-            if (!page) return prev;
-
-            const sortedAssets = [...page.assets].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0));
-            const assetIndex = sortedAssets.findIndex(a => a.id === assetId);
-            if (assetIndex === -1) return prev;
-
-            const asset = sortedAssets[assetIndex];
-            let newZ = asset.zIndex || 0;
-
-            if (direction === 'front') {
-                newZ = Math.max(...page.assets.map(a => a.zIndex || 0), 0) + 1;
-            } else if (direction === 'back') {
-                const currentMin = Math.min(...page.assets.map(a => a.zIndex || 0), 0);
-                newZ = currentMin - 1;
+        const page = album.pages.find(p => p.id === pageId);
+        if (!page) return;
+
+        const sortedAssets = [...page.assets].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0));
+        const assetIndex = sortedAssets.findIndex(a => a.id === assetId);
+        if (assetIndex === -1) return;
+
+        const asset = sortedAssets[assetIndex];
+        let newZ = asset.zIndex || 0;
+
+        if (direction === 'front') {
+            newZ = Math.max(...page.assets.map(a => a.zIndex || 0), 0) + 1;
+        } else if (direction === 'back') {
+            const currentMin = Math.min(...page.assets.map(a => a.zIndex || 0), 0);
+            newZ = currentMin - 1;
+            // Preserve visibility: regular assets stay at or above 0
+            if (asset.zIndex >= 0 && newZ < 0) newZ = 0;
+        } else if (direction === 'forward') {
+            if (assetIndex < sortedAssets.length - 1) {
+                const nextAsset = sortedAssets[assetIndex + 1];
+                newZ = (nextAsset.zIndex || 0) + 1;
+            }
+        } else if (direction === 'backward') {
+            if (assetIndex > 0) {
+                const prevAsset = sortedAssets[assetIndex - 1];
+                newZ = (prevAsset.zIndex || 0) - 1;
                 // Preserve visibility: regular assets stay at or above 0
                 if (asset.zIndex >= 0 && newZ < 0) newZ = 0;
-            } else if (direction === 'forward') {
-                if (assetIndex < sortedAssets.length - 1) {
-                    const nextAsset = sortedAssets[assetIndex + 1];
-                    newZ = (nextAsset.zIndex || 0) + 1;
-                }
-            } else if (direction === 'backward') {
-                if (assetIndex > 0) {
-                    const prevAsset = sortedAssets[assetIndex - 1];
-                    newZ = (prevAsset.zIndex || 0) - 1;
-                    // Preserve visibility: regular assets stay at or above 0
-                    if (asset.zIndex >= 0 && newZ < 0) newZ = 0;
-                }
             }
+        }
 
+        setAlbum(prev => {
+            if (!prev) return prev;
             return {
                 ...prev,
                 pages: prev.pages.map(p =>
@@ -705,7 +912,8 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
                 updatedAt: new Date(),
             };
         });
-    }, [album]);
+        queueAssetUpdate(pageId, assetId, { zIndex: newZ });
+    }, [album, queueAssetUpdate]);
 
     const uploadMedia = useCallback(async (files: File[], category: string = 'general') => {
         if (!album || album.config.isLocked) return;
@@ -902,16 +1110,13 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
         const centerX = (100 - (asset.width || 30)) / 2;
         const centerY = (100 - (asset.height || 30)) / 2;
 
+        const operation: AlbumOperation = { type: 'addAsset', pageId, asset: { ...asset, x: centerX, y: centerY } };
         setAlbum({
-            ...album,
+            ...applyAlbumOperation(album, operation),
             unplacedMedia: album.unplacedMedia.filter(a => a.id !== assetId),
-            pages: album.pages.map(p => p.id === pageId ? {
-                ...p,
-                assets: [...p.assets, { ...asset, x: centerX, y: centerY }]
-            } : p),
-            updatedAt: new Date(),
         });
-    }, [album]);
+        broadcast(operation);
+    }, [album, broadcast]);
 
 
     const duplicatePage = useCallback((pageId: string) => {
@@ -927,16 +1132,12 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
         };
 
         const pageIndex = album.pages.findIndex(p => p.id === pageId);
-        const newPages = [...album.pages];
-        newPages.splice(pageIndex + 1, 0, newPage);
+        const operation: AlbumOperation = { type: 'addPages', pages: [newPage], afterId: pageId };
 
-        setAlbum({
-            ...album,
-            pages: newPages.map((p, i) => ({ ...p, pageNumber: i + 1 })),
-            updatedAt: new Date(),
-        });
+        setAlbum(applyAlbumOperation(album, operation));
+        broadcast(operation);
         setCurrentPageIndex(pageIndex + 1);
-    }, [album]);
+    }, [album, broadcast]);
 
     const movePage = useCallback((pageId: string, direction: 'left' | 'right') => {
         if (!album || album.config.isLocked) return;
@@ -957,7 +1158,7 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
 
         setAlbum({
             ...album,
-            pages: newPages.map((p, i) => ({ ...p, pageNumber: i + 1 })),
+            pages: refreshTableOfContents(newPages.map((p, i) => ({ ...p, pageNumber: i + 1 }))),
             updatedAt: new Date(),
         });
         setCurrentPageIndex(newIndex);
@@ -1017,10 +1218,11 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
 
             return {
                 ...prev,
-                pages: pages.map((p, i) => ({ ...p, pageNumber: i + 1 })),
+                pages: refreshTableOfContents(pages.map((p, i) => ({ ...p, pageNumber: i + 1 }))),
                 updatedAt: new Date(),
             };
         });
+        pendingSyncRef.current.order = true;
     }, [album, setAlbum]);
 
     const updateConfig = useCallback((updates: Partial<AlbumConfig>) => {
@@ -1043,28 +1245,62 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
         }, options);
     }, [setAlbum]);
 
+    // Sent as a removal from one page and an add to the other
     const moveAssetToPage = useCallback((assetId: string, fromPageId: string, toPageId: string, newX: number, newY: number) => {
-        setAlbum(prev => {
-            if (!prev || prev.config.isLocked) return prev;
-            const fromPage = prev.pages.find(p => p.id === fromPageId);
-            const asset = fromPage?.assets.find(a => a.id === assetId);
-            if (!asset) return prev;
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const asset = current.pages.find(p => p.id === fromPageId)?.assets.find(a => a.id === assetId);
+        if (!asset) return;
 
-            return {
-                ...prev,
-                pages: prev.pages.map(p => {
-                    if (p.id === fromPageId) {
-                        return { ...p, assets: p.assets.filter(a => a.id !== assetId) };
-                    }
-                    if (p.id === toPageId) {
-                        return { ...p, assets: [...p.assets, { ...asset, x: newX, y: newY }] };
-                    }
-                    return p;
-                }),
-                updatedAt: new Date(),
-            };
+        const operations: AlbumOperation[] = [
+            { type: 'removeAsset', pageId: fromPageId, assetId },
+            { type: 'addAsset', pageId: toPageId, asset: { ...asset, x: newX, y: newY } },
+        ];
+        setAlbum(prev => prev ? operations.reduce(applyAlbumOperation, prev) : prev);
+        operations.forEach(broadcast);
+    }, [setAlbum, broadcast]);
+
+    /**
+     * Select an asset together with its group. Additive selection (shift-click)
+     * toggles it in or out of the current selection.
+     */
+    const selectAsset = useCallback((assetId: string, options?: { additive?: boolean }) => {
+        const page = albumRef.current?.pages.find(p => pageHasAsset(p, assetId));
+        const members = page ? expandToGroups(getArrangeItems(page), [assetId]) : [assetId];
+        const others = members.filter(id => id !== assetId);
+        setSelectedAssetIds(prev => {
+            if (!options?.additive) return [...others, assetId];
+            if (prev.includes(assetId)) return prev.filter(id => !members.includes(id));
+            return [...prev.filter(id => !members.includes(id)), ...others, assetId];
         });
-    }, [setAlbum]);
+    }, []);
+
+    /**
+     * Align, distribute, match size, group or ungroup the selection. Each
+     * command is applied page by page and recorded as one undo step.
+     */
+    const arrangeSelection = useCallback((command: ArrangeCommand) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked || selectedAssetIds.length === 0) return;
+
+        const groupId = createGroupId();
+        const changes: { pageId: string; assetId: string; updates: AssetPatch }[] = [];
+        let itemCount = 0;
+        const pages = current.pages.map(page => {
+            const items = getArrangeItems(page).filter(item => selectedAssetIds.includes(item.id));
+            if (items.length === 0) return page;
+            const patches = arrangeItems(items, command, { referenceId: selectedAssetId ?? undefined, groupId });
+            const entries = Object.entries(patches);
+            if (entries.length === 0) return page;
+            itemCount += items.length;
+            entries.forEach(([assetId, updates]) => changes.push({ pageId: page.id, assetId, updates }));
+            return applyItemPatches(page, patches);
+        });
+        if (changes.length === 0) return;
+
+        setAlbum({ ...current, pages, updatedAt: new Date() }, { label: describeArrangeCommand(command, itemCount) });
+        changes.forEach(({ pageId, assetId, updates }) => queueAssetUpdate(pageId, assetId, updates));
+    }, [selectedAssetIds, selectedAssetId, setAlbum, queueAssetUpdate]);
 
     const toggleSpreadView = useCallback(() => {
         if (!album) return;
@@ -1141,6 +1377,11 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
     const applyLayout = useCallback((pageId: string, layout: any) => {
         if (!album || album.config.isLocked) return;
 
+        // Layouts can rewrite both pages of a spread, so sync whichever pages end up changed
+        const layoutPageIndex = album.pages.findIndex(p => p.id === pageId);
+        pendingSyncRef.current.pages.add(pageId);
+        getSpread(layoutPageIndex).forEach(p => pendingSyncRef.current.pages.add(p.id));
+
         setAlbum(prev => {
             if (!prev) return null;
             const pages = [...prev.pages];
@@ -1261,9 +1502,209 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
                 } : p),
                 updatedAt: new Date()
             };
-        });
+        }, { label: `Applied layout ${layout.name}` });
     }, [album, getSpread]);
 
+    /**
+     * Apply a generated arrangement. Its photos can sit on the page or in
+     * unplaced media; the ones taken from unplaced media move onto the page.
+     */
+    const autoArrangePage = useCallback((pageId: string, layout: AutoLayout) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const pageIndex = current.pages.findIndex(p => p.id === pageId);
+        if (pageIndex === -1) return;
+
+        const photoIds = layout.frames.map(f => f.photoId);
+        const page = current.pages[pageIndex];
+        const photos = [...page.assets, ...current.unplacedMedia].filter(a => photoIds.includes(a.id));
+        if (photos.length === 0) return;
+
+        pendingSyncRef.current.pages.add(pageId);
+        setAlbum({
+            ...current,
+            unplacedMedia: current.unplacedMedia.filter(a => !photoIds.includes(a.id)),
+            pages: current.pages.map(p => p.id === pageId ? applyAutoLayoutToPage(p, layout, photos) : p),
+            updatedAt: new Date()
+        }, { label: `Auto arranged ${photos.length} photos on page ${page.pageNumber}` });
+    }, [setAlbum]);
+
+    /**
+     * Name the section that starts at a page (null ends the naming there).
+     * Table-of-contents pages pick the change up right away.
+     */
+    const setPageSection = useCallback((pageId: string, name: string | null) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const page = current.pages.find(p => p.id === pageId);
+        const section = name?.trim() || undefined;
+        if (!page || (page.section || undefined) === section) return;
+
+        const pages = refreshTableOfContents(current.pages.map(p => p.id === pageId ? { ...p, section } : p));
+        pendingSyncRef.current.pages.add(pageId);
+        pages.filter(isTocPage).forEach(p => pendingSyncRef.current.pages.add(p.id));
+        setAlbum({
+            ...current,
+            pages,
+            updatedAt: new Date()
+        }, { label: section ? `Named section "${section}" on page ${page.pageNumber}` : `Removed section from page ${page.pageNumber}` });
+    }, [setAlbum]);
+
+    /**
+     * Insert a table-of-contents page after the front cover.
+     */
+    const addTableOfContents = useCallback(() => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+
+        const insertIndex = current.pages[0]?.layoutTemplate === 'cover-front' ? 1 : 0;
+        const pages = [...current.pages];
+        pages.splice(insertIndex, 0, createTocPage(generateId(), insertIndex + 1));
+
+        pendingSyncRef.current.order = true;
+        setAlbum({
+            ...current,
+            pages: refreshTableOfContents(pages.map((p, i) => ({ ...p, pageNumber: i + 1 }))),
+            updatedAt: new Date()
+        }, { label: 'Added table of contents' });
+        setCurrentPageIndex(insertIndex);
+    }, [setAlbum]);
+
+    /**
+     * Turn a page's background, decorations and text into a new master and
+     * link the page to it.
+     */
+    const createMasterPage = useCallback((pageId: string, name: string) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const page = current.pages.find(p => p.id === pageId);
+        if (!page) return;
+
+        const result = createMasterFromPage(page, generateId(), name);
+        pendingSyncRef.current.pages.add(pageId);
+        setAlbum({
+            ...current,
+            masterPages: [...(current.masterPages || []), result.master],
+            pages: current.pages.map(p => p.id === pageId ? result.page : p),
+            updatedAt: new Date()
+        }, { label: `Created master page ${name}` });
+    }, [setAlbum]);
+
+    const updateMasterPage = useCallback((masterId: string, updates: Partial<Omit<MasterPage, 'id'>>) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const master = current.masterPages?.find(m => m.id === masterId);
+        if (!master) return;
+
+        setAlbum({
+            ...current,
+            masterPages: current.masterPages!.map(m => m.id === masterId ? { ...m, ...updates } : m),
+            updatedAt: new Date()
+        }, { label: `Edited master page ${updates.name || master.name}` });
+    }, [setAlbum]);
+
+    /**
+     * Delete a master. Linked pages are detached first so they keep its look.
+     */
+    const removeMasterPage = useCallback((masterId: string) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const master = current.masterPages?.find(m => m.id === masterId);
+        if (!master) return;
+
+        const pages = current.pages.map(p => {
+            if (p.masterPageId !== masterId) return p;
+            pendingSyncRef.current.pages.add(p.id);
+            return detachPageFromMaster(p, master, generateId);
+        });
+        setAlbum({
+            ...current,
+            masterPages: current.masterPages!.filter(m => m.id !== masterId),
+            pages,
+            updatedAt: new Date()
+        }, { label: `Deleted master page ${master.name}` });
+    }, [setAlbum]);
+
+    /**
+     * Link pages to a master (or unlink them with null). Overrides are reset;
+     * unlinking drops the inherited content without copying it.
+     */
+    const assignMasterPage = useCallback((pageIds: string[], masterId: string | null) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const master = masterId ? current.masterPages?.find(m => m.id === masterId) : null;
+        if (masterId && !master) return;
+
+        const changed = current.pages.filter(p => pageIds.includes(p.id) && (p.masterPageId || null) !== masterId);
+        if (changed.length === 0) return;
+        changed.forEach(p => pendingSyncRef.current.pages.add(p.id));
+
+        setAlbum({
+            ...current,
+            pages: current.pages.map(p => changed.includes(p)
+                ? { ...p, masterPageId: masterId, masterOverrides: undefined }
+                : p),
+            updatedAt: new Date()
+        }, {
+            label: master
+                ? `Applied master ${master.name} to ${changed.length === 1 ? `page ${changed[0].pageNumber}` : `${changed.length} pages`}`
+                : `Removed master from ${changed.length === 1 ? `page ${changed[0].pageNumber}` : `${changed.length} pages`}`
+        });
+    }, [setAlbum]);
+
+    const setMasterOverrides = useCallback((pageId: string, overrides: MasterPageOverrides) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const page = current.pages.find(p => p.id === pageId);
+        if (!page?.masterPageId) return;
+
+        pendingSyncRef.current.pages.add(pageId);
+        setAlbum({
+            ...current,
+            pages: current.pages.map(p => p.id === pageId ? { ...p, masterOverrides: overrides } : p),
+            updatedAt: new Date()
+        }, { label: `Changed master overrides on page ${page.pageNumber}` });
+    }, [setAlbum]);
+
+    /**
+     * Copy the master's content into the page so it can be edited freely.
+     */
+    const detachFromMaster = useCallback((pageId: string) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const page = current.pages.find(p => p.id === pageId);
+        const master = page && getPageMaster(page, current.masterPages);
+        if (!page || !master) return;
+
+        pendingSyncRef.current.pages.add(pageId);
+        setAlbum({
+            ...current,
+            pages: current.pages.map(p => p.id === pageId ? detachPageFromMaster(p, master, generateId) : p),
+            updatedAt: new Date()
+        }, { label: `Detached page ${page.pageNumber} from ${master.name}` });
+    }, [setAlbum]);
+
+    /**
+     * Move the page's decorations and text onto its master, so every page
+     * linked to it gets them.
+     */
+    const moveDesignToMaster = useCallback((pageId: string) => {
+        const current = albumRef.current;
+        if (!current || current.config.isLocked) return;
+        const page = current.pages.find(p => p.id === pageId);
+        const master = page && getPageMaster(page, current.masterPages);
+        if (!page || !master) return;
+
+        const result = movePageDesignToMaster(page, master);
+        pendingSyncRef.current.pages.add(pageId);
+        setAlbum({
+            ...current,
+            masterPages: current.masterPages!.map(m => m.id === master.id ? result.master : m),
+            pages: current.pages.map(p => p.id === pageId ? result.page : p),
+            updatedAt: new Date()
+        }, { label: `Moved page ${page.pageNumber} design into ${master.name}` });
+    }, [setAlbum]);
+
     const toggleLayoutOutlines = useCallback(() => {
         setShowLayoutOutlines(prev => !prev);
     }, []);
@@ -1282,6 +1723,11 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
 
             setAlbumInternal(album);
             albumRef.current = album;
+            updateHistory({ past: [], future: [] });
+            baseStampRef.current = AlbumDataService.versionStamp(unifiedAlbum);
+            baseAlbumRef.current = asEditedAlbum(unifiedAlbum);
+            saveConflictRef.current = null;
+            setSaveConflict(null);
 
             // Set first page as current
             setCurrentPageIndex(0);
@@ -1293,29 +1739,79 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [updateHistory]);
 
-    const saveAlbum = useCallback(async () => {
+    const saveAlbum = useCallback(async (options?: { revisionName?: string }) => {
         const currentAlbum = albumRef.current;
         if (!currentAlbum) return { success: false, error: 'No album to save' };
 
+        // Nothing can be saved until the pending conflict is resolved
+        if (saveConflictRef.current) {
+            return { success: false, error: 'Save conflict', conflict: saveConflictRef.current.conflict };
+        }
+
         setSaveStatus('saving');
         try {
             const unifiedAlbum = contextAlbumToUnifiedAlbum(currentAlbum);
-            const success = await AlbumDataService.saveAlbum(unifiedAlbum);
-            if (success) {
+            const result = await AlbumDataService.saveAlbum(unifiedAlbum, baseStampRef.current);
+            if (result.status === 'saved') {
+                const previous = baseAlbumRef.current;
+                const previousVersion = baseStampRef.current?.album;
+                if (result.stamp) baseStampRef.current = result.stamp;
+                baseAlbumRef.current = unifiedAlbum;
+
+                // History is best-effort: a failed revision never fails the save
+                await AlbumRevisionService.recordRevision({
+                    album: unifiedAlbum,
+                    previous,
+                    previousVersion,
+                    version: result.stamp?.album,
+                    author: { id: user?.id ?? null, name: profile?.full_name || user?.email || 'Unknown' },
+                    name: options?.revisionName,
+                });
+
                 setSaveStatus('saved');
                 return { success: true };
+            } else if (result.status === 'conflict') {
+                const review = {
+                    conflict: { ...result.conflict, theirs: asEditedAlbum(result.conflict.theirs) },
+                    base: baseAlbumRef.current,
+                    mine: unifiedAlbum,
+                };
+                saveConflictRef.current = review;
+                setSaveConflict(review);
+                setSaveStatus('error');
+                return { success: false, error: 'Save conflict', conflict: result.conflict };
             } else {
                 setSaveStatus('error');
-                return { success: false, error: 'Failed to save album' };
+                return { success: false, error: result.error };
             }
         } catch (error: any) {
             console.error('[AlbumContext] saveAlbum error:', error);
             setSaveStatus('error');
             return { success: false, error: error.message };
         }
-    }, []);
+    }, [user, profile]);
+
+    const resolveSaveConflict = useCallback(async (resolutions: Record<string, PageResolution>) => {
+        const review = saveConflictRef.current;
+        if (!review) return { success: true };
+
+        // Edits made while the dialog was open are part of "mine"
+        const mine = albumRef.current ? contextAlbumToUnifiedAlbum(albumRef.current) : review.mine;
+        const resolved = buildResolvedAlbum({ ...review, mine }, resolutions);
+
+        baseStampRef.current = review.conflict.remoteStamp;
+        baseAlbumRef.current = review.conflict.theirs;
+        saveConflictRef.current = null;
+        setSaveConflict(null);
+
+        const next = unifiedAlbumToContextAlbum(resolved);
+        setAlbum(next);
+        albumRef.current = next;
+        setCurrentPageIndex(prev => Math.min(prev, Math.max(0, resolved.pages.length - 1)));
+        return saveAlbum({ revisionName: 'Resolved save conflict' });
+    }, [saveAlbum, setAlbum]);
 
     const saveAlbumPage = useCallback(async (_pageId: string) => {
         return saveAlbum();
@@ -1346,6 +1842,10 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
         setAlbum,
         setCurrentPageIndex,
         setSelectedAssetId,
+        selectedAssetIds,
+        setSelectedAssetIds,
+        selectAsset,
+        arrangeSelection,
         addPage,
         removePage,
         updatePage,
@@ -1355,6 +1855,16 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
         updateAssetZIndex,
         uploadMedia,
         applyLayout,
+        autoArrangePage,
+        setPageSection,
+        addTableOfContents,
+        createMasterPage,
+        updateMasterPage,
+        removeMasterPage,
+        assignMasterPage,
+        setMasterOverrides,
+        detachFromMaster,
+        moveDesignToMaster,
         moveFromLibrary,
         addMediaByUrl,
         saveAlbum,
@@ -1374,18 +1884,24 @@ export function AlbumProvider({ children }: { children: React.ReactNode }) {
         syncStyles,
         undo,
         redo,
-        canUndo: history.length > 0,
-        canRedo: redoStack.length > 0,
+        canUndo: historyEntries.past.length > 0,
+        canRedo: historyEntries.future.length > 0,
         updatePageAssets,
         moveAssetToPage,
         toggleLock,
         commitHistory,
+        historyEntries,
+        jumpToHistory,
         showLayoutOutlines,
         toggleLayoutOutlines,
         activeSlot,
         setActiveSlot,
         clearPageMedia,
-        swapSlotAssets
+        swapSlotAssets,
+        collaborators,
+        getAssetHolder,
+        saveConflict,
+        resolveSaveConflict
     };
 
     return (
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from './AuthContext';
+import { EventContributionService, contributionUploadPrefix, type ContributorDetails } from '../services/eventContributions';
 
 export interface FileUploadState {
     name: string;
@@ -30,7 +31,7 @@ export interface UploadedItem {
 interface UploadContextType {
     state: UploadManagerState;
     uploadedItems: UploadedItem[];
-    uploadFiles: (files: File[], options: { familyId?: string | null; folder?: string; useHls?: boolean; isSystemAsset?: boolean; onComplete?: (results: UploadedItem[]) => void }) => Promise<void>;
+    uploadFiles: (files: File[], options: { familyId?: string | null; folder?: string; useHls?: boolean; isSystemAsset?: boolean; contribution?: ContributorDetails; onComplete?: (results: UploadedItem[]) => void }) => Promise<void>;
     cancelUpload: (name: string) => void;
     cancelAll: () => void;
     dismissUpload: () => void;
@@ -116,8 +117,8 @@ export function UploadProvider({ children }: { children: React.ReactNode }) {
         });
     };
 
-    const uploadFiles = useCallback(async (files: File[], options: { familyId?: string | null; folder?: string; useHls?: boolean; isSystemAsset?: boolean; onComplete?: (results: UploadedItem[]) => void }) => {
-        const { familyId, folder = '/', useHls = false, isSystemAsset = false, onComplete } = options;
+    const uploadFiles = useCallback(async (files: File[], options: { familyId?: string | null; folder?: string; useHls?: boolean; isSystemAsset?: boolean; contribution?: ContributorDetails; onComplete?: (results: UploadedItem[]) => void }) => {
+        const { familyId, folder = '/', useHls = false, isSystemAsset = false, contribution, onComplete } = options;
         if (!files || files.length === 0) return;
 
         // Force reset state for new batch
@@ -158,7 +159,10 @@ export function UploadProvider({ children }: { children: React.ReactNode }) {
                 ? (categoryMap[folder.toLowerCase()] || folder.toLowerCase())
                 : folder;
 
-            const pathPrefix = isSystemAsset 
+            // Guest contributions wait for review under their link's own prefix
+            const pathPrefix = contribution
+                ? contributionUploadPrefix(contribution.token)
+                : isSystemAsset 
                 ? (normalizedCategory === 'sticker' || folder === '/' ? 'sticker' : normalizedCategory) 
                 : (`mediaItems/${familyId}/${folder === '/' || folder === 'vault' ? 'vault' : folder.replace(/^\/+|\/+$/g, '')}`);
 
@@ -188,11 +192,16 @@ export function UploadProvider({ children }: { children: React.ReactNode }) {
                     }
                 };
 
+                if (contribution) {
+                    const { success, error: submitError } = await EventContributionService.submit(contribution, uploadedItem);
+                    if (!success) throw new Error(submitError || 'Failed to submit contribution');
+                }
+
                 updateFile(file.name, { status: 'done', progress: 100 });
                 results.push(uploadedItem);
                 
                 // Use normalized category for DB insert
-                await saveToDatabase(uploadedItem, normalizedCategory, familyId, isSystemAsset);
+                if (!contribution) await saveToDatabase(uploadedItem, normalizedCategory, familyId, isSystemAsset);
             } catch (err: any) {
                 if (err.name === 'AbortError') {
                     updateFile(file.name, { status: 'aborted', progress: 0 });
@@ -19,6 +19,10 @@ export function useAlbumAutoSave() {
                 setLastSavedTime(new Date());
                 setStatus('saved');
                 console.log('[AutoSave] Save successful');
+            } else if (result.conflict) {
+                // AlbumEditor shows the merge dialog; nothing to alert about
+                setStatus('unsaved');
+                console.warn('[AutoSave] Save conflict, waiting for resolution');
             } else {
                 setStatus('unsaved');
                 console.error('[AutoSave] Save failed', result.error);
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+    MediaCommentService, EMPTY_FEEDBACK, findMentions, isOwnReaction,
+    type FeedbackActor, type FeedbackScope, type MediaComment, type MediaFeedback, type MediaReaction, type MentionableMember,
+} from '../services/mediaComments';
+
+const GUEST_NAME_KEY = 'share_guest_name';
+
+/**
+ * Comments and reactions for a viewer, loaded once for the whole album,
+ * event or stack and reloaded after each change. Pass null to switch them
+ * off. Keep the scope stable across renders (useMemo), as it is the key
+ * the feedback is loaded for.
+ *
+ * @example const feedback = useMediaFeedback(commentScope);
+ */
+export function useMediaFeedback(scope: FeedbackScope | null | undefined) {
+    const { user, userRole, familyId } = useAuth();
+    const [feedback, setFeedback] = useState<MediaFeedback>(EMPTY_FEEDBACK);
+    const [members, setMembers] = useState<MentionableMember[]>([]);
+    const [guestName, setGuestNameState] = useState(() => localStorage.getItem(GUEST_NAME_KEY) || '');
+    const [revision, setRevision] = useState(0);
+
+    const isGuest = scope?.kind === 'guest';
+    const isAdmin = userRole === 'admin' || userRole === 'super_admin';
+
+    useEffect(() => {
+        if (!scope) return;
+        let cancelled = false;
+        MediaCommentService.load(scope).then(loaded => {
+            if (!cancelled) setFeedback(loaded);
+        });
+        return () => { cancelled = true; };
+    }, [scope, revision]);
+
+    useEffect(() => {
+        if (isGuest || !familyId) return;
+        let cancelled = false;
+        MediaCommentService.listMentionableMembers(familyId).then(list => {
+            if (!cancelled) setMembers(list.filter(member => member.id !== user?.id));
+        });
+        return () => { cancelled = true; };
+    }, [isGuest, familyId, user?.id]);
+
+    const actor: FeedbackActor = isGuest ? { guestName } : { userId: user?.id };
+
+    const setGuestName = useCallback((name: string) => {
+        setGuestNameState(name);
+        localStorage.setItem(GUEST_NAME_KEY, name);
+    }, []);
+
+    const post = async (itemKey: string, parentId: string | null, body: string) => {
+        if (!scope) return { error: 'Comments are off.' };
+        const { comment, error } = await MediaCommentService.postComment(
+            scope,
+            { itemKey, parentId, body, mentionIds: isGuest ? [] : findMentions(body, members) },
+            actor
+        );
+        if (comment) setRevision(r => r + 1);
+        return { error };
+    };
+
+    const remove = async (commentId: string) => {
+        const { success, error } = await MediaCommentService.deleteComment(commentId);
+        if (success) setRevision(r => r + 1);
+        return { error };
+    };
+
+    const react = async (itemKey: string, emoji: string) => {
+        if (!scope) return { error: 'Reactions are off.' };
+        const { reacted, error } = await MediaCommentService.toggleReaction(scope, itemKey, emoji, actor);
+        if (reacted !== null) setRevision(r => r + 1);
+        return { error };
+    };
+
+    return {
+        enabled: !!scope,
+        isGuest,
+        comments: feedback.comments,
+        reactions: feedback.reactions,
+        members,
+        guestName,
+        setGuestName,
+        post,
+        remove,
+        react,
+        commentCount: (itemKey: string) => feedback.comments.filter(comment => comment.itemKey === itemKey).length,
+        isOwn: (reaction: MediaReaction) => isOwnReaction(reaction, actor, feedback.linkId),
+        canDelete: (comment: MediaComment) => !isGuest && (comment.authorId === user?.id || isAdmin),
+    };
+}
+
+export type MediaFeedbackState = ReturnType<typeof useMediaFeedback>;
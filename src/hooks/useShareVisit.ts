@@ -0,0 +1,33 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { ShareVisitTracker } from '../services/shareAnalytics';
+
+/**
+ * Record a guest visit to a share link for as long as the shared viewer is
+ * open. Returns a callback to report the pages or items the guest sees;
+ * views reported before the link has opened are passed on once it has.
+ *
+ * The password the link was opened with is needed again to start the visit.
+ *
+ * @example const recordView = useShareVisit(token, unlock?.password, !!album);
+ */
+export function useShareVisit(token: string | undefined, password: string | undefined, isOpen: boolean) {
+    const trackerRef = useRef<ShareVisitTracker | null>(null);
+    const pendingRef = useRef<string[]>([]);
+
+    useEffect(() => {
+        if (!token || !isOpen) return;
+        const tracker = new ShareVisitTracker(token, password);
+        pendingRef.current.forEach(item => tracker.view(item));
+        pendingRef.current = [];
+        trackerRef.current = tracker;
+        return () => {
+            tracker.stop();
+            trackerRef.current = null;
+        };
+    }, [token, password, isOpen]);
+
+    return useCallback((item: string) => {
+        if (trackerRef.current) trackerRef.current.view(item);
+        else pendingRef.current.push(item);
+    }, []);
+}
@@ -12,9 +12,10 @@ import type {
     BackgroundConfig,
     AssetType,
     LayoutSlot,
+    UnifiedMasterPage,
 } from '../types/album';
 import { getDefaultZIndex } from '../types/album';
-import type { Album, Page, Asset, LayoutBox } from '../contexts/AlbumContext';
+import type { Album, Page, Asset, LayoutBox, MasterPage } from '../contexts/AlbumContext';
 
 // ============================================================================
 // UNIFIED → CONTEXT (Service to Context)
@@ -55,6 +56,7 @@ export function unifiedAssetToContextAsset(unifiedAsset: UnifiedAsset): Asset {
 
         // Fit mode
         fitMode: unifiedAsset.fitMode as any,
+        isPlaceholder: unifiedAsset.config.isPlaceholder,
 
         // Filters
         filter: unifiedAsset.config.filter,
@@ -84,6 +86,13 @@ export function unifiedAssetToContextAsset(unifiedAsset: UnifiedAsset): Asset {
         // State
         isLocked: unifiedAsset.locked,
         isHidden: !unifiedAsset.visible,
+        groupId: unifiedAsset.config.groupId,
+
+        // Source size
+        originalDimensions: unifiedAsset.config.originalDimensions,
+        aspectRatio: unifiedAsset.config.originalDimensions
+            ? unifiedAsset.config.originalDimensions.width / unifiedAsset.config.originalDimensions.height
+            : undefined,
 
         // Timestamps
         createdAt: unifiedAsset.createdAt ? new Date(unifiedAsset.createdAt) : undefined,
@@ -191,6 +200,9 @@ export function unifiedPageToContextPage(unifiedPage: UnifiedPage, pageId: strin
         backgroundPosition: unifiedPage.background.imagePosition as 'top' | 'center' | 'bottom' | undefined,
         textLayers,
         isSpreadLayout: unifiedPage.isSpreadLayout,
+        section: unifiedPage.section,
+        masterPageId: unifiedPage.masterPageId,
+        masterOverrides: unifiedPage.masterOverrides,
         pageStyles: {
             backgroundColor: unifiedPage.background.color || '#ffffff',
             backgroundOpacity: unifiedPage.background.opacity || 1,
@@ -202,12 +214,35 @@ export function unifiedPageToContextPage(unifiedPage: UnifiedPage, pageId: strin
     return page;
 }
 
+/**
+ * Convert UnifiedMasterPage to context MasterPage (read like a page)
+ */
+export function unifiedMasterToContextMaster(unifiedMaster: UnifiedMasterPage): MasterPage {
+    const page = unifiedPageToContextPage({
+        pageNumber: 0,
+        background: unifiedMaster.background,
+        assets: unifiedMaster.assets,
+    }, unifiedMaster.id);
+
+    return {
+        id: unifiedMaster.id,
+        name: unifiedMaster.name,
+        backgroundColor: page.backgroundColor,
+        backgroundOpacity: page.backgroundOpacity,
+        backgroundImage: page.backgroundImage,
+        backgroundScale: page.backgroundScale,
+        backgroundPosition: page.backgroundPosition,
+        assets: page.assets,
+        textLayers: page.textLayers || [],
+    };
+}
+
 /**
  * Convert UnifiedAlbum to context Album
  */
 export function unifiedAlbumToContextAlbum(unifiedAlbum: UnifiedAlbum): Album {
     const pages = unifiedAlbum.pages.map((unifiedPage, index) =>
-        unifiedPageToContextPage(unifiedPage, `page-${index}`)
+        unifiedPageToContextPage(unifiedPage, unifiedPage.id || `page-${index}`)
     );
 
     const album: Album = {
@@ -218,6 +253,7 @@ export function unifiedAlbumToContextAlbum(unifiedAlbum: UnifiedAlbum): Album {
         category: unifiedAlbum.category,
         coverUrl: unifiedAlbum.coverImageUrl,
         pages,
+        masterPages: ((unifiedAlbum.config.masterPages || []) as UnifiedMasterPage[]).map(unifiedMasterToContextMaster),
         unplacedMedia: [], // Will be populated from config if exists
         hashtags: unifiedAlbum.hashtags || [],
         config: {
@@ -322,6 +358,15 @@ export function contextAssetToUnifiedAsset(asset: Asset): UnifiedAsset {
 
             // Opacity
             opacity: asset.opacity,
+
+            // Empty frame waiting for a photo
+            isPlaceholder: asset.isPlaceholder || undefined,
+
+            // Multi-select group
+            groupId: asset.groupId || undefined,
+
+            // Source size
+            originalDimensions: asset.originalDimensions,
         },
         createdAt: asset.createdAt?.toISOString(),
     };
@@ -372,6 +417,7 @@ export function contextPageToUnifiedPage(page: Page): UnifiedPage {
                         borderWidth: (textLayer.content as any)?.config?.borderWidth || (textLayer.content as any)?.borderWidth,
                         borderColor: (textLayer.content as any)?.config?.borderColor || (textLayer.content as any)?.borderColor,
                         borderRadius: (textLayer.content as any)?.config?.borderRadius || (textLayer.content as any)?.borderRadius,
+                        groupId: textLayer.content?.config?.groupId || undefined,
                     },
                 });
             }
@@ -398,17 +444,45 @@ export function contextPageToUnifiedPage(page: Page): UnifiedPage {
     }));
 
     const unifiedPage: UnifiedPage = {
+        id: page.id,
         pageNumber: page.pageNumber,
         background,
         layoutTemplate: page.layoutTemplate,
         layoutSlots,
         isSpreadLayout: page.isSpreadLayout,
+        section: page.section?.trim() || undefined,
+        masterPageId: page.masterPageId || undefined,
+        masterOverrides: page.masterPageId ? page.masterOverrides : undefined,
         assets,
     };
 
     return unifiedPage;
 }
 
+/**
+ * Convert context MasterPage to UnifiedMasterPage (written like a page)
+ */
+export function contextMasterToUnifiedMaster(master: MasterPage): UnifiedMasterPage {
+    const page = contextPageToUnifiedPage({
+        id: master.id,
+        pageNumber: 0,
+        assets: master.assets,
+        textLayers: master.textLayers,
+        backgroundColor: master.backgroundColor,
+        backgroundOpacity: master.backgroundOpacity,
+        backgroundImage: master.backgroundImage,
+        backgroundScale: master.backgroundScale,
+        backgroundPosition: master.backgroundPosition,
+    });
+
+    return {
+        id: master.id,
+        name: master.name,
+        background: page.background,
+        assets: page.assets,
+    };
+}
+
 /**
  * Convert context Album to UnifiedAlbum
  */
@@ -426,6 +500,7 @@ export function contextAlbumToUnifiedAlbum(album: Album): UnifiedAlbum {
         config: {
             ...album.config,
             unplacedMedia: album.unplacedMedia.map(contextAssetToUnifiedAsset),
+            masterPages: (album.masterPages || []).map(contextMasterToUnifiedMaster),
         },
         pages,
         totalPages: pages.length,
@@ -0,0 +1,345 @@
+import _ from 'lodash';
+import type { Album } from '../contexts/AlbumContext';
+import { contextAlbumToUnifiedAlbum } from './albumAdapters';
+import { getDefaultZIndex, type UnifiedAlbum, type UnifiedAsset, type UnifiedMasterPage, type UnifiedPage } from '../types/album';
+
+/**
+ * Album Archive
+ * Versioned backup of one album that can be imported into any family: a
+ * zip holding manifest.json (the UnifiedAlbum with its media URLs replaced
+ * by paths inside the archive, plus the album_layouts rows its pages use)
+ * and the media files under media/. Older archives are brought up to the
+ * current version by the migrations below before they are imported.
+ */
+
+// ============================================================================
+// FORMAT
+// ============================================================================
+
+export const ALBUM_ARCHIVE_FORMAT = 'family-album-archive';
+export const ALBUM_ARCHIVE_VERSION = 1;
+export const ALBUM_ARCHIVE_MANIFEST = 'manifest.json';
+
+export interface AlbumArchiveMedia {
+    path: string;           // File inside the archive, e.g. "media/0001.jpg"
+    url: string;            // Where the file was stored when exported
+    contentType: string;
+    size: number;
+}
+
+/**
+ * Row of `album_layouts` referenced by a page's layoutTemplate.
+ */
+export interface AlbumArchiveLayout {
+    id: string;
+    name: string;
+    category?: string | null;
+    image_count?: number | null;
+    aspect_ratio?: string | null;
+    is_spread?: boolean | null;
+    config: unknown;
+}
+
+export interface AlbumArchiveManifest {
+    format: typeof ALBUM_ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    album: UnifiedAlbum;    // Exported media URLs are replaced by media[].path
+    media: AlbumArchiveMedia[];
+    layouts: AlbumArchiveLayout[];
+}
+
+export interface MigratedAlbumArchive {
+    manifest: AlbumArchiveManifest;
+    fromVersion: number;
+}
+
+// Page templates the app generates itself rather than reading from album_layouts
+const BUILT_IN_TEMPLATES = new Set(['freeform', 'blank', 'cover-front', 'cover-back', 'draft-title', 'auto-arrange']);
+
+const REMOTE_URL = /^https?:\/\//i;
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function masterPagesOf(album: UnifiedAlbum): UnifiedMasterPage[] {
+    return album.config.masterPages || [];
+}
+
+function unplacedMediaOf(album: UnifiedAlbum): UnifiedAsset[] {
+    return album.config.unplacedMedia || [];
+}
+
+/**
+ * Every remote media URL the album uses: cover, page and master backgrounds,
+ * page and master assets, and photos waiting in the unplaced tray. Data URLs
+ * are already self-contained and stay in the manifest.
+ */
+export function collectAlbumMediaUrls(album: UnifiedAlbum): string[] {
+    const urls = [
+        album.coverImageUrl,
+        ...album.pages.flatMap(page => [page.background?.imageUrl, ...page.assets.map(asset => asset.url)]),
+        ...masterPagesOf(album).flatMap(master => [master.background?.imageUrl, ...master.assets.map(asset => asset.url)]),
+        ...unplacedMediaOf(album).map(asset => asset.url),
+    ];
+    return _.uniq(urls.filter((url): url is string => !!url && REMOTE_URL.test(url)));
+}
+
+/**
+ * album_layouts names or ids the pages were built from.
+ */
+export function collectAlbumLayoutRefs(album: UnifiedAlbum): string[] {
+    return _.uniq(album.pages
+        .map(page => page.layoutTemplate)
+        .filter((ref): ref is string => !!ref && !BUILT_IN_TEMPLATES.has(ref)));
+}
+
+/**
+ * Copy of the album with every string equal to a key of `urls` replaced.
+ * Matching whole values catches URLs in asset config (thumbnails, posters)
+ * as well as the known fields.
+ */
+export function replaceAlbumUrls(album: UnifiedAlbum, urls: Map<string, string>): UnifiedAlbum {
+    return _.cloneDeepWith(album, value =>
+        typeof value === 'string' && urls.has(value) ? urls.get(value) : undefined
+    );
+}
+
+export function buildAlbumManifest(
+    album: UnifiedAlbum,
+    media: AlbumArchiveMedia[],
+    layouts: AlbumArchiveLayout[],
+    exportedAt = new Date()
+): AlbumArchiveManifest {
+    return {
+        format: ALBUM_ARCHIVE_FORMAT,
+        version: ALBUM_ARCHIVE_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        album: replaceAlbumUrls(album, new Map(media.map(item => [item.url, item.path]))),
+        media,
+        layouts,
+    };
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Parsed archive JSON before migration; which fields exist depends on the version.
+ */
+interface RawArchive {
+    format?: unknown;
+    version?: unknown;
+    exportedAt?: string;
+    album?: unknown;
+    pages?: unknown;
+    familyId?: unknown;
+    media?: unknown;
+    layouts?: unknown;
+}
+
+type ArchiveMigration = (archive: RawArchive) => RawArchive;
+
+type AlbumSnapshot = Omit<Album, 'pages' | 'createdAt' | 'updatedAt'> & { createdAt?: string; updatedAt?: string };
+
+/**
+ * Version 0 is the JSON the app wrote before archives had a manifest: the
+ * `{ album, pages }` snapshot uploaded for shared links, or a bare
+ * UnifiedAlbum. Neither carries media files, so the importer downloads its
+ * URLs instead.
+ */
+function migrateFromSnapshot(archive: RawArchive): RawArchive {
+    let album: UnifiedAlbum;
+    if (archive.album && Array.isArray(archive.pages)) {
+        const snapshot = archive.album as AlbumSnapshot;
+        album = contextAlbumToUnifiedAlbum({
+            ...snapshot,
+            pages: archive.pages,
+            unplacedMedia: snapshot.unplacedMedia || [],
+            createdAt: new Date(snapshot.createdAt || Date.now()),
+            updatedAt: new Date(snapshot.updatedAt || Date.now()),
+        });
+    } else {
+        album = archive as unknown as UnifiedAlbum;
+    }
+
+    return {
+        format: ALBUM_ARCHIVE_FORMAT,
+        version: 1,
+        exportedAt: album.updatedAt || new Date().toISOString(),
+        album,
+        media: [],
+        layouts: [],
+    };
+}
+
+// Keyed by the version each migration upgrades from
+const MIGRATIONS: Record<number, ArchiveMigration> = {
+    0: migrateFromSnapshot,
+};
+
+function archiveVersion(raw: RawArchive) {
+    if (raw.format === ALBUM_ARCHIVE_FORMAT) {
+        if (typeof raw.version !== 'number') throw new Error('Album archive has no version');
+        return raw.version;
+    }
+    if ((raw.album && Array.isArray(raw.pages)) || (Array.isArray(raw.pages) && 'familyId' in raw)) return 0;
+    throw new Error('This file is not an album archive');
+}
+
+function normalizeAsset(asset: Partial<UnifiedAsset>): UnifiedAsset {
+    const type = asset.type || 'image';
+    return {
+        ...asset,
+        id: asset.id || crypto.randomUUID(),
+        type,
+        position: asset.position || { x: 0, y: 0 },
+        size: asset.size || { width: 20, height: 20 },
+        transform: asset.transform || { rotation: 0, scale: 1 },
+        slotId: asset.slotId ?? null,
+        zIndex: asset.zIndex ?? getDefaultZIndex(type),
+        locked: asset.locked ?? false,
+        visible: asset.visible ?? true,
+        config: asset.config || {},
+    };
+}
+
+/**
+ * Fills fields that archives written by older builds may lack, so the rest
+ * of the app can rely on the UnifiedAlbum shape.
+ */
+function normalizeAlbum(album: UnifiedAlbum): UnifiedAlbum {
+    const pages: UnifiedPage[] = (album.pages || []).map((page, index) => ({
+        ...page,
+        pageNumber: page.pageNumber ?? index + 1,
+        background: page.background || { type: 'color', color: '#ffffff' },
+        assets: (page.assets || []).map(normalizeAsset),
+    }));
+    const config = { ...(album.config || {}) };
+    if (config.masterPages) {
+        config.masterPages = (config.masterPages as UnifiedMasterPage[]).map(master => ({
+            ...master,
+            background: master.background || { type: 'color', color: '#ffffff' },
+            assets: (master.assets || []).map(normalizeAsset),
+        }));
+    }
+    if (config.unplacedMedia) config.unplacedMedia = (config.unplacedMedia as UnifiedAsset[]).map(normalizeAsset);
+
+    return {
+        ...album,
+        title: album.title || 'Imported Album',
+        config,
+        pages,
+        totalPages: pages.length,
+        isPublished: !!album.isPublished,
+    };
+}
+
+/**
+ * Current-version manifest from parsed archive JSON of any known version.
+ * Throws for files that are not album archives and for archives written by
+ * a newer version of the app.
+ */
+export function migrateAlbumArchive(raw: unknown): MigratedAlbumArchive {
+    if (!_.isPlainObject(raw)) throw new Error('This file is not an album archive');
+    let archive = raw as RawArchive;
+    const fromVersion = archiveVersion(archive);
+    if (fromVersion > ALBUM_ARCHIVE_VERSION) {
+        throw new Error(`This archive was made by a newer version of the app (format ${fromVersion}). Update the app to import it.`);
+    }
+
+    for (let version = fromVersion; version < ALBUM_ARCHIVE_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new Error(`Cannot upgrade album archive format ${version}`);
+        archive = migrate(archive);
+    }
+
+    if (!archive.album || typeof archive.album !== 'object') throw new Error('Album archive has no album');
+    return {
+        manifest: {
+            format: ALBUM_ARCHIVE_FORMAT,
+            version: ALBUM_ARCHIVE_VERSION,
+            exportedAt: archive.exportedAt || new Date().toISOString(),
+            album: normalizeAlbum(archive.album as UnifiedAlbum),
+            media: Array.isArray(archive.media) ? archive.media as AlbumArchiveMedia[] : [],
+            layouts: Array.isArray(archive.layouts) ? archive.layouts as AlbumArchiveLayout[] : [],
+        },
+        fromVersion,
+    };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+export interface AlbumImportTarget {
+    id: string;             // Row created for the import
+    familyId: string;
+    creatorId?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * The archived album as a new album of the target family: fresh ids for
+ * items, groups and master pages (with the pages' references to them
+ * rewritten), unpublished, and detached from the source family's event.
+ */
+export function reassignAlbumIds(
+    album: UnifiedAlbum,
+    target: AlbumImportTarget,
+    newId: () => string = () => crypto.randomUUID()
+): UnifiedAlbum {
+    const ids = new Map<string, string>();
+    const fresh = (id: string) => {
+        if (!ids.has(id)) ids.set(id, newId());
+        return ids.get(id)!;
+    };
+
+    const remapAsset = (asset: UnifiedAsset): UnifiedAsset => ({
+        ...asset,
+        id: fresh(asset.id),
+        config: asset.config.groupId ? { ...asset.config, groupId: fresh(asset.config.groupId) } : asset.config,
+        createdAt: undefined,
+        updatedAt: undefined,
+    });
+
+    // Masters first so pages can look up their new ids
+    const masterPages = masterPagesOf(album).map(master => ({
+        ...master,
+        id: fresh(master.id),
+        assets: master.assets.map(remapAsset),
+    }));
+
+    const pages = album.pages.map(page => ({
+        ...page,
+        masterPageId: page.masterPageId ? ids.get(page.masterPageId) ?? page.masterPageId : undefined,
+        masterOverrides: page.masterOverrides?.hiddenItemIds
+            ? { ...page.masterOverrides, hiddenItemIds: page.masterOverrides.hiddenItemIds.map(id => ids.get(id) ?? id) }
+            : page.masterOverrides,
+        assets: page.assets.map(remapAsset),
+        version: undefined,
+        updatedAt: undefined,
+    }));
+
+    const config = _.omit(album.config, 'draftSource');
+    if (album.config.masterPages) config.masterPages = masterPages;
+    if (album.config.unplacedMedia) config.unplacedMedia = unplacedMediaOf(album).map(remapAsset);
+
+    return {
+        ...album,
+        id: target.id,
+        familyId: target.familyId,
+        creatorId: target.creatorId,
+        eventId: undefined,
+        config,
+        pages,
+        totalPages: pages.length,
+        isPublished: false,
+        version: undefined,
+        createdAt: target.createdAt,
+        updatedAt: target.updatedAt,
+    };
+}
@@ -0,0 +1,267 @@
+import type { Page } from '../contexts/AlbumContext';
+import { updateAssetOnPage, type AssetPatch } from './albumOperations';
+
+/**
+ * Album Arrange
+ * Pure helpers behind multi-select: which items on a page can be selected
+ * together, group expansion, and the align / distribute / match-size and
+ * group / ungroup commands. Commands return per-item patches so the caller
+ * can apply them as a single undo step and broadcast them per asset.
+ */
+
+/**
+ * Freely positioned item on a page: a freeform asset or a text layer.
+ * Slotted content is positioned by its layout box and is not arrangeable.
+ */
+export interface ArrangeItem {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    groupId?: string | null;
+    isLocked?: boolean;
+    isHidden?: boolean;
+}
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type MatchDimension = 'width' | 'height' | 'both';
+
+export type ArrangeCommand =
+    | { type: 'align'; edge: AlignEdge }
+    | { type: 'distribute'; axis: DistributeAxis }
+    | { type: 'matchSize'; dimension: MatchDimension }
+    | { type: 'group' }
+    | { type: 'ungroup' };
+
+export type ItemPatches = Record<string, AssetPatch>;
+
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export function getArrangeItems(page: Page): ArrangeItem[] {
+    const assets = page.assets
+        .filter(a => a.slotId === null || a.slotId === undefined)
+        .map(a => ({
+            id: a.id,
+            x: a.x,
+            y: a.y,
+            width: a.width,
+            height: a.height,
+            groupId: a.groupId,
+            isLocked: a.isLocked,
+            isHidden: a.isHidden,
+        }));
+    const textLayers = (page.textLayers || []).map(layer => ({
+        id: layer.id,
+        x: layer.left,
+        y: layer.top,
+        width: layer.width,
+        height: layer.height,
+        groupId: layer.content?.config?.groupId as string | null | undefined,
+        isLocked: !!layer.content?.config?.isLocked,
+        isHidden: !!layer.content?.config?.isHidden,
+    }));
+    return [...assets, ...textLayers];
+}
+
+export function getBounds(items: ArrangeItem[]): Bounds | null {
+    if (items.length === 0) return null;
+    const left = Math.min(...items.map(i => i.x));
+    const top = Math.min(...items.map(i => i.y));
+    const right = Math.max(...items.map(i => i.x + i.width));
+    const bottom = Math.max(...items.map(i => i.y + i.height));
+    return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Add every member of any group touched by `ids`, so groups select and
+ * move as one.
+ */
+export function expandToGroups(items: ArrangeItem[], ids: string[]): string[] {
+    const result = [...ids];
+    const groups = new Set(items.filter(i => ids.includes(i.id) && i.groupId).map(i => i.groupId));
+    items.forEach(item => {
+        if (item.groupId && groups.has(item.groupId) && !result.includes(item.id)) result.push(item.id);
+    });
+    return result;
+}
+
+/**
+ * Items whose bounds intersect a marquee rectangle (page percentages).
+ */
+export function itemsInRect(items: ArrangeItem[], rect: Bounds): string[] {
+    return items
+        .filter(i => !i.isHidden && !i.isLocked)
+        .filter(i =>
+            i.x < rect.x + rect.width && i.x + i.width > rect.x &&
+            i.y < rect.y + rect.height && i.y + i.height > rect.y
+        )
+        .map(i => i.id);
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Units that move together: each group is one unit, every other item its own.
+ */
+function arrangeUnits(items: ArrangeItem[]): ArrangeItem[][] {
+    const units = new Map<string, ArrangeItem[]>();
+    items.forEach(item => {
+        const key = item.groupId ? `group:${item.groupId}` : `item:${item.id}`;
+        units.set(key, [...(units.get(key) || []), item]);
+    });
+    return Array.from(units.values());
+}
+
+function shiftUnit(patches: ItemPatches, unit: ArrangeItem[], dx: number, dy: number) {
+    unit.forEach(item => {
+        if (dx === 0 && dy === 0) return;
+        patches[item.id] = { x: item.x + dx, y: item.y + dy };
+    });
+}
+
+/**
+ * Align to the selection bounds, or to the page when only one unit is selected.
+ */
+function align(items: ArrangeItem[], edge: AlignEdge): ItemPatches {
+    const units = arrangeUnits(items);
+    const target = units.length > 1 ? getBounds(items)! : { x: 0, y: 0, width: 100, height: 100 };
+    const patches: ItemPatches = {};
+
+    units.forEach(unit => {
+        const b = getBounds(unit)!;
+        let dx = 0;
+        let dy = 0;
+        if (edge === 'left') dx = target.x - b.x;
+        if (edge === 'center') dx = (target.x + target.width / 2) - (b.x + b.width / 2);
+        if (edge === 'right') dx = (target.x + target.width) - (b.x + b.width);
+        if (edge === 'top') dy = target.y - b.y;
+        if (edge === 'middle') dy = (target.y + target.height / 2) - (b.y + b.height / 2);
+        if (edge === 'bottom') dy = (target.y + target.height) - (b.y + b.height);
+        shiftUnit(patches, unit, dx, dy);
+    });
+    return patches;
+}
+
+/**
+ * Equal gaps between units, keeping the outermost two in place.
+ */
+function distribute(items: ArrangeItem[], axis: DistributeAxis): ItemPatches {
+    const units = arrangeUnits(items).map(unit => ({ unit, bounds: getBounds(unit)! }));
+    if (units.length < 3) return {};
+
+    const start = (b: Bounds) => axis === 'horizontal' ? b.x : b.y;
+    const size = (b: Bounds) => axis === 'horizontal' ? b.width : b.height;
+    units.sort((a, b) => start(a.bounds) - start(b.bounds));
+
+    const first = units[0].bounds;
+    const last = units[units.length - 1].bounds;
+    const span = (start(last) + size(last)) - start(first);
+    const occupied = units.reduce((sum, u) => sum + size(u.bounds), 0);
+    const gap = (span - occupied) / (units.length - 1);
+
+    const patches: ItemPatches = {};
+    let cursor = start(first);
+    units.forEach(({ unit, bounds }) => {
+        const delta = cursor - start(bounds);
+        shiftUnit(patches, unit, axis === 'horizontal' ? delta : 0, axis === 'vertical' ? delta : 0);
+        cursor += size(bounds) + gap;
+    });
+    return patches;
+}
+
+/**
+ * Resize every item to the reference item, keeping each item's center.
+ */
+function matchSize(items: ArrangeItem[], dimension: MatchDimension, referenceId?: string): ItemPatches {
+    const reference = items.find(i => i.id === referenceId) || items[0];
+    const patches: ItemPatches = {};
+    items.forEach(item => {
+        if (item.id === reference.id) return;
+        const width = dimension === 'height' ? item.width : reference.width;
+        const height = dimension === 'width' ? item.height : reference.height;
+        if (width === item.width && height === item.height) return;
+        patches[item.id] = {
+            x: item.x + (item.width - width) / 2,
+            y: item.y + (item.height - height) / 2,
+            width,
+            height,
+        };
+    });
+    return patches;
+}
+
+export function createGroupId() {
+    return `group-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/**
+ * Patches for one page. `items` are the selected items on that page;
+ * locked items are left untouched.
+ */
+export function arrangeItems(
+    items: ArrangeItem[],
+    command: ArrangeCommand,
+    options: { referenceId?: string; groupId?: string } = {}
+): ItemPatches {
+    const movable = items.filter(i => !i.isLocked);
+    switch (command.type) {
+        case 'align':
+            return movable.length > 0 ? align(movable, command.edge) : {};
+        case 'distribute':
+            return distribute(movable, command.axis);
+        case 'matchSize':
+            return movable.length > 1 ? matchSize(movable, command.dimension, options.referenceId) : {};
+        case 'group': {
+            if (items.length < 2) return {};
+            const groupId = options.groupId || createGroupId();
+            return Object.fromEntries(items.map(i => [i.id, { groupId }]));
+        }
+        case 'ungroup':
+            return Object.fromEntries(items.filter(i => i.groupId).map(i => [i.id, { groupId: null }]));
+    }
+}
+
+export function applyItemPatches(page: Page, patches: ItemPatches): Page {
+    return Object.entries(patches).reduce((p, [id, patch]) => updateAssetOnPage(p, id, patch), page);
+}
+
+const ALIGN_LABELS: Record<AlignEdge, string> = {
+    left: 'Aligned left edges',
+    center: 'Aligned centers',
+    right: 'Aligned right edges',
+    top: 'Aligned top edges',
+    middle: 'Aligned middles',
+    bottom: 'Aligned bottom edges',
+};
+
+export function describeArrangeCommand(command: ArrangeCommand, count: number): string {
+    switch (command.type) {
+        case 'align': return `${ALIGN_LABELS[command.edge]} of ${count} items`;
+        case 'distribute': return `Distributed ${count} items ${command.axis === 'horizontal' ? 'horizontally' : 'vertically'}`;
+        case 'matchSize': return `Matched ${command.dimension === 'both' ? 'size' : command.dimension} of ${count} items`;
+        case 'group': return `Grouped ${count} items`;
+        case 'ungroup': return `Ungrouped ${count} items`;
+    }
+}
+
+/**
+ * Parse the action strings used by FloatingToolbar and ContextMenu
+ * ('align-left', 'distribute-horizontal', 'match-width', 'group', ...).
+ */
+export function arrangeCommandFromAction(action: string): ArrangeCommand | null {
+    const [verb, arg] = action.split('-');
+    if (verb === 'align' && Object.keys(ALIGN_LABELS).includes(arg)) return { type: 'align', edge: arg as AlignEdge };
+    if (verb === 'distribute' && (arg === 'horizontal' || arg === 'vertical')) return { type: 'distribute', axis: arg };
+    if (verb === 'match' && (arg === 'width' || arg === 'height' || arg === 'both')) return { type: 'matchSize', dimension: arg };
+    if (action === 'group' || action === 'ungroup') return { type: action };
+    return null;
+}
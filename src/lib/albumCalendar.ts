@@ -0,0 +1,261 @@
+import type { LayoutBox, Page } from '../contexts/AlbumContext';
+import { draftAsset, textLayer, type DraftMedia, type DraftMediaSource } from './albumDraft';
+
+/**
+ * Album Calendar
+ * The pages of a printable wall calendar, built as an ordinary album so it
+ * can be tweaked in the editor and printed like any other: an optional
+ * cover, then for each of twelve months a photo page with a picture taken
+ * in that month (of any year) and a grid page with the days marked with
+ * birthdays, anniversaries and past family events. Pure and deterministic.
+ */
+
+export type CalendarMarkKind = 'birthday' | 'anniversary' | 'event';
+
+export interface CalendarMark {
+    date: string;               // YYYY-MM-DD of the original event
+    title: string;
+    kind: CalendarMarkKind;
+}
+
+export interface CalendarInput {
+    title: string;
+    year: number;
+    startMonth: number;         // 0-11; the calendar runs twelve months from here
+    includeCover: boolean;
+    weekStartsOn: 0 | 1;        // Sunday or Monday
+    photos: DraftMedia[];
+    marks: CalendarMark[];
+}
+
+export interface CalendarMonth {
+    year: number;
+    month: number;              // 0-11
+}
+
+export const CALENDAR_MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A day cell lists this many marks, then "+n more"
+const MAX_MARKS_PER_DAY = 3;
+
+const MARK_ORDER: Record<CalendarMarkKind, number> = { birthday: 0, anniversary: 1, event: 2 };
+
+const MARK_COLORS: Record<CalendarMarkKind, string> = {
+    birthday: '#FFE1DE',
+    anniversary: '#FBEFD5',
+    event: '#E4E8F7',
+};
+
+// Curated media first when several photos were taken in the same month
+const SOURCE_ORDER: Record<DraftMediaSource, number> = { event: 0, stack: 1, library: 2 };
+
+const INK = '#2d2a26';
+const WEEKEND_INK = '#b5523b';
+
+// Grid page, in page percentages
+const GRID = { left: 5, top: 22, width: 90, height: 73 };
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * Birthdays and anniversaries come back every year; anything else is a past
+ * event, shown on its day with the year it happened.
+ */
+export function calendarMarkKind(category: string | null | undefined, title = ''): CalendarMarkKind {
+    const text = `${category || ''} ${title}`;
+    if (/birthday/i.test(text)) return 'birthday';
+    if (/anniversary|wedding/i.test(text)) return 'anniversary';
+    return 'event';
+}
+
+export function calendarMonths(year: number, startMonth: number): CalendarMonth[] {
+    return Array.from({ length: 12 }, (_, index) => ({
+        year: year + Math.floor((startMonth + index) / 12),
+        month: (startMonth + index) % 12,
+    }));
+}
+
+function daysInMonth(year: number, month: number) {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Weeks of the month, each seven days long, with null outside the month.
+ */
+export function monthGrid(year: number, month: number, weekStartsOn: 0 | 1 = 0): (number | null)[][] {
+    const offset = (new Date(Date.UTC(year, month, 1)).getUTCDay() - weekStartsOn + 7) % 7;
+    const cells: (number | null)[] = [
+        ...Array.from({ length: offset }, () => null),
+        ...Array.from({ length: daysInMonth(year, month) }, (_, index) => index + 1),
+    ];
+    while (cells.length % 7 !== 0) cells.push(null);
+    return Array.from({ length: cells.length / 7 }, (_, week) => cells.slice(week * 7, week * 7 + 7));
+}
+
+function markLabel(mark: CalendarMark, eventYear: number, year: number) {
+    if (mark.kind === 'birthday') return mark.title;
+    const years = year - eventYear;
+    if (mark.kind === 'anniversary') return years > 0 ? `${mark.title} (${years} yrs)` : mark.title;
+    return years > 0 ? `${mark.title}, ${eventYear}` : mark.title;
+}
+
+/**
+ * What falls on a day of the calendar: marks from that year or earlier on
+ * the same month and day. February 29 is kept on the 28th in other years.
+ */
+export function marksOnDay(marks: CalendarMark[], year: number, month: number, day: number): { kind: CalendarMarkKind; label: string }[] {
+    return marks
+        .map(mark => {
+            const [eventYear, eventMonth, eventDay] = mark.date.slice(0, 10).split('-').map(Number);
+            if (!eventYear || eventYear > year || eventMonth - 1 !== month) return null;
+            if (Math.min(eventDay, daysInMonth(year, month)) !== day) return null;
+            return { kind: mark.kind, label: markLabel(mark, eventYear, year), date: mark.date };
+        })
+        .filter((mark): mark is NonNullable<typeof mark> => mark !== null)
+        .sort((a, b) => MARK_ORDER[a.kind] - MARK_ORDER[b.kind] || a.date.localeCompare(b.date) || a.label.localeCompare(b.label))
+        .map(({ kind, label }) => ({ kind, label }));
+}
+
+// ============================================================================
+// PHOTOS
+// ============================================================================
+
+/**
+ * One photo per month, taken in that month of any year: event and stack
+ * photos before library uploads, then the most recent. A photo is used once.
+ */
+export function pickMonthPhotos(photos: DraftMedia[], months: CalendarMonth[]): (DraftMedia | undefined)[] {
+    const candidates = photos
+        .filter(photo => photo.type === 'image' && photo.url && /^\d{4}-\d{2}/.test(photo.takenAt))
+        .sort((a, b) =>
+            SOURCE_ORDER[a.source] - SOURCE_ORDER[b.source] ||
+            b.takenAt.localeCompare(a.takenAt) ||
+            a.key.localeCompare(b.key));
+    const used = new Set<string>();
+    return months.map(({ month }) => {
+        const photo = candidates.find(candidate => !used.has(candidate.url) && Number(candidate.takenAt.slice(5, 7)) - 1 === month);
+        if (photo) used.add(photo.url);
+        return photo;
+    });
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+function pageOf(pageNumber: number, layoutTemplate: string, layoutConfig: LayoutBox[], photo: DraftMedia | undefined, textLayers: LayoutBox[]): Page {
+    return {
+        id: `calendar-page-${pageNumber}`,
+        pageNumber,
+        layoutTemplate,
+        layoutConfig,
+        assets: photo ? [draftAsset(photo, `calendar-p${pageNumber}-a1`, 0)] : [],
+        backgroundColor: '#ffffff',
+        textLayers,
+        isSpreadLayout: false,
+    };
+}
+
+function describeMonths(months: CalendarMonth[]) {
+    const first = months[0];
+    const last = months[months.length - 1];
+    if (first.month === 0) return String(first.year);
+    return `${CALENDAR_MONTH_NAMES[first.month]} ${first.year} – ${CALENDAR_MONTH_NAMES[last.month]} ${last.year}`;
+}
+
+function coverPage(input: CalendarInput, months: CalendarMonth[], photo: DraftMedia | undefined): Page {
+    const slots: LayoutBox[] = [{ id: 'calendar-cover-slot', role: 'slot', left: 8, top: 6, width: 84, height: 64, zIndex: 0 }];
+    return pageOf(1, 'calendar-cover', slots, photo, [
+        textLayer('calendar-p1-title', { left: 8, top: 73, width: 84, height: 12 }, input.title, { fontSize: 44, fontFamily: 'Playfair Display', color: INK, textColor: INK }),
+        textLayer('calendar-p1-year', { left: 8, top: 86, width: 84, height: 7 }, describeMonths(months), { fontSize: 20, letterSpacing: 4, color: INK, textColor: INK }),
+    ]);
+}
+
+function photoPage(pageNumber: number, photo: DraftMedia | undefined): Page {
+    // Full bleed; a month without photos keeps the empty slot to drop one into
+    const slots: LayoutBox[] = [{ id: 'calendar-photo-slot', role: 'slot', left: 0, top: 0, width: 100, height: 100, zIndex: 0 }];
+    return pageOf(pageNumber, 'calendar-photo', slots, photo, []);
+}
+
+function gridPage(pageNumber: number, { year, month }: CalendarMonth, input: CalendarInput): Page {
+    const weeks = monthGrid(year, month, input.weekStartsOn);
+    const cellWidth = GRID.width / 7;
+    const rowHeight = GRID.height / weeks.length;
+    const id = (name: string) => `calendar-p${pageNumber}-${name}`;
+
+    const layers: LayoutBox[] = [
+        textLayer(id('month'), { left: GRID.left, top: 4, width: GRID.width, height: 11 }, `${CALENDAR_MONTH_NAMES[month]} ${year}`, { fontSize: 40, fontFamily: 'Playfair Display', color: INK, textColor: INK }),
+    ];
+    for (let column = 0; column < 7; column++) {
+        const weekday = (column + input.weekStartsOn) % 7;
+        layers.push(textLayer(id(`weekday-${weekday}`), { left: GRID.left + column * cellWidth, top: 16.5, width: cellWidth, height: 5 }, WEEKDAY_NAMES[weekday].toUpperCase(), {
+            fontSize: 11,
+            fontWeight: 'bold',
+            letterSpacing: 2,
+            padding: 2,
+            color: weekday === 0 ? WEEKEND_INK : '#8a8580',
+            textColor: weekday === 0 ? WEEKEND_INK : '#8a8580',
+        }));
+    }
+
+    weeks.forEach((week, row) => week.forEach((day, column) => {
+        if (day === null) return;
+        const weekday = (column + input.weekStartsOn) % 7;
+        const left = GRID.left + column * cellWidth;
+        const top = GRID.top + row * rowHeight;
+        const numberHeight = rowHeight * 0.34;
+        const color = weekday === 0 ? WEEKEND_INK : INK;
+        layers.push(textLayer(id(`day-${day}`), { left, top, width: cellWidth, height: numberHeight }, String(day), {
+            fontSize: 16,
+            fontWeight: 'bold',
+            textAlign: 'left',
+            padding: 4,
+            color,
+            textColor: color,
+        }));
+
+        const marks = marksOnDay(input.marks, year, month, day);
+        if (marks.length === 0) return;
+        const lines = marks.slice(0, MAX_MARKS_PER_DAY).map(mark => mark.label);
+        if (marks.length > MAX_MARKS_PER_DAY) lines.push(`+${marks.length - MAX_MARKS_PER_DAY} more`);
+        layers.push(textLayer(id(`marks-${day}`), { left: left + 0.3, top: top + numberHeight, width: cellWidth - 0.6, height: rowHeight - numberHeight - 0.6 }, lines.join('\n'), {
+            fontSize: 9,
+            lineHeight: 1.2,
+            padding: 3,
+            borderRadius: 4,
+            textBackgroundColor: MARK_COLORS[marks[0].kind],
+            color: INK,
+            textColor: INK,
+        }));
+    }));
+
+    return pageOf(pageNumber, 'calendar-grid', [], undefined, layers);
+}
+
+/**
+ * All pages of the calendar: the cover when wanted, then a photo page and
+ * a grid page per month.
+ */
+export function buildCalendarPages(input: CalendarInput): Page[] {
+    const months = calendarMonths(input.year, input.startMonth);
+    const photos = pickMonthPhotos(input.photos, months);
+    const pages: Page[] = [];
+    if (input.includeCover) {
+        // The cover uses a photo the months did not take, or repeats the first month's
+        const used = new Set(photos.map(photo => photo?.url));
+        const spare = input.photos.find(photo => photo.type === 'image' && !used.has(photo.url));
+        pages.push(coverPage(input, months, spare || photos.find(Boolean)));
+    }
+    months.forEach((month, index) => {
+        pages.push(photoPage(pages.length + 1, photos[index]));
+        pages.push(gridPage(pages.length + 1, month, input));
+    });
+    return pages;
+}
@@ -0,0 +1,310 @@
+import type { AlbumConfig, Asset, LayoutBox, Page } from '../contexts/AlbumContext';
+import { autoLayoutToLayoutConfig, generateAutoLayouts } from './autoArrange';
+
+/**
+ * Album Draft
+ * Turns a pile of event, stack and library media into the pages of a draft
+ * album: a title page, then the media in chronological order, a day at a
+ * time, each page on the `album_layouts` template that crops its photos the
+ * least and with a caption box underneath. Pure and deterministic: the same
+ * media and layouts always give the same pages, ids included.
+ */
+
+export type DraftMediaSource = 'event' | 'stack' | 'library';
+
+export interface DraftMedia {
+    key: string;                // Stable identity, e.g. "stack:<id>:<itemId>"
+    url: string;
+    type: 'image' | 'video';
+    takenAt: string;            // ISO date or timestamp; only the day is used for grouping
+    source: DraftMediaSource;
+    caption?: string;
+    aspectRatio?: number;       // width / height when known
+}
+
+/**
+ * Row of `album_layouts`; `config` is the list of slot boxes in page percentages.
+ */
+export interface DraftLayout {
+    id: string;
+    name: string;
+    image_count: number;
+    target_ratio: string;
+    config: unknown;
+}
+
+export interface DraftAlbumInput {
+    title: string;
+    subtitle?: string;
+    media: DraftMedia[];
+    layouts: DraftLayout[];
+    dimensions: AlbumConfig['dimensions'];
+    maxPhotosPerPage?: number;
+}
+
+const DEFAULT_MAX_PHOTOS_PER_PAGE = 4;
+
+// Photos of unknown shape are treated as ordinary 4:3 prints
+const DEFAULT_ASPECT_RATIO = 4 / 3;
+
+// Content pages keep the bottom of the page for the caption box
+const PHOTO_AREA_HEIGHT = 88;
+
+const SOURCE_ORDER: Record<DraftMediaSource, number> = { event: 0, stack: 1, library: 2 };
+
+// ============================================================================
+// MEDIA
+// ============================================================================
+
+/**
+ * One entry per URL (the first source wins), oldest first. Ties keep event
+ * media before stack and library media, then fall back to the key.
+ */
+export function orderDraftMedia(media: DraftMedia[]): DraftMedia[] {
+    const seen = new Set<string>();
+    return [...media]
+        .sort((a, b) =>
+            a.takenAt.localeCompare(b.takenAt) ||
+            SOURCE_ORDER[a.source] - SOURCE_ORDER[b.source] ||
+            a.key.localeCompare(b.key))
+        .filter(item => {
+            if (!item.url || seen.has(item.url)) return false;
+            seen.add(item.url);
+            return true;
+        });
+}
+
+function dayOf(item: DraftMedia) {
+    return item.takenAt.slice(0, 10);
+}
+
+function formatDay(day: string) {
+    const date = new Date(`${day}T00:00:00Z`);
+    if (isNaN(date.getTime())) return day;
+    return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Chronological pages: each day is split evenly into pages of at most
+ * `maxPerPage`; a day with a single photo joins the previous page when it
+ * has room, so sparse days do not each get a page.
+ */
+export function groupDraftMedia(media: DraftMedia[], maxPerPage = DEFAULT_MAX_PHOTOS_PER_PAGE): DraftMedia[][] {
+    const days: DraftMedia[][] = [];
+    media.forEach(item => {
+        const last = days[days.length - 1];
+        if (last && dayOf(last[0]) === dayOf(item)) last.push(item);
+        else days.push([item]);
+    });
+
+    const pages: DraftMedia[][] = [];
+    days.forEach(day => {
+        const previous = pages[pages.length - 1];
+        if (day.length === 1 && previous && previous.length < maxPerPage) {
+            previous.push(day[0]);
+            return;
+        }
+        const pageCount = Math.ceil(day.length / maxPerPage);
+        const base = Math.floor(day.length / pageCount);
+        let start = 0;
+        for (let i = 0; i < pageCount; i++) {
+            const size = base + (i < day.length % pageCount ? 1 : 0);
+            pages.push(day.slice(start, start + size));
+            start += size;
+        }
+    });
+    return pages;
+}
+
+// ============================================================================
+// LAYOUTS
+// ============================================================================
+
+function layoutBoxes(layout: DraftLayout): { left: number; top: number; width: number; height: number }[] {
+    const config = typeof layout.config === 'string' ? JSON.parse(layout.config) : layout.config;
+    return Array.isArray(config) ? config : [];
+}
+
+function ratioOf(item: DraftMedia) {
+    return item.aspectRatio && item.aspectRatio > 0 ? item.aspectRatio : DEFAULT_ASPECT_RATIO;
+}
+
+function cropFraction(photoRatio: number, frameRatio: number) {
+    return 1 - Math.min(photoRatio / frameRatio, frameRatio / photoRatio);
+}
+
+/**
+ * Pair photos with slots by shape rank (widest photo in the widest slot)
+ * and return the slot index per photo with the average crop.
+ */
+function matchSlots(
+    photos: DraftMedia[],
+    boxes: { width: number; height: number }[],
+    dimensions: AlbumConfig['dimensions']
+) {
+    const slotRatios = boxes.map(box => (box.width * dimensions.width) / (box.height * dimensions.height));
+    const slotOrder = slotRatios.map((_, i) => i).sort((a, b) => slotRatios[a] - slotRatios[b] || a - b);
+    const photoOrder = photos.map((_, i) => i).sort((a, b) => ratioOf(photos[a]) - ratioOf(photos[b]) || a - b);
+
+    const slotFor: number[] = [];
+    let crop = 0;
+    photoOrder.forEach((photoIndex, rank) => {
+        const slot = slotOrder[rank];
+        slotFor[photoIndex] = slot;
+        crop += cropFraction(ratioOf(photos[photoIndex]), slotRatios[slot]);
+    });
+    return { slotFor, averageCrop: crop / photos.length };
+}
+
+/**
+ * Single-page template with exactly as many slots as photos that crops them
+ * the least; ties go to the layout name so the choice is stable.
+ */
+export function pickDraftLayout(photos: DraftMedia[], layouts: DraftLayout[], dimensions: AlbumConfig['dimensions']) {
+    const candidates = layouts
+        .filter(layout => layout.image_count === photos.length && layout.target_ratio !== 'landscape')
+        .map(layout => {
+            const boxes = layoutBoxes(layout);
+            return boxes.length === photos.length ? { layout, boxes, ...matchSlots(photos, boxes, dimensions) } : null;
+        })
+        .filter((c): c is NonNullable<typeof c> => c !== null)
+        .sort((a, b) =>
+            a.averageCrop - b.averageCrop ||
+            a.layout.name.localeCompare(b.layout.name) ||
+            a.layout.id.localeCompare(b.layout.id));
+    return candidates[0] || null;
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+export function draftAsset(item: DraftMedia, id: string, slotId: number): Asset {
+    return {
+        id,
+        type: item.type,
+        url: item.url,
+        x: 0, y: 0, width: 100, height: 100,
+        rotation: 0,
+        zIndex: 10,
+        slotId,
+        fitMode: 'cover',
+        aspectRatio: item.aspectRatio,
+    };
+}
+
+export function textLayer(id: string, box: { left: number; top: number; width: number; height: number }, text: string, style: Record<string, string | number>): LayoutBox {
+    return {
+        id,
+        role: 'text',
+        ...box,
+        zIndex: 50,
+        content: {
+            type: 'text',
+            text,
+            zoom: 1,
+            x: 50,
+            y: 50,
+            rotation: 0,
+            config: {
+                fontFamily: 'Outfit',
+                color: '#2d2a26',
+                textColor: '#2d2a26',
+                textAlign: 'center',
+                fontWeight: 'normal',
+                textDecoration: 'none',
+                fontStyle: 'normal',
+                ...style,
+            },
+        },
+    };
+}
+
+function titlePage(input: DraftAlbumInput, cover: DraftMedia | undefined): Page {
+    const layoutConfig: LayoutBox[] = cover
+        ? [{ id: 'draft-title-slot', role: 'slot', left: 10, top: 8, width: 80, height: 60, zIndex: 0 }]
+        : [];
+    const textLayers = [
+        textLayer('draft-title-heading', { left: 10, top: cover ? 72 : 38, width: 80, height: 12 }, input.title, { fontSize: 48, fontFamily: 'Playfair Display' }),
+    ];
+    if (input.subtitle) {
+        textLayers.push(textLayer('draft-title-subtitle', { left: 10, top: cover ? 85 : 52, width: 80, height: 6 }, input.subtitle, { fontSize: 18, fontStyle: 'italic' }));
+    }
+    return {
+        id: 'draft-page-1',
+        pageNumber: 1,
+        layoutTemplate: 'draft-title',
+        layoutConfig,
+        assets: cover ? [draftAsset(cover, 'draft-p1-a1', 0)] : [],
+        backgroundColor: '#ffffff',
+        textLayers,
+        isSpreadLayout: false,
+    };
+}
+
+function caption(photos: DraftMedia[]) {
+    const days = Array.from(new Set(photos.map(dayOf)));
+    const when = days.length > 1 ? `${formatDay(days[0])} – ${formatDay(days[days.length - 1])}` : formatDay(days[0]);
+    const notes = Array.from(new Set(photos.map(p => p.caption?.trim()).filter((c): c is string => !!c)));
+    return notes.length > 0 ? `${when} · ${notes.join(' · ')}` : when;
+}
+
+export function contentPage(photos: DraftMedia[], pageNumber: number, input: DraftAlbumInput): Page {
+    const picked = pickDraftLayout(photos, input.layouts, input.dimensions);
+
+    let boxes: { left: number; top: number; width: number; height: number }[];
+    let slotFor: number[];
+    let layoutTemplate: string;
+    if (picked) {
+        boxes = picked.boxes;
+        slotFor = picked.slotFor;
+        layoutTemplate = picked.layout.name;
+    } else {
+        // No template for this many photos: fall back to a justified arrangement
+        const [auto] = generateAutoLayouts(
+            photos.map((p, i) => ({ id: String(i), aspectRatio: ratioOf(p) })),
+            { dimensions: input.dimensions, side: pageNumber % 2 === 0 ? 'left' : 'right' },
+            1
+        );
+        boxes = autoLayoutToLayoutConfig(auto);
+        slotFor = photos.map((_, i) => auto.frames.findIndex(f => f.photoId === String(i)));
+        layoutTemplate = 'auto-arrange';
+    }
+
+    const scale = PHOTO_AREA_HEIGHT / 100;
+    const layoutConfig: LayoutBox[] = boxes.map((box, index) => ({
+        id: `slot-${index}`,
+        role: 'slot',
+        left: box.left,
+        top: box.top * scale,
+        width: box.width,
+        height: box.height * scale,
+        zIndex: index,
+    }));
+
+    return {
+        id: `draft-page-${pageNumber}`,
+        pageNumber,
+        layoutTemplate,
+        layoutConfig,
+        assets: photos.map((photo, i) => draftAsset(photo, `draft-p${pageNumber}-a${i + 1}`, slotFor[i])),
+        backgroundColor: '#ffffff',
+        textLayers: [
+            textLayer(`draft-p${pageNumber}-caption`, { left: 8, top: PHOTO_AREA_HEIGHT + 2, width: 84, height: 100 - PHOTO_AREA_HEIGHT - 4 }, caption(photos), { fontSize: 14 }),
+        ],
+        isSpreadLayout: false,
+    };
+}
+
+/**
+ * All pages of the draft, title page first.
+ */
+export function buildDraftPages(input: DraftAlbumInput): Page[] {
+    const media = orderDraftMedia(input.media);
+    const groups = groupDraftMedia(media, input.maxPhotosPerPage);
+    const cover = media.find(m => m.type === 'image');
+    return [
+        titlePage(input, cover),
+        ...groups.map((photos, index) => contentPage(photos, index + 2, input)),
+    ];
+}
@@ -0,0 +1,301 @@
+import type { Album, Asset, LayoutBox, Page } from '../contexts/AlbumContext';
+import type { AlbumOperation, AssetPatch } from './albumOperations';
+
+/**
+ * Album History
+ * Patch-based undo/redo. A step stores only the album fields and the pages
+ * whose objects changed (before and after) plus the page order when it
+ * moved, so a step on an 80-page album costs the same as on a 4-page one.
+ * Undo and redo replay the step as album operations touching only what the
+ * step changed, so they are shared with co-editors like any other edit and
+ * keep whatever collaborators changed since.
+ */
+
+type PageChange = { id: string; before: Page | null; after: Page | null };
+type FieldChange = { before: unknown; after: unknown };
+
+export interface AlbumPatch {
+    fields: Record<string, FieldChange>;
+    pages: PageChange[];
+    order?: { before: string[]; after: string[] };
+}
+
+export interface HistoryEntry {
+    id: string;
+    label: string;
+    timestamp: number;
+    patch: AlbumPatch;
+    operations: Record<PatchDirection, AlbumOperation[]>;
+}
+
+export type PatchDirection = 'undo' | 'redo';
+
+// Bumped on every edit, so replaying it would fight autosave change detection
+const UNTRACKED_FIELDS = new Set(['pages', 'updatedAt']);
+
+/**
+ * Pages are compared by their top-level references. Renumbering alone is
+ * not a change; page numbers are rebuilt from the order when applying.
+ */
+function samePage(a: Page, b: Page): boolean {
+    if (a === b) return true;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Page>;
+    for (const key of keys) {
+        if (key !== 'pageNumber' && a[key] !== b[key]) return false;
+    }
+    return true;
+}
+
+export function createPatch(before: Album, after: Album): AlbumPatch | null {
+    const fields: AlbumPatch['fields'] = {};
+    const beforeRecord = before as unknown as Record<string, unknown>;
+    const afterRecord = after as unknown as Record<string, unknown>;
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+        if (UNTRACKED_FIELDS.has(key)) return;
+        if (beforeRecord[key] !== afterRecord[key]) {
+            fields[key] = { before: beforeRecord[key], after: afterRecord[key] };
+        }
+    });
+
+    const beforePages = new Map(before.pages.map(p => [p.id, p]));
+    const afterIds = new Set(after.pages.map(p => p.id));
+    const pages: PageChange[] = [];
+    after.pages.forEach(page => {
+        const previous = beforePages.get(page.id);
+        if (!previous) pages.push({ id: page.id, before: null, after: page });
+        else if (!samePage(previous, page)) pages.push({ id: page.id, before: previous, after: page });
+    });
+    before.pages.forEach(page => {
+        if (!afterIds.has(page.id)) pages.push({ id: page.id, before: page, after: null });
+    });
+
+    const beforeOrder = before.pages.map(p => p.id);
+    const afterOrder = after.pages.map(p => p.id);
+    const orderChanged = beforeOrder.length !== afterOrder.length ||
+        beforeOrder.some((id, i) => id !== afterOrder[i]);
+
+    if (Object.keys(fields).length === 0 && pages.length === 0 && !orderChanged) return null;
+
+    return {
+        fields,
+        pages,
+        order: orderChanged ? { before: beforeOrder, after: afterOrder } : undefined,
+    };
+}
+
+/**
+ * Restore the album-level fields of a patch. Pages are restored through
+ * `patchOperations`.
+ */
+export function applyPatchFields(album: Album, patch: AlbumPatch, direction: PatchDirection): Album {
+    if (Object.keys(patch.fields).length === 0) return album;
+    const next = { ...album } as unknown as Record<string, unknown>;
+    Object.entries(patch.fields).forEach(([key, change]) => {
+        next[key] = direction === 'undo' ? change.before : change.after;
+    });
+    return { ...(next as unknown as Album), updatedAt: new Date() };
+}
+
+// Page fields compared one by one; items are diffed individually
+const PAGE_ITEM_FIELDS = new Set(['id', 'pageNumber', 'assets', 'textLayers']);
+
+// Cleared fields are sent as null, since undefined does not survive the
+// JSON round trip to other sessions
+function changedFields<T extends object>(from: T, to: T, skip?: Set<string>): Partial<T> {
+    const fromRecord = from as Record<string, unknown>;
+    const toRecord = to as Record<string, unknown>;
+    const changed: Record<string, unknown> = {};
+    new Set([...Object.keys(from), ...Object.keys(to)]).forEach(key => {
+        if (!skip?.has(key) && fromRecord[key] !== toRecord[key]) changed[key] = toRecord[key] ?? null;
+    });
+    return changed as Partial<T>;
+}
+
+function pageOperations(from: Page, to: Page): AlbumOperation[] {
+    const operations: AlbumOperation[] = [];
+    const pageId = to.id;
+
+    const fromAssets = new Map(from.assets.map(a => [a.id, a]));
+    const toAssets = new Map(to.assets.map(a => [a.id, a]));
+    fromAssets.forEach((_, id) => {
+        if (!toAssets.has(id)) operations.push({ type: 'removeAsset', pageId, assetId: id });
+    });
+    toAssets.forEach((asset, id) => {
+        const previous = fromAssets.get(id);
+        if (!previous) operations.push({ type: 'addAsset', pageId, asset });
+        else if (previous !== asset) {
+            operations.push({ type: 'updateAsset', pageId, assetId: id, updates: changedFields(previous, asset) as AssetPatch });
+        }
+    });
+
+    // Text layer fields do not map one-to-one onto asset patches, so a
+    // changed layer is replaced as a whole
+    const fromLayers = new Map((from.textLayers || []).map(l => [l.id, l]));
+    const toLayers = new Map((to.textLayers || []).map(l => [l.id, l]));
+    fromLayers.forEach((layer, id) => {
+        if (toLayers.get(id) !== layer) operations.push({ type: 'removeAsset', pageId, assetId: id });
+    });
+    toLayers.forEach((layer, id) => {
+        if (fromLayers.get(id) !== layer) operations.push({ type: 'addAsset', pageId, textLayer: layer });
+    });
+
+    const updates = changedFields(from, to, PAGE_ITEM_FIELDS);
+    if (Object.keys(updates).length > 0) operations.push({ type: 'updatePage', pageId, updates });
+    return operations;
+}
+
+/**
+ * Operations that move the pages from one side of a patch to the other.
+ * Only the items and page fields the step changed are touched. Page order
+ * is only sent for pure reorders; added pages are placed after the page
+ * that preceded them, so concurrent inserts elsewhere are kept.
+ */
+export function patchOperations(patch: AlbumPatch, direction: PatchDirection): AlbumOperation[] {
+    const source = (change: PageChange) => direction === 'undo' ? change.after : change.before;
+    const target = (change: PageChange) => direction === 'undo' ? change.before : change.after;
+    const order = patch.order && (direction === 'undo' ? patch.order.before : patch.order.after);
+    const operations: AlbumOperation[] = [];
+
+    patch.pages.forEach(change => {
+        const from = source(change);
+        const to = target(change);
+        if (!to) {
+            operations.push({ type: 'removePages', pageIds: [change.id] });
+        } else if (!from) {
+            const index = order ? order.indexOf(change.id) : -1;
+            operations.push({ type: 'addPages', pages: [to], afterId: index > 0 ? order![index - 1] : null });
+        } else {
+            operations.push(...pageOperations(from, to));
+        }
+    });
+
+    const pagesAddedOrRemoved = patch.pages.some(change => !change.before || !change.after);
+    if (order && !pagesAddedOrRemoved) operations.push({ type: 'reorderPages', order });
+    return operations;
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+const ASSET_NOUNS: Record<string, string> = {
+    image: 'photo',
+    video: 'video',
+    text: 'text',
+    ribbon: 'sticker',
+    sticker: 'sticker',
+    frame: 'frame',
+    shape: 'shape',
+    location: 'map',
+    map: 'map',
+};
+
+// First matching group wins: resizing usually moves the asset as well
+const CHANGE_VERBS: [string[], string][] = [
+    [['width', 'height'], 'Resized'],
+    [['x', 'y', 'left', 'top'], 'Moved'],
+    [['rotation'], 'Rotated'],
+    [['content', 'text'], 'Edited'],
+    [['crop', 'focalX', 'focalY', 'zoom'], 'Cropped'],
+    [['zIndex'], 'Restacked'],
+    [['isHidden'], 'Toggled visibility of'],
+    [['isLocked'], 'Toggled lock on'],
+];
+
+type PageItem = Asset | LayoutBox;
+
+function itemNoun(item: PageItem): string {
+    if ('role' in item && item.role === 'text') return 'text';
+    if ('type' in item) return ASSET_NOUNS[item.type as string] || 'item';
+    return 'item';
+}
+
+function pageItems(page: Page): Map<string, PageItem> {
+    const items = new Map<string, PageItem>();
+    page.assets.forEach(asset => items.set(asset.id, asset));
+    (page.textLayers || []).forEach(layer => items.set(layer.id, layer));
+    return items;
+}
+
+function changeVerb(before: PageItem, after: PageItem): string {
+    const beforeRecord = before as unknown as Record<string, unknown>;
+    const afterRecord = after as unknown as Record<string, unknown>;
+    const changed = new Set(
+        [...Object.keys(before), ...Object.keys(after)].filter(key => beforeRecord[key] !== afterRecord[key])
+    );
+    const match = CHANGE_VERBS.find(([keys]) => keys.some(key => changed.has(key)));
+    return match ? match[1] : 'Edited';
+}
+
+function plural(count: number, noun: string) {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describePageChange(before: Page, after: Page): string {
+    const where = `page ${after.pageNumber}`;
+    if (before.layoutTemplate !== after.layoutTemplate) {
+        return `Applied layout ${after.layoutTemplate || 'freeform'} on ${where}`;
+    }
+
+    const beforeItems = pageItems(before);
+    const afterItems = pageItems(after);
+    const added = Array.from(afterItems.values()).filter(item => !beforeItems.has(item.id));
+    const removed = Array.from(beforeItems.values()).filter(item => !afterItems.has(item.id));
+    const changed = Array.from(afterItems.values()).filter(item => {
+        const previous = beforeItems.get(item.id);
+        return previous && previous !== item;
+    });
+    const total = added.length + removed.length + changed.length;
+
+    if (total === 0) {
+        const backgroundChanged = before.backgroundColor !== after.backgroundColor ||
+            before.backgroundImage !== after.backgroundImage ||
+            before.backgroundOpacity !== after.backgroundOpacity ||
+            before.pageStyles !== after.pageStyles;
+        return backgroundChanged ? `Changed background on ${where}` : `Edited ${where}`;
+    }
+    if (total === 1) {
+        if (added.length) return `Added ${itemNoun(added[0])} to ${where}`;
+        if (removed.length) return `Removed ${itemNoun(removed[0])} from ${where}`;
+        const item = changed[0];
+        return `${changeVerb(beforeItems.get(item.id) as PageItem, item)} ${itemNoun(item)} on ${where}`;
+    }
+    if (added.length === total) return `Added ${plural(total, 'item')} to ${where}`;
+    if (removed.length === total) return `Removed ${plural(total, 'item')} from ${where}`;
+    return `Edited ${plural(total, 'item')} on ${where}`;
+}
+
+/**
+ * Human-readable label for a step, used when the caller did not name it.
+ */
+export function describePatch(patch: AlbumPatch): string {
+    const addedPages = patch.pages.filter(c => !c.before && c.after);
+    const removedPages = patch.pages.filter(c => c.before && !c.after);
+    const editedPages = patch.pages.filter(c => c.before && c.after);
+
+    if (addedPages.length > 0) {
+        return addedPages.length === 1
+            ? `Added page ${addedPages[0].after!.pageNumber}`
+            : `Added ${addedPages.length} pages`;
+    }
+    if (removedPages.length > 0) {
+        return removedPages.length === 1
+            ? `Removed page ${removedPages[0].before!.pageNumber}`
+            : `Removed ${removedPages.length} pages`;
+    }
+    if (editedPages.length === 1) {
+        return describePageChange(editedPages[0].before!, editedPages[0].after!);
+    }
+    if (editedPages.length > 1) {
+        const numbers = editedPages.map(c => c.after!.pageNumber).sort((a, b) => a - b);
+        return numbers.length <= 3 ? `Edited pages ${numbers.join(', ')}` : `Edited ${numbers.length} pages`;
+    }
+    if (patch.order) return 'Reordered pages';
+
+    const fields = Object.keys(patch.fields);
+    if (fields.includes('title')) return 'Renamed album';
+    if (fields.includes('unplacedMedia')) return 'Updated media library';
+    if (fields.includes('masterPages')) return 'Edited master pages';
+    if (fields.includes('config')) return 'Changed album settings';
+    return 'Edited album details';
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { SaveConflict, UnifiedAlbum, UnifiedAsset, UnifiedPage } from '../types/album';
+import { defaultResolutions, resolveSaveConflict } from './albumMerge';
+
+function makeAsset(id: string, x = 10): UnifiedAsset {
+    return {
+        id,
+        type: 'image',
+        url: `${id}.jpg`,
+        position: { x, y: 10 },
+        size: { width: 30, height: 30 },
+        transform: { rotation: 0, scale: 1 },
+        slotId: null,
+        zIndex: 1,
+        locked: false,
+        visible: true,
+        config: {},
+    };
+}
+
+function makePage(id: string, assets: UnifiedAsset[] = [], color = '#ffffff'): UnifiedPage {
+    return { id, pageNumber: 0, background: { type: 'color', color }, assets };
+}
+
+function makeAlbum(pages: UnifiedPage[], version = 1): UnifiedAlbum {
+    return {
+        id: 'album-1',
+        title: 'Summer',
+        familyId: 'family-1',
+        config: {},
+        pages: pages.map((p, i) => ({ ...p, pageNumber: i + 1 })),
+        totalPages: pages.length,
+        isPublished: false,
+        version,
+        createdAt: '2026-01-01T00:00:00Z',
+        updatedAt: '2026-01-01T00:00:00Z',
+    };
+}
+
+function makeConflict(theirs: UnifiedAlbum, pages: SaveConflict['pages']): SaveConflict {
+    return {
+        albumId: theirs.id,
+        baseVersion: 1,
+        remoteVersion: 2,
+        pages,
+        theirs,
+        remoteStamp: { album: 2, pages: {} },
+    };
+}
+
+describe('resolveSaveConflict', () => {
+    it('matches pages by id when the other session inserted a page before them', () => {
+        const base = makeAlbum([makePage('a'), makePage('b', [makeAsset('img')]), makePage('c')]);
+        const mine = makeAlbum([makePage('a'), makePage('b', [makeAsset('img', 70)]), makePage('c')]);
+        const theirs = makeAlbum([makePage('a'), makePage('x'), makePage('b', [makeAsset('img')]), makePage('c', [], '#000000')], 2);
+        const conflict = makeConflict(theirs, [
+            { pageId: 'x', pageNumber: 2, change: 'added', remoteVersion: 2 },
+            { pageId: 'c', pageNumber: 3, change: 'modified', baseVersion: 1, remoteVersion: 2 },
+        ]);
+
+        const resolved = resolveSaveConflict({ conflict, base, mine }, defaultResolutions(conflict));
+
+        expect(resolved.pages.map(p => p.id)).toEqual(['a', 'x', 'b', 'c']);
+        expect(resolved.pages.map(p => p.pageNumber)).toEqual([1, 2, 3, 4]);
+        expect(resolved.pages[2].assets[0].position.x).toBe(70);
+        expect(resolved.pages[3].background.color).toBe('#000000');
+        expect(resolved.version).toBe(2);
+    });
+
+    it('keeps a page they deleted when we keep ours, and drops it when we take theirs', () => {
+        const base = makeAlbum([makePage('a'), makePage('b'), makePage('c')]);
+        const mine = makeAlbum([makePage('a'), makePage('b', [makeAsset('img')]), makePage('c')]);
+        const theirs = makeAlbum([makePage('a'), makePage('c')], 2);
+        const conflict = makeConflict(theirs, [
+            { pageId: 'b', pageNumber: 2, change: 'removed', baseVersion: 1 },
+        ]);
+
+        const kept = resolveSaveConflict({ conflict, base, mine }, { b: 'mine' });
+        const dropped = resolveSaveConflict({ conflict, base, mine }, { b: 'theirs' });
+
+        expect(kept.pages.map(p => p.id)).toEqual(['a', 'b', 'c']);
+        expect(dropped.pages.map(p => p.id)).toEqual(['a', 'c']);
+        expect(dropped.totalPages).toBe(2);
+    });
+});
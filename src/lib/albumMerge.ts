@@ -0,0 +1,172 @@
+import _ from 'lodash';
+import type { DivergedPage, SaveConflict, UnifiedAlbum, UnifiedAsset, UnifiedPage } from '../types/album';
+
+/**
+ * Album Merge
+ * Three-way resolution of a SaveConflict. "Base" is the album as this editor
+ * last loaded or saved it, "mine" is the local edit and "theirs" is what
+ * another session saved in the meantime.
+ */
+
+export type PageResolution = 'mine' | 'theirs' | 'merge';
+
+export interface SaveConflictReview {
+    conflict: SaveConflict;
+    base: UnifiedAlbum | null;
+    mine: UnifiedAlbum;
+}
+
+/**
+ * Only pages both sides still have can be merged asset by asset.
+ */
+export function canMergePage(page: DivergedPage): boolean {
+    return page.change === 'modified';
+}
+
+/**
+ * Resolutions are keyed by page id, like the version stamps they come from.
+ */
+export function defaultResolutions(conflict: SaveConflict): Record<string, PageResolution> {
+    const resolutions: Record<string, PageResolution> = {};
+    conflict.pages.forEach(page => {
+        resolutions[page.pageId] = page.change === 'modified' ? 'merge'
+            : page.change === 'added' ? 'theirs'
+                : 'mine';
+    });
+    return resolutions;
+}
+
+/**
+ * Pick the side that changed a value since base. When both changed it,
+ * the local edit wins.
+ */
+function pickChanged<T>(base: T | undefined, mine: T, theirs: T): T {
+    return _.isEqual(mine, base) ? theirs : mine;
+}
+
+function mergeAssets(base: UnifiedAsset[], mine: UnifiedAsset[], theirs: UnifiedAsset[]): UnifiedAsset[] {
+    const baseById = new Map(base.map(a => [a.id, a]));
+    const mineById = new Map(mine.map(a => [a.id, a]));
+    const theirsById = new Map(theirs.map(a => [a.id, a]));
+    const ids = _.uniq([...theirs.map(a => a.id), ...mine.map(a => a.id)]);
+
+    const merged: UnifiedAsset[] = [];
+    ids.forEach(id => {
+        const b = baseById.get(id);
+        const m = mineById.get(id);
+        const t = theirsById.get(id);
+
+        if (m && t) {
+            merged.push(pickChanged(b, m, t));
+        } else if (m) {
+            // Removed by them: keep only if we added or edited it
+            if (!b || !_.isEqual(m, b)) merged.push(m);
+        } else if (t) {
+            // Removed by us: keep only if they added or edited it
+            if (!b || !_.isEqual(t, b)) merged.push(t);
+        }
+    });
+
+    return merged.sort((a, b) => a.zIndex - b.zIndex);
+}
+
+export function mergePage(base: UnifiedPage | undefined, mine: UnifiedPage, theirs: UnifiedPage): UnifiedPage {
+    return {
+        ...mine,
+        background: pickChanged(base?.background, mine.background, theirs.background),
+        layoutTemplate: pickChanged(base?.layoutTemplate, mine.layoutTemplate, theirs.layoutTemplate),
+        layoutSlots: pickChanged(base?.layoutSlots, mine.layoutSlots, theirs.layoutSlots),
+        isSpreadLayout: pickChanged(base?.isSpreadLayout, mine.isSpreadLayout, theirs.isSpreadLayout),
+        assets: mergeAssets(base?.assets || [], mine.assets, theirs.assets),
+        version: theirs.version,
+    };
+}
+
+/**
+ * Build the album to save after the user picked a resolution per diverged
+ * page. Pages are matched by id and keep our order; pages only they have
+ * and that are kept go after the page that precedes them on their side.
+ * Pages that did not diverge keep the local version.
+ */
+export function resolveSaveConflict(
+    review: SaveConflictReview,
+    resolutions: Record<string, PageResolution>
+): UnifiedAlbum {
+    const { conflict, base, mine } = review;
+    const byId = (pages: UnifiedPage[]) => new Map(pages.map(p => [p.id, p]));
+    const basePages = byId(base?.pages || []);
+    const theirPages = byId(conflict.theirs.pages);
+    const diverged = new Set(conflict.pages.map(p => p.pageId));
+
+    const resolve = (pageId: string | undefined, minePage: UnifiedPage | undefined): UnifiedPage | undefined => {
+        if (!pageId || !diverged.has(pageId)) return minePage;
+        const theirPage = theirPages.get(pageId);
+        const resolution = resolutions[pageId] || 'mine';
+        if (resolution === 'theirs') return theirPage;
+        if (resolution === 'merge' && minePage && theirPage) {
+            return mergePage(basePages.get(pageId), minePage, theirPage);
+        }
+        return minePage;
+    };
+
+    const pages: UnifiedPage[] = [];
+    mine.pages.forEach(page => {
+        const resolved = resolve(page.id, page);
+        if (resolved) pages.push(resolved);
+    });
+
+    const mineIds = new Set(mine.pages.map(p => p.id));
+    let anchor = -1;
+    conflict.theirs.pages.forEach(page => {
+        if (mineIds.has(page.id)) {
+            const index = pages.findIndex(p => p.id === page.id);
+            if (index !== -1) anchor = index;
+            return;
+        }
+        const resolved = resolve(page.id, undefined);
+        if (!resolved) return;
+        pages.splice(anchor + 1, 0, resolved);
+        anchor++;
+    });
+
+    const renumbered = pages.map((page, index) => ({ ...page, pageNumber: index + 1 }));
+
+    return {
+        ...mine,
+        pages: renumbered,
+        totalPages: renumbered.length,
+        version: conflict.remoteVersion,
+    };
+}
+
+export interface PageChangeSummary {
+    added: number;
+    removed: number;
+    changed: number;
+    backgroundChanged: boolean;
+}
+
+/**
+ * Asset-level counts of how `page` differs from `base`, used to describe
+ * each side of a conflict.
+ */
+export function summarizePageChanges(base: UnifiedPage | undefined, page: UnifiedPage | undefined): PageChangeSummary {
+    const baseAssets = new Map((base?.assets || []).map(a => [a.id, a]));
+    const pageAssets = new Map((page?.assets || []).map(a => [a.id, a]));
+
+    let added = 0;
+    let changed = 0;
+    pageAssets.forEach((asset, id) => {
+        const previous = baseAssets.get(id);
+        if (!previous) added++;
+        else if (!_.isEqual(asset, previous)) changed++;
+    });
+    const removed = Array.from(baseAssets.keys()).filter(id => !pageAssets.has(id)).length;
+
+    return {
+        added,
+        removed,
+        changed,
+        backgroundChanged: !!base && !!page && !_.isEqual(base.background, page.background),
+    };
+}
@@ -0,0 +1,427 @@
+import type { Album, Asset, LayoutBox, Page } from '../contexts/AlbumContext';
+import { refreshTableOfContents } from './albumSections';
+
+/**
+ * Album Operations
+ * Serializable edit operations shared between co-editing sessions, plus the
+ * pure reducers that apply them to a context Album.
+ */
+
+// ============================================================================
+// OPERATION TYPES
+// ============================================================================
+
+/**
+ * Patch accepted by updateAsset. Besides Asset fields it carries the unified
+ * layout box extras (zoom and focal point) used by slotted content.
+ */
+export type AssetPatch = Partial<Asset> & {
+    zoom?: number;
+    focalX?: number;
+    focalY?: number;
+    [key: string]: unknown;
+};
+
+/**
+ * Edits are batched before they are sent, so an updateAsset may carry the
+ * stamp each field got when it was applied locally. Fields without one use
+ * the envelope stamp.
+ */
+export type AlbumOperation =
+    | { type: 'addAsset'; pageId: string; asset?: Asset; textLayer?: LayoutBox }
+    | { type: 'updateAsset'; pageId: string; assetId: string; updates: AssetPatch; stamps?: Record<string, OperationStamp> }
+    | { type: 'removeAsset'; pageId: string; assetId: string }
+    | { type: 'updatePage'; pageId: string; updates: Partial<Page> }
+    | { type: 'reorderPages'; order: string[] }
+    | { type: 'applyLayout'; pages: Page[] }
+    | { type: 'addPages'; pages: Page[]; afterId: string | null }
+    | { type: 'removePages'; pageIds: string[] };
+
+/**
+ * Lamport stamp used to order operations across sessions.
+ * Ties on `clock` are broken by `clientId` so every session converges.
+ */
+export interface OperationStamp {
+    clock: number;
+    clientId: string;
+}
+
+export interface AlbumOperationEnvelope {
+    id: string;
+    albumId: string;
+    stamp: OperationStamp;
+    operation: AlbumOperation;
+}
+
+export function compareStamps(a: OperationStamp, b: OperationStamp): number {
+    if (a.clock !== b.clock) return a.clock - b.clock;
+    return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+// ============================================================================
+// PURE REDUCERS
+// ============================================================================
+
+/**
+ * Apply an asset patch to whichever collection holds the asset on a page
+ * (legacy assets, unified layout boxes or text layers).
+ */
+export function updateAssetOnPage(page: Page, assetId: string, updates: AssetPatch): Page {
+    const newAssets = page.assets.map(a => a.id === assetId ? { ...a, ...updates } : a);
+
+    const newLayoutConfig = (page.layoutConfig || []).map(box => {
+        if (box.id !== assetId) return box;
+        return {
+            ...box,
+            left: updates.x ?? box.left,
+            top: updates.y ?? box.top,
+            width: updates.width ?? box.width,
+            height: updates.height ?? box.height,
+            zIndex: updates.zIndex ?? box.zIndex,
+            content: {
+                ...box.content,
+                rotation: updates.rotation ?? box.content?.rotation,
+                zoom: updates.zoom ?? box.content?.zoom,
+                x: updates.focalX ?? box.content?.x,
+                y: updates.focalY ?? box.content?.y,
+                text: updates.content ?? box.content?.text,
+                config: { ...(box.content?.config || {}), ...updates }
+            }
+        } as LayoutBox;
+    });
+
+    const newTextLayers = (page.textLayers || []).map(layer => {
+        if (layer.id !== assetId) return layer;
+        return {
+            ...layer,
+            left: updates.x ?? layer.left,
+            top: updates.y ?? layer.top,
+            width: updates.width ?? layer.width,
+            height: updates.height ?? layer.height,
+            content: {
+                ...layer.content,
+                rotation: updates.rotation ?? layer.content?.rotation,
+                text: updates.content ?? layer.content?.text,
+                config: { ...(layer.content?.config || {}), ...updates }
+            }
+        } as LayoutBox;
+    });
+
+    return { ...page, assets: newAssets, layoutConfig: newLayoutConfig, textLayers: newTextLayers };
+}
+
+export function removeAssetFromPage(page: Page, assetId: string): Page {
+    return {
+        ...page,
+        assets: page.assets.filter(a => a.id !== assetId),
+        textLayers: (page.textLayers || []).filter(l => l.id !== assetId)
+    };
+}
+
+function pageAssetIds(page: Page): string[] {
+    return [
+        ...page.assets.map(a => a.id),
+        ...(page.layoutConfig || []).map(b => b.id),
+        ...(page.textLayers || []).map(l => l.id),
+    ];
+}
+
+export function pageHasAsset(page: Page, assetId: string): boolean {
+    return page.assets.some(a => a.id === assetId) ||
+        (page.layoutConfig || []).some(b => b.id === assetId) ||
+        (page.textLayers || []).some(l => l.id === assetId);
+}
+
+/**
+ * Reorder pages to match `order`. Pages unknown to the sender keep their
+ * relative position at the end so concurrent inserts are never dropped.
+ */
+export function reorderPagesById(pages: Page[], order: string[]): Page[] {
+    const byId = new Map(pages.map(p => [p.id, p]));
+    const ordered = order.map(id => byId.get(id)).filter((p): p is Page => !!p);
+    const known = new Set(order);
+    const rest = pages.filter(p => !known.has(p.id));
+    return [...ordered, ...rest].map((p, i) => ({ ...p, pageNumber: i + 1 }));
+}
+
+/**
+ * Insert pages after `afterId` (at the front when null). Pages are appended
+ * when the anchor no longer exists, e.g. after a concurrent removal.
+ */
+export function insertPagesAfter(pages: Page[], added: Page[], afterId: string | null): Page[] {
+    const fresh = added.filter(page => !pages.some(p => p.id === page.id));
+    if (fresh.length === 0) return pages;
+    const anchorIndex = afterId === null ? -1 : pages.findIndex(p => p.id === afterId);
+    const insertIndex = afterId !== null && anchorIndex === -1 ? pages.length : anchorIndex + 1;
+    const next = [...pages];
+    next.splice(insertIndex, 0, ...fresh);
+    return next.map((p, i) => ({ ...p, pageNumber: i + 1 }));
+}
+
+/**
+ * Apply an operation to an album. Operations are idempotent: re-adding an
+ * existing asset or removing a missing one leaves the album unchanged.
+ */
+export function applyAlbumOperation(album: Album, operation: AlbumOperation): Album {
+    switch (operation.type) {
+        case 'addAsset': {
+            const { pageId, asset, textLayer } = operation;
+            const pages = album.pages.map(p => {
+                if (p.id !== pageId) return p;
+                if (textLayer && !pageHasAsset(p, textLayer.id)) {
+                    return { ...p, textLayers: [...(p.textLayers || []), textLayer] };
+                }
+                if (asset && !pageHasAsset(p, asset.id)) {
+                    return { ...p, assets: [...p.assets, asset] };
+                }
+                return p;
+            });
+            return { ...album, pages, updatedAt: new Date() };
+        }
+        case 'updateAsset': {
+            const { pageId, assetId, updates } = operation;
+            return {
+                ...album,
+                pages: album.pages.map(p => p.id === pageId ? updateAssetOnPage(p, assetId, updates) : p),
+                updatedAt: new Date(),
+            };
+        }
+        case 'removeAsset': {
+            const { pageId, assetId } = operation;
+            return {
+                ...album,
+                pages: album.pages.map(p => p.id === pageId ? removeAssetFromPage(p, assetId) : p),
+                updatedAt: new Date(),
+            };
+        }
+        case 'updatePage': {
+            const { pageId, updates } = operation;
+            const pages = album.pages.map(p => p.id === pageId ? { ...p, ...updates, id: p.id, pageNumber: p.pageNumber } : p);
+            return { ...album, pages: 'section' in updates ? refreshTableOfContents(pages) : pages, updatedAt: new Date() };
+        }
+        case 'reorderPages':
+            return { ...album, pages: refreshTableOfContents(reorderPagesById(album.pages, operation.order)), updatedAt: new Date() };
+        case 'applyLayout': {
+            const replacements = new Map(operation.pages.map(p => [p.id, p]));
+            return {
+                ...album,
+                pages: album.pages.map(p => {
+                    const next = replacements.get(p.id);
+                    return next ? { ...next, pageNumber: p.pageNumber } : p;
+                }),
+                updatedAt: new Date(),
+            };
+        }
+        case 'addPages': {
+            const pages = insertPagesAfter(album.pages, operation.pages, operation.afterId);
+            return pages === album.pages ? album : { ...album, pages: refreshTableOfContents(pages), updatedAt: new Date() };
+        }
+        case 'removePages': {
+            const removed = new Set(operation.pageIds);
+            if (!album.pages.some(p => removed.has(p.id))) return album;
+            const pages = album.pages.filter(p => !removed.has(p.id)).map((p, i) => ({ ...p, pageNumber: i + 1 }));
+            return { ...album, pages: refreshTableOfContents(pages), updatedAt: new Date() };
+        }
+        default:
+            return album;
+    }
+}
+
+// ============================================================================
+// MERGE STATE
+// ============================================================================
+
+/**
+ * Tracks Lamport stamps per asset and page field, per page and for page
+ * order so that concurrent operations from several sessions resolve
+ * last-writer-wins and every session ends up with the same album regardless
+ * of delivery order. A layout replaces whole pages, so it loses to newer
+ * edits of the page or any asset on it, and those edits lose to a newer
+ * layout of their page.
+ * Removals leave stamped tombstones: an add or removal only wins over the
+ * other when it is newer, so an asset moved back to a page or a page
+ * restored by undo reappears everywhere.
+ */
+export class AlbumMergeState {
+    private clock = 0;
+    private fieldStamps = new Map<string, OperationStamp>();
+    private assetStamps = new Map<string, OperationStamp>();    // Newest edit of any field
+    private pageStamps = new Map<string, OperationStamp>();
+    private pageFieldStamps = new Map<string, OperationStamp>();
+    private pageEditStamps = new Map<string, OperationStamp>();    // Newest edit of any page field
+    private orderStamp: OperationStamp | null = null;
+    private placedAssets = new Map<string, OperationStamp>();    // Keyed by page and asset
+    private removedAssets = new Map<string, OperationStamp>();
+    private placedPages = new Map<string, OperationStamp>();
+    private removedPages = new Map<string, OperationStamp>();
+    readonly clientId: string;
+
+    constructor(clientId: string) {
+        this.clientId = clientId;
+    }
+
+    /**
+     * Stamp a locally applied operation and record it so that older remote
+     * operations touching the same data are discarded.
+     */
+    stampLocal(albumId: string, operation: AlbumOperation): AlbumOperationEnvelope {
+        this.clock += 1;
+        const stamp = { clock: this.clock, clientId: this.clientId };
+        this.record(operation, stamp);
+        return { id: `${this.clientId}:${this.clock}`, albumId, stamp, operation };
+    }
+
+    /**
+     * Stamp the fields of a local asset edit as soon as it is applied, before
+     * it is batched for sending. Returns the stamps to send with the batch.
+     */
+    stampFields(operation: Extract<AlbumOperation, { type: 'updateAsset' }>): Record<string, OperationStamp> {
+        this.clock += 1;
+        const stamp = { clock: this.clock, clientId: this.clientId };
+        this.record(operation, stamp);
+        return Object.fromEntries(Object.keys(operation.updates).map(field => [field, stamp]));
+    }
+
+    /**
+     * Filter a remote operation down to the parts that are newer than what
+     * this session has already seen. Returns null when nothing survives.
+     */
+    admitRemote(envelope: AlbumOperationEnvelope): AlbumOperation | null {
+        const { stamp, operation } = envelope;
+        this.clock = Math.max(this.clock, stamp.clock);
+
+        let admitted: AlbumOperation | null = operation;
+        switch (operation.type) {
+            case 'addAsset': {
+                const id = operation.asset?.id || operation.textLayer?.id;
+                if (id && !this.isNewer(this.removedAssets.get(`${operation.pageId}:${id}`), stamp)) admitted = null;
+                break;
+            }
+            case 'updateAsset': {
+                if (this.removedAssets.has(`${operation.pageId}:${operation.assetId}`)) {
+                    admitted = null;
+                    break;
+                }
+                const updates: AssetPatch = {};
+                for (const [field, value] of Object.entries(operation.updates)) {
+                    const fieldStamp = operation.stamps?.[field] ?? stamp;
+                    if (this.isNewer(this.pageStamps.get(operation.pageId), fieldStamp) &&
+                        this.isNewer(this.fieldStamps.get(`${operation.assetId}:${field}`), fieldStamp)) {
+                        updates[field] = value;
+                    }
+                }
+                admitted = Object.keys(updates).length > 0 ? { ...operation, updates } : null;
+                break;
+            }
+            case 'updatePage': {
+                if (!this.isNewer(this.pageStamps.get(operation.pageId), stamp)) {
+                    admitted = null;
+                    break;
+                }
+                const updates: Partial<Page> = {};
+                for (const [field, value] of Object.entries(operation.updates)) {
+                    if (this.isNewer(this.pageFieldStamps.get(`${operation.pageId}:${field}`), stamp)) {
+                        (updates as Record<string, unknown>)[field] = value;
+                    }
+                }
+                admitted = Object.keys(updates).length > 0 ? { ...operation, updates } : null;
+                break;
+            }
+            case 'removeAsset':
+                if (!this.isNewer(this.placedAssets.get(`${operation.pageId}:${operation.assetId}`), stamp)) admitted = null;
+                break;
+            case 'reorderPages':
+                if (!this.isNewer(this.orderStamp, stamp)) admitted = null;
+                break;
+            case 'applyLayout': {
+                const pages = operation.pages
+                    .filter(p => this.isNewer(this.pageStamps.get(p.id), stamp) &&
+                        this.isNewer(this.pageEditStamps.get(p.id), stamp) &&
+                        pageAssetIds(p).every(id => this.isNewer(this.assetStamps.get(id), stamp)))
+                    .map(p => this.withoutRemovedAssets(p));
+                admitted = pages.length > 0 ? { ...operation, pages } : null;
+                break;
+            }
+            case 'addPages': {
+                const pages = operation.pages
+                    .filter(p => this.isNewer(this.removedPages.get(p.id), stamp))
+                    .map(p => this.withoutRemovedAssets(p));
+                admitted = pages.length > 0 ? { ...operation, pages } : null;
+                break;
+            }
+            case 'removePages': {
+                const pageIds = operation.pageIds.filter(id => this.isNewer(this.placedPages.get(id), stamp));
+                admitted = pageIds.length > 0 ? { ...operation, pageIds } : null;
+                break;
+            }
+        }
+
+        if (admitted) this.record(admitted, stamp);
+        return admitted;
+    }
+
+    private isNewer(current: OperationStamp | undefined | null, incoming: OperationStamp) {
+        return !current || compareStamps(incoming, current) >= 0;
+    }
+
+    private withoutRemovedAssets(page: Page): Page {
+        const isRemoved = (id: string) => this.removedAssets.has(`${page.id}:${id}`);
+        if (!pageAssetIds(page).some(isRemoved)) return page;
+        const kept = <T extends { id: string }>(items: T[] | undefined) => items?.filter(item => !isRemoved(item.id));
+        return {
+            ...page,
+            assets: kept(page.assets) || [],
+            layoutConfig: kept(page.layoutConfig),
+            textLayers: kept(page.textLayers),
+        };
+    }
+
+    private record(operation: AlbumOperation, stamp: OperationStamp) {
+        switch (operation.type) {
+            case 'updateAsset':
+                Object.keys(operation.updates).forEach(field => {
+                    const key = `${operation.assetId}:${field}`;
+                    const fieldStamp = operation.stamps?.[field] ?? stamp;
+                    if (this.isNewer(this.fieldStamps.get(key), fieldStamp)) this.fieldStamps.set(key, fieldStamp);
+                    if (this.isNewer(this.assetStamps.get(operation.assetId), fieldStamp)) {
+                        this.assetStamps.set(operation.assetId, fieldStamp);
+                    }
+                });
+                break;
+            case 'addAsset': {
+                const id = operation.asset?.id || operation.textLayer?.id;
+                if (!id) break;
+                this.placedAssets.set(`${operation.pageId}:${id}`, stamp);
+                this.removedAssets.delete(`${operation.pageId}:${id}`);
+                break;
+            }
+            case 'updatePage':
+                Object.keys(operation.updates).forEach(field => {
+                    this.pageFieldStamps.set(`${operation.pageId}:${field}`, stamp);
+                });
+                if (this.isNewer(this.pageEditStamps.get(operation.pageId), stamp)) {
+                    this.pageEditStamps.set(operation.pageId, stamp);
+                }
+                break;
+            case 'removeAsset':
+                this.removedAssets.set(`${operation.pageId}:${operation.assetId}`, stamp);
+                break;
+            case 'reorderPages':
+                this.orderStamp = stamp;
+                break;
+            case 'applyLayout':
+                operation.pages.forEach(p => this.pageStamps.set(p.id, stamp));
+                break;
+            case 'addPages':
+                operation.pages.forEach(p => {
+                    this.placedPages.set(p.id, stamp);
+                    this.removedPages.delete(p.id);
+                    this.pageStamps.set(p.id, stamp);
+                });
+                break;
+            case 'removePages':
+                operation.pageIds.forEach(id => this.removedPages.set(id, stamp));
+                break;
+        }
+    }
+}
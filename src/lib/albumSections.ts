@@ -0,0 +1,123 @@
+import _ from 'lodash';
+import type { LayoutBox, Page } from '../contexts/AlbumContext';
+
+/**
+ * Album Sections
+ * Named sections start at the page that carries the name and run until the
+ * next named page. A table-of-contents page lists them with their page
+ * numbers; its entry rows are generated, so they are rebuilt whenever pages
+ * are added, removed, moved or renamed, while the heading and anything else
+ * on the page stay as the user left them.
+ */
+
+export const TOC_TEMPLATE = 'table-of-contents';
+
+// Generated rows carry this prefix; everything else on a TOC page is left alone
+const TOC_ENTRY_PREFIX = 'toc-entry-';
+
+const TOC_TOP = 24;
+const TOC_BOTTOM = 92;
+const MAX_ROW_HEIGHT = 6;
+
+export interface SectionEntry {
+    name: string;
+    pageId: string;
+    pageNumber: number;
+}
+
+export function isTocPage(page: Page) {
+    return page.layoutTemplate === TOC_TEMPLATE;
+}
+
+/**
+ * Section `pages[index]` belongs to: the nearest named page at or before it.
+ */
+export function getSectionName(pages: Page[], index: number): string {
+    for (let i = Math.min(index, pages.length - 1); i >= 0; i--) {
+        const name = pages[i].section?.trim();
+        if (name) return name;
+    }
+    return '';
+}
+
+export function listSections(pages: Page[]): SectionEntry[] {
+    return pages
+        .filter(p => !isTocPage(p) && p.section?.trim())
+        .map(p => ({ name: p.section!.trim(), pageId: p.id, pageNumber: p.pageNumber }));
+}
+
+function tocText(id: string, box: { left: number; top: number; width: number; height: number }, text: string, style: Record<string, string | number>): LayoutBox {
+    return {
+        id,
+        role: 'text',
+        ...box,
+        zIndex: 50,
+        content: {
+            type: 'text',
+            text,
+            zoom: 1,
+            x: 50,
+            y: 50,
+            rotation: 0,
+            config: {
+                fontFamily: 'Outfit',
+                fontSize: 16,
+                color: '#2d2a26',
+                textColor: '#2d2a26',
+                fontWeight: 'normal',
+                textDecoration: 'none',
+                fontStyle: 'normal',
+                padding: 4,
+                ...style,
+            },
+        },
+    };
+}
+
+/**
+ * One row per section: the name on the left, the page number on the right.
+ */
+export function buildTocEntries(sections: SectionEntry[]): LayoutBox[] {
+    const rowHeight = sections.length > 0 ? Math.min(MAX_ROW_HEIGHT, (TOC_BOTTOM - TOC_TOP) / sections.length) : 0;
+    return sections.flatMap((section, i) => {
+        const top = TOC_TOP + i * rowHeight;
+        return [
+            tocText(`${TOC_ENTRY_PREFIX}${i}-name`, { left: 14, top, width: 58, height: rowHeight }, _.escape(section.name), { textAlign: 'left' }),
+            tocText(`${TOC_ENTRY_PREFIX}${i}-page`, { left: 72, top, width: 14, height: rowHeight }, String(section.pageNumber), { textAlign: 'right' }),
+        ];
+    });
+}
+
+export function createTocPage(id: string, pageNumber: number): Page {
+    return {
+        id,
+        pageNumber,
+        layoutTemplate: TOC_TEMPLATE,
+        layoutConfig: [],
+        assets: [],
+        backgroundColor: '#ffffff',
+        textLayers: [
+            tocText('toc-heading', { left: 10, top: 8, width: 80, height: 10 }, 'Contents', { fontFamily: 'Playfair Display', fontSize: 40, textAlign: 'center', padding: 16 }),
+        ],
+    };
+}
+
+/**
+ * Rebuild the entry rows of every TOC page. Unchanged pages (and the array
+ * itself when nothing changed) are returned as is, so history stays clean.
+ */
+export function refreshTableOfContents(pages: Page[]): Page[] {
+    if (!pages.some(isTocPage)) return pages;
+
+    const entries = buildTocEntries(listSections(pages));
+    let changed = false;
+    const next = pages.map(page => {
+        if (!isTocPage(page)) return page;
+        const kept = (page.textLayers || []).filter(l => !l.id.startsWith(TOC_ENTRY_PREFIX));
+        const current = (page.textLayers || []).filter(l => l.id.startsWith(TOC_ENTRY_PREFIX));
+        if (_.isEqual(current, entries)) return page;
+        changed = true;
+        return { ...page, textLayers: [...kept, ...entries] };
+    });
+    return changed ? next : pages;
+}
@@ -0,0 +1,198 @@
+import type { AlbumConfig } from '../contexts/AlbumContext';
+import type { Bounds } from './albumArrange';
+
+/**
+ * Album Snapping
+ * Smart guides for dragging: snaps the moving bounds to other items' edges
+ * and centers, the page center lines and the bleed / gutter lines, and
+ * measures the gaps to the nearest neighbours. Everything is in page
+ * percentages; callers convert to canvas space for drawing.
+ */
+
+export type GuideOrientation = 'vertical' | 'horizontal';
+
+/**
+ * A line the moving bounds snapped to. `position` is on the axis the line
+ * crosses (x for vertical lines); `start` / `end` span the other axis.
+ */
+export interface SnapGuide {
+    orientation: GuideOrientation;
+    position: number;
+    start: number;
+    end: number;
+}
+
+/**
+ * Gap between the moving bounds and its nearest neighbour, drawn along
+ * `orientation` at `position` on the other axis.
+ */
+export interface SnapMeasurement {
+    orientation: GuideOrientation;
+    position: number;
+    start: number;
+    end: number;
+}
+
+export interface SnapResult {
+    dx: number;
+    dy: number;
+    guides: SnapGuide[];
+    measurements: SnapMeasurement[];
+}
+
+export interface PageGuideLines {
+    x: number[];
+    y: number[];
+}
+
+type Candidate = { line: number; start: number; end: number };
+
+// Below this the moving edge is considered to sit on the line
+const EPSILON = 0.01;
+
+/**
+ * Page-level lines: center lines, the bleed inset on every edge, and the
+ * gutter inset on the binding edge (right edge of a left page and vice versa).
+ */
+export function getPageGuideLines(dimensions: AlbumConfig['dimensions'] | undefined, side: 'left' | 'right'): PageGuideLines {
+    const x = [50];
+    const y = [50];
+    if (!dimensions?.width || !dimensions?.height) return { x, y };
+
+    const bleedX = (dimensions.bleed / dimensions.width) * 100;
+    const bleedY = (dimensions.bleed / dimensions.height) * 100;
+    if (bleedX > 0) x.push(bleedX, 100 - bleedX);
+    if (bleedY > 0) y.push(bleedY, 100 - bleedY);
+
+    // Gutter is shared by both pages of a spread
+    const gutter = (dimensions.gutter / 2 / dimensions.width) * 100;
+    if (gutter > 0) x.push(side === 'left' ? 100 - gutter : gutter);
+
+    return { x, y };
+}
+
+function edges(start: number, size: number) {
+    return [start, start + size / 2, start + size];
+}
+
+function snapAxis(moving: number[], candidates: Candidate[], threshold: number) {
+    let best: number | null = null;
+    moving.forEach(value => {
+        candidates.forEach(({ line }) => {
+            const delta = line - value;
+            if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+        });
+    });
+    return best ?? 0;
+}
+
+function axisCandidates(targets: Bounds[], lines: number[], axis: 'x' | 'y'): Candidate[] {
+    const fromItems = targets.flatMap(t => {
+        const [start, size, crossStart, crossSize] = axis === 'x'
+            ? [t.x, t.width, t.y, t.height]
+            : [t.y, t.height, t.x, t.width];
+        return edges(start, size).map(line => ({ line, start: crossStart, end: crossStart + crossSize }));
+    });
+    const fromPage = lines.map(line => ({ line, start: 0, end: 100 }));
+    return [...fromItems, ...fromPage];
+}
+
+/**
+ * Lines the snapped bounds now sit on, merged per position and stretched
+ * to cover the moving bounds.
+ */
+function matchedGuides(
+    moving: number[],
+    candidates: Candidate[],
+    cross: { start: number; end: number },
+    orientation: GuideOrientation
+): SnapGuide[] {
+    const byPosition = new Map<number, SnapGuide>();
+    candidates.forEach(candidate => {
+        if (!moving.some(value => Math.abs(candidate.line - value) < EPSILON)) return;
+        const key = Math.round(candidate.line * 100);
+        const existing = byPosition.get(key);
+        const start = Math.min(candidate.start, cross.start, existing?.start ?? Infinity);
+        const end = Math.max(candidate.end, cross.end, existing?.end ?? -Infinity);
+        byPosition.set(key, { orientation, position: candidate.line, start, end });
+    });
+    return Array.from(byPosition.values());
+}
+
+/**
+ * Gaps to the closest item on each side whose span overlaps the moving bounds.
+ */
+function measureGaps(rect: Bounds, targets: Bounds[]): SnapMeasurement[] {
+    const measurements: SnapMeasurement[] = [];
+    const overlapCenter = (aStart: number, aEnd: number, bStart: number, bEnd: number) => {
+        const start = Math.max(aStart, bStart);
+        const end = Math.min(aEnd, bEnd);
+        return end > start ? (start + end) / 2 : null;
+    };
+
+    const nearest = (gaps: { gap: number; measurement: SnapMeasurement }[]) => {
+        const closest = gaps.filter(g => g.gap > EPSILON).sort((a, b) => a.gap - b.gap)[0];
+        if (closest) measurements.push(closest.measurement);
+    };
+
+    const horizontal = targets
+        .map(t => ({ t, at: overlapCenter(rect.y, rect.y + rect.height, t.y, t.y + t.height) }))
+        .filter((e): e is { t: Bounds; at: number } => e.at !== null);
+    nearest(horizontal.map(({ t, at }) => ({
+        gap: rect.x - (t.x + t.width),
+        measurement: { orientation: 'horizontal' as const, position: at, start: t.x + t.width, end: rect.x },
+    })));
+    nearest(horizontal.map(({ t, at }) => ({
+        gap: t.x - (rect.x + rect.width),
+        measurement: { orientation: 'horizontal' as const, position: at, start: rect.x + rect.width, end: t.x },
+    })));
+
+    const vertical = targets
+        .map(t => ({ t, at: overlapCenter(rect.x, rect.x + rect.width, t.x, t.x + t.width) }))
+        .filter((e): e is { t: Bounds; at: number } => e.at !== null);
+    nearest(vertical.map(({ t, at }) => ({
+        gap: rect.y - (t.y + t.height),
+        measurement: { orientation: 'vertical' as const, position: at, start: t.y + t.height, end: rect.y },
+    })));
+    nearest(vertical.map(({ t, at }) => ({
+        gap: t.y - (rect.y + rect.height),
+        measurement: { orientation: 'vertical' as const, position: at, start: rect.y + rect.height, end: t.y },
+    })));
+
+    return measurements;
+}
+
+/**
+ * Snap `rect` to the closest line within `threshold` on each axis
+ * independently. Returns the correction to apply and what to draw.
+ */
+export function snapBounds(
+    rect: Bounds,
+    targets: Bounds[],
+    lines: PageGuideLines,
+    threshold: { x: number; y: number }
+): SnapResult {
+    const xCandidates = axisCandidates(targets, lines.x, 'x');
+    const yCandidates = axisCandidates(targets, lines.y, 'y');
+
+    const dx = snapAxis(edges(rect.x, rect.width), xCandidates, threshold.x);
+    const dy = snapAxis(edges(rect.y, rect.height), yCandidates, threshold.y);
+    const snapped = { ...rect, x: rect.x + dx, y: rect.y + dy };
+
+    const guides = [
+        ...matchedGuides(edges(snapped.x, snapped.width), xCandidates, { start: snapped.y, end: snapped.y + snapped.height }, 'vertical'),
+        ...matchedGuides(edges(snapped.y, snapped.height), yCandidates, { start: snapped.x, end: snapped.x + snapped.width }, 'horizontal'),
+    ];
+
+    return { dx, dy, guides, measurements: measureGaps(snapped, targets) };
+}
+
+/**
+ * Distance in album units (`dimensions.unit`) for a page-percentage span.
+ */
+export function formatSnapDistance(span: number, orientation: GuideOrientation, dimensions: AlbumConfig['dimensions'] | undefined) {
+    if (!dimensions) return `${Math.round(span)}%`;
+    const size = orientation === 'horizontal' ? dimensions.width : dimensions.height;
+    const value = (span / 100) * size;
+    return `${dimensions.unit === 'px' ? Math.round(value) : value.toFixed(1)} ${dimensions.unit}`;
+}
@@ -76,6 +76,18 @@ export const getFilterStyle = (asset: Asset) => {
     return filterString.trim() ? { filter: filterString.trim() } : {};
 };
 
+/**
+ * TEXT_GRADIENTS
+ *
+ * Gradient fills offered for text, clipped to the glyphs when rendered.
+ */
+export const TEXT_GRADIENTS: Record<string, string> = {
+    sunset: 'linear-gradient(135deg, #f59e0b, #ec4899, #8b5cf6)',
+    ocean: 'linear-gradient(135deg, #06b6d4, #3b82f6, #6366f1)',
+    royal: 'linear-gradient(135deg, #d946ef, #8b5cf6, #ec4899)',
+    emerald: 'linear-gradient(135deg, #10b981, #059669, #047857)',
+};
+
 /**
  * getClipPathStyle
  * 
@@ -0,0 +1,233 @@
+import type { AlbumConfig, Asset, LayoutBox, Page } from '../contexts/AlbumContext';
+
+/**
+ * Auto Arrange
+ * Generates justified photo layouts for one page from the photos' own
+ * aspect ratios, so slots follow the pictures instead of the other way
+ * round. Photos keep their order; every way of splitting them into rows
+ * (or columns) is scored by how much each photo has to be cropped to fill
+ * its frame, and the best few become the alternatives to cycle through.
+ * The layout fills the page inside the bleed and the binding gutter.
+ */
+
+export interface ArrangePhoto {
+    id: string;
+    aspectRatio: number; // width / height
+}
+
+export interface ArrangeFrame {
+    photoId: string;
+    x: number;      // Page percentages
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface AutoLayout {
+    id: string;                         // Stable key, e.g. "rows:2-3"
+    direction: 'rows' | 'columns';
+    groups: number[];                   // Photos per row / column
+    frames: ArrangeFrame[];
+    averageCrop: number;                // 0 = no cropping, 0.3 = 30% of a photo hidden
+    score: number;                      // Lower is better
+}
+
+interface PageGeometry {
+    dimensions: AlbumConfig['dimensions'];
+    side: 'left' | 'right' | 'single';
+}
+
+// Exhaustive search covers 2^(n-1) splits; beyond this photos are not arranged
+export const MAX_AUTO_ARRANGE_PHOTOS = 12;
+
+const DEFAULT_ALTERNATIVES = 5;
+
+// Frames of very different sizes read as a mistake; weigh that against cropping
+const SIZE_VARIATION_WEIGHT = 0.15;
+
+/**
+ * Natural aspect ratio of an asset: its original pixels when known, then
+ * its stored aspect ratio, then the shape of its current frame on the page.
+ */
+export function getPhotoAspectRatio(asset: Asset, dimensions?: AlbumConfig['dimensions']): number {
+    if (asset.originalDimensions?.width && asset.originalDimensions?.height) {
+        return asset.originalDimensions.width / asset.originalDimensions.height;
+    }
+    if (asset.aspectRatio && asset.aspectRatio > 0) return asset.aspectRatio;
+    const pageRatio = dimensions ? dimensions.width / dimensions.height : 1;
+    return asset.width > 0 && asset.height > 0 ? (asset.width / asset.height) * pageRatio : 1;
+}
+
+/**
+ * Every ordered split of `count` photos into consecutive groups.
+ */
+function compositions(count: number): number[][] {
+    const result: number[][] = [];
+    const walk = (remaining: number, current: number[]) => {
+        if (remaining === 0) {
+            result.push(current);
+            return;
+        }
+        for (let size = 1; size <= remaining; size++) walk(remaining - size, [...current, size]);
+    };
+    walk(count, []);
+    return result;
+}
+
+/**
+ * Lay photos out in justified rows across `width`, then stretch the rows
+ * vertically to fill `height`. Works in physical units; `ratios` are
+ * width / height. For columns the caller swaps the axes.
+ */
+function justify(ratios: number[], groups: number[], width: number, height: number, spacing: number) {
+    const rows: { start: number; ratios: number[]; naturalHeight: number }[] = [];
+    let start = 0;
+    groups.forEach(size => {
+        const rowRatios = ratios.slice(start, start + size);
+        const available = width - spacing * (size - 1);
+        rows.push({ start, ratios: rowRatios, naturalHeight: available / rowRatios.reduce((a, b) => a + b, 0) });
+        start += size;
+    });
+
+    const naturalTotal = rows.reduce((sum, row) => sum + row.naturalHeight, 0);
+    const stretch = (height - spacing * (rows.length - 1)) / naturalTotal;
+
+    const cells: { index: number; x: number; y: number; width: number; height: number }[] = [];
+    let y = 0;
+    rows.forEach(row => {
+        const rowHeight = row.naturalHeight * stretch;
+        let x = 0;
+        row.ratios.forEach((ratio, i) => {
+            const cellWidth = ratio * row.naturalHeight;
+            cells.push({ index: row.start + i, x, y, width: cellWidth, height: rowHeight });
+            x += cellWidth + spacing;
+        });
+        y += rowHeight + spacing;
+    });
+    return cells;
+}
+
+function cropFraction(photoRatio: number, frameRatio: number) {
+    return 1 - Math.min(photoRatio / frameRatio, frameRatio / photoRatio);
+}
+
+function sizeVariation(areas: number[]) {
+    const mean = areas.reduce((a, b) => a + b, 0) / areas.length;
+    const variance = areas.reduce((sum, area) => sum + (area - mean) ** 2, 0) / areas.length;
+    return Math.sqrt(variance) / mean;
+}
+
+/**
+ * Justified layouts for `photos` on one page, best first.
+ */
+export function generateAutoLayouts(
+    photos: ArrangePhoto[],
+    page: PageGeometry,
+    maxAlternatives = DEFAULT_ALTERNATIVES
+): AutoLayout[] {
+    const items = photos.slice(0, MAX_AUTO_ARRANGE_PHOTOS);
+    if (items.length === 0) return [];
+
+    const { width: pageWidth, height: pageHeight, bleed = 0, gutter = 0 } = page.dimensions;
+    const bindingInset = page.side === 'single' ? 0 : gutter / 2;
+    const area = {
+        left: bleed + (page.side === 'right' ? bindingInset : 0),
+        top: bleed,
+        width: pageWidth - bleed * 2 - bindingInset,
+        height: pageHeight - bleed * 2,
+    };
+    const spacing = Math.max(bleed, pageWidth * 0.01);
+
+    const layouts: AutoLayout[] = [];
+    (['rows', 'columns'] as const).forEach(direction => {
+        const isRows = direction === 'rows';
+        const ratios = items.map(p => isRows ? p.aspectRatio : 1 / p.aspectRatio);
+        const [mainSize, crossSize] = isRows ? [area.width, area.height] : [area.height, area.width];
+
+        compositions(items.length).forEach(groups => {
+            // A single row and a single column are the same strip; keep it once
+            if (!isRows && groups.length === 1) return;
+            const cells = justify(ratios, groups, mainSize, crossSize, spacing);
+
+            const physical = cells.map(cell => isRows
+                ? { x: cell.x, y: cell.y, width: cell.width, height: cell.height }
+                : { x: cell.y, y: cell.x, width: cell.height, height: cell.width });
+            const frames = physical.map((cell, i) => ({
+                photoId: items[cells[i].index].id,
+                x: ((area.left + cell.x) / pageWidth) * 100,
+                y: ((area.top + cell.y) / pageHeight) * 100,
+                width: (cell.width / pageWidth) * 100,
+                height: (cell.height / pageHeight) * 100,
+            }));
+
+            const crops = physical.map((cell, i) => cropFraction(items[cells[i].index].aspectRatio, cell.width / cell.height));
+            const averageCrop = crops.reduce((a, b) => a + b, 0) / crops.length;
+            const variation = physical.length > 1 ? sizeVariation(physical.map(cell => cell.width * cell.height)) : 0;
+
+            layouts.push({
+                id: `${direction}:${groups.join('-')}`,
+                direction,
+                groups,
+                frames,
+                averageCrop,
+                score: averageCrop + variation * SIZE_VARIATION_WEIGHT,
+            });
+        });
+    });
+
+    // Stable order: score, then id, so the same photos always give the same alternatives
+    return layouts
+        .sort((a, b) => a.score - b.score || a.id.localeCompare(b.id))
+        .slice(0, maxAlternatives);
+}
+
+/**
+ * Layout boxes for a generated arrangement, in the shape applyLayout uses.
+ */
+export function autoLayoutToLayoutConfig(layout: AutoLayout): LayoutBox[] {
+    return layout.frames.map((frame, index) => ({
+        id: `auto-slot-${index}`,
+        role: 'slot',
+        left: frame.x,
+        top: frame.y,
+        width: frame.width,
+        height: frame.height,
+        zIndex: index,
+    }));
+}
+
+/**
+ * Place photos into a generated arrangement. `photos` may come from the page
+ * itself or from unplaced media; anything else already on the page stays,
+ * with previously slotted items frozen where their slot was.
+ */
+export function applyAutoLayoutToPage(page: Page, layout: AutoLayout, photos: Asset[]): Page {
+    const slotFor = new Map(layout.frames.map((frame, index) => [frame.photoId, index]));
+    const arranged = layout.frames
+        .map(frame => photos.find(p => p.id === frame.photoId))
+        .filter((asset): asset is Asset => !!asset)
+        .map(asset => ({
+            ...asset,
+            slotId: slotFor.get(asset.id),
+            x: 0, y: 0, width: 100, height: 100,
+            rotation: 0,
+            fitMode: 'cover' as const,
+        }));
+
+    const others = page.assets
+        .filter(asset => !slotFor.has(asset.id))
+        .map(asset => {
+            if (asset.slotId === undefined || asset.slotId === null) return asset;
+            const { slotId, ...rest } = asset;
+            const slot = page.layoutConfig?.[slotId];
+            return slot ? { ...rest, x: slot.left, y: slot.top, width: slot.width, height: slot.height } : rest;
+        });
+
+    return {
+        ...page,
+        layoutTemplate: 'auto-arrange',
+        layoutConfig: autoLayoutToLayoutConfig(layout),
+        assets: [...arranged, ...others],
+        isSpreadLayout: false,
+    };
+}
@@ -0,0 +1,221 @@
+import type { MasterPage, Page } from '../contexts/AlbumContext';
+import { resolvePageWithMaster } from './masterPages';
+import { applyPageTokens, getPageTokenContext, type TokenSource } from './pageTokens';
+
+/**
+ * Display Pages
+ * Pages as the reader sees them: facing pages split into single pages
+ * (spread layouts cut at the fold, items spilling across it copied to
+ * both sides), master content merged in and page tokens filled. The
+ * flipbook and the print export both draw these, so they always agree.
+ */
+
+export interface DisplaySource extends TokenSource {
+    masterPages?: MasterPage[];
+}
+
+/**
+ * Split facing pages into single pages in 0-100% page coordinates.
+ * The input pages are not modified.
+ */
+export function splitSpreadPages(pages: Page[]): Page[] {
+    const newPages = pages.map(p => ({
+        ...p,
+        assets: p.assets ? [...p.assets] : [],
+        textLayers: p.textLayers ? [...p.textLayers] : [],
+        layoutConfig: p.layoutConfig ? [...p.layoutConfig] : [],
+    }));
+
+    for (let i = 1; i < newPages.length - 1; i += 2) {
+        const leftPage = newPages[i];
+        const rightPage = newPages[i + 1];
+        if (!rightPage) break;
+
+        const isSpread = leftPage.isSpreadLayout;
+
+        // ═══════════════════════════════════════════════════════════════════
+        // COORDINATE SYSTEMS:
+        //
+        // 1. layoutConfig boxes & textLayers (isInSlot=true in editor):
+        //    Stored in 0-50% "half-spread" coordinates.
+        //    Need *2 to convert to 0-100% single-page space.
+        //
+        // 2. Freeform assets (isInSlot=false in editor):
+        //    Stored in 0-100% single-page coordinates.
+        //    NO scaling needed. But cross-page spillover is needed
+        //    when an asset is dragged past the page boundary.
+        // ═══════════════════════════════════════════════════════════════════
+
+        // ── STEP 1: BACKGROUND BLEEDING ───────────────────────────────────
+        if (isSpread && leftPage.backgroundImage && !rightPage.backgroundImage) {
+            rightPage.backgroundImage = leftPage.backgroundImage;
+            rightPage.backgroundColor = leftPage.backgroundColor;
+            rightPage.backgroundOpacity = leftPage.backgroundOpacity;
+            rightPage.backgroundScale = leftPage.backgroundScale || 'cover';
+        }
+
+        // ── STEP 2: LAYOUT CONFIG — scale (*2) and split (spread only) ────
+        if (isSpread) {
+            const leftBoxes: any[] = [];
+            const rightBoxes: any[] = [];
+            const leftSlotMap = new Map<number, number>();
+            const rightSlotMap = new Map<number, number>();
+
+            (leftPage.layoutConfig || []).forEach((box: any, originalIdx: number) => {
+                if (!box) return;
+                const scaledLeft  = (box.left ?? box.x ?? 0) * 2;
+                const scaledWidth = (box.width ?? 100) * 2;
+
+                if (scaledLeft < 100) {
+                    leftBoxes.push({
+                        ...box,
+                        left: scaledLeft,
+                        top: box.top ?? box.y ?? 0,
+                        width: scaledWidth,
+                        _originalIdx: originalIdx,
+                        _scaledLeft: scaledLeft,
+                        _scaledWidth: scaledWidth,
+                    });
+                    leftSlotMap.set(originalIdx, leftBoxes.length - 1);
+                }
+
+                if (scaledLeft + scaledWidth > 100) {
+                    rightBoxes.push({
+                        ...box,
+                        id: `spill-${box.id || originalIdx}`,
+                        left: scaledLeft - 100,
+                        top: box.top ?? box.y ?? 0,
+                        width: scaledWidth,
+                        _originalIdx: originalIdx,
+                    });
+                    rightSlotMap.set(originalIdx, rightBoxes.length - 1);
+                }
+            });
+
+            leftPage.layoutConfig = leftBoxes;
+            rightPage.layoutConfig = [...(rightPage.layoutConfig || []), ...rightBoxes];
+
+            // Route slotted assets to the correct page
+            const leftSlotAssets: any[] = [];
+            const rightSlotAssets: any[] = [];
+            (leftPage.assets || []).forEach((asset: any) => {
+                if (asset.slotId !== undefined && asset.slotId !== null) {
+                    if (leftSlotMap.has(asset.slotId)) {
+                        leftSlotAssets.push({ ...asset, slotId: leftSlotMap.get(asset.slotId) });
+                    }
+                    if (rightSlotMap.has(asset.slotId)) {
+                        rightSlotAssets.push({ ...asset, id: `spill-${asset.id}`, slotId: rightSlotMap.get(asset.slotId) });
+                    }
+                }
+            });
+            // Keep only freeform assets on each page, add routed slot assets
+            const leftFreeform = (leftPage.assets || []).filter((a: any) => a.slotId === undefined || a.slotId === null);
+            leftPage.assets = [...leftFreeform, ...leftSlotAssets];
+            rightPage.assets = [...(rightPage.assets || []), ...rightSlotAssets];
+        }
+
+        // ── STEP 3: FREEFORM ASSETS — cross-page spillover (both modes) ──
+        {
+            const leftSpill: any[] = [];
+            const rightSpill: any[] = [];
+
+            // Left-page freeform assets that overflow right
+            (leftPage.assets || []).forEach((asset: any) => {
+                if (asset.slotId !== undefined && asset.slotId !== null) return;
+                const ax = asset.x ?? 0;
+                const aw = asset.width ?? 100;
+                if (ax + aw > 100) {
+                    rightSpill.push({
+                        ...asset,
+                        id: `spill-${asset.id}`,
+                        x: ax - 100,
+                        width: aw
+                    });
+                }
+            });
+
+            // Right-page freeform assets that overflow left
+            (rightPage.assets || []).forEach((asset: any) => {
+                if (asset.slotId !== undefined && asset.slotId !== null) return;
+                const ax = asset.x ?? 0;
+                const aw = asset.width ?? 100;
+                if (ax < 0) {
+                    leftSpill.push({
+                        ...asset,
+                        id: `spill-left-${asset.id}`,
+                        x: ax + 100,
+                        width: aw
+                    });
+                }
+            });
+
+            if (leftSpill.length > 0) leftPage.assets = [...(leftPage.assets || []), ...leftSpill];
+            if (rightSpill.length > 0) rightPage.assets = [...(rightPage.assets || []), ...rightSpill];
+        }
+
+        // ── STEP 4: TEXT LAYERS — scale (*2) and split ─────────────────────
+        {
+            const leftText:  any[] = [];
+            const rightText: any[] = [];
+
+            // Left-page text layers: scale *2 (half-spread → page coords) and split
+            (leftPage.textLayers || []).forEach((layer: any) => {
+                const scaledLeft  = (layer.left ?? layer.x ?? 0) * 2;
+                const scaledWidth = (layer.width ?? 0) * 2;
+
+                if (scaledLeft < 100) {
+                    leftText.push({
+                        ...layer,
+                        left: scaledLeft,
+                        width: scaledWidth
+                    });
+                }
+                if (scaledLeft + scaledWidth > 100) {
+                    rightText.push({
+                        ...layer,
+                        id: `spill-${layer.id}`,
+                        left: scaledLeft - 100,
+                        width: scaledWidth
+                    });
+                }
+            });
+
+            // Right-page text layers: scale *2 and split
+            (rightPage.textLayers || []).forEach((layer: any) => {
+                const scaledLeft  = (layer.left ?? layer.x ?? 0) * 2;
+                const scaledWidth = (layer.width ?? 0) * 2;
+
+                if (scaledLeft < 100) {
+                    rightText.push({
+                        ...layer,
+                        left: scaledLeft,
+                        width: scaledWidth
+                    });
+                }
+                if (scaledLeft + scaledWidth > 100) {
+                    // Spills further right — no more pages, just include on right
+                    rightText.push({
+                        ...layer,
+                        left: scaledLeft,
+                        width: scaledWidth
+                    });
+                }
+            });
+
+            leftPage.textLayers = leftText;
+            rightPage.textLayers = rightText;
+        }
+    }
+
+    return newPages;
+}
+
+/**
+ * Pages ready to draw, one per physical page.
+ */
+export function getDisplayPages(source: DisplaySource): Page[] {
+    // Master content is per page, so it is merged in after spreads are split;
+    // page tokens are filled last so master text gets them too
+    return splitSpreadPages(source.pages).map((p, i) =>
+        applyPageTokens(resolvePageWithMaster(p, source.masterPages), getPageTokenContext(source, i)));
+}
@@ -0,0 +1,280 @@
+import { escapeHtml } from './htmlArchive';
+import type { ZipEntry } from './zip';
+import {
+    formatHashtag,
+    formatStoryDate,
+    runsToText,
+    type EventStory,
+    type StoryBlock,
+    type StoryRun,
+} from './eventStory';
+
+/**
+ * Event EPUB
+ * An event story as an EPUB 3 book with an EPUB 2 table of contents for
+ * older readers: a title page with the event facts and hashtags, the story
+ * with its headings, emphasis and captioned images, the gallery and the
+ * reviews, one XHTML file each. Images are packed inside the book, so it
+ * reads offline on an e-reader. Pure: the caller loads the image files and
+ * zips the entries (mimetype first, as the format requires).
+ */
+
+export interface EpubImage {
+    path: string;               // Inside OEBPS, e.g. "images/0001.jpg"
+    type: string;               // One of EPUB_IMAGE_TYPES
+    data: Uint8Array;
+}
+
+export interface EventEpubOptions {
+    modifiedAt?: Date;
+    language?: string;
+}
+
+// Core media types every EPUB reader displays
+export const EPUB_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+interface Chapter {
+    id: string;
+    file: string;
+    title: string;
+    body: string;
+}
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3, h4 { font-family: sans-serif; line-height: 1.2; page-break-after: avoid; }
+.title-page { text-align: center; margin-top: 20%; }
+.category { font-family: sans-serif; font-size: 0.75em; letter-spacing: 0.2em; text-transform: uppercase; }
+.facts { font-style: italic; }
+.hashtags { font-family: sans-serif; font-size: 0.85em; }
+figure { margin: 1.5em 0; text-align: center; page-break-inside: avoid; }
+figure img { max-width: 100%; max-height: 90vh; }
+figcaption { font-size: 0.85em; font-style: italic; margin-top: 0.4em; }
+blockquote { margin: 1em 1.5em; font-style: italic; }
+pre { white-space: pre-wrap; font-size: 0.85em; }
+.align-center { text-align: center; }
+.align-right { text-align: right; }
+.align-justify { text-align: justify; }
+.review { margin: 1.5em 0; }
+.review-meta { font-family: sans-serif; font-size: 0.8em; }
+`;
+
+// ============================================================================
+// XHTML
+// ============================================================================
+
+function xhtml(title: string, body: string, language: string) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function runHtml(run: StoryRun) {
+    if (run.text === '\n') return '<br />';
+    let html = escapeHtml(run.text);
+    if (run.code) html = `<code>${html}</code>`;
+    if (run.bold) html = `<strong>${html}</strong>`;
+    if (run.italic) html = `<em>${html}</em>`;
+    if (run.underline) html = `<u>${html}</u>`;
+    if (run.strike) html = `<s>${html}</s>`;
+    if (run.href && /^(https?:|mailto:)/i.test(run.href)) html = `<a href="${escapeHtml(run.href)}">${html}</a>`;
+    return html;
+}
+
+function runsHtml(runs: StoryRun[]) {
+    return runs.map(runHtml).join('');
+}
+
+function figureHtml(url: string, caption: string | undefined, images: Map<string, EpubImage>) {
+    const image = images.get(url);
+    const captionHtml = caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : '';
+    if (!image) return caption ? `<p class="facts">[Photo: ${escapeHtml(caption)}]</p>` : '';
+    return `<figure><img src="${escapeHtml(image.path)}" alt="${escapeHtml(caption || '')}" />${captionHtml}</figure>`;
+}
+
+function blockHtml(block: StoryBlock, images: Map<string, EpubImage>) {
+    switch (block.kind) {
+        // The event title is the book's only h1, so story headings start one level down
+        case 'heading': return `<h${block.level + 1}>${runsHtml(block.runs)}</h${block.level + 1}>`;
+        case 'paragraph': return `<p${block.align ? ` class="align-${block.align}"` : ''}>${runsHtml(block.runs)}</p>`;
+        case 'quote': return `<blockquote><p>${runsHtml(block.runs)}</p></blockquote>`;
+        case 'list': {
+            const tag = block.ordered ? 'ol' : 'ul';
+            return `<${tag}>${block.items.map(item => `<li>${runsHtml(item)}</li>`).join('')}</${tag}>`;
+        }
+        case 'code': return `<pre>${escapeHtml(block.text)}</pre>`;
+        case 'image': return figureHtml(block.url, block.caption, images);
+        case 'rule': return '<hr />';
+    }
+}
+
+function titleChapter(story: EventStory): Chapter {
+    const facts = [formatStoryDate(story.date), story.location].filter(Boolean).map(fact => escapeHtml(fact!)).join(' · ');
+    const body = [
+        '<section class="title-page" epub:type="titlepage">',
+        story.category ? `<p class="category">${escapeHtml(story.category)}</p>` : '',
+        `<h1>${escapeHtml(story.title)}</h1>`,
+        `<p class="facts">${facts}</p>`,
+        story.participants.length > 0 ? `<p>With ${escapeHtml(story.participants.join(', '))}</p>` : '',
+        story.hashtags.length > 0 ? `<p class="hashtags">${escapeHtml(story.hashtags.map(formatHashtag).join(' '))}</p>` : '',
+        '</section>',
+    ];
+    return { id: 'title', file: 'title.xhtml', title: story.title, body: body.filter(Boolean).join('\n') };
+}
+
+function storyChapter(story: EventStory, images: Map<string, EpubImage>): Chapter | null {
+    if (story.blocks.length === 0) return null;
+    const body = story.blocks.map(block => blockHtml(block, images)).filter(Boolean).join('\n');
+    return { id: 'story', file: 'story.xhtml', title: 'The Story', body: `<section epub:type="chapter">\n${body}\n</section>` };
+}
+
+function galleryChapter(story: EventStory, images: Map<string, EpubImage>): Chapter | null {
+    if (story.gallery.length === 0) return null;
+    const videos = story.gallery.filter(item => item.type === 'video').length;
+    const body = story.gallery
+        .filter(item => item.type === 'image')
+        .map(item => figureHtml(item.url, item.caption, images))
+        .filter(Boolean);
+    // E-readers do not play video; the count tells the reader what is left out
+    if (videos > 0) body.push(`<p class="facts">${videos} video${videos === 1 ? '' : 's'} can be watched in the family archive.</p>`);
+    return { id: 'gallery', file: 'gallery.xhtml', title: 'Gallery', body: `<section epub:type="chapter">\n<h2>Gallery</h2>\n${body.join('\n')}\n</section>` };
+}
+
+function reviewsChapter(story: EventStory): Chapter | null {
+    if (story.reviews.length === 0) return null;
+    const body = story.reviews.map(review => [
+        '<div class="review">',
+        `<p class="review-meta"><strong>${escapeHtml(review.author)}</strong> · Rated ${review.rating} of 5 · ${escapeHtml(formatStoryDate(review.createdAt))}</p>`,
+        review.comment ? `<p>${escapeHtml(review.comment)}</p>` : '',
+        '</div>',
+    ].filter(Boolean).join('\n'));
+    return { id: 'reviews', file: 'reviews.xhtml', title: 'Reviews', body: `<section epub:type="chapter">\n<h2>Reviews</h2>\n${body.join('\n')}\n</section>` };
+}
+
+// ============================================================================
+// PACKAGE
+// ============================================================================
+
+// The opening of the story, shown in the e-reader's library
+function description(story: EventStory, length = 300) {
+    const text = story.blocks
+        .map(block => block.kind === 'paragraph' || block.kind === 'quote' ? runsToText(block.runs).replace(/\n/g, ' ') : '')
+        .filter(Boolean)
+        .join(' ');
+    return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+function containerXml() {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>
+`;
+}
+
+function navXhtml(story: EventStory, chapters: Chapter[], language: string) {
+    const items = chapters.map(chapter => `<li><a href="${chapter.file}">${escapeHtml(chapter.title)}</a></li>`).join('\n');
+    return xhtml(story.title, `<nav epub:type="toc" id="toc">\n<h1>Contents</h1>\n<ol>\n${items}\n</ol>\n</nav>`, language);
+}
+
+function tocNcx(story: EventStory, chapters: Chapter[], identifier: string) {
+    const points = chapters.map((chapter, index) => `<navPoint id="nav-${chapter.id}" playOrder="${index + 1}">
+<navLabel><text>${escapeHtml(chapter.title)}</text></navLabel>
+<content src="${chapter.file}" />
+</navPoint>`).join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head>
+<meta name="dtb:uid" content="${escapeHtml(identifier)}" />
+<meta name="dtb:depth" content="1" />
+<meta name="dtb:totalPageCount" content="0" />
+<meta name="dtb:maxPageNumber" content="0" />
+</head>
+<docTitle><text>${escapeHtml(story.title)}</text></docTitle>
+<navMap>
+${points}
+</navMap>
+</ncx>
+`;
+}
+
+function contentOpf(story: EventStory, chapters: Chapter[], images: EpubImage[], identifier: string, options: Required<EventEpubOptions>) {
+    // dcterms:modified wants whole seconds in UTC
+    const modified = options.modifiedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const metadata = [
+        `<dc:identifier id="book-id">${escapeHtml(identifier)}</dc:identifier>`,
+        `<dc:title>${escapeHtml(story.title)}</dc:title>`,
+        `<dc:language>${escapeHtml(options.language)}</dc:language>`,
+        `<dc:date>${escapeHtml(story.date.slice(0, 10))}</dc:date>`,
+        ...(description(story) ? [`<dc:description>${escapeHtml(description(story))}</dc:description>`] : []),
+        ...(story.location ? [`<dc:coverage>${escapeHtml(story.location)}</dc:coverage>`] : []),
+        ...story.participants.map(name => `<dc:contributor>${escapeHtml(name)}</dc:contributor>`),
+        ...story.hashtags.map(tag => `<dc:subject>${escapeHtml(formatHashtag(tag))}</dc:subject>`),
+        `<meta property="dcterms:modified">${modified}</meta>`,
+    ];
+    const manifest = [
+        '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />',
+        '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />',
+        '<item id="css" href="style.css" media-type="text/css" />',
+        ...chapters.map(chapter => `<item id="${chapter.id}" href="${chapter.file}" media-type="application/xhtml+xml" />`),
+        ...images.map((image, index) => `<item id="img-${index + 1}" href="${escapeHtml(image.path)}" media-type="${image.type}" />`),
+    ];
+    const spine = chapters.map(chapter => `<itemref idref="${chapter.id}" />`);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeHtml(options.language)}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+</metadata>
+<manifest>
+${manifest.join('\n')}
+</manifest>
+<spine toc="ncx">
+${spine.join('\n')}
+</spine>
+</package>
+`;
+}
+
+/**
+ * Files of the book in the order they must be zipped. `images` maps the
+ * story's image URLs to the loaded files; images that are missing from it
+ * keep only their caption.
+ */
+export function buildEventEpub(story: EventStory, images: Map<string, EpubImage>, options: EventEpubOptions = {}): ZipEntry[] {
+    const resolved: Required<EventEpubOptions> = {
+        modifiedAt: options.modifiedAt || new Date(),
+        language: options.language || 'en',
+    };
+    const identifier = `urn:zfam:event:${story.id}`;
+    const chapters = [
+        titleChapter(story),
+        storyChapter(story, images),
+        galleryChapter(story, images),
+        reviewsChapter(story),
+    ].filter((chapter): chapter is Chapter => chapter !== null);
+
+    const packed = Array.from(new Map(Array.from(images.values()).map(image => [image.path, image])).values());
+    const modifiedAt = resolved.modifiedAt;
+    return [
+        { path: 'mimetype', data: 'application/epub+zip', modifiedAt },
+        { path: 'META-INF/container.xml', data: containerXml(), modifiedAt },
+        { path: 'OEBPS/content.opf', data: contentOpf(story, chapters, packed, identifier, resolved), modifiedAt },
+        { path: 'OEBPS/nav.xhtml', data: navXhtml(story, chapters, resolved.language), modifiedAt },
+        { path: 'OEBPS/toc.ncx', data: tocNcx(story, chapters, identifier), modifiedAt },
+        { path: 'OEBPS/style.css', data: STYLESHEET, modifiedAt },
+        ...chapters.map(chapter => ({ path: `OEBPS/${chapter.file}`, data: xhtml(chapter.title, chapter.body, resolved.language), modifiedAt })),
+        ...packed.map(image => ({ path: `OEBPS/${image.path}`, data: image.data, modifiedAt })),
+    ];
+}
+
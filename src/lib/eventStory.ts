@@ -0,0 +1,310 @@
+import type { Event } from '../types/supabase';
+
+/**
+ * Event Story
+ * An event as a document for export: the header facts (title, category,
+ * date, location, participants, hashtags), the TipTap story broken into
+ * blocks (headings, paragraphs of styled runs, lists, quotes, images with
+ * their captions), the gallery and the reviews. The PDF and EPUB writers
+ * both read this model, so the two exports carry the same content.
+ */
+
+export interface StoryRun {
+    text: string;               // "\n" is a hard line break
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    href?: string;
+}
+
+export type StoryAlign = 'left' | 'center' | 'right' | 'justify';
+
+export type StoryBlock =
+    | { kind: 'heading'; level: 1 | 2 | 3; runs: StoryRun[] }
+    | { kind: 'paragraph'; runs: StoryRun[]; align?: StoryAlign }
+    | { kind: 'quote'; runs: StoryRun[] }
+    | { kind: 'list'; ordered: boolean; items: StoryRun[][] }
+    | { kind: 'code'; text: string }
+    | { kind: 'image'; url: string; caption?: string }
+    | { kind: 'rule' };
+
+export interface StoryMedia {
+    url: string;
+    type: 'image' | 'video';
+    caption?: string;
+}
+
+export interface StoryReview {
+    author: string;
+    rating: number;             // 1-5
+    comment: string;
+    createdAt: string;
+}
+
+export interface EventStory {
+    id: string;
+    title: string;
+    category?: string;
+    date: string;               // YYYY-MM-DD
+    location?: string;
+    participants: string[];
+    hashtags: string[];
+    blocks: StoryBlock[];
+    gallery: StoryMedia[];
+    reviews: StoryReview[];
+}
+
+type RunStyle = Omit<StoryRun, 'text'>;
+
+interface AssetRow {
+    url?: string;
+    type?: string;
+    caption?: string;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * The event's day as written in the story header; event dates are days, so
+ * they are not shifted into the reader's time zone.
+ */
+export function formatStoryDate(date: string) {
+    const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+    if (isNaN(day.getTime())) return date;
+    return day.toLocaleDateString(undefined, { dateStyle: 'long', timeZone: 'UTC' });
+}
+
+export function formatHashtag(tag: string) {
+    return tag.startsWith('#') ? tag : `#${tag}`;
+}
+
+export function runsToText(runs: StoryRun[]) {
+    return runs.map(run => run.text).join('');
+}
+
+/**
+ * Every image URL the story and gallery need, story images first.
+ */
+export function collectStoryImages(story: EventStory): string[] {
+    const urls = [
+        ...story.blocks.flatMap(block => block.kind === 'image' ? [block.url] : []),
+        ...story.gallery.filter(item => item.type === 'image').map(item => item.url),
+    ];
+    return Array.from(new Set(urls));
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const ALIGNMENTS: StoryAlign[] = ['left', 'center', 'right', 'justify'];
+
+// Read as part of the surrounding paragraph when they sit between blocks
+const INLINE_TAGS = ['strong', 'b', 'em', 'i', 'u', 's', 'strike', 'del', 'a', 'span', 'code', 'mark', 'br'];
+
+function sameStyle(a: StoryRun, b: StoryRun) {
+    return !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.underline === !!b.underline &&
+        !!a.strike === !!b.strike && !!a.code === !!b.code && a.href === b.href;
+}
+
+/**
+ * Collapse HTML whitespace across run boundaries, trim the ends and merge
+ * neighbouring runs of the same style.
+ */
+function normalizeRuns(runs: StoryRun[]): StoryRun[] {
+    const merged: StoryRun[] = [];
+    let atLineStart = true;
+    runs.forEach(run => {
+        let text = run.text === '\n' ? '\n' : run.text.replace(/\s+/g, ' ');
+        if (atLineStart) text = text.replace(/^ /, '');
+        if (!text) return;
+        atLineStart = text.endsWith(' ') || text === '\n';
+        const last = merged[merged.length - 1];
+        if (last && last.text !== '\n' && text !== '\n' && sameStyle(last, run)) last.text += text;
+        else merged.push({ ...run, text });
+    });
+    while (merged.length > 0) {
+        const last = merged[merged.length - 1];
+        last.text = last.text === '\n' ? '' : last.text.replace(/ $/, '');
+        if (last.text) break;
+        merged.pop();
+    }
+    return merged;
+}
+
+function imageBlock(element: Element, caption?: string): StoryBlock | null {
+    const url = element.getAttribute('src');
+    if (!url) return null;
+    const text = (caption || element.getAttribute('title') || element.getAttribute('alt') || '').trim();
+    return { kind: 'image', url, ...(text && { caption: text }) };
+}
+
+/**
+ * Styled text of an inline node. Images met along the way are lifted out
+ * into `images`, to follow the block they sat in.
+ */
+function inlineNode(node: Node, style: RunStyle, runs: StoryRun[], images: StoryBlock[]) {
+    if (node.nodeType === Node.TEXT_NODE) {
+        if (node.textContent) runs.push({ ...style, text: node.textContent });
+        return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    switch (element.tagName.toLowerCase()) {
+        case 'br': runs.push({ ...style, text: '\n' }); return;
+        case 'img': {
+            const image = imageBlock(element);
+            if (image) images.push(image);
+            return;
+        }
+        case 'strong': case 'b': inlineRuns(element, { ...style, bold: true }, runs, images); return;
+        case 'em': case 'i': inlineRuns(element, { ...style, italic: true }, runs, images); return;
+        case 'u': inlineRuns(element, { ...style, underline: true }, runs, images); return;
+        case 's': case 'strike': case 'del': inlineRuns(element, { ...style, strike: true }, runs, images); return;
+        case 'code': inlineRuns(element, { ...style, code: true }, runs, images); return;
+        case 'a': inlineRuns(element, { ...style, href: element.getAttribute('href') || undefined }, runs, images); return;
+        default: inlineRuns(element, style, runs, images);
+    }
+}
+
+function inlineRuns(parent: Node, style: RunStyle, runs: StoryRun[], images: StoryBlock[]) {
+    parent.childNodes.forEach(child => inlineNode(child, style, runs, images));
+}
+
+function blockRuns(element: Element, images: StoryBlock[]) {
+    const runs: StoryRun[] = [];
+    inlineRuns(element, {}, runs, images);
+    return normalizeRuns(runs);
+}
+
+function alignOf(element: Element): StoryAlign | undefined {
+    const align = (element as HTMLElement).style?.textAlign as StoryAlign;
+    return ALIGNMENTS.includes(align) && align !== 'left' ? align : undefined;
+}
+
+function listItems(list: Element, images: StoryBlock[]): StoryRun[][] {
+    const items: StoryRun[][] = [];
+    Array.from(list.children).forEach(item => {
+        if (item.tagName.toLowerCase() !== 'li') return;
+        const runs: StoryRun[] = [];
+        const nested: Element[] = [];
+        item.childNodes.forEach(child => {
+            const tag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).tagName.toLowerCase() : '';
+            if (tag === 'ul' || tag === 'ol') {
+                nested.push(child as Element);
+                return;
+            }
+            if (runs.length > 0 && (tag === 'p' || tag === 'div')) runs.push({ text: '\n' });
+            inlineNode(child, {}, runs, images);
+        });
+        const text = normalizeRuns(runs);
+        if (text.length > 0) items.push(text);
+        // Nested lists are read as further items, indented by a dash
+        nested.forEach(sublist => listItems(sublist, images).forEach(subitem => items.push([{ text: '– ' }, ...subitem])));
+    });
+    return items;
+}
+
+function parseBlocks(parent: Element, blocks: StoryBlock[], inQuote = false) {
+    let loose: StoryRun[] = [];
+    const looseImages: StoryBlock[] = [];
+    const flushLoose = () => {
+        const runs = normalizeRuns(loose);
+        if (runs.length > 0) blocks.push(inQuote ? { kind: 'quote', runs } : { kind: 'paragraph', runs });
+        blocks.push(...looseImages.splice(0));
+        loose = [];
+    };
+
+    parent.childNodes.forEach(child => {
+        const tag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).tagName.toLowerCase() : '';
+        if (child.nodeType === Node.TEXT_NODE || INLINE_TAGS.includes(tag)) {
+            inlineNode(child, {}, loose, looseImages);
+            return;
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) return;
+        const element = child as Element;
+        const images: StoryBlock[] = [];
+        flushLoose();
+
+        if (/^h[1-6]$/.test(tag)) {
+            const runs = blockRuns(element, images);
+            if (runs.length > 0) blocks.push({ kind: 'heading', level: Math.min(3, Number(tag[1])) as 1 | 2 | 3, runs });
+        } else if (tag === 'p') {
+            const runs = blockRuns(element, images);
+            if (runs.length > 0) {
+                const align = alignOf(element);
+                blocks.push(inQuote ? { kind: 'quote', runs } : { kind: 'paragraph', runs, ...(align && { align }) });
+            }
+        } else if (tag === 'ul' || tag === 'ol') {
+            const items = listItems(element, images);
+            if (items.length > 0) blocks.push({ kind: 'list', ordered: tag === 'ol', items });
+        } else if (tag === 'blockquote') {
+            parseBlocks(element, blocks, true);
+        } else if (tag === 'pre') {
+            const text = element.textContent || '';
+            if (text.trim()) blocks.push({ kind: 'code', text: text.replace(/\n+$/, '') });
+        } else if (tag === 'hr') {
+            blocks.push({ kind: 'rule' });
+        } else if (tag === 'img') {
+            const image = imageBlock(element);
+            if (image) images.push(image);
+        } else if (tag === 'figure') {
+            const img = element.querySelector('img');
+            const caption = element.querySelector('figcaption')?.textContent || undefined;
+            const image = img ? imageBlock(img, caption) : null;
+            if (image) images.push(image);
+        } else {
+            parseBlocks(element, blocks, inQuote);
+        }
+        blocks.push(...images);
+    });
+    flushLoose();
+}
+
+/**
+ * Blocks of a TipTap story (HTML). Colors, fonts and highlights are left
+ * to the reader's device; structure and emphasis are kept.
+ */
+export function parseStoryHtml(html: string): StoryBlock[] {
+    if (!html.trim()) return [];
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const blocks: StoryBlock[] = [];
+    parseBlocks(doc.body, blocks);
+    return blocks;
+}
+
+/**
+ * The story of an `events` row: the description holds the TipTap story
+ * (older rows kept it in content.description), content.assets the gallery.
+ */
+export function eventToStory(event: Event, reviews: StoryReview[] = []): EventStory {
+    let content = event.content;
+    if (typeof content === 'string') {
+        try { content = JSON.parse(content); } catch { content = {}; }
+    }
+
+    const gallery: StoryMedia[] = ((content?.assets || []) as AssetRow[])
+        .filter(asset => asset?.url)
+        .map(asset => ({
+            url: asset.url!,
+            type: asset.type === 'video' ? 'video' : 'image',
+            ...(asset.caption?.trim() && { caption: asset.caption.trim() }),
+        }));
+
+    return {
+        id: event.id,
+        title: event.title || 'Untitled Event',
+        category: event.category || undefined,
+        date: event.event_date,
+        location: event.location || undefined,
+        participants: event.participants || [],
+        hashtags: event.hashtags || [],
+        blocks: parseStoryHtml(event.description || content?.description || ''),
+        gallery,
+        reviews,
+    };
+}
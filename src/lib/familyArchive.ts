@@ -0,0 +1,380 @@
+import _ from 'lodash';
+import { replaceAlbumUrls, type AlbumArchiveMedia } from './albumArchive';
+import { escapeHtml } from './htmlArchive';
+import type { Database, Json } from '../types/supabase';
+import type { UnifiedAlbum, UnifiedAsset, UnifiedMasterPage } from '../types/album';
+
+/**
+ * Family Archive
+ * Everything a family has stored, as one zip that survives losing the hosted
+ * database: manifest.json, one JSON file per table under data/ (albums as
+ * UnifiedAlbums), every media file under media/ with the data pointing at
+ * those paths, and an index.html to browse it all without the app.
+ */
+
+// ============================================================================
+// FORMAT
+// ============================================================================
+
+export const FAMILY_ARCHIVE_FORMAT = 'family-archive';
+export const FAMILY_ARCHIVE_VERSION = 1;
+export const FAMILY_ARCHIVE_MANIFEST = 'manifest.json';
+
+export type FamilyEventRow = Database['public']['Tables']['events']['Row'];
+export type FamilyStackRow = Database['public']['Tables']['stacks']['Row'];
+export type FamilyMediaRow = Database['public']['Tables']['family_media']['Row'];
+
+export interface FamilyReviewRow {
+    id: string;
+    event_id: string;
+    user_id: string | null;
+    rating: number | null;
+    comment: string;
+    created_at: string;
+}
+
+/**
+ * Display data of a member; accounts themselves cannot be exported.
+ */
+export interface FamilyMemberRecord {
+    id: string;
+    full_name: string | null;
+    avatar_url: string | null;
+    role: string | null;
+}
+
+export interface FamilyArchiveData {
+    events: FamilyEventRow[];
+    albums: UnifiedAlbum[];
+    stacks: FamilyStackRow[];
+    media: FamilyMediaRow[];
+    reviews: FamilyReviewRow[];
+    members: FamilyMemberRecord[];
+}
+
+export type FamilyArchiveSection = keyof FamilyArchiveData;
+
+export const FAMILY_ARCHIVE_SECTIONS: FamilyArchiveSection[] = ['events', 'albums', 'stacks', 'media', 'reviews', 'members'];
+
+export const FAMILY_ARCHIVE_PATHS: Record<FamilyArchiveSection, string> = {
+    events: 'data/events.json',
+    albums: 'data/albums.json',
+    stacks: 'data/stacks.json',
+    media: 'data/family_media.json',
+    reviews: 'data/reviews.json',
+    members: 'data/members.json',
+};
+
+export interface FamilyArchiveManifest {
+    format: typeof FAMILY_ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    family: { id: string; name: string };
+    counts: Record<FamilyArchiveSection, number>;
+    files: AlbumArchiveMedia[];     // Media in the archive and the URL each replaced
+    missing: string[];              // Media URLs that could not be downloaded
+}
+
+const REMOTE_URL = /^https?:\/\//i;
+
+const HTML_SOURCE = /\b(src|poster)\s*=\s*(["'])(.*?)\2/gi;
+
+// ============================================================================
+// MEDIA URLS
+// ============================================================================
+
+interface StackMediaItem {
+    url?: string;
+    type?: string;
+}
+
+function eventAssets(event: FamilyEventRow): StackMediaItem[] {
+    const content = event.content as { assets?: StackMediaItem[] } | null;
+    return Array.isArray(content?.assets) ? content.assets : [];
+}
+
+function stackItems(stack: FamilyStackRow): StackMediaItem[] {
+    return Array.isArray(stack.media_items) ? stack.media_items as StackMediaItem[] : [];
+}
+
+function decodeAttribute(value: string) {
+    return value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+}
+
+/**
+ * Image and video sources embedded in rich event descriptions.
+ */
+export function collectHtmlMediaUrls(html: string | null): string[] {
+    if (!html) return [];
+    return [...html.matchAll(HTML_SOURCE)].map(match => decodeAttribute(match[3]));
+}
+
+/**
+ * Every media reference in the family's data: remote URLs before export,
+ * archive paths after.
+ */
+export function collectFamilyMediaRefs(data: FamilyArchiveData): string[] {
+    const refs = [
+        ...data.events.flatMap(event => [...eventAssets(event).map(asset => asset.url), ...collectHtmlMediaUrls(event.description)]),
+        ...data.albums.flatMap(album => [
+            album.coverImageUrl,
+            ...album.pages.flatMap(page => [page.background?.imageUrl, ...page.assets.map(asset => asset.url)]),
+            ...((album.config.masterPages || []) as UnifiedMasterPage[]).flatMap(master => [master.background?.imageUrl, ...master.assets.map(asset => asset.url)]),
+            ...((album.config.unplacedMedia || []) as UnifiedAsset[]).map(asset => asset.url),
+        ]),
+        ...data.stacks.flatMap(stack => [stack.cover_url, stack.music_url, ...stackItems(stack).map(item => item.url)]),
+        ...data.media.map(row => row.url),
+        ...data.members.map(member => member.avatar_url),
+    ];
+    return _.uniq(refs.filter((ref): ref is string => !!ref && !ref.startsWith('data:')));
+}
+
+/**
+ * Every remote media URL the family's data refers to.
+ */
+export function collectFamilyMediaUrls(data: FamilyArchiveData): string[] {
+    return collectFamilyMediaRefs(data).filter(url => REMOTE_URL.test(url));
+}
+
+/**
+ * URLs known to be videos, so files without a content type get the right
+ * extension.
+ */
+export function collectFamilyVideoUrls(data: FamilyArchiveData): Set<string> {
+    const items = [
+        ...data.events.flatMap(eventAssets),
+        ...data.stacks.flatMap(stackItems),
+        ...data.media,
+        ...data.albums.flatMap(album => album.pages.flatMap(page => page.assets)),
+    ];
+    return new Set(items.filter(item => item.type === 'video' && item.url).map(item => item.url!));
+}
+
+function replaceHtmlUrls(html: string, urls: Map<string, string>) {
+    return html.replace(HTML_SOURCE, (match, attribute: string, quote: string, value: string) => {
+        const replacement = urls.get(decodeAttribute(value));
+        return replacement === undefined ? match : `${attribute}=${quote}${escapeHtml(replacement)}${quote}`;
+    });
+}
+
+function replaceJsonUrls<T>(value: T, urls: Map<string, string>): T {
+    return _.cloneDeepWith(value, item =>
+        typeof item === 'string' && urls.has(item) ? urls.get(item) : undefined
+    );
+}
+
+/**
+ * Copy of the data with every media URL found in `urls` replaced, in table
+ * columns, JSON content and description HTML alike.
+ */
+export function replaceFamilyUrls(data: FamilyArchiveData, urls: Map<string, string>): FamilyArchiveData {
+    return {
+        events: data.events.map(event => ({
+            ...replaceJsonUrls(event, urls),
+            description: event.description ? replaceHtmlUrls(event.description, urls) : event.description,
+        })),
+        albums: data.albums.map(album => replaceAlbumUrls(album, urls)),
+        stacks: replaceJsonUrls(data.stacks, urls),
+        media: replaceJsonUrls(data.media, urls),
+        reviews: data.reviews,
+        members: replaceJsonUrls(data.members, urls),
+    };
+}
+
+// ============================================================================
+// MANIFEST
+// ============================================================================
+
+export function buildFamilyManifest(
+    family: FamilyArchiveManifest['family'],
+    data: FamilyArchiveData,
+    files: AlbumArchiveMedia[],
+    missing: string[],
+    exportedAt = new Date()
+): FamilyArchiveManifest {
+    return {
+        format: FAMILY_ARCHIVE_FORMAT,
+        version: FAMILY_ARCHIVE_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        family,
+        counts: _.mapValues(FAMILY_ARCHIVE_PATHS, (_path, section) => data[section as FamilyArchiveSection].length) as Record<FamilyArchiveSection, number>,
+        files,
+        missing,
+    };
+}
+
+/**
+ * Validated manifest; throws for other files and for archives written by a
+ * newer version of the app.
+ */
+export function parseFamilyManifest(raw: unknown): FamilyArchiveManifest {
+    const manifest = raw as Partial<FamilyArchiveManifest> | null;
+    if (!manifest || manifest.format !== FAMILY_ARCHIVE_FORMAT) throw new Error('This file is not a family backup');
+    if (typeof manifest.version !== 'number') throw new Error('Family backup has no version');
+    if (manifest.version > FAMILY_ARCHIVE_VERSION) {
+        throw new Error(`This backup was made by a newer version of the app (format ${manifest.version}). Update the app to restore it.`);
+    }
+    return {
+        format: FAMILY_ARCHIVE_FORMAT,
+        version: manifest.version,
+        exportedAt: manifest.exportedAt || '',
+        family: manifest.family || { id: '', name: 'Family' },
+        counts: manifest.counts || _.mapValues(FAMILY_ARCHIVE_PATHS, () => 0),
+        files: Array.isArray(manifest.files) ? manifest.files : [],
+        missing: Array.isArray(manifest.missing) ? manifest.missing : [],
+    };
+}
+
+// ============================================================================
+// INDEX PAGE
+// ============================================================================
+
+const isLocal = (url?: string | null): url is string => !!url && url.startsWith('media/');
+
+const isVideo = (url: string, videos: Set<string>) => videos.has(url) || /\.(mp4|webm|mov|m4v|ogv)$/i.test(url);
+
+function thumb(url: string | null | undefined, videos: Set<string>, label = '') {
+    if (!isLocal(url)) return '';
+    const href = escapeHtml(url);
+    return isVideo(url, videos)
+        ? `<a class="thumb video" href="${href}" title="${escapeHtml(label)}">&#9654;</a>`
+        : `<a class="thumb" href="${href}"><img src="${href}" alt="${escapeHtml(label)}" loading="lazy"></a>`;
+}
+
+function formatDate(value?: string | null) {
+    if (!value) return '';
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? escapeHtml(value) : date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Scripts, frames and inline handlers are dropped from stored descriptions
+ * before they are shown outside the app.
+ */
+function safeHtml(html: string) {
+    return html
+        .replace(/<(script|style|iframe|object|embed)\b[\s\S]*?(<\/\1\s*>|$)/gi, '')
+        .replace(/\son[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+        .replace(/(href|src)\s*=\s*(["'])\s*javascript:[^"']*\2/gi, '$1="#"');
+}
+
+function tags(values?: string[] | null) {
+    return values && values.length ? `<p class="tags">${values.map(value => `<span>${escapeHtml(value)}</span>`).join('')}</p>` : '';
+}
+
+const INDEX_STYLES = `
+*{box-sizing:border-box}
+body{margin:0;font-family:Inter,system-ui,sans-serif;background:#faf9f7;color:#1c1917;line-height:1.5}
+header{padding:40px 24px 16px;max-width:1100px;margin:auto}
+header h1{margin:0;font-size:32px}
+nav{position:sticky;top:0;background:#faf9f7ee;border-bottom:1px solid #e7e5e4;padding:10px 24px;display:flex;gap:16px;flex-wrap:wrap;justify-content:center;z-index:1}
+nav a{color:#57534e;text-decoration:none;font-size:13px;font-weight:600;text-transform:uppercase;letter-spacing:.08em}
+section{max-width:1100px;margin:auto;padding:24px}
+h2{font-size:22px;border-bottom:2px solid #1c1917;padding-bottom:6px}
+article{background:#fff;border:1px solid #e7e5e4;border-radius:12px;padding:16px 20px;margin:16px 0}
+article h3{margin:0 0 4px;font-size:18px}
+.meta{color:#78716c;font-size:13px;margin:0 0 8px}
+.description img,.description video{max-width:100%;height:auto}
+.grid{display:flex;flex-wrap:wrap;gap:6px;margin-top:8px}
+.thumb{display:flex;align-items:center;justify-content:center;width:96px;height:96px;border-radius:6px;overflow:hidden;background:#e7e5e4;color:#57534e;text-decoration:none;font-size:28px}
+.thumb img{width:100%;height:100%;object-fit:cover}
+.tags span{display:inline-block;background:#f5f5f4;border-radius:999px;padding:2px 10px;margin:0 4px 4px 0;font-size:12px}
+.review{border-left:3px solid #e7e5e4;padding-left:10px;margin:8px 0;font-size:14px}
+.members{display:flex;flex-wrap:wrap;gap:16px}
+.member{display:flex;align-items:center;gap:8px}
+.member img,.member span.avatar{width:40px;height:40px;border-radius:50%;object-fit:cover;background:#e7e5e4;display:inline-block}
+details summary{cursor:pointer;font-weight:600}
+`;
+
+/**
+ * Browsable overview of the archive: events with their stories, photos and
+ * reviews, albums, stacks, the media library by folder and the members.
+ * Expects data whose media URLs already point into media/.
+ */
+export function buildFamilyIndexHtml(manifest: FamilyArchiveManifest, data: FamilyArchiveData): string {
+    const videos = collectFamilyVideoUrls(data);
+    const names = new Map(data.members.map(member => [member.id, member.full_name || 'Family member']));
+    const reviewsByEvent = _.groupBy(data.reviews, review => review.event_id);
+    const eventTitles = new Map(data.events.map(event => [event.id, event.title]));
+
+    const events = _.orderBy(data.events, event => event.event_date, 'desc').map(event => `
+<article id="event-${escapeHtml(event.id)}">
+<h3>${escapeHtml(event.title)}</h3>
+<p class="meta">${[formatDate(event.event_date), escapeHtml(event.location || ''), escapeHtml(event.category || '')].filter(Boolean).join(' &middot; ')}</p>
+${event.description ? `<div class="description">${safeHtml(event.description)}</div>` : ''}
+<div class="grid">${eventAssets(event).map(asset => thumb(asset.url, videos)).join('')}</div>
+${tags(event.participants)}${tags(event.hashtags)}
+${(reviewsByEvent[event.id] || []).map(review => `<p class="review">${review.rating ? '&#9733;'.repeat(review.rating) + ' ' : ''}${escapeHtml(review.comment)} <span class="meta">&mdash; ${escapeHtml(review.user_id ? names.get(review.user_id) || 'Family member' : 'Family member')}, ${formatDate(review.created_at)}</span></p>`).join('')}
+</article>`).join('');
+
+    const albums = data.albums.map(album => {
+        const urls = _.uniq([
+            album.coverImageUrl,
+            ...album.pages.flatMap(page => [page.background?.imageUrl, ...page.assets.map(asset => asset.url)]),
+        ].filter(isLocal));
+        const event = album.eventId ? eventTitles.get(album.eventId) : undefined;
+        return `
+<article id="album-${escapeHtml(album.id)}">
+<h3>${escapeHtml(album.title)}</h3>
+<p class="meta">${[`${album.pages.length} pages`, escapeHtml(album.category || ''), event ? `<a href="#event-${escapeHtml(album.eventId!)}">${escapeHtml(event)}</a>` : ''].filter(Boolean).join(' &middot; ')}</p>
+${album.description ? `<p>${escapeHtml(album.description)}</p>` : ''}
+<div class="grid">${urls.map(url => thumb(url, videos, album.title)).join('')}</div>
+</article>`;
+    }).join('');
+
+    const stacks = data.stacks.map(stack => `
+<article id="stack-${escapeHtml(stack.id)}">
+<h3>${escapeHtml(stack.title)}</h3>
+<p class="meta">${[formatDate(stack.event_date), escapeHtml(stack.location || ''), stack.music_name ? `&#9835; ${escapeHtml(stack.music_name)}` : ''].filter(Boolean).join(' &middot; ')}</p>
+${stack.description ? `<p>${escapeHtml(stack.description)}</p>` : ''}
+${isLocal(stack.music_url) ? `<audio controls preload="none" src="${escapeHtml(stack.music_url)}"></audio>` : ''}
+<div class="grid">${stackItems(stack).map(item => thumb(item.url, videos)).join('')}</div>
+${tags(stack.participants)}${tags(stack.hashtags)}
+</article>`).join('');
+
+    const folders = _.groupBy(data.media, row => row.folder || '/');
+    const library = Object.keys(folders).sort().map(folder => `
+<details${Object.keys(folders).length === 1 ? ' open' : ''}>
+<summary>${escapeHtml(folder)} (${folders[folder].length})</summary>
+<div class="grid">${folders[folder].map(row => thumb(row.url, videos, row.filename || '')).join('')}</div>
+</details>`).join('');
+
+    const members = data.members.map(member => `
+<div class="member">${isLocal(member.avatar_url) ? `<img src="${escapeHtml(member.avatar_url)}" alt="">` : '<span class="avatar"></span>'}
+<div><strong>${escapeHtml(member.full_name || 'Family member')}</strong><br><span class="meta">${escapeHtml(member.role || '')}</span></div></div>`).join('');
+
+    const section = (id: FamilyArchiveSection, title: string, body: string) =>
+        `<section id="${id}"><h2>${title} (${manifest.counts[id] ?? 0})</h2>${body || '<p class="meta">Nothing here.</p>'}</section>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(manifest.family.name)} &mdash; Family Backup</title>
+<style>${INDEX_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(manifest.family.name)}</h1>
+<p class="meta">Family backup exported ${formatDate(manifest.exportedAt)} &middot; ${manifest.files.length} media files${manifest.missing.length ? ` &middot; ${manifest.missing.length} could not be downloaded` : ''}</p>
+</header>
+<nav><a href="#events">Events</a><a href="#albums">Albums</a><a href="#stacks">Stacks</a><a href="#media">Library</a><a href="#members">Members</a></nav>
+${section('events', 'Events', events)}
+${section('albums', 'Albums', albums)}
+${section('stacks', 'Stacks', stacks)}
+${section('media', 'Media Library', library)}
+${section('members', 'Members', members ? `<div class="members">${members}</div>` : '')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Parsed JSON of one data file; absent files count as empty tables.
+ */
+export function parseFamilySection<T>(data: Uint8Array | undefined): T[] {
+    if (!data) return [];
+    const parsed = JSON.parse(new TextDecoder().decode(data)) as Json;
+    return Array.isArray(parsed) ? parsed as T[] : [];
+}
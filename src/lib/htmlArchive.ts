@@ -0,0 +1,533 @@
+import _ from 'lodash';
+import type { Asset, LayoutBox, Page } from '../contexts/AlbumContext';
+import { getDisplayPages, type DisplaySource } from './displayPages';
+import { buildPrintPlan, getPageBoxes } from './printLayout';
+import { getClipPathStyle, getFilterStyle, TEXT_GRADIENTS } from './assetUtils';
+
+/**
+ * HTML Archive
+ * A standalone copy of an album that opens from disk with no network: the
+ * display pages rendered to plain HTML and CSS the way AlbumPage and
+ * LayoutFrame draw them, a small page-flip viewer script, and every photo,
+ * video and font referenced through `ArchiveResources` (relative paths in a
+ * zip, or data URIs in a single file). Pure string building; fetching and
+ * packaging the files is up to printService.exportToHTML5.
+ */
+
+export interface ArchiveMedia {
+    url: string;
+    kind: 'image' | 'video';
+}
+
+export interface ArchiveFont {
+    family: string;
+    bold: boolean;
+    italic: boolean;
+}
+
+export interface ArchiveResources {
+    media: Record<string, string>;                  // Original URL -> href inside the archive
+    fonts: (ArchiveFont & { href: string })[];
+}
+
+export interface ArchiveHtmlOptions {
+    exportedAt?: Date;
+}
+
+type Style = Record<string, string | number | undefined>;
+
+// Asset settings carried on a layout box (content.config)
+type BoxConfig = NonNullable<NonNullable<LayoutBox['content']>['config']>;
+
+const DEFAULT_DIMENSIONS = { width: 1000, height: 700 };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function escapeHtml(value: string) {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function css(style: Style) {
+    return Object.entries(style)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => `${key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}:${value}`)
+        .join(';');
+}
+
+function attr(value: string) {
+    return `"${escapeHtml(value)}"`;
+}
+
+function styleAttr(style: Style) {
+    const value = css(style);
+    return value ? ` style=${attr(value)}` : '';
+}
+
+function pageDimensions(source: DisplaySource) {
+    const dimensions = source.config?.dimensions;
+    return {
+        width: dimensions?.width || DEFAULT_DIMENSIONS.width,
+        height: dimensions?.height || DEFAULT_DIMENSIONS.height,
+    };
+}
+
+function mediaKind(box: LayoutBox): ArchiveMedia['kind'] | null {
+    const type = box.content?.type || 'image';
+    if (type === 'video') return 'video';
+    // Stickers, ribbons and frames are images too
+    return type === 'text' || type === 'map' || type === 'location' ? null : 'image';
+}
+
+function isHidden(box: LayoutBox) {
+    return !!box.content?.config?.isHidden;
+}
+
+// ============================================================================
+// RESOURCES
+// ============================================================================
+
+/**
+ * Every photo and video the archive shows, backgrounds included.
+ */
+export function collectArchiveMedia(source: DisplaySource): ArchiveMedia[] {
+    const media: ArchiveMedia[] = [];
+    getDisplayPages(source).forEach(page => {
+        const background = page.backgroundImage || page.pageStyles?.backgroundImage;
+        if (background) media.push({ url: background, kind: 'image' });
+        getPageBoxes(page).forEach(box => {
+            const kind = mediaKind(box);
+            if (kind && box.content?.url && !isHidden(box)) media.push({ url: box.content.url, kind });
+        });
+    });
+    return _.uniqBy(media, 'url');
+}
+
+/**
+ * Font files the text needs: every style used, plus bold for each family
+ * because rich text can bold single words.
+ */
+export function collectArchiveFonts(source: DisplaySource): ArchiveFont[] {
+    const used = buildPrintPlan(source, { bleed: false }).pages
+        .flatMap(page => page.items)
+        .flatMap(item => item.kind === 'text'
+            ? [{ family: item.fontFamily, bold: item.bold, italic: item.italic }, { family: item.fontFamily, bold: true, italic: item.italic }]
+            : []);
+    return _.uniqBy(used, font => `${font.family}/${font.bold}/${font.italic}`);
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+function missingMedia(kind: ArchiveMedia['kind']) {
+    return `<div class="missing">${kind === 'video' ? 'Video' : 'Photo'} not available</div>`;
+}
+
+/**
+ * Image and video placement, mirroring MediaRenderer: a crop window into
+ * the file, or object-fit with a focal point and zoom.
+ */
+function mediaStyle(box: LayoutBox, config: BoxConfig): Style {
+    const crop = box.content?.crop || config.crop;
+    const filter = getFilterStyle(config as Asset).filter;
+    if (crop && crop.width && crop.height) {
+        const cw = Math.max(0.001, crop.width);
+        const ch = Math.max(0.001, crop.height);
+        return {
+            position: 'absolute',
+            width: `${(1 / cw) * 100}%`,
+            height: `${(1 / ch) * 100}%`,
+            left: `${-((crop.x ?? 0) / cw) * 100}%`,
+            top: `${-((crop.y ?? 0) / ch) * 100}%`,
+            objectFit: 'fill',
+            filter,
+        };
+    }
+    const focalX = box.content?.x ?? 50;
+    const focalY = box.content?.y ?? 50;
+    const zoom = box.content?.zoom || 1;
+    const fitMode = config.fitMode || (box.content as { fitMode?: string } | undefined)?.fitMode;
+    return {
+        position: 'absolute',
+        width: '100%',
+        height: '100%',
+        objectFit: fitMode === 'fit' ? 'contain' : fitMode === 'stretch' ? 'fill' : 'cover',
+        objectPosition: `${focalX}% ${focalY}%`,
+        transform: zoom !== 1 ? `scale(${zoom})` : undefined,
+        transformOrigin: `${focalX}% ${focalY}%`,
+        filter,
+    };
+}
+
+function renderMedia(box: LayoutBox, config: BoxConfig, resources: ArchiveResources) {
+    const kind = mediaKind(box)!;
+    if (!box.content?.url) return '';
+    const href = resources.media[box.content.url];
+    if (!href) return missingMedia(kind);
+
+    const style = css(mediaStyle(box, config));
+    if (kind === 'video') {
+        return `<video src=${attr(href)} style=${attr(style)} controls playsinline preload="metadata"${config.muted !== false ? ' muted' : ''}${config.loop ? ' loop' : ''}></video>`;
+    }
+    return `<img src=${attr(href)} style=${attr(style)} alt="" draggable="false">`;
+}
+
+function fontStack(family: string | undefined) {
+    const stack = family || 'Inter, sans-serif';
+    return stack.includes(',') ? stack : `${stack}, sans-serif`;
+}
+
+function renderText(box: LayoutBox, config: BoxConfig) {
+    const gradient = config.textGradient && config.textGradient !== 'none' ? TEXT_GRADIENTS[config.textGradient] : undefined;
+    const style = css({
+        fontFamily: fontStack(config.fontFamily),
+        fontSize: `${config.fontSize || 16}px`,
+        fontWeight: config.fontWeight || 'normal',
+        fontStyle: config.fontStyle || 'normal',
+        color: config.textColor || config.color || 'inherit',
+        textAlign: config.textAlign || 'center',
+        textDecoration: config.textDecoration || 'none',
+        lineHeight: config.lineHeight || 1.4,
+        letterSpacing: `${config.letterSpacing || 0}px`,
+        textShadow: config.textShadow || 'none',
+        backgroundColor: config.textBackgroundColor || 'transparent',
+        padding: `${config.padding !== undefined ? config.padding : 16}px`,
+        background: gradient,
+        WebkitBackgroundClip: gradient ? 'text' : undefined,
+        WebkitTextFillColor: gradient ? 'transparent' : undefined,
+        backgroundClip: gradient ? 'text' : undefined,
+    });
+    // Text boxes store the HTML of the editor's contentEditable
+    return `<div class="text" style=${attr(style)}>${box.content?.text || ''}</div>`;
+}
+
+function renderLocation(box: LayoutBox, config: BoxConfig) {
+    const style = css({
+        fontFamily: fontStack(config.fontFamily),
+        fontSize: `${config.fontSize || 14}px`,
+        color: config.textColor || '#6b7280',
+    });
+    return `<div class="location" style=${attr(style)}><svg viewBox="0 0 24 24" aria-hidden="true"><path d="M12 2a7 7 0 0 0-7 7c0 5.25 7 13 7 13s7-7.75 7-13a7 7 0 0 0-7-7zm0 9.5A2.5 2.5 0 1 1 12 6.5a2.5 2.5 0 0 1 0 5z"/></svg><span>${escapeHtml(box.content?.text || 'Location')}</span></div>`;
+}
+
+function renderMap(config: BoxConfig) {
+    const map = config.mapConfig as Asset['mapConfig'];
+    if (!map) return '';
+    const places = (map.places || []).map(place => `<li>${escapeHtml(place.name)}</li>`).join('');
+    return `<div class="map"><strong>Map</strong><span>${map.center.lat.toFixed(4)}, ${map.center.lng.toFixed(4)}</span>${places ? `<ul>${places}</ul>` : ''}</div>`;
+}
+
+/**
+ * One layout box as LayoutFrame renders it in the viewer.
+ */
+function renderBox(box: LayoutBox, resources: ArchiveResources) {
+    const config: BoxConfig = { ...(box.content?.config || {}) };
+    if (isHidden(box)) return '';
+    const type = box.content?.type || 'image';
+    const rotation = (box as LayoutBox & { rotation?: number }).rotation || box.content?.rotation || 0;
+
+    let inner: string;
+    if (type === 'text') inner = renderText(box, config);
+    else if (type === 'location') inner = renderLocation(box, config);
+    else if (type === 'map') inner = renderMap(config);
+    else if (mediaKind(box)) inner = renderMedia(box, config, resources);
+    else inner = '';
+    if (!inner) return '';
+
+    const frame = css({
+        left: `${box.left || 0}%`,
+        top: `${box.top || 0}%`,
+        width: `${box.width}%`,
+        height: `${box.height}%`,
+        borderRadius: config.borderRadius ? `${config.borderRadius}px` : undefined,
+        border: config.borderWidth ? `${config.borderWidth}px solid ${config.borderColor || '#000'}` : undefined,
+        opacity: (config.opacity ?? 100) / 100,
+        transform: rotation ? `rotate(${rotation}deg)` : undefined,
+    });
+    const clip = styleAttr({
+        borderRadius: config.borderRadius ? `${config.borderRadius}px` : undefined,
+        clipPath: getClipPathStyle(box.content).clipPath,
+        transform: config.flipX || config.flipY ? `scale(${config.flipX ? -1 : 1}, ${config.flipY ? -1 : 1})` : undefined,
+    });
+    return `<div class="frame" style=${attr(frame)}><div class="clip"${clip}>${inner}</div></div>`;
+}
+
+function renderPage(page: Page, index: number, resources: ArchiveResources) {
+    const backgroundColor = page.backgroundColor || page.pageStyles?.backgroundColor || '#ffffff';
+    const backgroundUrl = page.backgroundImage || page.pageStyles?.backgroundImage;
+    const backgroundHref = backgroundUrl ? resources.media[backgroundUrl] : undefined;
+    const background = backgroundHref
+        ? `<img class="background" src=${attr(backgroundHref)} alt="" style=${attr(css({
+            opacity: page.backgroundOpacity ?? page.pageStyles?.backgroundOpacity ?? 1,
+            objectFit: page.backgroundScale === 'contain' ? 'contain' : page.backgroundScale === 'stretch' ? 'fill' : 'cover',
+            objectPosition: page.backgroundPosition || 'center',
+        }))}>`
+        : '';
+    const boxes = getPageBoxes(page).map(box => renderBox(box, resources)).join('');
+    return `<section class="page" data-page="${index + 1}" style=${attr(css({ backgroundColor }))}>${background}<div class="content">${boxes}</div></section>`;
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+function fontFaces(resources: ArchiveResources) {
+    return resources.fonts.map(font => `@font-face{font-family:${JSON.stringify(font.family)};src:url(${JSON.stringify(font.href)}) format("truetype");font-weight:${font.bold ? 700 : 400};font-style:${font.italic ? 'italic' : 'normal'};}`).join('\n');
+}
+
+function viewerStyles(width: number, height: number) {
+    return `
+*{box-sizing:border-box}
+html,body{margin:0;height:100%}
+body{background:#1c1917;color:#f5f5f4;font-family:Georgia,'Times New Roman',serif;display:flex;flex-direction:column;overflow:hidden}
+header{display:flex;align-items:center;justify-content:space-between;gap:16px;padding:12px 24px;background:rgba(0,0,0,.35)}
+header h1{margin:0;font-size:20px;font-weight:400;font-style:italic}
+header p{margin:2px 0 0;font:10px/1.4 system-ui,sans-serif;letter-spacing:.2em;text-transform:uppercase;color:rgba(245,245,244,.45)}
+nav{display:flex;align-items:center;gap:8px;font:12px system-ui,sans-serif}
+nav button{width:32px;height:32px;border-radius:50%;border:1px solid rgba(255,255,255,.15);background:rgba(255,255,255,.08);color:inherit;font-size:18px;cursor:pointer}
+nav button:disabled{opacity:.25;cursor:default}
+#status{min-width:72px;text-align:center;color:rgba(245,245,244,.6)}
+#stage{flex:1;display:flex;align-items:center;justify-content:center;overflow:hidden}
+#fit{position:relative}
+#book{position:absolute;left:0;top:0;display:flex;width:${width * 2}px;height:${height}px;transform-origin:0 0;perspective:${width * 3}px;box-shadow:0 30px 60px rgba(0,0,0,.5)}
+#book.single{width:${width}px}
+#book.single #left{display:none}
+.slot{position:relative;width:${width}px;height:${height}px;overflow:hidden;background:#fdfdfd}
+.slot.empty{visibility:hidden}
+#left::after{content:"";position:absolute;inset:0 0 0 auto;width:60px;background:linear-gradient(to left,rgba(0,0,0,.18),transparent);pointer-events:none;z-index:200}
+#right::after{content:"";position:absolute;inset:0 auto 0 0;width:60px;background:linear-gradient(to right,rgba(0,0,0,.18),transparent);pointer-events:none;z-index:200}
+#book.single #right::after{display:none}
+#pages{display:none}
+.page{position:relative;width:${width}px;height:${height}px;overflow:hidden;color:#1c1917;font-family:Inter,system-ui,sans-serif}
+.page .background{position:absolute;inset:0;width:100%;height:100%;pointer-events:none}
+.page .content{position:absolute;inset:0}
+.frame{position:absolute;overflow:hidden;box-sizing:border-box}
+.clip{width:100%;height:100%;overflow:hidden;position:relative}
+.clip img,.clip video{display:block;max-width:none;max-height:none}
+.text{width:100%;height:100%;display:flex;flex-direction:column;justify-content:center;white-space:pre-wrap;overflow-wrap:break-word;overflow:hidden}
+.text p{margin:0}
+.location{width:100%;height:100%;display:flex;align-items:center;gap:8px;padding:8px 12px;overflow:hidden;white-space:nowrap}
+.location svg{width:1.2em;height:1.2em;flex-shrink:0;fill:#9333ea}
+.location span{overflow:hidden;text-overflow:ellipsis}
+.map{width:100%;height:100%;display:flex;flex-direction:column;align-items:center;justify-content:center;gap:4px;background:#e7e5e4;color:#57534e;font:12px system-ui,sans-serif;text-align:center;padding:8px}
+.map ul{margin:4px 0 0;padding:0;list-style:none}
+.missing{width:100%;height:100%;display:flex;align-items:center;justify-content:center;background:#e7e5e4;color:#a8a29e;font:11px system-ui,sans-serif;text-transform:uppercase;letter-spacing:.15em}
+.leaf{position:absolute;top:0;width:${width}px;height:${height}px;transform-style:preserve-3d;transition:transform .8s cubic-bezier(.645,.045,.355,1);z-index:300}
+.leaf.forward{left:${width}px;transform-origin:left center}
+.leaf.forward.turning{transform:rotateY(-180deg)}
+.leaf.backward{left:0;transform-origin:right center}
+.leaf.backward.turning{transform:rotateY(180deg)}
+.face{position:absolute;inset:0;overflow:hidden;background:#fdfdfd;backface-visibility:hidden;-webkit-backface-visibility:hidden}
+.face.back{transform:rotateY(180deg)}
+.face.blank{background:transparent}
+footer{padding:8px;text-align:center;font:9px system-ui,sans-serif;letter-spacing:.3em;text-transform:uppercase;color:rgba(245,245,244,.3)}
+@media (prefers-reduced-motion:reduce){.leaf{transition:none}}
+`;
+}
+
+/**
+ * Spreads like the flipbook (cover alone, then facing pairs), one page at
+ * a time on portrait screens. Pages live in #pages and are moved into the
+ * two slots; a turn animates a leaf carrying copies of the pages involved.
+ */
+const VIEWER_SCRIPT = `
+(function () {
+    var pages = [].slice.call(document.querySelectorAll('#pages > .page'));
+    var store = document.getElementById('pages');
+    var stage = document.getElementById('stage');
+    var fit = document.getElementById('fit');
+    var book = document.getElementById('book');
+    var left = document.getElementById('left');
+    var right = document.getElementById('right');
+    var prev = document.getElementById('prev');
+    var next = document.getElementById('next');
+    var status = document.getElementById('status');
+    var W = Number(book.getAttribute('data-width'));
+    var H = Number(book.getAttribute('data-height'));
+    var single = null, spreads = [], current = 0, turning = false;
+
+    function buildSpreads() {
+        spreads = [];
+        if (single) {
+            pages.forEach(function (_, i) { spreads.push([null, i]); });
+            return;
+        }
+        spreads.push([null, 0]);
+        for (var i = 1; i < pages.length; i += 2) spreads.push([i, i + 1 < pages.length ? i + 1 : null]);
+    }
+
+    function spreadOf(page) {
+        for (var i = 0; i < spreads.length; i++) {
+            if (spreads[i][0] === page || spreads[i][1] === page) return i;
+        }
+        return 0;
+    }
+
+    function visiblePage() {
+        if (!spreads.length) {
+            var n = parseInt(location.hash.slice(1), 10);
+            return n >= 1 && n <= pages.length ? n - 1 : 0;
+        }
+        var spread = spreads[current];
+        return spread[0] !== null ? spread[0] : spread[1];
+    }
+
+    function pauseVideos() {
+        [].forEach.call(document.querySelectorAll('video'), function (video) { video.pause(); });
+    }
+
+    function fill(slot, index) {
+        while (slot.firstChild) store.appendChild(slot.firstChild);
+        var empty = index === null || index === undefined;
+        if (!empty) slot.appendChild(pages[index]);
+        slot.classList.toggle('empty', empty);
+    }
+
+    function show(index) {
+        current = index;
+        var spread = spreads[index];
+        fill(left, spread[0]);
+        fill(right, spread[1]);
+        var shown = spread.filter(function (i) { return i !== null; }).map(function (i) { return i + 1; });
+        status.textContent = shown.join('\\u2013') + ' / ' + pages.length;
+        prev.disabled = index === 0;
+        next.disabled = index === spreads.length - 1;
+        try { history.replaceState(null, '', '#' + shown[0]); } catch (e) { /* not allowed for some file URLs */ }
+    }
+
+    function face(index, side) {
+        var element = document.createElement('div');
+        element.className = 'face ' + side;
+        if (index === null || index === undefined) element.className += ' blank';
+        else element.appendChild(pages[index].cloneNode(true));
+        return element;
+    }
+
+    function turn(step) {
+        var target = current + step;
+        if (turning || target < 0 || target >= spreads.length) return;
+        pauseVideos();
+        if (single) { show(target); return; }
+
+        turning = true;
+        var from = spreads[current], to = spreads[target], forward = step > 0;
+        var leaf = document.createElement('div');
+        leaf.className = 'leaf ' + (forward ? 'forward' : 'backward');
+        leaf.appendChild(face(forward ? from[1] : from[0], 'front'));
+        leaf.appendChild(face(forward ? to[0] : to[1], 'back'));
+        // The side being turned already shows what lies under the leaf
+        if (forward) fill(right, to[1]); else fill(left, to[0]);
+        book.appendChild(leaf);
+        leaf.getBoundingClientRect();
+        leaf.classList.add('turning');
+
+        var done = function () {
+            if (!leaf.parentNode) return;
+            book.removeChild(leaf);
+            turning = false;
+            show(target);
+        };
+        leaf.addEventListener('transitionend', done);
+        setTimeout(done, 1200);
+    }
+
+    function layout() {
+        var portrait = stage.clientWidth < stage.clientHeight;
+        var bookWidth = portrait ? W : W * 2;
+        var scale = Math.min(stage.clientWidth / bookWidth, stage.clientHeight / H) * 0.94;
+        book.style.transform = 'scale(' + scale + ')';
+        fit.style.width = bookWidth * scale + 'px';
+        fit.style.height = H * scale + 'px';
+        if (portrait !== single) {
+            var page = visiblePage();
+            single = portrait;
+            book.classList.toggle('single', single);
+            buildSpreads();
+            show(spreadOf(page));
+        }
+    }
+
+    prev.addEventListener('click', function () { turn(-1); });
+    next.addEventListener('click', function () { turn(1); });
+    book.addEventListener('click', function (event) {
+        if (event.target.closest('video, a')) return;
+        var box = book.getBoundingClientRect();
+        turn(event.clientX - box.left < box.width / 2 ? -1 : 1);
+    });
+    document.addEventListener('keydown', function (event) {
+        if (event.key === 'ArrowRight' || event.key === 'PageDown') turn(1);
+        else if (event.key === 'ArrowLeft' || event.key === 'PageUp') turn(-1);
+        else if (event.key === 'Home') { pauseVideos(); show(0); }
+        else if (event.key === 'End') { pauseVideos(); show(spreads.length - 1); }
+    });
+    var touchX = null;
+    stage.addEventListener('touchstart', function (event) { touchX = event.touches[0].clientX; }, { passive: true });
+    stage.addEventListener('touchend', function (event) {
+        if (touchX === null) return;
+        var dx = event.changedTouches[0].clientX - touchX;
+        touchX = null;
+        if (Math.abs(dx) > 50) turn(dx < 0 ? 1 : -1);
+    });
+    window.addEventListener('resize', layout);
+    layout();
+})();
+`;
+
+/**
+ * The complete archive document. Everything it loads comes from
+ * `resources`, so it works offline from a folder or as a single file.
+ */
+export function buildArchiveHtml(source: DisplaySource, resources: ArchiveResources, options: ArchiveHtmlOptions = {}): string {
+    const { width, height } = pageDimensions(source);
+    const pages = getDisplayPages(source);
+    const title = escapeHtml(source.title || 'Family Album');
+    const exportedAt = (options.exportedAt || new Date()).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const body = pages.map((page, index) => renderPage(page, index, resources)).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${title}</title>
+<style>
+${fontFaces(resources)}
+${viewerStyles(width, height)}
+</style>
+</head>
+<body>
+<header>
+    <div>
+        <h1>${title}</h1>
+        <p>${pages.length} pages · Archived ${escapeHtml(exportedAt)}</p>
+    </div>
+    <nav>
+        <button id="prev" type="button" aria-label="Previous page">&#8249;</button>
+        <span id="status"></span>
+        <button id="next" type="button" aria-label="Next page">&#8250;</button>
+    </nav>
+</header>
+<main id="stage">
+    <div id="fit">
+        <div id="book" data-width="${width}" data-height="${height}">
+            <div id="left" class="slot"></div>
+            <div id="right" class="slot"></div>
+        </div>
+    </div>
+</main>
+<div id="pages">
+${body}
+</div>
+<footer>Family archive copy · opens without an internet connection</footer>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+}
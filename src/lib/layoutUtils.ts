@@ -1,10 +1,36 @@
-import { type Asset, type Page } from '../contexts/AlbumContext';
+import { type Asset, type LayoutBox, type Page } from '../contexts/AlbumContext';
 
 /**
  * Layout Utilities
  * Helper functions for managing layout configurations and asset mapping
  */
 
+/**
+ * Wraps a freeform asset (no slotId) in a layout box for LayoutFrame
+ */
+export function freeformAssetToLayoutBox(asset: Asset): LayoutBox {
+    const role = asset.type === 'text' ? 'text' : 'decoration';
+    return {
+        id: asset.id,
+        role: role,
+        left: asset.x,
+        top: asset.y,
+        width: asset.width,
+        height: asset.height,
+        zIndex: asset.zIndex ?? (role === 'text' ? 50 : 10),
+        content: {
+            type: asset.type === 'video' ? 'video' : (asset.type === 'text' ? 'text' : 'image'),
+            url: asset.url,
+            zoom: asset.crop?.zoom || 1,
+            x: asset.crop?.x || 50,
+            y: asset.crop?.y || 50,
+            rotation: asset.rotation || 0,
+            text: asset.content,
+            config: { ...asset }
+        }
+    };
+}
+
 /**
  * Maps assets with slotId into their corresponding layout slots
  * Creates the nested content structure expected by AlbumPage
@@ -0,0 +1,158 @@
+import type { Asset, LayoutBox, MasterPage, Page } from '../contexts/AlbumContext';
+
+/**
+ * Master Pages
+ * Inheritance between a page and its master: the master's background and
+ * items show on every linked page unless the page overrides the background
+ * or hides an item. Pages store only the link and the overrides; the
+ * inherited content is merged in at render time, so editing the master
+ * updates every page at once. Detaching copies the inherited content into
+ * the page and drops the link.
+ */
+
+// Inherited items are rendered with this prefix so they never collide with page items
+export const MASTER_ITEM_PREFIX = 'master:';
+
+const BACKGROUND_KEYS = ['backgroundColor', 'backgroundOpacity', 'backgroundImage', 'backgroundScale', 'backgroundPosition'] as const;
+
+export function isMasterItemId(id: string) {
+    return id.startsWith(MASTER_ITEM_PREFIX);
+}
+
+export function getPageMaster(page: Page, masters: MasterPage[] | undefined): MasterPage | undefined {
+    if (!page.masterPageId || !masters) return undefined;
+    return masters.find(m => m.id === page.masterPageId);
+}
+
+/**
+ * True when `updates` change the page background, which then stops following the master.
+ */
+export function touchesBackground(updates: Partial<Page>) {
+    return BACKGROUND_KEYS.some(key => updates[key] !== undefined);
+}
+
+function masterBackground(master: MasterPage): Partial<Page> {
+    return {
+        backgroundColor: master.backgroundColor,
+        backgroundOpacity: master.backgroundOpacity,
+        backgroundImage: master.backgroundImage,
+        backgroundScale: master.backgroundScale,
+        backgroundPosition: master.backgroundPosition,
+        pageStyles: {
+            backgroundColor: master.backgroundColor,
+            backgroundOpacity: master.backgroundOpacity ?? 1,
+            backgroundImage: master.backgroundImage,
+        },
+    };
+}
+
+/**
+ * Master items visible on `page`, with ids rewritten by `toId`. Page tokens
+ * in their text are left for the renderer, like the page's own text.
+ */
+function inheritedItems(page: Page, master: MasterPage, toId: (id: string) => string) {
+    const hidden = new Set(page.masterOverrides?.hiddenItemIds || []);
+    const assets: Asset[] = master.assets
+        .filter(asset => !hidden.has(asset.id))
+        .map(asset => ({ ...asset, id: toId(asset.id), slotId: undefined }));
+    const textLayers: LayoutBox[] = master.textLayers
+        .filter(layer => !hidden.has(layer.id))
+        .map(layer => ({ ...layer, id: toId(layer.id) }));
+    return { assets, textLayers };
+}
+
+/**
+ * Page as it should be drawn: master background unless overridden, master
+ * items underneath the page's own. Pages without a master come back as is.
+ */
+export function resolvePageWithMaster(page: Page, masters: MasterPage[] | undefined): Page {
+    const master = getPageMaster(page, masters);
+    if (!master) return page;
+
+    const { assets, textLayers } = inheritedItems(page, master, id => `${MASTER_ITEM_PREFIX}${id}`);
+    return {
+        ...page,
+        ...(page.masterOverrides?.background ? {} : masterBackground(master)),
+        assets: [...assets, ...page.assets],
+        textLayers: [...textLayers, ...(page.textLayers || [])],
+    };
+}
+
+/**
+ * Items a master contributes to `page`, for layers drawn separately from
+ * the page's own content (the editor canvas).
+ */
+export function getMasterItems(page: Page, masters: MasterPage[] | undefined) {
+    const master = getPageMaster(page, masters);
+    if (!master) return null;
+    return {
+        master,
+        ...inheritedItems(page, master, id => `${MASTER_ITEM_PREFIX}${id}`),
+        background: page.masterOverrides?.background ? null : masterBackground(master),
+    };
+}
+
+/**
+ * Copy the master's current content into the page and unlink it.
+ */
+export function detachPageFromMaster(page: Page, master: MasterPage, makeId: () => string): Page {
+    const { assets, textLayers } = inheritedItems(page, master, makeId);
+    return {
+        ...page,
+        ...(page.masterOverrides?.background ? {} : masterBackground(master)),
+        assets: [...assets, ...page.assets],
+        textLayers: [...textLayers, ...(page.textLayers || [])],
+        masterPageId: null,
+        masterOverrides: undefined,
+    };
+}
+
+/**
+ * New master from a page's design: its background, freeform decorations
+ * and text move onto the master and the page links to it. Photos and
+ * slotted content stay on the page.
+ */
+export function createMasterFromPage(page: Page, id: string, name: string): { page: Page; master: MasterPage } {
+    const empty: MasterPage = {
+        id,
+        name,
+        backgroundColor: page.backgroundColor,
+        backgroundOpacity: page.backgroundOpacity,
+        backgroundImage: page.backgroundImage,
+        backgroundScale: page.backgroundScale,
+        backgroundPosition: page.backgroundPosition,
+        assets: [],
+        textLayers: [],
+    };
+    const moved = movePageDesignToMaster(page, empty);
+    return { master: moved.master, page: { ...moved.page, masterPageId: id, masterOverrides: undefined } };
+}
+
+/**
+ * Freeform items that belong on a master: everything except photos, videos
+ * and slotted content.
+ */
+export function isDecoration(asset: Asset) {
+    const isSlotted = asset.slotId !== undefined && asset.slotId !== null;
+    return !isSlotted && asset.type !== 'image' && asset.type !== 'video';
+}
+
+/**
+ * Move a page's decorations and text onto its master, leaving the page
+ * with only its photos; the page keeps inheriting them from the master.
+ */
+export function movePageDesignToMaster(page: Page, master: MasterPage): { page: Page; master: MasterPage } {
+    const decorations = page.assets.filter(isDecoration);
+    return {
+        master: {
+            ...master,
+            assets: [...master.assets, ...decorations],
+            textLayers: [...master.textLayers, ...(page.textLayers || [])],
+        },
+        page: {
+            ...page,
+            assets: page.assets.filter(asset => !isDecoration(asset)),
+            textLayers: [],
+        },
+    };
+}
@@ -0,0 +1,96 @@
+import _ from 'lodash';
+import type { AlbumConfig, Page } from '../contexts/AlbumContext';
+import { getSectionName } from './albumSections';
+
+/**
+ * Page Tokens
+ * Placeholders in text that are filled in per page when the page is drawn:
+ * page number and count, album title, section name and the album's date
+ * range. Text is stored with the tokens, so the editor, the flipbook and
+ * the PDF export (which captures the flipbook) all show the same result and
+ * it stays right when pages move.
+ */
+
+export const PAGE_TOKENS = [
+    { token: '{page}', label: 'Page number' },
+    { token: '{pages}', label: 'Page count' },
+    { token: '{title}', label: 'Album title' },
+    { token: '{section}', label: 'Section name' },
+    { token: '{dates}', label: 'Date range' },
+] as const;
+
+const TOKEN_PATTERN = /\{(page|pages|title|section|dates)\}/g;
+
+export interface PageTokenContext {
+    page: number;
+    pages: number;
+    title: string;
+    section: string;
+    dates: string;
+}
+
+/**
+ * Album fields the tokens read; the pages may differ from album.pages
+ * (history previews), so they are passed separately.
+ */
+export interface TokenSource {
+    title?: string;
+    config?: Partial<AlbumConfig>;
+    pages: Page[];
+}
+
+function formatDay(value: string) {
+    const date = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+    if (isNaN(date.getTime())) return value;
+    return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+export function formatAlbumDateRange(config?: Partial<AlbumConfig>) {
+    const start = config?.startDate;
+    const end = config?.endDate;
+    if (!start) return end ? formatDay(end) : '';
+    if (!end || end.slice(0, 10) === start.slice(0, 10)) return formatDay(start);
+    return `${formatDay(start)} – ${formatDay(end)}`;
+}
+
+export function hasPageTokens(text: string | undefined) {
+    return !!text && new RegExp(TOKEN_PATTERN.source).test(text);
+}
+
+export function getPageTokenContext(source: TokenSource, pageIndex: number): PageTokenContext {
+    const page = source.pages[pageIndex];
+    return {
+        page: page?.pageNumber ?? pageIndex + 1,
+        pages: source.pages.length,
+        title: source.title || '',
+        section: getSectionName(source.pages, pageIndex),
+        dates: formatAlbumDateRange(source.config),
+    };
+}
+
+/**
+ * Fill the tokens in `text`. Text is rendered as HTML, so the values are escaped.
+ */
+export function fillPageTokens(text: string | undefined, context: PageTokenContext): string {
+    if (!text) return text || '';
+    return text.replace(TOKEN_PATTERN, (_match, key: keyof PageTokenContext) => _.escape(String(context[key])));
+}
+
+/**
+ * The page with tokens filled in every text layer and text asset, for display only.
+ */
+export function applyPageTokens(page: Page, context: PageTokenContext): Page {
+    const assets = page.assets.some(a => a.type === 'text' && hasPageTokens(a.content));
+    const layers = (page.textLayers || []).some(l => hasPageTokens(l.content?.text));
+    if (!assets && !layers) return page;
+
+    return {
+        ...page,
+        assets: page.assets.map(a => a.type === 'text' && hasPageTokens(a.content)
+            ? { ...a, content: fillPageTokens(a.content, context) }
+            : a),
+        textLayers: page.textLayers?.map(l => l.content && hasPageTokens(l.content.text)
+            ? { ...l, content: { ...l.content, text: fillPageTokens(l.content.text, context) } }
+            : l),
+    };
+}
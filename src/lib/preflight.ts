@@ -0,0 +1,332 @@
+import _ from 'lodash';
+import type { UnifiedAlbum, UnifiedAsset } from '../types/album';
+import { unifiedAlbumToContextAlbum } from './albumAdapters';
+import { isMasterItemId } from './masterPages';
+import {
+    MIN_PRINT_DPI,
+    buildPrintPlan,
+    checkResolution,
+    getTrimBox,
+    placeImage,
+    type PrintGeometry,
+    type PrintImageItem,
+    type PrintPagePlan,
+    type PrintRect,
+    type PrintTextItem,
+} from './printLayout';
+
+/**
+ * Preflight
+ * What will go wrong when an album is sent to print, page by page: photos
+ * too small for the size they are placed at, text too close to the trim or
+ * running into the binding gutter, empty placeholders and slots, hidden or
+ * locked-but-empty layers, videos and unreachable media. Pure: the media
+ * probes (reachability and pixel size) are gathered by PreflightService and
+ * passed in, and the layout is the same print plan the PDF export draws.
+ */
+
+export type PreflightIssueKind =
+    | 'low-resolution'
+    | 'near-trim'
+    | 'gutter'
+    | 'placeholder'
+    | 'hidden-layer'
+    | 'empty-locked'
+    | 'video'
+    | 'unreachable'
+    | 'unsupported';
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export interface PreflightIssue {
+    kind: PreflightIssueKind;
+    severity: PreflightSeverity;
+    pageIndex: number;          // Index in album.pages, for jumping to the page
+    pageNumber: number;
+    itemId?: string;            // Asset or text layer on that page; absent for master items and backgrounds
+    message: string;
+    dpi?: number;
+}
+
+export interface PreflightPageReport {
+    pageIndex: number;
+    pageNumber: number;
+    issues: PreflightIssue[];
+}
+
+export interface PreflightReport {
+    pages: PreflightPageReport[];   // Only pages with issues, in album order
+    errorCount: number;
+    warningCount: number;
+}
+
+/**
+ * What PreflightService learned about a media URL; width and height are
+ * missing for videos and for images the browser cannot decode.
+ */
+export interface MediaProbe {
+    reachable: boolean;
+    width?: number;
+    height?: number;
+}
+
+export interface PreflightOptions {
+    minDpi?: number;
+}
+
+// Below this effective resolution a photo prints visibly soft, so it is an error
+const BLURRY_DPI = 150;
+
+// Minimum distance text keeps from the trim to survive cutting tolerance (5 mm)
+const SAFE_MARGIN = (5 * 72) / 25.4;
+
+// ============================================================================
+// MEDIA
+// ============================================================================
+
+function mediaUrls(assets: UnifiedAsset[]) {
+    return assets
+        .filter(asset => asset.type !== 'text' && asset.url)
+        .map(asset => asset.url!);
+}
+
+/**
+ * Every media URL the album prints, pages, backgrounds and masters included.
+ */
+export function collectPreflightUrls(album: UnifiedAlbum): string[] {
+    const masters = (album.config.masterPages || []) as { assets: UnifiedAsset[]; background: { imageUrl?: string } }[];
+    return _.uniq([
+        ...album.pages.flatMap(page => [...mediaUrls(page.assets), page.background.imageUrl]),
+        ...masters.flatMap(master => [...mediaUrls(master.assets), master.background.imageUrl]),
+    ].filter((url): url is string => !!url));
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Page and item to report a printed item under. Items that spill across the
+ * fold print on the facing page as copies ('spill-<id>'), so they are
+ * traced back to the page that holds them; master items and backgrounds
+ * have no item to select.
+ */
+function locateItem(album: UnifiedAlbum, printedPageIndex: number, printedId?: string) {
+    if (!printedId || printedId === 'background' || isMasterItemId(printedId)) {
+        return { pageIndex: printedPageIndex, itemId: undefined };
+    }
+    const itemId = printedId.replace(/^spill-(left-)?/, '');
+    const pageIndex = [printedPageIndex, printedPageIndex - 1, printedPageIndex + 1]
+        .find(index => album.pages[index]?.assets.some(asset => asset.id === itemId));
+    return pageIndex === undefined
+        ? { pageIndex: printedPageIndex, itemId: undefined }
+        : { pageIndex, itemId };
+}
+
+function isEmptyAsset(asset: UnifiedAsset) {
+    if (asset.type === 'text') return !asset.config.content?.replace(/<[^>]*>|&nbsp;|\s/g, '');
+    if (asset.type === 'map') return asset.config.latitude === undefined;
+    if (asset.type === 'address') return !asset.config.address;
+    return !asset.url;
+}
+
+function assetLabel(asset: UnifiedAsset) {
+    return asset.type === 'text' ? 'Text' : asset.type === 'video' ? 'Video' : 'Photo';
+}
+
+/**
+ * Checks on the stored page data: placeholders, empty slots, hidden and
+ * locked layers. Layout and media checks run on the print plan.
+ */
+function checkPageData(album: UnifiedAlbum, pageIndex: number): PreflightIssue[] {
+    const page = album.pages[pageIndex];
+    const base = { pageIndex, pageNumber: pageIndex + 1 };
+    const issues: PreflightIssue[] = [];
+
+    page.assets.forEach(asset => {
+        const empty = isEmptyAsset(asset);
+        if (asset.config.isPlaceholder || ((asset.type === 'image' || asset.type === 'video') && empty)) {
+            issues.push({ ...base, kind: 'placeholder', severity: 'error', itemId: asset.id, message: 'Empty photo placeholder will print as a blank frame' });
+        } else if (!asset.visible) {
+            issues.push({ ...base, kind: 'hidden-layer', severity: 'warning', itemId: asset.id, message: `${assetLabel(asset)} layer is hidden and will not be printed` });
+        } else if (asset.locked && empty) {
+            issues.push({ ...base, kind: 'empty-locked', severity: 'warning', itemId: asset.id, message: `Locked ${assetLabel(asset).toLowerCase()} layer is empty` });
+        }
+    });
+
+    (page.layoutSlots || []).forEach((slot, index) => {
+        if (slot.type !== 'photo') return;
+        const filled = page.assets.some(asset => asset.slotId === slot.id || asset.slotId === String(index));
+        if (!filled) {
+            issues.push({ ...base, kind: 'placeholder', severity: 'error', itemId: slot.id, message: 'Empty layout slot will print as a blank space' });
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Axis-aligned bounds of a frame rotated around its center.
+ */
+function rotatedBounds(frame: PrintRect, rotation: number): PrintRect {
+    if (!rotation) return frame;
+    const angle = (rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    const width = frame.width * cos + frame.height * sin;
+    const height = frame.width * sin + frame.height * cos;
+    return {
+        x: frame.x + (frame.width - width) / 2,
+        y: frame.y + (frame.height - height) / 2,
+        width,
+        height,
+    };
+}
+
+function textArea(item: PrintTextItem): PrintRect {
+    const by = item.padding + (item.border?.width || 0);
+    const inner = {
+        x: item.frame.x + by,
+        y: item.frame.y + by,
+        width: Math.max(0, item.frame.width - 2 * by),
+        height: Math.max(0, item.frame.height - 2 * by),
+    };
+    return rotatedBounds(inner, item.rotation);
+}
+
+/**
+ * Edge of the page that goes into the binding: front cover and right-hand
+ * pages are bound on the left, left-hand pages (odd indexes) on the right.
+ */
+function bindingEdge(pageIndex: number): 'left' | 'right' {
+    return pageIndex % 2 === 1 ? 'right' : 'left';
+}
+
+type PrintedIssue = Omit<PreflightIssue, 'pageIndex' | 'pageNumber' | 'itemId'>;
+
+function checkText(item: PrintTextItem, pageIndex: number, geometry: PrintGeometry): PrintedIssue[] {
+    const trim = getTrimBox(geometry);
+    const area = textArea(item);
+    const right = area.x + area.width;
+    const bottom = area.y + area.height;
+    // Copies of spread text that barely reach this page are reported on the page they start on
+    if (right <= trim.x || area.x >= trim.x + trim.width || bottom <= trim.y || area.y >= trim.y + trim.height) return [];
+
+    const issues: PrintedIssue[] = [];
+    const binding = bindingEdge(pageIndex);
+    const margin = Math.max(geometry.bleed, SAFE_MARGIN);
+    const distances = {
+        left: area.x - trim.x,
+        right: trim.x + trim.width - right,
+        top: area.y - trim.y,
+        bottom: trim.y + trim.height - bottom,
+    };
+
+    if (geometry.gutter > 0 && distances[binding] < geometry.gutter) {
+        const crosses = distances[binding] < 0;
+        issues.push({
+            kind: 'gutter',
+            severity: crosses ? 'error' : 'warning',
+            message: crosses
+                ? 'Text crosses the fold between facing pages and will disappear into the binding'
+                : 'Text runs into the binding gutter and may be hard to read',
+        });
+    }
+
+    const nearEdges = (Object.keys(distances) as (keyof typeof distances)[])
+        .filter(edge => (edge !== binding || geometry.gutter === 0) && distances[edge] < margin);
+    if (nearEdges.length > 0) {
+        const outside = nearEdges.some(edge => distances[edge] < 0);
+        issues.push({
+            kind: 'near-trim',
+            severity: outside ? 'error' : 'warning',
+            message: outside
+                ? `Text runs past the trim (${nearEdges.join(', ')}) and will be cut off`
+                : `Text is within ${Math.round((margin / 72) * 25.4)} mm of the trim (${nearEdges.join(', ')}) and may be cut`,
+        });
+    }
+    return issues;
+}
+
+function checkImage(
+    item: PrintImageItem,
+    page: PrintPagePlan,
+    probes: Record<string, MediaProbe>,
+    minDpi: number
+): PrintedIssue[] {
+    const probe = probes[item.url];
+    const what = item.id === 'background' ? 'Background image' : 'Photo';
+    if (!probe) return [];
+    if (!probe.reachable) {
+        return [{ kind: 'unreachable', severity: 'error', message: `${what} cannot be loaded (${item.url}) and will be missing from the print` }];
+    }
+    if (!probe.width || !probe.height) return [];
+
+    const natural = { width: probe.width, height: probe.height };
+    const placed = placeImage(item.content, natural, item.fit, item.bleedClip || undefined);
+    const warning = checkResolution(page, item, natural, placed, minDpi);
+    if (!warning) return [];
+    return [{
+        kind: 'low-resolution',
+        severity: warning.dpi! < BLURRY_DPI ? 'error' : 'warning',
+        dpi: warning.dpi,
+        message: item.id === 'background' ? `Background image: ${warning.message}` : warning.message,
+    }];
+}
+
+/**
+ * Run every check and group the issues by page.
+ */
+export function analyzePreflight(album: UnifiedAlbum, probes: Record<string, MediaProbe>, options: PreflightOptions = {}): PreflightReport {
+    const minDpi = options.minDpi ?? MIN_PRINT_DPI;
+    const contextAlbum = unifiedAlbumToContextAlbum(album);
+    const plan = buildPrintPlan({
+        title: contextAlbum.title,
+        config: contextAlbum.config,
+        masterPages: contextAlbum.masterPages,
+        pages: contextAlbum.pages,
+    }, { minDpi });
+
+    const byPage: PreflightIssue[][] = album.pages.map((_page, index) => checkPageData(album, index));
+
+    const report = (printedPageIndex: number, printedId: string | undefined, issue: PrintedIssue) => {
+        const { pageIndex, itemId } = locateItem(album, printedPageIndex, printedId);
+        byPage[pageIndex]?.push({ ...issue, pageIndex, pageNumber: pageIndex + 1, itemId });
+    };
+
+    plan.pages.forEach((page, pageIndex) => {
+        [...(page.backgroundImage ? [page.backgroundImage] : []), ...page.items].forEach(item => {
+            const issues = item.kind === 'image'
+                ? checkImage(item, page, probes, minDpi)
+                : checkText(item, pageIndex, plan.geometry);
+            issues.forEach(issue => report(pageIndex, item.id, issue));
+        });
+    });
+
+    plan.warnings.forEach(warning => {
+        if (warning.kind !== 'video' && warning.kind !== 'unsupported') return;
+        report(warning.pageNumber - 1, warning.itemId, {
+            kind: warning.kind,
+            severity: warning.kind === 'video' ? 'error' : 'warning',
+            message: warning.kind === 'video' ? 'Video will print as a blank frame; replace it with a still photo' : warning.message,
+        });
+    });
+
+    const pages = byPage
+        .map((issues, pageIndex) => ({
+            pageIndex,
+            pageNumber: pageIndex + 1,
+            issues: _.sortBy(
+                _.uniqBy(issues, issue => `${issue.kind}/${issue.itemId ?? issue.message}`),
+                issue => (issue.severity === 'error' ? 0 : 1)
+            ),
+        }))
+        .filter(page => page.issues.length > 0);
+    const all = pages.flatMap(page => page.issues);
+
+    return {
+        pages,
+        errorCount: all.filter(issue => issue.severity === 'error').length,
+        warningCount: all.filter(issue => issue.severity === 'warning').length,
+    };
+}
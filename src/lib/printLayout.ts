@@ -0,0 +1,618 @@
+import _ from 'lodash';
+import type { AlbumConfig, LayoutBox, Page } from '../contexts/AlbumContext';
+import { getDisplayPages, type DisplaySource } from './displayPages';
+import { freeformAssetToLayoutBox, mapAssetsToLayoutSlots } from './layoutUtils';
+
+/**
+ * Print Layout
+ * Album pages laid out at their physical size, in PDF points (1/72 in)
+ * from the top-left corner of the sheet: the trim box at the album's paper
+ * size, the bleed around it and, when crop marks are wanted, a slug outside
+ * the bleed that carries them. Pages are the display pages the flipbook
+ * draws, so print matches what the family sees. Pure and DOM-free; image
+ * pixel sizes are only known once the renderer has loaded the files, so it
+ * places images and checks their resolution with the helpers below.
+ */
+
+export const MIN_PRINT_DPI = 300;
+
+const POINTS_PER_INCH = 72;
+const POINTS_PER_CM = POINTS_PER_INCH / 2.54;
+const POINTS_PER_MM = POINTS_PER_INCH / 25.4;
+
+// Without a known paper size the album's pixels are taken at 96 per inch, like CSS
+const POINTS_PER_CSS_PIXEL = POINTS_PER_INCH / 96;
+
+// Paper sizes offered when an album is created (CreateAlbumModal), width x height in mm
+const PAPER_SIZES: Record<string, [number, number]> = {
+    'A4-landscape': [297, 210],
+    'A4-portrait': [210, 297],
+    'Square': [210, 210],
+    'A5-landscape': [210, 148],
+    'A3-landscape': [420, 297],
+};
+
+// Marks start a little outside the bleed so they are never printed on the page
+const MARK_OFFSET = 6;
+const MARK_LENGTH = 18;
+const SLUG = MARK_OFFSET + MARK_LENGTH + 6;
+
+// Item edges this close (pt) to the trim are treated as touching it
+const EDGE_TOLERANCE = 0.5;
+
+export interface PrintOptions {
+    bleed?: boolean;    // Include the album's bleed (default true)
+    marks?: boolean;    // Crop and registration marks in a slug around the bleed
+    minDpi?: number;    // Photos below this effective resolution are reported
+    trimSize?: { width: number; height: number };  // Print at this size (pt) instead of the album's own, content scaled with it
+    bleedSize?: number; // Bleed (pt) to use instead of the album's
+}
+
+export interface PrintRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PrintGeometry {
+    trimWidth: number;
+    trimHeight: number;
+    bleed: number;
+    slug: number;
+    gutter: number;             // Binding inset on each page's binding edge (half the album gutter)
+    sheetWidth: number;
+    sheetHeight: number;
+    pointsPerPixel: number; // Album CSS pixels (font sizes, padding, borders) to points
+}
+
+/**
+ * How an image fills its frame, mirroring MediaRenderer: an explicit crop
+ * (fractions of the image), or object-fit with a focal point and zoom.
+ */
+export type ImageFit =
+    | { mode: 'crop'; x: number; y: number; width: number; height: number }
+    | { mode: 'cover' | 'contain' | 'stretch'; focalX: number; focalY: number; zoom: number };
+
+interface PrintItemBase {
+    id: string;
+    frame: PrintRect;           // Unrotated frame, border included
+    rotation: number;           // Degrees clockwise around the frame center
+    opacity: number;            // 0-1
+    border: { width: number; color: string } | null;
+    radius: number;
+}
+
+export interface PrintImageItem extends PrintItemBase {
+    kind: 'image';
+    url: string;
+    fit: ImageFit;
+    content: PrintRect;         // Inside the border; the image is fitted to this
+    bleedClip: PrintRect | null; // Larger visible area when the photo runs off the trim into the bleed
+    flipX: boolean;
+    flipY: boolean;
+}
+
+export interface PrintTextItem extends PrintItemBase {
+    kind: 'text';
+    text: string;               // Plain text, lines separated by "\n"
+    fontFamily: string;
+    bold: boolean;
+    italic: boolean;
+    fontSize: number;
+    lineHeight: number;         // Multiple of the font size
+    letterSpacing: number;
+    padding: number;
+    color: string;
+    backgroundColor: string | null;
+    align: 'left' | 'center' | 'right' | 'justify';
+    decoration: 'none' | 'underline' | 'line-through';
+}
+
+export type PrintItem = PrintImageItem | PrintTextItem;
+
+export interface PrintPagePlan {
+    pageId: string;
+    pageNumber: number;         // Position in the printed book, 1-based
+    backgroundColor: string;
+    backgroundImage: PrintImageItem | null;
+    items: PrintItem[];         // Bottom to top
+}
+
+export type PrintWarningKind = 'low-dpi' | 'missing-image' | 'font-substituted' | 'video' | 'unsupported';
+
+export interface PrintWarning {
+    kind: PrintWarningKind;
+    pageNumber: number;
+    pageId?: string;
+    itemId?: string;
+    message: string;
+    dpi?: number;
+}
+
+export interface PrintPlan {
+    geometry: PrintGeometry;
+    pages: PrintPagePlan[];
+    warnings: PrintWarning[];
+}
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+/**
+ * Physical size of the album. Pixel albums print at the paper size they were
+ * created with; the page is the trim and the configured bleed extends past it.
+ */
+export function getPrintGeometry(config: Partial<AlbumConfig> | undefined, options: PrintOptions = {}): PrintGeometry {
+    const dimensions = config?.dimensions || { width: 1000, height: 700, unit: 'px' as const, bleed: 0, gutter: 0 };
+    let trimWidth: number;
+    let trimHeight: number;
+    let pointsPerUnit: number;
+    let pointsPerPixel = POINTS_PER_CSS_PIXEL;
+
+    if (dimensions.unit === 'in' || dimensions.unit === 'cm') {
+        pointsPerUnit = dimensions.unit === 'in' ? POINTS_PER_INCH : POINTS_PER_CM;
+        trimWidth = dimensions.width * pointsPerUnit;
+        trimHeight = dimensions.height * pointsPerUnit;
+    } else {
+        const paper = config?.size ? PAPER_SIZES[config.size] : undefined;
+        if (paper) {
+            trimWidth = paper[0] * POINTS_PER_MM;
+            trimHeight = paper[1] * POINTS_PER_MM;
+            pointsPerPixel = trimWidth / dimensions.width;
+        } else {
+            trimWidth = dimensions.width * POINTS_PER_CSS_PIXEL;
+            trimHeight = dimensions.height * POINTS_PER_CSS_PIXEL;
+        }
+        pointsPerUnit = pointsPerPixel;
+    }
+
+    // A product size from a print vendor: items are placed in page percentages, type scales with the width
+    if (options.trimSize) {
+        pointsPerPixel *= options.trimSize.width / trimWidth;
+        pointsPerUnit *= options.trimSize.width / trimWidth;
+        trimWidth = options.trimSize.width;
+        trimHeight = options.trimSize.height;
+    }
+
+    const bleed = options.bleed === false ? 0 : options.bleedSize ?? Math.max(0, dimensions.bleed || 0) * pointsPerUnit;
+    const slug = options.marks ? SLUG : 0;
+    return {
+        trimWidth,
+        trimHeight,
+        bleed,
+        slug,
+        gutter: (Math.max(0, dimensions.gutter || 0) * pointsPerUnit) / 2,
+        sheetWidth: trimWidth + 2 * (bleed + slug),
+        sheetHeight: trimHeight + 2 * (bleed + slug),
+        pointsPerPixel,
+    };
+}
+
+export function getTrimBox(geometry: PrintGeometry): PrintRect {
+    const inset = geometry.slug + geometry.bleed;
+    return { x: inset, y: inset, width: geometry.trimWidth, height: geometry.trimHeight };
+}
+
+export function getBleedBox(geometry: PrintGeometry): PrintRect {
+    return {
+        x: geometry.slug,
+        y: geometry.slug,
+        width: geometry.trimWidth + 2 * geometry.bleed,
+        height: geometry.trimHeight + 2 * geometry.bleed,
+    };
+}
+
+/**
+ * Crop marks: two short lines at each trim corner, in line with the trim
+ * edges and kept clear of the bleed.
+ */
+export function getCropMarks(geometry: PrintGeometry): { x1: number; y1: number; x2: number; y2: number }[] {
+    if (geometry.slug === 0) return [];
+    const trim = getTrimBox(geometry);
+    const bleed = getBleedBox(geometry);
+    const near = MARK_OFFSET;
+    const far = MARK_OFFSET + MARK_LENGTH;
+    const xs = [trim.x, trim.x + trim.width];
+    const ys = [trim.y, trim.y + trim.height];
+
+    return xs.flatMap((x, i) => ys.flatMap((y, j) => {
+        const left = i === 0;
+        const top = j === 0;
+        const edgeX = left ? bleed.x : bleed.x + bleed.width;
+        const edgeY = top ? bleed.y : bleed.y + bleed.height;
+        return [
+            { x1: left ? edgeX - far : edgeX + near, y1: y, x2: left ? edgeX - near : edgeX + far, y2: y },
+            { x1: x, y1: top ? edgeY - far : edgeY + near, x2: x, y2: top ? edgeY - near : edgeY + far },
+        ];
+    }));
+}
+
+/**
+ * Registration targets centered on each side of the sheet, in the slug.
+ */
+export function getRegistrationMarks(geometry: PrintGeometry): { x: number; y: number; radius: number }[] {
+    if (geometry.slug === 0) return [];
+    const bleed = getBleedBox(geometry);
+    const distance = MARK_OFFSET + MARK_LENGTH / 2;
+    const radius = MARK_LENGTH / 3;
+    const centerX = bleed.x + bleed.width / 2;
+    const centerY = bleed.y + bleed.height / 2;
+    return [
+        { x: centerX, y: bleed.y - distance, radius },
+        { x: centerX, y: bleed.y + bleed.height + distance, radius },
+        { x: bleed.x - distance, y: centerY, radius },
+        { x: bleed.x + bleed.width + distance, y: centerY, radius },
+    ];
+}
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+/**
+ * Where the whole image lands for `frame`, following MediaRenderer's CSS.
+ * With `cover`, the result is grown around the frame center until it also
+ * fills that area (used to run photos at the trim edge into the bleed).
+ */
+export function placeImage(frame: PrintRect, natural: { width: number; height: number }, fit: ImageFit, cover?: PrintRect): PrintRect {
+    let placed: PrintRect;
+    if (fit.mode === 'crop') {
+        const width = Math.max(0.001, fit.width);
+        const height = Math.max(0.001, fit.height);
+        placed = {
+            x: frame.x - (fit.x / width) * frame.width,
+            y: frame.y - (fit.y / height) * frame.height,
+            width: frame.width / width,
+            height: frame.height / height,
+        };
+    } else {
+        let width = frame.width;
+        let height = frame.height;
+        if (fit.mode !== 'stretch') {
+            const scaleX = frame.width / natural.width;
+            const scaleY = frame.height / natural.height;
+            const scale = fit.mode === 'contain' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+            width = natural.width * scale;
+            height = natural.height * scale;
+        }
+        // object-position at the focal point, then scale(zoom) around the same point
+        const originX = frame.x + (frame.width * fit.focalX) / 100;
+        const originY = frame.y + (frame.height * fit.focalY) / 100;
+        const x = frame.x + ((frame.width - width) * fit.focalX) / 100;
+        const y = frame.y + ((frame.height - height) * fit.focalY) / 100;
+        placed = {
+            x: originX + (x - originX) * fit.zoom,
+            y: originY + (y - originY) * fit.zoom,
+            width: width * fit.zoom,
+            height: height * fit.zoom,
+        };
+    }
+
+    if (!cover || fit.mode === 'contain') return placed;
+
+    const centerX = frame.x + frame.width / 2;
+    const centerY = frame.y + frame.height / 2;
+    const growth = Math.max(
+        1,
+        placed.x < centerX ? (centerX - cover.x) / (centerX - placed.x) : 1,
+        placed.y < centerY ? (centerY - cover.y) / (centerY - placed.y) : 1,
+        placed.x + placed.width > centerX ? (cover.x + cover.width - centerX) / (placed.x + placed.width - centerX) : 1,
+        placed.y + placed.height > centerY ? (cover.y + cover.height - centerY) / (placed.y + placed.height - centerY) : 1
+    );
+    if (growth === 1) return placed;
+    return {
+        x: centerX - (centerX - placed.x) * growth,
+        y: centerY - (centerY - placed.y) * growth,
+        width: placed.width * growth,
+        height: placed.height * growth,
+    };
+}
+
+/**
+ * Pixels per inch the image has once placed; the lower of the two axes.
+ */
+export function effectiveDpi(natural: { width: number; height: number }, placed: PrintRect) {
+    const x = natural.width / (placed.width / POINTS_PER_INCH);
+    const y = natural.height / (placed.height / POINTS_PER_INCH);
+    return Math.round(Math.min(x, y));
+}
+
+export function checkResolution(
+    page: PrintPagePlan,
+    item: PrintImageItem,
+    natural: { width: number; height: number },
+    placed: PrintRect,
+    minDpi = MIN_PRINT_DPI
+): PrintWarning | null {
+    const dpi = effectiveDpi(natural, placed);
+    if (dpi >= minDpi) return null;
+    return {
+        kind: 'low-dpi',
+        pageNumber: page.pageNumber,
+        pageId: page.pageId,
+        itemId: item.id,
+        dpi,
+        message: `Photo prints at ${dpi} DPI (${natural.width}×${natural.height} px over ${formatInches(placed.width)}×${formatInches(placed.height)} in); ${minDpi} DPI or more is recommended`,
+    };
+}
+
+function formatInches(points: number) {
+    return (points / POINTS_PER_INCH).toFixed(1);
+}
+
+// ============================================================================
+// TEXT & COLOR
+// ============================================================================
+
+/**
+ * Plain text from the HTML a contentEditable text box stores: block
+ * elements and <br> become line breaks, other markup is dropped.
+ */
+export function htmlToPlainText(html: string | undefined): string {
+    if (!html) return '';
+    const text = html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<(div|p|li|h[1-6])\b[^>]*>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&#(\d+);/g, (_match, code) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_match, code) => String.fromCodePoint(parseInt(code, 16)));
+    return _.unescape(text).replace(/^\n/, '').replace(/\n+$/, '');
+}
+
+/**
+ * RGB (0-255) and alpha of a CSS hex or rgb()/rgba() color; null when the
+ * color is transparent or not understood.
+ */
+export function parseColor(value: string | undefined): { r: number; g: number; b: number; a: number } | null {
+    if (!value) return null;
+    const color = value.trim().toLowerCase();
+    if (color === 'white') return { r: 255, g: 255, b: 255, a: 1 };
+    if (color === 'black') return { r: 0, g: 0, b: 0, a: 1 };
+
+    const hex = color.match(/^#([0-9a-f]{3,8})$/);
+    if (hex) {
+        let digits = hex[1];
+        if (digits.length === 3 || digits.length === 4) digits = digits.split('').map(d => d + d).join('');
+        if (digits.length !== 6 && digits.length !== 8) return null;
+        const a = digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1;
+        if (a === 0) return null;
+        return { r: parseInt(digits.slice(0, 2), 16), g: parseInt(digits.slice(2, 4), 16), b: parseInt(digits.slice(4, 6), 16), a };
+    }
+
+    const rgb = color.match(/^rgba?\(([^)]+)\)$/);
+    if (rgb) {
+        const [r, g, b, a = 1] = rgb[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+        if ([r, g, b, a].some(isNaN) || a === 0) return null;
+        return { r, g, b, a };
+    }
+    return null;
+}
+
+/**
+ * Naive RGB to CMYK (0-1) for vector colors. Neutral greys and black go on
+ * the black plate only, so text stays sharp even if plates misregister.
+ */
+export function rgbToCmyk({ r, g, b }: { r: number; g: number; b: number }): [number, number, number, number] {
+    const red = r / 255;
+    const green = g / 255;
+    const blue = b / 255;
+    const k = 1 - Math.max(red, green, blue);
+    if (k >= 1) return [0, 0, 0, 1];
+    const c = (1 - red - k) / (1 - k);
+    const m = (1 - green - k) / (1 - k);
+    const y = (1 - blue - k) / (1 - k);
+    const round = (n: number) => Math.round(n * 1000) / 1000;
+    return [round(c), round(m), round(y), round(k)];
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+/**
+ * Same stacking LayoutFrame uses: media slots above text, decorations below.
+ */
+function stackingOrder(box: LayoutBox) {
+    const isMedia = box.role === 'slot' && (box.content?.type === 'image' || box.content?.type === 'video');
+    if (isMedia) return 100;
+    if (box.zIndex !== undefined && box.zIndex >= 100) return box.zIndex;
+    switch (box.role) {
+        case 'slot': return 10;
+        case 'text': return 50;
+        case 'decoration': return 5;
+        default: return box.zIndex || 10;
+    }
+}
+
+/**
+ * Layout boxes of a page in drawing order, as AlbumPage builds them.
+ */
+export function getPageBoxes(page: Page): LayoutBox[] {
+    const slots: LayoutBox[] = (page.layoutConfig || []).length > 0
+        ? mapAssetsToLayoutSlots(page.layoutConfig || [], page.assets).filter(box => box.content)
+        : [];
+    const freeform = page.assets
+        .filter(asset => asset.slotId === undefined || asset.slotId === null)
+        .map(freeformAssetToLayoutBox);
+    return _.sortBy([...slots, ...freeform, ...(page.textLayers || [])], stackingOrder);
+}
+
+function toRect(box: LayoutBox, trim: PrintRect): PrintRect {
+    return {
+        x: trim.x + ((box.left || 0) / 100) * trim.width,
+        y: trim.y + ((box.top || 0) / 100) * trim.height,
+        width: (box.width / 100) * trim.width,
+        height: (box.height / 100) * trim.height,
+    };
+}
+
+function inset(rect: PrintRect, by: number): PrintRect {
+    return { x: rect.x + by, y: rect.y + by, width: Math.max(0, rect.width - 2 * by), height: Math.max(0, rect.height - 2 * by) };
+}
+
+/**
+ * Extend the sides of `rect` that touch the trim out to the bleed edge;
+ * null when no side touches it.
+ */
+function extendIntoBleed(rect: PrintRect, trim: PrintRect, bleed: PrintRect): PrintRect | null {
+    const left = rect.x <= trim.x + EDGE_TOLERANCE ? Math.min(rect.x, bleed.x) : rect.x;
+    const top = rect.y <= trim.y + EDGE_TOLERANCE ? Math.min(rect.y, bleed.y) : rect.y;
+    const right = rect.x + rect.width >= trim.x + trim.width - EDGE_TOLERANCE ? Math.max(rect.x + rect.width, bleed.x + bleed.width) : rect.x + rect.width;
+    const bottom = rect.y + rect.height >= trim.y + trim.height - EDGE_TOLERANCE ? Math.max(rect.y + rect.height, bleed.y + bleed.height) : rect.y + rect.height;
+    const extended = { x: left, y: top, width: right - left, height: bottom - top };
+    return _.isEqual(extended, rect) ? null : extended;
+}
+
+function fontWeightIsBold(weight: unknown) {
+    if (weight === 'bold' || weight === 'bolder') return true;
+    const numeric = Number(weight);
+    return !isNaN(numeric) && numeric >= 600;
+}
+
+function primaryFontFamily(family: string | undefined) {
+    return (family || 'Inter').split(',')[0].replace(/["']/g, '').trim() || 'Inter';
+}
+
+function imageFit(box: LayoutBox): ImageFit {
+    const crop = box.content?.crop;
+    if (crop && crop.width && crop.height) {
+        return { mode: 'crop', x: crop.x ?? 0, y: crop.y ?? 0, width: crop.width, height: crop.height };
+    }
+    const fitMode = box.content?.config?.fitMode || 'cover';
+    return {
+        mode: fitMode === 'fit' ? 'contain' : fitMode === 'stretch' ? 'stretch' : 'cover',
+        focalX: box.content?.x ?? 50,
+        focalY: box.content?.y ?? 50,
+        zoom: box.content?.zoom || 1,
+    };
+}
+
+interface ItemContext {
+    page: PrintPagePlan;
+    geometry: PrintGeometry;
+    trim: PrintRect;
+    bleed: PrintRect;
+    warnings: PrintWarning[];
+}
+
+function toPrintItem(box: LayoutBox, context: ItemContext): PrintItem | null {
+    const { page, geometry, trim, bleed } = context;
+    const config = box.content?.config || {};
+    const type = box.content?.type || 'image';
+    const px = geometry.pointsPerPixel;
+    const base = {
+        id: box.id,
+        frame: toRect(box, trim),
+        rotation: (box as LayoutBox & { rotation?: number }).rotation || box.content?.rotation || 0,
+        opacity: (config.opacity ?? 100) / 100,
+        border: config.borderWidth ? { width: config.borderWidth * px, color: config.borderColor || '#000' } : null,
+        radius: (config.borderRadius || 0) * px,
+    };
+
+    // Hidden in the editor, so not printed either
+    if (config.isHidden) return null;
+
+    if (type === 'video' || type === 'map') {
+        context.warnings.push({
+            kind: type === 'video' ? 'video' : 'unsupported',
+            pageNumber: page.pageNumber,
+            pageId: page.pageId,
+            itemId: box.id,
+            message: type === 'video' ? 'Videos cannot be printed and are left out' : 'Maps cannot be printed yet and are left out',
+        });
+        return null;
+    }
+
+    if (type === 'text' || type === 'location') {
+        const text = type === 'location' ? (box.content?.text || 'Location') : htmlToPlainText(box.content?.text);
+        if (!text.trim()) return null;
+        return {
+            ...base,
+            kind: 'text',
+            text,
+            fontFamily: primaryFontFamily(config.fontFamily),
+            bold: fontWeightIsBold(config.fontWeight),
+            italic: config.fontStyle === 'italic',
+            fontSize: (config.fontSize || (type === 'location' ? 14 : 16)) * px,
+            lineHeight: config.lineHeight || 1.4,
+            letterSpacing: (config.letterSpacing || 0) * px,
+            padding: (type === 'location' ? 8 : (config.padding !== undefined ? config.padding : 16)) * px,
+            color: config.textColor || config.color || (type === 'location' ? '#6b7280' : '#000000'),
+            backgroundColor: type === 'text' && parseColor(config.textBackgroundColor) ? config.textBackgroundColor : null,
+            align: type === 'location' ? 'left' : (config.textAlign || 'center'),
+            decoration: config.textDecoration === 'underline' || config.textDecoration === 'line-through' ? config.textDecoration : 'none',
+        };
+    }
+
+    const url = box.content?.url;
+    if (!url) return null;
+    const content = inset(base.frame, base.border?.width || 0);
+    const bleeds = base.rotation === 0 && !base.border && !base.radius && geometry.bleed > 0;
+    return {
+        ...base,
+        kind: 'image',
+        url,
+        fit: imageFit(box),
+        content,
+        bleedClip: bleeds ? extendIntoBleed(content, trim, bleed) : null,
+        flipX: !!config.flipX,
+        flipY: !!config.flipY,
+    };
+}
+
+function backgroundImage(page: Page, context: Omit<ItemContext, 'page'>): PrintImageItem | null {
+    const url = page.backgroundImage || page.pageStyles?.backgroundImage;
+    if (!url) return null;
+    const scale = page.backgroundScale || 'cover';
+    return {
+        id: 'background',
+        kind: 'image',
+        url,
+        frame: context.trim,
+        content: context.trim,
+        bleedClip: scale === 'contain' || context.geometry.bleed === 0 ? null : context.bleed,
+        rotation: 0,
+        opacity: page.backgroundOpacity ?? page.pageStyles?.backgroundOpacity ?? 1,
+        border: null,
+        radius: 0,
+        fit: {
+            mode: scale === 'contain' ? 'contain' : scale === 'stretch' ? 'stretch' : 'cover',
+            focalX: 50,
+            focalY: page.backgroundPosition === 'top' ? 0 : page.backgroundPosition === 'bottom' ? 100 : 50,
+            zoom: 1,
+        },
+        flipX: false,
+        flipY: false,
+    };
+}
+
+/**
+ * Everything the renderer needs, one plan per printed page. Items that
+ * cannot be printed are left out and reported.
+ */
+export function buildPrintPlan(source: DisplaySource, options: PrintOptions = {}): PrintPlan {
+    const geometry = getPrintGeometry(source.config, options);
+    const trim = getTrimBox(geometry);
+    const bleed = getBleedBox(geometry);
+    const warnings: PrintWarning[] = [];
+
+    const pages = getDisplayPages(source).map((displayPage, index) => {
+        const page: PrintPagePlan = {
+            pageId: displayPage.id,
+            pageNumber: index + 1,
+            // Unset backgrounds print as paper white rather than the viewer's off-white
+            backgroundColor: displayPage.backgroundColor || displayPage.pageStyles?.backgroundColor || '#ffffff',
+            backgroundImage: backgroundImage(displayPage, { geometry, trim, bleed, warnings }),
+            items: [],
+        };
+        page.items = getPageBoxes(displayPage)
+            .map(box => toPrintItem(box, { page, geometry, trim, bleed, warnings }))
+            .filter((item): item is PrintItem => item !== null);
+        return page;
+    });
+
+    return { geometry, pages, warnings };
+}
@@ -0,0 +1,361 @@
+import _ from 'lodash';
+
+/**
+ * Print Vendors
+ * Photo-book products of print-on-demand vendors and how an album is
+ * delivered to them: which product fits the album's page size, how many
+ * interior pages the order needs, how wide the spine gets for that count,
+ * the size of the cover spread (back cover, spine, front cover and the
+ * wrap around them), the names the vendor expects for the files and the
+ * order manifest they read. Profiles are plain objects; a vendor is added
+ * by registering another one. Sizes are in millimetres.
+ */
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+export interface VendorProduct {
+    id: string;
+    name: string;
+    trimWidthMm: number;
+    trimHeightMm: number;
+    bleedMm: number;            // Interior pages, each side
+    coverWrapMm: number;        // Cover spread: bleed or board wrap on each outer edge
+    minPages: number;           // Interior pages
+    maxPages: number;
+    pageMultiple: number;       // Interior page count must be a multiple of this
+    spine: {
+        baseMm: number;         // Covers and binding
+        perPageMm: number;      // Each interior page
+        minMm: number;
+    };
+}
+
+export interface VendorOrderFile {
+    path: string;
+    kind: 'cover' | 'page' | 'interior';
+    page?: number;              // Interior page number, 1-based
+    widthMm: number;
+    heightMm: number;
+    widthPx?: number;           // Page images
+    heightPx?: number;
+}
+
+export interface VendorOrder {
+    vendorId: string;
+    vendorName: string;
+    product: VendorProduct;
+    title: string;
+    albumId?: string;
+    createdAt: string;
+    dpi: number;
+    contentPages: number;       // Interior pages from the album
+    blankPages: number;         // Added at the end to reach the vendor's page count
+    pageCount: number;
+    spineWidthMm: number;
+    cover: { widthMm: number; heightMm: number; wrapMm: number };
+    files: VendorOrderFile[];
+    warnings: string[];
+}
+
+export interface PrintVendorProfile {
+    id: string;
+    name: string;
+    description: string;
+    products: VendorProduct[];
+    pageFormat: 'jpeg' | 'pdf'; // One image per interior page, or one interior PDF
+    dpi: number;                // Page and cover images
+    pageFileName?: (page: number, pageCount: number) => string;    // Page images
+    interiorFileName?: string;  // Interior PDF
+    coverFileName: string;      // Without extension; JPEG or PDF follows pageFormat
+    manifestFileName: string;
+    buildManifest: (order: VendorOrder) => string;
+}
+
+// Below this the vendor prints no text on the spine
+export const SPINE_TEXT_MIN_MM = 6;
+
+// Albums whose page shape differs more than this from the product are stretched noticeably
+const ASPECT_TOLERANCE = 0.03;
+
+const POINTS_PER_MM = 72 / 25.4;
+
+export function mmToPoints(mm: number) {
+    return mm * POINTS_PER_MM;
+}
+
+export function pointsToMm(points: number) {
+    return points / POINTS_PER_MM;
+}
+
+export function mmToPixels(mm: number, dpi: number) {
+    return Math.round((mm / 25.4) * dpi);
+}
+
+function round(value: number, digits = 2) {
+    return Number(value.toFixed(digits));
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * The product closest in shape to the album's trim size, then closest in size.
+ */
+export function matchVendorProduct(profile: PrintVendorProfile, trimWidthMm: number, trimHeightMm: number): VendorProduct {
+    const aspect = trimWidthMm / trimHeightMm;
+    return _.minBy(profile.products, product => {
+        const aspectGap = Math.abs(Math.log((product.trimWidthMm / product.trimHeightMm) / aspect));
+        const sizeGap = Math.abs(Math.log(product.trimWidthMm / trimWidthMm));
+        return aspectGap * 10 + sizeGap;
+    })!;
+}
+
+/**
+ * Interior pages the order needs: at least the product's minimum and a
+ * multiple of its page step, with blank pages making up the difference.
+ */
+export function interiorPageCount(product: VendorProduct, contentPages: number) {
+    const needed = Math.max(product.minPages, contentPages);
+    const pageCount = Math.ceil(needed / product.pageMultiple) * product.pageMultiple;
+    return { pageCount, blankPages: pageCount - contentPages };
+}
+
+export function spineWidthMm(product: VendorProduct, pageCount: number) {
+    return round(Math.max(product.spine.minMm, product.spine.baseMm + product.spine.perPageMm * pageCount));
+}
+
+/**
+ * Back cover, spine and front cover side by side with the wrap around them.
+ */
+export function coverSpreadSize(product: VendorProduct, spineMm: number) {
+    return {
+        widthMm: round(2 * product.trimWidthMm + spineMm + 2 * product.coverWrapMm),
+        heightMm: round(product.trimHeightMm + 2 * product.coverWrapMm),
+        wrapMm: product.coverWrapMm,
+    };
+}
+
+export interface VendorOrderInput {
+    title: string;
+    albumId?: string;
+    trimWidthMm: number;        // The album's own page size
+    trimHeightMm: number;
+    contentPages: number;       // Interior pages, covers excluded
+}
+
+/**
+ * Everything about the order except the file contents: counts, spine,
+ * cover size, the files with their names and sizes, and what the family
+ * should check before ordering.
+ */
+export function planVendorOrder(
+    profile: PrintVendorProfile,
+    product: VendorProduct,
+    input: VendorOrderInput,
+    createdAt = new Date()
+): VendorOrder {
+    const { pageCount, blankPages } = interiorPageCount(product, input.contentPages);
+    const spine = spineWidthMm(product, pageCount);
+    const cover = coverSpreadSize(product, spine);
+    const pageWidthMm = product.trimWidthMm + 2 * product.bleedMm;
+    const pageHeightMm = product.trimHeightMm + 2 * product.bleedMm;
+    const coverFile = `${profile.coverFileName}.${profile.pageFormat === 'jpeg' ? 'jpg' : 'pdf'}`;
+
+    const files: VendorOrderFile[] = [{
+        path: coverFile,
+        kind: 'cover',
+        widthMm: cover.widthMm,
+        heightMm: cover.heightMm,
+        ...(profile.pageFormat === 'jpeg' && {
+            widthPx: mmToPixels(cover.widthMm, profile.dpi),
+            heightPx: mmToPixels(cover.heightMm, profile.dpi),
+        }),
+    }];
+    if (profile.pageFormat === 'jpeg') {
+        for (let page = 1; page <= pageCount; page++) {
+            files.push({
+                path: profile.pageFileName?.(page, pageCount) ?? `page_${page}.jpg`,
+                kind: 'page',
+                page,
+                widthMm: round(pageWidthMm),
+                heightMm: round(pageHeightMm),
+                widthPx: mmToPixels(pageWidthMm, profile.dpi),
+                heightPx: mmToPixels(pageHeightMm, profile.dpi),
+            });
+        }
+    } else {
+        files.push({ path: profile.interiorFileName || 'interior.pdf', kind: 'interior', widthMm: round(pageWidthMm), heightMm: round(pageHeightMm) });
+    }
+
+    const warnings: string[] = [];
+    const aspectGap = Math.abs((product.trimWidthMm / product.trimHeightMm) / (input.trimWidthMm / input.trimHeightMm) - 1);
+    if (aspectGap > ASPECT_TOLERANCE) {
+        warnings.push(`The album's pages (${round(input.trimWidthMm, 0)} × ${round(input.trimHeightMm, 0)} mm) are a different shape from ${product.name}; pages are stretched to fit.`);
+    }
+    if (input.contentPages > product.maxPages) {
+        warnings.push(`${product.name} takes at most ${product.maxPages} interior pages; the album has ${input.contentPages}.`);
+    }
+    if (blankPages > 0) {
+        warnings.push(`${blankPages} blank page(s) were added at the end to reach ${pageCount} pages.`);
+    }
+    if (spine < SPINE_TEXT_MIN_MM) {
+        warnings.push(`The spine is ${spine} mm wide, too narrow for the title; it is left plain.`);
+    }
+
+    return {
+        vendorId: profile.id,
+        vendorName: profile.name,
+        product,
+        title: input.title,
+        albumId: input.albumId,
+        createdAt: createdAt.toISOString(),
+        dpi: profile.dpi,
+        contentPages: input.contentPages,
+        blankPages,
+        pageCount,
+        spineWidthMm: spine,
+        cover,
+        files,
+        warnings,
+    };
+}
+
+// ============================================================================
+// MANIFESTS
+// ============================================================================
+
+function escapeXml(value: string) {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function xmlAttributes(values: Record<string, string | number | undefined>) {
+    return Object.entries(values)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+        .join('');
+}
+
+function jsonManifest(order: VendorOrder) {
+    return JSON.stringify({
+        order: {
+            title: order.title,
+            reference: order.albumId,
+            created: order.createdAt,
+            product: order.product.id,
+            pageCount: order.pageCount,
+            binding: { spineWidthMm: order.spineWidthMm },
+        },
+        cover: { file: order.files.find(file => file.kind === 'cover')?.path, ...order.cover },
+        interior: order.files.filter(file => file.kind !== 'cover').map(file => ({
+            file: file.path,
+            widthMm: file.widthMm,
+            heightMm: file.heightMm,
+            bleedMm: order.product.bleedMm,
+        })),
+        notes: order.warnings,
+    }, null, 2);
+}
+
+function xmlManifest(order: VendorOrder) {
+    const cover = order.files.find(file => file.kind === 'cover')!;
+    const pages = order.files.filter(file => file.kind === 'page');
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<Order${xmlAttributes({ created: order.createdAt, reference: order.albumId })}>`,
+        `  <Product${xmlAttributes({ code: order.product.id, pages: order.pageCount, dpi: order.dpi })}>${escapeXml(order.product.name)}</Product>`,
+        `  <Title>${escapeXml(order.title)}</Title>`,
+        `  <Cover${xmlAttributes({ file: cover.path, widthMm: cover.widthMm, heightMm: cover.heightMm, spineMm: order.spineWidthMm, wrapMm: order.cover.wrapMm, widthPx: cover.widthPx, heightPx: cover.heightPx })}/>`,
+        '  <Pages>',
+        ...pages.map(page => `    <Page${xmlAttributes({ number: page.page, file: page.path, widthPx: page.widthPx, heightPx: page.heightPx, bleedMm: order.product.bleedMm })}/>`),
+        '  </Pages>',
+        ...order.warnings.map(warning => `  <Note>${escapeXml(warning)}</Note>`),
+        '</Order>',
+        '',
+    ].join('\n');
+}
+
+// ============================================================================
+// SAMPLE PROFILES
+// ============================================================================
+
+/**
+ * Sample profiles with typical specifications of the two ways photo-book
+ * labs take orders. Check the vendor's current spec sheet before ordering.
+ */
+const PHOTO_LAB: PrintVendorProfile = {
+    id: 'photo-lab',
+    name: 'Photo Lab (page images)',
+    description: 'Hardcover photo books from one JPEG per page at 300 dpi, with an XML order file.',
+    pageFormat: 'jpeg',
+    dpi: 300,
+    pageFileName: (page, pageCount) => `Page_${String(page).padStart(Math.max(3, String(pageCount).length), '0')}.jpg`,
+    coverFileName: 'Cover',
+    manifestFileName: 'order.xml',
+    buildManifest: xmlManifest,
+    products: [
+        {
+            id: 'HC-SQ-20', name: 'Hardcover Square 20 × 20 cm', trimWidthMm: 200, trimHeightMm: 200,
+            bleedMm: 3, coverWrapMm: 18, minPages: 24, maxPages: 120, pageMultiple: 2,
+            spine: { baseMm: 6, perPageMm: 0.12, minMm: 8 },
+        },
+        {
+            id: 'HC-LS-A4', name: 'Hardcover Landscape A4', trimWidthMm: 297, trimHeightMm: 210,
+            bleedMm: 3, coverWrapMm: 18, minPages: 24, maxPages: 120, pageMultiple: 2,
+            spine: { baseMm: 6, perPageMm: 0.12, minMm: 8 },
+        },
+        {
+            id: 'HC-PT-A4', name: 'Hardcover Portrait A4', trimWidthMm: 210, trimHeightMm: 297,
+            bleedMm: 3, coverWrapMm: 18, minPages: 24, maxPages: 120, pageMultiple: 2,
+            spine: { baseMm: 6, perPageMm: 0.12, minMm: 8 },
+        },
+    ],
+};
+
+const BOOK_PRESS: PrintVendorProfile = {
+    id: 'book-press',
+    name: 'Book Press (PDF)',
+    description: 'Softcover books printed from one interior PDF and one cover PDF, with a JSON order file.',
+    pageFormat: 'pdf',
+    dpi: 300,
+    interiorFileName: 'interior.pdf',
+    coverFileName: 'cover',
+    manifestFileName: 'order.json',
+    buildManifest: jsonManifest,
+    products: [
+        {
+            id: 'sq-8.5', name: 'Square 8.5 × 8.5 in', trimWidthMm: 215.9, trimHeightMm: 215.9,
+            bleedMm: 3.175, coverWrapMm: 3.175, minPages: 24, maxPages: 240, pageMultiple: 4,
+            spine: { baseMm: 1.5, perPageMm: 0.0572, minMm: 3 },
+        },
+        {
+            id: 'ls-11x8.5', name: 'Landscape 11 × 8.5 in', trimWidthMm: 279.4, trimHeightMm: 215.9,
+            bleedMm: 3.175, coverWrapMm: 3.175, minPages: 24, maxPages: 240, pageMultiple: 4,
+            spine: { baseMm: 1.5, perPageMm: 0.0572, minMm: 3 },
+        },
+        {
+            id: 'pt-8x10', name: 'Portrait 8 × 10 in', trimWidthMm: 203.2, trimHeightMm: 254,
+            bleedMm: 3.175, coverWrapMm: 3.175, minPages: 24, maxPages: 240, pageMultiple: 4,
+            spine: { baseMm: 1.5, perPageMm: 0.0572, minMm: 3 },
+        },
+    ],
+};
+
+const PRINT_VENDORS = new Map<string, PrintVendorProfile>([
+    [PHOTO_LAB.id, PHOTO_LAB],
+    [BOOK_PRESS.id, BOOK_PRESS],
+]);
+
+export function registerPrintVendor(profile: PrintVendorProfile) {
+    PRINT_VENDORS.set(profile.id, profile);
+}
+
+export function getPrintVendors(): PrintVendorProfile[] {
+    return [...PRINT_VENDORS.values()];
+}
+
+export function getPrintVendor(id: string): PrintVendorProfile | undefined {
+    return PRINT_VENDORS.get(id);
+}
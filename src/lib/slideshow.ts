@@ -0,0 +1,371 @@
+import _ from 'lodash';
+import type { PrintRect } from './printLayout';
+
+/**
+ * Slideshow
+ * Plans the MP4 slideshows exported from the flipbook and from stacks so
+ * they can be played on a TV without the app. Albums show one spread at a
+ * time with a page turn between spreads, laid out like the flipbook (the
+ * cover alone on the right, the back cover alone on the left). Stacks play
+ * their items in order like MediaStackViewer: photos for their duration,
+ * videos trimmed to their start and end, with caption, text and sticker
+ * layers and the stack's music ducked under video sound.
+ *
+ * Every piece is encoded to a segment with the same size, frame rate and
+ * codecs, and the segments are joined with the concat demuxer. The helpers
+ * below build the ffmpeg arguments; the renderer draws the frames and runs
+ * them through ffmpeg.wasm.
+ */
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+export type SlideshowResolution = '720p' | '1080p' | '2160p';
+
+export const SLIDESHOW_RESOLUTIONS: Record<SlideshowResolution, { width: number; height: number; label: string }> = {
+    '720p': { width: 1280, height: 720, label: 'HD 720p' },
+    '1080p': { width: 1920, height: 1080, label: 'Full HD 1080p' },
+    '2160p': { width: 3840, height: 2160, label: '4K' },
+};
+
+export const SLIDESHOW_FPS = 30;
+export const DEFAULT_SLIDE_SECONDS = 5;
+export const SLIDE_DURATIONS = [3, 5, 8, 12];
+
+export const PAGE_TURN_SECONDS = 1.2;
+export const SLIDE_FADE_SECONDS = 0.4;
+
+// Stack music plays at this volume while a video's own sound is on, as in the viewer
+export const MUSIC_DUCK_VOLUME = 0.2;
+const MUSIC_FADE_OUT_SECONDS = 2;
+
+// Shortest piece a trimmed video may be cut to
+const MIN_CLIP_SECONDS = 0.5;
+
+// Albums are framed with a margin of this fraction of the video height
+const SPREAD_MARGIN = 0.06;
+
+export interface SlideshowOptions {
+    resolution: SlideshowResolution;
+    // Seconds per spread or photo; stacks fall back to each photo's own duration when unset
+    itemDuration?: number;
+}
+
+// ============================================================================
+// ALBUMS
+// ============================================================================
+
+/**
+ * Indexes into the display pages for the two sides of a spread.
+ */
+export interface AlbumSpread {
+    left: number | null;
+    right: number | null;
+}
+
+/**
+ * Spreads in flipbook order: the front cover alone on the right, pages in
+ * pairs, and a last odd page alone on the left as the back cover.
+ */
+export function planAlbumSpreads(pageCount: number): AlbumSpread[] {
+    if (pageCount <= 0) return [];
+    const spreads: AlbumSpread[] = [{ left: null, right: 0 }];
+    for (let left = 1; left < pageCount; left += 2) {
+        spreads.push({ left, right: left + 1 < pageCount ? left + 1 : null });
+    }
+    return spreads;
+}
+
+export interface SpreadLayout {
+    left: PrintRect;            // Video pixels, whole pixels
+    right: PrintRect;
+    spineX: number;
+}
+
+/**
+ * Where the two pages of a spread go in the video frame: side by side,
+ * centered, as large as the margin allows.
+ */
+export function layoutSpread(pageWidth: number, pageHeight: number, frameWidth: number, frameHeight: number): SpreadLayout {
+    const margin = Math.round(frameHeight * SPREAD_MARGIN);
+    const scale = Math.min((frameWidth - 2 * margin) / (2 * pageWidth), (frameHeight - 2 * margin) / pageHeight);
+    const width = Math.round(pageWidth * scale);
+    const height = Math.round(pageHeight * scale);
+    const spineX = Math.round(frameWidth / 2);
+    const y = Math.round((frameHeight - height) / 2);
+    return {
+        left: { x: spineX - width, y, width, height },
+        right: { x: spineX, y, width, height },
+        spineX,
+    };
+}
+
+/**
+ * The turning leaf at `progress` (0-1) of a page turn. It starts as the
+ * current spread's right page and folds toward the spine; past halfway its
+ * back, the next spread's left page, opens out to the left. Width is a
+ * fraction of the page width and shade how dark the fold is.
+ */
+export function pageTurnLeaf(progress: number): { face: 'front' | 'back'; width: number; shade: number } {
+    const eased = (1 - Math.cos(_.clamp(progress, 0, 1) * Math.PI)) / 2;
+    const width = Math.abs(Math.cos(eased * Math.PI));
+    return {
+        face: eased < 0.5 ? 'front' : 'back',
+        width,
+        shade: (1 - width) * 0.45,
+    };
+}
+
+export function pageTurnFrameCount(fps = SLIDESHOW_FPS) {
+    return Math.max(2, Math.round(PAGE_TURN_SECONDS * fps));
+}
+
+// ============================================================================
+// STACKS
+// ============================================================================
+
+export interface SlideshowTextLayer {
+    id?: string;
+    text: string;
+    x: number;                  // Percent of the frame, layer center
+    y: number;
+    fontSize?: number;          // CSS pixels of the full-screen viewer
+    fontFamily?: string;
+    color?: string;
+    bold?: boolean;
+    rotation?: number;
+}
+
+export interface SlideshowStickerLayer {
+    id?: string;
+    emoji: string;
+    x: number;
+    y: number;
+    size?: number;
+}
+
+/**
+ * The fields of a stack item (MediaStackViewer's MediaItem) a slideshow uses.
+ */
+export interface SlideshowStackItem {
+    id: string;
+    url: string;
+    type: 'image' | 'video';
+    caption?: string;
+    duration?: number;
+    cropMode?: 'contain' | 'cover';
+    captionRotation?: number;
+    captionX?: number;
+    captionY?: number;
+    captionFontSize?: number;
+    captionColor?: string;
+    textLayers?: SlideshowTextLayer[];
+    stickerLayers?: SlideshowStickerLayer[];
+    videoStartTime?: number;
+    videoEndTime?: number;
+}
+
+export interface SlideshowStack {
+    title: string;
+    items: SlideshowStackItem[];
+    musicUrl?: string | null;
+}
+
+// Layers are sized in CSS pixels of the viewer; a 900px tall window is taken as its size
+const STACK_VIEWER_HEIGHT = 900;
+
+export function stackLayerScale(frameHeight: number) {
+    return frameHeight / STACK_VIEWER_HEIGHT;
+}
+
+export function hasStackOverlay(item: SlideshowStackItem) {
+    return !!item.caption || !!item.textLayers?.length || !!item.stickerLayers?.length;
+}
+
+/**
+ * Seconds of a photo: the chosen slide length, or the item's own.
+ */
+export function photoDuration(item: SlideshowStackItem, options: SlideshowOptions) {
+    return options.itemDuration || item.duration || DEFAULT_SLIDE_SECONDS;
+}
+
+/**
+ * Part of a video that plays: from videoStartTime to videoEndTime, clamped
+ * to the clip. Without a known clip length an open end plays the slide length.
+ */
+export function videoClip(item: SlideshowStackItem, clipDuration: number | null, options: SlideshowOptions) {
+    const limit = clipDuration ?? Infinity;
+    const start = _.clamp(item.videoStartTime || 0, 0, Math.max(0, limit - MIN_CLIP_SECONDS));
+    const end = Math.min(item.videoEndTime || limit, limit);
+    const duration = Number.isFinite(end) ? end - start : photoDuration(item, options);
+    return { start, duration: Math.max(MIN_CLIP_SECONDS, duration) };
+}
+
+/**
+ * Length and audio of a media file, from the log ffmpeg prints for `-i file`.
+ */
+export function parseMediaInfo(log: string): { duration: number | null; hasAudio: boolean } {
+    const match = log.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+    const duration = match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+    return {
+        duration: duration && duration > 0 ? duration : null,
+        hasAudio: /Stream #\d+:\d+.*: Audio:/.test(log),
+    };
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+export interface SegmentFormat {
+    width: number;
+    height: number;
+    fps?: number;
+    audio: boolean;             // Stacks carry sound in every segment so they concatenate
+}
+
+const AUDIO_FORMAT = 'aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo';
+
+function videoCodecArgs(format: SegmentFormat) {
+    return ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '21', '-pix_fmt', 'yuv420p', '-r', String(format.fps || SLIDESHOW_FPS)];
+}
+
+function audioCodecArgs() {
+    return ['-c:a', 'aac', '-b:a', '160k', '-ar', '48000', '-ac', '2'];
+}
+
+function fades(kind: 'fade' | 'afade', duration: number, fade: number) {
+    if (fade <= 0) return [];
+    const length = Math.min(fade, duration / 2);
+    return [`${kind}=t=in:st=0:d=${length}`, `${kind}=t=out:st=${round(duration - length)}:d=${length}`];
+}
+
+function silence(duration: number) {
+    return `anullsrc=r=48000:cl=stereo,atrim=duration=${round(duration)}`;
+}
+
+function round(seconds: number) {
+    return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * One still frame held for `duration` seconds, faded in and out from black when `fade` is set.
+ */
+export function stillSegmentArgs(image: string, output: string, duration: number, format: SegmentFormat, fade = 0): string[] {
+    const video = ['setsar=1', 'format=yuv420p', ...fades('fade', duration, fade)].join(',');
+    const graph = format.audio ? `[0:v]${video}[v];${silence(duration)}[a]` : `[0:v]${video}[v]`;
+    return [
+        '-loop', '1', '-framerate', String(format.fps || SLIDESHOW_FPS), '-t', String(round(duration)), '-i', image,
+        '-filter_complex', graph,
+        '-map', '[v]', ...(format.audio ? ['-map', '[a]'] : []),
+        ...videoCodecArgs(format), ...(format.audio ? audioCodecArgs() : []),
+        '-t', String(round(duration)),
+        output,
+    ];
+}
+
+/**
+ * Numbered frames (e.g. "turn_%04d.jpg") played at the slideshow frame rate.
+ */
+export function frameSequenceArgs(pattern: string, output: string, frameCount: number, format: SegmentFormat): string[] {
+    const fps = format.fps || SLIDESHOW_FPS;
+    const duration = frameCount / fps;
+    const graph = format.audio ? `[0:v]setsar=1,format=yuv420p[v];${silence(duration)}[a]` : '[0:v]setsar=1,format=yuv420p[v]';
+    return [
+        '-framerate', String(fps), '-i', pattern,
+        '-filter_complex', graph,
+        '-map', '[v]', ...(format.audio ? ['-map', '[a]'] : []),
+        ...videoCodecArgs(format), ...(format.audio ? audioCodecArgs() : []),
+        '-frames:v', String(frameCount),
+        ...(format.audio ? ['-t', String(round(duration))] : []),
+        output,
+    ];
+}
+
+export interface VideoSegmentInput {
+    input: string;
+    start: number;
+    duration: number;
+    cropMode?: 'contain' | 'cover';
+    hasAudio: boolean;
+    overlay?: string;           // Transparent image of the caption, text and sticker layers
+}
+
+/**
+ * A trimmed clip scaled into the frame like object-fit (letterboxed in
+ * black or cropped), with the layer image on top and its own sound, or
+ * silence when it has none.
+ */
+export function videoSegmentArgs(clip: VideoSegmentInput, output: string, format: SegmentFormat, fade = 0): string[] {
+    const { width, height } = format;
+    const fit = clip.cropMode === 'cover'
+        ? `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`
+        : `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`;
+    const video = [fit, 'setsar=1', `fps=${format.fps || SLIDESHOW_FPS}`, 'format=yuv420p', ...fades('fade', clip.duration, fade)].join(',');
+
+    const graph = [clip.overlay ? `[0:v]${video}[base]` : `[0:v]${video}[v]`];
+    if (clip.overlay) graph.push('[base][1:v]overlay=0:0:format=auto,format=yuv420p[v]');
+    if (format.audio) {
+        graph.push(clip.hasAudio
+            ? `[0:a]${[AUDIO_FORMAT, 'apad', `atrim=duration=${round(clip.duration)}`, ...fades('afade', clip.duration, fade)].join(',')}[a]`
+            : `${silence(clip.duration)}[a]`);
+    }
+
+    return [
+        '-ss', String(round(clip.start)), '-t', String(round(clip.duration)), '-i', clip.input,
+        ...(clip.overlay ? ['-i', clip.overlay] : []),
+        '-filter_complex', graph.join(';'),
+        '-map', '[v]', ...(format.audio ? ['-map', '[a]'] : []),
+        ...videoCodecArgs(format), ...(format.audio ? audioCodecArgs() : []),
+        '-t', String(round(clip.duration)),
+        output,
+    ];
+}
+
+/**
+ * File list for the concat demuxer.
+ */
+export function concatList(segments: string[]) {
+    return segments.map(segment => `file '${segment.replace(/'/g, "'\\''")}'`).join('\n') + '\n';
+}
+
+/**
+ * Music volume over time: full, and MUSIC_DUCK_VOLUME during the given
+ * ranges (the videos that have their own sound).
+ */
+export function duckingVolume(ranges: { start: number; end: number }[]) {
+    if (ranges.length === 0) return 'volume=1';
+    const during = ranges.map(range => `between(t,${round(range.start)},${round(range.end)})`).join('+');
+    return `volume='if(${during},${MUSIC_DUCK_VOLUME},1)':eval=frame`;
+}
+
+/**
+ * Joins the segments into the final file. Music loops under the whole
+ * slideshow, ducked during videos with sound and faded out at the end.
+ */
+export function finishArgs(
+    list: string,
+    output: string,
+    duration: number,
+    music?: { input: string; duck: { start: number; end: number }[] }
+): string[] {
+    if (!music) {
+        return ['-f', 'concat', '-safe', '0', '-i', list, '-c', 'copy', '-movflags', '+faststart', output];
+    }
+    const fadeOut = Math.min(MUSIC_FADE_OUT_SECONDS, duration / 2);
+    const graph = [
+        `[1:a]${AUDIO_FORMAT},${duckingVolume(music.duck)},afade=t=out:st=${round(duration - fadeOut)}:d=${round(fadeOut)}[music]`,
+        '[0:a][music]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[a]',
+    ].join(';');
+    return [
+        '-f', 'concat', '-safe', '0', '-i', list,
+        '-stream_loop', '-1', '-i', music.input,
+        '-filter_complex', graph,
+        '-map', '0:v', '-map', '[a]',
+        '-c:v', 'copy', ...audioCodecArgs(),
+        '-t', String(round(duration)),
+        '-movflags', '+faststart',
+        output,
+    ];
+}
@@ -0,0 +1,347 @@
+import type { AlbumConfig, LayoutBox, Page } from '../contexts/AlbumContext';
+import type { FilterState } from '../components/ui/FilterBar';
+import { contentPage, draftAsset, groupDraftMedia, orderDraftMedia, textLayer, type DraftLayout, type DraftMedia } from './albumDraft';
+import { formatHashtag, formatStoryDate, runsToText, type EventStory } from './eventStory';
+
+/**
+ * Yearbook
+ * Many events compiled into one family memory book, oldest first: a cover,
+ * a table of contents, a chapter per event (an opening page with the
+ * event's facts, hashtags and the start of its story, then its photos) and
+ * an index of the people and places with the pages they appear on. The
+ * events are picked with the Events page filters. Pure and deterministic;
+ * the album pages and the PDF share the chapter order and the index.
+ */
+
+export interface FilterableEvent {
+    title: string;
+    category: string | null;
+    event_date: string;
+    location: string | null;
+    hashtags: string[] | null;
+    participants: string[] | null;
+}
+
+export interface YearbookChapter {
+    story: EventStory;
+    media: DraftMedia[];        // The event's photos and videos, measured when possible
+}
+
+export interface YearbookInput {
+    title: string;
+    subtitle?: string;
+    chapters: YearbookChapter[];
+    layouts: DraftLayout[];
+    dimensions: AlbumConfig['dimensions'];
+    maxPhotosPerPage?: number;
+}
+
+export interface YearbookIndexEntry {
+    name: string;
+    pages: number[];
+}
+
+export interface YearbookIndex {
+    people: YearbookIndexEntry[];
+    places: YearbookIndexEntry[];
+}
+
+// Rows of the table of contents per page
+const TOC_ROWS = 16;
+
+// Index lines per column; two columns to a page
+const INDEX_LINES = 30;
+const INDEX_FONT_SIZE = 11;
+const INDEX_LINE_HEIGHT = 1.45;
+
+const EXCERPT_LENGTH = 360;
+const TOC_TITLE_LENGTH = 56;
+
+const INK = '#2d2a26';
+const MUTED = '#8a8580';
+const ACCENT = '#a06e48';
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+function normalizeTag(tag: string) {
+    return tag.replace(/^#/, '').trim().toLowerCase();
+}
+
+/**
+ * Whether an event passes the Events page filters.
+ */
+export function eventMatchesFilters(event: FilterableEvent, filters: FilterState) {
+    const query = filters.query.trim().toLowerCase();
+    const matchesQuery = !query || event.title.toLowerCase().includes(query);
+    const matchesCategory = filters.category === 'all' || event.category === filters.category;
+    const matchesYear = filters.year === 'all' || new Date(event.event_date).getFullYear().toString() === filters.year;
+    const matchesLocation = filters.location === 'all' || event.location === filters.location;
+    const matchesHashtag = filters.hashtag === 'all' ||
+        (event.hashtags || []).some(tag => normalizeTag(tag) === normalizeTag(filters.hashtag));
+    const matchesParticipant = filters.participant === 'all' ||
+        (event.participants || []).some(name => name.trim().toLowerCase() === filters.participant.trim().toLowerCase());
+    return matchesQuery && matchesCategory && matchesYear && matchesLocation && matchesHashtag && matchesParticipant;
+}
+
+/**
+ * A short description of the active filters, e.g. "2023 · Holiday · #lake".
+ */
+export function describeFilters(filters: FilterState) {
+    return [
+        filters.year !== 'all' ? filters.year : '',
+        filters.category !== 'all' ? filters.category : '',
+        filters.location !== 'all' ? filters.location : '',
+        filters.hashtag !== 'all' ? formatHashtag(filters.hashtag) : '',
+        filters.participant !== 'all' ? `with ${filters.participant}` : '',
+        filters.query.trim() ? `"${filters.query.trim()}"` : '',
+    ].filter(Boolean).join(' · ');
+}
+
+function compareStories(a: EventStory, b: EventStory) {
+    return a.date.localeCompare(b.date) || a.title.localeCompare(b.title) || a.id.localeCompare(b.id);
+}
+
+export function orderYearbookStories(stories: EventStory[]): EventStory[] {
+    return [...stories].sort(compareStories);
+}
+
+/**
+ * The years a set of chronological stories covers, e.g. "2021 – 2024".
+ */
+export function yearbookSpan(stories: EventStory[]) {
+    if (stories.length === 0) return '';
+    const first = stories[0].date.slice(0, 4);
+    const last = stories[stories.length - 1].date.slice(0, 4);
+    return first === last ? first : `${first} – ${last}`;
+}
+
+/**
+ * The story's photos and videos as draft media: story images first, then
+ * the gallery, all dated on the event's day.
+ */
+export function storyMedia(story: EventStory): DraftMedia[] {
+    const inline = story.blocks.flatMap(block => block.kind === 'image' ? [{ url: block.url, type: 'image' as const, caption: block.caption }] : []);
+    return [...inline, ...story.gallery].map((item, index) => ({
+        key: `event:${story.id}:${String(index).padStart(4, '0')}`,
+        url: item.url,
+        type: item.type,
+        takenAt: story.date,
+        source: 'event' as const,
+        caption: item.caption,
+    }));
+}
+
+/**
+ * The opening of the story as plain text, cut at a word.
+ */
+export function storyExcerpt(story: EventStory, length = EXCERPT_LENGTH) {
+    const text = story.blocks
+        .map(block => block.kind === 'paragraph' || block.kind === 'quote' ? runsToText(block.runs).replace(/\n/g, ' ') : '')
+        .filter(Boolean)
+        .join(' ')
+        .trim();
+    if (text.length <= length) return text;
+    const cut = text.slice(0, length);
+    return `${cut.slice(0, cut.lastIndexOf(' ') > length / 2 ? cut.lastIndexOf(' ') : length).trimEnd()}…`;
+}
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+function indexEntries(names: { name: string; page: number }[]): YearbookIndexEntry[] {
+    const byKey = new Map<string, YearbookIndexEntry>();
+    names.forEach(({ name, page }) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const key = trimmed.toLowerCase();
+        // The first spelling met is the one shown
+        const entry = byKey.get(key) || { name: trimmed, pages: [] };
+        if (!entry.pages.includes(page)) entry.pages.push(page);
+        byKey.set(key, entry);
+    });
+    return Array.from(byKey.values())
+        .map(entry => ({ ...entry, pages: [...entry.pages].sort((a, b) => a - b) }))
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+}
+
+/**
+ * People and places with the page each chapter they appear in starts on.
+ */
+export function buildYearbookIndex(chapters: { story: EventStory; page: number }[]): YearbookIndex {
+    return {
+        people: indexEntries(chapters.flatMap(({ story, page }) => story.participants.map(name => ({ name, page })))),
+        places: indexEntries(chapters.flatMap(({ story, page }) => story.location ? [{ name: story.location, page }] : [])),
+    };
+}
+
+/**
+ * Whether the stories name anyone or anywhere, i.e. the book gets an index.
+ */
+export function yearbookHasIndex(stories: EventStory[]) {
+    return stories.some(story => story.participants.some(name => name.trim()) || !!story.location?.trim());
+}
+
+/**
+ * The index as lines of text: a heading per section, then "Name  3, 7".
+ */
+export function yearbookIndexLines(index: YearbookIndex): string[] {
+    const section = (heading: string, entries: YearbookIndexEntry[]) => entries.length === 0
+        ? []
+        : [heading.toUpperCase(), ...entries.map(entry => `${entry.name}  ${entry.pages.join(', ')}`), ''];
+    const lines = [...section('People', index.people), ...section('Places', index.places)];
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+function pageOf(pageNumber: number, layoutTemplate: string, layoutConfig: LayoutBox[], assets: Page['assets'], textLayers: LayoutBox[]): Page {
+    return {
+        id: `yearbook-page-${pageNumber}`,
+        pageNumber,
+        layoutTemplate,
+        layoutConfig,
+        assets,
+        backgroundColor: '#ffffff',
+        textLayers,
+        isSpreadLayout: false,
+    };
+}
+
+function coverPage(input: YearbookInput, stories: EventStory[], photo: DraftMedia | undefined): Page {
+    const slots: LayoutBox[] = photo ? [{ id: 'yearbook-cover-slot', role: 'slot', left: 8, top: 6, width: 84, height: 60, zIndex: 0 }] : [];
+    const top = photo ? 70 : 36;
+    const layers = [
+        textLayer('yearbook-p1-title', { left: 8, top, width: 84, height: 12 }, input.title, { fontSize: 44, fontFamily: 'Playfair Display', color: INK, textColor: INK }),
+        textLayer('yearbook-p1-span', { left: 8, top: top + 13, width: 84, height: 6 }, input.subtitle || yearbookSpan(stories), { fontSize: 18, letterSpacing: 4, color: MUTED, textColor: MUTED }),
+    ];
+    return pageOf(1, 'yearbook-cover', slots, photo ? [draftAsset(photo, 'yearbook-p1-a1', 0)] : [], layers);
+}
+
+function heading(pageNumber: number, text: string) {
+    return textLayer(`yearbook-p${pageNumber}-heading`, { left: 8, top: 5, width: 84, height: 8 }, text, { fontSize: 32, fontFamily: 'Playfair Display', color: INK, textColor: INK });
+}
+
+function truncate(text: string, length: number) {
+    return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+function tocPages(firstPage: number, rows: { title: string; date?: string; page: number }[]): Page[] {
+    const pages: Page[] = [];
+    for (let start = 0; start < rows.length; start += TOC_ROWS) {
+        const pageNumber = firstPage + pages.length;
+        const layers = [heading(pageNumber, pages.length === 0 ? 'Contents' : 'Contents (continued)')];
+        rows.slice(start, start + TOC_ROWS).forEach((row, index) => {
+            const top = 16 + index * 4.8;
+            const label = row.date ? `${formatStoryDate(row.date)} — ${row.title}` : row.title;
+            layers.push(
+                textLayer(`yearbook-p${pageNumber}-toc-${index}`, { left: 10, top, width: 68, height: 4.4 }, truncate(label, TOC_TITLE_LENGTH), { fontSize: 14, textAlign: 'left', color: INK, textColor: INK }),
+                textLayer(`yearbook-p${pageNumber}-toc-${index}-page`, { left: 80, top, width: 10, height: 4.4 }, String(row.page), { fontSize: 14, textAlign: 'right', color: ACCENT, textColor: ACCENT }),
+            );
+        });
+        pages.push(pageOf(pageNumber, 'yearbook-contents', [], [], layers));
+    }
+    return pages;
+}
+
+function openerPage(pageNumber: number, story: EventStory, photo: DraftMedia | undefined): Page {
+    const id = (name: string) => `yearbook-p${pageNumber}-${name}`;
+    const slots: LayoutBox[] = photo ? [{ id: 'yearbook-opener-slot', role: 'slot', left: 8, top: 6, width: 84, height: 44, zIndex: 0 }] : [];
+    // Without a photo the text moves up into its place
+    const top = photo ? 53 : 20;
+    const facts = [formatStoryDate(story.date), story.location].filter(Boolean).join(' · ');
+    const layers: LayoutBox[] = [];
+    if (story.category) {
+        layers.push(textLayer(id('category'), { left: 8, top, width: 84, height: 4 }, story.category.toUpperCase(), { fontSize: 11, fontWeight: 'bold', letterSpacing: 3, color: ACCENT, textColor: ACCENT }));
+    }
+    layers.push(
+        textLayer(id('title'), { left: 8, top: top + 4.5, width: 84, height: 10 }, story.title, { fontSize: 34, fontFamily: 'Playfair Display', color: INK, textColor: INK }),
+        textLayer(id('facts'), { left: 8, top: top + 15, width: 84, height: 4.5 }, facts, { fontSize: 14, fontStyle: 'italic', color: MUTED, textColor: MUTED }),
+    );
+    if (story.participants.length > 0) {
+        layers.push(textLayer(id('people'), { left: 8, top: top + 19.5, width: 84, height: 4 }, `With ${story.participants.join(', ')}`, { fontSize: 13, color: MUTED, textColor: MUTED }));
+    }
+    if (story.hashtags.length > 0) {
+        layers.push(textLayer(id('hashtags'), { left: 8, top: top + 23.5, width: 84, height: 3.5 }, story.hashtags.map(formatHashtag).join('  '), { fontSize: 11, color: ACCENT, textColor: ACCENT }));
+    }
+    // Under a photo there is room for a shorter excerpt
+    const excerpt = storyExcerpt(story, photo ? EXCERPT_LENGTH * 2 / 3 : EXCERPT_LENGTH);
+    if (excerpt) {
+        layers.push(textLayer(id('excerpt'), { left: 12, top: top + 28.5, width: 76, height: Math.min(94 - top - 28.5, 30) }, excerpt, { fontSize: 13, fontFamily: 'EB Garamond', lineHeight: 1.5, textAlign: 'justify', color: INK, textColor: INK }));
+    }
+    return pageOf(pageNumber, 'yearbook-chapter', slots, photo ? [draftAsset(photo, `yearbook-p${pageNumber}-a1`, 0)] : [], layers);
+}
+
+function indexPages(firstPage: number, lines: string[], dimensions: AlbumConfig['dimensions']): Page[] {
+    // Columns are sized to their lines, since text sits centered in its box
+    const lineHeight = (INDEX_FONT_SIZE * INDEX_LINE_HEIGHT / dimensions.height) * 100;
+    const charsPerLine = Math.max(10, Math.floor((dimensions.width * 0.4 - 8) / (INDEX_FONT_SIZE * 0.5)));
+    const pages: Page[] = [];
+    for (let start = 0; start < lines.length; start += INDEX_LINES * 2) {
+        const pageNumber = firstPage + pages.length;
+        const layers = [heading(pageNumber, pages.length === 0 ? 'Index' : 'Index (continued)')];
+        [0, 1].forEach(column => {
+            const columnLines = lines.slice(start + column * INDEX_LINES, start + (column + 1) * INDEX_LINES);
+            if (columnLines.length === 0) return;
+            // Long page lists wrap; count them at about half an em per character
+            const rows = columnLines.reduce((sum, line) => sum + Math.max(1, Math.ceil(line.length / charsPerLine)), 0);
+            layers.push(textLayer(`yearbook-p${pageNumber}-index-${column}`, { left: 8 + column * 44, top: 16, width: 40, height: Math.min(78, rows * lineHeight + 2) }, columnLines.join('\n'), {
+                fontSize: INDEX_FONT_SIZE,
+                lineHeight: INDEX_LINE_HEIGHT,
+                textAlign: 'left',
+                padding: 4,
+                color: INK,
+                textColor: INK,
+            }));
+        });
+        pages.push(pageOf(pageNumber, 'yearbook-index', [], [], layers));
+    }
+    return pages;
+}
+
+/**
+ * All pages of the yearbook: cover, contents, the chapters in date order
+ * and the index. Chapter photos are laid out like a draft album's pages.
+ */
+export function buildYearbookPages(input: YearbookInput): Page[] {
+    const chapters = [...input.chapters].sort((a, b) => compareStories(a.story, b.story));
+    const stories = chapters.map(chapter => chapter.story);
+
+    // The contents come before the chapters, so their length is fixed first
+    const hasIndex = yearbookHasIndex(stories);
+    const tocCount = Math.max(1, Math.ceil((chapters.length + (hasIndex ? 1 : 0)) / TOC_ROWS));
+    const body: Page[] = [];
+    const starts: { story: EventStory; page: number }[] = [];
+    let pageNumber = 2 + tocCount;
+    let coverPhoto: DraftMedia | undefined;
+
+    chapters.forEach(chapter => {
+        const media = orderDraftMedia(chapter.media);
+        const hero = media.find(item => item.type === 'image');
+        coverPhoto = coverPhoto || hero;
+        starts.push({ story: chapter.story, page: pageNumber });
+        body.push(openerPage(pageNumber++, chapter.story, hero));
+        const rest = media.filter(item => item !== hero);
+        groupDraftMedia(rest, input.maxPhotosPerPage).forEach(photos => {
+            body.push(contentPage(photos, pageNumber++, { title: input.title, media: rest, layouts: input.layouts, dimensions: input.dimensions }));
+        });
+    });
+
+    const index = indexPages(pageNumber, yearbookIndexLines(buildYearbookIndex(starts)), input.dimensions);
+    const rows = [
+        ...starts.map(({ story, page }) => ({ title: story.title, date: story.date, page })),
+        ...(hasIndex ? [{ title: 'Index', page: pageNumber }] : []),
+    ];
+
+    return [
+        coverPage(input, stories, coverPhoto),
+        ...tocPages(2, rows),
+        ...body,
+        ...index,
+    ];
+}
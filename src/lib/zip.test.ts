@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { ZipWriter, createZip, readZip } from './zip';
+
+describe('ZipWriter', () => {
+    const modifiedAt = new Date(2026, 5, 1, 12, 30, 10);
+
+    it('writes the same archive as createZip', async () => {
+        const entries = [
+            { path: 'manifest.json', data: '{"version":1}', modifiedAt },
+            { path: 'media/00001.jpg', data: new Uint8Array([0xff, 0xd8, 0xff, 0xe0]), modifiedAt },
+        ];
+        const writer = new ZipWriter();
+        entries.forEach(entry => writer.add(entry));
+
+        const streamed = new Uint8Array(await writer.finish().arrayBuffer());
+        expect(streamed).toEqual(createZip(entries));
+
+        const files = await readZip(streamed);
+        expect(new TextDecoder().decode(files.get('manifest.json'))).toBe('{"version":1}');
+        expect(Array.from(files.get('media/00001.jpg') || [])).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+    });
+
+    it('refuses a path that was already added', () => {
+        const writer = new ZipWriter();
+        writer.add({ path: 'index.html', data: '<html></html>' });
+        expect(() => writer.add({ path: 'index.html', data: '' })).toThrow('Duplicate zip entry');
+    });
+});
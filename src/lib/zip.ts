@@ -0,0 +1,238 @@
+/**
+ * Zip
+ * Minimal ZIP writer for exports that bundle several files. Entries are
+ * stored uncompressed: they are mostly JPEG, PNG and MP4 files that do not
+ * shrink any further, and stored archives open in every unzip tool. The
+ * reader also accepts deflated entries, so archives that were unpacked and
+ * zipped again by the operating system still import.
+ */
+
+export interface ZipEntry {
+    path: string;               // Forward slashes, e.g. "media/0001.jpg"
+    data: Uint8Array | string;  // Strings are written as UTF-8
+    modifiedAt?: Date;
+}
+
+// Sizes and offsets are 32-bit without the ZIP64 extension
+const MAX_ZIP_SIZE = 0xffffffff;
+
+const UTF8_NAMES_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable() {
+    if (crcTable) return crcTable;
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        crcTable[n] = c >>> 0;
+    }
+    return crcTable;
+}
+
+export function crc32(data: Uint8Array) {
+    const table = getCrcTable();
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields, in local time like other zip tools.
+ */
+function dosDateTime(date: Date) {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+interface ZipRecord {
+    name: Uint8Array;
+    size: number;
+    crc: number;
+    stamp: { time: number; date: number };
+    offset: number;
+}
+
+function toRecord(entry: ZipEntry, encoder: TextEncoder) {
+    const name = encoder.encode(entry.path.replace(/^\/+/, ''));
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const record: ZipRecord = { name, size: data.length, crc: crc32(data), stamp: dosDateTime(entry.modifiedAt || new Date()), offset: 0 };
+    return { record, data };
+}
+
+function checkZipSize(total: number, count: number) {
+    if (total > MAX_ZIP_SIZE || count > 0xffff) {
+        throw new Error('Archive is too large for a zip file (over 4 GB or 65535 files)');
+    }
+}
+
+function localHeader(record: ZipRecord) {
+    const out = new Uint8Array(30 + record.name.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);                        // Version needed
+    view.setUint16(6, UTF8_NAMES_FLAG, true);
+    view.setUint16(8, 0, true);                         // Stored
+    view.setUint16(10, record.stamp.time, true);
+    view.setUint16(12, record.stamp.date, true);
+    view.setUint32(14, record.crc, true);
+    view.setUint32(18, record.size, true);
+    view.setUint32(22, record.size, true);
+    view.setUint16(26, record.name.length, true);
+    view.setUint16(28, 0, true);
+    out.set(record.name, 30);
+    return out;
+}
+
+function centralHeader(record: ZipRecord) {
+    const out = new Uint8Array(46 + record.name.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(4, 20, true);                        // Version made by
+    view.setUint16(6, 20, true);
+    view.setUint16(8, UTF8_NAMES_FLAG, true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, record.stamp.time, true);
+    view.setUint16(14, record.stamp.date, true);
+    view.setUint32(16, record.crc, true);
+    view.setUint32(20, record.size, true);
+    view.setUint32(24, record.size, true);
+    view.setUint16(28, record.name.length, true);
+    // Extra, comment, disk number, internal and external attributes stay zero
+    view.setUint32(42, record.offset, true);
+    out.set(record.name, 46);
+    return out;
+}
+
+function endOfCentralDirectory(count: number, centralSize: number, centralStart: number) {
+    const out = new Uint8Array(22);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, count, true);
+    view.setUint16(10, count, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, centralStart, true);
+    return out;
+}
+
+/**
+ * Build a zip archive from the given files; later entries with the same
+ * path replace earlier ones.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const files = [...new Map(entries.map(entry => [entry.path, entry])).values()].map(entry => toRecord(entry, encoder));
+
+    const localSize = files.reduce((sum, file) => sum + 30 + file.record.name.length + file.record.size, 0);
+    const centralSize = files.reduce((sum, file) => sum + 46 + file.record.name.length, 0);
+    const total = localSize + centralSize + 22;
+    checkZipSize(total, files.length);
+
+    const out = new Uint8Array(total);
+    let at = 0;
+    files.forEach(({ record, data }) => {
+        record.offset = at;
+        const header = localHeader(record);
+        out.set(header, at);
+        out.set(data, at + header.length);
+        at += header.length + data.length;
+    });
+
+    const centralStart = at;
+    files.forEach(({ record }) => {
+        const header = centralHeader(record);
+        out.set(header, at);
+        at += header.length;
+    });
+
+    out.set(endOfCentralDirectory(files.length, at - centralStart, centralStart), at);
+    return out;
+}
+
+/**
+ * Zip writer for archives too large to hold twice in memory. Each file is
+ * handed to a Blob as soon as it is added, so the caller can drop its bytes
+ * (and the browser may keep them on disk) instead of building the whole
+ * archive as one buffer. Paths must be unique.
+ */
+export class ZipWriter {
+    private parts: BlobPart[] = [];
+    private records: ZipRecord[] = [];
+    private paths = new Set<string>();
+    private size = 0;
+    private readonly encoder = new TextEncoder();
+
+    add(entry: ZipEntry) {
+        if (this.paths.has(entry.path)) throw new Error(`Duplicate zip entry: ${entry.path}`);
+        const { record, data } = toRecord(entry, this.encoder);
+        record.offset = this.size;
+        const header = localHeader(record);
+        checkZipSize(this.size + header.length + data.length, this.records.length + 1);
+
+        this.parts.push(header, new Blob([data as Uint8Array<ArrayBuffer>]));
+        this.records.push(record);
+        this.paths.add(entry.path);
+        this.size += header.length + data.length;
+    }
+
+    finish(type = 'application/zip'): Blob {
+        const central = this.records.map(centralHeader);
+        const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+        checkZipSize(this.size + centralSize + 22, this.records.length);
+        return new Blob([...this.parts, ...central, endOfCentralDirectory(this.records.length, centralSize, this.size)], { type });
+    }
+}
+
+/**
+ * Files of a zip archive by path. Reads the central directory, so data
+ * descriptors and prepended bytes are handled; folders are skipped.
+ */
+export async function readZip(data: Uint8Array): Promise<Map<string, Uint8Array>> {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    // End of central directory record, searched backwards past any comment
+    let end = -1;
+    for (let at = data.length - 22; at >= Math.max(0, data.length - 22 - 0xffff); at--) {
+        if (view.getUint32(at, true) === 0x06054b50) {
+            end = at;
+            break;
+        }
+    }
+    if (end < 0) throw new Error('Not a zip archive');
+
+    const count = view.getUint16(end + 10, true);
+    let at = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+    const files = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(at, true) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+        const method = view.getUint16(at + 10, true);
+        const compressedSize = view.getUint32(at + 20, true);
+        const nameLength = view.getUint16(at + 28, true);
+        const extraLength = view.getUint16(at + 30, true);
+        const commentLength = view.getUint16(at + 32, true);
+        const offset = view.getUint32(at + 42, true);
+        const path = decoder.decode(data.subarray(at + 46, at + 46 + nameLength));
+        at += 46 + nameLength + extraLength + commentLength;
+
+        if (path.endsWith('/')) continue;
+        if (view.getUint32(offset, true) !== 0x04034b50) throw new Error(`Corrupt zip entry: ${path}`);
+        const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+        const raw = data.subarray(start, start + compressedSize);
+
+        if (method === 0) files.set(path, raw);
+        else if (method === 8) files.set(path, await inflateRaw(raw));
+        else throw new Error(`Unsupported zip compression in ${path}`);
+    }
+    return files;
+}
+
+async function inflateRaw(data: Uint8Array) {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
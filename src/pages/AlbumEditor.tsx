@@ -2,7 +2,7 @@ import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import {
-    ArrowLeft, Save, Share, X, Copy, Check, Settings as SettingsIcon, Tag,
+    ArrowLeft, Save, Share, X, Copy, Settings as SettingsIcon, Tag,
     ChevronDown, ChevronRight, ChevronLeft, ChevronUp,
     Layers, Bold, Italic, Underline, Pencil, Trash2, Wand2, Scissors,
     Lock, Unlock, Eye, Undo, Redo, Maximize, MapPin, Image as ImageIcon, Droplets, Shuffle, ArrowLeftRight,
@@ -23,7 +23,7 @@ import { AssetControlPanel } from '../components/editor/AssetControlPanel';
 import { Filmstrip } from '../components/editor/Filmstrip';
 import { Button } from '../components/ui/Button';
 import { HashtagInput } from '../components/ui/HashtagInput';
-import { generateShareLink } from '../services/sharing';
+import { SharingDialog } from '../components/sharing/SharingDialog';
 import { cn } from '../lib/utils';
 import { AnimatePresence, motion } from 'framer-motion';
 
@@ -37,6 +37,11 @@ import { LocationPicker } from '../components/ui/LocationPicker';
 import { LocationPickerModal } from '../components/ui/LocationPickerModal';
 import { MapAssetModal } from '../components/ui/MapAssetModal';
 import { LayoutSidebar } from '../components/editor/LayoutSidebar';
+import { PresenceAvatars } from '../components/editor/PresenceAvatars';
+import { SaveConflictDialog } from '../components/editor/SaveConflictDialog';
+import { HistoryPanel } from '../components/editor/HistoryPanel';
+import { MasterPagesPanel } from '../components/editor/MasterPagesPanel';
+import { PreflightPanel } from '../components/editor/PreflightPanel';
 
 import { useUpload } from '../contexts/UploadContext';
 import { UploadOverlay } from '../components/ui/UploadOverlay';
@@ -68,7 +73,11 @@ function AlbumEditorContent() {
         toggleLock,
         canUndo,
         canRedo,
-        swapSlotAssets
+        swapSlotAssets,
+        collaborators,
+        getAssetHolder,
+        saveConflict,
+        resolveSaveConflict
     } = useAlbum();
 
     const {
@@ -107,12 +116,9 @@ function AlbumEditorContent() {
     // Autosave Hook
     const autoSave = useAlbumAutoSave();
 
-    const [isSharing, setIsSharing] = useState(false);
-    const [shareUrl, setShareUrl] = useState<string | null>(null);
     const [showShareModal, setShowShareModal] = useState(false);
     const [showSettings, setShowSettings] = useState(false);
-    const [hasCopied, setHasCopied] = useState(false);
-    const [activeSidebarTab, setActiveSidebarTab] = useState<'properties' | 'layers' | 'layouts'>('properties');
+    const [activeSidebarTab, setActiveSidebarTab] = useState<'properties' | 'layers' | 'layouts' | 'masters' | 'history' | 'preflight'>('properties');
 
     // Navigation State
     const [zoom, setZoom] = useState(0.5); // Start zoomed out to see full spread
@@ -593,6 +599,8 @@ function AlbumEditorContent() {
             if (e.key === 'Delete' || e.key === 'Backspace') {
                 if (!selectedAssetId || !album || album.config.isLocked) return;
                 e.preventDefault();
+                // Respect soft locks held by other collaborators
+                if (getAssetHolder(selectedAssetId)) return;
                 const pageId = album.pages.find(p => p.assets.some(a => a.id === selectedAssetId))?.id;
                 if (pageId) {
                     removeAsset(pageId, selectedAssetId);
@@ -662,7 +670,7 @@ function AlbumEditorContent() {
 
         window.addEventListener('keydown', handleGlobalKeydown);
         return () => window.removeEventListener('keydown', handleGlobalKeydown);
-    }, [undo, redo, removeAsset, selectedAssetId, album, currentPageIndex, updateAsset, setSelectedAssetId, setPan, updateZoom]);
+    }, [undo, redo, removeAsset, selectedAssetId, album, currentPageIndex, updateAsset, setSelectedAssetId, setPan, updateZoom, getAssetHolder]);
 
     // Update zoom when album loads or spread view changes
     useEffect(() => {
@@ -727,37 +735,6 @@ function AlbumEditorContent() {
         }
     }, [isLoading]);
 
-    const handleShare = async () => {
-        if (!album) return;
-        setIsSharing(true);
-        // Reset previous state
-        setShareUrl(null);
-        setHasCopied(false);
-
-        try {
-            const { link, error } = await generateShareLink(album.id);
-            if (link) {
-                setShareUrl(link);
-                setShowShareModal(true);
-            } else {
-                console.error(error);
-                alert('Failed to generate share link');
-            }
-        } catch (err) {
-            console.error(err);
-        } finally {
-            setIsSharing(false);
-        }
-    };
-
-    const copyToClipboard = () => {
-        if (shareUrl) {
-            navigator.clipboard.writeText(shareUrl);
-            setHasCopied(true);
-            setTimeout(() => setHasCopied(false), 2000);
-        }
-    };
-
     const currentPage = album?.pages[currentPageIndex];
 
     if (loadError) {
@@ -816,46 +793,25 @@ function AlbumEditorContent() {
                 )}
             </AnimatePresence>
 
-            {/* Share Modal Overlay */}
-            {showShareModal && (
-                <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4">
-                    <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
-                        <div className="flex items-center justify-between">
-                            <h3 className="text-xl font-serif text-catalog-text">Share Album</h3>
-                            <button onClick={() => setShowShareModal(false)} className="text-gray-400 hover:text-gray-600">
-                                <X className="w-5 h-5" />
-                            </button>
-                        </div>
+            {/* Share Links */}
+            {showShareModal && album && (
+                <SharingDialog
+                    albumId={album.id}
+                    title={album.title}
+                    onClose={() => setShowShareModal(false)}
+                />
+            )}
 
-                        <div className="space-y-2">
-                            <p className="text-sm text-gray-500">
-                                Share this temporary link with family. It will expire automatically in 48 hours.
-                            </p>
-                            <div className="flex items-center gap-2">
-                                <input
-                                    readOnly
-                                    value={shareUrl || ''}
-                                    className="flex-1 bg-gray-50 border border-gray-200 rounded px-3 py-2 text-sm font-mono text-gray-600 focus:outline-none focus:border-catalog-accent"
-                                />
-                                <Button
-                                    variant="secondary"
-                                    size="sm"
-                                    onClick={copyToClipboard}
-                                    className={cn("min-w-[80px]", hasCopied && "bg-green-50 text-green-600 border-green-200")}
-                                >
-                                    {hasCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                                    {hasCopied ? 'Copied' : 'Copy'}
-                                </Button>
-                            </div>
-                        </div>
-                    
-                        <div className="pt-2 flex justify-end">
-                            <Button variant="ghost" onClick={() => setShowShareModal(false)}>
-                                Close
-                            </Button>
-                        </div>
-                    </div>
-                </div>
+            {/* Save Conflict Resolution */}
+            {saveConflict && (
+                <SaveConflictDialog
+                    review={saveConflict}
+                    isResolving={isManualSaving}
+                    onResolve={async (resolutions) => {
+                        const { success, error, conflict } = await resolveSaveConflict(resolutions);
+                        if (!success && !conflict) alert('Failed to save: ' + error);
+                    }}
+                />
             )}
 
             {/* Settings Modal */}
@@ -982,6 +938,11 @@ function AlbumEditorContent() {
                                     autoSave.status === 'unsaved' ? 'Pending Changes' :
                                         'Archive Sync Ready'}
                             </div>
+                            <PresenceAvatars
+                                collaborators={collaborators}
+                                pages={album.pages}
+                                onJumpToPage={setCurrentPageIndex}
+                            />
                         </div>
 
                         <div className="flex items-center gap-4 mt-1">
@@ -1115,6 +1076,16 @@ function AlbumEditorContent() {
                         </Button>
                     </div>
 
+                    {album.config.isDraft && (
+                        <button
+                            onClick={() => updateConfig({ isDraft: false })}
+                            className="h-10 px-4 rounded-2xl border border-catalog-accent/20 bg-catalog-accent/5 text-catalog-accent text-[10px] font-black uppercase tracking-widest hover:bg-catalog-accent/10 transition-all"
+                            title="Generated draft. Click once you have reviewed it."
+                        >
+                            Draft · Mark Reviewed
+                        </button>
+                    )}
+
                     <Button
                         variant="ghost"
                         size="sm"
@@ -1135,8 +1106,7 @@ function AlbumEditorContent() {
                         <Button
                             variant="ghost"
                             size="sm"
-                            onClick={handleShare}
-                            isLoading={isSharing}
+                            onClick={() => setShowShareModal(true)}
                             className="h-8 w-8 p-0 rounded-xl hover:bg-white transition-all"
                             title="Circulate Access"
                         >
@@ -1166,9 +1136,9 @@ function AlbumEditorContent() {
 
                     <Button
                         onClick={async () => {
-                            const { success, error } = await saveAlbum();
-                            if (success) {
-                                // Indication
+                            const { success, error, conflict } = await saveAlbum();
+                            if (success || conflict) {
+                                // Indication (conflicts open the merge dialog)
                             } else {
                                 alert('Failed to save: ' + error);
                             }
@@ -1837,12 +1807,12 @@ function AlbumEditorContent() {
                             className="w-72 hidden md:flex flex-col glass border-l border-white/20 shadow-2xl z-[30] h-full overflow-hidden shrink-0"
                         >
                             <div className="flex p-2 gap-1 bg-black/5">
-                                {['layouts', 'properties', 'layers'].map((tab) => (
+                                {['layouts', 'properties', 'layers', 'masters', 'history', 'preflight'].map((tab) => (
                                     <button
                                         key={tab}
                                         onClick={() => setActiveSidebarTab(tab as any)}
                                         className={cn(
-                                            "flex-1 py-2.5 text-[10px] font-black uppercase tracking-[0.2em] transition-all rounded-xl font-outfit",
+                                            "flex-1 py-2.5 text-[9px] font-black uppercase tracking-[0.1em] transition-all rounded-xl font-outfit",
                                             activeSidebarTab === tab
                                                 ? "bg-white text-catalog-text shadow-sm border border-black/5"
                                                 : "text-catalog-text/40 hover:bg-white/40 hover:text-catalog-text"
@@ -1871,6 +1841,9 @@ function AlbumEditorContent() {
                                         )}
                                         {activeSidebarTab === 'layers' && <LayersPanel activePageId={activePageId} />}
                                         {activeSidebarTab === 'layouts' && <LayoutSidebar activePageId={activePageId || ''} />}
+                                        {activeSidebarTab === 'masters' && <MasterPagesPanel activePageId={activePageId} />}
+                                        {activeSidebarTab === 'history' && <HistoryPanel />}
+                                        {activeSidebarTab === 'preflight' && <PreflightPanel />}
                                     </motion.div>
                                 </AnimatePresence>
                             </div>
@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { FlipbookViewer } from '../components/viewer/FlipbookViewer';
@@ -6,6 +6,8 @@ import { useAlbum } from '../contexts/AlbumContext';
 import { useAuth } from '../contexts/AuthContext';
 import { Share2, Edit3, ArrowLeft } from 'lucide-react';
 import { Button } from '../components/ui/Button';
+import { SharingDialog } from '../components/sharing/SharingDialog';
+import type { FeedbackScope } from '../services/mediaComments';
 
 export function AlbumView() {
     const { id } = useParams<{ id: string }>();
@@ -14,6 +16,12 @@ export function AlbumView() {
     const { userRole } = useAuth();
     const canEdit = userRole === 'admin' || userRole === 'creator';
     const error = null; // We can use context error if we add it, but for now null is fine
+    const [isSharing, setIsSharing] = useState(false);
+    const albumId = album?.id;
+    const commentScope = useMemo<FeedbackScope | null>(
+        () => albumId ? { kind: 'family', targetType: 'album', targetId: albumId } : null,
+        [albumId]
+    );
 
     useEffect(() => {
         if (id) {
@@ -81,12 +89,7 @@ export function AlbumView() {
                     <Button
                         variant="ghost"
                         size="sm"
-                        onClick={async () => {
-                            if (album) {
-                                const { generateAndShareAlbum } = await import('../services/sharing');
-                                await generateAndShareAlbum(album, album.pages || []);
-                            }
-                        }}
+                        onClick={() => setIsSharing(true)}
                         className="gap-2"
                     >
                         <Share2 className="w-4 h-4" />
@@ -110,8 +113,17 @@ export function AlbumView() {
                 pages={album.pages}
                 album={album}
                 onClose={() => navigate('/library')}
+                commentScope={commentScope}
             />
 
+            {isSharing && (
+                <SharingDialog
+                    albumId={album.id}
+                    title={album.title}
+                    onClose={() => setIsSharing(false)}
+                />
+            )}
+
         </div>
     );
 }
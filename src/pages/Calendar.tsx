@@ -2,8 +2,9 @@ import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { ChevronLeft, ChevronRight, Clock, MapPin, Grid, List, Search, Filter, Layout, ChevronDown } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Clock, MapPin, Grid, List, Search, Filter, Layout, ChevronDown, Printer } from 'lucide-react';
 import { Card } from '../components/ui/Card';
+import { CreateCalendarModal } from '../components/catalog/CreateCalendarModal';
 import { cn } from '../lib/utils';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -36,6 +37,7 @@ export function Calendar() {
     const [searchQuery, setSearchQuery] = useState('');
     const [filterType, setFilterType] = useState<FilterType>('all');
     const [showSelector, setShowSelector] = useState(false);
+    const [showCalendarModal, setShowCalendarModal] = useState(false);
 
     // Helpers
     const year = currentDate.getFullYear();
@@ -579,6 +581,15 @@ export function Calendar() {
                                 <List className="w-4 h-4" />
                             </button>
                         </div>
+
+                        <button
+                            onClick={() => setShowCalendarModal(true)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-catalog-accent hover:bg-catalog-accent/10 transition-colors"
+                            title="Create a printable wall calendar"
+                        >
+                            <Printer className="w-4 h-4" />
+                            Printable Calendar
+                        </button>
                     </div>
                 </div>
 
@@ -618,6 +629,8 @@ export function Calendar() {
                 {viewMode === 'year' && <YearView />}
                 {viewMode === 'timeline' && <TimelineView />}
             </div>
+
+            <CreateCalendarModal isOpen={showCalendarModal} onClose={() => setShowCalendarModal(false)} />
         </div>
     );
 }
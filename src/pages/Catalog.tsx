@@ -1,19 +1,23 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, Grid, List, PlusCircle, Filter } from 'lucide-react';
+import { Search, Grid, List, PlusCircle, Filter, Upload, Loader2 } from 'lucide-react';
 import { AlbumsGrid } from '../components/catalog/AlbumsGrid';
 import { CreateAlbumModal } from '../components/catalog/CreateAlbumModal';
+import { SharingDialog } from '../components/sharing/SharingDialog';
 import { Button } from '../components/ui/Button';
 import { cn } from '../lib/utils';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { printService } from '../services/printService';
+import { AlbumDataService } from '../services/albumDataService';
+import { AlbumArchiveService } from '../services/albumArchive';
+import { unifiedAlbumToContextAlbum } from '../lib/albumAdapters';
 import { motion, AnimatePresence } from 'framer-motion';
 
 const eventFilters = ['All', 'Wedding', 'Birthday', 'Holiday', 'Vacation', 'Gathering'];
 
 export function Catalog() {
-    const { familyId } = useAuth();
+    const { user, familyId } = useAuth();
     const navigate = useNavigate();
     const [albums, setAlbums] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
@@ -21,6 +25,9 @@ export function Catalog() {
     const [eventFilter, setEventFilter] = useState('All');
     const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [sharingAlbumId, setSharingAlbumId] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     const fetchAlbums = async () => {
         if (!familyId) {
@@ -94,7 +101,7 @@ export function Catalog() {
     };
 
     const handleDeleteAlbum = async (id: string) => {
-        if (!window.confirm('Are you sure?')) return;
+        if (!window.confirm('Delete this album? This cannot be undone; use Back up first to keep a copy you can import later.')) return;
         try {
             // 1. Fetch album to get cover image URL
             const { data: album, error: fetchError } = await supabase
@@ -118,12 +125,8 @@ export function Catalog() {
         }
     };
 
-    const handleShareAlbum = async (id: string) => {
-        const album = albums.find(a => a.id === id);
-        if (album) {
-            const { generateAndShareAlbum } = await import('../services/sharing');
-            await generateAndShareAlbum(album, album.pages || []);
-        }
+    const handleShareAlbum = (id: string) => {
+        setSharingAlbumId(id);
     };
 
     const handleDuplicateAlbum = async (id: string) => {
@@ -141,8 +144,54 @@ export function Catalog() {
     };
 
     const handlePrintAlbum = async (id: string) => {
-        const album = albums.find(a => a.id === id);
-        if (album) await printService.exportToHTML5(album);
+        const unified = await AlbumDataService.fetchAlbum(id);
+        if (!unified) {
+            alert('Could not load this album for export.');
+            return;
+        }
+        const album = unifiedAlbumToContextAlbum(unified);
+        try {
+            const result = await printService.exportToHTML5(album);
+            if (result.missing.length > 0) {
+                alert(`${result.missing.length} photo(s) or video(s) could not be downloaded and show as placeholders in the archive.`);
+            }
+        } catch (error) {
+            console.error('Archive export failed:', error);
+            alert('Could not create the offline archive.');
+        }
+    };
+
+    const handleBackupAlbum = async (id: string) => {
+        const result = await AlbumArchiveService.exportAlbum(id);
+        if (!result) {
+            alert('Could not back up this album.');
+            return;
+        }
+        if (result.missing.length > 0) {
+            alert(`${result.missing.length} photo(s) or video(s) could not be downloaded; the backup keeps their original links instead.`);
+        }
+    };
+
+    const handleImportAlbum = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !familyId) return;
+
+        setIsImporting(true);
+        const result = await AlbumArchiveService.importAlbum(file, familyId, user?.id);
+        setIsImporting(false);
+
+        if (result.status === 'error') {
+            alert(`Import failed: ${result.error}`);
+            return;
+        }
+
+        const notes = [
+            result.skippedMedia.length > 0 && `${result.skippedMedia.length} photo(s) or video(s) could not be restored.`,
+            result.missingLayouts.length > 0 && `Layouts not found here (pages keep their arrangement): ${result.missingLayouts.join(', ')}.`,
+        ].filter(Boolean);
+        alert([`Imported "${result.title}" with ${result.mediaCount} media file(s).`, ...notes].join('\n\n'));
+        await fetchAlbums();
     };
 
     const filteredAlbums = albums.filter(album => {
@@ -181,13 +230,31 @@ export function Catalog() {
                     </div>
                 </div>
 
-                <Button
-                    onClick={() => setIsCreateModalOpen(true)}
-                    className="shrink-0 h-20 px-12 glass hover:bg-catalog-accent hover:text-white text-catalog-accent font-outfit font-black rounded-[2.5rem] shadow-2xl flex items-center gap-4 transition-all duration-500 hover:-translate-y-2 border border-black/5"
-                >
-                    <PlusCircle className="w-6 h-6" />
-                    <span className="text-xs uppercase tracking-[0.2em]">Initiate New Folio</span>
-                </Button>
+                <div className="flex items-center gap-4 shrink-0">
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".zip,.json,application/zip,application/json"
+                        className="hidden"
+                        onChange={handleImportAlbum}
+                    />
+                    <Button
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isImporting || !familyId}
+                        className="shrink-0 h-20 px-8 glass hover:bg-catalog-accent hover:text-white text-catalog-text/60 font-outfit font-black rounded-[2.5rem] shadow-xl flex items-center gap-3 transition-all duration-500 border border-black/5"
+                        title="Import an album backup (.zip)"
+                    >
+                        {isImporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+                        <span className="text-xs uppercase tracking-[0.2em]">{isImporting ? 'Importing' : 'Import'}</span>
+                    </Button>
+                    <Button
+                        onClick={() => setIsCreateModalOpen(true)}
+                        className="shrink-0 h-20 px-12 glass hover:bg-catalog-accent hover:text-white text-catalog-accent font-outfit font-black rounded-[2.5rem] shadow-2xl flex items-center gap-4 transition-all duration-500 hover:-translate-y-2 border border-black/5"
+                    >
+                        <PlusCircle className="w-6 h-6" />
+                        <span className="text-xs uppercase tracking-[0.2em]">Initiate New Folio</span>
+                    </Button>
+                </div>
             </motion.div>
 
             {/* Toolbar */}
@@ -273,6 +340,7 @@ export function Catalog() {
                         onDuplicate={handleDuplicateAlbum}
                         onShare={handleShareAlbum}
                         onPrint={handlePrintAlbum}
+                        onBackup={handleBackupAlbum}
                     />
 
                     {filteredAlbums.length === 0 && (
@@ -291,6 +359,14 @@ export function Catalog() {
             </AnimatePresence>
 
             <CreateAlbumModal isOpen={isCreateModalOpen} onClose={() => setIsCreateModalOpen(false)} />
+
+            {sharingAlbumId && (
+                <SharingDialog
+                    albumId={sharingAlbumId}
+                    title={albums.find(a => a.id === sharingAlbumId)?.title || 'Album'}
+                    onClose={() => setSharingAlbumId(null)}
+                />
+            )}
         </div>
     );
 }
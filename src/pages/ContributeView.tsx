@@ -0,0 +1,159 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { AlertCircle, Calendar, CheckCircle2, ImagePlus, MapPin } from 'lucide-react';
+import { Button } from '../components/ui/Button';
+import { UploadOverlay } from '../components/ui/UploadOverlay';
+import { useUpload } from '../contexts/UploadContext';
+import { CloudflareR2Service } from '../services/cloudflareR2';
+import { EventContributionService, type ContributionInvite } from '../services/eventContributions';
+import { shareExpiryText } from '../services/sharing';
+
+/**
+ * Upload page behind an "Invite contributions" link. Guests leave their
+ * name and an optional message and send photos and videos, which wait for
+ * a family admin to approve them.
+ */
+export function ContributeView() {
+    const { token } = useParams<{ token: string }>();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { state: uploadState, uploadFiles, dismissUpload, cancelUpload, cancelAll, setMinimized } = useUpload();
+
+    const [invite, setInvite] = useState<ContributionInvite | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [message, setMessage] = useState('');
+    const [sentCount, setSentCount] = useState(0);
+
+    useEffect(() => () => CloudflareR2Service.clearContributionAccess(), []);
+
+    useEffect(() => {
+        if (!token) return;
+        EventContributionService.openInvite(token).then(result => {
+            setInvite(result.invite);
+            setError(result.error || null);
+            setLoading(false);
+        });
+    }, [token]);
+
+    const handleFiles = async (files: File[]) => {
+        if (!token || files.length === 0) return;
+        CloudflareR2Service.setContributionAccess(token);
+        await uploadFiles(files, {
+            contribution: { token, uploaderName: name.trim(), message: message.trim() },
+            onComplete: items => setSentCount(count => count + items.length),
+        });
+    };
+
+    if (loading && token) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-catalog-bg">
+                <div className="w-12 h-12 border-4 border-catalog-accent border-t-transparent rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    if (!token || error || !invite) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center bg-catalog-bg text-catalog-text p-6 text-center">
+                <div className="w-16 h-16 bg-red-50 rounded-full flex items-center justify-center mb-6">
+                    <AlertCircle className="w-8 h-8 text-red-500" />
+                </div>
+                <h1 className="text-3xl font-serif mb-2">Link Unavailable</h1>
+                <p className="text-catalog-text/60 mb-8 max-w-sm">
+                    {error || 'This upload link is invalid.'}
+                </p>
+                <Link to="/login">
+                    <Button variant="primary">Family Sign In</Button>
+                </Link>
+            </div>
+        );
+    }
+
+    const isUploading = uploadState.isOpen && uploadState.doneCount < uploadState.totalCount;
+
+    return (
+        <div className="min-h-screen bg-white">
+            <header className="h-16 border-b border-catalog-stone/20 flex items-center justify-center px-6 sticky top-0 bg-white/80 backdrop-blur-md z-10">
+                <span className="text-sm font-sans uppercase tracking-[0.2em] text-catalog-text/40 font-bold">Share Your Photos</span>
+            </header>
+
+            <main className="max-w-xl mx-auto px-6 py-16 space-y-10">
+                <div className="text-center space-y-4">
+                    <h1 className="text-4xl md:text-5xl font-serif text-catalog-text leading-tight">{invite.title}</h1>
+                    <div className="flex flex-wrap items-center justify-center gap-6 text-catalog-text/50 text-sm">
+                        <span className="flex items-center gap-2"><Calendar className="w-4 h-4" /> {new Date(invite.eventDate).toLocaleDateString()}</span>
+                        {invite.location && <span className="flex items-center gap-2"><MapPin className="w-4 h-4" /> {invite.location}</span>}
+                    </div>
+                    <p className="text-catalog-text/60">
+                        The family would love your photos and videos of this day. They will be added to the story once a family admin has looked at them.
+                    </p>
+                    <p className="text-[10px] font-bold uppercase tracking-widest text-catalog-accent">
+                        Open {shareExpiryText(invite.expiresAt)}
+                    </p>
+                </div>
+
+                <form
+                    onSubmit={e => { e.preventDefault(); fileInputRef.current?.click(); }}
+                    className="space-y-4 p-8 rounded-3xl border border-catalog-accent/10 bg-catalog-bg/30"
+                >
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-catalog-text/50 uppercase tracking-widest">Your name</label>
+                        <input
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            required
+                            maxLength={100}
+                            placeholder="So the family knows who to thank"
+                            className="w-full px-3 py-2 border border-catalog-accent/20 rounded-sm focus:outline-none focus:ring-2 focus:ring-catalog-accent/50 bg-white text-sm"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-catalog-text/50 uppercase tracking-widest">Message</label>
+                        <textarea
+                            value={message}
+                            onChange={e => setMessage(e.target.value)}
+                            maxLength={1000}
+                            rows={3}
+                            placeholder="Optional"
+                            className="w-full px-3 py-2 border border-catalog-accent/20 rounded-sm focus:outline-none focus:ring-2 focus:ring-catalog-accent/50 bg-white text-sm resize-none"
+                        />
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="image/*,video/*"
+                        multiple
+                        className="hidden"
+                        onChange={e => {
+                            handleFiles(Array.from(e.target.files || []));
+                            e.target.value = '';
+                        }}
+                    />
+                    <Button type="submit" variant="primary" disabled={!name.trim() || isUploading} isLoading={isUploading} className="w-full gap-2">
+                        <ImagePlus className="w-4 h-4" /> Choose Photos & Videos
+                    </Button>
+                </form>
+
+                {sentCount > 0 && (
+                    <div className="flex items-start gap-3 p-4 rounded-2xl bg-green-50 text-green-700 text-sm">
+                        <CheckCircle2 className="w-5 h-5 shrink-0" />
+                        <p>
+                            Thank you! {sentCount} {sentCount === 1 ? 'file was' : 'files were'} sent for review.
+                            You can add more with the same link.
+                        </p>
+                    </div>
+                )}
+            </main>
+
+            <UploadOverlay
+                state={uploadState}
+                title="Sending your memories…"
+                onDismiss={dismissUpload}
+                onCancelFile={cancelUpload}
+                onCancelAll={cancelAll}
+                onMinimize={() => setMinimized(true)}
+            />
+        </div>
+    );
+}
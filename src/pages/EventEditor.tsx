@@ -20,6 +20,7 @@ import { arrayMove, SortableContext, sortableKeyboardCoordinates, rectSortingStr
 import { SortableAsset } from '../components/ui/SortableAsset';
 
 import { UniversalUploadButton } from '../components/ui/UniversalUploadButton';
+import { GuestContributionsPanel } from '../components/events/GuestContributionsPanel';
 
 export function EventEditor() {
     const { id } = useParams<{ id: string }>();
@@ -557,6 +558,18 @@ export function EventEditor() {
                                     </DndContext>
                                 )}
                             </Card>
+
+                            {/* Guest uploads waiting for review; approved ones are already saved to the event */}
+                            {!isNew && eventData.id && (
+                                <GuestContributionsPanel
+                                    eventId={eventData.id}
+                                    eventTitle={eventData.title}
+                                    onApproved={(asset) => setEventData(prev => ({
+                                        ...prev,
+                                        content: { ...prev.content, assets: [...(prev.content?.assets || []), asset] }
+                                    }))}
+                                />
+                            )}
                         </div>
                     </div>
                 </div>
@@ -1,12 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { Calendar, MapPin, ArrowLeft, Printer, Heart } from 'lucide-react';
+import { Calendar, MapPin, ArrowLeft, Printer, Heart, FileText, BookOpen } from 'lucide-react';
 import { Button } from '../components/ui/Button';
 import { EventReviews } from '../components/events/EventReviews';
 import { EventMediaGallery } from '../components/events/EventMediaGallery';
 import { GlobalLightboxProvider, useGlobalLightbox } from '../components/ui/GlobalLightbox';
+import { EventExportService } from '../services/eventExport';
 import type { Event } from '../types/supabase';
+import type { FeedbackScope } from '../services/mediaComments';
 import { motion } from 'framer-motion';
 
 const EventContent = ({ event }: { event: Event }) => {
@@ -128,6 +130,11 @@ export function EventView() {
     const { id } = useParams<{ id: string }>();
     const [event, setEvent] = useState<Event | null>(null);
     const [loading, setLoading] = useState(true);
+    const [exporting, setExporting] = useState<'pdf' | 'epub' | null>(null);
+    const commentScope = useMemo<FeedbackScope | null>(
+        () => event ? { kind: 'family', targetType: 'event', targetId: event.id } : null,
+        [event]
+    );
 
     useEffect(() => {
         if (id) fetchEvent(id);
@@ -155,6 +162,24 @@ export function EventView() {
         }
     };
 
+    const handleExport = async (format: 'pdf' | 'epub') => {
+        if (!event || exporting) return;
+        setExporting(format);
+        try {
+            const result = format === 'pdf'
+                ? await EventExportService.exportPdf(event)
+                : await EventExportService.exportEpub(event);
+            if (result.missing.length > 0) {
+                alert(`${result.missing.length} photo(s) could not be included; their captions were kept.`);
+            }
+        } catch (error) {
+            console.error('Event export error:', error);
+            alert('Could not export this event. Please try again.');
+        } finally {
+            setExporting(null);
+        }
+    };
+
     if (loading) {
         return (
             <div className="h-screen flex items-center justify-center bg-catalog-bg">
@@ -175,7 +200,7 @@ export function EventView() {
     }
 
     return (
-        <GlobalLightboxProvider>
+        <GlobalLightboxProvider commentScope={commentScope}>
             <div className="min-h-screen bg-white theme-peach theme-rainbow bg-pattern-diverse">
                 {/* Minimal Header */}
                 <header className="h-16 border-b border-catalog-stone/20 flex items-center justify-between px-6 sticky top-0 bg-white/80 backdrop-blur-md z-10">
@@ -186,6 +211,12 @@ export function EventView() {
                         <span className="text-sm font-sans uppercase tracking-[0.2em] text-catalog-text/40 font-bold">The Family Archive</span>
                     </div>
                     <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleExport('pdf')} isLoading={exporting === 'pdf'} disabled={!!exporting}>
+                            <FileText className="w-4 h-4 mr-2" /> PDF
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleExport('epub')} isLoading={exporting === 'epub'} disabled={!!exporting}>
+                            <BookOpen className="w-4 h-4 mr-2" /> EPUB
+                        </Button>
                         <Button variant="ghost" size="sm" onClick={() => window.print()}>
                             <Printer className="w-4 h-4 mr-2" /> Print
                         </Button>
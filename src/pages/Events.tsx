@@ -3,7 +3,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { Calendar, Plus, Loader2, Edit, MapPin, Link as LinkIcon, Upload, FolderOpen } from 'lucide-react';
+import { Calendar, Plus, Loader2, Edit, MapPin, Link as LinkIcon, Upload, FolderOpen, Wand2, BookMarked } from 'lucide-react';
 import { Button } from '../components/ui/Button';
 
 import { ActionToolbar } from '../components/ui/ActionToolbar';
@@ -14,6 +14,11 @@ import { storageService } from '../services/storage';
 import { UrlInputModal } from '../components/media/UrlInputModal';
 import { ImageCropper } from '../components/ui/ImageCropper';
 import { MediaPickerModal } from '../components/media/MediaPickerModal';
+import { AlbumDraftService } from '../services/albumDraft';
+import { EventExportService } from '../services/eventExport';
+import { eventMatchesFilters } from '../lib/yearbook';
+import { CreateYearbookModal } from '../components/events/CreateYearbookModal';
+import type { Event } from '../types/supabase';
 
 function EventCard({
     event,
@@ -27,7 +32,9 @@ function EventCard({
     handleShareEvent,
     handlePrintEvent,
     handleCreateAlbum,
-    creatingAlbumFor
+    creatingAlbumFor,
+    handleGenerateDraft,
+    draftingAlbumFor
 }: any) {
     let currentContent: any = event.content;
     if (typeof currentContent === 'string') {
@@ -146,6 +153,16 @@ function EventCard({
                                     </button>
                                 )
                             )}
+                            {!linkedAlbumId && (
+                                <button
+                                    onClick={() => handleGenerateDraft(event)}
+                                    disabled={draftingAlbumFor === event.id}
+                                    className="flex items-center gap-1.5 p-2.5 glass rounded-2xl text-[10px] font-black text-catalog-text/40 hover:text-catalog-accent uppercase tracking-widest border border-black/5 transition-all active:scale-95"
+                                    title="Generate a draft album from this event's photos, linked stacks and library uploads"
+                                >
+                                    {draftingAlbumFor === event.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+                                </button>
+                            )}
                         </div>
 
                         <div className="flex items-center gap-1">
@@ -165,17 +182,21 @@ function EventCard({
 }
 
 export function Events() {
-    const { familyId, userRole } = useAuth();
+    const { user, familyId, userRole } = useAuth();
     const navigate = useNavigate();
     const [events, setEvents] = useState<any[]>([]);
     const [linkedAlbums, setLinkedAlbums] = useState<Record<string, string>>({});
     const [loading, setLoading] = useState(true);
     const [creatingAlbumFor, setCreatingAlbumFor] = useState<string | null>(null);
+    const [draftingAlbumFor, setDraftingAlbumFor] = useState<string | null>(null);
     const [sharingEventId, setSharingEventId] = useState<string | null>(null);
-    const [filters, setFilters] = useState<FilterState>({ query: '', category: 'all', year: 'all', location: 'all' });
+    const [filters, setFilters] = useState<FilterState>({ query: '', category: 'all', year: 'all', location: 'all', hashtag: 'all', participant: 'all' });
     const [categories, setCategories] = useState<string[]>([]);
     const [years, setYears] = useState<string[]>([]);
     const [locations, setLocations] = useState<string[]>([]);
+    const [hashtags, setHashtags] = useState<string[]>([]);
+    const [participants, setParticipants] = useState<string[]>([]);
+    const [showYearbookModal, setShowYearbookModal] = useState(false);
 
 
     const isAdmin = userRole === 'admin' || userRole === 'super_admin';
@@ -348,10 +369,14 @@ export function Events() {
             const cats = Array.from(new Set(fetchedEvents.map(e => e.category).filter(Boolean))) as string[];
             const yrs = Array.from(new Set(fetchedEvents.map(e => new Date(e.event_date).getFullYear().toString()))) as string[];
             const locs = Array.from(new Set(fetchedEvents.map(e => e.location).filter(Boolean))) as string[];
+            const tags = Array.from(new Set(fetchedEvents.flatMap(e => (e.hashtags || []).map((t: string) => t.replace(/^#/, '').trim())).filter(Boolean))) as string[];
+            const people = Array.from(new Set(fetchedEvents.flatMap(e => (e.participants || []).map((p: string) => p.trim())).filter(Boolean))) as string[];
 
             setCategories(cats.sort());
             setYears(yrs.sort((a, b) => b.localeCompare(a)));
             setLocations(locs.sort());
+            setHashtags(tags.sort((a, b) => a.localeCompare(b)));
+            setParticipants(people.sort((a, b) => a.localeCompare(b)));
         } catch (error) {
             console.error('Fetch error:', error);
         } finally {
@@ -392,13 +417,16 @@ export function Events() {
 
     const handleShareEvent = (id: string) => setSharingEventId(id);
 
-    const handlePrintEvent = (event: any) => {
-        const doc = new Blob([`<html><body><h1>${event.title}</h1><p>${event.description}</p></body></html>`], { type: 'text/html' });
-        const url = URL.createObjectURL(doc);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${event.title}.html`;
-        a.click();
+    const handlePrintEvent = async (event: any) => {
+        try {
+            const result = await EventExportService.exportPdf(event);
+            if (result.missing.length > 0) {
+                alert(`${result.missing.length} photo(s) could not be included in the PDF.`);
+            }
+        } catch (error) {
+            console.error('Event PDF export error:', error);
+            alert('Could not export this event. Please try again.');
+        }
     };
 
     const handleCreateAlbum = async (event: any) => {
@@ -421,13 +449,23 @@ export function Events() {
         }
     };
 
-    const filteredEvents = events.filter(event => {
-        const matchesQuery = !filters.query || event.title.toLowerCase().includes(filters.query.toLowerCase());
-        const matchesCategory = filters.category === 'all' || event.category === filters.category;
-        const matchesYear = filters.year === 'all' || new Date(event.event_date).getFullYear().toString() === filters.year;
-        const matchesLocation = filters.location === 'all' || event.location === filters.location;
-        return matchesQuery && matchesCategory && matchesYear && matchesLocation;
-    });
+    const handleGenerateDraft = async (event: Event) => {
+        if (!familyId || draftingAlbumFor) return;
+        setDraftingAlbumFor(event.id);
+        const result = await AlbumDraftService.createDraftAlbum({
+            familyId,
+            creatorId: user?.id,
+            eventId: event.id,
+        });
+        setDraftingAlbumFor(null);
+        if (!result) {
+            alert('Could not generate a draft: no photos were found for this event, or the album could not be saved.');
+            return;
+        }
+        navigate(`/album/${result.albumId}/edit`);
+    };
+
+    const filteredEvents = events.filter(event => eventMatchesFilters(event, filters));
 
     const groupedEvents = filteredEvents.reduce((groups: Record<string, any[]>, event) => {
         const year = new Date(event.event_date).getFullYear().toString();
@@ -466,7 +504,13 @@ export function Events() {
 
                     <div className="flex flex-col sm:flex-row items-center gap-6">
                         <div className="glass p-2 rounded-[2rem] shadow-2xl border border-white/40 flex items-center gap-2">
-                            <FilterBar filters={filters} onFilterChange={setFilters} categories={categories} years={years} locations={locations} className="border-none bg-transparent shadow-none" />
+                            <FilterBar filters={filters} onFilterChange={setFilters} categories={categories} years={years} locations={locations} hashtags={hashtags} participants={participants} className="border-none bg-transparent shadow-none" />
+                            {events.length > 0 && (
+                                <Button variant="ghost" onClick={() => setShowYearbookModal(true)} className="rounded-full px-6 h-12 font-black uppercase tracking-widest text-[10px] flex items-center gap-2 shrink-0" title="Compile the filtered events into a yearbook">
+                                    <BookMarked className="w-4 h-4" />
+                                    Yearbook
+                                </Button>
+                            )}
                             {canCreate && (
                                 <Button variant="primary" onClick={() => navigate('/event/new')} className="bg-catalog-accent text-white rounded-full px-8 h-12 font-black uppercase tracking-widest text-[10px] shadow-xl hover:scale-105 transition-all flex items-center gap-3 shrink-0">
                                     <Plus className="w-4 h-4" />
@@ -535,6 +579,8 @@ export function Events() {
                                             handlePrintEvent={handlePrintEvent}
                                             handleCreateAlbum={handleCreateAlbum}
                                             creatingAlbumFor={creatingAlbumFor}
+                                            handleGenerateDraft={handleGenerateDraft}
+                                            draftingAlbumFor={draftingAlbumFor}
                                         />
                                     ))}
                                 </div>
@@ -608,6 +654,13 @@ export function Events() {
                     initialAspectRatio={16 / 9}
                 />
             )}
+
+            <CreateYearbookModal
+                isOpen={showYearbookModal}
+                onClose={() => setShowYearbookModal(false)}
+                filters={filters}
+                eventCount={filteredEvents.length}
+            />
         </div>
     );
 }
@@ -1,17 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/ui/Button';
 import {
     Plus, Play, Music, Calendar, Grid, List, Search, Loader2,
-    PlaySquare, Sparkles, Pencil, Trash2, Users, Hash, Share, MapPin
+    PlaySquare, Sparkles, Pencil, Trash2, Users, Hash, Share, MapPin, Film
 } from 'lucide-react';
 import MediaStackViewer, { type MediaItem } from '../components/media/MediaStackViewer';
 import { CreateStackModal } from '../components/media/CreateStackModal';
 import { motion, AnimatePresence } from 'framer-motion';
 import { CloudflareR2Service } from '../services/cloudflareR2';
 import { SecureMedia } from '../components/common/SecureMedia';
+import { SlideshowExportDialog } from '../components/media/SlideshowExportDialog';
+import { SlideshowExportService } from '../services/slideshowExport';
+import { SharingDialog } from '../components/sharing/SharingDialog';
+import type { FeedbackScope } from '../services/mediaComments';
 
 function StackMiniThumbnail({ item }: { item: { url: string; type?: string; metadata?: any } }) {
     const isVideo = !!(item.type === 'video' || (item.url && item.url.match(/\.(mp4|mov|webm|mkv|avi)(\?.*)?$/i)));
@@ -77,7 +81,13 @@ export function MediaStacks() {
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [editingStack, setEditingStack] = useState<Stack | null>(null);
     const [viewingStack, setViewingStack] = useState<Stack | null>(null);
+    const [videoStack, setVideoStack] = useState<Stack | null>(null);
+    const [sharingStack, setSharingStack] = useState<Stack | null>(null);
     const [deletingId, setDeletingId] = useState<string | null>(null);
+    const commentScope = useMemo<FeedbackScope | null>(
+        () => viewingStack ? { kind: 'family', targetType: 'stack', targetId: viewingStack.id } : null,
+        [viewingStack]
+    );
 
     useEffect(() => {
         fetchStacks();
@@ -162,46 +172,8 @@ export function MediaStacks() {
         }
     };
 
-    const handleShareStack = async (stack: Stack) => {
-        try {
-            const token = crypto.randomUUID();
-            const expiresAt = new Date();
-            expiresAt.setHours(expiresAt.getHours() + 48);
-
-            const { error } = await (supabase.from('shared_links' as any) as any).insert({
-                token,
-                stack_id: stack.id,
-                expires_at: expiresAt.toISOString(),
-            });
-
-            if (error) throw error;
-
-            const groupTitle = stack.title;
-            const safeTitle = groupTitle ? groupTitle.replace(/\s+/g, '_') : 'Stack';
-            const shareUrl = `${window.location.origin}/stack/share/${safeTitle}/${token}`;
-            const emailSubject = encodeURIComponent(`Shared Media Stack: ${groupTitle}`);
-            const emailBody = encodeURIComponent(`Hi!\n\nI wanted to share this media stack with you: ${groupTitle}\n\nYou can view it here (valid for 48 hours):\n${shareUrl}\n\nEnjoy!`);
-            const mailtoUrl = `mailto:?subject=${emailSubject}&body=${emailBody}`;
-
-            if (navigator.share) {
-                await navigator.share({
-                    title: `Media Stack: ${groupTitle}`,
-                    text: `View this media stack: ${groupTitle} (valid for the next 48 hours!)`,
-                    url: shareUrl,
-                });
-            } else {
-                const choice = confirm(`Share link created!\n\nClick OK to Copy Link to clipboard.\nClick CANCEL to Share by Email.`);
-                if (choice) {
-                    await navigator.clipboard.writeText(shareUrl);
-                    alert('Link copied to clipboard!');
-                } else {
-                    window.location.href = mailtoUrl;
-                }
-            }
-        } catch (err) {
-            console.error('Error sharing stack:', err);
-            alert('Failed to generate share link.');
-        }
+    const handleShareStack = (stack: Stack) => {
+        setSharingStack(stack);
     };
 
     const handleViewStack = (stack: Stack) => {
@@ -453,6 +425,13 @@ export function MediaStacks() {
                                                     >
                                                         <Share className="w-4 h-4" />
                                                     </button>
+                                                    <button
+                                                        onClick={e => { e.stopPropagation(); setVideoStack(stack); }}
+                                                        className="p-2 hover:bg-purple-50 text-purple-600 rounded-xl transition-colors"
+                                                        title="Export video"
+                                                    >
+                                                        <Film className="w-4 h-4" />
+                                                    </button>
                                                     <button
                                                         onClick={e => { e.stopPropagation(); navigate(`/stacks/${stack.title ? stack.title.replace(/\s+/g, '_') : stack.id}/edit`); }}
                                                         className="p-2 hover:bg-blue-50 text-blue-500 rounded-xl transition-colors"
@@ -574,6 +553,13 @@ export function MediaStacks() {
                                             >
                                                 <Share className="w-4 h-4" /> <span className="hidden sm:inline">Share</span>
                                             </button>
+                                            <button
+                                                onClick={e => { e.stopPropagation(); setVideoStack(stack); }}
+                                                className="flex items-center gap-1.5 p-2 px-3 hover:bg-purple-50 text-purple-600 rounded-xl transition-colors font-bold text-xs"
+                                                title="Export video"
+                                            >
+                                                <Film className="w-4 h-4" /> <span className="hidden sm:inline">Video</span>
+                                            </button>
                                             <button
                                                 onClick={e => { e.stopPropagation(); navigate(`/stacks/${stack.title ? stack.title.replace(/\s+/g, '_') : stack.id}/edit`); }}
                                                 className="flex items-center gap-1.5 p-2 px-3 hover:bg-blue-50 text-blue-500 rounded-xl transition-colors font-bold text-xs"
@@ -636,6 +622,20 @@ export function MediaStacks() {
                 }}
             />
 
+            {/* ============ VIDEO EXPORT ============ */}
+            {videoStack && (
+                <SlideshowExportDialog
+                    title={videoStack.title}
+                    kind="stack"
+                    onClose={() => setVideoStack(null)}
+                    onExport={(options, onProgress) => SlideshowExportService.exportStack(
+                        { title: videoStack.title, items: stackToViewerItems(videoStack), musicUrl: videoStack.music_url },
+                        options,
+                        onProgress
+                    )}
+                />
+            )}
+
             {/* ============ VIEWER ============ */}
             <AnimatePresence>
                 {viewingStack && (
@@ -644,6 +644,7 @@ export function MediaStacks() {
                         initialIndex={0}
                         backgroundMusicUrl={viewingStack.music_url || undefined}
                         onClose={handleCloseViewer}
+                        commentScope={commentScope}
                         onShare={() => handleShareStack(viewingStack)}
                         onEdit={() => {
                             navigate(`/stacks/${viewingStack.title ? viewingStack.title.replace(/\s+/g, '_') : viewingStack.id}/edit`);
@@ -652,6 +653,15 @@ export function MediaStacks() {
                     />
                 )}
             </AnimatePresence>
+
+            {/* ============ SHARE LINKS ============ */}
+            {sharingStack && (
+                <SharingDialog
+                    stackId={sharingStack.id}
+                    title={sharingStack.title}
+                    onClose={() => setSharingStack(null)}
+                />
+            )}
         </div>
     );
 }
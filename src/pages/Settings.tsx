@@ -8,15 +8,17 @@ import emailService from '../services/emailService';
 import { cn } from '../lib/utils';
 import { useDocumentTitle } from '../hooks/useDocumentTitle';
 import AdminBugReports from '../components/settings/AdminBugReports';
-import { Bug, Cloud } from 'lucide-react';
+import { Bug, Cloud, Activity } from 'lucide-react';
 import { FamilyStorageSettings } from '../components/settings/FamilyStorageSettings';
+import { FamilyBackupSettings } from '../components/settings/FamilyBackupSettings';
+import { SharingActivitySettings } from '../components/settings/SharingActivitySettings';
 
 export function Settings() {
     const { user, userRole, createFamily, joinFamilyWithInviteCode } = useAuth();
     const isAdmin = userRole === 'admin' || userRole === 'super_admin';
     const isSuperAdmin = userRole === 'super_admin';
     useDocumentTitle('Settings');
-    const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'family' | 'admin' | 'notifications' | 'bugs' | 'storage' | 'maintenance'>('profile');
+    const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'family' | 'admin' | 'notifications' | 'sharing' | 'bugs' | 'storage' | 'maintenance'>('profile');
 
     // Fix #3: profile editing
     const [displayName, setDisplayName] = useState(user?.user_metadata?.name || '');
@@ -64,6 +66,8 @@ export function Settings() {
             setActiveTab('family');
         } else if (tab === 'notifications') {
             setActiveTab('notifications');
+        } else if (tab === 'sharing') {
+            setActiveTab('sharing');
         }
 
         const loadFamilyData = async () => {
@@ -453,6 +457,7 @@ export function Settings() {
         { id: 'security', label: 'Security', icon: Lock },
         { id: 'family', label: 'Family & Invites', icon: Users },
         { id: 'notifications', label: 'Notifications', icon: Bell },
+        { id: 'sharing', label: 'Sharing Activity', icon: Activity },
         ...(isAdmin ? [
             { id: 'storage', label: 'R2 Storage', icon: Cloud },
             { id: 'maintenance', label: 'Maintenance', icon: Trash2 },
@@ -1003,6 +1008,13 @@ export function Settings() {
                         </Card>
                     )}
 
+                    {/* ─── Sharing Activity ─── */}
+                    {activeTab === 'sharing' && familyId && (
+                        <Card className="p-8 animate-fade-in">
+                            <SharingActivitySettings familyId={familyId} isAdmin={isAdmin} />
+                        </Card>
+                    )}
+
                     {/* ─── Admin Panel — Fix #2/#10 ─── */}
                     {activeTab === 'admin' && isAdmin && (
                         <Card className="p-8 space-y-8 animate-fade-in">
@@ -1074,6 +1086,8 @@ export function Settings() {
                             <h2 className="text-2xl font-outfit font-black text-catalog-text">System Maintenance</h2>
                             
                             <div className="space-y-6">
+                                {familyId && user && <FamilyBackupSettings familyId={familyId} userId={user.id} />}
+
                                 <div className="p-6 bg-red-50 border border-red-100 rounded-3xl space-y-4">
                                     <div className="flex items-center gap-3 text-red-600">
                                         <Trash2 className="w-5 h-5" />
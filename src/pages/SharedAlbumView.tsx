@@ -1,15 +1,33 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
 import { FlipbookViewer } from '../components/viewer/FlipbookViewer';
 import { Loader2, AlertCircle } from 'lucide-react';
 import { Button } from '../components/ui/Button';
+import { SharePasswordPrompt } from '../components/sharing/SharePasswordPrompt';
+import { loadSharedAlbum, type ShareLinkAccess } from '../services/sharing';
+import { useShareVisit } from '../hooks/useShareVisit';
+import { CloudflareR2Service } from '../services/cloudflareR2';
+import type { FeedbackScope } from '../services/mediaComments';
 
 export function SharedAlbumView() {
     const { token } = useParams<{ token: string }>();
 
     const [album, setAlbum] = useState<any>(null);
+    const [access, setAccess] = useState<ShareLinkAccess | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [unlock, setUnlock] = useState<{ password: string } | null>(null);
+    const [passwordError, setPasswordError] = useState<string | null>(null);
+    const [needsPassword, setNeedsPassword] = useState(false);
+    const recordView = useShareVisit(token, unlock?.password, !!album);
+    const handlePageView = useCallback((pageIndex: number) => recordView(String(pageIndex + 1)), [recordView]);
+    const commentScope = useMemo<FeedbackScope | null>(
+        () => token && access?.allowComments ? { kind: 'guest', token, password: unlock?.password } : null,
+        [token, access?.allowComments, unlock?.password]
+    );
+
+    // Share access only lasts while this view is open
+    useEffect(() => () => CloudflareR2Service.clearShareAccess(), []);
 
     useEffect(() => {
         if (!token) {
@@ -20,27 +38,18 @@ export function SharedAlbumView() {
 
         const fetchSharedAlbum = async () => {
             try {
-                // Fetch the JSON payload directly from R2 (which acts as a secure, public snapshot)
-                const publicUrl = import.meta.env.VITE_R2_PUBLIC_URL as string;
-                if (!publicUrl) throw new Error("R2 Public URL is not configured in .env");
-                const r2Url = publicUrl.endsWith('/') ? publicUrl.slice(0, -1) : publicUrl;
-                
-                const response = await fetch(`${r2Url}/shared-links/album-${token}.json`, { cache: 'no-store' });
-                
-                if (!response.ok) {
-                    throw new Error('Link is invalid or has expired.');
+                const result = await loadSharedAlbum(token, unlock?.password);
+                if (result.code === 'password_required' || result.code === 'password_incorrect') {
+                    setNeedsPassword(true);
+                    setPasswordError(result.code === 'password_incorrect' ? result.error || null : null);
+                    return;
                 }
-
-                const data = await response.json();
-                
-                if (!data || !data.album) {
-                    throw new Error('This link does not contain a valid memory album.');
-                }
-
-                if (data.pages) {
-                    data.album.pages = data.pages;
+                if (!result.album || !result.access) {
+                    throw new Error(result.error || 'Link is invalid or has expired.');
                 }
-                setAlbum(data.album);
+                setNeedsPassword(false);
+                setAccess(result.access);
+                setAlbum(result.album);
             } catch (err: any) {
                 console.error(err);
                 setError(err.message || 'Failed to load shared album.');
@@ -49,7 +58,17 @@ export function SharedAlbumView() {
             }
         };
         fetchSharedAlbum();
-    }, [token]);
+    }, [token, unlock]);
+
+    if (needsPassword) {
+        return (
+            <SharePasswordPrompt
+                error={passwordError}
+                isChecking={loading}
+                onSubmit={password => { setLoading(true); setUnlock({ password }); }}
+            />
+        );
+    }
 
     if (loading) {
         return (
@@ -69,7 +88,7 @@ export function SharedAlbumView() {
                     <p className="text-gray-300 font-medium mb-8 leading-relaxed">
                         {error}
                         <br /><br />
-                        For security reasons, shared memory links automatically expire within 48 hours and cannot grant access to the main application portfolio.
+                        For security reasons, shared memory links expire, can be revoked at any time and cannot grant access to the main application portfolio.
                     </p>
                     <Button variant="primary" onClick={() => window.location.href = '/'} className="w-full">
                         Close
@@ -84,6 +103,9 @@ export function SharedAlbumView() {
             <FlipbookViewer
                 pages={album.pages || []}
                 album={album}
+                allowDownload={access?.allowDownload ?? false}
+                onPageView={handlePageView}
+                commentScope={commentScope}
                 onClose={() => {
                     // Exit cleanly out of the website since they have no auth rights.
                     window.location.href = 'https://google.com';
@@ -1,16 +1,34 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { Calendar, MapPin, Heart, Clock, AlertCircle } from 'lucide-react';
 import { Button } from '../components/ui/Button';
 import { EventMediaGallery } from '../components/events/EventMediaGallery';
+import { GlobalLightboxProvider } from '../components/ui/GlobalLightbox';
+import { SharePasswordPrompt } from '../components/sharing/SharePasswordPrompt';
+import { shareExpiryText, toShareLinkAccess, type ShareLinkAccess } from '../services/sharing';
+import { useShareVisit } from '../hooks/useShareVisit';
+import { CloudflareR2Service } from '../services/cloudflareR2';
 import type { Event } from '../types/supabase';
+import type { FeedbackScope } from '../services/mediaComments';
 
 export function SharedEventView() {
     const { token } = useParams<{ token: string }>();
     const [event, setEvent] = useState<Event | null>(null);
+    const [access, setAccess] = useState<ShareLinkAccess | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [unlock, setUnlock] = useState<{ password: string } | null>(null);
+    const [passwordError, setPasswordError] = useState<string | null>(null);
+    const [needsPassword, setNeedsPassword] = useState(false);
+    const recordView = useShareVisit(token, unlock?.password, !!event);
+    const commentScope = useMemo<FeedbackScope | null>(
+        () => token && access?.allowComments ? { kind: 'guest', token, password: unlock?.password } : null,
+        [token, access?.allowComments, unlock?.password]
+    );
+
+    // Share access only lasts while this view is open
+    useEffect(() => () => CloudflareR2Service.clearShareAccess(), []);
 
     useEffect(() => {
         if (!token) {
@@ -23,17 +41,28 @@ export function SharedEventView() {
             try {
                 // Call the universal sharing RPC
                 const { data, error: fnError } = await (supabase.rpc as any)('get_shared_content', {
-                    token_param: token
+                    token_param: token,
+                    password_param: unlock?.password || null
                 });
 
+                if (data?.code === 'password_required' || data?.code === 'password_incorrect') {
+                    setNeedsPassword(true);
+                    setPasswordError(data.code === 'password_incorrect' ? data.error : null);
+                    return;
+                }
+
                 if (fnError || !data || data.success === false) {
-                    throw new Error(fnError?.message || data?.error || 'Link is invalid or has expired after 48 hours.');
+                    throw new Error(fnError?.message || data?.error || 'Link is invalid or has expired.');
                 }
 
                 if (data.type !== 'event' || !data.event) {
                     throw new Error('This link is not associated with a story.');
                 }
 
+                const linkAccess = toShareLinkAccess(data.link);
+                setNeedsPassword(false);
+                CloudflareR2Service.setShareAccess(token, unlock?.password, linkAccess.allowDownload);
+                setAccess(linkAccess);
                 setEvent(data.event);
             } catch (err: any) {
                 console.error('Error fetching shared event:', err);
@@ -44,7 +73,22 @@ export function SharedEventView() {
         };
 
         fetchSharedEvent();
-    }, [token]);
+    }, [token, unlock]);
+
+    // An event is a single page: opening it is seeing the whole story
+    useEffect(() => {
+        if (event) recordView('story');
+    }, [event, recordView]);
+
+    if (needsPassword) {
+        return (
+            <SharePasswordPrompt
+                error={passwordError}
+                isChecking={loading}
+                onSubmit={password => { setLoading(true); setUnlock({ password }); }}
+            />
+        );
+    }
 
     if (loading) {
         return (
@@ -85,7 +129,7 @@ export function SharedEventView() {
             <main className="max-w-4xl mx-auto px-6 py-16 md:py-24">
                 <div className="mb-12 flex justify-center">
                     <div className="flex items-center gap-2 px-3 py-1 bg-catalog-accent/5 text-catalog-accent text-[10px] font-bold uppercase tracking-widest rounded-full border border-catalog-accent/10">
-                        <Clock className="w-3 h-3" /> Temporary Guest Access
+                        <Clock className="w-3 h-3" /> Guest Access {access ? shareExpiryText(access.expiresAt) : ''}
                     </div>
                 </div>
 
@@ -126,10 +170,12 @@ export function SharedEventView() {
 
                     {/* Media Gallery */}
                     {event.content?.assets && event.content.assets.length > 0 && (
-                        <EventMediaGallery
-                            assets={event.content.assets}
-                            mode={event.content.galleryMode || 'cards'}
-                        />
+                        <GlobalLightboxProvider commentScope={commentScope} allowDownload={access?.allowDownload ?? false}>
+                            <EventMediaGallery
+                                assets={event.content.assets}
+                                mode={event.content.galleryMode || 'cards'}
+                            />
+                        </GlobalLightboxProvider>
                     )}
 
                     {/* Footer */}
@@ -1,16 +1,34 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import MediaStackViewer, { type MediaItem } from '../components/media/MediaStackViewer';
 import { Loader2, AlertCircle } from 'lucide-react';
 import { Button } from '../components/ui/Button';
+import { SharePasswordPrompt } from '../components/sharing/SharePasswordPrompt';
+import { toShareLinkAccess, type ShareLinkAccess } from '../services/sharing';
+import { useShareVisit } from '../hooks/useShareVisit';
+import { CloudflareR2Service } from '../services/cloudflareR2';
+import type { FeedbackScope } from '../services/mediaComments';
 
 export function SharedStackView() {
     const { token } = useParams<{ token: string }>();
 
     const [stack, setStack] = useState<any>(null);
+    const [access, setAccess] = useState<ShareLinkAccess | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [unlock, setUnlock] = useState<{ password: string } | null>(null);
+    const [passwordError, setPasswordError] = useState<string | null>(null);
+    const [needsPassword, setNeedsPassword] = useState(false);
+    const recordView = useShareVisit(token, unlock?.password, !!stack);
+    const handleItemView = useCallback((item: MediaItem) => recordView(item.id), [recordView]);
+    const commentScope = useMemo<FeedbackScope | null>(
+        () => token && access?.allowComments ? { kind: 'guest', token, password: unlock?.password } : null,
+        [token, access?.allowComments, unlock?.password]
+    );
+
+    // Share access only lasts while this view is open
+    useEffect(() => () => CloudflareR2Service.clearShareAccess(), []);
 
     useEffect(() => {
         if (!token) {
@@ -23,14 +41,25 @@ export function SharedStackView() {
             try {
                 // Call the Postgres function we created
                 const { data, error: fnError } = await (supabase.rpc as any)('get_shared_stack', {
-                    token_param: token
+                    token_param: token,
+                    password_param: unlock?.password || null
                 });
 
-                if (fnError || !data) {
-                    throw new Error(fnError?.message || 'Link is invalid or has expired after 48 hours.');
+                if (data?.code === 'password_required' || data?.code === 'password_incorrect') {
+                    setNeedsPassword(true);
+                    setPasswordError(data.code === 'password_incorrect' ? data.error : null);
+                    return;
+                }
+
+                if (fnError || !data || data.success === false || !data.stack) {
+                    throw new Error(fnError?.message || data?.error || 'Link is invalid or has expired.');
                 }
 
-                setStack(data);
+                const linkAccess = toShareLinkAccess(data.link);
+                setNeedsPassword(false);
+                CloudflareR2Service.setShareAccess(token, unlock?.password, linkAccess.allowDownload);
+                setAccess(linkAccess);
+                setStack(data.stack);
             } catch (err: any) {
                 console.error(err);
                 setError(err.message || 'Failed to load shared stack.');
@@ -39,7 +68,17 @@ export function SharedStackView() {
             }
         };
         fetchSharedStack();
-    }, [token]);
+    }, [token, unlock]);
+
+    if (needsPassword) {
+        return (
+            <SharePasswordPrompt
+                error={passwordError}
+                isChecking={loading}
+                onSubmit={password => { setLoading(true); setUnlock({ password }); }}
+            />
+        );
+    }
 
     if (loading) {
         return (
@@ -59,7 +98,7 @@ export function SharedStackView() {
                     <p className="text-gray-300 font-medium mb-8 leading-relaxed">
                         {error}
                         <br /><br />
-                        For security reasons, shared stack links automatically expire within 48 hours and cannot grant access to the main application portfolio.
+                        For security reasons, shared stack links expire, can be revoked at any time and cannot grant access to the main application portfolio.
                     </p>
                     <Button variant="primary" onClick={() => window.location.href = '/'} className="w-full">
                         Close
@@ -101,6 +140,9 @@ export function SharedStackView() {
             }}
             readOnly={true} // Add a signal so Share/Edit icons aren't rendered inside
             shareToken={token}
+            allowDownload={access?.allowDownload ?? false}
+            onItemView={handleItemView}
+            commentScope={commentScope}
         />
     );
 }
@@ -0,0 +1,292 @@
+/**
+ * Album Archive Service
+ *
+ * Backs up one album as a versioned zip (manifest, media files and the
+ * layouts its pages use) and imports such archives, or the older album JSON
+ * the app wrote before, into a family: media is uploaded again into that
+ * family's storage, URLs are rewritten and the album is recreated with new
+ * ids. Deleting an album is final, so this is also how albums are restored.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+import { AlbumDataService } from './albumDataService';
+import { CloudflareR2Service } from './cloudflareR2';
+import { archiveExtension, loadArchiveFile } from './printService';
+import {
+    ALBUM_ARCHIVE_MANIFEST,
+    buildAlbumManifest,
+    collectAlbumLayoutRefs,
+    collectAlbumMediaUrls,
+    migrateAlbumArchive,
+    reassignAlbumIds,
+    replaceAlbumUrls,
+    type AlbumArchiveLayout,
+    type AlbumArchiveMedia,
+} from '../lib/albumArchive';
+import { createZip, readZip, type ZipEntry } from '../lib/zip';
+import type { UnifiedAlbum, UnifiedMasterPage } from '../types/album';
+
+const supabase = libSupabase as any;
+
+const ARCHIVE_BATCH_SIZE = 4;
+
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov|m4v|ogv)(\?|#|$)/i;
+
+export interface AlbumArchiveExportResult {
+    mediaCount: number;
+    missing: string[];          // Media URLs that could not be downloaded
+}
+
+export interface RestoredMedia {
+    urls: Map<string, string>;      // Source ref to its new URL, or its original URL if it could not be restored
+    skipped: string[];              // Original URLs of media that could not be restored
+}
+
+export type AlbumImportResult =
+    | {
+        status: 'imported';
+        albumId: string;
+        title: string;
+        mediaCount: number;
+        skippedMedia: string[];     // Original URLs of media that could not be restored
+        missingLayouts: string[];   // Layout names this database does not have
+        fromVersion: number;        // Archive format before migration
+    }
+    | { status: 'error'; error: string };
+
+/**
+ * Media to upload on import: a file inside the archive, or a URL the
+ * archive only references (older formats, or files missing at export).
+ */
+export interface ArchiveMediaSource {
+    ref: string;                // Value in the manifest album to replace
+    url: string;                // Original location, kept when the file cannot be restored
+    data?: Uint8Array;
+    contentType?: string;
+}
+
+function videoUrlsOf(album: UnifiedAlbum) {
+    return new Set([
+        ...album.pages.flatMap(page => page.assets),
+        ...((album.config.masterPages || []) as UnifiedMasterPage[]).flatMap(master => master.assets),
+    ].filter(asset => asset.type === 'video' && asset.url).map(asset => asset.url!));
+}
+
+function mediaKind(url: string, videoUrls: Set<string>): 'image' | 'video' {
+    return videoUrls.has(url) || VIDEO_EXTENSIONS.test(url) ? 'video' : 'image';
+}
+
+function download(data: Uint8Array<ArrayBuffer>, fileName: string) {
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/zip' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+export class AlbumArchiveService {
+    /**
+     * album_layouts rows the pages were built from, by name.
+     */
+    static async fetchLayouts(names: string[]): Promise<AlbumArchiveLayout[]> {
+        if (names.length === 0) return [];
+        const { data, error } = await supabase
+            .from('album_layouts')
+            .select('id, name, category, image_count, aspect_ratio, is_spread, config')
+            .in('name', names);
+
+        if (error) {
+            console.error('Failed to load album layouts:', error);
+            return [];
+        }
+        return data || [];
+    }
+
+    /**
+     * Download the album as `<title>_Backup.zip`. Media that cannot be
+     * downloaded keeps its URL in the manifest and is returned.
+     */
+    static async exportAlbum(albumId: string): Promise<AlbumArchiveExportResult | null> {
+        try {
+            const album = await AlbumDataService.fetchAlbum(albumId);
+            if (!album) return null;
+
+            const urls = collectAlbumMediaUrls(album);
+            const videoUrls = videoUrlsOf(album);
+            const media: AlbumArchiveMedia[] = [];
+            const files: ZipEntry[] = [];
+            const missing: string[] = [];
+
+            for (let i = 0; i < urls.length; i += ARCHIVE_BATCH_SIZE) {
+                const batch = urls.slice(i, i + ARCHIVE_BATCH_SIZE);
+                const loaded = await Promise.all(batch.map(url => loadArchiveFile(url)));
+                batch.forEach((url, j) => {
+                    const file = loaded[j];
+                    if (!file) {
+                        missing.push(url);
+                        return;
+                    }
+                    const path = `media/${String(i + j + 1).padStart(4, '0')}.${archiveExtension(file.type, url, mediaKind(url, videoUrls))}`;
+                    media.push({ path, url, contentType: file.type, size: file.data.length });
+                    files.push({ path, data: file.data });
+                });
+            }
+
+            const layouts = await this.fetchLayouts(collectAlbumLayoutRefs(album));
+            const manifest = buildAlbumManifest(album, media, layouts);
+            const zip = createZip([{ path: ALBUM_ARCHIVE_MANIFEST, data: JSON.stringify(manifest, null, 2) }, ...files]);
+
+            download(zip, `${(album.title || 'Album').replace(/\s+/g, '_')}_Backup.zip`);
+            return { mediaCount: media.length, missing };
+        } catch (error) {
+            console.error('Error exporting album archive:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Upload one media file into the family's storage; null when the file
+     * is neither in the archive nor downloadable.
+     */
+    static async restoreMedia(source: ArchiveMediaSource, familyId: string, kind: 'image' | 'video', index: number): Promise<string | null> {
+        let data = source.data;
+        let type = source.contentType || '';
+        if (!data) {
+            const file = await loadArchiveFile(source.url);
+            if (!file) return null;
+            data = file.data;
+            type = file.type;
+        }
+
+        const extension = archiveExtension(type, source.data ? source.ref : source.url, kind);
+        const key = `mediaItems/${familyId}/imported/${Date.now()}_${String(index + 1).padStart(4, '0')}.${extension}`;
+        try {
+            return await CloudflareR2Service.uploadBytes(data, key, type || `${kind}/${extension}`);
+        } catch (error) {
+            console.error('Failed to upload imported media:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Upload media sources in batches. Files that cannot be restored keep
+     * their original URL, which may still load.
+     */
+    static async restoreMediaFiles(
+        sources: ArchiveMediaSource[],
+        familyId: string,
+        videoUrls: Set<string>,
+        onProgress?: (done: number, total: number) => void
+    ): Promise<RestoredMedia> {
+        const urls = new Map<string, string>();
+        const skipped: string[] = [];
+
+        for (let i = 0; i < sources.length; i += ARCHIVE_BATCH_SIZE) {
+            const batch = sources.slice(i, i + ARCHIVE_BATCH_SIZE);
+            const restored = await Promise.all(batch.map((source, j) =>
+                this.restoreMedia(source, familyId, mediaKind(source.url, videoUrls), i + j)
+            ));
+            batch.forEach((source, j) => {
+                const url = restored[j];
+                if (!url) skipped.push(source.url);
+                urls.set(source.ref, url || source.url);
+            });
+            onProgress?.(Math.min(i + ARCHIVE_BATCH_SIZE, sources.length), sources.length);
+        }
+        return { urls, skipped };
+    }
+
+    /**
+     * Create an album of `familyId` from archived album data whose media URLs
+     * already point at the family's storage. Ids are reassigned; `eventId`
+     * links it to an event restored alongside it.
+     */
+    static async restoreAlbum(
+        archived: UnifiedAlbum,
+        familyId: string,
+        creatorId?: string,
+        eventId?: string
+    ): Promise<{ albumId?: string; error?: string }> {
+        const { data, error } = await supabase
+            .from('albums')
+            .insert({
+                family_id: familyId,
+                creator_id: creatorId,
+                event_id: eventId || null,
+                title: archived.title,
+                config: {},
+                is_published: false,
+                total_pages: 0,
+            })
+            .select('id, created_at, updated_at')
+            .single();
+
+        if (error || !data) {
+            console.error('Failed to create restored album:', error);
+            return { error: 'Could not create the album' };
+        }
+
+        const album = reassignAlbumIds(archived, {
+            id: data.id,
+            familyId,
+            creatorId,
+            createdAt: data.created_at,
+            updatedAt: data.updated_at || data.created_at,
+        });
+        album.eventId = eventId;
+
+        const saved = await AlbumDataService.saveAlbum(album);
+        if (saved.status !== 'saved') {
+            await AlbumDataService.deleteAlbum(data.id);
+            return { error: saved.status === 'error' ? saved.error : 'Could not save the album pages' };
+        }
+        return { albumId: data.id };
+    }
+
+    /**
+     * Recreate an archived album in `familyId`. Accepts a backup zip, or
+     * album JSON from older versions whose media is downloaded from its
+     * original URLs.
+     */
+    static async importAlbum(file: Blob, familyId: string, creatorId?: string): Promise<AlbumImportResult> {
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+            const files = isZip ? await readZip(bytes) : new Map([[ALBUM_ARCHIVE_MANIFEST, bytes]]);
+            const manifestData = files.get(ALBUM_ARCHIVE_MANIFEST);
+            if (!manifestData) return { status: 'error', error: 'The archive has no manifest.json' };
+
+            const { manifest, fromVersion } = migrateAlbumArchive(JSON.parse(new TextDecoder().decode(manifestData)));
+            const archived = new Set(manifest.media.map(item => item.path));
+            const sources: ArchiveMediaSource[] = [
+                ...manifest.media.map(item => ({ ref: item.path, url: item.url, data: files.get(item.path), contentType: item.contentType })),
+                ...collectAlbumMediaUrls(manifest.album).filter(url => !archived.has(url)).map(url => ({ ref: url, url })),
+            ];
+
+            const originalUrls = new Map(manifest.media.map(item => [item.path, item.url]));
+            const videoUrls = videoUrlsOf(replaceAlbumUrls(manifest.album, originalUrls));
+            const { urls, skipped: skippedMedia } = await this.restoreMediaFiles(sources, familyId, videoUrls);
+
+            const layoutNames = collectAlbumLayoutRefs(manifest.album);
+            const available = new Set((await this.fetchLayouts(layoutNames)).map(layout => layout.name));
+            const missingLayouts = layoutNames.filter(name => !available.has(name));
+
+            const restored = await this.restoreAlbum(replaceAlbumUrls(manifest.album, urls), familyId, creatorId);
+            if (!restored.albumId) return { status: 'error', error: restored.error || 'Could not create the album' };
+
+            return {
+                status: 'imported',
+                albumId: restored.albumId,
+                title: manifest.album.title,
+                mediaCount: sources.length - skippedMedia.length,
+                skippedMedia,
+                missingLayouts,
+                fromVersion,
+            };
+        } catch (error) {
+            console.error('Error importing album archive:', error);
+            return { status: 'error', error: error instanceof Error ? error.message : 'Failed to import album' };
+        }
+    }
+}
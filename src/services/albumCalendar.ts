@@ -0,0 +1,252 @@
+/**
+ * Album Calendar Service
+ *
+ * Creates a printable wall calendar as an unpublished album: the month
+ * photos come from event assets, stack items and family_media taken in
+ * each month of earlier years, the marked days from the family's events.
+ * The pages are built by buildCalendarPages and saved like any editor
+ * save, so the calendar is tweaked in the album editor and printed through
+ * the album print pipeline.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+import { AlbumDataService } from './albumDataService';
+import { contextPageToUnifiedPage } from '../lib/albumAdapters';
+import { buildCalendarPages, calendarMarkKind, type CalendarMark } from '../lib/albumCalendar';
+import type { DraftMedia } from '../lib/albumDraft';
+import type { AlbumConfig } from '../contexts/AlbumContext';
+import type { UnifiedAlbum } from '../types/album';
+
+export interface CalendarAlbumRequest {
+    familyId: string;
+    creatorId?: string;
+    title?: string;
+    year: number;
+    startMonth?: number;        // 0-11, defaults to January
+    includeCover?: boolean;     // Defaults to true
+    weekStartsOn?: 0 | 1;
+    size?: string;              // Paper size key, as picked in CreateAlbumModal
+    dimensions: AlbumConfig['dimensions'];
+}
+
+export interface CalendarAlbumResult {
+    albumId: string;
+    pageCount: number;
+    monthsWithPhotos: number;
+    markedDays: number;
+}
+
+// Keeps a large library from being pulled in whole
+const MAX_LIBRARY_MEDIA = 1000;
+
+interface MediaRow {
+    id?: string;
+    url?: string;
+    type?: string;
+}
+
+interface EventRow {
+    id: string;
+    title: string | null;
+    category: string | null;
+    event_date: string | null;
+    content: { assets?: MediaRow[] };
+}
+
+interface StackRow {
+    id: string;
+    event_date: string | null;
+    created_at: string;
+    media_items: MediaRow[] | null;
+}
+
+interface LibraryRow {
+    id: string;
+    url: string | null;
+    created_at: string | null;
+}
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+class CalendarSources {
+    static async events(familyId: string): Promise<EventRow[]> {
+        const { data, error } = await supabase
+            .from('events')
+            .select('id, title, category, event_date, content')
+            .eq('family_id', familyId);
+        if (error) {
+            console.error('Failed to load events for calendar:', error);
+            return [];
+        }
+        return ((data || []) as (Omit<EventRow, 'content'> & { content: unknown })[]).map(event => {
+            let content = event.content;
+            if (typeof content === 'string') {
+                try { content = JSON.parse(content); } catch { content = {}; }
+            }
+            return { ...event, content: (content || {}) as EventRow['content'] };
+        });
+    }
+
+    static eventMedia(events: EventRow[]): DraftMedia[] {
+        return events.flatMap(event => (event.content.assets || [])
+            .filter(a => a?.url && a.type === 'image' && event.event_date)
+            .map((a, index) => ({
+                key: `event:${event.id}:${a.id || index}`,
+                url: a.url!,
+                type: 'image' as const,
+                takenAt: event.event_date!,
+                source: 'event' as const,
+            })));
+    }
+
+    static async stackMedia(familyId: string): Promise<DraftMedia[]> {
+        const { data, error } = await supabase
+            .from('stacks')
+            .select('id, event_date, created_at, media_items')
+            .eq('family_id', familyId);
+        if (error) {
+            console.error('Failed to load stacks for calendar:', error);
+            return [];
+        }
+        return ((data || []) as StackRow[]).flatMap(stack => (stack.media_items || [])
+            .filter(item => item?.url && item.type === 'image')
+            .map((item, index) => ({
+                key: `stack:${stack.id}:${item.id || index}`,
+                url: item.url!,
+                type: 'image' as const,
+                takenAt: stack.event_date || stack.created_at,
+                source: 'stack' as const,
+            })));
+    }
+
+    static async libraryMedia(familyId: string): Promise<DraftMedia[]> {
+        const { data, error } = await supabase
+            .from('family_media')
+            .select('id, url, type, created_at')
+            .eq('family_id', familyId)
+            .eq('type', 'image')
+            .order('created_at', { ascending: false })
+            .limit(MAX_LIBRARY_MEDIA);
+        if (error) {
+            console.error('Failed to load library media for calendar:', error);
+            return [];
+        }
+        return ((data || []) as LibraryRow[])
+            .filter(m => m.url && m.created_at)
+            .map(m => ({
+                key: `library:${m.id}`,
+                url: m.url!,
+                type: 'image' as const,
+                takenAt: m.created_at!,
+                source: 'library' as const,
+            }));
+    }
+
+    static marks(events: EventRow[]): CalendarMark[] {
+        return events
+            .filter(event => event.event_date && event.title)
+            .map(event => ({
+                date: event.event_date!,
+                title: event.title!,
+                kind: calendarMarkKind(event.category, event.title!),
+            }));
+    }
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class AlbumCalendarService {
+    /**
+     * Create the calendar album. Returns null when it could not be saved.
+     */
+    static async createCalendarAlbum(request: CalendarAlbumRequest): Promise<CalendarAlbumResult | null> {
+        try {
+            const [events, stacks, library] = await Promise.all([
+                CalendarSources.events(request.familyId),
+                CalendarSources.stackMedia(request.familyId),
+                CalendarSources.libraryMedia(request.familyId),
+            ]);
+            const marks = CalendarSources.marks(events);
+
+            const startMonth = request.startMonth ?? 0;
+            const title = request.title?.trim() || `Family Calendar ${request.year}`;
+            const pages = buildCalendarPages({
+                title,
+                year: request.year,
+                startMonth,
+                includeCover: request.includeCover ?? true,
+                weekStartsOn: request.weekStartsOn ?? 0,
+                photos: [...CalendarSources.eventMedia(events), ...stacks, ...library],
+                marks,
+            });
+
+            const endMonth = new Date(Date.UTC(request.year, startMonth + 12, 0));
+            const config = {
+                theme: 'classic',
+                dimensions: request.dimensions,
+                size: request.size,
+                startDate: `${request.year}-${String(startMonth + 1).padStart(2, '0')}-01`,
+                endDate: endMonth.toISOString().slice(0, 10),
+                calendar: { year: request.year, startMonth, weekStartsOn: request.weekStartsOn ?? 0 },
+            };
+
+            const { data, error } = await supabase
+                .from('albums')
+                .insert({
+                    family_id: request.familyId,
+                    creator_id: request.creatorId,
+                    title,
+                    category: 'Calendar',
+                    location: '',
+                    country: '',
+                    is_published: false,
+                    config,
+                    total_pages: 0,
+                })
+                .select('*')
+                .single();
+
+            if (error || !data) {
+                console.error('Failed to create calendar album:', error);
+                return null;
+            }
+
+            const photoPages = pages.filter(page => page.layoutTemplate === 'calendar-photo');
+            const album: UnifiedAlbum = {
+                id: data.id,
+                title,
+                familyId: request.familyId,
+                creatorId: request.creatorId,
+                category: data.category || undefined,
+                coverImageUrl: pages[0].assets[0]?.url,
+                config,
+                pages: pages.map(contextPageToUnifiedPage),
+                totalPages: pages.length,
+                isPublished: false,
+                createdAt: data.created_at,
+                updatedAt: data.updated_at || data.created_at,
+            };
+
+            const result = await AlbumDataService.saveAlbum(album);
+            if (result.status !== 'saved') {
+                console.error('Failed to save calendar pages:', result);
+                return null;
+            }
+
+            return {
+                albumId: data.id,
+                pageCount: pages.length,
+                monthsWithPhotos: photoPages.filter(page => page.assets.length > 0).length,
+                markedDays: pages.reduce((sum, page) => sum + (page.textLayers || []).filter(layer => layer.id.includes('-marks-')).length, 0),
+            };
+        } catch (error) {
+            console.error('Error creating calendar album:', error);
+            return null;
+        }
+    }
+}
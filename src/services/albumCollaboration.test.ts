@@ -0,0 +1,224 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Album, Asset, Page } from '../contexts/AlbumContext';
+import { createPatch, patchOperations } from '../lib/albumHistory';
+import { AlbumMergeState, applyAlbumOperation, type AlbumOperation, type AssetPatch, type OperationStamp } from '../lib/albumOperations';
+import { InMemoryCollaborationHub } from './albumCollaboration';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const ALBUM_ID = 'album-1';
+
+function makeAsset(id: string, overrides: Partial<Asset> = {}): Asset {
+    return { id, type: 'image', url: `${id}.jpg`, x: 10, y: 10, width: 30, height: 30, rotation: 0, zIndex: 1, ...overrides };
+}
+
+function makePage(id: string, assets: Asset[] = []): Page {
+    return { id, pageNumber: 0, layoutTemplate: 'freeform', assets, backgroundColor: '#ffffff' };
+}
+
+function makeAlbum(pages: Page[]): Album {
+    return {
+        id: ALBUM_ID,
+        family_id: 'family-1',
+        title: 'Summer',
+        pages: pages.map((p, i) => ({ ...p, pageNumber: i + 1 })),
+        unplacedMedia: [],
+        hashtags: [],
+        config: {
+            dimensions: { width: 1000, height: 700, unit: 'px', bleed: 0, gutter: 0 },
+            useSpreadView: false,
+            gridSettings: { size: 10, snap: false, visible: false },
+        },
+        createdAt: new Date(0),
+        updatedAt: new Date(0),
+        isPublished: false,
+    };
+}
+
+/**
+ * One editor session reduced to what AlbumContext does with the transport:
+ * operations are applied locally and sent, asset edits are stamped when
+ * applied and sent in a batch, remote operations go through the merge state.
+ */
+function joinSession(hub: InMemoryCollaborationHub, clientId: string, album: Album) {
+    const merge = new AlbumMergeState(clientId);
+    const transport = hub.createTransport(ALBUM_ID, clientId);
+    const pending = new Map<string, { pageId: string; assetId: string; updates: AssetPatch; stamps: Record<string, OperationStamp> }>();
+    const session = {
+        album,
+        apply(operation: AlbumOperation) {
+            session.album = applyAlbumOperation(session.album, operation);
+            transport.send(merge.stampLocal(ALBUM_ID, operation));
+        },
+        edit(pageId: string, assetId: string, updates: AssetPatch) {
+            session.album = applyAlbumOperation(session.album, { type: 'updateAsset', pageId, assetId, updates });
+            const stamps = merge.stampFields({ type: 'updateAsset', pageId, assetId, updates });
+            const existing = pending.get(assetId);
+            pending.set(assetId, {
+                pageId,
+                assetId,
+                updates: { ...(existing?.updates || {}), ...updates },
+                stamps: { ...(existing?.stamps || {}), ...stamps },
+            });
+        },
+        flush() {
+            pending.forEach(({ pageId, assetId, updates, stamps }) => {
+                transport.send(merge.stampLocal(ALBUM_ID, { type: 'updateAsset', pageId, assetId, updates, stamps }));
+            });
+            pending.clear();
+        },
+    };
+    transport.connect({
+        onOperation: (envelope) => {
+            const admitted = merge.admitRemote(envelope);
+            if (admitted) session.album = applyAlbumOperation(session.album, admitted);
+        },
+        onPresence: () => {},
+    });
+    return session;
+}
+
+function delivered() {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+function pageIds(album: Album) {
+    return album.pages.map(p => p.id);
+}
+
+function findAsset(album: Album, pageId: string, assetId: string) {
+    return album.pages.find(p => p.id === pageId)?.assets.find(a => a.id === assetId);
+}
+
+describe('co-editing over InMemoryCollaborationHub', () => {
+    it('shares added, duplicated and removed pages', async () => {
+        const hub = new InMemoryCollaborationHub();
+        const album = makeAlbum([makePage('front'), makePage('p1'), makePage('back')]);
+        const a = joinSession(hub, 'a', album);
+        const b = joinSession(hub, 'b', album);
+
+        a.apply({ type: 'addPages', pages: [makePage('p2')], afterId: 'p1' });
+        b.apply({ type: 'addPages', pages: [makePage('p1-copy', [makeAsset('copy-1')])], afterId: 'p1' });
+        await delivered();
+        a.apply({ type: 'removePages', pageIds: ['p2'] });
+        await delivered();
+
+        expect(pageIds(a.album)).toEqual(pageIds(b.album));
+        expect(pageIds(a.album)).toContain('p1-copy');
+        expect(pageIds(a.album)).not.toContain('p2');
+        expect(b.album.pages.map(p => p.pageNumber)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('drops edits to a page another session removed at the same time', async () => {
+        const hub = new InMemoryCollaborationHub();
+        const album = makeAlbum([makePage('front'), makePage('p1', [makeAsset('img')]), makePage('back')]);
+        const a = joinSession(hub, 'a', album);
+        const b = joinSession(hub, 'b', album);
+
+        a.apply({ type: 'removePages', pageIds: ['p1'] });
+        b.apply({ type: 'addAsset', pageId: 'p1', asset: makeAsset('late') });
+        await delivered();
+
+        expect(pageIds(a.album)).toEqual(['front', 'back']);
+        expect(pageIds(b.album)).toEqual(['front', 'back']);
+    });
+
+    it('moves an asset between pages and back again', async () => {
+        const hub = new InMemoryCollaborationHub();
+        const album = makeAlbum([makePage('p1', [makeAsset('img')]), makePage('p2')]);
+        const a = joinSession(hub, 'a', album);
+        const b = joinSession(hub, 'b', album);
+        const moved = makeAsset('img', { x: 50, y: 60 });
+
+        a.apply({ type: 'removeAsset', pageId: 'p1', assetId: 'img' });
+        a.apply({ type: 'addAsset', pageId: 'p2', asset: moved });
+        await delivered();
+        expect(findAsset(b.album, 'p1', 'img')).toBeUndefined();
+        expect(findAsset(b.album, 'p2', 'img')).toMatchObject({ x: 50, y: 60 });
+
+        b.apply({ type: 'removeAsset', pageId: 'p2', assetId: 'img' });
+        b.apply({ type: 'addAsset', pageId: 'p1', asset: makeAsset('img') });
+        await delivered();
+        expect(findAsset(a.album, 'p1', 'img')).toBeDefined();
+        expect(findAsset(a.album, 'p2', 'img')).toBeUndefined();
+        expect(a.album.pages).toEqual(b.album.pages);
+    });
+
+    it('orders a batched edit by when it was applied, not when it was sent', async () => {
+        const hub = new InMemoryCollaborationHub();
+        const album = makeAlbum([makePage('p1', [makeAsset('img')])]);
+        const a = joinSession(hub, 'a', album);
+        const b = joinSession(hub, 'b', album);
+
+        a.edit('p1', 'img', { x: 20 });
+        b.edit('p1', 'img', { x: 80 });
+        b.flush();
+        await delivered();
+        a.flush();
+        await delivered();
+
+        expect(findAsset(a.album, 'p1', 'img')?.x).toBe(80);
+        expect(findAsset(b.album, 'p1', 'img')?.x).toBe(80);
+    });
+
+    it('keeps the newest z-order and slot swap on every session', async () => {
+        const hub = new InMemoryCollaborationHub();
+        const album = makeAlbum([makePage('p1', [makeAsset('one', { slotId: 0 }), makeAsset('two', { slotId: 1 })])]);
+        const a = joinSession(hub, 'a', album);
+        const b = joinSession(hub, 'b', album);
+
+        a.edit('p1', 'one', { slotId: 1 });
+        a.edit('p1', 'two', { slotId: 0 });
+        a.flush();
+        b.edit('p1', 'one', { zIndex: 5 });
+        b.flush();
+        await delivered();
+
+        expect(a.album.pages).toEqual(b.album.pages);
+        expect(findAsset(a.album, 'p1', 'one')).toMatchObject({ slotId: 1, zIndex: 5 });
+    });
+
+    it('undoes a step without erasing a collaborator\'s later edits on the same page', async () => {
+        const hub = new InMemoryCollaborationHub();
+        const album = makeAlbum([makePage('p1', [makeAsset('mine'), makeAsset('theirs')])]);
+        const a = joinSession(hub, 'a', album);
+        const b = joinSession(hub, 'b', album);
+
+        const before = a.album;
+        a.apply({ type: 'updateAsset', pageId: 'p1', assetId: 'mine', updates: { x: 70 } });
+        const patch = createPatch(before, a.album)!;
+        await delivered();
+        b.apply({ type: 'updateAsset', pageId: 'p1', assetId: 'theirs', updates: { rotation: 45 } });
+        b.apply({ type: 'addAsset', pageId: 'p1', asset: makeAsset('new') });
+        await delivered();
+
+        patchOperations(patch, 'undo').forEach(operation => a.apply(operation));
+        await delivered();
+
+        expect(findAsset(b.album, 'p1', 'mine')?.x).toBe(10);
+        expect(findAsset(b.album, 'p1', 'theirs')?.rotation).toBe(45);
+        expect(findAsset(b.album, 'p1', 'new')).toBeDefined();
+        expect(a.album.pages).toEqual(b.album.pages);
+    });
+
+    it('restores a removed page on every session when its removal is undone', async () => {
+        const hub = new InMemoryCollaborationHub();
+        const album = makeAlbum([makePage('front'), makePage('p1', [makeAsset('img')]), makePage('back')]);
+        const a = joinSession(hub, 'a', album);
+        const b = joinSession(hub, 'b', album);
+
+        const before = a.album;
+        a.apply({ type: 'removePages', pageIds: ['p1'] });
+        const patch = createPatch(before, a.album)!;
+        await delivered();
+        b.apply({ type: 'addPages', pages: [makePage('p2')], afterId: 'front' });
+        await delivered();
+
+        patchOperations(patch, 'undo').forEach(operation => a.apply(operation));
+        await delivered();
+
+        expect(pageIds(b.album)).toEqual(['front', 'p1', 'p2', 'back']);
+        expect(a.album.pages).toEqual(b.album.pages);
+        expect(findAsset(b.album, 'p1', 'img')).toBeDefined();
+    });
+});
@@ -0,0 +1,215 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { AlbumOperationEnvelope } from '../lib/albumOperations';
+
+/**
+ * Album Collaboration Service
+ *
+ * Carries album edit operations and presence between editor sessions that
+ * have the same album open. The Supabase Realtime transport is used in the
+ * app; the in-memory hub lets several sessions talk to each other inside a
+ * single page (or a test) without a live Realtime server.
+ */
+
+export interface CollaboratorPresence {
+    clientId: string;
+    userId: string | null;
+    name: string;
+    avatarUrl?: string | null;
+    color: string;
+    pageId: string | null;
+    selectedAssetId: string | null;
+    selectedAssetIds?: string[]; // Full multi-selection; selectedAssetId is the primary item
+    updatedAt: number;
+}
+
+export interface CollaborationHandlers {
+    onOperation: (envelope: AlbumOperationEnvelope) => void;
+    onPresence: (peers: CollaboratorPresence[]) => void;
+}
+
+export interface CollaborationTransport {
+    connect(handlers: CollaborationHandlers): void;
+    send(envelope: AlbumOperationEnvelope): void;
+    updatePresence(presence: CollaboratorPresence): void;
+    disconnect(): void;
+}
+
+export type CollaborationTransportFactory = (albumId: string, clientId: string) => CollaborationTransport;
+
+const PRESENCE_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4d7c0f'];
+
+/**
+ * Stable per-session colour so avatars and soft-lock outlines match.
+ */
+export function presenceColor(clientId: string): string {
+    let hash = 0;
+    for (let i = 0; i < clientId.length; i++) {
+        hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+    }
+    return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+// ============================================================================
+// SUPABASE REALTIME TRANSPORT
+// ============================================================================
+
+export class SupabaseRealtimeTransport implements CollaborationTransport {
+    private channel: RealtimeChannel | null = null;
+    private presence: CollaboratorPresence | null = null;
+    private subscribed = false;
+    private readonly albumId: string;
+    private readonly clientId: string;
+
+    constructor(albumId: string, clientId: string) {
+        this.albumId = albumId;
+        this.clientId = clientId;
+    }
+
+    connect(handlers: CollaborationHandlers) {
+        const channel = supabase.channel(`album-edit:${this.albumId}`, {
+            config: {
+                broadcast: { self: false },
+                presence: { key: this.clientId },
+            },
+        });
+
+        channel
+            .on('broadcast', { event: 'op' }, ({ payload }) => {
+                handlers.onOperation(payload as AlbumOperationEnvelope);
+            })
+            .on('presence', { event: 'sync' }, () => {
+                const state = channel.presenceState<CollaboratorPresence>();
+                const peers = Object.values(state)
+                    .map(entries => entries[entries.length - 1])
+                    .filter(p => p && p.clientId !== this.clientId);
+                handlers.onPresence(peers);
+            })
+            .subscribe(status => {
+                if (status === 'SUBSCRIBED') {
+                    this.subscribed = true;
+                    if (this.presence) channel.track(this.presence);
+                }
+            });
+
+        this.channel = channel;
+    }
+
+    send(envelope: AlbumOperationEnvelope) {
+        if (!this.channel) return;
+        this.channel.send({ type: 'broadcast', event: 'op', payload: envelope });
+    }
+
+    updatePresence(presence: CollaboratorPresence) {
+        this.presence = presence;
+        if (this.channel && this.subscribed) this.channel.track(presence);
+    }
+
+    disconnect() {
+        if (this.channel) {
+            this.channel.untrack();
+            supabase.removeChannel(this.channel);
+        }
+        this.channel = null;
+        this.subscribed = false;
+    }
+}
+
+export const supabaseTransportFactory: CollaborationTransportFactory =
+    (albumId, clientId) => new SupabaseRealtimeTransport(albumId, clientId);
+
+// ============================================================================
+// IN-MEMORY TRANSPORT
+// ============================================================================
+
+/**
+ * Local stand-in for Supabase Realtime. Every transport created from the same
+ * hub for the same album receives the others' operations and presence.
+ * Delivery is asynchronous (microtask) to mimic a network hop.
+ */
+export class InMemoryCollaborationHub {
+    private rooms = new Map<string, Set<InMemoryTransport>>();
+
+    createTransport(albumId: string, clientId: string): CollaborationTransport {
+        return new InMemoryTransport(this, albumId, clientId);
+    }
+
+    get factory(): CollaborationTransportFactory {
+        return (albumId, clientId) => this.createTransport(albumId, clientId);
+    }
+
+    /** @internal */
+    join(transport: InMemoryTransport) {
+        const room = this.rooms.get(transport.albumId) || new Set<InMemoryTransport>();
+        room.add(transport);
+        this.rooms.set(transport.albumId, room);
+        this.syncPresence(transport.albumId);
+    }
+
+    /** @internal */
+    leave(transport: InMemoryTransport) {
+        this.rooms.get(transport.albumId)?.delete(transport);
+        this.syncPresence(transport.albumId);
+    }
+
+    /** @internal */
+    broadcast(from: InMemoryTransport, envelope: AlbumOperationEnvelope) {
+        const payload = JSON.parse(JSON.stringify(envelope)) as AlbumOperationEnvelope;
+        this.rooms.get(from.albumId)?.forEach(peer => {
+            if (peer !== from) queueMicrotask(() => peer.deliver(payload));
+        });
+    }
+
+    /** @internal */
+    syncPresence(albumId: string) {
+        const room = this.rooms.get(albumId);
+        if (!room) return;
+        room.forEach(transport => {
+            const peers = Array.from(room)
+                .filter(other => other !== transport && other.presence)
+                .map(other => other.presence as CollaboratorPresence);
+            queueMicrotask(() => transport.deliverPresence(peers));
+        });
+    }
+}
+
+class InMemoryTransport implements CollaborationTransport {
+    presence: CollaboratorPresence | null = null;
+    private handlers: CollaborationHandlers | null = null;
+    private readonly hub: InMemoryCollaborationHub;
+    readonly albumId: string;
+    readonly clientId: string;
+
+    constructor(hub: InMemoryCollaborationHub, albumId: string, clientId: string) {
+        this.hub = hub;
+        this.albumId = albumId;
+        this.clientId = clientId;
+    }
+
+    connect(handlers: CollaborationHandlers) {
+        this.handlers = handlers;
+        this.hub.join(this);
+    }
+
+    send(envelope: AlbumOperationEnvelope) {
+        if (this.handlers) this.hub.broadcast(this, envelope);
+    }
+
+    updatePresence(presence: CollaboratorPresence) {
+        this.presence = presence;
+        if (this.handlers) this.hub.syncPresence(this.albumId);
+    }
+
+    disconnect() {
+        this.handlers = null;
+        this.hub.leave(this);
+    }
+
+    deliver(envelope: AlbumOperationEnvelope) {
+        this.handlers?.onOperation(envelope);
+    }
+
+    deliverPresence(peers: CollaboratorPresence[]) {
+        this.handlers?.onPresence(peers);
+    }
+}
@@ -13,6 +13,7 @@
 
 import { supabase as libSupabase } from '../lib/supabase';
 const supabase = libSupabase as any;
+import _ from 'lodash';
 import {
     type UnifiedAlbum,
     type UnifiedPage,
@@ -24,10 +25,17 @@ import {
     type LayoutSlot,
     getDefaultZIndex,
     type AssetType,
+    type AlbumVersionStamp,
+    type DivergedPage,
+    type SaveAlbumResult,
 } from '../types/album';
 import type { Database } from '../types/supabase';
 
 type AlbumPageRow = Database['public']['Tables']['album_pages']['Row'];
+type AlbumRow = Database['public']['Tables']['albums']['Row'];
+
+// Saves that lose the version race to another session before giving up
+const MAX_SAVE_ATTEMPTS = 3;
 
 // ============================================================================
 // SCHEMA DETECTION
@@ -45,6 +53,7 @@ class SchemaDetector {
             hasAlbumPages: false,
             hasLegacyPages: false,
             hasLayoutJson: false,
+            hasVersionStamps: false,
             version: 'legacy',
         };
 
@@ -66,6 +75,14 @@ class SchemaDetector {
 
             version.hasLegacyPages = !pError;
 
+            // Test optimistic concurrency columns
+            const { error: vError } = await supabase
+                .from('albums')
+                .select('version')
+                .limit(1);
+
+            version.hasVersionStamps = !vError;
+
             // Determine version
             if (version.hasAlbumPages && version.hasLegacyPages) {
                 version.version = 'hybrid';
@@ -245,16 +262,23 @@ class UnifiedAdapter {
             layoutSlots = layoutJson.slots;
         }
 
+        const masterPageId: string | undefined = !Array.isArray(layoutJson) ? layoutJson?.masterPageId || undefined : undefined;
+
         // Sort by z-index
         assets.sort((a, b) => a.zIndex - b.zIndex);
 
         return {
+            id: pageData.page_id,
             pageNumber: pageData.page_number,
             background: backgroundConfig || { type: 'color', color: '#ffffff' },
             layoutTemplate: pageData.layout_template || undefined,
             layoutSlots,
             isSpreadLayout: layoutJson?.isSpreadLayout || false,
+            section: !Array.isArray(layoutJson) ? layoutJson?.section || undefined : undefined,
+            masterPageId,
+            masterOverrides: masterPageId ? layoutJson.masterOverrides : undefined,
             assets,
+            version: pageData.version,
             updatedAt: pageData.updated_at,
         };
     }
@@ -289,9 +313,15 @@ class UnifiedAdapter {
         albumId: string,
         page: UnifiedPage
     ): Partial<AlbumPageRow> {
-        // If we have layout slots or special layout status, save in an object
-        const layoutJson = (page.layoutSlots && page.layoutSlots.length > 0) || page.isSpreadLayout
-            ? { assets: page.assets, slots: page.layoutSlots, isSpreadLayout: page.isSpreadLayout }
+        // If we have layout slots, special layout status, a section or a master page, save in an object
+        const layoutJson = (page.layoutSlots && page.layoutSlots.length > 0) || page.isSpreadLayout || page.section || page.masterPageId
+            ? {
+                assets: page.assets,
+                slots: page.layoutSlots,
+                isSpreadLayout: page.isSpreadLayout,
+                ...(page.section ? { section: page.section } : {}),
+                ...(page.masterPageId ? { masterPageId: page.masterPageId, masterOverrides: page.masterOverrides } : {}),
+            }
             : page.assets;
 
         return {
@@ -304,6 +334,100 @@ class UnifiedAdapter {
     }
 }
 
+// ============================================================================
+// VERSION GUARD
+// ============================================================================
+
+class VersionGuard {
+    /**
+     * Compare a page we are about to write with the stored row.
+     * Our side is round-tripped through JSON so undefined fields match jsonb.
+     */
+    static sameContent(local: Partial<AlbumPageRow>, remote: AlbumPageRow): boolean {
+        const normalize = (value: unknown) => JSON.parse(JSON.stringify(value ?? null));
+        return _.isEqual(normalize(local.layout_json), remote.layout_json ?? null) &&
+            _.isEqual(normalize(local.background_config), remote.background_config ?? null) &&
+            (local.layout_template ?? null) === (remote.layout_template ?? null);
+    }
+
+    /**
+     * Pages another session changed since our base stamp, matched by page id
+     * so inserting or removing a page does not shift the pages after it.
+     * Pages where both sessions ended up with the same content are skipped,
+     * so co-editors who already converged never see a conflict.
+     */
+    static findDivergedPages(
+        base: AlbumVersionStamp,
+        remoteRows: AlbumPageRow[],
+        localRows: Partial<AlbumPageRow>[]
+    ): DivergedPage[] {
+        const remoteById = new Map(remoteRows.map(row => [row.page_id as string, row]));
+        const localById = new Map(localRows.map(row => [row.page_id as string, row]));
+        const pageIds = new Set([
+            ...Object.keys(base.pages),
+            ...remoteById.keys(),
+        ]);
+
+        const diverged: DivergedPage[] = [];
+        pageIds.forEach(pageId => {
+            const baseVersion = base.pages[pageId];
+            const remote = remoteById.get(pageId);
+            const local = localById.get(pageId);
+
+            let change: DivergedPage['change'];
+            if (remote && baseVersion === undefined) {
+                change = 'added';
+            } else if (!remote && baseVersion !== undefined) {
+                change = 'removed';
+            } else if (remote && (remote.version ?? 1) !== baseVersion) {
+                change = 'modified';
+            } else {
+                return;
+            }
+
+            const converged = change === 'removed'
+                ? !local
+                : !!local && !!remote && this.sameContent(local, remote);
+            if (converged) return;
+
+            diverged.push({
+                pageId,
+                pageNumber: (local?.page_number ?? remote?.page_number) as number,
+                change,
+                baseVersion,
+                remoteVersion: remote?.version ?? undefined,
+            });
+        });
+
+        return diverged.sort((a, b) => a.pageNumber - b.pageNumber);
+    }
+
+    /**
+     * Unchanged pages keep their stored version; changed or new pages take
+     * the album version being written.
+     */
+    static stampPages(
+        localRows: Partial<AlbumPageRow>[],
+        remoteRows: AlbumPageRow[],
+        nextVersion: number
+    ): Record<string, number> {
+        const remoteById = new Map(remoteRows.map(row => [row.page_id as string, row]));
+        const pages: Record<string, number> = {};
+        localRows.filter(row => row.page_id).forEach(row => {
+            const pageId = row.page_id as string;
+            const remote = remoteById.get(pageId);
+            pages[pageId] = remote && this.sameContent(row, remote) ? (remote.version ?? 1) : nextVersion;
+        });
+        return pages;
+    }
+
+    static stampFromRows(albumVersion: number, rows: AlbumPageRow[]): AlbumVersionStamp {
+        const pages: Record<string, number> = {};
+        rows.forEach(row => { pages[row.page_id as string] = row.version ?? 1; });
+        return { album: albumVersion, pages };
+    }
+}
+
 // ============================================================================
 // ALBUM DATA SERVICE
 // ============================================================================
@@ -379,43 +503,138 @@ export class AlbumDataService {
                 }
             }
 
-            // Build unified album
-            const album: UnifiedAlbum = {
-                id: albumData.id,
-                title: albumData.title,
-                description: albumData.description || undefined,
-                familyId: albumData.family_id,
-                creatorId: albumData.creator_id || undefined,
-                eventId: albumData.event_id || undefined,
-                category: albumData.category || undefined,
-                coverImageUrl: albumData.cover_image_url || undefined,
-                location: albumData.location || undefined,
-                country: albumData.country || undefined,
-                geotag: albumData.geotag as any,
-                hashtags: albumData.hashtags || undefined,
-                config: (albumData.config as any) || {},
-                pages,
-                totalPages: albumData.total_pages || pages.length,
-                isPublished: albumData.is_published,
-                createdAt: albumData.created_at,
-                updatedAt: albumData.updated_at,
-            };
-
-            return album;
+            return this.toUnifiedAlbum(albumData, pages);
         } catch (error) {
             console.error('Error fetching album:', error);
             return null;
         }
     }
 
+    /**
+     * Build an album from its albums row and already converted pages.
+     */
+    private static toUnifiedAlbum(albumData: AlbumRow, pages: UnifiedPage[]): UnifiedAlbum {
+        return {
+            id: albumData.id,
+            title: albumData.title,
+            description: albumData.description || undefined,
+            familyId: albumData.family_id,
+            creatorId: albumData.creator_id || undefined,
+            eventId: albumData.event_id || undefined,
+            category: albumData.category || undefined,
+            coverImageUrl: albumData.cover_image_url || undefined,
+            location: albumData.location || undefined,
+            country: albumData.country || undefined,
+            geotag: albumData.geotag as any,
+            hashtags: albumData.hashtags || undefined,
+            config: (albumData.config as any) || {},
+            pages,
+            totalPages: albumData.total_pages || pages.length,
+            isPublished: albumData.is_published,
+            version: albumData.version,
+            createdAt: albumData.created_at,
+            updatedAt: albumData.updated_at,
+        };
+    }
+
+    /**
+     * Build an album from the rows get_shared_album answers with for a live
+     * share link, which guests cannot read from the tables themselves.
+     */
+    static fromSharedRows(albumData: AlbumRow, pageRows: AlbumPageRow[]): UnifiedAlbum {
+        return this.toUnifiedAlbum(albumData, pageRows.map(p => UnifiedAdapter.convertUnifiedPageData(p)));
+    }
+
+    /**
+     * Version stamp for an album as loaded by fetchAlbum.
+     * Returns null when the database has no version columns yet.
+     */
+    static versionStamp(album: UnifiedAlbum): AlbumVersionStamp | null {
+        if (album.version === undefined || album.version === null) return null;
+        const pages: Record<string, number> = {};
+        album.pages.forEach(page => {
+            if (page.id) pages[page.id] = page.version ?? 1;
+        });
+        return { album: album.version, pages };
+    }
+
     /**
      * Save album (writes to unified schema, maintains legacy for compatibility)
      * CRITICAL: Includes migration logic to preserve existing data
+     *
+     * When a base stamp is given the save is rejected with a SaveConflict if
+     * another session saved pages we have not seen since that stamp. A save
+     * that loses the race to another one is retried a few times; attempt
+     * counts those retries.
      */
-    static async saveAlbum(album: UnifiedAlbum): Promise<boolean> {
+    static async saveAlbum(album: UnifiedAlbum, base?: AlbumVersionStamp | null, attempt = 1): Promise<SaveAlbumResult> {
         try {
+            const schema = await SchemaDetector.detect();
+            const unifiedPages = album.pages.map((page) =>
+                UnifiedAdapter.convertToUnifiedFormat(album.id, page)
+            );
+
+            const versioned = schema.hasVersionStamps && schema.hasAlbumPages;
+            let expectedVersion: number | undefined;
+            let stamp: AlbumVersionStamp | undefined;
+
+            if (versioned) {
+                const { data: remoteAlbum, error: versionError } = await supabase
+                    .from('albums')
+                    .select('version')
+                    .eq('id', album.id)
+                    .single();
+
+                const { data: remoteRows, error: rowsError } = await supabase
+                    .from('album_pages')
+                    .select('*')
+                    .eq('album_id', album.id);
+
+                if (versionError || rowsError || !remoteAlbum) {
+                    console.error('Failed to read album versions:', versionError || rowsError);
+                    return { status: 'error', error: 'Failed to check album version' };
+                }
+
+                const rows = (remoteRows || []) as AlbumPageRow[];
+                const remoteVersion: number = remoteAlbum.version ?? 1;
+
+                // Pages without an id yet (new albums from other sources) get one from the database
+                unifiedPages.forEach((row, index) => {
+                    const pageId = album.pages[index].id;
+                    if (pageId) row.page_id = pageId;
+                });
+                expectedVersion = remoteVersion;
+
+                if (base && remoteVersion !== base.album) {
+                    const diverged = VersionGuard.findDivergedPages(base, rows, unifiedPages);
+                    if (diverged.length > 0) {
+                        const theirs = await this.fetchAlbum(album.id);
+                        if (!theirs) return { status: 'error', error: 'Failed to load the latest album version' };
+
+                        return {
+                            status: 'conflict',
+                            conflict: {
+                                albumId: album.id,
+                                baseVersion: base.album,
+                                remoteVersion,
+                                pages: diverged,
+                                theirs,
+                                remoteStamp: VersionGuard.stampFromRows(remoteVersion, rows),
+                            },
+                        };
+                    }
+                }
+
+                const nextVersion = remoteVersion + 1;
+                const pageVersions = VersionGuard.stampPages(unifiedPages, rows, nextVersion);
+                unifiedPages.forEach(row => {
+                    if (row.page_id) row.version = pageVersions[row.page_id];
+                });
+                stamp = { album: nextVersion, pages: pageVersions };
+            }
+
             // Update album metadata
-            const { error: albumError } = await supabase
+            let albumUpdate = supabase
                 .from('albums')
                 .update({
                     title: album.title,
@@ -430,40 +649,62 @@ export class AlbumDataService {
                     is_published: album.isPublished,
                     total_pages: album.pages.length,
                     updated_at: new Date().toISOString(),
+                    ...(stamp ? { version: stamp.album } : {}),
                 })
                 .eq('id', album.id);
 
+            if (versioned) {
+                albumUpdate = albumUpdate.eq('version', expectedVersion);
+            }
+
+            const { data: updatedRows, error: albumError } = await albumUpdate.select('id');
+
             if (albumError) {
                 console.error('Failed to update album:', albumError);
-                return false;
+                return { status: 'error', error: 'Failed to save album' };
             }
 
-            // Save pages to unified schema
-            const schema = await SchemaDetector.detect();
+            if (versioned && (!updatedRows || updatedRows.length === 0)) {
+                // Either another save landed between the version check and
+                // the write, or the row cannot be written at all (deleted, or
+                // not ours to change), in which case the version stays put
+                const { data: current } = await supabase
+                    .from('albums')
+                    .select('version')
+                    .eq('id', album.id)
+                    .maybeSingle();
+
+                const moved = !!current && (current.version ?? 1) !== expectedVersion;
+                if (!moved || attempt >= MAX_SAVE_ATTEMPTS) {
+                    console.error('Album update matched no rows', { albumId: album.id, expectedVersion, attempt });
+                    return {
+                        status: 'error',
+                        error: moved ? 'The album keeps changing, please try saving again' : 'The album could not be saved',
+                    };
+                }
+                return this.saveAlbum(album, base, attempt + 1);
+            }
 
+            // Save pages to unified schema
             if (schema.hasAlbumPages) {
                 // Delete existing pages
                 await supabase.from('album_pages').delete().eq('album_id', album.id);
 
                 // Insert new pages
-                const unifiedPages = album.pages.map((page) =>
-                    UnifiedAdapter.convertToUnifiedFormat(album.id, page)
-                );
-
                 const { error: pagesError } = await supabase
                     .from('album_pages')
                     .insert(unifiedPages as any);
 
                 if (pagesError) {
                     console.error('Failed to save pages:', pagesError);
-                    return false;
+                    return { status: 'error', error: 'Failed to save pages' };
                 }
             }
 
-            return true;
+            return { status: 'saved', stamp };
         } catch (error) {
             console.error('Error saving album:', error);
-            return false;
+            return { status: 'error', error: error instanceof Error ? error.message : 'Failed to save album' };
         }
     }
 
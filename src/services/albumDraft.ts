@@ -0,0 +1,335 @@
+/**
+ * Album Draft Service
+ *
+ * Generates a draft album from an event and/or a date range. Media comes
+ * from the event's content.assets, stacks linked to it (same date range or
+ * a shared hashtag) and family_media uploaded in the range; the pages are
+ * built by buildDraftPages and saved like any editor save.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+import { AlbumDataService } from './albumDataService';
+import { contextPageToUnifiedPage } from '../lib/albumAdapters';
+import { buildDraftPages, orderDraftMedia, type DraftLayout, type DraftMedia } from '../lib/albumDraft';
+import type { AlbumConfig } from '../contexts/AlbumContext';
+import type { UnifiedAlbum } from '../types/album';
+import type { Database } from '../types/supabase';
+
+type EventRow = Database['public']['Tables']['events']['Row'];
+type StackRow = Database['public']['Tables']['stacks']['Row'];
+type FamilyMediaRow = Database['public']['Tables']['family_media']['Row'];
+
+/**
+ * A photo or video as kept in events.content.assets and stacks.media_items.
+ */
+interface SourceMediaItem {
+    id?: string;
+    url?: string;
+    type?: string;
+    caption?: string;
+}
+
+/**
+ * An event with its content parsed.
+ */
+export type DraftEvent = Omit<EventRow, 'content'> & { content: { assets?: SourceMediaItem[] } };
+
+export interface DraftAlbumRequest {
+    familyId: string;
+    creatorId?: string;
+    eventId?: string;
+    startDate?: string;         // YYYY-MM-DD; defaults to the event's day
+    endDate?: string;
+    title?: string;             // Defaults to the event title
+    category?: string;
+    location?: string;
+    country?: string;
+    geotag?: { lat: number; lng: number } | null;
+    dimensions?: AlbumConfig['dimensions'];
+}
+
+export interface DraftAlbumResult {
+    albumId: string;
+    pageCount: number;
+    mediaCount: number;
+}
+
+// Keeps a wide date range from pulling in the whole library
+const MAX_LIBRARY_MEDIA = 200;
+
+const PROBE_BATCH_SIZE = 8;
+const PROBE_TIMEOUT_MS = 8000;
+
+const DEFAULT_DIMENSIONS: AlbumConfig['dimensions'] = { width: 1000, height: 707, unit: 'px', bleed: 25, gutter: 40 };
+
+function isDraftable(item: SourceMediaItem | null | undefined): item is SourceMediaItem & { url: string; type: 'image' | 'video' } {
+    return !!item?.url && (item.type === 'image' || item.type === 'video');
+}
+
+// ============================================================================
+// MEDIA SOURCES
+// ============================================================================
+
+export class DraftSources {
+    static async loadEvent(eventId: string): Promise<DraftEvent | null> {
+        const { data, error } = await supabase.from('events').select('*').eq('id', eventId).single();
+        if (error || !data) {
+            console.error('Failed to load event for draft:', error);
+            return null;
+        }
+        const row = data as EventRow;
+        let content = row.content;
+        if (typeof content === 'string') {
+            try { content = JSON.parse(content); } catch { content = {}; }
+        }
+        return { ...row, content: (content || {}) as DraftEvent['content'] };
+    }
+
+    static eventMedia(event: DraftEvent): DraftMedia[] {
+        const assets = event.content?.assets || [];
+        return assets
+            .filter(isDraftable)
+            .map((a, index) => ({
+                key: `event:${event.id}:${a.id || index}`,
+                url: a.url,
+                type: a.type,
+                takenAt: event.event_date,
+                source: 'event' as const,
+                caption: a.caption,
+            }));
+    }
+
+    static async stackMedia(familyId: string, range: { start: string; end: string }, hashtags: string[]): Promise<DraftMedia[]> {
+        const inRange = supabase
+            .from('stacks')
+            .select('*')
+            .eq('family_id', familyId)
+            .gte('event_date', range.start)
+            .lt('event_date', range.end);
+        const tagged = hashtags.length > 0
+            ? supabase.from('stacks').select('*').eq('family_id', familyId).overlaps('hashtags', hashtags)
+            : Promise.resolve({ data: [] });
+
+        const [byDate, byTag] = await Promise.all([inRange, tagged]);
+        if (byDate.error) console.error('Failed to load stacks for draft:', byDate.error);
+
+        const stacks = new Map<string, StackRow>();
+        ([...(byDate.data || []), ...(byTag.data || [])] as StackRow[]).forEach(s => stacks.set(s.id, s));
+
+        return Array.from(stacks.values()).flatMap(stack =>
+            (Array.isArray(stack.media_items) ? stack.media_items as SourceMediaItem[] : [])
+                .filter(isDraftable)
+                .map((item, index) => ({
+                    key: `stack:${stack.id}:${item.id || index}`,
+                    url: item.url,
+                    type: item.type,
+                    takenAt: stack.event_date || stack.created_at,
+                    source: 'stack' as const,
+                    caption: item.caption,
+                }))
+        );
+    }
+
+    static async libraryMedia(familyId: string, range: { start: string; end: string }): Promise<DraftMedia[]> {
+        const { data, error } = await supabase
+            .from('family_media')
+            .select('id, url, type, created_at')
+            .eq('family_id', familyId)
+            .gte('created_at', range.start)
+            .lt('created_at', range.end)
+            .order('created_at', { ascending: true })
+            .limit(MAX_LIBRARY_MEDIA);
+
+        if (error) {
+            console.error('Failed to load library media for draft:', error);
+            return [];
+        }
+        return ((data || []) as Pick<FamilyMediaRow, 'id' | 'url' | 'type' | 'created_at'>[])
+            .filter(isDraftable)
+            .map(m => ({
+                key: `library:${m.id}`,
+                url: m.url,
+                type: m.type,
+                takenAt: m.created_at,
+                source: 'library' as const,
+            }));
+    }
+
+    static async loadLayouts(): Promise<DraftLayout[]> {
+        const { data, error } = await supabase.from('album_layouts').select('*').eq('is_active', true);
+        if (error) {
+            console.error('Failed to load layouts for draft:', error);
+            return [];
+        }
+        return (data || []) as DraftLayout[];
+    }
+}
+
+// ============================================================================
+// ASPECT RATIOS
+// ============================================================================
+
+export class MediaProbe {
+    static ratio(item: DraftMedia): Promise<number | undefined> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => resolve(undefined), PROBE_TIMEOUT_MS);
+            const done = (width: number, height: number) => {
+                clearTimeout(timer);
+                resolve(width > 0 && height > 0 ? width / height : undefined);
+            };
+
+            if (item.type === 'video') {
+                const video = document.createElement('video');
+                video.preload = 'metadata';
+                video.onloadedmetadata = () => done(video.videoWidth, video.videoHeight);
+                video.onerror = () => done(0, 0);
+                video.src = item.url;
+            } else {
+                const img = new Image();
+                img.onload = () => done(img.naturalWidth, img.naturalHeight);
+                img.onerror = () => done(0, 0);
+                img.src = item.url;
+            }
+        });
+    }
+
+    static async withRatios(media: DraftMedia[]): Promise<DraftMedia[]> {
+        const result: DraftMedia[] = [];
+        for (let i = 0; i < media.length; i += PROBE_BATCH_SIZE) {
+            const batch = media.slice(i, i + PROBE_BATCH_SIZE);
+            const ratios = await Promise.all(batch.map(item => this.ratio(item)));
+            batch.forEach((item, j) => result.push({ ...item, aspectRatio: ratios[j] }));
+        }
+        return result;
+    }
+}
+
+function dayRange(startDate: string, endDate: string) {
+    const end = new Date(`${endDate.slice(0, 10)}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    return { start: `${startDate.slice(0, 10)}T00:00:00Z`, end: end.toISOString() };
+}
+
+function describeRange(startDate: string, endDate: string) {
+    const format = (day: string) => new Date(`${day.slice(0, 10)}T00:00:00Z`)
+        .toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+    return startDate.slice(0, 10) === endDate.slice(0, 10) ? format(startDate) : `${format(startDate)} – ${format(endDate)}`;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class AlbumDraftService {
+    /**
+     * Media for a draft, deduplicated later by buildDraftPages.
+     */
+    static async gatherMedia(request: DraftAlbumRequest): Promise<{ media: DraftMedia[]; event: DraftEvent | null; range: { startDate: string; endDate: string } | null }> {
+        const event = request.eventId ? await DraftSources.loadEvent(request.eventId) : null;
+        const startDate = request.startDate || event?.event_date?.slice(0, 10);
+        const endDate = request.endDate || startDate;
+
+        const media: DraftMedia[] = event ? DraftSources.eventMedia(event) : [];
+        if (!startDate || !endDate) return { media, event, range: null };
+
+        const range = dayRange(startDate, endDate);
+        const [stacks, library] = await Promise.all([
+            DraftSources.stackMedia(request.familyId, range, event?.hashtags || []),
+            DraftSources.libraryMedia(request.familyId, range),
+        ]);
+        return { media: [...media, ...stacks, ...library], event, range: { startDate, endDate } };
+    }
+
+    /**
+     * Create an unpublished album filled with generated pages. Returns null
+     * when there is nothing to put in it or the album could not be saved.
+     */
+    static async createDraftAlbum(request: DraftAlbumRequest): Promise<DraftAlbumResult | null> {
+        try {
+            const { media, event, range } = await this.gatherMedia(request);
+            if (media.length === 0) return null;
+
+            const [measured, layouts] = await Promise.all([
+                MediaProbe.withRatios(orderDraftMedia(media)),
+                DraftSources.loadLayouts(),
+            ]);
+
+            const title = request.title?.trim() || event?.title || 'Untitled Draft';
+            const dimensions = request.dimensions || DEFAULT_DIMENSIONS;
+            const pages = buildDraftPages({
+                title,
+                subtitle: range ? describeRange(range.startDate, range.endDate) : undefined,
+                media: measured,
+                layouts,
+                dimensions,
+            });
+
+            const config = {
+                theme: 'classic',
+                dimensions,
+                startDate: range?.startDate,
+                endDate: range?.endDate,
+                isDraft: true,
+                draftSource: { eventId: request.eventId || null, startDate: range?.startDate, endDate: range?.endDate },
+            };
+
+            const { data, error } = await supabase
+                .from('albums')
+                .insert({
+                    family_id: request.familyId,
+                    creator_id: request.creatorId,
+                    event_id: request.eventId || null,
+                    title,
+                    description: event?.description || null,
+                    category: request.category || event?.category || 'General',
+                    location: request.location ?? event?.location ?? '',
+                    country: request.country ?? '',
+                    geotag: request.geotag ?? event?.geotag ?? null,
+                    is_published: false,
+                    config,
+                    total_pages: 0,
+                })
+                .select('*')
+                .single();
+
+            if (error || !data) {
+                console.error('Failed to create draft album:', error);
+                return null;
+            }
+
+            const album: UnifiedAlbum = {
+                id: data.id,
+                title,
+                description: data.description || undefined,
+                familyId: request.familyId,
+                creatorId: request.creatorId,
+                eventId: request.eventId,
+                category: data.category || undefined,
+                location: data.location || undefined,
+                country: data.country || undefined,
+                geotag: data.geotag || undefined,
+                coverImageUrl: pages[0].assets[0]?.url,
+                config,
+                pages: pages.map(contextPageToUnifiedPage),
+                totalPages: pages.length,
+                isPublished: false,
+                createdAt: data.created_at,
+                updatedAt: data.updated_at || data.created_at,
+            };
+
+            const result = await AlbumDataService.saveAlbum(album);
+            if (result.status !== 'saved') {
+                console.error('Failed to save draft pages:', result);
+                return null;
+            }
+
+            // The title page repeats the cover photo; count content pages only
+            const mediaCount = pages.slice(1).reduce((sum, page) => sum + page.assets.length, 0);
+            return { albumId: data.id, pageCount: pages.length, mediaCount };
+        } catch (error) {
+            console.error('Error generating draft album:', error);
+            return null;
+        }
+    }
+}
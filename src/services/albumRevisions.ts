@@ -0,0 +1,295 @@
+/**
+ * Album Revision Service
+ *
+ * Persistent save history for albums. Each successful save records a named
+ * revision. Revisions store only what changed since the previous one (album
+ * fields plus whole changed pages); every KEYFRAME_INTERVAL-th revision is a
+ * full snapshot so rebuilding any revision replays a bounded run of diffs.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+import _ from 'lodash';
+import type { UnifiedAlbum, UnifiedPage } from '../types/album';
+import type { Database, Json } from '../types/supabase';
+
+type AlbumRevisionRow = Database['public']['Tables']['album_revisions']['Row'];
+
+const KEYFRAME_INTERVAL = 20;
+
+const META_FIELDS = [
+    'title',
+    'description',
+    'category',
+    'coverImageUrl',
+    'location',
+    'country',
+    'geotag',
+    'hashtags',
+    'config',
+    'isPublished',
+    'eventId',
+] as const;
+
+type AlbumMetaField = typeof META_FIELDS[number];
+
+export interface RevisionDiff {
+    meta: Partial<Pick<UnifiedAlbum, AlbumMetaField>>;
+    pages: Record<number, UnifiedPage>; // Changed or added pages by page number
+    pageCount: number;
+}
+
+export interface AlbumRevision {
+    id: string;
+    albumId: string;
+    sequence: number;
+    name: string;
+    authorId: string | null;
+    authorName: string;
+    albumVersion: number | null;
+    changedPages: number[];
+    isKeyframe: boolean;
+    createdAt: string;
+}
+
+export interface RecordRevisionInput {
+    album: UnifiedAlbum;
+    previous: UnifiedAlbum | null;   // Album as of the last recorded save
+    previousVersion?: number;        // Album version `previous` was saved at
+    version?: number;                // Album version written by this save
+    author: { id: string | null; name: string };
+    name?: string;
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+class RevisionDiffer {
+    static diff(previous: UnifiedAlbum, next: UnifiedAlbum): RevisionDiff {
+        const meta: RevisionDiff['meta'] = {};
+        META_FIELDS.forEach(field => {
+            if (!_.isEqual(previous[field], next[field])) {
+                (meta as Record<string, unknown>)[field] = next[field];
+            }
+        });
+
+        const previousPages = new Map(previous.pages.map(p => [p.pageNumber, p]));
+        const pages: Record<number, UnifiedPage> = {};
+        next.pages.forEach(page => {
+            if (!_.isEqual(previousPages.get(page.pageNumber), page)) {
+                pages[page.pageNumber] = page;
+            }
+        });
+
+        return { meta, pages, pageCount: next.pages.length };
+    }
+
+    static apply(album: UnifiedAlbum, diff: RevisionDiff): UnifiedAlbum {
+        const byNumber = new Map(album.pages.map(p => [p.pageNumber, p]));
+        const pages: UnifiedPage[] = [];
+        for (let pageNumber = 1; pageNumber <= diff.pageCount; pageNumber++) {
+            const page = diff.pages[pageNumber] || byNumber.get(pageNumber);
+            if (page) pages.push(page);
+        }
+        return { ...album, ...diff.meta, pages, totalPages: pages.length };
+    }
+
+    static isEmpty(diff: RevisionDiff, previous: UnifiedAlbum): boolean {
+        return Object.keys(diff.meta).length === 0 &&
+            Object.keys(diff.pages).length === 0 &&
+            diff.pageCount === previous.pages.length;
+    }
+
+    static changedPages(diff: RevisionDiff, previous: UnifiedAlbum | null): number[] {
+        const changed = new Set(Object.keys(diff.pages).map(Number));
+        previous?.pages.forEach(page => {
+            if (page.pageNumber > diff.pageCount) changed.add(page.pageNumber);
+        });
+        return Array.from(changed).sort((a, b) => a - b);
+    }
+
+    static describe(changedPages: number[], diff: RevisionDiff): string {
+        if (changedPages.length === 0) {
+            return Object.keys(diff.meta).length > 0 ? 'Edited album details' : 'Saved album';
+        }
+        if (changedPages.length === 1) return `Edited page ${changedPages[0]}`;
+        if (changedPages.length <= 4) return `Edited pages ${changedPages.join(', ')}`;
+        return `Edited ${changedPages.length} pages`;
+    }
+}
+
+function toRevision(row: Omit<AlbumRevisionRow, 'content'>): AlbumRevision {
+    return {
+        id: row.id,
+        albumId: row.album_id,
+        sequence: row.sequence,
+        name: row.name,
+        authorId: row.author_id,
+        authorName: row.author_name || 'Unknown',
+        albumVersion: row.album_version,
+        changedPages: row.changed_pages || [],
+        isKeyframe: row.is_keyframe,
+        createdAt: row.created_at,
+    };
+}
+
+// ============================================================================
+// REVISION SERVICE
+// ============================================================================
+
+export class AlbumRevisionService {
+    /**
+     * Record a revision for a save that just succeeded.
+     * Falls back to a full snapshot whenever the previous revision cannot be
+     * trusted as the diff base (first save, another session saved in between,
+     * or the database has no version stamps).
+     * Returns null when nothing changed.
+     */
+    static async recordRevision(input: RecordRevisionInput): Promise<AlbumRevision | null> {
+        const { album, previous, previousVersion, version, author } = input;
+        try {
+            const { data: latest, error: latestError } = await supabase
+                .from('album_revisions')
+                .select('sequence, album_version')
+                .eq('album_id', album.id)
+                .order('sequence', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (latestError) {
+                console.error('Failed to read latest revision:', latestError);
+                return null;
+            }
+
+            const fullDiff: RevisionDiff = {
+                meta: _.pick(album, META_FIELDS),
+                pages: Object.fromEntries(album.pages.map(p => [p.pageNumber, p])),
+                pageCount: album.pages.length,
+            };
+            const diff = previous ? RevisionDiffer.diff(previous, album) : fullDiff;
+            if (previous && latest && RevisionDiffer.isEmpty(diff, previous)) return null;
+
+            const sequence = (latest?.sequence ?? 0) + 1;
+            const chainsFromLatest = !!previous && !!latest &&
+                previousVersion !== undefined &&
+                latest.album_version === previousVersion;
+            const isKeyframe = !chainsFromLatest || (sequence - 1) % KEYFRAME_INTERVAL === 0;
+
+            const changedPages = previous
+                ? RevisionDiffer.changedPages(diff, previous)
+                : album.pages.map(p => p.pageNumber);
+
+            const { data, error } = await supabase
+                .from('album_revisions')
+                .insert({
+                    album_id: album.id,
+                    sequence,
+                    name: input.name || (previous ? RevisionDiffer.describe(changedPages, diff) : 'First saved version'),
+                    author_id: author.id,
+                    author_name: author.name,
+                    album_version: version ?? null,
+                    changed_pages: changedPages,
+                    is_keyframe: isKeyframe,
+                    content: (isKeyframe ? album : diff) as unknown as Json,
+                })
+                .select('id, album_id, sequence, name, author_id, author_name, album_version, changed_pages, is_keyframe, created_at')
+                .single();
+
+            if (error || !data) {
+                console.error('Failed to record revision:', error);
+                return null;
+            }
+
+            return toRevision(data);
+        } catch (error) {
+            console.error('Error recording revision:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Revision metadata, newest first. Content is loaded on demand.
+     */
+    static async listRevisions(albumId: string, limit = 100): Promise<AlbumRevision[]> {
+        const { data, error } = await supabase
+            .from('album_revisions')
+            .select('id, album_id, sequence, name, author_id, author_name, album_version, changed_pages, is_keyframe, created_at')
+            .eq('album_id', albumId)
+            .order('sequence', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            console.error('Failed to list revisions:', error);
+            return [];
+        }
+
+        return (data || []).map(toRevision);
+    }
+
+    /**
+     * Rebuild the album as it was at `sequence` from the nearest keyframe.
+     */
+    static async loadRevision(albumId: string, sequence: number): Promise<UnifiedAlbum | null> {
+        try {
+            const { data: keyframe, error: keyframeError } = await supabase
+                .from('album_revisions')
+                .select('sequence, content')
+                .eq('album_id', albumId)
+                .eq('is_keyframe', true)
+                .lte('sequence', sequence)
+                .order('sequence', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (keyframeError || !keyframe) {
+                console.error('No snapshot found for revision:', keyframeError);
+                return null;
+            }
+
+            const { data: diffs, error: diffsError } = await supabase
+                .from('album_revisions')
+                .select('sequence, content')
+                .eq('album_id', albumId)
+                .gt('sequence', keyframe.sequence)
+                .lte('sequence', sequence)
+                .order('sequence', { ascending: true });
+
+            if (diffsError) {
+                console.error('Failed to load revision diffs:', diffsError);
+                return null;
+            }
+
+            return this.rebuild(
+                keyframe.content,
+                (diffs || []).map((row: Pick<AlbumRevisionRow, 'content'>) => row.content)
+            );
+        } catch (error) {
+            console.error('Error loading revision:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Replay revision diffs, oldest first, onto the keyframe they follow.
+     */
+    static rebuild(keyframe: Json, diffs: Json[]): UnifiedAlbum {
+        return diffs.reduce<UnifiedAlbum>(
+            (album, diff) => RevisionDiffer.apply(album, diff as unknown as RevisionDiff),
+            keyframe as unknown as UnifiedAlbum
+        );
+    }
+
+    static async renameRevision(revisionId: string, name: string): Promise<boolean> {
+        const { error } = await supabase
+            .from('album_revisions')
+            .update({ name })
+            .eq('id', revisionId);
+
+        if (error) {
+            console.error('Failed to rename revision:', error);
+            return false;
+        }
+        return true;
+    }
+}
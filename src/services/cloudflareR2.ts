@@ -12,6 +12,8 @@ export interface R2UploadResult {
 export class CloudflareR2Service {
     private static _publicUrl = import.meta.env.VITE_R2_PUBLIC_URL as string;
     private static _authCache = new Map<string, string>();
+    private static _shareAccess: { token: string; password?: string; allowDownload: boolean } | null = null;
+    private static _contributionToken: string | null = null;
 
     /**
      * Updates the public URL used to resolve media assets.
@@ -23,6 +25,36 @@ export class CloudflareR2Service {
         this._publicUrl = url.endsWith('/') ? url.slice(0, -1) : url;
     }
 
+    /**
+     * Signs media through a share link while a shared view is open, also for
+     * signed-in members, so the link's scope and options apply to everyone
+     * viewing it. Links without downloads get their media streamed instead of
+     * signed. Shared views clear it with clearShareAccess when they close.
+     */
+    static setShareAccess(token: string, password?: string, allowDownload = true) {
+        this._shareAccess = { token, password, allowDownload };
+        this._authCache.clear();
+    }
+
+    static clearShareAccess() {
+        if (!this._shareAccess) return;
+        this._shareAccess = null;
+        this._authCache.clear();
+    }
+
+    /**
+     * Uploads keys under contributions/<token>/ through an "Invite
+     * contributions" link while the upload page is open. Other uploads keep
+     * using the session. The page clears it with clearContributionAccess.
+     */
+    static setContributionAccess(token: string) {
+        this._contributionToken = token;
+    }
+
+    static clearContributionAccess() {
+        this._contributionToken = null;
+    }
+
     /**
      * Gets the currently active R2 Public CDN URL.
      */
@@ -115,12 +147,17 @@ export class CloudflareR2Service {
         const { data: { session } } = await supabase.auth.getSession();
 
         // 2. Get presigned URL from Edge Function
-        const { data: { presignedUrl }, error: presignError } = await supabase.functions.invoke('get-r2-presigned-url', {
-            body: { operation: 'PUT', key, contentType },
-            headers: {
-                Authorization: `Bearer ${session?.access_token}`
-            }
-        });
+        const contributionToken = this._contributionToken && key.startsWith(`contributions/${this._contributionToken}/`)
+            ? this._contributionToken
+            : null;
+        const { data: { presignedUrl }, error: presignError } = await supabase.functions.invoke('get-r2-presigned-url', contributionToken
+            ? { body: { operation: 'PUT', key, contentType, contentLength: file.size, contributionToken } }
+            : {
+                body: { operation: 'PUT', key, contentType },
+                headers: {
+                    Authorization: `Bearer ${session?.access_token}`
+                }
+            });
 
         if (presignError || !presignedUrl) {
             throw new Error(`Failed to get presigned URL: ${presignError?.message || 'Unknown error'}`);
@@ -130,6 +167,8 @@ export class CloudflareR2Service {
         return new Promise((resolve, reject) => {
             const xhr = new XMLHttpRequest();
             xhr.open('PUT', presignedUrl);
+            // Contribution URLs are signed for this exact type (the browser sets the length)
+            if (contributionToken) xhr.setRequestHeader('Content-Type', contentType.toLowerCase());
 
             if (signal) {
                 signal.addEventListener('abort', () => {
@@ -183,14 +222,19 @@ export class CloudflareR2Service {
         }
 
         // 1. Get presigned GET URL from Edge Function
-        const { data: { session } } = await supabase.auth.getSession();
-        
-        const { data, error } = await supabase.functions.invoke('get-r2-presigned-url', {
-            body: { operation: 'GET', key, expiresIn },
-            headers: {
-                Authorization: `Bearer ${session?.access_token}`
-            }
-        });
+        // An open shared view signs through its link, even for members
+        const share = this._shareAccess;
+        if (share && !share.allowDownload) return this.getProxiedObjectUrl(key);
+        const session = share ? null : (await supabase.auth.getSession()).data.session;
+
+        const { data, error } = await supabase.functions.invoke('get-r2-presigned-url', share
+            ? { body: { operation: 'GET', key, expiresIn, shareToken: share.token, sharePassword: share.password } }
+            : {
+                body: { operation: 'GET', key, expiresIn },
+                headers: {
+                    Authorization: `Bearer ${session?.access_token}`
+                }
+            });
 
         if (error || !data?.presignedUrl) {
             console.error('[R2] Failed to get authorized URL for key:', key, 'Error:', error, 'Data:', data);
@@ -202,6 +246,17 @@ export class CloudflareR2Service {
         return data.presignedUrl;
     }
 
+    /**
+     * URL the browser can read for any stored media URL: public R2 and
+     * non-R2 URLs as they are, private R2 objects through a signed URL.
+     */
+    static async getReadableUrl(url: string): Promise<string> {
+        if ((url.includes('pub-') && url.includes('.r2.dev')) || !this.isR2Url(url)) return url;
+        const key = this.extractKey(url);
+        if (!key) return url;
+        return this.getCachedUrl(key) || await this.getAuthorizedUrl(key);
+    }
+
     /**
      * Requests an image via the Edge Function PROXY_GET.
      * This bypasses S3 API CORS issues by attaching CORS headers server-side,
@@ -215,18 +270,23 @@ export class CloudflareR2Service {
             return this._authCache.get(`proxy_${key}`)!;
         }
 
-        const { data: { session } } = await supabase.auth.getSession();
-        if (!session) throw new Error("Unauthorized");
+        const share = this._shareAccess;
+        const session = share ? null : (await supabase.auth.getSession()).data.session;
+        if (!session && !share) throw new Error("Unauthorized");
         
         // We use raw fetch here because we need to extract the binary Blob, not JSON.
         const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+        const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
         const response = await fetch(`${supabaseUrl}/functions/v1/get-r2-presigned-url`, {
             method: 'POST',
             headers: {
-                'Authorization': `Bearer ${session.access_token}`,
+                'Authorization': `Bearer ${session?.access_token || anonKey}`,
+                'apikey': anonKey,
                 'Content-Type': 'application/json'
             },
-            body: JSON.stringify({ operation: 'PROXY_GET', key, expiresIn: 3600 })
+            body: JSON.stringify(share
+                ? { operation: 'PROXY_GET', key, expiresIn: 3600, shareToken: share.token, sharePassword: share.password }
+                : { operation: 'PROXY_GET', key, expiresIn: 3600 })
         });
 
         if (!response.ok) {
@@ -0,0 +1,297 @@
+/**
+ * Guest Contributions
+ *
+ * "Invite contributions" links let relatives without an account upload
+ * photos and videos to an event. Guests upload through the usual
+ * UploadContext pipeline into R2 under contributions/<token>/ and each file
+ * is queued in event_contributions by its storage key with their name and
+ * message. Family admins review the queue in EventEditor: approving files the
+ * item in family_media under the public URL of its key and appends it to the
+ * event's gallery, rejecting deletes the upload.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+import { CloudflareR2Service } from './cloudflareR2';
+import { shareExpiryDate, type ShareExpiry } from './sharing';
+
+export type ContributionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ContributionLink {
+    id: string;
+    eventId: string;
+    token: string;
+    createdAt: string;
+    expiresAt: string | null;   // null never expires
+}
+
+export interface EventContribution {
+    id: string;
+    eventId: string;
+    uploaderName: string;
+    message: string | null;
+    storageKey: string;
+    url: string;
+    type: 'image' | 'video';
+    filename: string | null;
+    size: number | null;
+    status: ContributionStatus;
+    createdAt: string;
+}
+
+/**
+ * What a guest sees of the event they were invited to.
+ */
+export interface ContributionInvite {
+    eventId: string;
+    title: string;
+    eventDate: string;
+    location: string | null;
+    expiresAt: string | null;
+}
+
+/**
+ * Who is contributing, as entered on the upload page.
+ */
+export interface ContributorDetails {
+    token: string;
+    uploaderName: string;
+    message?: string;
+}
+
+/**
+ * An approved item as appended to events.content.assets.
+ */
+export interface ContributedAsset {
+    id: string;
+    url: string;
+    type: 'image' | 'video';
+    filename: string | null;
+    caption: string;
+}
+
+interface ContributionLinkRow {
+    id: string;
+    event_id: string;
+    token: string;
+    created_at: string;
+    expires_at: string | null;
+}
+
+interface ContributionRow {
+    id: string;
+    event_id: string;
+    uploader_name: string;
+    message: string | null;
+    storage_key: string;
+    url: string | null;         // Set on approval
+    type: 'image' | 'video';
+    filename: string | null;
+    size: number | null;
+    status: ContributionStatus;
+    created_at: string;
+}
+
+function toContributionLink(row: ContributionLinkRow): ContributionLink {
+    return {
+        id: row.id,
+        eventId: row.event_id,
+        token: row.token,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+    };
+}
+
+function toContribution(row: ContributionRow): EventContribution {
+    return {
+        id: row.id,
+        eventId: row.event_id,
+        uploaderName: row.uploader_name,
+        message: row.message,
+        storageKey: row.storage_key,
+        url: row.url || CloudflareR2Service.getPublicUrl(row.storage_key),
+        type: row.type,
+        filename: row.filename,
+        size: row.size,
+        status: row.status,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * The upload page URL for a contribution link.
+ */
+export function contributionLinkUrl(eventTitle: string | undefined, token: string): string {
+    const safeTitle = eventTitle ? eventTitle.replace(/\s+/g, '_') : 'Event';
+    return `${window.location.origin}/contribute/${encodeURIComponent(safeTitle)}/${token}`;
+}
+
+/**
+ * Storage key prefix for a guest's uploads, which the edge function and
+ * submit_event_contribution both insist on.
+ */
+export function contributionUploadPrefix(token: string): string {
+    return `contributions/${token}`;
+}
+
+export class EventContributionService {
+    /**
+     * Invite contributions to an event until the given expiry.
+     */
+    static async createLink(eventId: string, expiry: ShareExpiry): Promise<{ link: ContributionLink | null; error?: string }> {
+        const { data, error } = await supabase
+            .from('event_contribution_links')
+            .insert({
+                event_id: eventId,
+                token: crypto.randomUUID(),
+                expires_at: shareExpiryDate(expiry),
+            })
+            .select('*')
+            .single();
+
+        if (error) {
+            console.error('Failed to create contribution link:', error);
+            return { link: null, error: error.message };
+        }
+        return { link: toContributionLink(data) };
+    }
+
+    /**
+     * Links to the event that have not been revoked, newest first.
+     */
+    static async listLinks(eventId: string): Promise<ContributionLink[]> {
+        const { data, error } = await supabase
+            .from('event_contribution_links')
+            .select('*')
+            .eq('event_id', eventId)
+            .eq('is_active', true)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            // Older databases have no contribution tables
+            if (error.code !== '42P01') console.error('Failed to load contribution links:', error);
+            return [];
+        }
+        return ((data || []) as ContributionLinkRow[]).map(toContributionLink);
+    }
+
+    static async revokeLink(linkId: string): Promise<{ success: boolean; error?: string }> {
+        const { error } = await supabase
+            .from('event_contribution_links')
+            .update({ is_active: false })
+            .eq('id', linkId);
+
+        if (error) {
+            console.error('Failed to revoke contribution link:', error);
+            return { success: false, error: error.message };
+        }
+        return { success: true };
+    }
+
+    /**
+     * Contributions to the event still waiting for review, oldest first.
+     */
+    static async listPending(eventId: string): Promise<EventContribution[]> {
+        const { data, error } = await supabase
+            .from('event_contributions')
+            .select('*')
+            .eq('event_id', eventId)
+            .eq('status', 'pending')
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            if (error.code !== '42P01') console.error('Failed to load contributions:', error);
+            return [];
+        }
+        return ((data || []) as ContributionRow[]).map(toContribution);
+    }
+
+    /**
+     * Approve a contribution. Admins only. Returns the asset now at the end
+     * of the event's gallery.
+     */
+    static async approve(contribution: EventContribution): Promise<{ asset: ContributedAsset | null; error?: string }> {
+        const { data, error } = await supabase.rpc('review_event_contribution', {
+            contribution_param: contribution.id,
+            approve_param: true,
+            url_param: CloudflareR2Service.getPublicUrl(contribution.storageKey),
+        });
+
+        if (error || !data) {
+            console.error('Failed to approve contribution:', error);
+            return { asset: null, error: error?.message || 'Failed to approve contribution' };
+        }
+        return { asset: data as ContributedAsset };
+    }
+
+    /**
+     * Reject a contribution and delete its upload. Admins only.
+     */
+    static async reject(contribution: EventContribution): Promise<{ success: boolean; error?: string }> {
+        const { error } = await supabase.rpc('review_event_contribution', {
+            contribution_param: contribution.id,
+            approve_param: false,
+        });
+
+        if (error) {
+            console.error('Failed to reject contribution:', error);
+            return { success: false, error: error.message };
+        }
+
+        const { storageService } = await import('./storage');
+        const { error: deleteError } = await storageService.deleteFile(contribution.url);
+        if (deleteError) console.error('Failed to delete rejected upload:', deleteError);
+        return { success: true };
+    }
+
+    /**
+     * Open a contribution link as a guest.
+     */
+    static async openInvite(token: string): Promise<{ invite: ContributionInvite | null; error?: string }> {
+        const { data, error } = await supabase.rpc('get_contribution_link', { token_param: token });
+
+        if (error || !data) {
+            return { invite: null, error: error?.message || 'This link is invalid or has expired.' };
+        }
+        if (!data.success || !data.event) {
+            return { invite: null, error: data.error || 'This link is invalid or has expired.' };
+        }
+
+        return {
+            invite: {
+                eventId: data.event.id,
+                title: data.event.title,
+                eventDate: data.event.event_date,
+                location: data.event.location,
+                expiresAt: data.expires_at,
+            },
+        };
+    }
+
+    /**
+     * Queue an uploaded file for review by its storage key.
+     */
+    static async submit(
+        contributor: ContributorDetails,
+        item: { r2Key?: string; type: 'image' | 'video'; filename: string; size?: number; metadata?: Record<string, unknown> }
+    ): Promise<{ success: boolean; error?: string }> {
+        if (!item.r2Key) return { success: false, error: 'The upload returned no storage key' };
+
+        const { error } = await supabase.rpc('submit_event_contribution', {
+            token_param: contributor.token,
+            uploader_name_param: contributor.uploaderName,
+            message_param: contributor.message || null,
+            key_param: item.r2Key,
+            type_param: item.type,
+            filename_param: item.filename,
+            size_param: item.size ?? null,
+            metadata_param: item.metadata || {},
+        });
+
+        if (error) {
+            console.error('Failed to submit contribution:', error);
+            return { success: false, error: error.message };
+        }
+        return { success: true };
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * Event Export Service
+ *
+ * Exports an event as a document to keep or send: a paginated PDF and an
+ * EPUB book for e-readers. Both are built from the same EventStory (the
+ * event's facts, its TipTap story, gallery assets and event_reviews), so
+ * they carry the same headings, captions and hashtags. Photos are read
+ * through signed URLs like the album exports.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+import { collectStoryImages, eventToStory, type EventStory, type StoryReview } from '../lib/eventStory';
+import { buildEventEpub, EPUB_IMAGE_TYPES, type EpubImage } from '../lib/eventEpub';
+import { createZip } from '../lib/zip';
+import type { Event } from '../types/supabase';
+import { archiveExtension, loadArchiveFile } from './printService';
+import { renderEventStoryPdf } from './eventStoryPdf';
+
+export interface EventExportResult {
+    pageCount?: number;         // PDF only
+    missing: string[];          // Image URLs that could not be included
+}
+
+interface ReviewRow {
+    event_id: string;
+    rating: number;
+    comment: string | null;
+    created_at: string;
+    profiles?: { full_name: string | null } | null;
+}
+
+const EXPORT_BATCH_SIZE = 4;
+
+const IMAGE_TYPES_BY_EXTENSION: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+};
+
+function download(data: BlobPart, type: string, filename: string) {
+    const blob = new Blob([data], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+function baseName(story: EventStory) {
+    return (story.title || 'Event').replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+}
+
+export class EventExportService {
+    /**
+     * The event as a story document, with its reviews newest first.
+     */
+    static async loadStory(event: Event): Promise<EventStory> {
+        const reviews = await this.loadReviews([event.id]);
+        return eventToStory(event, reviews.get(event.id) || []);
+    }
+
+    /**
+     * Reviews per event id, newest first.
+     */
+    static async loadReviews(eventIds: string[]): Promise<Map<string, StoryReview[]>> {
+        const reviews = new Map<string, StoryReview[]>();
+        if (eventIds.length === 0) return reviews;
+        const { data, error } = await supabase
+            .from('event_reviews')
+            .select('event_id, rating, comment, created_at, profiles:user_id (full_name)')
+            .in('event_id', eventIds)
+            .order('created_at', { ascending: false });
+        // Reviews are optional: older databases have no event_reviews table
+        if (error) {
+            if (error.code !== '42P01') console.error('Failed to load reviews for export:', error);
+            return reviews;
+        }
+        ((data || []) as ReviewRow[]).forEach(review => {
+            const list = reviews.get(review.event_id) || [];
+            list.push({
+                author: review.profiles?.full_name || 'Family member',
+                rating: review.rating,
+                comment: review.comment || '',
+                createdAt: review.created_at,
+            });
+            reviews.set(review.event_id, list);
+        });
+        return reviews;
+    }
+
+    /**
+     * Download the event as a paginated A4 PDF.
+     */
+    static async exportPdf(event: Event): Promise<EventExportResult> {
+        const story = await this.loadStory(event);
+        const result = await renderEventStoryPdf(story, {
+            loadImage: async url => (await loadArchiveFile(url))?.data || null,
+        });
+        download(result.pdf, 'application/pdf', `${baseName(story)}_Story.pdf`);
+        return { pageCount: result.pageCount, missing: result.missing };
+    }
+
+    /**
+     * Download the event as an EPUB book. Images in formats e-readers do
+     * not show are left out with their captions kept.
+     */
+    static async exportEpub(event: Event): Promise<EventExportResult> {
+        const story = await this.loadStory(event);
+        const urls = collectStoryImages(story);
+        const images = new Map<string, EpubImage>();
+        const missing: string[] = [];
+
+        for (let i = 0; i < urls.length; i += EXPORT_BATCH_SIZE) {
+            const batch = urls.slice(i, i + EXPORT_BATCH_SIZE);
+            const loaded = await Promise.all(batch.map(url => loadArchiveFile(url)));
+            batch.forEach((url, j) => {
+                const file = loaded[j];
+                const extension = file ? archiveExtension(file.type, url, 'image') : '';
+                const type = file?.type.startsWith('image/') ? file.type : IMAGE_TYPES_BY_EXTENSION[extension];
+                if (!file || !EPUB_IMAGE_TYPES.includes(type)) {
+                    missing.push(url);
+                    return;
+                }
+                images.set(url, { path: `images/${String(i + j + 1).padStart(4, '0')}.${extension}`, type, data: file.data });
+            });
+        }
+
+        const zip = createZip(buildEventEpub(story, images));
+        download(zip, 'application/epub+zip', `${baseName(story)}.epub`);
+        return { missing };
+    }
+}
@@ -0,0 +1,619 @@
+/**
+ * Event Story PDF Renderer
+ * Typesets an event story (lib/eventStory) as a paginated A4 document: a
+ * header with the category, title, date, location, participants and
+ * hashtags, then the story with its headings, emphasis, lists, quotes and
+ * captioned photos, a two-column gallery and the reviews, with page numbers
+ * in the footer. Text flows across pages a line at a time and photos move
+ * to the next page rather than being cut. Fonts and images arrive through
+ * the print loaders, so the same files as the album print are embedded.
+ */
+
+import { jsPDF } from 'jspdf';
+import { fetchPrintFont, fetchPrintImage, type PrintFontLoader, type PrintImageLoader } from './printPdf';
+import {
+    collectStoryImages,
+    formatHashtag,
+    formatStoryDate,
+    type EventStory,
+    type StoryAlign,
+    type StoryBlock,
+    type StoryRun,
+} from '../lib/eventStory';
+import {
+    buildYearbookIndex,
+    orderYearbookStories,
+    yearbookHasIndex,
+    yearbookSpan,
+    type YearbookIndex,
+    type YearbookIndexEntry,
+} from '../lib/yearbook';
+
+export interface EventStoryPdfOptions {
+    loadImage?: PrintImageLoader;
+    loadFont?: PrintFontLoader;
+}
+
+export interface EventStoryPdfResult {
+    pdf: ArrayBuffer;
+    pageCount: number;
+    missing: string[];          // Image URLs that could not be embedded
+}
+
+const BODY_FONT = 'EB Garamond';
+const HEADING_FONT = 'Outfit';
+const FONT_STYLES = ['normal', 'bold', 'italic', 'bolditalic'];
+
+const MARGIN = 56;
+const FOOTER_HEIGHT = 28;
+const BODY_SIZE = 11.5;
+const LEADING = 1.5;
+const PARAGRAPH_GAP = 8;
+const HEADING_SIZES = { 1: 20, 2: 16, 3: 13.5 };
+const CAPTION_SIZE = 9.5;
+
+// Story photos are kept below this share of the text area so a page never holds just one
+const MAX_IMAGE_HEIGHT = 0.55;
+const GALLERY_GAP = 14;
+const GALLERY_IMAGE_HEIGHT = 190;
+
+const IMAGE_BATCH = 6;
+
+// Rows of a yearbook's contents per page
+const PDF_TOC_ROWS = 28;
+
+const INK: [number, number, number] = [45, 42, 38];
+const MUTED: [number, number, number] = [128, 122, 116];
+const ACCENT: [number, number, number] = [160, 110, 72];
+
+interface TextStyle {
+    family: string;
+    size: number;
+    leading: number;
+    color: [number, number, number];
+    bold?: boolean;
+    italic?: boolean;
+}
+
+interface Segment {
+    text: string;
+    run: StoryRun;
+    width: number;
+    space: boolean;
+}
+
+interface LoadedImage {
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+interface ResolvedFont {
+    name: string;
+    style: string;
+}
+
+function toBase64(bytes: Uint8Array) {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return btoa(binary);
+}
+
+function fontStyle(bold: boolean, italic: boolean) {
+    return bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+class StoryPdfWriter {
+    private pdf: jsPDF;
+    private options: EventStoryPdfOptions;
+    private fonts = new Map<string, ResolvedFont>();
+    private images = new Map<string, LoadedImage | null>();
+    private y = MARGIN;
+    private pageWidth: number;
+    private pageHeight: number;
+    private width: number;
+
+    constructor(pdf: jsPDF, options: EventStoryPdfOptions) {
+        this.pdf = pdf;
+        this.options = options;
+        this.pageWidth = pdf.internal.pageSize.getWidth();
+        this.pageHeight = pdf.internal.pageSize.getHeight();
+        this.width = this.pageWidth - 2 * MARGIN;
+    }
+
+    get missing() {
+        return Array.from(this.images.entries()).filter(([, image]) => !image).map(([url]) => url);
+    }
+
+    // --- Resources ---
+
+    async loadFonts() {
+        for (const family of [BODY_FONT, HEADING_FONT]) {
+            for (const style of FONT_STYLES) {
+                const data = await (this.options.loadFont || fetchPrintFont)(family, style.startsWith('bold'), style.endsWith('italic'));
+                let resolved: ResolvedFont = { name: family === BODY_FONT ? 'times' : 'helvetica', style };
+                if (data) {
+                    try {
+                        const file = `${family.replace(/\s+/g, '')}-${style}.ttf`;
+                        this.pdf.addFileToVFS(file, toBase64(data));
+                        this.pdf.addFont(file, family, style);
+                        resolved = { name: family, style };
+                    } catch {
+                        // Unreadable font file: keep the standard font
+                    }
+                }
+                this.fonts.set(`${family}/${style}`, resolved);
+            }
+        }
+    }
+
+    async loadImages(urls: string[]) {
+        for (let i = 0; i < urls.length; i += IMAGE_BATCH) {
+            const batch = urls.slice(i, i + IMAGE_BATCH);
+            const loaded = await Promise.all(batch.map(url => (this.options.loadImage || fetchPrintImage)(url)));
+            batch.forEach((url, j) => {
+                const data = loaded[j];
+                if (!data) {
+                    this.images.set(url, null);
+                    return;
+                }
+                try {
+                    const { width, height } = this.pdf.getImageProperties(data);
+                    this.images.set(url, { data, width, height });
+                } catch {
+                    // A format jsPDF cannot embed, e.g. WebP or HEIC
+                    this.images.set(url, null);
+                }
+            });
+        }
+    }
+
+    // --- Pages ---
+
+    private get bottom() {
+        return this.pageHeight - MARGIN - FOOTER_HEIGHT;
+    }
+
+    /**
+     * Continue on a new page; returns its page number.
+     */
+    newPage() {
+        this.pdf.addPage('a4', 'p');
+        this.y = MARGIN;
+        return this.pdf.getNumberOfPages();
+    }
+
+    /**
+     * Start a new page unless `height` still fits on this one.
+     */
+    private ensureSpace(height: number) {
+        if (this.y > MARGIN && this.y + height > this.bottom) this.newPage();
+    }
+
+    private gap(height: number) {
+        this.y = Math.min(this.y + height, this.bottom);
+    }
+
+    drawFooters(title: string, firstPage = 1) {
+        const count = this.pdf.getNumberOfPages();
+        for (let page = firstPage; page <= count; page++) {
+            this.pdf.setPage(page);
+            const y = this.pageHeight - MARGIN + 6;
+            this.useFont({ family: HEADING_FONT, size: 8, leading: 1, color: MUTED }, { text: '' });
+            this.pdf.text(String(page), this.pageWidth / 2, y, { align: 'center' });
+            if (page > firstPage) this.pdf.text((this.pdf.splitTextToSize(title, this.width / 2 - 20) as string[])[0] || '', MARGIN, y);
+        }
+    }
+
+    // --- Text ---
+
+    private useFont(base: TextStyle, run: StoryRun) {
+        const style = fontStyle(!!(base.bold || run.bold), !!(base.italic || run.italic));
+        const font = run.code ? { name: 'courier', style } : this.fonts.get(`${base.family}/${style}`) || { name: 'helvetica', style };
+        this.pdf.setFont(font.name, font.style);
+        // Monospace runs at body size look large next to the serif
+        this.pdf.setFontSize(run.code ? base.size * 0.88 : base.size);
+        const color = run.href ? ACCENT : base.color;
+        this.pdf.setTextColor(color[0], color[1], color[2]);
+    }
+
+    private splitWord(text: string, width: number) {
+        const chunks: string[] = [];
+        let chunk = '';
+        for (const char of text) {
+            if (chunk && this.pdf.getTextWidth(chunk + char) > width) {
+                chunks.push(chunk);
+                chunk = '';
+            }
+            chunk += char;
+        }
+        if (chunk) chunks.push(chunk);
+        return chunks;
+    }
+
+    /**
+     * Break styled runs into lines of at most `width`, at spaces and hard
+     * line breaks; a word wider than the column is broken where it overflows.
+     */
+    private layout(runs: StoryRun[], base: TextStyle, width: number): Segment[][] {
+        const lines: Segment[][] = [];
+        let line: Segment[] = [];
+        let lineWidth = 0;
+        const breakLine = () => {
+            while (line.length > 0 && line[line.length - 1].space) lineWidth -= line.pop()!.width;
+            lines.push(line);
+            line = [];
+            lineWidth = 0;
+        };
+
+        runs.forEach(run => {
+            if (run.text === '\n') {
+                breakLine();
+                return;
+            }
+            this.useFont(base, run);
+            run.text.split(/(\s+)/).forEach(piece => {
+                if (!piece) return;
+                const space = /^\s+$/.test(piece);
+                if (space) {
+                    if (line.length === 0) return;
+                    const spaceWidth = this.pdf.getTextWidth(' ');
+                    line.push({ text: ' ', run, width: spaceWidth, space: true });
+                    lineWidth += spaceWidth;
+                    return;
+                }
+                const chunks = this.pdf.getTextWidth(piece) > width ? this.splitWord(piece, width) : [piece];
+                chunks.forEach(chunk => {
+                    const chunkWidth = this.pdf.getTextWidth(chunk);
+                    if (line.length > 0 && lineWidth + chunkWidth > width) breakLine();
+                    line.push({ text: chunk, run, width: chunkWidth, space: false });
+                    lineWidth += chunkWidth;
+                });
+            });
+        });
+        if (line.length > 0) breakLine();
+        return lines;
+    }
+
+    private drawLines(lines: Segment[][], base: TextStyle, x: number, width: number, align: StoryAlign = 'left', onLine?: (top: number, height: number, index: number) => void) {
+        const pdf = this.pdf;
+        const lineHeight = base.size * base.leading;
+        lines.forEach((line, index) => {
+            this.ensureSpace(lineHeight);
+            onLine?.(this.y, lineHeight, index);
+            const total = line.reduce((sum, segment) => sum + segment.width, 0);
+            const spaces = line.filter(segment => segment.space).length;
+            const justify = align === 'justify' && index < lines.length - 1 && spaces > 0;
+            const extra = justify ? (width - total) / spaces : 0;
+            let cx = align === 'center' ? x + (width - total) / 2 : align === 'right' ? x + width - total : x;
+            const baseline = this.y + (lineHeight + base.size * 0.7) / 2;
+
+            line.forEach(segment => {
+                const { run } = segment;
+                if (!segment.space) {
+                    this.useFont(base, run);
+                    pdf.text(segment.text, cx, baseline);
+                }
+                const width = segment.width + (segment.space ? extra : 0);
+                if (run.underline || run.strike || run.href) {
+                    const color = run.href ? ACCENT : base.color;
+                    pdf.setDrawColor(color[0], color[1], color[2]);
+                    pdf.setLineWidth(base.size / 18);
+                    if (run.underline || run.href) pdf.line(cx, baseline + base.size * 0.12, cx + width, baseline + base.size * 0.12);
+                    if (run.strike) pdf.line(cx, baseline - base.size * 0.28, cx + width, baseline - base.size * 0.28);
+                }
+                if (run.href && /^(https?:|mailto:)/i.test(run.href)) pdf.link(cx, this.y, width, lineHeight, { url: run.href });
+                cx += width;
+            });
+            this.y += lineHeight;
+        });
+    }
+
+    private paragraph(runs: StoryRun[], base: TextStyle, options: { indent?: number; align?: StoryAlign; onLine?: (top: number, height: number, index: number) => void } = {}) {
+        const indent = options.indent || 0;
+        const lines = this.layout(runs, base, this.width - indent);
+        this.drawLines(lines, base, MARGIN + indent, this.width - indent, options.align, options.onLine);
+    }
+
+    private plain(text: string, base: TextStyle, align: StoryAlign = 'left') {
+        this.paragraph([{ text }], base, { align });
+    }
+
+    // --- Blocks ---
+
+    private heading(runs: StoryRun[], size: number) {
+        // Keep the heading with at least two lines of what follows
+        this.gap(size * 0.8);
+        this.ensureSpace(size * 1.3 + BODY_SIZE * LEADING * 2);
+        this.paragraph(runs, { family: HEADING_FONT, size, leading: 1.3, color: INK, bold: true });
+        this.gap(PARAGRAPH_GAP / 2);
+    }
+
+    private image(url: string, caption: string | undefined, x: number, width: number, maxHeight: number) {
+        const image = this.images.get(url);
+        const captionStyle: TextStyle = { family: BODY_FONT, size: CAPTION_SIZE, leading: 1.35, color: MUTED, italic: true };
+        if (!image) {
+            if (caption) this.plain(`[Photo: ${caption}]`, captionStyle, 'center');
+            return;
+        }
+        const scale = Math.min(width / image.width, maxHeight / image.height);
+        const drawWidth = image.width * scale;
+        const drawHeight = image.height * scale;
+        const captionLines = caption ? this.layout([{ text: caption }], captionStyle, width) : [];
+        this.ensureSpace(drawHeight + 6 + captionLines.length * CAPTION_SIZE * 1.35);
+        // The image is embedded once per URL; the alias lets jsPDF reuse it
+        this.pdf.addImage(image.data, '', x + (width - drawWidth) / 2, this.y, drawWidth, drawHeight, url, 'FAST');
+        this.y += drawHeight + 6;
+        if (captionLines.length > 0) this.drawLines(captionLines, captionStyle, x, width, 'center');
+    }
+
+    block(block: StoryBlock) {
+        const body: TextStyle = { family: BODY_FONT, size: BODY_SIZE, leading: LEADING, color: INK };
+        switch (block.kind) {
+            case 'heading':
+                this.heading(block.runs, HEADING_SIZES[block.level]);
+                return;
+            case 'paragraph':
+                this.paragraph(block.runs, body, { align: block.align });
+                break;
+            case 'quote':
+                this.paragraph(block.runs, { ...body, color: MUTED, italic: true }, {
+                    indent: 18,
+                    onLine: (top, height) => {
+                        this.pdf.setFillColor(ACCENT[0], ACCENT[1], ACCENT[2]);
+                        this.pdf.rect(MARGIN + 4, top, 2, height, 'F');
+                    },
+                });
+                break;
+            case 'list':
+                block.items.forEach((item, index) => {
+                    const marker = block.ordered ? `${index + 1}.` : '•';
+                    const lines = this.layout(item, body, this.width - 18);
+                    this.drawLines(lines, body, MARGIN + 18, this.width - 18, 'left', (top, height, line) => {
+                        if (line > 0) return;
+                        this.useFont(body, { text: marker });
+                        this.pdf.text(marker, MARGIN + 12, top + (height + BODY_SIZE * 0.7) / 2, { align: 'right' });
+                    });
+                });
+                break;
+            case 'code': {
+                const code: TextStyle = { ...body, size: BODY_SIZE * 0.9, leading: 1.4 };
+                this.useFont(code, { text: '', code: true });
+                const lines = block.text.split('\n').flatMap(line => this.pdf.splitTextToSize(line || ' ', this.width - 16) as string[]);
+                this.drawLines(lines.map(text => [{ text, run: { text, code: true }, width: 0, space: false }]), code, MARGIN + 8, this.width - 16, 'left', (top, height) => {
+                    this.pdf.setFillColor(244, 241, 236);
+                    this.pdf.rect(MARGIN, top, this.width, height, 'F');
+                });
+                break;
+            }
+            case 'image':
+                this.gap(PARAGRAPH_GAP);
+                this.image(block.url, block.caption, MARGIN, this.width, (this.bottom - MARGIN) * MAX_IMAGE_HEIGHT);
+                break;
+            case 'rule':
+                this.ensureSpace(BODY_SIZE * 2);
+                this.gap(BODY_SIZE);
+                this.pdf.setDrawColor(MUTED[0], MUTED[1], MUTED[2]);
+                this.pdf.setLineWidth(0.5);
+                this.pdf.line(this.pageWidth / 2 - 40, this.y, this.pageWidth / 2 + 40, this.y);
+                this.gap(BODY_SIZE);
+                break;
+        }
+        this.gap(PARAGRAPH_GAP);
+    }
+
+    // --- Sections ---
+
+    header(story: EventStory) {
+        if (story.category) {
+            this.plain(story.category.toUpperCase(), { family: HEADING_FONT, size: 9, leading: 1.4, color: ACCENT, bold: true }, 'center');
+            this.gap(6);
+        }
+        this.plain(story.title, { family: HEADING_FONT, size: 28, leading: 1.15, color: INK, bold: true }, 'center');
+        this.gap(10);
+        const facts = [formatStoryDate(story.date), story.location].filter(Boolean).join(' · ');
+        this.plain(facts, { family: BODY_FONT, size: 12.5, leading: 1.4, color: MUTED, italic: true }, 'center');
+        if (story.participants.length > 0) {
+            this.plain(`With ${story.participants.join(', ')}`, { family: BODY_FONT, size: 11, leading: 1.4, color: MUTED }, 'center');
+        }
+        if (story.hashtags.length > 0) {
+            this.gap(4);
+            this.plain(story.hashtags.map(formatHashtag).join('  '), { family: HEADING_FONT, size: 9.5, leading: 1.4, color: ACCENT }, 'center');
+        }
+        this.gap(14);
+        this.pdf.setDrawColor(ACCENT[0], ACCENT[1], ACCENT[2]);
+        this.pdf.setLineWidth(0.75);
+        this.pdf.line(this.pageWidth / 2 - 50, this.y, this.pageWidth / 2 + 50, this.y);
+        this.gap(24);
+    }
+
+    /**
+     * Photos two to a row, each row kept on one page with its captions.
+     */
+    gallery(story: EventStory) {
+        const photos = story.gallery.filter(item => item.type === 'image');
+        const videos = story.gallery.length - photos.length;
+        if (photos.length === 0 && videos === 0) return;
+        this.heading([{ text: 'Gallery' }], HEADING_SIZES[1]);
+
+        const columnWidth = (this.width - GALLERY_GAP) / 2;
+        const captionStyle: TextStyle = { family: BODY_FONT, size: CAPTION_SIZE, leading: 1.35, color: MUTED, italic: true };
+        for (let i = 0; i < photos.length; i += 2) {
+            const row = photos.slice(i, i + 2).map(photo => {
+                const image = this.images.get(photo.url);
+                const caption = photo.caption || (image ? '' : 'Photo could not be included');
+                const scale = image ? Math.min(columnWidth / image.width, GALLERY_IMAGE_HEIGHT / image.height) : 0;
+                return {
+                    url: photo.url,
+                    image,
+                    width: image ? image.width * scale : 0,
+                    height: image ? image.height * scale : 0,
+                    lines: caption ? this.layout([{ text: caption }], captionStyle, columnWidth) : [],
+                };
+            });
+            // Photos of a row are centered on the tallest one, captions start below it
+            const imageHeight = Math.max(...row.map(cell => cell.height));
+            const rowHeight = imageHeight + 6 + Math.max(...row.map(cell => cell.lines.length)) * CAPTION_SIZE * 1.35;
+            this.ensureSpace(rowHeight);
+            const top = this.y;
+            row.forEach((cell, column) => {
+                const x = MARGIN + column * (columnWidth + GALLERY_GAP);
+                if (cell.image) this.pdf.addImage(cell.image.data, '', x + (columnWidth - cell.width) / 2, top + (imageHeight - cell.height) / 2, cell.width, cell.height, cell.url, 'FAST');
+                this.y = top + imageHeight + 6;
+                this.drawLines(cell.lines, captionStyle, x, columnWidth, 'center');
+            });
+            this.y = top + rowHeight;
+            this.gap(GALLERY_GAP);
+        }
+        if (videos > 0) {
+            this.plain(`${videos} video${videos === 1 ? '' : 's'} can be watched in the family archive.`, captionStyle, 'center');
+            this.gap(PARAGRAPH_GAP);
+        }
+    }
+
+    reviews(story: EventStory) {
+        if (story.reviews.length === 0) return;
+        this.heading([{ text: 'Reviews' }], HEADING_SIZES[1]);
+        story.reviews.forEach(review => {
+            this.ensureSpace(BODY_SIZE * LEADING * 3);
+            this.paragraph([
+                { text: review.author, bold: true },
+                { text: ` · Rated ${review.rating} of 5 · ${formatStoryDate(review.createdAt)}` },
+            ], { family: HEADING_FONT, size: 9.5, leading: 1.4, color: MUTED });
+            if (review.comment) this.paragraph([{ text: review.comment }], { family: BODY_FONT, size: BODY_SIZE, leading: LEADING, color: INK });
+            this.gap(PARAGRAPH_GAP * 1.5);
+        });
+    }
+
+    // --- Yearbook ---
+
+    cover(title: string, subtitle: string, chapterCount: number, photoUrl?: string) {
+        if (photoUrl && this.images.get(photoUrl)) {
+            this.gap(20);
+            this.image(photoUrl, undefined, MARGIN, this.width, (this.bottom - MARGIN) * 0.5);
+            this.gap(36);
+        } else {
+            this.y = this.pageHeight * 0.35;
+        }
+        this.plain(title, { family: HEADING_FONT, size: 34, leading: 1.15, color: INK, bold: true }, 'center');
+        this.gap(12);
+        if (subtitle) this.plain(subtitle, { family: HEADING_FONT, size: 14, leading: 1.4, color: ACCENT }, 'center');
+        this.plain(`${chapterCount} ${chapterCount === 1 ? 'chapter' : 'chapters'}`, { family: BODY_FONT, size: 12, leading: 1.4, color: MUTED, italic: true }, 'center');
+    }
+
+    /**
+     * Fill the contents pages reserved after the cover, now that every
+     * chapter's page is known.
+     */
+    contents(rows: { title: string; date?: string; page: number }[], firstPage: number) {
+        const entry: TextStyle = { family: BODY_FONT, size: BODY_SIZE + 0.5, leading: 1.7, color: INK };
+        for (let start = 0; start < rows.length; start += PDF_TOC_ROWS) {
+            this.pdf.setPage(firstPage + start / PDF_TOC_ROWS);
+            this.y = MARGIN;
+            this.heading([{ text: start === 0 ? 'Contents' : 'Contents (continued)' }], HEADING_SIZES[1]);
+            rows.slice(start, start + PDF_TOC_ROWS).forEach(row => {
+                const label = row.date ? `${formatStoryDate(row.date)} — ${row.title}` : row.title;
+                const lineHeight = entry.size * entry.leading;
+                const baseline = this.y + (lineHeight + entry.size * 0.7) / 2;
+                this.useFont(entry, { text: '' });
+                const [first] = this.pdf.splitTextToSize(label, this.width - 48) as string[];
+                this.pdf.text(first === label ? label : `${first.trimEnd()}…`, MARGIN, baseline);
+                this.useFont({ ...entry, color: ACCENT }, { text: '' });
+                this.pdf.text(String(row.page), MARGIN + this.width, baseline, { align: 'right' });
+                this.y += lineHeight;
+            });
+        }
+    }
+
+    index(index: YearbookIndex) {
+        this.heading([{ text: 'Index' }], HEADING_SIZES[1]);
+        const sections: [string, YearbookIndexEntry[]][] = [['People', index.people], ['Places', index.places]];
+        sections.filter(([, entries]) => entries.length > 0).forEach(([title, entries]) => {
+            this.ensureSpace(BODY_SIZE * 4);
+            this.plain(title.toUpperCase(), { family: HEADING_FONT, size: 9.5, leading: 1.8, color: ACCENT, bold: true });
+            entries.forEach(entry => this.paragraph(
+                [{ text: entry.name }, { text: `  ${entry.pages.join(', ')}`, bold: true }],
+                { family: BODY_FONT, size: BODY_SIZE, leading: 1.45, color: INK },
+            ));
+            this.gap(PARAGRAPH_GAP * 1.5);
+        });
+    }
+}
+
+/**
+ * Render the event story to an A4 PDF.
+ */
+export async function renderEventStoryPdf(story: EventStory, options: EventStoryPdfOptions = {}): Promise<EventStoryPdfResult> {
+    const pdf = new jsPDF({ unit: 'pt', format: 'a4', orientation: 'p', compress: true });
+    pdf.setProperties({
+        title: story.title,
+        subject: formatStoryDate(story.date),
+        keywords: story.hashtags.map(formatHashtag).join(' '),
+        creator: 'Zfam Heritage Catalog',
+    });
+
+    const writer = new StoryPdfWriter(pdf, options);
+    await writer.loadFonts();
+    await writer.loadImages(collectStoryImages(story));
+
+    writer.header(story);
+    story.blocks.forEach(block => writer.block(block));
+    writer.gallery(story);
+    writer.reviews(story);
+    writer.drawFooters(story.title);
+
+    return { pdf: pdf.output('arraybuffer'), pageCount: pdf.getNumberOfPages(), missing: writer.missing };
+}
+
+/**
+ * Render many events as one yearbook PDF: a cover, the contents, a chapter
+ * per event in date order and the index of people and places.
+ */
+export async function renderYearbookPdf(yearbook: { title: string; subtitle?: string; stories: EventStory[] }, options: EventStoryPdfOptions = {}): Promise<EventStoryPdfResult> {
+    const stories = orderYearbookStories(yearbook.stories);
+    const pdf = new jsPDF({ unit: 'pt', format: 'a4', orientation: 'p', compress: true });
+    pdf.setProperties({
+        title: yearbook.title,
+        subject: yearbookSpan(stories),
+        keywords: Array.from(new Set(stories.flatMap(story => story.hashtags.map(formatHashtag)))).join(' '),
+        creator: 'Zfam Heritage Catalog',
+    });
+
+    const writer = new StoryPdfWriter(pdf, options);
+    await writer.loadFonts();
+    const images = Array.from(new Set(stories.flatMap(collectStoryImages)));
+    await writer.loadImages(images);
+
+    writer.cover(yearbook.title, yearbook.subtitle || yearbookSpan(stories), stories.length, images[0]);
+
+    // The contents come before the chapters, so their pages are reserved first
+    const hasIndex = yearbookHasIndex(stories);
+    const contentsPages = Math.max(1, Math.ceil((stories.length + (hasIndex ? 1 : 0)) / PDF_TOC_ROWS));
+    for (let i = 0; i < contentsPages; i++) writer.newPage();
+
+    const starts = stories.map(story => {
+        const page = writer.newPage();
+        writer.header(story);
+        story.blocks.forEach(block => writer.block(block));
+        writer.gallery(story);
+        writer.reviews(story);
+        return { story, page };
+    });
+
+    const rows: { title: string; date?: string; page: number }[] = starts.map(({ story, page }) => ({ title: story.title, date: story.date, page }));
+    if (hasIndex) {
+        rows.push({ title: 'Index', page: writer.newPage() });
+        writer.index(buildYearbookIndex(starts));
+    }
+    writer.contents(rows, 2);
+    writer.drawFooters(yearbook.title, 2);
+
+    return { pdf: pdf.output('arraybuffer'), pageCount: pdf.getNumberOfPages(), missing: writer.missing };
+}
@@ -0,0 +1,334 @@
+/**
+ * Family Archive Service
+ *
+ * Whole-family backup for admins: exports events, albums, stacks, the media
+ * library, reviews and member display data of one family_id, with every
+ * media file, as a zip with a browsable index.html. The matching import
+ * restores such a backup into an empty family and reports what it skipped.
+ */
+
+import _ from 'lodash';
+import { supabase as libSupabase } from '../lib/supabase';
+import { AlbumDataService } from './albumDataService';
+import { AlbumArchiveService, type ArchiveMediaSource } from './albumArchive';
+import { archiveExtension, loadArchiveFile } from './printService';
+import {
+    FAMILY_ARCHIVE_MANIFEST,
+    FAMILY_ARCHIVE_PATHS,
+    FAMILY_ARCHIVE_SECTIONS,
+    buildFamilyIndexHtml,
+    buildFamilyManifest,
+    collectFamilyMediaRefs,
+    collectFamilyMediaUrls,
+    collectFamilyVideoUrls,
+    parseFamilyManifest,
+    parseFamilySection,
+    replaceFamilyUrls,
+    type FamilyArchiveData,
+    type FamilyArchiveSection,
+    type FamilyMemberRecord,
+    type FamilyReviewRow,
+} from '../lib/familyArchive';
+import type { AlbumArchiveMedia } from '../lib/albumArchive';
+import { ZipWriter, readZip } from '../lib/zip';
+import type { UnifiedAlbum } from '../types/album';
+
+const supabase = libSupabase as any;
+
+const ARCHIVE_BATCH_SIZE = 4;
+const INSERT_BATCH_SIZE = 100;
+
+// Tables that must be empty before a backup is restored into a family
+const RESTORE_TABLES = ['events', 'albums', 'stacks', 'family_media'];
+
+export interface FamilyExportResult {
+    counts: Record<FamilyArchiveSection, number>;
+    mediaCount: number;
+    missing: string[];          // Media URLs that could not be downloaded
+}
+
+export interface FamilyImportSection {
+    restored: number;
+    skipped: string[];          // One line per row that was not restored, with the reason
+}
+
+export type FamilyImportResult =
+    | {
+        status: 'imported';
+        sections: Record<FamilyArchiveSection, FamilyImportSection>;
+        media: FamilyImportSection;
+    }
+    | { status: 'error'; error: string };
+
+type Progress = (message: string) => void;
+
+function describeError(error: unknown) {
+    if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+    return 'unknown error';
+}
+
+export class FamilyArchiveService {
+    /**
+     * Everything stored for the family, with media at its current URLs.
+     */
+    static async loadFamilyData(familyId: string, onProgress?: Progress): Promise<FamilyArchiveData> {
+        const rows = async (table: string, order: string) => {
+            const { data, error } = await supabase.from(table).select('*').eq('family_id', familyId).order(order);
+            if (error) throw new Error(`Could not read ${table}: ${error.message}`);
+            return data || [];
+        };
+
+        onProgress?.('Reading events, stacks and library');
+        const events = await rows('events', 'event_date');
+        const stacks = await rows('stacks', 'created_at');
+        const media = await rows('family_media', 'created_at');
+
+        const { data: members } = await supabase
+            .from('profiles')
+            .select('id, full_name, avatar_url, role')
+            .eq('family_id', familyId);
+
+        // Reviews are optional: older databases have no event_reviews table
+        const reviews: FamilyReviewRow[] = [];
+        for (const ids of _.chunk(events.map((event: { id: string }) => event.id), INSERT_BATCH_SIZE)) {
+            const { data, error } = await supabase.from('event_reviews').select('*').in('event_id', ids);
+            if (error) {
+                console.warn('Skipping event reviews:', error.message);
+                break;
+            }
+            reviews.push(...(data || []));
+        }
+
+        const { data: albumRows, error: albumError } = await supabase.from('albums').select('id').eq('family_id', familyId);
+        if (albumError) throw new Error(`Could not read albums: ${albumError.message}`);
+        const albums: UnifiedAlbum[] = [];
+        for (const [index, row] of (albumRows || []).entries()) {
+            onProgress?.(`Reading album ${index + 1} of ${albumRows.length}`);
+            const album = await AlbumDataService.fetchAlbum(row.id);
+            if (!album) throw new Error('Could not read an album');
+            albums.push(album);
+        }
+
+        return { events, albums, stacks, media, reviews, members: (members || []) as FamilyMemberRecord[] };
+    }
+
+    /**
+     * Download `<family>_Backup_<date>.zip`. Media that cannot be downloaded
+     * keeps its URL in the data and is listed in the manifest. Files go into
+     * the archive as they are downloaded, so only one batch is held in memory.
+     */
+    static async exportFamily(familyId: string, onProgress?: Progress): Promise<FamilyExportResult | null> {
+        try {
+            const { data: family } = await supabase.from('family_groups').select('id, name').eq('id', familyId).maybeSingle();
+            const data = await this.loadFamilyData(familyId, onProgress);
+
+            const urls = collectFamilyMediaUrls(data);
+            const videoUrls = collectFamilyVideoUrls(data);
+            const files: AlbumArchiveMedia[] = [];
+            const zip = new ZipWriter();
+            const missing: string[] = [];
+
+            for (let i = 0; i < urls.length; i += ARCHIVE_BATCH_SIZE) {
+                onProgress?.(`Downloading media ${i + 1} of ${urls.length}`);
+                const batch = urls.slice(i, i + ARCHIVE_BATCH_SIZE);
+                const loaded = await Promise.all(batch.map(url => loadArchiveFile(url)));
+                batch.forEach((url, j) => {
+                    const file = loaded[j];
+                    if (!file) {
+                        missing.push(url);
+                        return;
+                    }
+                    const kind = videoUrls.has(url) ? 'video' : 'image';
+                    const path = `media/${String(i + j + 1).padStart(5, '0')}.${archiveExtension(file.type, url, kind)}`;
+                    files.push({ path, url, contentType: file.type, size: file.data.length });
+                    zip.add({ path, data: file.data });
+                });
+            }
+
+            onProgress?.('Packing the archive');
+            const archived = replaceFamilyUrls(data, new Map(files.map(file => [file.url, file.path])));
+            const manifest = buildFamilyManifest({ id: familyId, name: family?.name || 'Family' }, archived, files, missing);
+            zip.add({ path: FAMILY_ARCHIVE_MANIFEST, data: JSON.stringify(manifest, null, 2) });
+            zip.add({ path: 'index.html', data: buildFamilyIndexHtml(manifest, archived) });
+            FAMILY_ARCHIVE_SECTIONS.forEach(section => {
+                zip.add({ path: FAMILY_ARCHIVE_PATHS[section], data: JSON.stringify(archived[section], null, 2) });
+            });
+
+            const url = URL.createObjectURL(zip.finish());
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `${(family?.name || 'Family').replace(/\s+/g, '_')}_Backup_${new Date().toISOString().slice(0, 10)}.zip`;
+            a.click();
+            URL.revokeObjectURL(url);
+
+            return { counts: manifest.counts, mediaCount: files.length, missing };
+        } catch (error) {
+            console.error('Error exporting family archive:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Insert rows in batches; when a batch fails its rows are retried one
+     * by one so a single bad row only skips itself. Returns the rows that
+     * could not be inserted alongside the report.
+     */
+    static async insertRows(
+        table: string,
+        rows: Record<string, unknown>[],
+        label: (row: Record<string, unknown>) => string
+    ): Promise<{ section: FamilyImportSection; failed: Record<string, unknown>[] }> {
+        const section: FamilyImportSection = { restored: 0, skipped: [] };
+        const failed: Record<string, unknown>[] = [];
+        for (const batch of _.chunk(rows, INSERT_BATCH_SIZE)) {
+            const { error } = await supabase.from(table).insert(batch);
+            if (!error) {
+                section.restored += batch.length;
+                continue;
+            }
+            for (const row of batch) {
+                const { error: rowError } = await supabase.from(table).insert(row);
+                if (rowError) {
+                    section.skipped.push(`${label(row)}: ${describeError(rowError)}`);
+                    failed.push(row);
+                } else {
+                    section.restored++;
+                }
+            }
+        }
+        return { section, failed };
+    }
+
+    /**
+     * Restore a family backup into `familyId`, which must not have events,
+     * albums, stacks or library media yet. Content by people who are not
+     * members of the family (matched by id, then by name) is attributed to
+     * `userId`, except reviews, which speak for their author and are skipped
+     * and listed instead; member accounts themselves are never created.
+     */
+    static async importFamily(file: Blob, familyId: string, userId: string, onProgress?: Progress): Promise<FamilyImportResult> {
+        try {
+            const files = await readZip(new Uint8Array(await file.arrayBuffer()));
+            const manifestData = files.get(FAMILY_ARCHIVE_MANIFEST);
+            if (!manifestData) return { status: 'error', error: 'The archive has no manifest.json' };
+            const manifest = parseFamilyManifest(JSON.parse(new TextDecoder().decode(manifestData)));
+
+            const data: FamilyArchiveData = {
+                events: parseFamilySection(files.get(FAMILY_ARCHIVE_PATHS.events)),
+                albums: parseFamilySection(files.get(FAMILY_ARCHIVE_PATHS.albums)),
+                stacks: parseFamilySection(files.get(FAMILY_ARCHIVE_PATHS.stacks)),
+                media: parseFamilySection(files.get(FAMILY_ARCHIVE_PATHS.media)),
+                reviews: parseFamilySection(files.get(FAMILY_ARCHIVE_PATHS.reviews)),
+                members: parseFamilySection(files.get(FAMILY_ARCHIVE_PATHS.members)),
+            };
+
+            for (const table of RESTORE_TABLES) {
+                const { count, error } = await supabase.from(table).select('id', { count: 'exact', head: true }).eq('family_id', familyId);
+                if (error) return { status: 'error', error: `Could not check ${table}: ${error.message}` };
+                if (count) return { status: 'error', error: 'A backup can only be restored into an empty family. This family already has content.' };
+            }
+
+            // Authors: same account if it is in this family, else a member with the same name
+            const { data: targetMembers } = await supabase.from('profiles').select('id, full_name').eq('family_id', familyId);
+            const memberIds = new Set<string>((targetMembers || []).map((member: { id: string }) => member.id));
+            const normalize = (name?: string | null) => (name || '').trim().toLowerCase();
+            const memberByName = new Map<string, string>((targetMembers || [])
+                .filter((member: { full_name: string | null }) => normalize(member.full_name))
+                .map((member: { id: string; full_name: string }) => [normalize(member.full_name), member.id]));
+            const authors = new Map<string, string | undefined>(data.members.map(member => [
+                member.id,
+                memberIds.has(member.id) ? member.id : memberByName.get(normalize(member.full_name)),
+            ]));
+            const author = (id?: string | null) => (id ? authors.get(id) ?? (memberIds.has(id) ? id : undefined) : undefined);
+
+            // Media: member avatars belong to their accounts and are not restored
+            const archivedFiles = new Map(manifest.files.map(item => [item.path, item]));
+            const remoteUrls = new Set(collectFamilyMediaUrls(data));
+            const sources: ArchiveMediaSource[] = [];
+            const unavailable: string[] = [];
+            collectFamilyMediaRefs({ ...data, members: [] }).forEach(ref => {
+                const item = archivedFiles.get(ref);
+                const bytes = files.get(ref);
+                if (item && bytes) sources.push({ ref, url: item.url, data: bytes, contentType: item.contentType });
+                else if (remoteUrls.has(ref)) sources.push({ ref, url: ref });
+                else unavailable.push(item?.url || ref);
+            });
+
+            const videoUrls = collectFamilyVideoUrls(data);
+            const restoredMedia = await AlbumArchiveService.restoreMediaFiles(sources, familyId, videoUrls, (done, total) =>
+                onProgress?.(`Uploading media ${done} of ${total}`)
+            );
+            const rows = replaceFamilyUrls(data, restoredMedia.urls);
+
+            onProgress?.('Restoring events');
+            const eventIds = new Map(rows.events.map(event => [event.id, crypto.randomUUID()]));
+            const events = await this.insertRows('events', rows.events.map(event => ({
+                ..._.omit(event, ['id', 'family_id']),
+                id: eventIds.get(event.id),
+                family_id: familyId,
+                created_by: author(event.created_by) ?? userId,
+            })), row => `Event "${row.title}"`);
+            const failedEvents = new Set(events.failed.map(row => row.id));
+            const restoredEvent = (id?: string | null) => {
+                const newId = id ? eventIds.get(id) : undefined;
+                return newId && !failedEvents.has(newId) ? newId : undefined;
+            };
+
+            onProgress?.('Restoring the media library');
+            const { section: media } = await this.insertRows('family_media', rows.media.map(row => ({
+                ..._.omit(row, ['id', 'family_id']),
+                family_id: familyId,
+                uploaded_by: author(row.uploaded_by) ?? userId,
+            })), row => `Library file "${row.filename || row.url}"`);
+
+            onProgress?.('Restoring stacks');
+            const { section: stacks } = await this.insertRows('stacks', rows.stacks.map(stack => ({
+                ..._.omit(stack, ['id', 'family_id']),
+                family_id: familyId,
+                user_id: author(stack.user_id) ?? userId,
+            })), row => `Stack "${row.title}"`);
+
+            const albums: FamilyImportSection = { restored: 0, skipped: [] };
+            for (const [index, album] of rows.albums.entries()) {
+                onProgress?.(`Restoring album ${index + 1} of ${rows.albums.length}`);
+                const restored = await AlbumArchiveService.restoreAlbum(album, familyId, author(album.creatorId) ?? userId, restoredEvent(album.eventId));
+                if (restored.albumId) albums.restored++;
+                else albums.skipped.push(`Album "${album.title}": ${restored.error}`);
+            }
+
+            onProgress?.('Restoring reviews');
+            const orphanReviews = rows.reviews.filter(review => !restoredEvent(review.event_id));
+            const strangerReviews = rows.reviews.filter(review => restoredEvent(review.event_id) && !author(review.user_id));
+            const { section: reviews } = await this.insertRows('event_reviews', rows.reviews
+                .filter(review => restoredEvent(review.event_id) && author(review.user_id))
+                .map(review => ({
+                    ..._.omit(review, ['id']),
+                    event_id: restoredEvent(review.event_id),
+                    user_id: author(review.user_id),
+                })), row => `Review "${String(row.comment).slice(0, 40)}"`);
+            reviews.skipped.push(
+                ...orphanReviews.map(review => `Review "${review.comment.slice(0, 40)}": its event was not restored`),
+                ...strangerReviews.map(review => `Review "${review.comment.slice(0, 40)}": its author is not a member of this family`),
+            );
+
+            const members: FamilyImportSection = {
+                restored: data.members.filter(member => author(member.id)).length,
+                skipped: data.members
+                    .filter(member => !author(member.id))
+                    .map(member => `${member.full_name || 'A member'} is not in this family yet; their content is attributed to you and their reviews are skipped`),
+            };
+
+            return {
+                status: 'imported',
+                sections: { events: events.section, albums, stacks, media, reviews, members },
+                media: {
+                    restored: sources.length - restoredMedia.skipped.length,
+                    skipped: [...unavailable, ...restoredMedia.skipped].map(url => `Media ${url}: could not be restored`),
+                },
+            };
+        } catch (error) {
+            console.error('Error importing family archive:', error);
+            return { status: 'error', error: error instanceof Error ? error.message : 'Failed to restore the backup' };
+        }
+    }
+}
@@ -0,0 +1,333 @@
+/**
+ * Comments and Reactions
+ *
+ * Threaded comments and emoji reactions on single album pages, stack items
+ * and gallery media. Family members read and write media_comments and
+ * media_reactions directly; guests use the share link functions, which only
+ * answer while the link allows comments. Picking a family member in the
+ * comment box mentions them and the database notifies them.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+
+export type FeedbackTargetType = 'album' | 'event' | 'stack';
+
+/**
+ * Where comments are read and written: as a family member on one album,
+ * event or stack, or as a guest on whatever a share link shows.
+ */
+export type FeedbackScope =
+    | { kind: 'family'; targetType: FeedbackTargetType; targetId: string }
+    | { kind: 'guest'; token: string; password?: string };
+
+/**
+ * Who is commenting or reacting: the signed-in member, or the display name
+ * a guest entered.
+ */
+export interface FeedbackActor {
+    userId?: string | null;
+    guestName?: string;
+}
+
+export interface MediaComment {
+    id: string;
+    itemKey: string;
+    parentId: string | null;
+    body: string;
+    authorId: string | null;    // null for guests
+    authorName: string;
+    avatarUrl: string | null;
+    isGuest: boolean;
+    createdAt: string;
+}
+
+export interface CommentThread extends MediaComment {
+    replies: CommentThread[];
+}
+
+export interface MediaReaction {
+    id: string;
+    itemKey: string;
+    emoji: string;
+    authorId: string | null;
+    guestName: string | null;
+    sharedLinkId: string | null;
+}
+
+export interface MediaFeedback {
+    comments: MediaComment[];
+    reactions: MediaReaction[];
+    linkId: string | null;      // The share link, for guests
+}
+
+export interface MentionableMember {
+    id: string;
+    name: string;
+}
+
+export const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '👏', '🙏'];
+
+export const EMPTY_FEEDBACK: MediaFeedback = { comments: [], reactions: [], linkId: null };
+
+interface CommentRow {
+    id: string;
+    item_key: string;
+    parent_id: string | null;
+    body: string;
+    author_id?: string | null;
+    guest_name: string | null;
+    created_at: string;
+    profiles?: { full_name: string | null; avatar_url: string | null } | null;
+}
+
+interface ReactionRow {
+    id: string;
+    item_key: string;
+    emoji: string;
+    author_id?: string | null;
+    guest_name: string | null;
+    shared_link_id: string | null;
+}
+
+function toComment(row: CommentRow): MediaComment {
+    const isGuest = !!row.guest_name;
+    return {
+        id: row.id,
+        itemKey: row.item_key,
+        parentId: row.parent_id,
+        body: row.body,
+        authorId: row.author_id ?? null,
+        authorName: (isGuest ? row.guest_name : row.profiles?.full_name) || 'Family member',
+        avatarUrl: row.profiles?.avatar_url ?? null,
+        isGuest,
+        createdAt: row.created_at,
+    };
+}
+
+function toReaction(row: ReactionRow): MediaReaction {
+    return {
+        id: row.id,
+        itemKey: row.item_key,
+        emoji: row.emoji,
+        authorId: row.author_id ?? null,
+        guestName: row.guest_name,
+        sharedLinkId: row.shared_link_id,
+    };
+}
+
+/**
+ * Nest the comments on one item under the ones they reply to, oldest first.
+ */
+export function buildCommentThreads(comments: MediaComment[]): CommentThread[] {
+    const threads = new Map<string, CommentThread>();
+    comments.forEach(comment => threads.set(comment.id, { ...comment, replies: [] }));
+
+    const roots: CommentThread[] = [];
+    threads.forEach(thread => {
+        const parent = thread.parentId ? threads.get(thread.parentId) : undefined;
+        if (parent) parent.replies.push(thread);
+        else roots.push(thread);
+    });
+
+    const byDate = (a: CommentThread, b: CommentThread) => a.createdAt.localeCompare(b.createdAt);
+    threads.forEach(thread => thread.replies.sort(byDate));
+    return roots.sort(byDate);
+}
+
+/**
+ * Whether the reaction was left by this member, or by this guest through
+ * the same link.
+ */
+export function isOwnReaction(reaction: MediaReaction, actor: FeedbackActor, linkId: string | null): boolean {
+    if (actor.userId) return reaction.authorId === actor.userId;
+    return !!actor.guestName && reaction.sharedLinkId === linkId &&
+        reaction.guestName?.toLowerCase() === actor.guestName.trim().toLowerCase();
+}
+
+/**
+ * The members mentioned as "@Full Name" in a comment.
+ */
+export function findMentions(body: string, members: MentionableMember[]): string[] {
+    const lower = body.toLowerCase();
+    return members.filter(member => lower.includes(`@${member.name.toLowerCase()}`)).map(member => member.id);
+}
+
+export class MediaCommentService {
+    /**
+     * Every comment and reaction on the album, event or stack.
+     */
+    static async load(scope: FeedbackScope): Promise<MediaFeedback> {
+        if (scope.kind === 'guest') {
+            const { data, error } = await supabase.rpc('get_shared_feedback', {
+                token_param: scope.token,
+                password_param: scope.password || null,
+            });
+            if (error) {
+                console.error('Failed to load comments:', error);
+                return EMPTY_FEEDBACK;
+            }
+            if (!data) return EMPTY_FEEDBACK;
+            return {
+                comments: ((data.comments || []) as CommentRow[]).map(toComment),
+                reactions: ((data.reactions || []) as ReactionRow[]).map(toReaction),
+                linkId: data.link_id,
+            };
+        }
+
+        const [comments, reactions] = await Promise.all([
+            supabase
+                .from('media_comments')
+                .select('id, item_key, parent_id, body, author_id, guest_name, created_at, profiles:author_id (full_name, avatar_url)')
+                .eq('target_type', scope.targetType)
+                .eq('target_id', scope.targetId)
+                .order('created_at', { ascending: true }),
+            supabase
+                .from('media_reactions')
+                .select('id, item_key, emoji, author_id, guest_name, shared_link_id')
+                .eq('target_type', scope.targetType)
+                .eq('target_id', scope.targetId),
+        ]);
+
+        const error = comments.error || reactions.error;
+        if (error) {
+            // Older databases have no comment tables
+            if (error.code !== '42P01') console.error('Failed to load comments:', error);
+            return EMPTY_FEEDBACK;
+        }
+        return {
+            comments: ((comments.data || []) as CommentRow[]).map(toComment),
+            reactions: ((reactions.data || []) as ReactionRow[]).map(toReaction),
+            linkId: null,
+        };
+    }
+
+    static async postComment(
+        scope: FeedbackScope,
+        comment: { itemKey: string; parentId: string | null; body: string; mentionIds?: string[] },
+        actor: FeedbackActor
+    ): Promise<{ comment: MediaComment | null; error?: string }> {
+        const body = comment.body.trim();
+        if (!body) return { comment: null, error: 'The comment is empty.' };
+
+        if (scope.kind === 'guest') {
+            const { data, error } = await supabase.rpc('post_shared_comment', {
+                token_param: scope.token,
+                password_param: scope.password || null,
+                guest_name_param: actor.guestName || '',
+                item_key_param: comment.itemKey,
+                parent_id_param: comment.parentId,
+                body_param: body,
+            });
+            if (error || !data?.success) {
+                console.error('Failed to post comment:', error || data?.error);
+                return { comment: null, error: error?.message || data?.error || 'Failed to post comment' };
+            }
+            return { comment: toComment(data.comment) };
+        }
+
+        const { data, error } = await supabase
+            .from('media_comments')
+            .insert({
+                target_type: scope.targetType,
+                target_id: scope.targetId,
+                item_key: comment.itemKey,
+                parent_id: comment.parentId,
+                body,
+                mentioned_ids: comment.mentionIds || [],
+            })
+            .select('id, item_key, parent_id, body, author_id, guest_name, created_at, profiles:author_id (full_name, avatar_url)')
+            .single();
+
+        if (error) {
+            console.error('Failed to post comment:', error);
+            return { comment: null, error: error.message };
+        }
+        return { comment: toComment(data) };
+    }
+
+    /**
+     * Delete a comment and its replies. Family members delete their own,
+     * family admins any.
+     */
+    static async deleteComment(commentId: string): Promise<{ success: boolean; error?: string }> {
+        const { error } = await supabase.from('media_comments').delete().eq('id', commentId);
+
+        if (error) {
+            console.error('Failed to delete comment:', error);
+            return { success: false, error: error.message };
+        }
+        return { success: true };
+    }
+
+    /**
+     * Add the reaction, or take it back if it was already there. Returns
+     * whether the actor's reaction is there now.
+     */
+    static async toggleReaction(
+        scope: FeedbackScope,
+        itemKey: string,
+        emoji: string,
+        actor: FeedbackActor
+    ): Promise<{ reacted: boolean | null; error?: string }> {
+        if (scope.kind === 'guest') {
+            const { data, error } = await supabase.rpc('toggle_shared_reaction', {
+                token_param: scope.token,
+                password_param: scope.password || null,
+                guest_name_param: actor.guestName || '',
+                item_key_param: itemKey,
+                emoji_param: emoji,
+            });
+            if (error || !data?.success) {
+                console.error('Failed to react:', error || data?.error);
+                return { reacted: null, error: error?.message || data?.error || 'Failed to react' };
+            }
+            return { reacted: !!data.reacted };
+        }
+
+        const { data: removed, error: deleteError } = await supabase
+            .from('media_reactions')
+            .delete()
+            .eq('target_type', scope.targetType)
+            .eq('target_id', scope.targetId)
+            .eq('item_key', itemKey)
+            .eq('emoji', emoji)
+            .eq('author_id', actor.userId)
+            .select('id');
+
+        if (deleteError) {
+            console.error('Failed to react:', deleteError);
+            return { reacted: null, error: deleteError.message };
+        }
+        if (removed && removed.length > 0) return { reacted: false };
+
+        const { error } = await supabase
+            .from('media_reactions')
+            .insert({ target_type: scope.targetType, target_id: scope.targetId, item_key: itemKey, emoji });
+
+        if (error) {
+            console.error('Failed to react:', error);
+            return { reacted: null, error: error.message };
+        }
+        return { reacted: true };
+    }
+
+    /**
+     * Family members who can be mentioned, by name.
+     */
+    static async listMentionableMembers(familyId: string): Promise<MentionableMember[]> {
+        const { data, error } = await supabase
+            .from('profiles')
+            .select('id, full_name')
+            .eq('family_id', familyId)
+            .order('full_name');
+
+        if (error) {
+            console.error('Failed to load family members:', error);
+            return [];
+        }
+        return ((data || []) as { id: string; full_name: string | null }[])
+            .filter(row => !!row.full_name)
+            .map(row => ({ id: row.id, name: row.full_name as string }));
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * Preflight Service
+ *
+ * Loads every media URL an album prints (signing private R2 objects the same
+ * way the print export does) to learn whether it is reachable and how many
+ * pixels it has, then hands the probes to analyzePreflight.
+ */
+
+import { CloudflareR2Service } from './cloudflareR2';
+import { analyzePreflight, collectPreflightUrls, type MediaProbe, type PreflightOptions, type PreflightReport } from '../lib/preflight';
+import type { UnifiedAlbum } from '../types/album';
+
+const PROBE_BATCH_SIZE = 8;
+const PROBE_TIMEOUT_MS = 10000;
+
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov|m4v|ogv)(\?|#|$)/i;
+
+export class PreflightService {
+    /**
+     * Reachability and natural size of one URL. Images and videos are loaded
+     * through media elements so cross-origin files without CORS headers can
+     * still be measured.
+     */
+    static probe(url: string, type: 'image' | 'video'): Promise<MediaProbe> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => resolve({ reachable: false }), PROBE_TIMEOUT_MS);
+            const done = (probe: MediaProbe) => {
+                clearTimeout(timer);
+                resolve(probe);
+            };
+
+            CloudflareR2Service.getReadableUrl(url).then(readableUrl => {
+                if (type === 'video') {
+                    const video = document.createElement('video');
+                    video.preload = 'metadata';
+                    video.onloadedmetadata = () => done({ reachable: true });
+                    video.onerror = () => done({ reachable: false });
+                    video.src = readableUrl;
+                } else {
+                    const img = new Image();
+                    img.onload = () => done({ reachable: true, width: img.naturalWidth, height: img.naturalHeight });
+                    img.onerror = () => done({ reachable: false });
+                    img.src = readableUrl;
+                }
+            }).catch(() => done({ reachable: false }));
+        });
+    }
+
+    static async probeAll(album: UnifiedAlbum): Promise<Record<string, MediaProbe>> {
+        const videoUrls = new Set(album.pages.flatMap(page => page.assets
+            .filter(asset => asset.type === 'video' && asset.url)
+            .map(asset => asset.url!)));
+        const urls = collectPreflightUrls(album);
+        const probes: Record<string, MediaProbe> = {};
+
+        for (let i = 0; i < urls.length; i += PROBE_BATCH_SIZE) {
+            const batch = urls.slice(i, i + PROBE_BATCH_SIZE);
+            const results = await Promise.all(batch.map(url =>
+                this.probe(url, videoUrls.has(url) || VIDEO_EXTENSIONS.test(url) ? 'video' : 'image')
+            ));
+            batch.forEach((url, j) => { probes[url] = results[j]; });
+        }
+        return probes;
+    }
+
+    /**
+     * Full preflight report for an album, or null when it could not be run.
+     */
+    static async run(album: UnifiedAlbum, options: PreflightOptions = {}): Promise<PreflightReport | null> {
+        try {
+            const probes = await this.probeAll(album);
+            return analyzePreflight(album, probes, options);
+        } catch (error) {
+            console.error('Preflight failed:', error);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,210 @@
+/**
+ * Print Canvas Renderer
+ * Draws pages of a print plan (lib/printLayout) into canvases for raster
+ * output such as video frames, matching the print PDF: the same frames,
+ * crops, rotation, borders and text. A page is drawn to its trim box, or
+ * with its bleed for printers that take page images; marks belong to the
+ * PDF. Fonts come from the document, so the families the editor loads are
+ * used as they are on screen.
+ */
+
+import {
+    getBleedBox,
+    getTrimBox,
+    parseColor,
+    placeImage,
+    type PrintGeometry,
+    type PrintImageItem,
+    type PrintPagePlan,
+    type PrintRect,
+    type PrintTextItem,
+} from '../lib/printLayout';
+
+export type CanvasImageLoader = (url: string) => Promise<ImageBitmap | null>;
+
+const SERIF_FAMILIES = ['Playfair Display', 'Cormorant Garamond', 'Libre Baskerville', 'EB Garamond', 'Cinzel'];
+
+function inset(rect: PrintRect, by: number): PrintRect {
+    return { x: rect.x + by, y: rect.y + by, width: Math.max(0, rect.width - 2 * by), height: Math.max(0, rect.height - 2 * by) };
+}
+
+function cssFont(item: PrintTextItem) {
+    const fallback = SERIF_FAMILIES.includes(item.fontFamily) ? 'serif' : 'sans-serif';
+    return `${item.italic ? 'italic ' : ''}${item.bold ? 'bold ' : ''}${item.fontSize}px "${item.fontFamily}", ${fallback}`;
+}
+
+/**
+ * Greedy word wrap of each paragraph to `width`; words longer than a line stay whole.
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, width: number): string[] {
+    return text.split('\n').flatMap(paragraph => {
+        const lines: string[] = [];
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > width) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+        return lines;
+    });
+}
+
+export class PrintCanvasRenderer {
+    private geometry: PrintGeometry;
+    private loadImage: CanvasImageLoader;
+    private images = new Map<string, Promise<ImageBitmap | null>>();
+    readonly missing = new Set<string>();
+
+    constructor(geometry: PrintGeometry, loadImage: CanvasImageLoader) {
+        this.geometry = geometry;
+        this.loadImage = loadImage;
+    }
+
+    private image(url: string) {
+        let image = this.images.get(url);
+        if (!image) {
+            image = this.loadImage(url).catch(() => null);
+            this.images.set(url, image);
+        }
+        return image;
+    }
+
+    /**
+     * Rotate clockwise and mirror around the frame center, as CSS does.
+     */
+    private transform(ctx: CanvasRenderingContext2D, frame: PrintRect, rotation: number, flipX = false, flipY = false) {
+        if (!rotation && !flipX && !flipY) return;
+        const cx = frame.x + frame.width / 2;
+        const cy = frame.y + frame.height / 2;
+        ctx.translate(cx, cy);
+        ctx.rotate((rotation * Math.PI) / 180);
+        ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+        ctx.translate(-cx, -cy);
+    }
+
+    private path(ctx: CanvasRenderingContext2D, rect: PrintRect, radius: number) {
+        ctx.beginPath();
+        if (radius > 0) ctx.roundRect(rect.x, rect.y, rect.width, rect.height, radius);
+        else ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    }
+
+    private drawBorder(ctx: CanvasRenderingContext2D, frame: PrintRect, border: { width: number; color: string }, radius: number) {
+        const half = border.width / 2;
+        ctx.strokeStyle = border.color;
+        ctx.lineWidth = border.width;
+        this.path(ctx, inset(frame, half), Math.max(0, radius - half));
+        ctx.stroke();
+    }
+
+    private async drawImage(ctx: CanvasRenderingContext2D, item: PrintImageItem) {
+        const image = await this.image(item.url);
+        if (!image) {
+            this.missing.add(item.url);
+            return;
+        }
+        const placed = placeImage(item.content, image, item.fit, item.bleedClip || undefined);
+
+        ctx.save();
+        this.transform(ctx, item.frame, item.rotation, item.flipX, item.flipY);
+        ctx.globalAlpha = item.opacity;
+        ctx.save();
+        this.path(ctx, item.bleedClip || item.content, item.border ? Math.max(0, item.radius - item.border.width) : item.radius);
+        ctx.clip();
+        ctx.drawImage(image, placed.x, placed.y, placed.width, placed.height);
+        ctx.restore();
+        if (item.border) this.drawBorder(ctx, item.frame, item.border, item.radius);
+        ctx.restore();
+    }
+
+    private async drawText(ctx: CanvasRenderingContext2D, item: PrintTextItem) {
+        const font = cssFont(item);
+        // Web fonts load on first use; wait so the first frame is not drawn in the fallback
+        await document.fonts?.load(font).catch(() => undefined);
+
+        const box = item.border ? inset(item.frame, item.border.width) : item.frame;
+        const inner = inset(box, item.padding);
+
+        ctx.save();
+        this.transform(ctx, item.frame, item.rotation);
+        ctx.globalAlpha = item.opacity;
+
+        if (item.backgroundColor && parseColor(item.backgroundColor)) {
+            ctx.fillStyle = item.backgroundColor;
+            this.path(ctx, box, item.radius);
+            ctx.fill();
+        }
+
+        ctx.save();
+        this.path(ctx, box, item.radius);
+        ctx.clip();
+        ctx.font = font;
+        ctx.letterSpacing = `${item.letterSpacing}px`;
+        ctx.fillStyle = item.color;
+        ctx.strokeStyle = item.color;
+        ctx.textBaseline = 'middle';
+
+        // Justified text is drawn flush left; canvas has no word spacing
+        const align = item.align === 'justify' ? 'left' : item.align;
+        ctx.textAlign = align;
+        const lines = wrapText(ctx, item.text, Math.max(1, inner.width));
+        const lineHeight = item.fontSize * item.lineHeight;
+        const top = inner.y + (inner.height - lines.length * lineHeight) / 2;
+        const x = align === 'center' ? inner.x + inner.width / 2 : align === 'right' ? inner.x + inner.width : inner.x;
+        lines.forEach((line, index) => {
+            const y = top + lineHeight * (index + 0.5);
+            ctx.fillText(line, x, y);
+
+            if (item.decoration !== 'none' && line.trim()) {
+                const width = ctx.measureText(line).width;
+                const start = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+                const lineY = y + item.fontSize * (item.decoration === 'underline' ? 0.4 : 0.05);
+                ctx.lineWidth = item.fontSize / 15;
+                ctx.beginPath();
+                ctx.moveTo(start, lineY);
+                ctx.lineTo(start + width, lineY);
+                ctx.stroke();
+            }
+        });
+        ctx.restore();
+
+        if (item.border) this.drawBorder(ctx, item.frame, item.border, item.radius);
+        ctx.restore();
+    }
+
+    /**
+     * The page's trim box, or its bleed box, drawn into a new canvas `width` pixels wide.
+     */
+    async renderPage(page: PrintPagePlan, width: number, area: 'trim' | 'bleed' = 'trim'): Promise<HTMLCanvasElement> {
+        const box = area === 'bleed' ? getBleedBox(this.geometry) : getTrimBox(this.geometry);
+        const scale = width / box.width;
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width);
+        canvas.height = Math.round(box.height * scale);
+
+        const ctx = canvas.getContext('2d')!;
+        ctx.scale(scale, scale);
+        ctx.translate(-box.x, -box.y);
+        ctx.fillStyle = parseColor(page.backgroundColor) ? page.backgroundColor : '#ffffff';
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+        if (page.backgroundImage) await this.drawImage(ctx, page.backgroundImage);
+        for (const item of page.items) {
+            if (item.kind === 'image') await this.drawImage(ctx, item);
+            else await this.drawText(ctx, item);
+        }
+        return canvas;
+    }
+
+    /**
+     * Free the decoded images once every page is drawn.
+     */
+    async dispose() {
+        const images = await Promise.all(this.images.values());
+        images.forEach(image => image?.close());
+        this.images.clear();
+    }
+}
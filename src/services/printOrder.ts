@@ -0,0 +1,207 @@
+/**
+ * Print Order Renderer
+ * Produces the files a print-on-demand vendor takes for a photo book
+ * (lib/printVendors): the cover spread with back cover, spine and front
+ * cover, the interior as page images or one PDF at the product's size and
+ * bleed, and the order manifest. The album's first and last display pages
+ * are the covers, as in the flipbook.
+ */
+
+import { jsPDF } from 'jspdf';
+import type { DisplaySource } from '../lib/displayPages';
+import { MIN_PRINT_DPI, buildPrintPlan, getPrintGeometry, parseColor, type PrintPagePlan } from '../lib/printLayout';
+import {
+    SPINE_TEXT_MIN_MM,
+    mmToPixels,
+    mmToPoints,
+    planVendorOrder,
+    pointsToMm,
+    type PrintVendorProfile,
+    type VendorOrder,
+    type VendorProduct,
+} from '../lib/printVendors';
+import type { ZipEntry } from '../lib/zip';
+import { PrintCanvasRenderer } from './printCanvas';
+import { fetchPrintImage, renderPrintPlan, type PrintImageLoader } from './printPdf';
+
+export interface PrintOrderOptions {
+    albumId?: string;
+    loadImage?: PrintImageLoader;
+    onProgress?: (message: string) => void;
+}
+
+export interface PrintOrderResult {
+    order: VendorOrder;
+    files: ZipEntry[];          // Cover, interior and manifest, named as the vendor expects
+}
+
+const JPEG_QUALITY = 0.95;
+
+/**
+ * The order as it would be placed, before anything is rendered: for the
+ * export dialog to show page count, spine and warnings.
+ */
+export function previewVendorOrder(
+    source: DisplaySource,
+    displayPageCount: number,
+    profile: PrintVendorProfile,
+    product: VendorProduct,
+    albumId?: string
+): VendorOrder {
+    const geometry = getPrintGeometry(source.config);
+    return planVendorOrder(profile, product, {
+        title: source.title || 'Album',
+        albumId,
+        trimWidthMm: pointsToMm(geometry.trimWidth),
+        trimHeightMm: pointsToMm(geometry.trimHeight),
+        contentPages: Math.max(0, displayPageCount - 2),
+    });
+}
+
+function createCanvas(width: number, height: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+async function jpegBytes(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) throw new Error('Could not draw a print page');
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+function blankPage(index: number): PrintPagePlan {
+    return { pageId: `blank-${index}`, pageNumber: 0, backgroundColor: '#ffffff', backgroundImage: null, items: [] };
+}
+
+/**
+ * Dark or light spine text, whichever reads on the cover color.
+ */
+function spineTextColor(background: string) {
+    const color = parseColor(background);
+    if (!color) return '#000000';
+    const luminance = 0.299 * color.r + 0.587 * color.g + 0.114 * color.b;
+    return luminance > 150 ? '#1a1a1a' : '#ffffff';
+}
+
+/**
+ * Back cover on the left, front cover on the right, each with the wrap on
+ * its outer edges, and the spine between them in the front cover's color
+ * with the title reading top to bottom.
+ */
+async function renderCover(
+    source: DisplaySource,
+    profile: PrintVendorProfile,
+    order: VendorOrder,
+    bitmaps: (url: string) => Promise<ImageBitmap | null>
+) {
+    const { product } = order;
+    const plan = buildPrintPlan(source, {
+        trimSize: { width: mmToPoints(product.trimWidthMm), height: mmToPoints(product.trimHeightMm) },
+        bleedSize: mmToPoints(product.coverWrapMm),
+    });
+    const renderer = new PrintCanvasRenderer(plan.geometry, bitmaps);
+    const front = plan.pages[0];
+    const back = plan.pages[plan.pages.length - 1];
+    const panelWidth = mmToPixels(product.trimWidthMm + 2 * product.coverWrapMm, profile.dpi);
+
+    const { canvas, ctx } = createCanvas(mmToPixels(order.cover.widthMm, profile.dpi), mmToPixels(order.cover.heightMm, profile.dpi));
+    ctx.drawImage(await renderer.renderPage(back, panelWidth, 'bleed'), 0, 0, panelWidth, canvas.height);
+    ctx.drawImage(await renderer.renderPage(front, panelWidth, 'bleed'), canvas.width - panelWidth, 0, panelWidth, canvas.height);
+
+    const spineX = mmToPixels(product.coverWrapMm + product.trimWidthMm, profile.dpi);
+    const spineWidth = mmToPixels(order.spineWidthMm, profile.dpi);
+    ctx.fillStyle = parseColor(front.backgroundColor) ? front.backgroundColor : '#ffffff';
+    ctx.fillRect(spineX, 0, spineWidth, canvas.height);
+
+    if (order.spineWidthMm >= SPINE_TEXT_MIN_MM && order.title) {
+        ctx.save();
+        ctx.translate(spineX + spineWidth / 2, canvas.height / 2);
+        ctx.rotate(Math.PI / 2);
+        ctx.font = `bold ${Math.round(spineWidth * 0.45)}px "Playfair Display", serif`;
+        ctx.fillStyle = spineTextColor(front.backgroundColor);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(order.title, 0, 0, mmToPixels(product.trimHeightMm * 0.8, profile.dpi));
+        ctx.restore();
+    }
+
+    await renderer.dispose();
+    return { canvas, missing: renderer.missing };
+}
+
+/**
+ * Render every file of the order. The manifest is written last so it
+ * carries what rendering found (missing or low-resolution photos).
+ */
+export async function renderVendorOrder(
+    source: DisplaySource,
+    profile: PrintVendorProfile,
+    product: VendorProduct,
+    options: PrintOrderOptions = {}
+): Promise<PrintOrderResult> {
+    const progress = options.onProgress || (() => undefined);
+    const loadImage = options.loadImage || fetchPrintImage;
+    const bitmaps = async (url: string) => {
+        const data = await loadImage(url);
+        if (!data) return null;
+        try {
+            return await createImageBitmap(new Blob([data as Uint8Array<ArrayBuffer>]));
+        } catch {
+            return null;
+        }
+    };
+
+    const trimSize = { width: mmToPoints(product.trimWidthMm), height: mmToPoints(product.trimHeightMm) };
+    const plan = buildPrintPlan(source, { trimSize, bleedSize: mmToPoints(product.bleedMm) });
+    if (plan.pages.length < 3) throw new Error('A photo book needs a front cover, at least one page and a back cover');
+
+    const order = previewVendorOrder(source, plan.pages.length, profile, product, options.albumId);
+    const interior = [
+        ...plan.pages.slice(1, -1),
+        ...Array.from({ length: order.blankPages }, (_, index) => blankPage(index)),
+    ].map((page, index) => ({ ...page, pageNumber: index + 1 }));
+    const files: ZipEntry[] = [];
+    const missing = new Set<string>();
+
+    progress('Drawing the cover');
+    const cover = await renderCover(source, profile, order, bitmaps);
+    cover.missing.forEach(url => missing.add(url));
+    const coverFile = order.files.find(file => file.kind === 'cover')!;
+    if (profile.pageFormat === 'jpeg') {
+        files.push({ path: coverFile.path, data: await jpegBytes(cover.canvas) });
+    } else {
+        const orientation = order.cover.widthMm > order.cover.heightMm ? 'l' : 'p';
+        const pdf = new jsPDF({ unit: 'mm', format: [order.cover.widthMm, order.cover.heightMm], orientation, compress: true });
+        pdf.setProperties({ title: `${order.title} – Cover`, creator: 'Zfam Heritage Catalog' });
+        pdf.addImage(await jpegBytes(cover.canvas), 'JPEG', 0, 0, order.cover.widthMm, order.cover.heightMm);
+        files.push({ path: coverFile.path, data: new Uint8Array(pdf.output('arraybuffer')) });
+    }
+
+    if (profile.pageFormat === 'jpeg') {
+        const renderer = new PrintCanvasRenderer(plan.geometry, bitmaps);
+        const pageFiles = order.files.filter(file => file.kind === 'page');
+        for (let i = 0; i < interior.length; i++) {
+            progress(`Drawing page ${i + 1} of ${interior.length}`);
+            const file = pageFiles[i];
+            const canvas = await renderer.renderPage(interior[i], file.widthPx!, 'bleed');
+            files.push({ path: file.path, data: await jpegBytes(canvas) });
+        }
+        await renderer.dispose();
+        renderer.missing.forEach(url => missing.add(url));
+    } else {
+        progress(`Writing ${interior.length} interior pages`);
+        const result = await renderPrintPlan({ ...plan, pages: interior }, order.title, { loadImage });
+        files.push({ path: order.files.find(file => file.kind === 'interior')!.path, data: new Uint8Array(result.pdf) });
+        const lowDpi = result.warnings.filter(warning => warning.kind === 'low-dpi');
+        if (lowDpi.length > 0) order.warnings.push(`${lowDpi.length} photo(s) print below ${MIN_PRINT_DPI} dpi at this size.`);
+        result.warnings.filter(warning => warning.kind === 'missing-image').forEach(warning => missing.add(`page ${warning.pageNumber}`));
+    }
+
+    const dropped = plan.warnings.filter(warning => warning.kind === 'video' || warning.kind === 'unsupported');
+    if (dropped.length > 0) order.warnings.push(`${dropped.length} video(s) or map(s) cannot be printed and are left out.`);
+    if (missing.size > 0) order.warnings.push(`${missing.size} photo(s) could not be loaded and are missing from the files.`);
+    files.push({ path: profile.manifestFileName, data: profile.buildManifest(order) });
+    return { order, files };
+}
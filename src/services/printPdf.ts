@@ -0,0 +1,413 @@
+/**
+ * Print PDF Renderer
+ * Draws a print plan (lib/printLayout) into a vector PDF at physical size:
+ * text stays text in embedded fonts, photos are embedded from their original
+ * files and clipped to their frames, pages carry trim and bleed boxes, and
+ * crop and registration marks are drawn in the slug when asked for. Vector
+ * colors are written as CMYK by default. Images and fonts arrive through
+ * loaders and nothing touches the DOM, so it runs headless as well.
+ */
+
+import { jsPDF, GState } from 'jspdf';
+import type { DisplaySource } from '../lib/displayPages';
+import {
+    buildPrintPlan,
+    checkResolution,
+    getBleedBox,
+    getCropMarks,
+    getRegistrationMarks,
+    getTrimBox,
+    parseColor,
+    placeImage,
+    rgbToCmyk,
+    type PrintImageItem,
+    type PrintOptions,
+    type PrintPagePlan,
+    type PrintPlan,
+    type PrintRect,
+    type PrintTextItem,
+    type PrintWarning,
+} from '../lib/printLayout';
+
+export type PrintImageLoader = (url: string) => Promise<Uint8Array | null>;
+export type PrintFontLoader = (family: string, bold: boolean, italic: boolean) => Promise<Uint8Array | null>;
+
+export interface PrintPdfOptions extends PrintOptions {
+    colorSpace?: 'cmyk' | 'rgb';
+    loadImage?: PrintImageLoader;
+    loadFont?: PrintFontLoader;
+}
+
+export interface PrintPdfResult {
+    pdf: ArrayBuffer;
+    pageCount: number;
+    warnings: PrintWarning[];
+}
+
+// Families the app offers that fall back to a serif when their file cannot be loaded
+const SERIF_FAMILIES = ['Playfair Display', 'Cormorant Garamond', 'Libre Baskerville', 'EB Garamond', 'Cinzel'];
+
+const REGISTRATION_LINE_WIDTH = 0.25;
+
+interface LoadedImage {
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+interface ResolvedFont {
+    name: string;
+    style: string;
+}
+
+// ============================================================================
+// LOADERS
+// ============================================================================
+
+async function fetchBytes(url: string): Promise<Uint8Array | null> {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) return null;
+        return new Uint8Array(await response.arrayBuffer());
+    } catch {
+        return null;
+    }
+}
+
+export const fetchPrintImage: PrintImageLoader = url => fetchBytes(url);
+
+/**
+ * Static TTF files of the Google fonts the editor offers, from the Fontsource CDN.
+ */
+export const fetchPrintFont: PrintFontLoader = (family, bold, italic) => {
+    const id = family.toLowerCase().replace(/\s+/g, '-');
+    return fetchBytes(`https://cdn.jsdelivr.net/fontsource/fonts/${id}@latest/latin-${bold ? 700 : 400}-${italic ? 'italic' : 'normal'}.ttf`);
+};
+
+function toBase64(bytes: Uint8Array) {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return btoa(binary);
+}
+
+// ============================================================================
+// RENDERER
+// ============================================================================
+
+class PrintPdfRenderer {
+    private pdf: jsPDF;
+    private sheetHeight: number;
+    private options: PrintPdfOptions;
+    private images = new Map<string, Promise<LoadedImage | null>>();
+    private fonts = new Map<string, Promise<ResolvedFont>>();
+    private substituted = new Set<string>();
+    readonly warnings: PrintWarning[] = [];
+
+    constructor(pdf: jsPDF, sheetHeight: number, options: PrintPdfOptions) {
+        this.pdf = pdf;
+        this.sheetHeight = sheetHeight;
+        this.options = options;
+    }
+
+    // --- Colors ---
+
+    private color(value: string | null | undefined): number[] | null {
+        const rgb = parseColor(value || undefined);
+        if (!rgb) return null;
+        return this.options.colorSpace === 'rgb' ? [rgb.r, rgb.g, rgb.b] : rgbToCmyk(rgb);
+    }
+
+    private setFill(value: string) {
+        const color = this.color(value);
+        if (!color) return false;
+        if (color.length === 4) this.pdf.setFillColor(color[0], color[1], color[2], color[3]);
+        else this.pdf.setFillColor(color[0], color[1], color[2]);
+        return true;
+    }
+
+    private setStroke(value: string) {
+        const color = this.color(value);
+        if (!color) return false;
+        if (color.length === 4) this.pdf.setDrawColor(color[0], color[1], color[2], color[3]);
+        else this.pdf.setDrawColor(color[0], color[1], color[2]);
+        return true;
+    }
+
+    private setText(value: string) {
+        const color = this.color(value) || this.color('#000000')!;
+        if (color.length === 4) this.pdf.setTextColor(color[0], color[1], color[2], color[3]);
+        else this.pdf.setTextColor(color[0], color[1], color[2]);
+    }
+
+    private alphaOf(value: string | null | undefined) {
+        return parseColor(value || undefined)?.a ?? 1;
+    }
+
+    // --- Graphics state ---
+
+    private setOpacity(opacity: number) {
+        if (opacity < 1) this.pdf.setGState(new GState({ opacity, 'stroke-opacity': opacity }));
+    }
+
+    /**
+     * Rotate (clockwise, as CSS does) and mirror around the frame center.
+     * jsPDF draws in top-down page coordinates, the matrix works in PDF space.
+     */
+    private transform(frame: PrintRect, rotation: number, flipX = false, flipY = false) {
+        if (!rotation && !flipX && !flipY) return;
+        const angle = (-rotation * Math.PI) / 180;
+        const sx = flipX ? -1 : 1;
+        const sy = flipY ? -1 : 1;
+        const cx = frame.x + frame.width / 2;
+        const cy = this.sheetHeight - (frame.y + frame.height / 2);
+        const a = Math.cos(angle) * sx;
+        const b = Math.sin(angle) * sx;
+        const c = -Math.sin(angle) * sy;
+        const d = Math.cos(angle) * sy;
+        this.pdf.setCurrentTransformationMatrix(this.pdf.Matrix(a, b, c, d, cx - a * cx - c * cy, cy - b * cx - d * cy));
+    }
+
+    private clip(rect: PrintRect, radius = 0) {
+        if (radius > 0) this.pdf.roundedRect(rect.x, rect.y, rect.width, rect.height, radius, radius, null);
+        else this.pdf.rect(rect.x, rect.y, rect.width, rect.height, null);
+        this.pdf.clip();
+        this.pdf.discardPath();
+    }
+
+    private drawBorder(frame: PrintRect, border: { width: number; color: string }, radius: number) {
+        if (!this.setStroke(border.color)) return;
+        const half = border.width / 2;
+        this.pdf.setLineWidth(border.width);
+        if (radius > 0) this.pdf.roundedRect(frame.x + half, frame.y + half, frame.width - border.width, frame.height - border.width, radius, radius, 'S');
+        else this.pdf.rect(frame.x + half, frame.y + half, frame.width - border.width, frame.height - border.width, 'S');
+    }
+
+    // --- Images ---
+
+    private loadImage(url: string) {
+        let image = this.images.get(url);
+        if (!image) {
+            image = (this.options.loadImage || fetchPrintImage)(url).then(data => {
+                if (!data) return null;
+                try {
+                    const { width, height } = this.pdf.getImageProperties(data);
+                    return { data, width, height };
+                } catch {
+                    return null;
+                }
+            });
+            this.images.set(url, image);
+        }
+        return image;
+    }
+
+    private async drawImage(page: PrintPagePlan, item: PrintImageItem) {
+        const image = await this.loadImage(item.url);
+        if (!image) {
+            this.warnings.push({
+                kind: 'missing-image',
+                pageNumber: page.pageNumber,
+                pageId: page.pageId,
+                itemId: item.id,
+                message: item.id === 'background'
+                    ? 'Background image could not be loaded and was left out'
+                    : 'Photo could not be loaded or is in a format PDF cannot embed, and was left out',
+            });
+            return;
+        }
+
+        const placed = placeImage(item.content, image, item.fit, item.bleedClip || undefined);
+        const lowResolution = checkResolution(page, item, image, placed, this.options.minDpi);
+        if (lowResolution) this.warnings.push(lowResolution);
+
+        const pdf = this.pdf;
+        pdf.saveGraphicsState();
+        this.transform(item.frame, item.rotation, item.flipX, item.flipY);
+        this.setOpacity(item.opacity);
+        pdf.saveGraphicsState();
+        this.clip(item.bleedClip || item.content, item.border ? Math.max(0, item.radius - item.border.width) : item.radius);
+        // The image is embedded once per URL; the alias lets jsPDF reuse it
+        pdf.addImage(image.data, '', placed.x, placed.y, placed.width, placed.height, item.url, 'FAST');
+        pdf.restoreGraphicsState();
+        if (item.border) this.drawBorder(item.frame, item.border, item.radius);
+        pdf.restoreGraphicsState();
+    }
+
+    // --- Text ---
+
+    private resolveFont(item: PrintTextItem): Promise<ResolvedFont> {
+        const style = item.bold && item.italic ? 'bolditalic' : item.bold ? 'bold' : item.italic ? 'italic' : 'normal';
+        const key = `${item.fontFamily}/${style}`;
+        let font = this.fonts.get(key);
+        if (!font) {
+            font = (this.options.loadFont || fetchPrintFont)(item.fontFamily, item.bold, item.italic).then(data => {
+                if (data) {
+                    try {
+                        const file = `${item.fontFamily.replace(/\s+/g, '')}-${style}.ttf`;
+                        this.pdf.addFileToVFS(file, toBase64(data));
+                        this.pdf.addFont(file, item.fontFamily, style);
+                        return { name: item.fontFamily, style };
+                    } catch {
+                        // Unreadable font file: fall through to the standard font
+                    }
+                }
+                return { name: SERIF_FAMILIES.includes(item.fontFamily) ? 'times' : 'helvetica', style };
+            });
+            this.fonts.set(key, font);
+        }
+        return font;
+    }
+
+    private async drawText(page: PrintPagePlan, item: PrintTextItem) {
+        const font = await this.resolveFont(item);
+        if (font.name !== item.fontFamily && !this.substituted.has(item.fontFamily)) {
+            this.substituted.add(item.fontFamily);
+            this.warnings.push({
+                kind: 'font-substituted',
+                pageNumber: page.pageNumber,
+                pageId: page.pageId,
+                itemId: item.id,
+                message: `Font "${item.fontFamily}" could not be embedded; ${font.name === 'times' ? 'Times' : 'Helvetica'} is used instead`,
+            });
+        }
+
+        const pdf = this.pdf;
+        const box = item.border ? inset(item.frame, item.border.width) : item.frame;
+        const inner = inset(box, item.padding);
+
+        pdf.saveGraphicsState();
+        this.transform(item.frame, item.rotation);
+        this.setOpacity(item.opacity);
+
+        if (item.backgroundColor && this.setFill(item.backgroundColor)) {
+            pdf.saveGraphicsState();
+            this.setOpacity(item.opacity * this.alphaOf(item.backgroundColor));
+            if (item.radius > 0) pdf.roundedRect(box.x, box.y, box.width, box.height, item.radius, item.radius, 'F');
+            else pdf.rect(box.x, box.y, box.width, box.height, 'F');
+            pdf.restoreGraphicsState();
+        }
+
+        pdf.saveGraphicsState();
+        this.clip(box, item.radius);
+        pdf.setFont(font.name, font.style);
+        pdf.setFontSize(item.fontSize);
+        pdf.setCharSpace(item.letterSpacing);
+        this.setText(item.color);
+        this.setOpacity(item.opacity * this.alphaOf(item.color));
+
+        // Centered vertically in the padding box, like the flex column on screen
+        const lines: string[] = pdf.splitTextToSize(item.text, Math.max(1, inner.width));
+        const lineHeight = item.fontSize * item.lineHeight;
+        const top = inner.y + (inner.height - lines.length * lineHeight) / 2;
+        lines.forEach((line, index) => {
+            const y = top + lineHeight * (index + 0.5);
+            const justify = item.align === 'justify' && index < lines.length - 1;
+            const align = item.align === 'justify' ? 'left' : item.align;
+            const x = align === 'center' ? inner.x + inner.width / 2 : align === 'right' ? inner.x + inner.width : inner.x;
+            pdf.text(line, x, y, justify
+                ? { baseline: 'middle', align: 'justify', maxWidth: inner.width }
+                : { baseline: 'middle', align });
+
+            if (item.decoration !== 'none' && line.trim()) {
+                const width = justify ? inner.width : pdf.getTextWidth(line);
+                const start = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+                const lineY = y + item.fontSize * (item.decoration === 'underline' ? 0.4 : 0.05);
+                this.setStroke(item.color);
+                pdf.setLineWidth(item.fontSize / 15);
+                pdf.line(start, lineY, start + width, lineY);
+            }
+        });
+        pdf.restoreGraphicsState();
+
+        if (item.border) this.drawBorder(item.frame, item.border, item.radius);
+        pdf.restoreGraphicsState();
+    }
+
+    // --- Pages ---
+
+    async drawPage(page: PrintPagePlan, bleed: PrintRect) {
+        const pdf = this.pdf;
+        pdf.saveGraphicsState();
+        this.clip(bleed);
+        if (this.setFill(page.backgroundColor)) pdf.rect(bleed.x, bleed.y, bleed.width, bleed.height, 'F');
+        if (page.backgroundImage) await this.drawImage(page, page.backgroundImage);
+        for (const item of page.items) {
+            if (item.kind === 'image') await this.drawImage(page, item);
+            else await this.drawText(page, item);
+        }
+        pdf.restoreGraphicsState();
+    }
+
+    /**
+     * Crop marks and registration targets in registration color (all plates).
+     */
+    drawMarks(lines: ReturnType<typeof getCropMarks>, targets: ReturnType<typeof getRegistrationMarks>) {
+        const pdf = this.pdf;
+        if (this.options.colorSpace === 'rgb') pdf.setDrawColor(0, 0, 0);
+        else pdf.setDrawColor(1, 1, 1, 1);
+        pdf.setLineWidth(REGISTRATION_LINE_WIDTH);
+        lines.forEach(line => pdf.line(line.x1, line.y1, line.x2, line.y2));
+        targets.forEach(({ x, y, radius }) => {
+            pdf.circle(x, y, radius, 'S');
+            pdf.circle(x, y, radius / 2, 'S');
+            pdf.line(x - radius * 1.5, y, x + radius * 1.5, y);
+            pdf.line(x, y - radius * 1.5, x, y + radius * 1.5);
+        });
+    }
+}
+
+function inset(rect: PrintRect, by: number): PrintRect {
+    return { x: rect.x + by, y: rect.y + by, width: Math.max(0, rect.width - 2 * by), height: Math.max(0, rect.height - 2 * by) };
+}
+
+function pdfBox(rect: PrintRect, sheetHeight: number) {
+    return {
+        bottomLeftX: rect.x,
+        bottomLeftY: sheetHeight - rect.y - rect.height,
+        topRightX: rect.x + rect.width,
+        topRightY: sheetHeight - rect.y,
+    };
+}
+
+/**
+ * Render the album's display pages to a print-ready PDF.
+ */
+export async function renderPrintPdf(source: DisplaySource, options: PrintPdfOptions = {}): Promise<PrintPdfResult> {
+    return renderPrintPlan(buildPrintPlan(source, options), source.title || 'Album', options);
+}
+
+/**
+ * Render an already built plan, e.g. one whose pages were picked or padded
+ * for a print vendor.
+ */
+export async function renderPrintPlan(plan: PrintPlan, title: string, options: PrintPdfOptions = {}): Promise<PrintPdfResult> {
+    const { geometry } = plan;
+    const format = [geometry.sheetWidth, geometry.sheetHeight];
+    const orientation = geometry.sheetWidth > geometry.sheetHeight ? 'l' : 'p';
+    const pdf = new jsPDF({ unit: 'pt', format, orientation, compress: true });
+    pdf.setProperties({ title, creator: 'Zfam Heritage Catalog' });
+
+    const renderer = new PrintPdfRenderer(pdf, geometry.sheetHeight, options);
+    const trim = getTrimBox(geometry);
+    const bleed = getBleedBox(geometry);
+    const cropMarks = getCropMarks(geometry);
+    const registrationMarks = getRegistrationMarks(geometry);
+
+    for (let i = 0; i < plan.pages.length; i++) {
+        if (i > 0) pdf.addPage(format, orientation);
+        const { pageContext } = pdf.getCurrentPageInfo();
+        pageContext.trimBox = pdfBox(trim, geometry.sheetHeight);
+        pageContext.bleedBox = pdfBox(bleed, geometry.sheetHeight);
+        await renderer.drawPage(plan.pages[i], bleed);
+        renderer.drawMarks(cropMarks, registrationMarks);
+    }
+
+    return {
+        pdf: pdf.output('arraybuffer'),
+        pageCount: plan.pages.length,
+        warnings: [...plan.warnings, ...renderer.warnings].sort((a, b) => a.pageNumber - b.pageNumber),
+    };
+}
@@ -1,5 +1,82 @@
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
+import type { DisplaySource } from '../lib/displayPages';
+import type { PrintWarning } from '../lib/printLayout';
+import type { PrintVendorProfile, VendorOrder, VendorProduct } from '../lib/printVendors';
+import { buildArchiveHtml, collectArchiveFonts, collectArchiveMedia, type ArchiveResources } from '../lib/htmlArchive';
+import { createZip, type ZipEntry } from '../lib/zip';
+import { CloudflareR2Service } from './cloudflareR2';
+import { fetchPrintFont, fetchPrintImage, renderPrintPdf, type PrintPdfOptions } from './printPdf';
+import { renderVendorOrder } from './printOrder';
+
+export interface HtmlArchiveOptions {
+    packaging?: 'zip' | 'single';   // Folder-style zip (default) or one HTML file with data URIs
+}
+
+export interface HtmlArchiveResult {
+    mediaCount: number;
+    missing: string[];              // Media URLs that could not be downloaded
+}
+
+export interface ArchiveFile {
+    data: Uint8Array;
+    type: string;
+}
+
+const ARCHIVE_BATCH_SIZE = 4;
+
+const ARCHIVE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/svg+xml': 'svg',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'video/quicktime': 'mov',
+};
+
+/**
+ * Original photo bytes for print; private R2 objects need a signed URL first.
+ */
+async function loadPrintImage(url: string) {
+    return fetchPrintImage(await CloudflareR2Service.getReadableUrl(url));
+}
+
+/**
+ * Media file for an archive; private R2 objects are read through a signed URL.
+ */
+export async function loadArchiveFile(url: string): Promise<ArchiveFile | null> {
+    try {
+        const response = await fetch(await CloudflareR2Service.getReadableUrl(url));
+        if (!response.ok) return null;
+        const type = (response.headers.get('content-type') || '').split(';')[0].trim();
+        return { data: new Uint8Array(await response.arrayBuffer()), type: type || 'application/octet-stream' };
+    } catch {
+        return null;
+    }
+}
+
+export function archiveExtension(type: string, url: string, kind: 'image' | 'video') {
+    if (ARCHIVE_EXTENSIONS[type]) return ARCHIVE_EXTENSIONS[type];
+    const fromUrl = url.split(/[?#]/)[0].match(/\.([a-z0-9]{2,5})$/i)?.[1];
+    return fromUrl ? fromUrl.toLowerCase() : kind === 'video' ? 'mp4' : 'jpg';
+}
+
+function archiveType(extension: string, kind: 'image' | 'video') {
+    const known = Object.keys(ARCHIVE_EXTENSIONS).find(type => ARCHIVE_EXTENSIONS[type] === extension);
+    return known || `${kind}/${extension}`;
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return btoa(binary);
+}
 
 /**
  * Service to handle exporting content to different formats
@@ -71,98 +148,106 @@ export const printService = {
     },
 
     /**
-     * Generate an interactive HTML5 bundle (offline viewer)
-     * Packages the entire Unified Data Schema into a standalone file.
+     * Export a vector, print-ready PDF laid out from the album data at its
+     * physical size, with bleed and optional crop marks. Returns what the
+     * printer should know about: low-resolution photos, substituted fonts
+     * and items that could not be printed.
+     */
+    async exportToPrintPDF(source: DisplaySource, options: PrintPdfOptions = {}): Promise<PrintWarning[]> {
+        const result = await renderPrintPdf(source, { loadImage: loadPrintImage, ...options });
+
+        const blob = new Blob([result.pdf], { type: 'application/pdf' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${(source.title || 'Album').replace(/\s+/g, '_')}_Print.pdf`;
+        a.click();
+        URL.revokeObjectURL(url);
+        return result.warnings;
+    },
+
+    /**
+     * Export a standalone copy of the album for relatives that opens from
+     * disk with no network: a page-flip viewer with every photo, video and
+     * font included, either as a zip (index.html plus media/ and fonts/) or
+     * as one self-contained HTML file. Media that could not be downloaded
+     * shows as a placeholder and is returned.
      */
-    async exportToHTML5(albumData: any) {
-        // Hydrate data logic: Ensure all layers are absolute-positioned and absolute-urls
-        const hydratedData = {
-            ...albumData,
-            exportedAt: new Date().toISOString(),
-            version: '5.0'
+    async exportToHTML5(source: DisplaySource, options: HtmlArchiveOptions = {}): Promise<HtmlArchiveResult> {
+        const packaging = options.packaging || 'zip';
+        const media = collectArchiveMedia(source);
+        const fonts = collectArchiveFonts(source);
+        const resources: ArchiveResources = { media: {}, fonts: [] };
+        const files: ZipEntry[] = [];
+        const missing: string[] = [];
+
+        const include = (folder: string, name: string, file: ArchiveFile) => {
+            if (packaging === 'single') return `data:${file.type};base64,${bytesToBase64(file.data)}`;
+            const path = `${folder}/${name}`;
+            files.push({ path, data: file.data });
+            return path;
         };
 
-        const htmlContent = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${albumData.title} - Legacy Interactive Archive</title>
-    <script src="https://cdn.tailwindcss.com"></script>
-    <link href="https://fonts.googleapis.com/css2?family=Cormorant+Garamond:ital,wght@0,300;0,400;0,700;1,400&family=Inter:wght@400;700&display=swap" rel="stylesheet">
-    <style>
-        @page { size: auto; margin: 0; }
-        body { font-family: 'Inter', sans-serif; background: #111; color: white; margin: 0; min-height: 100vh; display: flex; flex-direction: column; }
-        .serif { font-family: 'Cormorant Garamond', serif; }
-        .page-container { transition: transform 0.6s cubic-bezier(0.645, 0.045, 0.355, 1); }
-        .canvas-shadow { shadow: 0 30px 60px rgba(0,0,0,0.5); }
-        video { object-fit: contain; background: black; }
-    </style>
-</head>
-<body>
-    <header class="p-6 flex justify-between items-center bg-black/50 backdrop-blur-md sticky top-0 z-50">
-        <div>
-            <h1 class="text-2xl italic serif">${albumData.title}</h1>
-            <p class="text-[10px] uppercase tracking-widest text-white/40">Interactive Offline Bundle</p>
-        </div>
-        <button onclick="window.print()" class="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-full text-[12px] uppercase tracking-widest transition-all">Download PDF Version</button>
-    </header>
-
-    <main class="flex-1 flex items-center justify-center p-8 overflow-auto">
-        <div id="flipbook-root" class="max-w-6xl w-full grid grid-cols-1 md:grid-cols-2 gap-4">
-            ${albumData.pages.map((p: any, i: number) => `
-                <div class="relative aspect-[600/840] bg-white shadow-2xl overflow-hidden rounded-sm" 
-                     style="background-color: ${p.backgroundColor || '#fff'}">
-                    <div class="absolute inset-0 pointer-events-none border-[20px] border-black/5"></div>
-                    
-                    <!-- Hydrated Content Layers -->
-                    <div class="absolute inset-0">
-                         ${(p.layout_config || p.layoutConfig || []).map((box: any) => `
-                             <div style="position: absolute; 
-                                         top: ${box.top}%; 
-                                         left: ${box.left}%; 
-                                         width: ${box.width}%; 
-                                         height: ${box.height}%; 
-                                         z-index: ${box.zIndex || 10}; 
-                                         transform: rotate(${box.content?.rotation || 0}deg);">
-                                 ${box.content?.type === 'image' ? `
-                                     <img src="${box.content.url}" class="w-full h-full object-cover">
-                                 ` : box.content?.type === 'video' ? `
-                                     <video src="${box.content.url}" class="w-full h-full" controls muted playsinline></video>
-                                 ` : box.content?.type === 'text' ? `
-                                     <div class="p-2 break-words" style="font-family: ${box.content.fontFamily || 'serif'}; font-size: ${box.content.fontSize || 16}px; color: ${box.content.color || '#000'}; text-align: ${box.content.textAlign || 'center'};">
-                                         ${box.content.text || ''}
-                                     </div>
-                                 ` : ''}
-                             </div>
-                         `).join('')}
-                    </div>
-
-                    <div class="absolute bottom-4 right-4 text-[10px] font-bold opacity-30 tracking-widest">PAGE ${i + 1}</div>
-                </div>
-            `).join('')}
-        </div>
-    </main>
-
-    <footer class="p-8 text-center text-[10px] text-white/30 uppercase tracking-[0.3em]">
-        Preserved using FamilyZoabi Unified Rendering Engine v5.0
-    </footer>
-
-    <script>
-        // Potential hydration of client-side flipbook logic here
-        console.log("Album Data Payload:", ${JSON.stringify(hydratedData)});
-    </script>
-</body>
-</html>`;
-
-        const blob = new Blob([htmlContent], { type: 'text/html' });
+        for (let i = 0; i < media.length; i += ARCHIVE_BATCH_SIZE) {
+            const batch = media.slice(i, i + ARCHIVE_BATCH_SIZE);
+            const loaded = await Promise.all(batch.map(item => loadArchiveFile(item.url)));
+            batch.forEach((item, j) => {
+                const file = loaded[j];
+                if (!file) {
+                    missing.push(item.url);
+                    return;
+                }
+                const extension = archiveExtension(file.type, item.url, item.kind);
+                const type = file.type.startsWith(`${item.kind}/`) ? file.type : archiveType(extension, item.kind);
+                resources.media[item.url] = include('media', `${String(i + j + 1).padStart(4, '0')}.${extension}`, { ...file, type });
+            });
+        }
+
+        for (const font of fonts) {
+            const data = await fetchPrintFont(font.family, font.bold, font.italic);
+            if (!data) continue;
+            const name = `${font.family.replace(/[^a-z0-9]+/gi, '-')}-${font.bold ? 700 : 400}${font.italic ? '-italic' : ''}.ttf`;
+            resources.fonts.push({ ...font, href: include('fonts', name, { data, type: 'font/ttf' }) });
+        }
+
+        const html = buildArchiveHtml(source, resources);
+        const baseName = (source.title || 'Album').replace(/\s+/g, '_');
+        const blob = packaging === 'single'
+            ? new Blob([html], { type: 'text/html' })
+            : new Blob([createZip([{ path: 'index.html', data: html }, ...files])], { type: 'application/zip' });
+
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${baseName}_Archive.${packaging === 'single' ? 'html' : 'zip'}`;
+        a.click();
+        URL.revokeObjectURL(url);
+
+        return { mediaCount: media.length - missing.length, missing };
+    },
+
+    /**
+     * Export the album as an order for a print-on-demand vendor: a zip with
+     * the cover spread, the interior pages and the order manifest in the
+     * vendor's naming, sized for the chosen product. Returns the order as
+     * placed, with what the vendor should know about in its warnings.
+     */
+    async exportToVendorOrder(
+        source: DisplaySource,
+        profile: PrintVendorProfile,
+        product: VendorProduct,
+        options: { albumId?: string; onProgress?: (message: string) => void } = {}
+    ): Promise<VendorOrder> {
+        const { order, files } = await renderVendorOrder(source, profile, product, { ...options, loadImage: loadPrintImage });
+
+        const blob = new Blob([createZip(files)], { type: 'application/zip' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `${albumData.title.replace(/\s+/g, '_')}_INTERACTIVE_BUNDLE.html`;
+        a.download = `${(source.title || 'Album').replace(/\s+/g, '_')}_${profile.id}_Order.zip`;
         a.click();
         URL.revokeObjectURL(url);
+        return order;
     }
 
 };
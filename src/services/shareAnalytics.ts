@@ -0,0 +1,312 @@
+/**
+ * Share Link Analytics
+ *
+ * Records guest visits to shared albums, events and stacks and reads them
+ * back for SharingDialog and the Settings "Sharing activity" view. A visit
+ * is started when a viewer has opened its link and then topped up with the
+ * pages or items seen and the time the page was visible, which for stacks
+ * is the watch time. Nothing is recorded while the family has the log
+ * switched off in family_settings.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+
+export type ShareDeviceType = 'mobile' | 'tablet' | 'desktop';
+
+export interface ShareVisit {
+    id: string;
+    linkId: string;
+    visitedAt: string;
+    lastSeenAt: string;
+    deviceType: ShareDeviceType;
+    viewedItems: string[];      // Page numbers for albums, item ids for stacks
+    watchSeconds: number;
+}
+
+/**
+ * A link with its recent visits, for the family-wide activity view.
+ */
+export interface ShareLinkActivity {
+    linkId: string;
+    kind: 'album' | 'event' | 'stack';
+    title: string;
+    createdAt: string;
+    isActive: boolean;
+    visits: ShareVisit[];
+}
+
+interface VisitRow {
+    id: string;
+    link_id: string;
+    visited_at: string;
+    last_seen_at: string;
+    device_type: ShareDeviceType;
+    viewed_items: string[] | null;
+    watch_seconds: number;
+}
+
+interface ActivityRow extends VisitRow {
+    shared_links: {
+        id: string;
+        created_at: string;
+        is_active: boolean;
+        album_id: string | null;
+        event_id: string | null;
+        albums?: { title: string | null } | null;
+        events?: { title: string | null } | null;
+        stacks?: { title: string | null } | null;
+    } | null;
+}
+
+const FLUSH_INTERVAL_MS = 15000;
+const ACTIVITY_LIMIT = 300;
+
+function toShareVisit(row: VisitRow): ShareVisit {
+    return {
+        id: row.id,
+        linkId: row.link_id,
+        visitedAt: row.visited_at,
+        lastSeenAt: row.last_seen_at,
+        deviceType: row.device_type,
+        viewedItems: row.viewed_items || [],
+        watchSeconds: row.watch_seconds,
+    };
+}
+
+/**
+ * Phone, tablet or computer, from the user agent alone.
+ */
+export function detectDeviceType(userAgent: string = navigator.userAgent): ShareDeviceType {
+    if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobile)/i.test(userAgent)) return 'tablet';
+    if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)) return 'mobile';
+    return 'desktop';
+}
+
+/**
+ * "45s", "3m 20s" or "1h 05m".
+ */
+export function formatShareDuration(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+/**
+ * Tracks one guest visit from the moment a shared viewer has opened its
+ * link until it is stopped. Views reported before the visit has been
+ * created on the server are kept and sent with the first update.
+ */
+export class ShareVisitTracker {
+    private visitId: string | null = null;
+    private pending = new Set<string>();
+    private visibleSeconds = 0;
+    private visibleSince: number | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private stopped = false;
+    private readonly token: string;
+    private readonly password: string | null;
+
+    constructor(token: string, password?: string) {
+        this.token = token;
+        this.password = password || null;
+        this.resume();
+        document.addEventListener('visibilitychange', this.handleVisibility);
+        this.start();
+    }
+
+    /**
+     * Note that a page or item was on screen.
+     */
+    view(item: string) {
+        this.pending.add(item);
+    }
+
+    /**
+     * Send what is left and stop tracking.
+     */
+    stop() {
+        if (this.stopped) return;
+        this.stopped = true;
+        this.pause();
+        document.removeEventListener('visibilitychange', this.handleVisibility);
+        if (this.timer) clearInterval(this.timer);
+        this.flush();
+    }
+
+    private async start() {
+        const { data, error } = await supabase.rpc('start_shared_link_visit', {
+            token_param: this.token,
+            password_param: this.password,
+            device_param: detectDeviceType(),
+        });
+        if (error) {
+            console.error('Failed to record share link visit:', error);
+            return;
+        }
+        // null when the family has the access log switched off or the password no longer matches
+        if (!data) return;
+        this.visitId = data;
+        this.flush();
+        if (!this.stopped) this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+
+    private handleVisibility = () => {
+        if (document.visibilityState === 'hidden') {
+            this.pause();
+            this.flush();
+        } else {
+            this.resume();
+        }
+    };
+
+    private resume() {
+        if (this.visibleSince === null && document.visibilityState !== 'hidden') this.visibleSince = Date.now();
+    }
+
+    private pause() {
+        if (this.visibleSince === null) return;
+        this.visibleSeconds += (Date.now() - this.visibleSince) / 1000;
+        this.visibleSince = null;
+    }
+
+    private watchSeconds() {
+        const running = this.visibleSince === null ? 0 : (Date.now() - this.visibleSince) / 1000;
+        return Math.round(this.visibleSeconds + running);
+    }
+
+    private async flush() {
+        if (!this.visitId) return;
+        const viewed = Array.from(this.pending);
+        this.pending.clear();
+        const { error } = await supabase.rpc('record_shared_link_visit', {
+            visit_param: this.visitId,
+            token_param: this.token,
+            viewed_param: viewed,
+            watch_seconds_param: this.watchSeconds(),
+        });
+        if (error) {
+            console.error('Failed to update share link visit:', error);
+            viewed.forEach(item => this.pending.add(item));
+        }
+    }
+}
+
+export class ShareAnalyticsService {
+    /**
+     * Visits to the given links, newest first, per link id.
+     */
+    static async loadVisits(linkIds: string[]): Promise<Map<string, ShareVisit[]>> {
+        const visits = new Map<string, ShareVisit[]>();
+        if (linkIds.length === 0) return visits;
+        const { data, error } = await supabase
+            .from('shared_link_visits')
+            .select('*')
+            .in('link_id', linkIds)
+            .order('visited_at', { ascending: false });
+        if (error) {
+            // The log is optional: older databases have no shared_link_visits table
+            if (error.code !== '42P01') console.error('Failed to load share link visits:', error);
+            return visits;
+        }
+        ((data || []) as VisitRow[]).forEach(row => {
+            const list = visits.get(row.link_id) || [];
+            list.push(toShareVisit(row));
+            visits.set(row.link_id, list);
+        });
+        return visits;
+    }
+
+    /**
+     * The family's most recent visits, grouped by link with the most
+     * recently visited link first.
+     */
+    static async loadFamilyActivity(): Promise<ShareLinkActivity[]> {
+        const { data, error } = await supabase
+            .from('shared_link_visits')
+            .select('*, shared_links(id, created_at, is_active, album_id, event_id, albums(title), events(title), stacks(title))')
+            .order('visited_at', { ascending: false })
+            .limit(ACTIVITY_LIMIT);
+        if (error) {
+            if (error.code !== '42P01') console.error('Failed to load sharing activity:', error);
+            return [];
+        }
+
+        const activity = new Map<string, ShareLinkActivity>();
+        ((data || []) as ActivityRow[]).forEach(row => {
+            const link = row.shared_links;
+            if (!link) return;
+            let entry = activity.get(link.id);
+            if (!entry) {
+                const kind = link.album_id ? 'album' : link.event_id ? 'event' : 'stack';
+                entry = {
+                    linkId: link.id,
+                    kind,
+                    title: (kind === 'album' ? link.albums?.title : kind === 'event' ? link.events?.title : link.stacks?.title) || 'Untitled',
+                    createdAt: link.created_at,
+                    isActive: link.is_active,
+                    visits: [],
+                };
+                activity.set(link.id, entry);
+            }
+            entry.visits.push(toShareVisit(row));
+        });
+        return Array.from(activity.values());
+    }
+
+    /**
+     * Whether the family records visits to its share links. On unless an
+     * admin has switched it off.
+     */
+    static async isEnabled(familyId: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .from('family_settings')
+            .select('share_analytics_enabled')
+            .eq('family_id', familyId)
+            .maybeSingle();
+        if (error) {
+            console.error('Failed to load sharing privacy setting:', error);
+            return true;
+        }
+        return data?.share_analytics_enabled ?? true;
+    }
+
+    /**
+     * Switch the access log on or off for the family. Admins only.
+     */
+    static async setEnabled(familyId: string, enabled: boolean): Promise<{ success: boolean; error?: string }> {
+        const { error } = await supabase
+            .from('family_settings')
+            .upsert({ family_id: familyId, share_analytics_enabled: enabled, updated_at: new Date().toISOString() });
+        if (error) {
+            console.error('Failed to save sharing privacy setting:', error);
+            return { success: false, error: error.message };
+        }
+        return { success: true };
+    }
+
+    /**
+     * Delete every recorded visit to the family's links. Admins only.
+     */
+    static async clearLog(): Promise<{ success: boolean; error?: string }> {
+        // shared_links only returns the family's own links
+        const { data: links, error: linksError } = await supabase.from('shared_links').select('id');
+        if (linksError) {
+            console.error('Failed to load share links:', linksError);
+            return { success: false, error: linksError.message };
+        }
+        const linkIds = ((links || []) as { id: string }[]).map(link => link.id);
+        if (linkIds.length === 0) return { success: true };
+
+        const { error } = await supabase
+            .from('shared_link_visits')
+            .delete()
+            .in('link_id', linkIds);
+        if (error) {
+            console.error('Failed to clear sharing activity:', error);
+            return { success: false, error: error.message };
+        }
+        return { success: true };
+    }
+}
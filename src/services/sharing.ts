@@ -1,112 +1,355 @@
-import { supabase } from '../lib/supabase';
-import type { SharedLink } from '../types/supabase';
+/**
+ * Share Links
+ *
+ * One service for the guest links to albums, events and stacks. Each link
+ * carries its own options: an expiry preset (a day up to never), an optional
+ * password, a view limit, and whether guests may download media or comment.
+ * The options are enforced server side by validate_shared_link, which
+ * get_shared_content and get_shared_stack also go through, so a link cannot
+ * be opened around them; repeated wrong passwords lock a link for a while.
+ * Without downloads guests never get a signed URL to an original: their
+ * media is streamed through the edge function for viewing only. Album links are live, showing the album as it is
+ * now, or pinned to one saved revision; either way guests read the album
+ * through get_shared_album and have their media signed per visit. Album
+ * links made before that published a JSON snapshot to R2, which is deleted
+ * when the link is revoked or the album's links are next listed.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+import type { SharedLink, Json } from '../types/supabase';
+import type { Album } from '../contexts/AlbumContext';
+
+export type ShareTargetKind = 'album' | 'event' | 'stack';
+
+export interface ShareTarget {
+    kind: ShareTargetKind;
+    id: string;
+    title?: string;
+}
+
+export type ShareExpiry = '1d' | '2d' | '7d' | '30d' | 'never';
+
+export const SHARE_EXPIRY_PRESETS: { value: ShareExpiry; label: string; hours: number | null }[] = [
+    { value: '1d', label: '1 day', hours: 24 },
+    { value: '2d', label: '2 days', hours: 48 },
+    { value: '7d', label: '1 week', hours: 24 * 7 },
+    { value: '30d', label: '30 days', hours: 24 * 30 },
+    { value: 'never', label: 'Never', hours: null },
+];
+
+export interface ShareLinkOptions {
+    expiry: ShareExpiry;
+    password?: string;          // Empty for an open link
+    maxViews?: number | null;   // null for unlimited views
+    allowDownload: boolean;     // Signed originals and download buttons, see above
+    allowComments: boolean;
+    albumRevisionId?: string | null;    // Albums only: null follows the live album
+}
+
+export const DEFAULT_SHARE_OPTIONS: ShareLinkOptions = {
+    expiry: '2d',
+    password: '',
+    maxViews: null,
+    allowDownload: true,
+    allowComments: false,
+    albumRevisionId: null,
+};
+
+export type ShareLinkErrorCode = 'invalid' | 'expired' | 'password_required' | 'password_incorrect' | 'view_limit';
+
+/**
+ * What an opened link points at and what the guest may do with it.
+ */
+export interface ShareLinkAccess {
+    albumId?: string;
+    eventId?: string;
+    stackId?: string;
+    expiresAt: string | null;
+    allowDownload: boolean;
+    allowComments: boolean;
+    viewsLeft: number | null;
+}
+
+/**
+ * The saved revision a pinned album link shows.
+ */
+export interface SharedAlbumRevision {
+    sequence: number;
+    name: string;
+    createdAt: string;
+}
+
+interface ShareLinkAccessRow {
+    album_id: string | null;
+    event_id: string | null;
+    stack_id: string | null;
+    expires_at: string | null;
+    allow_download: boolean;
+    allow_comments: boolean;
+    views_left: number | null;
+}
+
+const TARGET_COLUMNS: Record<ShareTargetKind, 'album_id' | 'event_id' | 'stack_id'> = {
+    album: 'album_id',
+    event: 'event_id',
+    stack: 'stack_id',
+};
+
+const TARGET_PATHS: Record<ShareTargetKind, string> = {
+    album: 'shared',
+    event: 'share',
+    stack: 'stack/share',
+};
+
+const TARGET_NAMES: Record<ShareTargetKind, string> = {
+    album: 'memory album',
+    event: 'memory',
+    stack: 'media stack',
+};
+
+/**
+ * The hash validate_shared_link compares against: sha256 of "token:password"
+ * as hex, so the same password gives a different hash on every link.
+ */
+async function hashSharePassword(token: string, password: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${token}:${password}`));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * When a link made now with the given preset expires, or null for never.
+ */
+export function shareExpiryDate(expiry: ShareExpiry): string | null {
+    const hours = SHARE_EXPIRY_PRESETS.find(preset => preset.value === expiry)?.hours ?? 48;
+    if (hours === null) return null;
+    return new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Where createShareLink used to publish an album link's snapshot.
+ */
+function snapshotKey(token: string): string {
+    return `shared-links/album-${token}.json`;
+}
+
+/**
+ * Delete the R2 snapshots of the given links and clear their flag. A
+ * snapshot that cannot be deleted keeps its flag so the next pass retries.
+ */
+async function removeShareSnapshots(links: Pick<SharedLink, 'id' | 'token'>[]) {
+    if (links.length === 0) return;
+    const { CloudflareR2Service } = await import('./cloudflareR2');
+
+    const removed: string[] = [];
+    for (const link of links) {
+        try {
+            await CloudflareR2Service.deleteObject(snapshotKey(link.token));
+            removed.push(link.id);
+        } catch (error) {
+            console.error('Error deleting share snapshot:', error);
+        }
+    }
+    if (removed.length === 0) return;
+
+    const { error } = await supabase
+        .from('shared_links')
+        .update({ has_snapshot: false })
+        .in('id', removed);
+    if (error) console.error('Error clearing share snapshot flags:', error);
+}
+
+/**
+ * The guest URL for a link.
+ */
+export function shareLinkUrl(target: ShareTarget, token: string): string {
+    const safeTitle = target.title ? target.title.replace(/\s+/g, '_') : 'Memory';
+    return `${window.location.origin}/${TARGET_PATHS[target.kind]}/${encodeURIComponent(safeTitle)}/${token}`;
+}
 
 /**
- * Generate a temporary share link for an album
- * Link expires after 48 hours (2 days)
+ * "until 12 Mar 2027" or "with no expiry", for messages about a link.
  */
-export async function generateShareLink(albumId?: string, eventId?: string): Promise<{ link: string | null; error?: string }> {
-    if (!albumId && !eventId) return { link: null, error: 'Either albumId or eventId is required' };
+export function shareExpiryText(expiresAt: string | null): string {
+    if (!expiresAt) return 'with no expiry';
+    return `until ${new Date(expiresAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+}
+
+/**
+ * Whether a link still opens: not expired and with views left.
+ */
+export function isShareLinkLive(link: SharedLink): boolean {
+    if (link.expires_at && new Date(link.expires_at) <= new Date()) return false;
+    return link.max_views === null || link.view_count < link.max_views;
+}
 
+/**
+ * Create a share link with the given options.
+ */
+export async function createShareLink(target: ShareTarget, options: ShareLinkOptions = DEFAULT_SHARE_OPTIONS): Promise<{
+    link: SharedLink | null;
+    url: string | null;
+    error?: string
+}> {
     try {
-        // Generate a unique token
         const token = crypto.randomUUID();
+        const password = options.password?.trim();
+        const maxViews = options.maxViews && options.maxViews > 0 ? Math.floor(options.maxViews) : null;
 
-        // Calculate expiration date (48 hours from now)
-        const expiresAt = new Date();
-        expiresAt.setHours(expiresAt.getHours() + 48);
-
-        const { error } = await supabase
+        const { data, error } = await supabase
             .from('shared_links')
             .insert({
-                album_id: albumId || null,
-                event_id: eventId || null,
-                token: token,
-                expires_at: expiresAt.toISOString(),
-                is_active: true
-            } as any);
+                [TARGET_COLUMNS[target.kind]]: target.id,
+                token,
+                expires_at: shareExpiryDate(options.expiry),
+                is_active: true,
+                password_hash: password ? await hashSharePassword(token, password) : null,
+                max_views: maxViews,
+                allow_download: options.allowDownload,
+                allow_comments: options.allowComments,
+                album_revision_id: target.kind === 'album' ? options.albumRevisionId || null : null,
+            })
+            .select('*')
+            .single();
 
         if (error) {
             console.error('Error creating share link:', error);
-            return { link: null, error: error.message };
+            return { link: null, url: null, error: error.message };
         }
 
-        // Construct the full URL
-        const baseUrl = window.location.origin;
-        const shareUrl = `${baseUrl}/shared/${token}`;
-
-        return { link: shareUrl };
+        return { link: data as SharedLink, url: shareLinkUrl(target, token) };
     } catch (error) {
-        console.error('Error in generateShareLink:', error);
-        return { link: null, error: 'Failed to generate share link' };
+        console.error('Error in createShareLink:', error);
+        return { link: null, url: null, error: 'Failed to generate share link' };
     }
 }
 
 /**
- * Validate a share link and check if it's still active
+ * Open a share link as a guest: checks it is active, unexpired, within its
+ * view limit and that the password matches, then counts the view.
  */
-export async function validateShareLink(token: string): Promise<{
+export async function validateShareLink(token: string, password?: string): Promise<{
     valid: boolean;
-    albumId?: string;
-    eventId?: string;
+    access?: ShareLinkAccess;
+    code?: ShareLinkErrorCode;
     error?: string
 }> {
     try {
-        const { data, error } = await supabase
-            .from('shared_links')
-            .select('*')
-            .eq('token', token)
-            .eq('is_active', true)
-            .maybeSingle();
+        const { data, error } = await supabase.rpc('validate_shared_link', {
+            token_param: token,
+            password_param: password || null,
+        });
 
         if (error || !data) {
-            return { valid: false, error: 'Invalid share link' };
+            return { valid: false, code: 'invalid', error: error?.message || 'Invalid share link' };
         }
+        if (!data.success) {
+            return { valid: false, code: data.code, error: data.error };
+        }
+
+        return { valid: true, access: toShareLinkAccess(data.link) };
+    } catch (error) {
+        console.error('Error validating share link:', error);
+        return { valid: false, code: 'invalid', error: 'Error validating share link' };
+    }
+}
 
-        const linkData = data as any;
+/**
+ * Open an album link as a guest and load the album it shows: the album as
+ * it is now for a live link, or rebuilt from its revision history for a
+ * pinned one. Media of the album is signed through the link from then on.
+ */
+export async function loadSharedAlbum(token: string, password?: string): Promise<{
+    album: Album | null;
+    access?: ShareLinkAccess;
+    revision?: SharedAlbumRevision;
+    code?: ShareLinkErrorCode;
+    error?: string
+}> {
+    try {
+        const { data, error } = await supabase.rpc('get_shared_album', {
+            token_param: token,
+            password_param: password || null,
+        });
 
-        // Check if link has expired
-        const expiresAt = new Date(linkData.expires_at);
-        if (expiresAt < new Date()) {
-            return { valid: false, error: 'This share link has expired (48 hours)' };
+        if (error || !data) {
+            return { album: null, code: 'invalid', error: error?.message || 'Invalid share link' };
+        }
+        if (!data.success) {
+            return { album: null, code: data.code, error: data.error };
         }
 
+        const { AlbumDataService } = await import('./albumDataService');
+        const { AlbumRevisionService } = await import('./albumRevisions');
+        const { unifiedAlbumToContextAlbum } = await import('../lib/albumAdapters');
+        const { CloudflareR2Service } = await import('./cloudflareR2');
+
+        const unifiedAlbum = data.revision
+            ? AlbumRevisionService.rebuild(data.keyframe, data.diffs as Json[])
+            : AlbumDataService.fromSharedRows(data.album, data.pages);
+        CloudflareR2Service.setShareAccess(token, password, !!data.link.allow_download);
+
         return {
-            valid: true,
-            albumId: linkData.album_id,
-            eventId: linkData.event_id
+            album: unifiedAlbumToContextAlbum(unifiedAlbum),
+            access: toShareLinkAccess(data.link),
+            revision: data.revision ? {
+                sequence: data.revision.sequence,
+                name: data.revision.name,
+                createdAt: data.revision.created_at,
+            } : undefined,
         };
     } catch (error) {
-        console.error('Error validating share link:', error);
-        return { valid: false, error: 'Error validating share link' };
+        console.error('Error loading shared album:', error);
+        return { album: null, code: 'invalid', error: 'Failed to load shared album.' };
     }
 }
 
 /**
- * Delete a share link (revoke access)
+ * Map the link part of a validate_shared_link, get_shared_content or
+ * get_shared_stack answer.
  */
-export async function deleteShareLink(token: string): Promise<{ success: boolean; error?: string }> {
+export function toShareLinkAccess(row: ShareLinkAccessRow): ShareLinkAccess {
+    return {
+        albumId: row.album_id || undefined,
+        eventId: row.event_id || undefined,
+        stackId: row.stack_id || undefined,
+        expiresAt: row.expires_at,
+        allowDownload: row.allow_download,
+        allowComments: row.allow_comments,
+        viewsLeft: row.views_left,
+    };
+}
+
+/**
+ * Revoke a share link. Guests can no longer open it, and an old album
+ * snapshot published for it is deleted.
+ */
+export async function revokeShareLink(linkId: string): Promise<{ success: boolean; error?: string }> {
     try {
-        const { error } = await (supabase
-            .from('shared_links') as any)
+        const { data, error } = await supabase
+            .from('shared_links')
             .update({ is_active: false })
-            .eq('token', token);
+            .eq('id', linkId)
+            .select('id, token, has_snapshot')
+            .maybeSingle();
 
         if (error) {
             return { success: false, error: error.message };
         }
 
+        if (data?.has_snapshot) await removeShareSnapshots([data]);
         return { success: true };
     } catch (error) {
-        console.error('Error deleting share link:', error);
-        return { success: false, error: 'Failed to delete link' };
+        console.error('Error revoking share link:', error);
+        return { success: false, error: 'Failed to revoke link' };
     }
 }
 
 /**
- * Get all share links for an album
+ * All links to an item that have not been revoked, newest first. Expired
+ * and used-up links are included so they can be told apart and revoked.
  */
-export async function getAlbumShareLinks(albumId: string): Promise<{
+export async function listShareLinks(target: ShareTarget): Promise<{
     links: SharedLink[];
     error?: string
 }> {
@@ -114,15 +357,15 @@ export async function getAlbumShareLinks(albumId: string): Promise<{
         const { data, error } = await supabase
             .from('shared_links')
             .select('*')
-            .eq('album_id', albumId)
+            .eq(TARGET_COLUMNS[target.kind], target.id)
             .eq('is_active', true)
-            .order('expires_at', { ascending: false });
+            .order('created_at', { ascending: false });
 
         if (error) {
             return { links: [], error: error.message };
         }
 
-        return { links: (data as any[]) || [] };
+        return { links: (data as SharedLink[]) || [] };
     } catch (error) {
         console.error('Error fetching share links:', error);
         return { links: [], error: 'Failed to fetch links' };
@@ -130,70 +373,49 @@ export async function getAlbumShareLinks(albumId: string): Promise<{
 }
 
 /**
- * Generate a share link for an album similarly to Stacks, bypassing the modal
- * and creating a fully valid R2-backed snapshot.
+ * Delete the snapshots old album links still have in R2, revoked or not:
+ * nothing reads them since album links are served by get_shared_album.
  */
-export async function generateAndShareAlbum(album: any, _pages: any[]): Promise<void> {
-    try {
-        // 0. Fetch fully hydrated album data to ensure all assets/layouts are included
-        const { AlbumDataService } = await import('./albumDataService');
-        const { unifiedAlbumToContextAlbum } = await import('../lib/albumAdapters');
-        
-        const unifiedAlbum = await AlbumDataService.fetchAlbum(album.id);
-        if (!unifiedAlbum) throw new Error("Failed to fetch full album data for sharing.");
-        
-        const fullAlbum = unifiedAlbumToContextAlbum(unifiedAlbum);
+export async function cleanupShareSnapshots(albumId: string): Promise<void> {
+    const { data, error } = await supabase
+        .from('shared_links')
+        .select('id, token')
+        .eq('album_id', albumId)
+        .eq('has_snapshot', true);
 
-        const token = crypto.randomUUID();
-        const expiresAt = new Date();
-        expiresAt.setHours(expiresAt.getHours() + 48);
-
-        // 1. Create token in DB
-        const { error: dbError } = await (supabase.from('shared_links' as any) as any).insert({
-            token,
-            album_id: album.id,
-            expires_at: expiresAt.toISOString(),
-            is_active: true
-        });
+    if (error) {
+        console.error('Error listing share snapshots:', error);
+        return;
+    }
+    await removeShareSnapshots(data || []);
+}
 
-        if (dbError) throw dbError;
+/**
+ * Hand a link to the device share sheet, or offer the clipboard and email
+ * where there is none.
+ */
+export async function sendShareLink(target: ShareTarget, url: string, expiresAt: string | null): Promise<void> {
+    const name = TARGET_NAMES[target.kind];
+    const title = target.title || 'Untitled';
+    const validity = `valid ${shareExpiryText(expiresAt)}`;
 
-        // 2. Upload fully hydrated album data to R2 to bypass RLS limitations
-        const exportData = {
-            album: fullAlbum,
-            pages: fullAlbum.pages || []
-        };
-        const jsonString = JSON.stringify(exportData);
-        const blob = new Blob([jsonString], { type: 'application/json' });
-        
-        const key = `shared-links/album-${token}.json`;
-        const { CloudflareR2Service } = await import('./cloudflareR2');
-        await CloudflareR2Service.uploadFile(blob, key, 'application/json');
-
-        // 3. Share the link natively
-        const safeTitle = album.title ? album.title.replace(/\s+/g, '_') : 'Album';
-        const shareUrl = `${window.location.origin}/shared/${safeTitle}/${token}`;
-        const emailSubject = encodeURIComponent(`Shared Memory Album: ${album.title}`);
-        const emailBody = encodeURIComponent(`Hi!\n\nI wanted to share this memory album with you: ${album.title}\n\nYou can view it here (valid for 48 hours):\n${shareUrl}\n\nEnjoy!`);
-        const mailtoUrl = `mailto:?subject=${emailSubject}&body=${emailBody}`;
-
-        if (navigator.share) {
-            await navigator.share({
-                title: `Memory Album: ${album.title}`,
-                text: `View this memory album: ${album.title} (valid for the next 48 hours!)`,
-                url: shareUrl,
-            });
-        } else {
-            const choice = confirm(`Share link created!\n\nClick OK to Copy Link to clipboard.\nClick CANCEL to Share by Email.`);
-            if (choice) {
-                await navigator.clipboard.writeText(shareUrl);
-                alert('Link copied to clipboard!');
-            } else {
-                window.location.href = mailtoUrl;
-            }
+    if (navigator.share) {
+        try {
+            await navigator.share({ title, text: `View this ${name}: ${title} (${validity})`, url });
+        } catch (error) {
+            // Closing the share sheet rejects with AbortError
+            if ((error as Error).name !== 'AbortError') console.error('Error sharing link:', error);
         }
-    } catch (err) {
-        console.error('Error sharing album:', err);
-        alert('Failed to generate share link.');
+        return;
+    }
+
+    const choice = confirm(`Click OK to Copy Link to clipboard.\nClick CANCEL to Share by Email.`);
+    if (choice) {
+        await navigator.clipboard.writeText(url);
+        alert('Link copied to clipboard!');
+    } else {
+        const emailSubject = encodeURIComponent(`Shared ${name}: ${title}`);
+        const emailBody = encodeURIComponent(`Hi!\n\nI wanted to share this ${name} with you: ${title}\n\nYou can view it here (${validity}):\n${url}\n\nEnjoy!`);
+        window.location.href = `mailto:?subject=${emailSubject}&body=${emailBody}`;
     }
 }
@@ -0,0 +1,482 @@
+/**
+ * Slideshow Export
+ * Renders an album (one spread at a time, with page turns) or a stack
+ * (photos, trimmed videos, caption, text and sticker layers, and its music)
+ * to an MP4 that plays on a TV without the app. Frames are drawn on canvas
+ * and encoded with the ffmpeg.wasm instance the upload compression uses;
+ * the timing and encoder settings come from lib/slideshow.
+ */
+
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import type { DisplaySource } from '../lib/displayPages';
+import { buildPrintPlan, placeImage, type PrintRect } from '../lib/printLayout';
+import {
+    SLIDESHOW_FPS,
+    SLIDESHOW_RESOLUTIONS,
+    SLIDE_FADE_SECONDS,
+    DEFAULT_SLIDE_SECONDS,
+    concatList,
+    finishArgs,
+    frameSequenceArgs,
+    hasStackOverlay,
+    layoutSpread,
+    pageTurnFrameCount,
+    pageTurnLeaf,
+    parseMediaInfo,
+    photoDuration,
+    planAlbumSpreads,
+    stackLayerScale,
+    stillSegmentArgs,
+    videoClip,
+    videoSegmentArgs,
+    type SegmentFormat,
+    type SlideshowOptions,
+    type SlideshowStack,
+    type SlideshowStackItem,
+    type SpreadLayout,
+} from '../lib/slideshow';
+import { PrintCanvasRenderer } from './printCanvas';
+import { archiveExtension, loadArchiveFile } from './printService';
+import { getFFmpeg } from './videoCompression';
+
+export interface SlideshowProgress {
+    message: string;
+    ratio: number;              // 0-1
+}
+
+export interface SlideshowExportResult {
+    fileName: string;
+    duration: number;           // Seconds
+    skipped: string[];          // Items left out, in words
+}
+
+const JPEG_QUALITY = 0.92;
+const BACKDROP = '#000000';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function loadBitmap(url: string): Promise<ImageBitmap | null> {
+    const file = await loadArchiveFile(url);
+    if (!file) return null;
+    try {
+        return await createImageBitmap(new Blob([file.data as Uint8Array<ArrayBuffer>], { type: file.type }));
+    } catch {
+        return null;
+    }
+}
+
+async function canvasBytes(canvas: HTMLCanvasElement, type: 'image/jpeg' | 'image/png'): Promise<Uint8Array> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, JPEG_QUALITY));
+    if (!blob) throw new Error('Could not draw a slideshow frame');
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+function createFrame(width: number, height: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+async function encode(ff: FFmpeg, args: string[]) {
+    const code = await ff.exec(args);
+    if (code !== 0) throw new Error(`Video encoding failed (ffmpeg exit code ${code})`);
+}
+
+/**
+ * Length and audio of a file already written to the ffmpeg file system.
+ */
+async function probe(ff: FFmpeg, file: string) {
+    const lines: string[] = [];
+    const listener = ({ message }: { message: string }) => lines.push(message);
+    ff.on('log', listener);
+    // Without an output ffmpeg exits with an error after printing the input's streams
+    await ff.exec(['-hide_banner', '-i', file]);
+    ff.off('log', listener);
+    return parseMediaInfo(lines.join('\n'));
+}
+
+async function removeFiles(ff: FFmpeg, files: Iterable<string>) {
+    for (const file of files) await ff.deleteFile(file).catch(() => undefined);
+}
+
+function download(data: Uint8Array, fileName: string) {
+    const url = URL.createObjectURL(new Blob([data as Uint8Array<ArrayBuffer>], { type: 'video/mp4' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+function segmentName(index: number) {
+    return `segment_${String(index).padStart(4, '0')}.mp4`;
+}
+
+// ============================================================================
+// ALBUM FRAMES
+// ============================================================================
+
+function drawPage(ctx: CanvasRenderingContext2D, page: HTMLCanvasElement | null, rect: PrintRect) {
+    if (page) ctx.drawImage(page, rect.x, rect.y, rect.width, rect.height);
+}
+
+/**
+ * A little darkening either side of the spine, as the flipbook shows it.
+ */
+function drawSpineShadow(ctx: CanvasRenderingContext2D, layout: SpreadLayout) {
+    const width = layout.right.width * 0.04;
+    const gradient = ctx.createLinearGradient(layout.spineX - width, 0, layout.spineX + width, 0);
+    gradient.addColorStop(0, 'rgba(0,0,0,0)');
+    gradient.addColorStop(0.5, 'rgba(0,0,0,0.18)');
+    gradient.addColorStop(1, 'rgba(0,0,0,0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(layout.spineX - width, layout.right.y, width * 2, layout.right.height);
+}
+
+function drawSpread(
+    ctx: CanvasRenderingContext2D,
+    layout: SpreadLayout,
+    left: HTMLCanvasElement | null,
+    right: HTMLCanvasElement | null
+) {
+    ctx.fillStyle = BACKDROP;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    drawPage(ctx, left, layout.left);
+    drawPage(ctx, right, layout.right);
+    if (left && right) drawSpineShadow(ctx, layout);
+}
+
+/**
+ * One frame of the turn from spread A to spread B: A's left and B's right
+ * page lie flat while the leaf (A's right page, then B's left) folds over
+ * the spine.
+ */
+function drawPageTurn(
+    ctx: CanvasRenderingContext2D,
+    layout: SpreadLayout,
+    from: { left: HTMLCanvasElement | null; right: HTMLCanvasElement | null },
+    to: { left: HTMLCanvasElement | null; right: HTMLCanvasElement | null },
+    progress: number
+) {
+    drawSpread(ctx, layout, from.left, to.right);
+
+    const leaf = pageTurnLeaf(progress);
+    const page = leaf.face === 'front' ? from.right : to.left;
+    const width = Math.max(1, Math.round(layout.right.width * leaf.width));
+    const rect = leaf.face === 'front'
+        ? { ...layout.right, width }
+        : { ...layout.left, x: layout.spineX - width, width };
+    if (!page) return;
+
+    ctx.drawImage(page, rect.x, rect.y, rect.width, rect.height);
+    ctx.fillStyle = `rgba(0,0,0,${leaf.shade})`;
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+}
+
+// ============================================================================
+// STACK FRAMES
+// ============================================================================
+
+/**
+ * Caption, text and sticker layers positioned as MediaStackViewer draws them.
+ */
+function drawStackLayers(ctx: CanvasRenderingContext2D, item: SlideshowStackItem) {
+    const { width, height } = ctx.canvas;
+    const scale = stackLayerScale(height);
+    const at = (x: number, y: number, rotation = 0) => {
+        ctx.setTransform(1, 0, 0, 1, (x / 100) * width, (y / 100) * height);
+        ctx.rotate((rotation * Math.PI) / 180);
+    };
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    for (const layer of item.textLayers || []) {
+        if (!layer.text) continue;
+        at(layer.x, layer.y, layer.rotation);
+        ctx.font = `${layer.bold ? 'bold' : 'normal'} ${(layer.fontSize || 28) * scale}px "${layer.fontFamily || 'Inter'}", sans-serif`;
+        ctx.shadowColor = 'rgba(0,0,0,0.6)';
+        ctx.shadowBlur = 4 * scale;
+        ctx.shadowOffsetY = scale;
+        ctx.fillStyle = layer.color || '#ffffff';
+        ctx.fillText(layer.text, 0, 0);
+    }
+
+    if (item.caption) {
+        const fontSize = (item.captionFontSize || 20) * scale;
+        at(item.captionX || 50, item.captionY || 85, item.captionRotation);
+        ctx.font = `600 ${fontSize}px "Inter", sans-serif`;
+        const boxWidth = ctx.measureText(item.caption).width + 32 * scale;
+        const boxHeight = fontSize * 1.5 + 16 * scale;
+        ctx.shadowColor = 'transparent';
+        ctx.fillStyle = 'rgba(0,0,0,0.55)';
+        ctx.beginPath();
+        ctx.roundRect(-boxWidth / 2, -boxHeight / 2, boxWidth, boxHeight, 16 * scale);
+        ctx.fill();
+        ctx.shadowColor = 'rgba(0,0,0,0.5)';
+        ctx.shadowBlur = 3 * scale;
+        ctx.shadowOffsetY = scale;
+        ctx.fillStyle = item.captionColor || '#ffffff';
+        ctx.fillText(item.caption, 0, 0);
+    }
+
+    for (const layer of item.stickerLayers || []) {
+        if (!layer.emoji) continue;
+        at(layer.x, layer.y);
+        ctx.font = `${(layer.size || 60) * scale}px sans-serif`;
+        ctx.shadowColor = 'rgba(0,0,0,0.4)';
+        ctx.shadowBlur = 4 * scale;
+        ctx.shadowOffsetY = 2 * scale;
+        ctx.fillText(layer.emoji, 0, 0);
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.shadowColor = 'transparent';
+}
+
+function drawStackPhoto(ctx: CanvasRenderingContext2D, item: SlideshowStackItem, image: ImageBitmap) {
+    const { width, height } = ctx.canvas;
+    ctx.fillStyle = BACKDROP;
+    ctx.fillRect(0, 0, width, height);
+    const placed = placeImage(
+        { x: 0, y: 0, width, height },
+        image,
+        { mode: item.cropMode === 'cover' ? 'cover' : 'contain', focalX: 50, focalY: 50, zoom: 1 }
+    );
+    ctx.drawImage(image, placed.x, placed.y, placed.width, placed.height);
+    drawStackLayers(ctx, item);
+}
+
+/**
+ * ffmpeg reads the format from the file itself; the name only needs a plausible extension.
+ */
+function audioExtension(url: string) {
+    return url.split(/[?#]/)[0].match(/\.([a-z0-9]{2,4})$/i)?.[1].toLowerCase() || 'mp3';
+}
+
+function isStreamingUrl(url: string) {
+    return url.includes('.m3u8');
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class SlideshowExportService {
+    /**
+     * Canvas image decoding and WebAssembly, which every current browser has.
+     */
+    static isSupported() {
+        return typeof WebAssembly !== 'undefined' && typeof createImageBitmap !== 'undefined';
+    }
+
+    /**
+     * The album's display pages as spreads, each held for the chosen
+     * duration with a page turn to the next, downloaded as
+     * `<title>_Slideshow.mp4`.
+     */
+    static async exportAlbum(
+        source: DisplaySource,
+        options: SlideshowOptions,
+        onProgress?: (progress: SlideshowProgress) => void
+    ): Promise<SlideshowExportResult> {
+        const plan = buildPrintPlan(source, { bleed: false });
+        const spreads = planAlbumSpreads(plan.pages.length);
+        if (spreads.length === 0) throw new Error('The album has no pages to show');
+
+        onProgress?.({ message: 'Loading video encoder', ratio: 0 });
+        const ff = await getFFmpeg();
+        const { width, height } = SLIDESHOW_RESOLUTIONS[options.resolution];
+        const format: SegmentFormat = { width, height, audio: false };
+        const layout = layoutSpread(plan.geometry.trimWidth, plan.geometry.trimHeight, width, height);
+        const hold = options.itemDuration || DEFAULT_SLIDE_SECONDS;
+        const turnFrames = pageTurnFrameCount();
+
+        const renderer = new PrintCanvasRenderer(plan.geometry, loadBitmap);
+        const rendered = new Map<number, HTMLCanvasElement>();
+        const page = async (index: number | null) => {
+            if (index === null) return null;
+            if (!rendered.has(index)) rendered.set(index, await renderer.renderPage(plan.pages[index], layout.right.width));
+            return rendered.get(index)!;
+        };
+
+        const { canvas, ctx } = createFrame(width, height);
+        const segments: string[] = [];
+        const written = new Set<string>();
+        let duration = 0;
+
+        try {
+            for (let s = 0; s < spreads.length; s++) {
+                onProgress?.({ message: `Drawing spread ${s + 1} of ${spreads.length}`, ratio: s / spreads.length });
+                const current = { left: await page(spreads[s].left), right: await page(spreads[s].right) };
+
+                drawSpread(ctx, layout, current.left, current.right);
+                await ff.writeFile('spread.jpg', await canvasBytes(canvas, 'image/jpeg'));
+                written.add('spread.jpg');
+                const still = segmentName(segments.length);
+                await encode(ff, stillSegmentArgs('spread.jpg', still, hold, format));
+                segments.push(still);
+                written.add(still);
+                duration += hold;
+
+                const next = spreads[s + 1];
+                if (!next) break;
+
+                onProgress?.({ message: `Turning to spread ${s + 2}`, ratio: (s + 0.5) / spreads.length });
+                const target = { left: await page(next.left), right: await page(next.right) };
+                const frames: string[] = [];
+                for (let f = 0; f < turnFrames; f++) {
+                    drawPageTurn(ctx, layout, current, target, (f + 1) / (turnFrames + 1));
+                    const name = `turn_${String(f + 1).padStart(4, '0')}.jpg`;
+                    await ff.writeFile(name, await canvasBytes(canvas, 'image/jpeg'));
+                    frames.push(name);
+                }
+                const turn = segmentName(segments.length);
+                await encode(ff, frameSequenceArgs('turn_%04d.jpg', turn, turnFrames, format));
+                await removeFiles(ff, frames);
+                segments.push(turn);
+                written.add(turn);
+                duration += turnFrames / SLIDESHOW_FPS;
+
+                // Pages of the spread just left are not shown again
+                [spreads[s].left, spreads[s].right].forEach(index => index !== null && rendered.delete(index));
+            }
+
+            onProgress?.({ message: 'Writing video', ratio: 0.98 });
+            await ff.writeFile('segments.txt', concatList(segments));
+            written.add('segments.txt');
+            await encode(ff, finishArgs('segments.txt', 'slideshow.mp4', duration));
+            written.add('slideshow.mp4');
+
+            const fileName = `${(source.title || 'Album').replace(/\s+/g, '_')}_Slideshow.mp4`;
+            download(await ff.readFile('slideshow.mp4') as Uint8Array, fileName);
+
+            const skipped = [
+                ...plan.warnings.filter(warning => warning.kind === 'video' || warning.kind === 'unsupported')
+                    .map(warning => `Page ${warning.pageNumber}: ${warning.kind === 'video' ? 'videos on album pages are not part of the slideshow' : warning.message}`),
+                ...[...renderer.missing].map(url => `Image could not be loaded: ${url}`),
+            ];
+            onProgress?.({ message: 'Done', ratio: 1 });
+            return { fileName, duration, skipped };
+        } finally {
+            await renderer.dispose();
+            await removeFiles(ff, written);
+        }
+    }
+
+    /**
+     * The stack's items in order, photos held for their duration and videos
+     * played from their trim start to end, with its music under the whole
+     * slideshow, downloaded as `<title>_Slideshow.mp4`.
+     */
+    static async exportStack(
+        stack: SlideshowStack,
+        options: SlideshowOptions,
+        onProgress?: (progress: SlideshowProgress) => void
+    ): Promise<SlideshowExportResult> {
+        if (stack.items.length === 0) throw new Error('The stack has no photos or videos');
+
+        onProgress?.({ message: 'Loading video encoder', ratio: 0 });
+        const ff = await getFFmpeg();
+        const { width, height } = SLIDESHOW_RESOLUTIONS[options.resolution];
+        const format: SegmentFormat = { width, height, audio: true };
+        const { canvas, ctx } = createFrame(width, height);
+
+        const segments: string[] = [];
+        const written = new Set<string>();
+        const skipped: string[] = [];
+        const duck: { start: number; end: number }[] = [];
+        let duration = 0;
+
+        try {
+            for (let i = 0; i < stack.items.length; i++) {
+                const item = stack.items[i];
+                const label = `Item ${i + 1}`;
+                onProgress?.({ message: `Adding item ${i + 1} of ${stack.items.length}`, ratio: (i / stack.items.length) * 0.95 });
+                const segment = segmentName(segments.length);
+
+                if (item.type === 'image') {
+                    const image = await loadBitmap(item.url);
+                    if (!image) {
+                        skipped.push(`${label}: photo could not be downloaded`);
+                        continue;
+                    }
+                    drawStackPhoto(ctx, item, image);
+                    image.close();
+                    const seconds = photoDuration(item, options);
+                    await ff.writeFile('photo.jpg', await canvasBytes(canvas, 'image/jpeg'));
+                    written.add('photo.jpg');
+                    await encode(ff, stillSegmentArgs('photo.jpg', segment, seconds, format, SLIDE_FADE_SECONDS));
+                    duration += seconds;
+                } else {
+                    if (isStreamingUrl(item.url)) {
+                        skipped.push(`${label}: streaming videos cannot be exported`);
+                        continue;
+                    }
+                    const file = await loadArchiveFile(item.url);
+                    if (!file) {
+                        skipped.push(`${label}: video could not be downloaded`);
+                        continue;
+                    }
+                    const input = `clip.${archiveExtension(file.type, item.url, 'video')}`;
+                    await ff.writeFile(input, file.data);
+                    written.add(input);
+
+                    const info = await probe(ff, input);
+                    const clip = videoClip(item, info.duration, options);
+                    let overlay: string | undefined;
+                    if (hasStackOverlay(item)) {
+                        ctx.clearRect(0, 0, width, height);
+                        drawStackLayers(ctx, item);
+                        await ff.writeFile('layers.png', await canvasBytes(canvas, 'image/png'));
+                        written.add('layers.png');
+                        overlay = 'layers.png';
+                    }
+                    try {
+                        await encode(ff, videoSegmentArgs({ input, ...clip, cropMode: item.cropMode, hasAudio: info.hasAudio, overlay }, segment, format, SLIDE_FADE_SECONDS));
+                    } catch {
+                        skipped.push(`${label}: video could not be read`);
+                        continue;
+                    } finally {
+                        await removeFiles(ff, [input]);
+                    }
+                    if (info.hasAudio) duck.push({ start: duration, end: duration + clip.duration });
+                    duration += clip.duration;
+                }
+
+                segments.push(segment);
+                written.add(segment);
+            }
+            if (segments.length === 0) throw new Error('None of the stack\'s photos or videos could be downloaded');
+
+            let music: { input: string; duck: typeof duck } | undefined;
+            if (stack.musicUrl) {
+                onProgress?.({ message: 'Adding music', ratio: 0.96 });
+                const file = await loadArchiveFile(stack.musicUrl);
+                if (file) {
+                    const input = `music.${audioExtension(stack.musicUrl)}`;
+                    await ff.writeFile(input, file.data);
+                    written.add(input);
+                    music = { input, duck };
+                } else {
+                    skipped.push('The music could not be downloaded; the video has only the clips\' own sound');
+                }
+            }
+
+            onProgress?.({ message: 'Writing video', ratio: 0.98 });
+            await ff.writeFile('segments.txt', concatList(segments));
+            written.add('segments.txt');
+            await encode(ff, finishArgs('segments.txt', 'slideshow.mp4', duration, music));
+            written.add('slideshow.mp4');
+
+            const fileName = `${(stack.title || 'Stack').replace(/\s+/g, '_')}_Slideshow.mp4`;
+            download(await ff.readFile('slideshow.mp4') as Uint8Array, fileName);
+            onProgress?.({ message: 'Done', ratio: 1 });
+            return { fileName, duration, skipped };
+        } finally {
+            await removeFiles(ff, written);
+        }
+    }
+}
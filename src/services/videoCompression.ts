@@ -7,7 +7,10 @@ import { CloudflareR2Service } from './cloudflareR2';
 let ffmpegInstance: FFmpeg | null = null;
 let ffmpegLoaded = false;
 
-async function getFFmpeg(): Promise<FFmpeg> {
+/**
+ * Shared FFmpeg instance, loaded once on first use.
+ */
+export async function getFFmpeg(): Promise<FFmpeg> {
     if (ffmpegLoaded && ffmpegInstance) return ffmpegInstance;
 
     ffmpegInstance = new FFmpeg();
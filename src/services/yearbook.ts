@@ -0,0 +1,170 @@
+/**
+ * Yearbook Service
+ *
+ * Compiles the events picked with the Events page filters into a family
+ * memory book. The book is either created as an unpublished album, to be
+ * refined in the album editor and printed from there, or rendered straight
+ * to a PDF with the full stories. Both follow lib/yearbook: chapters in
+ * date order, contents, and an index of people and places.
+ */
+
+import { supabase as libSupabase } from '../lib/supabase';
+const supabase = libSupabase as any;
+import { AlbumDataService } from './albumDataService';
+import { DraftSources, MediaProbe } from './albumDraft';
+import { EventExportService } from './eventExport';
+import { loadArchiveFile } from './printService';
+import { renderYearbookPdf } from './eventStoryPdf';
+import { contextPageToUnifiedPage } from '../lib/albumAdapters';
+import { eventToStory, type EventStory, type StoryReview } from '../lib/eventStory';
+import { buildYearbookPages, eventMatchesFilters, orderYearbookStories, storyMedia, yearbookSpan, type YearbookChapter } from '../lib/yearbook';
+import type { FilterState } from '../components/ui/FilterBar';
+import type { AlbumConfig } from '../contexts/AlbumContext';
+import type { Event } from '../types/supabase';
+import type { UnifiedAlbum } from '../types/album';
+
+export interface YearbookRequest {
+    familyId: string;
+    creatorId?: string;
+    filters: FilterState;
+    title?: string;             // Defaults to "Family Yearbook <years>"
+    size?: string;              // Paper size key, as picked in CreateAlbumModal
+    dimensions?: AlbumConfig['dimensions'];
+}
+
+export interface YearbookAlbumResult {
+    albumId: string;
+    pageCount: number;
+    chapterCount: number;
+}
+
+export interface YearbookPdfResult {
+    pageCount: number;
+    chapterCount: number;
+    missing: string[];          // Image URLs that could not be embedded
+}
+
+const DEFAULT_DIMENSIONS: AlbumConfig['dimensions'] = { width: 707, height: 1000, unit: 'px', bleed: 25, gutter: 40 };
+
+function defaultTitle(stories: EventStory[]) {
+    return `Family Yearbook ${yearbookSpan(stories)}`.trim();
+}
+
+export class YearbookService {
+    /**
+     * The family's events that pass the filters, as stories in date order.
+     */
+    static async loadStories(familyId: string, filters: FilterState, withReviews = false): Promise<EventStory[]> {
+        const { data, error } = await supabase
+            .from('events')
+            .select('*')
+            .eq('family_id', familyId)
+            .order('event_date', { ascending: true });
+        if (error) {
+            console.error('Failed to load events for yearbook:', error);
+            return [];
+        }
+        const events = ((data || []) as Event[]).filter(event => eventMatchesFilters(event, filters));
+        const reviews = withReviews ? await EventExportService.loadReviews(events.map(event => event.id)) : new Map<string, StoryReview[]>();
+        return orderYearbookStories(events.map(event => eventToStory(event, reviews.get(event.id) || [])));
+    }
+
+    /**
+     * Create the yearbook as an unpublished album. Returns null when no
+     * event passes the filters or the album could not be saved.
+     */
+    static async createYearbookAlbum(request: YearbookRequest): Promise<YearbookAlbumResult | null> {
+        try {
+            const stories = await this.loadStories(request.familyId, request.filters);
+            if (stories.length === 0) return null;
+
+            // One event at a time, so a large book does not probe every photo at once
+            const chapters: YearbookChapter[] = [];
+            for (const story of stories) chapters.push({ story, media: await MediaProbe.withRatios(storyMedia(story)) });
+            const layouts = await DraftSources.loadLayouts();
+
+            const title = request.title?.trim() || defaultTitle(stories);
+            const dimensions = request.dimensions || DEFAULT_DIMENSIONS;
+            const pages = buildYearbookPages({ title, chapters, layouts, dimensions });
+
+            const config = {
+                theme: 'classic',
+                dimensions,
+                size: request.size,
+                startDate: stories[0].date.slice(0, 10),
+                endDate: stories[stories.length - 1].date.slice(0, 10),
+                yearbook: { filters: request.filters, eventIds: stories.map(story => story.id) },
+            };
+
+            const { data, error } = await supabase
+                .from('albums')
+                .insert({
+                    family_id: request.familyId,
+                    creator_id: request.creatorId,
+                    title,
+                    category: 'Yearbook',
+                    location: '',
+                    country: '',
+                    is_published: false,
+                    config,
+                    total_pages: 0,
+                })
+                .select('*')
+                .single();
+
+            if (error || !data) {
+                console.error('Failed to create yearbook album:', error);
+                return null;
+            }
+
+            const album: UnifiedAlbum = {
+                id: data.id,
+                title,
+                familyId: request.familyId,
+                creatorId: request.creatorId,
+                category: data.category || undefined,
+                coverImageUrl: pages[0].assets[0]?.url,
+                config,
+                pages: pages.map(contextPageToUnifiedPage),
+                totalPages: pages.length,
+                isPublished: false,
+                createdAt: data.created_at,
+                updatedAt: data.updated_at || data.created_at,
+            };
+
+            const result = await AlbumDataService.saveAlbum(album);
+            if (result.status !== 'saved') {
+                console.error('Failed to save yearbook pages:', result);
+                return null;
+            }
+
+            return { albumId: data.id, pageCount: pages.length, chapterCount: stories.length };
+        } catch (error) {
+            console.error('Error creating yearbook album:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Download the yearbook as a PDF with the full stories, galleries and
+     * reviews. Returns null when no event passes the filters.
+     */
+    static async exportPdf(request: YearbookRequest): Promise<YearbookPdfResult | null> {
+        const stories = await this.loadStories(request.familyId, request.filters, true);
+        if (stories.length === 0) return null;
+
+        const title = request.title?.trim() || defaultTitle(stories);
+        const result = await renderYearbookPdf({ title, stories }, {
+            loadImage: async url => (await loadArchiveFile(url))?.data || null,
+        });
+
+        const blob = new Blob([result.pdf], { type: 'application/pdf' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_')}.pdf`;
+        a.click();
+        URL.revokeObjectURL(url);
+        return { pageCount: result.pageCount, chapterCount: stories.length, missing: result.missing };
+    }
+}
@@ -110,6 +110,15 @@ export interface AssetConfig {
     // AI enhancements
     aiPrompt?: string;
 
+    // Multi-select group shared by items that move together
+    groupId?: string;
+
+    // Source pixel size, used to fit photos without cropping
+    originalDimensions?: { width: number; height: number };
+
+    // Empty frame waiting for a photo
+    isPlaceholder?: boolean;
+
     // Additional properties
     [key: string]: any;
 }
@@ -162,11 +171,35 @@ export interface LayoutTemplate {
     category?: string;
 }
 
+// ============================================================================
+// MASTER PAGES
+// ============================================================================
+
+/**
+ * What a page changes about its master page.
+ */
+export interface MasterPageOverrides {
+    background?: boolean;      // Page keeps its own background instead of the master's
+    hiddenItemIds?: string[];  // Master items not shown on this page
+}
+
+/**
+ * Shared page design stored once per album (in config.masterPages):
+ * background plus decorations and header / page-number text.
+ */
+export interface UnifiedMasterPage {
+    id: string;
+    name: string;
+    background: BackgroundConfig;
+    assets: UnifiedAsset[];
+}
+
 // ============================================================================
 // UNIFIED PAGE STRUCTURE
 // ============================================================================
 
 export interface UnifiedPage {
+    id?: string;           // Editor page id, kept across saves
     pageNumber: number;
 
     // Background
@@ -177,10 +210,18 @@ export interface UnifiedPage {
     layoutSlots?: LayoutSlot[];
     isSpreadLayout?: boolean;
 
+    // Named section starting at this page
+    section?: string;
+
+    // Master page (optional); the page inherits its background and items
+    masterPageId?: string;
+    masterOverrides?: MasterPageOverrides;
+
     // Assets (includes both slotted and freeform)
     assets: UnifiedAsset[];
 
     // Metadata
+    version?: number;      // Bumped whenever the page content changes on save
     updatedAt?: string;
 }
 
@@ -220,12 +261,54 @@ export interface UnifiedAlbum {
 
     // State
     isPublished: boolean;
+    version?: number;      // Bumped on every successful save
 
     // Timestamps
     createdAt: string;
     updatedAt: string;
 }
 
+// ============================================================================
+// OPTIMISTIC CONCURRENCY
+// ============================================================================
+
+/**
+ * Versions an editor last loaded or saved. Pages are keyed by page number
+ * because album_pages rows are rewritten on every save.
+ */
+export interface AlbumVersionStamp {
+    album: number;
+    pages: Record<string, number>;   // Page version by page id
+}
+
+export type PageDivergence = 'modified' | 'added' | 'removed';
+
+export interface DivergedPage {
+    pageId: string;
+    pageNumber: number;       // Where the page sits in our album, or theirs if we do not have it
+    change: PageDivergence;   // What the other session did to this page
+    baseVersion?: number;
+    remoteVersion?: number;
+}
+
+/**
+ * Returned instead of saving when another session saved the album after
+ * our base version and changed pages we have not seen.
+ */
+export interface SaveConflict {
+    albumId: string;
+    baseVersion: number;
+    remoteVersion: number;
+    pages: DivergedPage[];
+    theirs: UnifiedAlbum;
+    remoteStamp: AlbumVersionStamp;
+}
+
+export type SaveAlbumResult =
+    | { status: 'saved'; stamp?: AlbumVersionStamp }
+    | { status: 'conflict'; conflict: SaveConflict }
+    | { status: 'error'; error: string };
+
 // ============================================================================
 // LEGACY SCHEMA TYPES (for adapter)
 // ============================================================================
@@ -271,6 +354,7 @@ export interface SchemaVersion {
     hasAlbumPages: boolean;
     hasLegacyPages: boolean;
     hasLayoutJson: boolean;
+    hasVersionStamps: boolean;
     version: 'legacy' | 'unified' | 'hybrid';
 }
 
@@ -169,6 +169,7 @@ export type Database = {
                     hashtags: string[] | null;
                     total_pages?: number; // Optional: cached page count
                     layout_metadata?: Json; // Optional: cached layout info
+                    version?: number; // Optimistic concurrency stamp
                     created_at: string;
                     updated_at: string;
                 }
@@ -189,6 +190,7 @@ export type Database = {
                     hashtags?: string[] | null;
                     total_pages?: number;
                     layout_metadata?: Json;
+                    version?: number;
                     created_at?: string;
                     updated_at?: string;
                 }
@@ -209,6 +211,7 @@ export type Database = {
                     hashtags?: string[] | null;
                     total_pages?: number;
                     layout_metadata?: Json;
+                    version?: number;
                     created_at?: string;
                     updated_at?: string;
                 }
@@ -221,6 +224,8 @@ export type Database = {
                     background_config: Json;
                     layout_template: string | null;
                     updated_at: string;
+                    version?: number;
+                    page_id?: string;
                 }
                 Insert: {
                     album_id: string;
@@ -229,6 +234,8 @@ export type Database = {
                     background_config?: Json;
                     layout_template?: string | null;
                     updated_at?: string;
+                    version?: number;
+                    page_id?: string;
                 }
                 Update: {
                     album_id?: string;
@@ -237,6 +244,39 @@ export type Database = {
                     background_config?: Json;
                     layout_template?: string | null;
                     updated_at?: string;
+                    version?: number;
+                    page_id?: string;
+                }
+            }
+            album_revisions: {
+                Row: {
+                    id: string;
+                    album_id: string;
+                    sequence: number;
+                    name: string;
+                    author_id: string | null;
+                    author_name: string | null;
+                    album_version: number | null;
+                    changed_pages: number[];
+                    is_keyframe: boolean;
+                    content: Json; // Full snapshot when is_keyframe, otherwise a diff
+                    created_at: string;
+                }
+                Insert: {
+                    id?: string;
+                    album_id: string;
+                    sequence: number;
+                    name: string;
+                    author_id?: string | null;
+                    author_name?: string | null;
+                    album_version?: number | null;
+                    changed_pages?: number[];
+                    is_keyframe?: boolean;
+                    content: Json;
+                    created_at?: string;
+                }
+                Update: {
+                    name?: string;
                 }
             }
             pages: {
@@ -318,8 +358,18 @@ export type Database = {
                     token: string;
                     created_by: string | null;
                     created_at: string;
-                    expires_at: string;
+                    expires_at: string | null;
                     is_active: boolean;
+                    password_hash: string | null;
+                    max_views: number | null;
+                    view_count: number;
+                    last_viewed_at: string | null;
+                    allow_download: boolean;
+                    allow_comments: boolean;
+                    password_failures: number;
+                    password_locked_until: string | null;
+                    album_revision_id: string | null;
+                    has_snapshot: boolean;
                 }
                 Insert: {
                     id?: string;
@@ -329,8 +379,18 @@ export type Database = {
                     token: string;
                     created_by?: string | null;
                     created_at?: string;
-                    expires_at?: string;
+                    expires_at?: string | null;
                     is_active?: boolean;
+                    password_hash?: string | null;
+                    max_views?: number | null;
+                    view_count?: number;
+                    last_viewed_at?: string | null;
+                    allow_download?: boolean;
+                    allow_comments?: boolean;
+                    password_failures?: number;
+                    password_locked_until?: string | null;
+                    album_revision_id?: string | null;
+                    has_snapshot?: boolean;
                 }
                 Update: {
                     id?: string;
@@ -340,10 +400,184 @@ export type Database = {
                     token?: string;
                     created_by?: string | null;
                     created_at?: string;
-                    expires_at?: string;
+                    expires_at?: string | null;
+                    is_active?: boolean;
+                    password_hash?: string | null;
+                    max_views?: number | null;
+                    view_count?: number;
+                    last_viewed_at?: string | null;
+                    allow_download?: boolean;
+                    allow_comments?: boolean;
+                    password_failures?: number;
+                    password_locked_until?: string | null;
+                    album_revision_id?: string | null;
+                    has_snapshot?: boolean;
+                }
+            }
+            event_contribution_links: {
+                Row: {
+                    id: string;
+                    event_id: string;
+                    token: string;
+                    created_by: string | null;
+                    created_at: string;
+                    expires_at: string | null;
+                    is_active: boolean;
+                }
+                Insert: {
+                    id?: string;
+                    event_id: string;
+                    token: string;
+                    created_by?: string | null;
+                    created_at?: string;
+                    expires_at?: string | null;
+                    is_active?: boolean;
+                }
+                Update: {
+                    id?: string;
+                    event_id?: string;
+                    token?: string;
+                    created_by?: string | null;
+                    created_at?: string;
+                    expires_at?: string | null;
                     is_active?: boolean;
                 }
             }
+            event_contributions: {
+                Row: {
+                    id: string;
+                    link_id: string;
+                    event_id: string;
+                    uploader_name: string;
+                    message: string | null;
+                    storage_key: string;
+                    url: string | null;
+                    type: 'image' | 'video';
+                    filename: string | null;
+                    size: number | null;
+                    metadata: Json;
+                    status: 'pending' | 'approved' | 'rejected';
+                    reviewed_by: string | null;
+                    reviewed_at: string | null;
+                    created_at: string;
+                }
+                Insert: {
+                    id?: string;
+                    link_id: string;
+                    event_id: string;
+                    uploader_name: string;
+                    message?: string | null;
+                    storage_key: string;
+                    url?: string | null;
+                    type: 'image' | 'video';
+                    filename?: string | null;
+                    size?: number | null;
+                    metadata?: Json;
+                    status?: 'pending' | 'approved' | 'rejected';
+                    reviewed_by?: string | null;
+                    reviewed_at?: string | null;
+                    created_at?: string;
+                }
+                Update: {
+                    id?: string;
+                    link_id?: string;
+                    event_id?: string;
+                    uploader_name?: string;
+                    message?: string | null;
+                    storage_key?: string;
+                    url?: string | null;
+                    type?: 'image' | 'video';
+                    filename?: string | null;
+                    size?: number | null;
+                    metadata?: Json;
+                    status?: 'pending' | 'approved' | 'rejected';
+                    reviewed_by?: string | null;
+                    reviewed_at?: string | null;
+                    created_at?: string;
+                }
+            }
+            media_comments: {
+                Row: {
+                    id: string;
+                    family_id: string;
+                    target_type: 'album' | 'event' | 'stack';
+                    target_id: string;
+                    item_key: string;
+                    parent_id: string | null;
+                    body: string;
+                    author_id: string | null;
+                    guest_name: string | null;
+                    shared_link_id: string | null;
+                    mentioned_ids: string[];
+                    created_at: string;
+                }
+                Insert: {
+                    id?: string;
+                    family_id?: string;
+                    target_type: 'album' | 'event' | 'stack';
+                    target_id: string;
+                    item_key: string;
+                    parent_id?: string | null;
+                    body: string;
+                    author_id?: string | null;
+                    guest_name?: string | null;
+                    shared_link_id?: string | null;
+                    mentioned_ids?: string[];
+                    created_at?: string;
+                }
+                Update: {
+                    id?: string;
+                    family_id?: string;
+                    target_type?: 'album' | 'event' | 'stack';
+                    target_id?: string;
+                    item_key?: string;
+                    parent_id?: string | null;
+                    body?: string;
+                    author_id?: string | null;
+                    guest_name?: string | null;
+                    shared_link_id?: string | null;
+                    mentioned_ids?: string[];
+                    created_at?: string;
+                }
+            }
+            media_reactions: {
+                Row: {
+                    id: string;
+                    family_id: string;
+                    target_type: 'album' | 'event' | 'stack';
+                    target_id: string;
+                    item_key: string;
+                    emoji: string;
+                    author_id: string | null;
+                    guest_name: string | null;
+                    shared_link_id: string | null;
+                    created_at: string;
+                }
+                Insert: {
+                    id?: string;
+                    family_id?: string;
+                    target_type: 'album' | 'event' | 'stack';
+                    target_id: string;
+                    item_key: string;
+                    emoji: string;
+                    author_id?: string | null;
+                    guest_name?: string | null;
+                    shared_link_id?: string | null;
+                    created_at?: string;
+                }
+                Update: {
+                    id?: string;
+                    family_id?: string;
+                    target_type?: 'album' | 'event' | 'stack';
+                    target_id?: string;
+                    item_key?: string;
+                    emoji?: string;
+                    author_id?: string | null;
+                    guest_name?: string | null;
+                    shared_link_id?: string | null;
+                    created_at?: string;
+                }
+            }
             keywords: {
                 Row: {
                     id: number
@@ -524,10 +758,84 @@ export type Database = {
                 Args: { token_param: string }
                 Returns: boolean
             }
+            validate_shared_link: {
+                Args: { token_param: string; password_param?: string | null }
+                Returns: Json
+            }
+            get_shared_content: {
+                Args: { token_param: string; password_param?: string | null }
+                Returns: Json
+            }
             get_shared_stack: {
+                Args: { token_param: string; password_param?: string | null }
+                Returns: Json
+            }
+            get_shared_album: {
+                Args: { token_param: string; password_param?: string | null }
+                Returns: Json
+            }
+            get_shared_media_scope: {
+                Args: { token_param: string; password_param: string | null; keys_param: string[] }
+                Returns: Json
+            }
+            start_shared_link_visit: {
+                Args: { token_param: string; password_param: string | null; device_param: string }
+                Returns: string | null
+            }
+            record_shared_link_visit: {
+                Args: { visit_param: string; token_param: string; viewed_param: string[]; watch_seconds_param: number }
+                Returns: undefined
+            }
+            get_contribution_link: {
                 Args: { token_param: string }
                 Returns: Json
             }
+            get_contribution_scope: {
+                Args: { token_param: string }
+                Returns: string | null
+            }
+            submit_event_contribution: {
+                Args: {
+                    token_param: string
+                    uploader_name_param: string
+                    message_param: string | null
+                    key_param: string
+                    type_param: string
+                    filename_param: string | null
+                    size_param: number | null
+                    metadata_param: Json
+                }
+                Returns: string
+            }
+            review_event_contribution: {
+                Args: { contribution_param: string; approve_param: boolean; url_param?: string | null }
+                Returns: Json
+            }
+            get_shared_feedback: {
+                Args: { token_param: string; password_param?: string | null }
+                Returns: Json
+            }
+            post_shared_comment: {
+                Args: {
+                    token_param: string
+                    password_param: string | null
+                    guest_name_param: string
+                    item_key_param: string
+                    parent_id_param: string | null
+                    body_param: string
+                }
+                Returns: Json
+            }
+            toggle_shared_reaction: {
+                Args: {
+                    token_param: string
+                    password_param: string | null
+                    guest_name_param: string
+                    item_key_param: string
+                    emoji_param: string
+                }
+                Returns: Json
+            }
             duplicate_album_v2: {
                 Args: { source_album_id: string; new_title: string }
                 Returns: string
@@ -656,10 +964,21 @@ export interface SharedLink {
     id: string;
     album_id: string | null;
     event_id: string | null; // Added event_id
+    stack_id: string | null;
     token: string;
     created_by: string | null;
     created_at: string;
-    expires_at: string;
+    expires_at: string | null;  // null never expires
     is_active: boolean;
+    password_hash: string | null;
+    max_views: number | null;
+    view_count: number;
+    last_viewed_at: string | null;     // When the latest view was counted
+    allow_download: boolean;
+    allow_comments: boolean;
+    password_failures: number;         // Wrong passwords in a row
+    password_locked_until: string | null;
+    album_revision_id: string | null;  // null follows the live album
+    has_snapshot: boolean;             // Legacy R2 snapshot not yet deleted
 }
 
@@ -6,9 +6,22 @@
  *
  * Credentials are stored as Supabase secrets (never exposed to the browser).
  *
+ * Shared views pass the link's shareToken (and sharePassword) instead of a
+ * session, also for signed-in members, and may only read keys that
+ * get_shared_media_scope finds in what the link shows: GET signs the
+ * original for at most an hour, which only links that allow downloads get;
+ * PROXY_GET streams it for viewing without handing out a URL to the
+ * original. Guests of an "Invite contributions" link pass its
+ * contributionToken and may only PUT images and videos of up to 500 MB under
+ * contributions/<token>/, signed for the content type and contentLength
+ * they declare.
+ *
  * Usage (POST):
  *   { "operation": "PUT", "key": "media/familyId/file.mp4", "contentType": "video/mp4" }
  *   { "operation": "DELETE", "key": "media/familyId/file.mp4" }
+ *   { "operation": "GET", "key": "media/familyId/photo.jpg", "shareToken": "..." }
+ *   { "operation": "PROXY_GET", "key": "media/familyId/photo.jpg", "shareToken": "..." }
+ *   { "operation": "PUT", "key": "contributions/<token>/photo.jpg", "contentType": "image/jpeg", "contentLength": 123456, "contributionToken": "<token>" }
  *
  * Returns:
  *   { "presignedUrl": "https://..." }
@@ -22,6 +35,9 @@ const corsHeaders = {
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
+// Largest file a contribution link may upload
+const MAX_CONTRIBUTION_BYTES = 500 * 1024 * 1024;
+
 // ─── AWS Signature V4 helpers ────────────────────────────────────────────────
 
 async function sha256(message: string | Uint8Array): Promise<ArrayBuffer> {
@@ -54,11 +70,16 @@ async function getSigningKey(secret: string, date: string, region: string, servi
 
 // ─── Presigned PUT URL ───────────────────────────────────────────────────────
 
+/**
+ * With contentLength the URL also signs the Content-Type and Content-Length
+ * headers, so the upload must match what was declared.
+ */
 async function createPresignedPutUrl(
     key: string,
     contentType: string,
     expiresInSeconds: number,
-    creds: { accessKey: string; secretKey: string; endpoint: string; bucket: string }
+    creds: { accessKey: string; secretKey: string; endpoint: string; bucket: string },
+    contentLength?: number
 ): Promise<string> {
     const region = 'auto';
     const service = 's3';
@@ -70,13 +91,17 @@ async function createPresignedPutUrl(
     const credentialScope = `${datestamp}/${region}/${service}/aws4_request`;
     const credential = `${creds.accessKey}/${credentialScope}`;
     const normalizedContentType = contentType.toLowerCase();
+    const signedHeaders = contentLength === undefined ? 'host' : 'content-length;content-type;host';
+    const canonicalHeaders = contentLength === undefined
+        ? `host:${host}\n`
+        : `content-length:${contentLength}\ncontent-type:${normalizedContentType}\nhost:${host}\n`;
 
     const queryParams = new URLSearchParams({
         'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
         'X-Amz-Credential': credential,
         'X-Amz-Date': amzDate,
         'X-Amz-Expires': String(expiresInSeconds),
-        'X-Amz-SignedHeaders': 'host',
+        'X-Amz-SignedHeaders': signedHeaders,
     });
 
     const sortedParams = Array.from(queryParams.entries())
@@ -90,8 +115,8 @@ async function createPresignedPutUrl(
         'PUT',
         `/${creds.bucket}/${encodedKey}`,
         sortedParams,
-        `host:${host}\n`,
-        'host',
+        canonicalHeaders,
+        signedHeaders,
         'UNSIGNED-PAYLOAD',
     ].join('\n');
 
@@ -234,9 +259,6 @@ serve(async (req) => {
     }
 
     try {
-        const authHeader = req.headers.get('Authorization');
-        if (!authHeader) throw new Error("No authorization header");
-
         const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
         const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
 
@@ -244,31 +266,133 @@ serve(async (req) => {
             throw new Error('Server misconfiguration: Missing Supabase environment variables');
         }
 
-        const supabaseClient = createClient(supabaseUrl, supabaseKey, {
-            global: { headers: { Authorization: authHeader } },
-        });
+        const body = await req.json();
+        const { operation = 'PUT', key, contentType, contentLength, shareToken, sharePassword, contributionToken } = body;
+        let { expiresIn = 3600 } = body;
 
-        // 1. Get user identity
-        const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
-        if (userError || !user) throw new Error("Unauthorized access");
+        if (!key) {
+            return new Response(JSON.stringify({ error: 'Missing required field: key' }), {
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+        }
 
-        // 2. Get family from profile
-        const { data: profile } = await supabaseClient
-            .from('profiles')
-            .select('family_id')
-            .eq('id', user.id)
-            .single();
+        let settings: any = null;
 
-        if (!profile?.family_id) {
-            throw new Error("Could not determine family context");
-        }
+        if (shareToken) {
+            // Guests of a share link: reads only, of media the link shows
+            if (operation !== 'GET' && operation !== 'PROXY_GET') {
+                return new Response(JSON.stringify({ error: 'Share links can only read media' }), {
+                    status: 403,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+            }
+
+            const guestClient = createClient(supabaseUrl, supabaseKey);
+            const { data: scope } = await guestClient.rpc('get_shared_media_scope', {
+                token_param: shareToken,
+                password_param: sharePassword ?? null,
+                keys_param: [key],
+            });
+
+            if (!scope?.family_id || !scope.keys?.includes(key)) {
+                return new Response(JSON.stringify({ error: 'This media is not part of the share link' }), {
+                    status: 403,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+            }
 
-        // 3. Fetch family-specific R2 settings
-        const { data: settings } = await supabaseClient
-            .from('family_settings')
-            .select('*')
-            .eq('family_id', profile.family_id)
-            .maybeSingle();
+            // Without downloads the original is only ever streamed, never signed
+            if (operation === 'GET' && !scope.allow_download) {
+                return new Response(JSON.stringify({ error: 'This share link does not allow downloads' }), {
+                    status: 403,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+            }
+
+            // Guests cannot read family_settings themselves
+            const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+            if (!serviceKey) {
+                throw new Error('Server misconfiguration: Missing service role key');
+            }
+            const serviceClient = createClient(supabaseUrl, serviceKey);
+            ({ data: settings } = await serviceClient
+                .from('family_settings')
+                .select('*')
+                .eq('family_id', scope.family_id)
+                .maybeSingle());
+
+            expiresIn = Math.min(expiresIn, 3600);
+        } else if (contributionToken) {
+            // Guests of a contribution link: uploads of media into the link's own prefix
+            const isMedia = typeof contentType === 'string' && /^(image|video)\//.test(contentType);
+            if (operation !== 'PUT' || !isMedia || !String(key).startsWith(`contributions/${contributionToken}/`)) {
+                return new Response(JSON.stringify({ error: 'Contribution links can only upload photos and videos' }), {
+                    status: 403,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+            }
+            if (!Number.isInteger(contentLength) || contentLength <= 0 || contentLength > MAX_CONTRIBUTION_BYTES) {
+                return new Response(JSON.stringify({ error: 'Contributions must declare their size and be at most 500 MB' }), {
+                    status: 413,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+            }
+
+            const guestClient = createClient(supabaseUrl, supabaseKey);
+            const { data: familyId } = await guestClient.rpc('get_contribution_scope', {
+                token_param: contributionToken,
+            });
+
+            if (!familyId) {
+                return new Response(JSON.stringify({ error: 'This link is invalid or has expired' }), {
+                    status: 403,
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+            }
+
+            const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+            if (!serviceKey) {
+                throw new Error('Server misconfiguration: Missing service role key');
+            }
+            const serviceClient = createClient(supabaseUrl, serviceKey);
+            ({ data: settings } = await serviceClient
+                .from('family_settings')
+                .select('*')
+                .eq('family_id', familyId)
+                .maybeSingle());
+
+            expiresIn = Math.min(expiresIn, 3600);
+        } else {
+            const authHeader = req.headers.get('Authorization');
+            if (!authHeader) throw new Error("No authorization header");
+
+            const supabaseClient = createClient(supabaseUrl, supabaseKey, {
+                global: { headers: { Authorization: authHeader } },
+            });
+
+            // 1. Get user identity
+            const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+            if (userError || !user) throw new Error("Unauthorized access");
+
+            // 2. Get family from profile
+            const { data: profile } = await supabaseClient
+                .from('profiles')
+                .select('family_id')
+                .eq('id', user.id)
+                .single();
+
+            if (!profile?.family_id) {
+                throw new Error("Could not determine family context");
+            }
+
+            // 3. Fetch family-specific R2 settings
+            ({ data: settings } = await supabaseClient
+                .from('family_settings')
+                .select('*')
+                .eq('family_id', profile.family_id)
+                .maybeSingle());
+        }
 
         // 4. Resolve credentials (Family-specific first, then fall back to Global)
         const R2_ACCESS_KEY = settings?.r2_access_key_id || Deno.env.get('R2_ACCESS_KEY_ID');
@@ -283,16 +407,6 @@ serve(async (req) => {
             });
         }
 
-        const body = await req.json();
-        const { operation = 'PUT', key, contentType, expiresIn = 3600 } = body;
-
-        if (!key) {
-            return new Response(JSON.stringify({ error: 'Missing required field: key' }), {
-                status: 400,
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-        }
-
         const creds = {
             accessKey: R2_ACCESS_KEY,
             secretKey: R2_SECRET_KEY,
@@ -309,7 +423,7 @@ serve(async (req) => {
                     headers: { ...corsHeaders, 'Content-Type': 'application/json' },
                 });
             }
-            presignedUrl = await createPresignedPutUrl(key, contentType, expiresIn, creds);
+            presignedUrl = await createPresignedPutUrl(key, contentType, expiresIn, creds, contributionToken ? contentLength : undefined);
         } else if (operation === 'DELETE') {
             presignedUrl = await createPresignedDeleteUrl(key, expiresIn, creds);
         } else if (operation === 'GET') {
@@ -329,6 +443,10 @@ serve(async (req) => {
             for (const [k, v] of Object.entries(corsHeaders)) {
                 responseHeaders.set(k, v);
             }
+            if (shareToken) {
+                responseHeaders.set('Content-Disposition', 'inline');
+                responseHeaders.set('Cache-Control', 'private, no-store');
+            }
 
             return new Response(r2Response.body, {
                 status: r2Response.status,
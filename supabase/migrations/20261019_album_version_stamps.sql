@@ -0,0 +1,17 @@
+-- Optimistic concurrency for album saves
+-- Every successful save bumps albums.version; pages whose content changed
+-- are stamped with the new album version so editors can tell which pages
+-- diverged since they loaded the album. Pages carry a stable id so a page
+-- keeps its version when pages are inserted, removed or reordered around it.
+ALTER TABLE public.albums
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.album_pages
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.album_pages
+ADD COLUMN IF NOT EXISTS page_id TEXT NOT NULL DEFAULT gen_random_uuid()::text;
+
+COMMENT ON COLUMN public.albums.version IS 'Incremented on every save; saves are rejected when the caller''s base version is stale';
+COMMENT ON COLUMN public.album_pages.version IS 'Album version at which this page content last changed';
+COMMENT ON COLUMN public.album_pages.page_id IS 'Editor page id, kept across saves; versions are tracked per page id';
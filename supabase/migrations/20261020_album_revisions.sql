@@ -0,0 +1,72 @@
+-- Persistent album revision history
+-- One row per successful save. Most rows hold a diff against the previous
+-- revision (changed album fields plus whole changed pages); periodic
+-- keyframes hold a full snapshot so any revision can be rebuilt by replaying
+-- a short run of diffs.
+CREATE TABLE IF NOT EXISTS public.album_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    album_id UUID NOT NULL REFERENCES public.albums(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    author_name TEXT,
+    album_version INTEGER,
+    changed_pages INTEGER[] NOT NULL DEFAULT '{}',
+    is_keyframe BOOLEAN NOT NULL DEFAULT false,
+    content JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (album_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_album_revisions_album_sequence
+ON public.album_revisions(album_id, sequence DESC);
+
+-- Enable RLS
+ALTER TABLE public.album_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the album can browse its history
+CREATE POLICY "View revisions of accessible albums"
+ON public.album_revisions FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.albums
+        WHERE albums.id = album_revisions.album_id
+    )
+);
+
+-- Revisions are recorded by the saving user
+CREATE POLICY "Record own revisions"
+ON public.album_revisions FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = author_id AND
+    EXISTS (
+        SELECT 1 FROM public.albums
+        WHERE albums.id = album_revisions.album_id
+    )
+);
+
+-- Renaming a revision is allowed for anyone with access to the album.
+-- The name is the only column that can change; the recorded content,
+-- author and sequence stay as they were saved.
+CREATE POLICY "Rename revisions of accessible albums"
+ON public.album_revisions FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.albums
+        WHERE albums.id = album_revisions.album_id
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.albums
+        WHERE albums.id = album_revisions.album_id
+    )
+);
+
+REVOKE UPDATE ON public.album_revisions FROM anon, authenticated;
+GRANT UPDATE (name) ON public.album_revisions TO authenticated;
+
+COMMENT ON TABLE public.album_revisions IS 'Save history per album; content is a full snapshot when is_keyframe, otherwise a diff against the previous sequence.';
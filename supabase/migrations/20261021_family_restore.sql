@@ -0,0 +1,40 @@
+-- Family restore from a backup archive
+-- Stacks and reviews may normally only be written by their own author. A
+-- family admin restoring a backup re-creates rows on behalf of the whole
+-- family, so admins may insert them for any member of their own family.
+-- The author must be a member of the family the row belongs to, so a
+-- restore cannot put words in the mouth of someone outside it.
+
+DROP POLICY IF EXISTS "Family admins can restore stacks" ON public.stacks;
+CREATE POLICY "Family admins can restore stacks"
+ON public.stacks FOR INSERT
+TO authenticated
+WITH CHECK (
+    (
+        (family_id IN (SELECT family_id FROM public.profiles WHERE id = auth.uid()) AND public.is_admin())
+        OR public.is_super_admin()
+    )
+    AND user_id IN (SELECT p.id FROM public.profiles p WHERE p.family_id = stacks.family_id)
+);
+
+DROP POLICY IF EXISTS "Family admins can restore reviews" ON public.event_reviews;
+CREATE POLICY "Family admins can restore reviews"
+ON public.event_reviews FOR INSERT
+TO authenticated
+WITH CHECK (
+    (
+        (
+            event_id IN (
+                SELECT e.id FROM public.events e
+                WHERE e.family_id IN (SELECT family_id FROM public.profiles WHERE id = auth.uid())
+            )
+            AND public.is_admin()
+        )
+        OR public.is_super_admin()
+    )
+    AND user_id IN (
+        SELECT p.id FROM public.profiles p
+        JOIN public.events e ON e.family_id = p.family_id
+        WHERE e.id = event_reviews.event_id
+    )
+);
@@ -0,0 +1,271 @@
+-- Configurable share links
+-- Links to albums, events and stacks now carry their own options instead of
+-- a fixed 48 hour lifetime: any expiry (NULL expires_at never expires), an
+-- optional password, a view limit, and whether guests may download media or
+-- leave comments. Every public entry point opens a link through
+-- validate_shared_link, which enforces the options and counts the view.
+-- Without allow_download the viewers hide their download and export buttons
+-- and guests never get a signed URL to an original: the edge function only
+-- streams the media they are shown.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS stack_id UUID REFERENCES public.stacks(id) ON DELETE CASCADE;
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS password_hash TEXT;
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS max_views INTEGER CHECK (max_views IS NULL OR max_views > 0);
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS view_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMPTZ;
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS allow_download BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS allow_comments BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS password_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS password_locked_until TIMESTAMPTZ;
+ALTER TABLE public.shared_links ALTER COLUMN expires_at DROP NOT NULL;
+ALTER TABLE public.shared_links ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_shared_links_stack_id ON public.shared_links(stack_id);
+
+--------------------------------------------------------------------------------
+-- 1. POLICIES
+-- Family members can list and revoke every link to their family's items,
+-- including stack links which the earlier SELECT policy left out.
+--------------------------------------------------------------------------------
+DROP POLICY IF EXISTS "Users can view own family links" ON public.shared_links;
+CREATE POLICY "Users can view own family links" ON public.shared_links
+  FOR SELECT USING (
+    (album_id IN (SELECT id FROM albums WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())))
+    OR
+    (event_id IN (SELECT id FROM events WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())))
+    OR
+    (stack_id IN (SELECT id FROM stacks WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())))
+  );
+
+DROP POLICY IF EXISTS "Users can update own family links" ON public.shared_links;
+CREATE POLICY "Users can update own family links" ON public.shared_links
+  FOR UPDATE USING (
+    (album_id IN (SELECT id FROM albums WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())))
+    OR
+    (event_id IN (SELECT id FROM events WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())))
+    OR
+    (stack_id IN (SELECT id FROM stacks WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())))
+  );
+
+--------------------------------------------------------------------------------
+-- 2. OPENING A LINK
+-- Returns { success, code, error } on failure, where code is one of
+-- invalid, expired, password_required, password_incorrect or view_limit.
+-- On success the view is counted and { success, link } holds what the link
+-- points at and what guests may do with it. The password is checked against
+-- sha256(token || ':' || password), which the app stores when the link is made;
+-- the random token salts it per link. Five wrong passwords in a row lock the
+-- link's password for 15 minutes, reported as password_incorrect, so it
+-- cannot be guessed through any of the functions that take one.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION shared_link_password_failure(link_id_param UUID, password_param TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+BEGIN
+  SELECT * INTO link_record FROM shared_links WHERE id = link_id_param FOR UPDATE;
+
+  IF link_record.password_hash IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF COALESCE(password_param, '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'code', 'password_required', 'error', 'This link is protected with a password.');
+  END IF;
+
+  IF link_record.password_locked_until > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'code', 'password_incorrect', 'error', 'Too many wrong passwords. Please try again in a few minutes.');
+  END IF;
+
+  IF encode(extensions.digest(link_record.token || ':' || password_param, 'sha256'), 'hex') = link_record.password_hash THEN
+    IF link_record.password_failures > 0 THEN
+      UPDATE shared_links SET password_failures = 0 WHERE id = link_record.id;
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  UPDATE shared_links
+  SET password_failures = CASE WHEN password_failures >= 4 THEN 0 ELSE password_failures + 1 END,
+      password_locked_until = CASE WHEN password_failures >= 4 THEN NOW() + INTERVAL '15 minutes' ELSE password_locked_until END
+  WHERE id = link_record.id;
+
+  RETURN jsonb_build_object('success', false, 'code', 'password_incorrect', 'error', 'The password is incorrect.');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION shared_link_password_failure(UUID, TEXT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION validate_shared_link(token_param TEXT, password_param TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+  password_failure JSONB;
+BEGIN
+  SELECT * INTO link_record FROM shared_links
+  WHERE token = token_param AND is_active = TRUE
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'code', 'invalid', 'error', 'This link is invalid or has been revoked.');
+  END IF;
+
+  IF link_record.expires_at IS NOT NULL AND link_record.expires_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'code', 'expired', 'error', 'This link has expired.');
+  END IF;
+
+  password_failure := shared_link_password_failure(link_record.id, password_param);
+  IF password_failure IS NOT NULL THEN
+    RETURN password_failure;
+  END IF;
+
+  IF link_record.max_views IS NOT NULL AND link_record.view_count >= link_record.max_views THEN
+    RETURN jsonb_build_object('success', false, 'code', 'view_limit', 'error', 'This link has reached its view limit.');
+  END IF;
+
+  UPDATE shared_links SET view_count = view_count + 1, last_viewed_at = NOW() WHERE id = link_record.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'link', jsonb_build_object(
+      'album_id', link_record.album_id,
+      'event_id', link_record.event_id,
+      'stack_id', link_record.stack_id,
+      'expires_at', link_record.expires_at,
+      'allow_download', link_record.allow_download,
+      'allow_comments', link_record.allow_comments,
+      'views_left', CASE WHEN link_record.max_views IS NULL THEN NULL
+                         ELSE link_record.max_views - link_record.view_count - 1 END
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION validate_shared_link(TEXT, TEXT) TO anon, authenticated;
+
+--------------------------------------------------------------------------------
+-- 3. UNIVERSAL SHARING (Albums or Events)
+--------------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_shared_content(TEXT);
+CREATE OR REPLACE FUNCTION get_shared_content(token_param TEXT, password_param TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  access JSONB;
+  link_data JSONB;
+  album_record RECORD;
+  event_record RECORD;
+  pages_json JSONB;
+BEGIN
+  access := validate_shared_link(token_param, password_param);
+  IF NOT (access->>'success')::BOOLEAN THEN
+    RETURN access;
+  END IF;
+  link_data := access->'link';
+
+  IF link_data->>'album_id' IS NOT NULL THEN
+    SELECT * INTO album_record FROM albums WHERE id = (link_data->>'album_id')::UUID;
+
+    SELECT jsonb_agg(
+      to_jsonb(p) || jsonb_build_object(
+        'assets', (
+          SELECT COALESCE(jsonb_agg(to_jsonb(a)), '[]'::jsonb)
+          FROM assets a
+          WHERE a.page_id = p.id
+        )
+      )
+    ) INTO pages_json
+    FROM (
+      SELECT * FROM pages WHERE album_id = (link_data->>'album_id')::UUID ORDER BY page_number
+    ) p;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'type', 'album',
+      'link', link_data,
+      'album', to_jsonb(album_record),
+      'pages', pages_json
+    );
+  ELSIF link_data->>'event_id' IS NOT NULL THEN
+    SELECT * INTO event_record FROM events WHERE id = (link_data->>'event_id')::UUID;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'type', 'event',
+      'link', link_data,
+      'event', to_jsonb(event_record)
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', false, 'code', 'invalid', 'error', 'No content associated with this link');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_content(TEXT, TEXT) TO anon, authenticated;
+
+-- The album-only predecessor of get_shared_content skips the link options
+DROP FUNCTION IF EXISTS get_shared_album_content(TEXT);
+
+CREATE OR REPLACE FUNCTION is_share_link_valid(token_param TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM shared_links
+    WHERE token = token_param
+      AND is_active = TRUE
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND (max_views IS NULL OR view_count < max_views)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+--------------------------------------------------------------------------------
+-- 4. STACKS SHARING
+-- Answers in the same { success, link, stack } shape as get_shared_content so
+-- the viewer can tell a password prompt apart from a dead link.
+--------------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_shared_stack(TEXT);
+CREATE OR REPLACE FUNCTION get_shared_stack(token_param TEXT, password_param TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  access JSONB;
+  stack_data JSONB;
+BEGIN
+  access := validate_shared_link(token_param, password_param);
+  IF NOT (access->>'success')::BOOLEAN THEN
+    RETURN access;
+  END IF;
+
+  IF access->'link'->>'stack_id' IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'invalid', 'error', 'This link is not associated with a stack.');
+  END IF;
+
+  SELECT row_to_json(s) INTO stack_data
+  FROM stacks s
+  WHERE s.id = (access->'link'->>'stack_id')::UUID;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'link', access->'link',
+    'stack', stack_data
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_stack(TEXT, TEXT) TO anon, authenticated;
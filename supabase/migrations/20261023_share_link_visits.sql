@@ -0,0 +1,122 @@
+-- Share link access log
+-- One row per guest visit to a shared album, event or stack: when it
+-- started, a coarse device type, which pages or items were seen and, for
+-- stacks, how long the guest watched. Guests have no account, so visits are
+-- written through two SECURITY DEFINER functions keyed by the link token.
+-- Families can switch the log off in family_settings; no visits are
+-- recorded while it is off.
+
+ALTER TABLE public.family_settings ADD COLUMN IF NOT EXISTS share_analytics_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE TABLE IF NOT EXISTS public.shared_link_visits (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    link_id UUID NOT NULL REFERENCES public.shared_links(id) ON DELETE CASCADE,
+    visited_at TIMESTAMPTZ DEFAULT NOW(),
+    last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    device_type TEXT NOT NULL DEFAULT 'desktop' CHECK (device_type IN ('mobile', 'tablet', 'desktop')),
+    viewed_items TEXT[] NOT NULL DEFAULT '{}',
+    watch_seconds INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_link_visits_link_visited
+ON public.shared_link_visits(link_id, visited_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.shared_link_visits ENABLE ROW LEVEL SECURITY;
+
+-- The shared_links policies already limit links to the member's own family
+DROP POLICY IF EXISTS "View visits to family links" ON public.shared_link_visits;
+CREATE POLICY "View visits to family links"
+ON public.shared_link_visits FOR SELECT
+TO authenticated
+USING (link_id IN (SELECT id FROM public.shared_links));
+
+DROP POLICY IF EXISTS "Admins can clear visits to family links" ON public.shared_link_visits;
+CREATE POLICY "Admins can clear visits to family links"
+ON public.shared_link_visits FOR DELETE
+TO authenticated
+USING (link_id IN (SELECT id FROM public.shared_links) AND public.is_admin());
+
+--------------------------------------------------------------------------------
+-- Start a visit once the viewer has opened the link. Returns the visit id,
+-- or NULL when the link is not open, the password does not match or the
+-- family has the log switched off. Wrong passwords count towards the link's
+-- lockout like they do in validate_shared_link.
+--------------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS start_shared_link_visit(TEXT, TEXT);
+CREATE OR REPLACE FUNCTION start_shared_link_visit(token_param TEXT, password_param TEXT, device_param TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+  link_family UUID;
+  visit_id UUID;
+BEGIN
+  SELECT * INTO link_record FROM shared_links
+  WHERE token = token_param
+    AND is_active = TRUE
+    AND (expires_at IS NULL OR expires_at > NOW())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF shared_link_password_failure(link_record.id, password_param) IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  link_family := COALESCE(
+    (SELECT family_id FROM albums WHERE id = link_record.album_id),
+    (SELECT family_id FROM events WHERE id = link_record.event_id),
+    (SELECT family_id FROM stacks WHERE id = link_record.stack_id)
+  );
+
+  IF NOT COALESCE((SELECT share_analytics_enabled FROM family_settings WHERE family_id = link_family), TRUE) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO shared_link_visits (link_id, device_type)
+  VALUES (
+    link_record.id,
+    CASE WHEN device_param IN ('mobile', 'tablet', 'desktop') THEN device_param ELSE 'desktop' END
+  )
+  RETURNING id INTO visit_id;
+
+  RETURN visit_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_shared_link_visit(TEXT, TEXT, TEXT) TO anon, authenticated;
+
+--------------------------------------------------------------------------------
+-- Add to a visit: the pages or items seen since the last call and the total
+-- watch time so far. The token must match the visit's link, so a visit id on
+-- its own cannot be written to. A visit keeps at most 500 distinct items of
+-- up to 200 characters each; anything beyond that is dropped.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION record_shared_link_visit(visit_param UUID, token_param TEXT, viewed_param TEXT[], watch_seconds_param INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE shared_link_visits v
+  SET viewed_items = (v.viewed_items || ARRAY(
+        SELECT DISTINCT item FROM unnest(viewed_param[1:500]) AS item
+        WHERE char_length(item) <= 200 AND item <> ALL (v.viewed_items)
+      ))[1:500],
+      watch_seconds = GREATEST(v.watch_seconds, LEAST(COALESCE(watch_seconds_param, 0), 86400)),
+      last_seen_at = NOW()
+  FROM shared_links l
+  WHERE v.id = visit_param
+    AND l.id = v.link_id
+    AND l.token = token_param;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_shared_link_visit(UUID, TEXT, TEXT[], INTEGER) TO anon, authenticated;
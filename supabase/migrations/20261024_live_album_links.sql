@@ -0,0 +1,215 @@
+-- Live and pinned album links
+-- Album links used to publish a one-time JSON snapshot to R2, so guests never
+-- saw later edits and the snapshot carried raw media URLs. Albums are now read
+-- through get_shared_album: a link either follows the album as it is now
+-- (album_revision_id NULL) or is pinned to one saved revision. Guests get
+-- their media signed per visit by the get-r2-presigned-url edge function,
+-- which asks get_shared_media_scope whether a key belongs to what the link
+-- shows. has_snapshot marks links whose old R2 snapshot still has to be
+-- deleted; the app removes them and clears the flag.
+
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS album_revision_id UUID REFERENCES public.album_revisions(id) ON DELETE CASCADE;
+ALTER TABLE public.shared_links ADD COLUMN IF NOT EXISTS has_snapshot BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Every album link made so far published a snapshot
+UPDATE public.shared_links SET has_snapshot = TRUE WHERE album_id IS NOT NULL;
+
+--------------------------------------------------------------------------------
+-- 1. READING A SHARED ALBUM
+-- Same { success, code, error } failures as validate_shared_link. A live link
+-- answers { success, link, album, pages } with the albums row and its
+-- album_pages rows; a pinned link answers { success, link, revision,
+-- keyframe, diffs } with the nearest keyframe before the revision and the
+-- diffs after it, which the app replays like the History panel does.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_shared_album(token_param TEXT, password_param TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  access JSONB;
+  album_uuid UUID;
+  revision_uuid UUID;
+  revision_record album_revisions%ROWTYPE;
+  keyframe_record album_revisions%ROWTYPE;
+BEGIN
+  access := validate_shared_link(token_param, password_param);
+  IF NOT (access->>'success')::BOOLEAN THEN
+    RETURN access;
+  END IF;
+
+  album_uuid := (access->'link'->>'album_id')::UUID;
+  IF album_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'code', 'invalid', 'error', 'This link is not associated with an album.');
+  END IF;
+
+  SELECT album_revision_id INTO revision_uuid FROM shared_links WHERE token = token_param;
+
+  IF revision_uuid IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'link', access->'link',
+      'album', (SELECT to_jsonb(a) FROM albums a WHERE a.id = album_uuid),
+      'pages', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(p) ORDER BY p.page_number), '[]'::jsonb)
+        FROM album_pages p
+        WHERE p.album_id = album_uuid
+      )
+    );
+  END IF;
+
+  SELECT * INTO revision_record FROM album_revisions WHERE id = revision_uuid AND album_id = album_uuid;
+
+  SELECT * INTO keyframe_record FROM album_revisions
+  WHERE album_id = album_uuid
+    AND is_keyframe = TRUE
+    AND sequence <= revision_record.sequence
+  ORDER BY sequence DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'code', 'invalid', 'error', 'The shared version of this album is no longer available.');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'link', access->'link',
+    'revision', jsonb_build_object(
+      'sequence', revision_record.sequence,
+      'name', revision_record.name,
+      'created_at', revision_record.created_at
+    ),
+    'keyframe', keyframe_record.content,
+    'diffs', (
+      SELECT COALESCE(jsonb_agg(r.content ORDER BY r.sequence), '[]'::jsonb)
+      FROM album_revisions r
+      WHERE r.album_id = album_uuid
+        AND r.sequence > keyframe_record.sequence
+        AND r.sequence <= revision_record.sequence
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_album(TEXT, TEXT) TO anon, authenticated;
+
+--------------------------------------------------------------------------------
+-- 2. MEDIA SCOPE
+-- Which of the given storage keys appear in what the link shows, the family
+-- whose storage holds them and whether the link allows downloads, without
+-- which the edge function only streams media and never signs originals.
+-- Does not count a view: the guest already opened the link and needs their
+-- media for the rest of the visit. It checks the link like get_shared_album
+-- does, except that a link whose views are used up keeps serving media for
+-- two hours after its final view, so that last visit can finish.
+-- A key only counts when some string in the shown rows is that key, or a URL
+-- whose path decodes to it exactly.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION decode_url_path(encoded TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN convert_from((
+    SELECT string_agg(CASE WHEN m[1] IS NOT NULL THEN decode(substr(m[1], 2), 'hex') ELSE convert_to(m[2], 'UTF8') END, ''::BYTEA ORDER BY n)
+    FROM regexp_matches(encoded, '(%[0-9A-Fa-f]{2})|([^%]+|%)', 'g') WITH ORDINALITY AS t(m, n)
+  ), 'UTF8');
+EXCEPTION WHEN others THEN
+  -- Not valid UTF-8 once decoded
+  RETURN encoded;
+END;
+$$;
+
+-- Direct r2.cloudflarestorage.com URLs carry the bucket as their first segment
+CREATE OR REPLACE FUNCTION shared_media_keys(docs JSONB)
+RETURNS SETOF TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT
+    CASE
+      WHEN v !~* '^https?://' THEN v
+      WHEN v ~* '^https?://[^/?#]*r2\.cloudflarestorage\.com/' THEN decode_url_path(substring(v FROM '^[^:]+://[^/?#]+/[^/?#]+/([^?#]+)'))
+      ELSE decode_url_path(substring(v FROM '^[^:]+://[^/?#]+/([^?#]+)'))
+    END
+  FROM (
+    SELECT item #>> '{}' AS v
+    FROM jsonb_path_query(docs, 'strict $.**') AS item
+    WHERE jsonb_typeof(item) = 'string'
+  ) AS strings;
+$$;
+
+CREATE OR REPLACE FUNCTION get_shared_media_scope(token_param TEXT, password_param TEXT, keys_param TEXT[])
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+  link_family UUID;
+  shown JSONB;
+  keyframe_sequence INTEGER;
+  revision_sequence INTEGER;
+BEGIN
+  SELECT * INTO link_record FROM shared_links
+  WHERE token = token_param
+    AND is_active = TRUE
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF shared_link_password_failure(link_record.id, password_param) IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF link_record.max_views IS NOT NULL
+     AND link_record.view_count >= link_record.max_views
+     AND (link_record.last_viewed_at IS NULL OR link_record.last_viewed_at < NOW() - INTERVAL '2 hours') THEN
+    RETURN NULL;
+  END IF;
+
+  IF link_record.album_id IS NOT NULL THEN
+    SELECT family_id, jsonb_build_array(to_jsonb(a)) INTO link_family, shown FROM albums a WHERE a.id = link_record.album_id;
+
+    IF link_record.album_revision_id IS NULL THEN
+      shown := shown || COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM album_pages p WHERE p.album_id = link_record.album_id), '[]'::jsonb);
+    ELSE
+      SELECT sequence INTO revision_sequence FROM album_revisions
+      WHERE id = link_record.album_revision_id AND album_id = link_record.album_id;
+      SELECT MAX(sequence) INTO keyframe_sequence FROM album_revisions
+      WHERE album_id = link_record.album_id AND is_keyframe = TRUE AND sequence <= revision_sequence;
+
+      shown := shown || COALESCE((
+        SELECT jsonb_agg(r.content) FROM album_revisions r
+        WHERE r.album_id = link_record.album_id
+          AND r.sequence >= keyframe_sequence
+          AND r.sequence <= revision_sequence
+      ), '[]'::jsonb);
+    END IF;
+  ELSIF link_record.event_id IS NOT NULL THEN
+    SELECT family_id, jsonb_build_array(to_jsonb(e)) INTO link_family, shown FROM events e WHERE e.id = link_record.event_id;
+  ELSE
+    SELECT family_id, jsonb_build_array(to_jsonb(s)) INTO link_family, shown FROM stacks s WHERE s.id = link_record.stack_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'family_id', link_family,
+    'allow_download', link_record.allow_download,
+    'keys', (
+      SELECT COALESCE(jsonb_agg(k), '[]'::jsonb)
+      FROM unnest(keys_param) k
+      WHERE k <> ''
+        AND k IN (SELECT shared_media_keys(shown))
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_media_scope(TEXT, TEXT, TEXT[]) TO anon, authenticated;
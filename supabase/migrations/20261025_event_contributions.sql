@@ -0,0 +1,291 @@
+-- Guest contributions to events
+-- An "Invite contributions" link lets relatives without an account upload
+-- photos and videos to an event. Uploads go to R2 under
+-- contributions/<token>/ through the get-r2-presigned-url edge function and
+-- wait in event_contributions with the uploader's name, message and storage
+-- key until a family admin approves them, which files them in family_media and appends
+-- them to the event's gallery, or rejects them.
+
+CREATE TABLE IF NOT EXISTS public.event_contribution_links (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,     -- NULL never expires
+    is_active BOOLEAN NOT NULL DEFAULT TRUE
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_contribution_links_event ON public.event_contribution_links(event_id);
+
+CREATE TABLE IF NOT EXISTS public.event_contributions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    link_id UUID NOT NULL REFERENCES public.event_contribution_links(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+    uploader_name TEXT NOT NULL,
+    message TEXT,
+    storage_key TEXT NOT NULL,
+    url TEXT,                   -- Set on approval
+    type TEXT NOT NULL CHECK (type IN ('image', 'video')),
+    filename TEXT,
+    size BIGINT,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_contributions_event_status
+ON public.event_contributions(event_id, status, created_at);
+
+-- Enable RLS
+ALTER TABLE public.event_contribution_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_contributions ENABLE ROW LEVEL SECURITY;
+
+--------------------------------------------------------------------------------
+-- 1. POLICIES
+-- Any family member can invite contributions to the family's events and see
+-- the queue. Contributions are only written through the functions below.
+--------------------------------------------------------------------------------
+DROP POLICY IF EXISTS "View family contribution links" ON public.event_contribution_links;
+CREATE POLICY "View family contribution links"
+ON public.event_contribution_links FOR SELECT
+TO authenticated
+USING (event_id IN (SELECT id FROM events WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())));
+
+DROP POLICY IF EXISTS "Create family contribution links" ON public.event_contribution_links;
+CREATE POLICY "Create family contribution links"
+ON public.event_contribution_links FOR INSERT
+TO authenticated
+WITH CHECK (event_id IN (SELECT id FROM events WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())));
+
+DROP POLICY IF EXISTS "Revoke family contribution links" ON public.event_contribution_links;
+CREATE POLICY "Revoke family contribution links"
+ON public.event_contribution_links FOR UPDATE
+TO authenticated
+USING (event_id IN (SELECT id FROM events WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())));
+
+DROP POLICY IF EXISTS "View contributions to family events" ON public.event_contributions;
+CREATE POLICY "View contributions to family events"
+ON public.event_contributions FOR SELECT
+TO authenticated
+USING (event_id IN (SELECT id FROM events WHERE family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())));
+
+--------------------------------------------------------------------------------
+-- 2. GUESTS
+-- get_contribution_link answers { success, event } for the upload page, or
+-- { success, error } when the link is revoked, expired or unknown.
+-- get_contribution_scope gives the edge function the family whose storage
+-- takes the uploads. submit_event_contribution queues an uploaded file by its
+-- storage key, which must lie under the link's own contributions/<token>/
+-- prefix. Guests never choose the URL a contribution is filed under. A link
+-- takes at most 500 contributions, and 50 in any ten minutes.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION get_contribution_link(token_param TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record event_contribution_links%ROWTYPE;
+BEGIN
+  SELECT * INTO link_record FROM event_contribution_links
+  WHERE token = token_param AND is_active = TRUE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This link is invalid or has been revoked.');
+  END IF;
+
+  IF link_record.expires_at IS NOT NULL AND link_record.expires_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This link has expired.');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'event', (
+      SELECT jsonb_build_object('id', e.id, 'title', e.title, 'event_date', e.event_date, 'location', e.location)
+      FROM events e WHERE e.id = link_record.event_id
+    ),
+    'expires_at', link_record.expires_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_contribution_link(TEXT) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_contribution_scope(token_param TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.family_id
+  FROM event_contribution_links l
+  JOIN events e ON e.id = l.event_id
+  WHERE l.token = token_param
+    AND l.is_active = TRUE
+    AND (l.expires_at IS NULL OR l.expires_at > NOW());
+$$;
+
+GRANT EXECUTE ON FUNCTION get_contribution_scope(TEXT) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION submit_event_contribution(
+  token_param TEXT,
+  uploader_name_param TEXT,
+  message_param TEXT,
+  key_param TEXT,
+  type_param TEXT,
+  filename_param TEXT,
+  size_param BIGINT,
+  metadata_param JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record event_contribution_links%ROWTYPE;
+  key_prefix TEXT := 'contributions/' || token_param || '/';
+  contribution_id UUID;
+BEGIN
+  -- Locked so concurrent uploads are counted one after the other
+  SELECT * INTO link_record FROM event_contribution_links
+  WHERE token = token_param
+    AND is_active = TRUE
+    AND (expires_at IS NULL OR expires_at > NOW())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is invalid or has expired.';
+  END IF;
+
+  IF COALESCE(trim(uploader_name_param), '') = '' THEN
+    RAISE EXCEPTION 'Please enter your name.';
+  END IF;
+
+  IF (SELECT count(*) FROM event_contributions WHERE link_id = link_record.id) >= 500 THEN
+    RAISE EXCEPTION 'This link has received as many uploads as it can take.';
+  END IF;
+
+  IF (SELECT count(*) FROM event_contributions
+      WHERE link_id = link_record.id AND created_at > NOW() - INTERVAL '10 minutes') >= 50 THEN
+    RAISE EXCEPTION 'Too many uploads at once. Please wait a few minutes and try again.';
+  END IF;
+
+  IF key_param IS NULL
+     OR left(key_param, length(key_prefix)) <> key_prefix
+     OR length(key_param) = length(key_prefix)
+     OR key_param ~ '(^|/)\.\.(/|$)'
+     OR key_param ~ '[?#\\]' THEN
+    RAISE EXCEPTION 'The file was not uploaded through this link.';
+  END IF;
+
+  INSERT INTO event_contributions (link_id, event_id, uploader_name, message, storage_key, type, filename, size, metadata)
+  VALUES (
+    link_record.id,
+    link_record.event_id,
+    left(trim(uploader_name_param), 100),
+    NULLIF(left(trim(COALESCE(message_param, '')), 1000), ''),
+    key_param,
+    CASE WHEN type_param = 'video' THEN 'video' ELSE 'image' END,
+    left(filename_param, 255),
+    size_param,
+    COALESCE(metadata_param, '{}')
+  )
+  RETURNING id INTO contribution_id;
+
+  RETURN contribution_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_event_contribution(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BIGINT, JSONB) TO anon, authenticated;
+
+--------------------------------------------------------------------------------
+-- 3. MODERATION
+-- Family admins approve or reject a pending contribution. Approving takes the
+-- public URL of its storage key from the admin's app, files it in
+-- family_media under the event's folder and appends it to
+-- events.content.assets in one go, and returns the appended asset so an open
+-- editor can show it; rejecting returns NULL.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION review_event_contribution(contribution_param UUID, approve_param BOOLEAN, url_param TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  contribution event_contributions%ROWTYPE;
+  event_record events%ROWTYPE;
+  asset JSONB;
+BEGIN
+  SELECT * INTO contribution FROM event_contributions WHERE id = contribution_param FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contribution not found.';
+  END IF;
+
+  SELECT * INTO event_record FROM events WHERE id = contribution.event_id;
+  IF NOT public.is_admin() OR event_record.family_id NOT IN (SELECT family_id FROM profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only family admins can review contributions.';
+  END IF;
+
+  IF contribution.status <> 'pending' THEN
+    RAISE EXCEPTION 'This contribution has already been reviewed.';
+  END IF;
+
+  IF approve_param AND (url_param IS NULL OR right(url_param, length(contribution.storage_key) + 1) <> '/' || contribution.storage_key) THEN
+    RAISE EXCEPTION 'The URL does not point at this contribution.';
+  END IF;
+
+  UPDATE event_contributions
+  SET status = CASE WHEN approve_param THEN 'approved' ELSE 'rejected' END,
+      url = CASE WHEN approve_param THEN url_param END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = contribution.id;
+
+  IF NOT approve_param THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO family_media (family_id, url, type, filename, folder, size, category, uploaded_by, metadata)
+  VALUES (
+    event_record.family_id,
+    url_param,
+    contribution.type,
+    contribution.filename,
+    'Events/' || trim(event_record.title),
+    contribution.size,
+    'general',
+    auth.uid(),
+    contribution.metadata || jsonb_build_object(
+      'storage', 'r2',
+      'contributedBy', contribution.uploader_name,
+      'contributionMessage', contribution.message
+    )
+  );
+
+  asset := jsonb_build_object(
+    'id', 'contribution-' || contribution.id,
+    'url', url_param,
+    'type', contribution.type,
+    'filename', contribution.filename,
+    'caption', COALESCE(contribution.message, 'Shared by ' || contribution.uploader_name)
+  );
+
+  UPDATE events
+  SET content = CASE WHEN jsonb_typeof(content) = 'object' THEN content ELSE '{}'::jsonb END
+                || jsonb_build_object('assets', COALESCE(
+                     CASE WHEN jsonb_typeof(content->'assets') = 'array' THEN content->'assets' END,
+                     '[]'::jsonb) || jsonb_build_array(asset))
+  WHERE id = event_record.id;
+
+  RETURN asset;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_event_contribution(UUID, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,444 @@
+-- Comments and reactions on albums, events and stacks
+-- Family members and, where a share link allows comments, guests leave
+-- threaded comments and emoji reactions on single album pages, stack items
+-- and gallery media. Each row names its album, event or stack (target_type,
+-- target_id) and the item inside it (item_key: the page id, the stack item
+-- id or the media URL). Family members read and write the tables directly;
+-- guests only go through the functions below, which check the link. A
+-- comment that mentions family members notifies them in notifications.
+
+CREATE TABLE IF NOT EXISTS public.media_comments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    family_id UUID NOT NULL REFERENCES public.family_groups(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('album', 'event', 'stack')),
+    target_id UUID NOT NULL,
+    item_key TEXT NOT NULL CHECK (char_length(item_key) BETWEEN 1 AND 2048),
+    parent_id UUID REFERENCES public.media_comments(id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+    author_id UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    guest_name TEXT,            -- Set instead of author_id for guests
+    shared_link_id UUID REFERENCES public.shared_links(id) ON DELETE SET NULL,
+    mentioned_ids UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_comments_target
+ON public.media_comments(target_type, target_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.media_reactions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    family_id UUID NOT NULL REFERENCES public.family_groups(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('album', 'event', 'stack')),
+    target_id UUID NOT NULL,
+    item_key TEXT NOT NULL CHECK (char_length(item_key) BETWEEN 1 AND 2048),
+    emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+    author_id UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    guest_name TEXT,
+    shared_link_id UUID REFERENCES public.shared_links(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_reactions_target
+ON public.media_reactions(target_type, target_id);
+
+-- One of each emoji per person and item
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_reactions_member
+ON public.media_reactions(target_type, target_id, item_key, emoji, author_id)
+WHERE author_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_reactions_guest
+ON public.media_reactions(target_type, target_id, item_key, emoji, shared_link_id, lower(guest_name))
+WHERE author_id IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.media_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.media_reactions ENABLE ROW LEVEL SECURITY;
+
+--------------------------------------------------------------------------------
+-- 1. FAMILY AND THREADS
+-- family_id is taken from the album, event or stack on insert, so the
+-- policies below can check it. A reply must stay in its parent's thread.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION media_feedback_family(target_type_param TEXT, target_id_param UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE target_type_param
+    WHEN 'album' THEN (SELECT family_id FROM albums WHERE id = target_id_param)
+    WHEN 'event' THEN (SELECT family_id FROM events WHERE id = target_id_param)
+    WHEN 'stack' THEN (SELECT family_id FROM stacks WHERE id = target_id_param)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION prepare_media_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.family_id := media_feedback_family(NEW.target_type, NEW.target_id);
+  IF NEW.family_id IS NULL THEN
+    RAISE EXCEPTION 'Nothing to comment on.';
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM media_comments
+    WHERE id = NEW.parent_id
+      AND target_type = NEW.target_type
+      AND target_id = NEW.target_id
+      AND item_key = NEW.item_key
+  ) THEN
+    RAISE EXCEPTION 'The comment you replied to is gone.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_media_comment ON public.media_comments;
+CREATE TRIGGER prepare_media_comment
+BEFORE INSERT ON public.media_comments
+FOR EACH ROW EXECUTE FUNCTION prepare_media_comment();
+
+CREATE OR REPLACE FUNCTION prepare_media_reaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.family_id := media_feedback_family(NEW.target_type, NEW.target_id);
+  IF NEW.family_id IS NULL THEN
+    RAISE EXCEPTION 'Nothing to react to.';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_media_reaction ON public.media_reactions;
+CREATE TRIGGER prepare_media_reaction
+BEFORE INSERT ON public.media_reactions
+FOR EACH ROW EXECUTE FUNCTION prepare_media_reaction();
+
+--------------------------------------------------------------------------------
+-- 2. POLICIES
+-- Family members see everything left on the family's items, including guest
+-- comments, and post under their own name. Authors delete their own comments
+-- and reactions; family admins can delete any comment.
+--------------------------------------------------------------------------------
+DROP POLICY IF EXISTS "View family comments" ON public.media_comments;
+CREATE POLICY "View family comments"
+ON public.media_comments FOR SELECT
+TO authenticated
+USING (family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "Post family comments" ON public.media_comments;
+CREATE POLICY "Post family comments"
+ON public.media_comments FOR INSERT
+TO authenticated
+WITH CHECK (
+  author_id = auth.uid()
+  AND guest_name IS NULL
+  AND shared_link_id IS NULL
+  AND family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Delete own or moderated comments" ON public.media_comments;
+CREATE POLICY "Delete own or moderated comments"
+ON public.media_comments FOR DELETE
+TO authenticated
+USING (
+  author_id = auth.uid()
+  OR (public.is_admin() AND family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid()))
+);
+
+DROP POLICY IF EXISTS "View family reactions" ON public.media_reactions;
+CREATE POLICY "View family reactions"
+ON public.media_reactions FOR SELECT
+TO authenticated
+USING (family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "Add own reactions" ON public.media_reactions;
+CREATE POLICY "Add own reactions"
+ON public.media_reactions FOR INSERT
+TO authenticated
+WITH CHECK (
+  author_id = auth.uid()
+  AND guest_name IS NULL
+  AND shared_link_id IS NULL
+  AND family_id IN (SELECT family_id FROM profiles WHERE id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Remove own reactions" ON public.media_reactions;
+CREATE POLICY "Remove own reactions"
+ON public.media_reactions FOR DELETE
+TO authenticated
+USING (author_id = auth.uid());
+
+--------------------------------------------------------------------------------
+-- 3. MENTIONS
+-- mentioned_ids lists the profiles picked in the comment box. Each one that
+-- belongs to the item's family, other than the author, gets a notification.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  author_name TEXT;
+BEGIN
+  IF cardinality(NEW.mentioned_ids) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  author_name := COALESCE(
+    NEW.guest_name,
+    (SELECT full_name FROM profiles WHERE id = NEW.author_id),
+    'Someone'
+  );
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  SELECT
+    p.id,
+    'comment_mention',
+    'You were mentioned',
+    author_name || ' mentioned you: "' || left(NEW.body, 120) || '"',
+    jsonb_build_object(
+      'comment_id', NEW.id,
+      'target_type', NEW.target_type,
+      'target_id', NEW.target_id,
+      'item_key', NEW.item_key
+    )
+  FROM profiles p
+  WHERE p.id = ANY(NEW.mentioned_ids)
+    AND p.family_id = NEW.family_id
+    AND p.id IS DISTINCT FROM NEW.author_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_comment_mentions ON public.media_comments;
+CREATE TRIGGER notify_comment_mentions
+AFTER INSERT ON public.media_comments
+FOR EACH ROW EXECUTE FUNCTION notify_comment_mentions();
+
+--------------------------------------------------------------------------------
+-- 4. GUESTS
+-- Only links with allow_comments, active, unexpired and with the right
+-- password. Like get_shared_media_scope these do not count a view. Guests
+-- post under the display name they enter and cannot mention anyone.
+-- get_shared_feedback answers { comments, reactions } for everything the
+-- link shows, or NULL when the link does not allow comments.
+-- post_shared_comment and toggle_shared_reaction answer { success, error }
+-- on failure instead of raising, so a wrong password stays counted towards
+-- the link's lockout, and check their own input before the link so no
+-- message tells a right password apart from a wrong one.
+--------------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION open_comment_link(token_param TEXT, password_param TEXT)
+RETURNS shared_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+BEGIN
+  SELECT * INTO link_record FROM shared_links
+  WHERE token = token_param
+    AND is_active = TRUE
+    AND allow_comments = TRUE
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF shared_link_password_failure(link_record.id, password_param) IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN link_record;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION open_comment_link(TEXT, TEXT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION shared_comment_json(comment_record media_comments)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', comment_record.id,
+    'item_key', comment_record.item_key,
+    'parent_id', comment_record.parent_id,
+    'body', comment_record.body,
+    'guest_name', comment_record.guest_name,
+    'created_at', comment_record.created_at,
+    'profiles', (SELECT jsonb_build_object('full_name', p.full_name, 'avatar_url', p.avatar_url)
+                 FROM profiles p WHERE p.id = comment_record.author_id)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION shared_comment_json(media_comments) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION get_shared_feedback(token_param TEXT, password_param TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+  target_type_value TEXT;
+  target_uuid UUID;
+BEGIN
+  link_record := open_comment_link(token_param, password_param);
+  IF link_record.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  target_type_value := CASE WHEN link_record.album_id IS NOT NULL THEN 'album'
+                            WHEN link_record.event_id IS NOT NULL THEN 'event'
+                            ELSE 'stack' END;
+  target_uuid := COALESCE(link_record.album_id, link_record.event_id, link_record.stack_id);
+
+  RETURN jsonb_build_object(
+    'comments', (
+      SELECT COALESCE(jsonb_agg(shared_comment_json(c) ORDER BY c.created_at), '[]'::jsonb)
+      FROM media_comments c
+      WHERE c.target_type = target_type_value AND c.target_id = target_uuid
+    ),
+    'reactions', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'item_key', r.item_key,
+        'emoji', r.emoji,
+        'guest_name', r.guest_name,
+        'shared_link_id', r.shared_link_id
+      )), '[]'::jsonb)
+      FROM media_reactions r
+      WHERE r.target_type = target_type_value AND r.target_id = target_uuid
+    ),
+    'link_id', link_record.id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_feedback(TEXT, TEXT) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION post_shared_comment(
+  token_param TEXT,
+  password_param TEXT,
+  guest_name_param TEXT,
+  item_key_param TEXT,
+  parent_id_param UUID,
+  body_param TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+  comment_record media_comments%ROWTYPE;
+BEGIN
+  IF COALESCE(trim(guest_name_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Please enter your name.');
+  END IF;
+
+  IF COALESCE(trim(body_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The comment is empty.');
+  END IF;
+
+  link_record := open_comment_link(token_param, password_param);
+  IF link_record.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Comments are not open on this link.');
+  END IF;
+
+  INSERT INTO media_comments (target_type, target_id, item_key, parent_id, body, author_id, guest_name, shared_link_id)
+  VALUES (
+    CASE WHEN link_record.album_id IS NOT NULL THEN 'album'
+         WHEN link_record.event_id IS NOT NULL THEN 'event'
+         ELSE 'stack' END,
+    COALESCE(link_record.album_id, link_record.event_id, link_record.stack_id),
+    item_key_param,
+    parent_id_param,
+    left(trim(body_param), 2000),
+    NULL,
+    left(trim(guest_name_param), 100),
+    link_record.id
+  )
+  RETURNING * INTO comment_record;
+
+  RETURN jsonb_build_object('success', true, 'comment', shared_comment_json(comment_record));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION post_shared_comment(TEXT, TEXT, TEXT, TEXT, UUID, TEXT) TO anon, authenticated;
+
+-- Adds the reaction, or takes it back when the guest already left it.
+-- Answers { success, reacted } with whether the guest's reaction is there now.
+DROP FUNCTION IF EXISTS toggle_shared_reaction(TEXT, TEXT, TEXT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION toggle_shared_reaction(
+  token_param TEXT,
+  password_param TEXT,
+  guest_name_param TEXT,
+  item_key_param TEXT,
+  emoji_param TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+  target_type_value TEXT;
+  target_uuid UUID;
+BEGIN
+  IF COALESCE(trim(guest_name_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Please enter your name.');
+  END IF;
+
+  link_record := open_comment_link(token_param, password_param);
+  IF link_record.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reactions are not open on this link.');
+  END IF;
+
+  target_type_value := CASE WHEN link_record.album_id IS NOT NULL THEN 'album'
+                            WHEN link_record.event_id IS NOT NULL THEN 'event'
+                            ELSE 'stack' END;
+  target_uuid := COALESCE(link_record.album_id, link_record.event_id, link_record.stack_id);
+
+  DELETE FROM media_reactions
+  WHERE target_type = target_type_value
+    AND target_id = target_uuid
+    AND item_key = item_key_param
+    AND emoji = emoji_param
+    AND author_id IS NULL
+    AND shared_link_id = link_record.id
+    AND lower(guest_name) = lower(left(trim(guest_name_param), 100));
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'reacted', false);
+  END IF;
+
+  INSERT INTO media_reactions (target_type, target_id, item_key, emoji, author_id, guest_name, shared_link_id)
+  VALUES (target_type_value, target_uuid, item_key_param, emoji_param, NULL, left(trim(guest_name_param), 100), link_record.id);
+
+  RETURN jsonb_build_object('success', true, 'reacted', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION toggle_shared_reaction(TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,30 @@
+-- Editors can rename a revision but not rewrite what it recorded.
+-- Run with `supabase test db`.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+SELECT ok(
+  has_column_privilege('authenticated', 'public.album_revisions', 'name', 'UPDATE'),
+  'revisions can be renamed'
+);
+
+SELECT ok(
+  NOT has_column_privilege('authenticated', 'public.album_revisions', 'content', 'UPDATE'),
+  'revision content cannot be changed'
+);
+
+SELECT ok(
+  NOT has_column_privilege('authenticated', 'public.album_revisions', 'author_id', 'UPDATE'),
+  'revision author cannot be changed'
+);
+
+SELECT ok(
+  NOT has_column_privilege('anon', 'public.album_revisions', 'name', 'UPDATE'),
+  'guests cannot rename revisions'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,65 @@
+-- A visit to a password protected link is only started with the password,
+-- and a visit keeps a bounded list of viewed items.
+-- Run with `supabase test db`.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO family_groups (id, name) VALUES ('00000000-0000-0000-0000-0000000000f3', 'Test family');
+INSERT INTO events (id, family_id, title, event_date)
+VALUES ('00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-0000000000f3', 'Wedding', '2026-08-01');
+INSERT INTO shared_links (event_id, token, expires_at, password_hash)
+VALUES (
+  '00000000-0000-0000-0000-0000000000e3',
+  'visit-test-token',
+  NULL,
+  encode(extensions.digest('visit-test-token:secret', 'sha256'), 'hex')
+);
+
+SELECT is(
+  start_shared_link_visit('visit-test-token', 'wrong', 'mobile'),
+  NULL,
+  'no visit is started with a wrong password'
+);
+
+SELECT is(
+  (SELECT password_failures FROM shared_links WHERE token = 'visit-test-token'),
+  1,
+  'the wrong password is counted'
+);
+
+SELECT isnt(
+  start_shared_link_visit('visit-test-token', 'secret', 'mobile'),
+  NULL,
+  'a visit is started with the password'
+);
+
+SELECT record_shared_link_visit(
+  (SELECT id FROM shared_link_visits ORDER BY visited_at DESC LIMIT 1),
+  'visit-test-token',
+  ARRAY['cover', repeat('x', 500)],
+  5
+);
+
+SELECT record_shared_link_visit(
+  (SELECT id FROM shared_link_visits ORDER BY visited_at DESC LIMIT 1),
+  'visit-test-token',
+  ARRAY(SELECT 'item-' || n FROM generate_series(1, 600) AS n),
+  10
+);
+
+SELECT is(
+  (SELECT cardinality(viewed_items) FROM shared_link_visits ORDER BY visited_at DESC LIMIT 1),
+  500,
+  'a visit keeps at most 500 items'
+);
+
+SELECT ok(
+  (SELECT bool_and(char_length(item) <= 200) FROM shared_link_visits v, unnest(v.viewed_items) AS item),
+  'overlong items are dropped'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,67 @@
+-- Wrong passwords sent with a guest comment or reaction count towards the
+-- share link's lockout like any other wrong password.
+-- Run with `supabase test db`.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO family_groups (id, name) VALUES ('00000000-0000-0000-0000-0000000000f1', 'Test family');
+INSERT INTO events (id, family_id, title, event_date)
+VALUES ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000f1', 'Picnic', '2026-06-01');
+INSERT INTO shared_links (event_id, token, expires_at, allow_comments, password_hash)
+VALUES (
+  '00000000-0000-0000-0000-0000000000e1',
+  'lockout-test-token',
+  NULL,
+  TRUE,
+  encode(extensions.digest('lockout-test-token:secret', 'sha256'), 'hex')
+);
+
+SELECT is(
+  post_shared_comment('lockout-test-token', 'wrong', 'Guest', 'event', NULL, 'Hello')->>'success',
+  'false',
+  'a comment with a wrong password is refused'
+);
+
+SELECT is(
+  (SELECT password_failures FROM shared_links WHERE token = 'lockout-test-token'),
+  1,
+  'the failed comment is counted'
+);
+
+SELECT is(
+  toggle_shared_reaction('lockout-test-token', 'wrong', 'Guest', 'event', '❤️')->>'success',
+  'false',
+  'a reaction with a wrong password is refused'
+);
+
+SELECT is(
+  (SELECT password_failures FROM shared_links WHERE token = 'lockout-test-token'),
+  2,
+  'the failed reaction is counted'
+);
+
+SELECT post_shared_comment('lockout-test-token', 'wrong', 'Guest', 'event', NULL, 'Hello')
+FROM generate_series(1, 3);
+
+SELECT ok(
+  (SELECT password_locked_until > NOW() FROM shared_links WHERE token = 'lockout-test-token'),
+  'five wrong passwords lock the link'
+);
+
+SELECT is(
+  post_shared_comment('lockout-test-token', 'secret', 'Guest', 'event', NULL, 'Hello')->>'success',
+  'false',
+  'the right password is refused while the link is locked'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM media_comments WHERE item_key = 'event' AND guest_name = 'Guest'),
+  0,
+  'no comment was posted'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,46 @@
+-- Media of a link whose views are used up is only served to the visit that
+-- took the last view, not to anyone holding the token afterwards.
+-- Run with `supabase test db`.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO family_groups (id, name) VALUES ('00000000-0000-0000-0000-0000000000f2', 'Test family');
+-- Any string in the shown row counts, so the key can sit in the description
+INSERT INTO events (id, family_id, title, event_date, description)
+VALUES (
+  '00000000-0000-0000-0000-0000000000e2',
+  '00000000-0000-0000-0000-0000000000f2',
+  'Beach',
+  '2026-07-01',
+  'media/00000000-0000-0000-0000-0000000000f2/beach.jpg'
+);
+INSERT INTO shared_links (event_id, token, expires_at, max_views)
+VALUES ('00000000-0000-0000-0000-0000000000e2', 'views-test-token', NULL, 1);
+
+SELECT is(
+  get_shared_media_scope('views-test-token', NULL, ARRAY['media/00000000-0000-0000-0000-0000000000f2/beach.jpg'])->'keys',
+  '["media/00000000-0000-0000-0000-0000000000f2/beach.jpg"]'::jsonb,
+  'media is served before the link is opened'
+);
+
+SELECT is(validate_shared_link('views-test-token')->>'success', 'true', 'the only view is taken');
+
+SELECT isnt(
+  get_shared_media_scope('views-test-token', NULL, ARRAY['media/00000000-0000-0000-0000-0000000000f2/beach.jpg']),
+  NULL,
+  'the visit that took the last view still gets its media'
+);
+
+UPDATE shared_links SET last_viewed_at = NOW() - INTERVAL '3 hours' WHERE token = 'views-test-token';
+
+SELECT is(
+  get_shared_media_scope('views-test-token', NULL, ARRAY['media/00000000-0000-0000-0000-0000000000f2/beach.jpg']),
+  NULL,
+  'a link with its views used up stops serving media'
+);
+
+SELECT * FROM finish();
+ROLLBACK;